@@ -4,6 +4,13 @@ import { prisma } from '@ironscout/db';
 import { getAdminSession } from '@/lib/auth';
 import { loggers } from '@/lib/logger';
 import { decryptSecret } from '@ironscout/crypto';
+import { isHttpTransport } from '@/lib/affiliate-feed-validation';
+import {
+  buildFeedUrl,
+  buildHttpHeaders,
+  decryptHttpCredentials,
+  probeHttpFeed,
+} from '@/lib/affiliate-feed-http';
 import * as ftp from 'basic-ftp';
 import { Client as SftpClient, SFTPWrapper, FileEntry } from 'ssh2';
 
@@ -66,6 +73,21 @@ export async function testFeedConnection(
     overrideFields: overrideParams ? Object.keys(overrideParams) : [],
   });
 
+  if (isHttpTransport(feed.transport)) {
+    log.info('TEST_CONNECTION_HTTP', { feedId, transport: feed.transport, httpAuthType: feed.httpAuthType });
+    try {
+      const credentials = decryptHttpCredentials(feed.secretCiphertext, feed.secretKeyId);
+      const url = buildFeedUrl({ transport: feed.transport, ...connectionParams, signedUrl: credentials.signedUrl });
+      const result = await probeHttpFeed(url, buildHttpHeaders(feed.httpAuthType, connectionParams.username, credentials));
+      log.info(result.success ? 'HTTP_TEST_SUCCESS' : 'HTTP_TEST_ERROR', { feedId, error: result.error });
+      return result;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      log.error('HTTP_TEST_ERROR', { feedId, error: errorMsg });
+      return { success: false, error: errorMsg };
+    }
+  }
+
   if (!feed.secretCiphertext) {
     log.warn('TEST_CONNECTION_NO_CREDENTIALS', { feedId });
     return { success: false, error: 'Credentials not configured - save password first' };
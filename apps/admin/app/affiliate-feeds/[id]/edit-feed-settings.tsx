@@ -5,6 +5,9 @@ import { useRouter } from 'next/navigation';
 import { Pencil, X, Check, Loader2, Key, AlertTriangle, CheckCircle, XCircle, Plug } from 'lucide-react';
 import { updateAffiliateFeed } from '../actions';
 import { testFeedConnection, type TestConnectionParams } from './actions';
+import type { FeedCompression, FeedFormat, HttpAuthType } from '@/lib/affiliate-feed-validation';
+
+const DEFAULT_PORTS: Record<string, number> = { SFTP: 22, FTP: 21, HTTPS: 443 };
 
 interface EditFeedSettingsProps {
   feed: {
@@ -15,13 +18,15 @@ interface EditFeedSettingsProps {
     path: string | null;
     username: string | null;
     transport: string;
+    httpAuthType: string;
     format: string;
     compression: string;
+    archiveEntryGlob: string | null;
     scheduleFrequencyHours: number | null;
     expiryHours: number;
     maxFileSizeBytes: bigint | null;
     maxRowCount: number | null;
-    secretCiphertext: Uint8Array | null;
+    hasCredentials: boolean;
   };
 }
 
@@ -45,25 +50,42 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
     path: string;
     username: string;
     password: string;
+    httpAuthType: HttpAuthType;
+    bearerToken: string;
+    customHeaders: string;
+    signedUrl: string;
     scheduleFrequencyHours: number;
     expiryHours: number;
-    compression: 'NONE' | 'GZIP';
+    format: FeedFormat;
+    compression: FeedCompression;
+    archiveEntryGlob: string;
   }>({
     host: feed.host || '',
-    port: feed.port || (feed.transport === 'SFTP' ? 22 : 21),
+    port: feed.port || DEFAULT_PORTS[feed.transport] || 22,
     path: feed.path || '',
     username: feed.username || '',
     password: '', // Always empty - only set if changing
+    httpAuthType: (feed.httpAuthType as HttpAuthType) || 'NONE',
+    bearerToken: '',
+    customHeaders: '',
+    signedUrl: '',
     scheduleFrequencyHours: feed.scheduleFrequencyHours || 24,
     expiryHours: feed.expiryHours || 48,
-    compression: (feed.compression as 'NONE' | 'GZIP') || 'NONE',
+    format: (feed.format as FeedFormat) || 'CSV',
+    compression: (feed.compression as FeedCompression) || 'NONE',
+    archiveEntryGlob: feed.archiveEntryGlob || '',
   });
 
   // Track if form has been modified since last test
   const [formModifiedSinceTest, setFormModifiedSinceTest] = useState(false);
 
-  const hasCredentials = !!feed.secretCiphertext;
+  const hasCredentials = feed.hasCredentials;
   const isRunning = feed.status === 'ENABLED';
+  const isHttp = feed.transport === 'HTTPS' || feed.transport === 'SIGNED_URL';
+  const isSignedUrl = feed.transport === 'SIGNED_URL';
+  const showUsernamePassword = !isHttp || formData.httpAuthType === 'BASIC';
+  // Secrets entered in the form (blank fields keep the stored value)
+  const secretsChanged = !!(formData.password || formData.bearerToken || formData.customHeaders || formData.signedUrl);
 
   // Can only save if test passed and form hasn't been modified since
   const canSave = testPassed && !formModifiedSinceTest;
@@ -82,18 +104,24 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
     testAbortedRef.current = false;
 
     try {
-      // If password changed, we need to save first before testing
-      if (formData.password) {
+      // If credentials changed, we need to save first before testing
+      if (secretsChanged) {
         // Save the credentials first
         const saveResult = await updateAffiliateFeed(feed.id, {
-          host: formData.host,
-          port: formData.port,
-          path: formData.path,
+          ...(!isSignedUrl && { host: formData.host, port: formData.port, path: formData.path }),
           username: formData.username,
-          password: formData.password,
+          password: formData.password || undefined,
+          ...(isHttp && {
+            httpAuthType: formData.httpAuthType,
+            bearerToken: formData.bearerToken || undefined,
+            customHeaders: formData.customHeaders || undefined,
+            signedUrl: formData.signedUrl || undefined,
+          }),
           scheduleFrequencyHours: formData.scheduleFrequencyHours,
           expiryHours: formData.expiryHours,
+          format: formData.format,
           compression: formData.compression,
+          archiveEntryGlob: formData.archiveEntryGlob,
         });
 
         // Check if aborted during save
@@ -107,8 +135,8 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
           return;
         }
 
-        // Clear password field after successful save
-        setFormData(prev => ({ ...prev, password: '' }));
+        // Clear secret fields after successful save
+        setFormData(prev => ({ ...prev, password: '', bearerToken: '', customHeaders: '', signedUrl: '' }));
       }
 
       // Pass current form values to test with unsaved changes
@@ -147,7 +175,7 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
         setIsTesting(false);
       }
     }
-  }, [feed.id, formData]);
+  }, [feed.id, formData, isHttp, isSignedUrl, secretsChanged]);
 
   const handleSave = async () => {
     if (!canSave) return;
@@ -157,19 +185,25 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
 
     try {
       const updateData: Record<string, unknown> = {
-        host: formData.host,
-        port: formData.port,
-        path: formData.path,
+        ...(!isSignedUrl && { host: formData.host, port: formData.port, path: formData.path }),
         username: formData.username,
         scheduleFrequencyHours: formData.scheduleFrequencyHours,
         expiryHours: formData.expiryHours,
+        format: formData.format,
         compression: formData.compression,
+        archiveEntryGlob: formData.archiveEntryGlob,
       };
 
-      // Only include password if user entered a new one
+      // Only include secrets if user entered new ones
       if (formData.password) {
         updateData.password = formData.password;
       }
+      if (isHttp) {
+        updateData.httpAuthType = formData.httpAuthType;
+        if (formData.bearerToken) updateData.bearerToken = formData.bearerToken;
+        if (formData.customHeaders) updateData.customHeaders = formData.customHeaders;
+        if (formData.signedUrl) updateData.signedUrl = formData.signedUrl;
+      }
 
       const result = await updateAffiliateFeed(feed.id, updateData);
 
@@ -194,13 +228,19 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
     setIsTesting(false);
     setFormData({
       host: feed.host || '',
-      port: feed.port || (feed.transport === 'SFTP' ? 22 : 21),
+      port: feed.port || DEFAULT_PORTS[feed.transport] || 22,
       path: feed.path || '',
       username: feed.username || '',
       password: '',
+      httpAuthType: (feed.httpAuthType as HttpAuthType) || 'NONE',
+      bearerToken: '',
+      customHeaders: '',
+      signedUrl: '',
       scheduleFrequencyHours: feed.scheduleFrequencyHours || 24,
       expiryHours: feed.expiryHours || 48,
-      compression: (feed.compression as 'NONE' | 'GZIP') || 'NONE',
+      format: (feed.format as FeedFormat) || 'CSV',
+      compression: (feed.compression as FeedCompression) || 'NONE',
+      archiveEntryGlob: feed.archiveEntryGlob || '',
     });
     setIsOpen(false);
     setError(null);
@@ -263,36 +303,51 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
                 {/* Connection Settings */}
                 <div>
                   <h3 className="text-sm font-medium text-gray-700 mb-3">Connection Settings</h3>
-                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700">Host</label>
-                      <input
-                        type="text"
-                        value={formData.host}
-                        onChange={(e) => handleFormChange('host', e.target.value)}
-                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
-                      />
-                    </div>
+                  {isSignedUrl ? (
                     <div>
-                      <label className="block text-sm font-medium text-gray-700">Port</label>
-                      <input
-                        type="number"
-                        value={formData.port}
-                        onChange={(e) => handleFormChange('port', parseInt(e.target.value) || 0)}
-                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
-                      />
-                    </div>
-                    <div className="sm:col-span-2">
-                      <label className="block text-sm font-medium text-gray-700">Path</label>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Signed URL {hasCredentials && <span className="text-gray-400">(leave blank to keep)</span>}
+                      </label>
                       <input
-                        type="text"
-                        value={formData.path}
-                        onChange={(e) => handleFormChange('path', e.target.value)}
-                        placeholder="/path/to/feed.csv"
+                        type="password"
+                        value={formData.signedUrl}
+                        onChange={(e) => handleFormChange('signedUrl', e.target.value.trim())}
+                        placeholder={hasCredentials ? `https://${feed.host}${feed.path}?…` : 'https://…'}
                         className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono border px-3 py-2"
                       />
                     </div>
-                  </div>
+                  ) : (
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Host</label>
+                        <input
+                          type="text"
+                          value={formData.host}
+                          onChange={(e) => handleFormChange('host', e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Port</label>
+                        <input
+                          type="number"
+                          value={formData.port}
+                          onChange={(e) => handleFormChange('port', parseInt(e.target.value) || 0)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                        />
+                      </div>
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">Path</label>
+                        <input
+                          type="text"
+                          value={formData.path}
+                          onChange={(e) => handleFormChange('path', e.target.value)}
+                          placeholder="/path/to/feed.csv"
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono border px-3 py-2"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Credentials */}
@@ -307,34 +362,80 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
                     )}
                   </h3>
                   <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700">Username</label>
-                      <input
-                        type="text"
-                        value={formData.username}
-                        onChange={(e) => handleFormChange('username', e.target.value)}
-                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700">
-                        Password {hasCredentials && <span className="text-gray-400">(leave blank to keep)</span>}
-                      </label>
-                      <input
-                        type="password"
-                        value={formData.password}
-                        onChange={(e) => handleFormChange('password', e.target.value)}
-                        placeholder={hasCredentials ? '••••••••' : 'Enter password'}
-                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
-                      />
-                    </div>
+                    {isHttp && (
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">Authentication</label>
+                        <select
+                          value={formData.httpAuthType}
+                          onChange={(e) => handleFormChange('httpAuthType', e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                        >
+                          <option value="NONE">None</option>
+                          <option value="BASIC">Basic (username + password)</option>
+                          <option value="BEARER">Bearer token</option>
+                        </select>
+                      </div>
+                    )}
+                    {showUsernamePassword && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Username</label>
+                          <input
+                            type="text"
+                            value={formData.username}
+                            onChange={(e) => handleFormChange('username', e.target.value)}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">
+                            Password {hasCredentials && <span className="text-gray-400">(leave blank to keep)</span>}
+                          </label>
+                          <input
+                            type="password"
+                            value={formData.password}
+                            onChange={(e) => handleFormChange('password', e.target.value)}
+                            placeholder={hasCredentials ? '••••••••' : 'Enter password'}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                          />
+                        </div>
+                      </>
+                    )}
+                    {isHttp && formData.httpAuthType === 'BEARER' && (
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Bearer Token {hasCredentials && <span className="text-gray-400">(leave blank to keep)</span>}
+                        </label>
+                        <input
+                          type="password"
+                          value={formData.bearerToken}
+                          onChange={(e) => handleFormChange('bearerToken', e.target.value)}
+                          placeholder={hasCredentials ? '••••••••' : 'Enter token'}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                        />
+                      </div>
+                    )}
+                    {isHttp && (
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Custom Headers {hasCredentials && <span className="text-gray-400">(leave blank to keep)</span>}
+                        </label>
+                        <textarea
+                          rows={3}
+                          value={formData.customHeaders}
+                          onChange={(e) => handleFormChange('customHeaders', e.target.value)}
+                          placeholder={'X-Api-Key: your-key'}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono border px-3 py-2"
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 {/* Schedule Settings */}
                 <div className="border-t pt-4">
                   <h3 className="text-sm font-medium text-gray-700 mb-3">Schedule Settings</h3>
-                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <div>
                       <label className="block text-sm font-medium text-gray-700">Frequency (hours)</label>
                       <input
@@ -355,6 +456,19 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
                         className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
                       />
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Format</label>
+                      <select
+                        value={formData.format}
+                        onChange={(e) => handleFormChange('format', e.target.value)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                      >
+                        <option value="CSV">CSV</option>
+                        <option value="TSV">TSV</option>
+                        <option value="XML">XML</option>
+                        <option value="NDJSON">NDJSON</option>
+                      </select>
+                    </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700">Compression</label>
                       <select
@@ -364,8 +478,25 @@ export function EditFeedSettings({ feed }: EditFeedSettingsProps) {
                       >
                         <option value="NONE">None</option>
                         <option value="GZIP">GZIP</option>
+                        <option value="ZIP">ZIP archive</option>
+                        <option value="BZIP2">BZIP2</option>
                       </select>
                     </div>
+                    {formData.compression === 'ZIP' && (
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700">Archive Entry</label>
+                        <input
+                          type="text"
+                          value={formData.archiveEntryGlob}
+                          onChange={(e) => handleFormChange('archiveEntryGlob', e.target.value)}
+                          placeholder={`*.${formData.format.toLowerCase()}`}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2 font-mono"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                          Glob for the file to ingest from the archive. Leave blank to use the first file matching the format.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
 
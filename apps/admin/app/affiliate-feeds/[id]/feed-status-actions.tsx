@@ -22,7 +22,7 @@ import {
 import type { affiliate_feeds } from '@ironscout/db/generated/prisma';
 
 interface FeedStatusActionsProps {
-  feed: affiliate_feeds;
+  feed: Pick<affiliate_feeds, 'id' | 'status' | 'manualRunPending' | 'lastContentHash' | 'consecutiveFailures'>;
 }
 
 export function FeedStatusActions({ feed }: FeedStatusActionsProps) {
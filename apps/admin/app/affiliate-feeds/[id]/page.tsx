@@ -1,4 +1,5 @@
 import { prisma } from '@ironscout/db';
+import { maskFeedSecrets } from '@ironscout/crypto';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -13,6 +14,7 @@ import {
   Calendar,
   Download,
   Hash,
+  GitBranch,
 } from 'lucide-react';
 import { FeedStatusActions } from './feed-status-actions';
 import { RunsTable } from './runs-table';
@@ -45,6 +47,7 @@ export default async function AffiliateFeedDetailPage({
         include: {
           retailers: true,
           source_trust_config: true,
+          affiliate_feeds: { select: { id: true, variant: true } },
         },
       },
       affiliate_feed_runs: {
@@ -57,12 +60,16 @@ export default async function AffiliateFeedDetailPage({
           startedAt: true,
           finishedAt: true,
           durationMs: true,
+          compressedBytes: true,
+          uncompressedBytes: true,
           rowsRead: true,
           rowsParsed: true,
           productsUpserted: true,
           pricesWritten: true,
           productsPromoted: true,
           productsRejected: true,
+          productsDeleted: true,
+          productsExpired: true,
           duplicateKeyCount: true,
           urlHashFallbackCount: true,
           errorCount: true,
@@ -100,6 +107,9 @@ export default async function AffiliateFeedDetailPage({
     notFound();
   }
 
+  // Client components learn whether credentials exist, never the ciphertext
+  const feedSettings = maskFeedSecrets(feed);
+
   const status = statusConfig[feed.status];
   const StatusIcon = status.icon;
 
@@ -108,6 +118,9 @@ export default async function AffiliateFeedDetailPage({
   const failedRuns = feed.affiliate_feed_runs.filter(r => r.status === 'FAILED').length;
   const totalProducts = feed.affiliate_feed_runs[0]?.productsUpserted || 0;
 
+  // FULL and DELTA feeds of the same source link to each other
+  const siblingFeed = feed.sources.affiliate_feeds.find((f) => f.id !== feed.id && (f.variant === 'FULL' || f.variant === 'DELTA'));
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -128,13 +141,30 @@ export default async function AffiliateFeedDetailPage({
               </span>
             </div>
             <p className="mt-1 text-sm text-gray-500">
-              {feed.sources.retailers?.name || 'No retailer'} &middot; {feed.network}
+              {feed.sources.retailers?.name || 'No retailer'} &middot; {feed.network} &middot; {feed.variant}
             </p>
           </div>
         </div>
         <div className="flex items-center gap-3">
-          <EditFeedSettings feed={feed} />
-          <FeedStatusActions feed={feed} />
+          {siblingFeed ? (
+            <Link
+              href={`/affiliate-feeds/${siblingFeed.id}`}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <GitBranch className="h-4 w-4" />
+              {siblingFeed.variant === 'DELTA' ? 'View Delta Feed' : 'View Full Feed'}
+            </Link>
+          ) : feed.variant === 'FULL' && (
+            <Link
+              href={`/affiliate-feeds/create?sourceId=${feed.sourceId}`}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <GitBranch className="h-4 w-4" />
+              Add Delta Feed
+            </Link>
+          )}
+          <EditFeedSettings feed={feedSettings} />
+          <FeedStatusActions feed={feedSettings} />
         </div>
       </div>
 
@@ -256,7 +286,10 @@ export default async function AffiliateFeedDetailPage({
                 Transport
               </dt>
               <dd className="mt-1 text-sm text-gray-900">
-                {feed.transport} &middot; {feed.host}:{feed.port}
+                {feed.transport} &middot; {feed.host}{feed.port ? `:${feed.port}` : ''}
+                {(feed.transport === 'HTTPS' || feed.transport === 'SIGNED_URL') && (
+                  <span className="ml-2 text-xs text-gray-500">auth: {feed.httpAuthType}</span>
+                )}
               </dd>
             </div>
 
@@ -275,6 +308,11 @@ export default async function AffiliateFeedDetailPage({
               </dt>
               <dd className="mt-1 text-sm text-gray-900">
                 {feed.format} {feed.compression !== 'NONE' && `(${feed.compression})`}
+                {feed.compression === 'ZIP' && (
+                  <span className="ml-1 font-mono text-xs text-gray-500">
+                    {feed.archiveEntryGlob ?? `first *.${feed.format.toLowerCase()} entry`}
+                  </span>
+                )}
               </dd>
             </div>
 
@@ -377,6 +415,12 @@ export default async function AffiliateFeedDetailPage({
                   {feed.lastContentHash?.slice(0, 16) || '—'}...
                 </dd>
               </div>
+              {feed.lastRemoteEtag && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Last ETag</dt>
+                  <dd className="mt-1 text-sm text-gray-900 font-mono text-xs">{feed.lastRemoteEtag}</dd>
+                </div>
+              )}
             </dl>
           </div>
         </div>
@@ -32,12 +32,16 @@ interface Run {
   startedAt: Date;
   finishedAt: Date | null;
   durationMs: number | null;
+  compressedBytes: bigint | null;
+  uncompressedBytes: bigint | null;
   rowsRead: number | null;
   rowsParsed: number | null;
   productsUpserted: number | null;
   pricesWritten: number | null;
   productsPromoted: number | null;
   productsRejected: number | null;
+  productsDeleted: number | null;
+  productsExpired: number | null;
   duplicateKeyCount: number | null;
   urlHashFallbackCount: number | null;
   errorCount: number | null;
@@ -79,6 +83,10 @@ const triggerLabels: Record<string, string> = {
   RETRY: 'Retry',
 };
 
+function formatMB(bytes: bigint): string {
+  return `${(Number(bytes) / 1024 / 1024).toFixed(2)} MB`;
+}
+
 export function RunsTable({ runs, feedId }: RunsTableProps) {
   const router = useRouter();
   const [expandedRun, setExpandedRun] = useState<string | null>(null);
@@ -380,6 +388,22 @@ export function RunsTable({ runs, feedId }: RunsTableProps) {
                             {run.productsRejected?.toLocaleString() ?? '0'}
                           </dd>
                         </div>
+                        {run.productsDeleted != null && run.productsDeleted > 0 && (
+                          <div>
+                            <dt className="font-medium text-gray-500">Products Deleted</dt>
+                            <dd className="mt-1 text-gray-700">
+                              {run.productsDeleted.toLocaleString()}
+                            </dd>
+                          </div>
+                        )}
+                        {run.productsExpired != null && (
+                          <div>
+                            <dt className="font-medium text-gray-500">Delta Drift Reconciled</dt>
+                            <dd className="mt-1 text-gray-700">
+                              {run.productsExpired.toLocaleString()}
+                            </dd>
+                          </div>
+                        )}
                         <div>
                           <dt className="font-medium text-gray-500">Error Count</dt>
                           <dd className={`mt-1 ${(run.errorCount ?? 0) > 0 ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
@@ -398,6 +422,14 @@ export function RunsTable({ runs, feedId }: RunsTableProps) {
                             {run.urlHashFallbackCount?.toLocaleString() ?? '0'}
                           </dd>
                         </div>
+                        {run.compressedBytes !== null && run.uncompressedBytes !== null && (
+                          <div>
+                            <dt className="font-medium text-gray-500">Compressed → Uncompressed</dt>
+                            <dd className="mt-1 text-gray-700">
+                              {formatMB(run.compressedBytes)} → {formatMB(run.uncompressedBytes)}
+                            </dd>
+                          </div>
+                        )}
                         {run.expiryBlocked && (
                           <>
                             <div>
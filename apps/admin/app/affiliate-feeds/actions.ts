@@ -14,11 +14,24 @@ import {
   validateNetwork,
   validateFormat,
   validateCompression,
+  validateArchiveEntryGlob,
+  validateVariant,
+  validateScoringStrategy,
   validateMaxFileSizeBytes,
   validateMaxRowCount,
+  validateHttpAuthType,
+  validateSignedUrl,
+  parseCustomHeaders,
+  isHttpTransport,
   ValidationError,
+  type FeedFormat,
+  type FeedCompression,
+  type FeedVariant,
+  type HttpAuthType,
+  type ScoringStrategy,
 } from '@/lib/affiliate-feed-validation';
-import { encryptSecret, decryptSecret } from '@ironscout/crypto';
+import { decryptHttpCredentials, encryptHttpCredentials, mergeHttpCredentials } from '@/lib/affiliate-feed-http';
+import { encryptSecret, decryptSecret, maskFeedSecrets } from '@ironscout/crypto';
 
 // =============================================================================
 // Types
@@ -26,15 +39,17 @@ import { encryptSecret, decryptSecret } from '@ironscout/crypto';
 
 export interface CreateFeedInput {
   sourceId: string;
-  network: 'IMPACT';
+  network: 'IMPACT' | 'CJ' | 'RAKUTEN';
+  variant?: FeedVariant; // DELTA requires an existing FULL feed for the source
   transport: 'FTP' | 'SFTP';
   host: string;
   port?: number | null;
   path: string;
   username: string;
   password: string;
-  format?: 'CSV'; // v1 only supports CSV
-  compression?: 'NONE' | 'GZIP';
+  format?: FeedFormat;
+  compression?: FeedCompression;
+  archiveEntryGlob?: string | null; // ZIP only
   scheduleFrequencyHours?: number | null;
   expiryHours?: number;
   maxFileSizeBytes?: bigint | null;
@@ -47,8 +62,14 @@ export interface UpdateFeedInput {
   path?: string;
   username?: string;
   password?: string; // Only set if changing
-  format?: 'CSV'; // v1 only supports CSV
-  compression?: 'NONE' | 'GZIP';
+  // HTTPS / SIGNED_URL only - secrets are only set if changing
+  httpAuthType?: HttpAuthType;
+  bearerToken?: string;
+  customHeaders?: string; // "Name: value" per line; replaces stored headers
+  signedUrl?: string;
+  format?: FeedFormat;
+  compression?: FeedCompression;
+  archiveEntryGlob?: string | null; // ZIP only; blank selects by format extension
   scheduleFrequencyHours?: number | null;
   expiryHours?: number;
   maxFileSizeBytes?: bigint | null;
@@ -75,6 +96,7 @@ export async function createAffiliateFeed(data: CreateFeedInput) {
     validatePath(data.path);
     validateFormat(data.format ?? 'CSV');
     validateCompression(data.compression ?? 'NONE');
+    const archiveEntryGlob = data.compression === 'ZIP' ? validateArchiveEntryGlob(data.archiveEntryGlob) : null;
     validateExpiryHours(data.expiryHours ?? 48);
     validateScheduleFrequencyHours(data.scheduleFrequencyHours ?? null);
     if (data.maxFileSizeBytes !== undefined) {
@@ -84,18 +106,24 @@ export async function createAffiliateFeed(data: CreateFeedInput) {
       validateMaxRowCount(data.maxRowCount);
     }
 
-    // Verify source exists and doesn't already have a feed
+    const variant = data.variant ?? 'FULL';
+    validateVariant(variant);
+
+    // Verify source exists and doesn't already have a feed of this variant
     const source = await prisma.sources.findUnique({
       where: { id: data.sourceId },
-      include: { affiliate_feeds: true },
+      include: { affiliate_feeds: { select: { variant: true } } },
     });
 
     if (!source) {
       return { success: false, error: 'Source not found' };
     }
 
-    if (source.affiliate_feeds) {
-      return { success: false, error: 'Source already has an affiliate feed configured' };
+    if (source.affiliate_feeds.some((f) => f.variant === variant)) {
+      return { success: false, error: `Source already has a ${variant} affiliate feed configured` };
+    }
+    if (variant === 'DELTA' && !source.affiliate_feeds.some((f) => f.variant === 'FULL')) {
+      return { success: false, error: 'A DELTA feed requires a FULL feed for the same source' };
     }
 
     // Encrypt the password - convert Buffer to Uint8Array for Prisma Bytes type
@@ -107,6 +135,7 @@ export async function createAffiliateFeed(data: CreateFeedInput) {
       data: {
         sourceId: data.sourceId,
         network: data.network,
+        variant,
         status: 'DRAFT',
         transport: data.transport,
         host: data.host,
@@ -118,6 +147,7 @@ export async function createAffiliateFeed(data: CreateFeedInput) {
         secretVersion: 1,
         format: data.format ?? 'CSV',
         compression: data.compression ?? 'NONE',
+        archiveEntryGlob,
         scheduleFrequencyHours: data.scheduleFrequencyHours,
         expiryHours: data.expiryHours ?? 48,
         maxFileSizeBytes: data.maxFileSizeBytes,
@@ -141,6 +171,7 @@ export async function createAffiliateFeed(data: CreateFeedInput) {
       newValue: {
         sourceId: data.sourceId,
         network: data.network,
+        variant,
         host: data.host,
         path: data.path,
       },
@@ -148,7 +179,7 @@ export async function createAffiliateFeed(data: CreateFeedInput) {
 
     revalidatePath('/affiliate-feeds');
 
-    return { success: true, feed };
+    return { success: true, feed: maskFeedSecrets(feed) };
   } catch (error) {
     if (error instanceof ValidationError) {
       return { success: false, error: error.message };
@@ -180,6 +211,8 @@ export async function updateAffiliateFeed(id: string, data: UpdateFeedInput) {
     if (data.path !== undefined) validatePath(data.path);
     if (data.format !== undefined) validateFormat(data.format);
     if (data.compression !== undefined) validateCompression(data.compression);
+    const archiveEntryGlob =
+      data.archiveEntryGlob !== undefined ? validateArchiveEntryGlob(data.archiveEntryGlob) : undefined;
     if (data.expiryHours !== undefined) validateExpiryHours(data.expiryHours);
     if (data.scheduleFrequencyHours !== undefined) {
       validateScheduleFrequencyHours(data.scheduleFrequencyHours);
@@ -190,6 +223,9 @@ export async function updateAffiliateFeed(id: string, data: UpdateFeedInput) {
     if (data.maxRowCount !== undefined) {
       validateMaxRowCount(data.maxRowCount);
     }
+    if (data.httpAuthType !== undefined) validateHttpAuthType(data.httpAuthType);
+    if (data.signedUrl) validateSignedUrl(data.signedUrl);
+    const customHeaders = data.customHeaders ? parseCustomHeaders(data.customHeaders) : undefined;
 
     // Build update data
     const updateData: Record<string, unknown> = {};
@@ -199,6 +235,18 @@ export async function updateAffiliateFeed(id: string, data: UpdateFeedInput) {
     if (data.username !== undefined) updateData.username = data.username;
     if (data.format !== undefined) updateData.format = data.format;
     if (data.compression !== undefined) updateData.compression = data.compression;
+    if (archiveEntryGlob !== undefined) updateData.archiveEntryGlob = archiveEntryGlob;
+    // The content hash covers the bytes as downloaded, so re-reading the same file
+    // with different decompression settings would otherwise be skipped as unchanged
+    const compressionChanged =
+      (data.compression !== undefined && data.compression !== oldFeed.compression) ||
+      (archiveEntryGlob !== undefined && archiveEntryGlob !== oldFeed.archiveEntryGlob);
+    if (compressionChanged) {
+      updateData.lastRemoteMtime = null;
+      updateData.lastRemoteSize = null;
+      updateData.lastRemoteEtag = null;
+      updateData.lastContentHash = null;
+    }
     if (data.scheduleFrequencyHours !== undefined) {
       updateData.scheduleFrequencyHours = data.scheduleFrequencyHours;
     }
@@ -206,8 +254,29 @@ export async function updateAffiliateFeed(id: string, data: UpdateFeedInput) {
     if (data.maxFileSizeBytes !== undefined) updateData.maxFileSizeBytes = data.maxFileSizeBytes;
     if (data.maxRowCount !== undefined) updateData.maxRowCount = data.maxRowCount;
 
-    // Handle password update
-    if (data.password) {
+    // Handle credential update
+    const httpFeed = isHttpTransport(oldFeed.transport);
+    if (httpFeed) {
+      if (data.httpAuthType !== undefined) updateData.httpAuthType = data.httpAuthType;
+      if (data.password || data.bearerToken || customHeaders || data.signedUrl) {
+        // Merge over stored credentials so unchanged secrets are kept
+        const stored = decryptHttpCredentials(oldFeed.secretCiphertext, oldFeed.secretKeyId);
+        updateData.secretCiphertext = encryptHttpCredentials(
+          mergeHttpCredentials(stored, {
+            password: data.password,
+            token: data.bearerToken,
+            headers: customHeaders,
+            signedUrl: data.signedUrl,
+          })
+        );
+        updateData.secretVersion = 1;
+      }
+      if (data.signedUrl) {
+        const url = new URL(data.signedUrl);
+        updateData.host = url.hostname;
+        updateData.path = url.pathname;
+      }
+    } else if (data.password) {
       const encryptedBuffer = encryptSecret(data.password);
       updateData.secretCiphertext = new Uint8Array(encryptedBuffer) as Uint8Array<ArrayBuffer>;
       // secretKeyId left null - for future KMS migration
@@ -226,21 +295,31 @@ export async function updateAffiliateFeed(id: string, data: UpdateFeedInput) {
         host: oldFeed.host,
         path: oldFeed.path,
         format: oldFeed.format,
+        compression: oldFeed.compression,
+        archiveEntryGlob: oldFeed.archiveEntryGlob,
         expiryHours: oldFeed.expiryHours,
       },
       newValue: {
         host: data.host,
         path: data.path,
         format: data.format,
+        compression: data.compression,
+        archiveEntryGlob,
         expiryHours: data.expiryHours,
         passwordChanged: !!data.password,
+        ...(httpFeed && {
+          httpAuthType: data.httpAuthType,
+          tokenChanged: !!data.bearerToken,
+          headersChanged: !!customHeaders,
+          signedUrlChanged: !!data.signedUrl,
+        }),
       },
     });
 
     revalidatePath('/affiliate-feeds');
     revalidatePath(`/affiliate-feeds/${id}`);
 
-    return { success: true, feed };
+    return { success: true, feed: maskFeedSecrets(feed) };
   } catch (error) {
     if (error instanceof ValidationError) {
       return { success: false, error: error.message };
@@ -362,7 +441,7 @@ export async function enableFeed(id: string) {
     revalidatePath('/affiliate-feeds');
     revalidatePath(`/affiliate-feeds/${id}`);
 
-    return { success: true, feed: updatedFeed };
+    return { success: true, feed: maskFeedSecrets(updatedFeed) };
   } catch (error) {
     loggers.feeds.error('Failed to enable affiliate feed', { feedId: id }, error instanceof Error ? error : new Error(String(error)));
     return { success: false, error: 'Failed to enable feed' };
@@ -407,7 +486,7 @@ export async function pauseFeed(id: string) {
     revalidatePath('/affiliate-feeds');
     revalidatePath(`/affiliate-feeds/${id}`);
 
-    return { success: true, feed: updatedFeed };
+    return { success: true, feed: maskFeedSecrets(updatedFeed) };
   } catch (error) {
     loggers.feeds.error('Failed to pause affiliate feed', { feedId: id }, error instanceof Error ? error : new Error(String(error)));
     return { success: false, error: 'Failed to pause feed' };
@@ -458,7 +537,7 @@ export async function reenableFeed(id: string) {
     revalidatePath('/affiliate-feeds');
     revalidatePath(`/affiliate-feeds/${id}`);
 
-    return { success: true, feed: updatedFeed };
+    return { success: true, feed: maskFeedSecrets(updatedFeed) };
   } catch (error) {
     loggers.feeds.error('Failed to re-enable affiliate feed', { feedId: id }, error instanceof Error ? error : new Error(String(error)));
     return { success: false, error: 'Failed to re-enable feed' };
@@ -642,6 +721,7 @@ export async function forceReprocess(feedId: string) {
         lastContentHash: null,
         lastRemoteMtime: null,
         lastRemoteSize: null,
+        lastRemoteEtag: null,
       },
     });
 
@@ -652,11 +732,13 @@ export async function forceReprocess(feedId: string) {
         lastContentHash: oldHash,
         lastRemoteMtime: feed.lastRemoteMtime,
         lastRemoteSize: feed.lastRemoteSize ? Number(feed.lastRemoteSize) : null,
+        lastRemoteEtag: feed.lastRemoteEtag,
       },
       newValue: {
         lastContentHash: null,
         lastRemoteMtime: null,
         lastRemoteSize: null,
+        lastRemoteEtag: null,
       },
     });
 
@@ -1059,6 +1141,103 @@ export async function updateSourceTrustConfig(sourceId: string, upcTrusted: bool
   }
 }
 
+/**
+ * Update resolver scoring strategy for a source
+ * The shadow strategy is scored alongside for comparison only (disagreements are logged).
+ * Bumps the config version so existing links re-resolve under the new strategy.
+ */
+export async function updateSourceScoringConfig(
+  sourceId: string,
+  scoringStrategy: ScoringStrategy,
+  shadowScoringStrategy: ScoringStrategy | null
+) {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    validateScoringStrategy(scoringStrategy);
+    if (shadowScoringStrategy) {
+      validateScoringStrategy(shadowScoringStrategy);
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+
+  if (shadowScoringStrategy === scoringStrategy) {
+    return { success: false, error: 'Shadow strategy must differ from the active strategy' };
+  }
+
+  try {
+    const source = await prisma.sources.findUnique({
+      where: { id: sourceId },
+      select: { id: true, name: true },
+    });
+
+    if (!source) {
+      return { success: false, error: 'Source not found' };
+    }
+
+    const existingConfig = await prisma.source_trust_config.findUnique({
+      where: { sourceId },
+    });
+
+    const oldValue = {
+      scoringStrategy: existingConfig?.scoringStrategy ?? 'WEIGHTED_EXACT',
+      shadowScoringStrategy: existingConfig?.shadowScoringStrategy ?? null,
+      version: existingConfig?.version ?? 0,
+    };
+
+    const config = await prisma.source_trust_config.upsert({
+      where: { sourceId },
+      create: {
+        sourceId,
+        scoringStrategy,
+        shadowScoringStrategy,
+        version: 1,
+        updatedBy: session.email,
+      },
+      update: {
+        scoringStrategy,
+        shadowScoringStrategy,
+        version: { increment: 1 },
+        updatedBy: session.email,
+      },
+    });
+
+    await logAdminAction(session.userId, 'UPDATE_SOURCE_SCORING_CONFIG', {
+      resource: 'SourceTrustConfig',
+      resourceId: sourceId,
+      oldValue,
+      newValue: {
+        scoringStrategy: config.scoringStrategy,
+        shadowScoringStrategy: config.shadowScoringStrategy,
+        version: config.version,
+      },
+    });
+
+    revalidatePath('/affiliate-feeds');
+    revalidatePath('/retailers');
+
+    return {
+      success: true,
+      config: {
+        scoringStrategy: config.scoringStrategy,
+        shadowScoringStrategy: config.shadowScoringStrategy,
+        version: config.version,
+      },
+    };
+  } catch (error) {
+    loggers.feeds.error('Failed to update source scoring config', { sourceId }, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to update scoring config' };
+  }
+}
+
 // =============================================================================
 // Read Operations
 // =============================================================================
@@ -1091,7 +1270,7 @@ export async function getAffiliateFeed(id: string) {
       return { success: false, error: 'Feed not found', feed: null };
     }
 
-    return { success: true, feed };
+    return { success: true, feed: maskFeedSecrets(feed) };
   } catch (error) {
     loggers.feeds.error('Failed to get affiliate feed', { feedId: id }, error instanceof Error ? error : new Error(String(error)));
     return { success: false, error: 'Failed to get feed', feed: null };
@@ -1122,7 +1301,7 @@ export async function listAffiliateFeeds() {
       },
     });
 
-    return { success: true, feeds };
+    return { success: true, feeds: feeds.map(maskFeedSecrets) };
   } catch (error) {
     loggers.feeds.error('Failed to list affiliate feeds', {}, error instanceof Error ? error : new Error(String(error)));
     return { success: false, error: 'Failed to list feeds', feeds: [] };
@@ -1181,11 +1360,13 @@ export async function generateRunReport(runId: string) {
         sourceName: run.affiliate_feeds.sources.name,
         retailerName: run.affiliate_feeds.sources.retailers?.name ?? 'Unknown',
         network: run.affiliate_feeds.network,
+        variant: run.affiliate_feeds.variant,
         transport: run.affiliate_feeds.transport,
         host: run.affiliate_feeds.host,
         path: run.affiliate_feeds.path,
         format: run.affiliate_feeds.format,
         compression: run.affiliate_feeds.compression,
+        archiveEntryGlob: run.affiliate_feeds.archiveEntryGlob,
         expiryHours: run.affiliate_feeds.expiryHours,
       },
 
@@ -1195,12 +1376,19 @@ export async function generateRunReport(runId: string) {
         downloadBytesFormatted: run.downloadBytes
           ? `${(Number(run.downloadBytes) / 1024 / 1024).toFixed(2)} MB`
           : null,
+        compressedBytes: run.compressedBytes ? Number(run.compressedBytes) : null,
+        uncompressedBytes: run.uncompressedBytes ? Number(run.uncompressedBytes) : null,
+        uncompressedBytesFormatted: run.uncompressedBytes
+          ? `${(Number(run.uncompressedBytes) / 1024 / 1024).toFixed(2)} MB`
+          : null,
         rowsRead: run.rowsRead,
         rowsParsed: run.rowsParsed,
         productsUpserted: run.productsUpserted,
         pricesWritten: run.pricesWritten,
         productsPromoted: run.productsPromoted,
         productsRejected: run.productsRejected,
+        productsDeleted: run.productsDeleted,
+        productsExpired: run.productsExpired,
         duplicateKeyCount: run.duplicateKeyCount,
         urlHashFallbackCount: run.urlHashFallbackCount,
         errorCount: run.errorCount,
@@ -1217,6 +1405,9 @@ export async function generateRunReport(runId: string) {
         rejectionRate: run.rowsParsed && run.productsRejected
           ? `${((run.productsRejected / run.rowsParsed) * 100).toFixed(1)}%`
           : null,
+        compressionRatio: run.compressedBytes && run.uncompressedBytes
+          ? `${(Number(run.uncompressedBytes) / Number(run.compressedBytes)).toFixed(1)}x`
+          : null,
         urlHashFallbackRate: run.productsUpserted && run.urlHashFallbackCount
           ? `${((run.urlHashFallbackCount / run.productsUpserted) * 100).toFixed(1)}%`
           : null,
@@ -9,9 +9,29 @@ import {
   validatePort,
   validateHost,
   validatePath,
+  validateFormat,
+  validateCompression,
+  validateArchiveEntryGlob,
+  validateVariant,
+  validateHttpAuthType,
+  validateSignedUrl,
+  parseCustomHeaders,
+  isHttpTransport,
   ValidationError,
+  type FeedFormat,
+  type FeedCompression,
+  type FeedTransport,
+  type FeedVariant,
+  type HttpAuthType,
 } from '@/lib/affiliate-feed-validation';
-import { encryptSecret } from '@ironscout/crypto';
+import {
+  buildFeedUrl,
+  buildHttpHeaders,
+  encryptHttpCredentials,
+  probeHttpFeed,
+  type HttpFeedCredentials,
+} from '@/lib/affiliate-feed-http';
+import { encryptSecret, maskFeedSecrets } from '@ironscout/crypto';
 import * as ftp from 'basic-ftp';
 import { Client as SftpClient, SFTPWrapper } from 'ssh2';
 import type { FileEntry } from 'ssh2';
@@ -25,6 +45,10 @@ export interface CreateAffiliateFeedWithSourceInput {
   retailerId?: string; // Use existing retailer
   newRetailerName?: string; // Create new retailer
   newRetailerWebsite?: string; // Website for new retailer
+  // DELTA feeds are added to an existing source (sourceId) that has a FULL feed;
+  // the source, retailer and network fields below are then ignored
+  variant?: FeedVariant;
+  sourceId?: string;
   // Affiliate network
   affiliateNetwork: AffiliateNetwork;
   affiliateAdvertiserId?: string;
@@ -32,12 +56,20 @@ export interface CreateAffiliateFeedWithSourceInput {
   affiliateProgramId?: string;
   affiliateTrackingTemplate?: string;
   // Connection
-  transport: 'FTP' | 'SFTP';
+  transport: FeedTransport;
   host: string;
   port: number;
   path: string;
   username: string;
   password: string;
+  // HTTPS / SIGNED_URL only
+  httpAuthType?: HttpAuthType;
+  bearerToken?: string;
+  customHeaders?: string; // "Name: value" per line
+  signedUrl?: string;
+  format?: FeedFormat;
+  compression?: FeedCompression;
+  archiveEntryGlob?: string; // ZIP only; blank selects by format extension
   // Schedule
   scheduleFrequencyHours?: number;
 }
@@ -78,109 +110,46 @@ export async function createAffiliateFeedWithSource(data: CreateAffiliateFeedWit
   try {
     // Validate inputs
     await validateTransportAsync(data.transport);
-    validateHost(data.host);
-    validatePort(data.port, data.transport);
-    validatePath(data.path);
-
-    if (!data.sourceName.trim()) {
-      return { success: false, error: 'Source name is required' };
-    }
-    if (!data.username.trim()) {
-      return { success: false, error: 'Username is required' };
-    }
-    if (!data.password) {
-      return { success: false, error: 'Password is required' };
-    }
-
-    // Validate retailer selection
-    const isNewRetailer = !data.retailerId;
-    if (isNewRetailer) {
-      if (!data.newRetailerName?.trim()) {
-        return { success: false, error: 'Retailer name is required' };
-      }
-      if (!data.newRetailerWebsite?.trim()) {
-        return { success: false, error: 'Website URL is required for new retailer' };
-      }
+    const httpCredentials = validateConnection(data);
+    validateFormat(data.format ?? 'CSV');
+    validateCompression(data.compression ?? 'NONE');
+    const archiveEntryGlob = data.compression === 'ZIP' ? validateArchiveEntryGlob(data.archiveEntryGlob) : null;
+    const variant = data.variant ?? 'FULL';
+    validateVariant(variant);
+
+    const target = variant === 'DELTA'
+      ? await findDeltaFeedSource(data.sourceId)
+      : await createFeedSource(data);
+    if ('error' in target) {
+      return { success: false, error: target.error };
     }
+    const { source, retailer, network } = target;
 
-    // Get or create retailer
-    let retailer: { id: string; name: string; website: string };
-    let websiteUrl: string;
-
-    if (data.retailerId) {
-      // Use existing retailer
-      const existing = await prisma.retailers.findUnique({
-        where: { id: data.retailerId },
-        select: { id: true, name: true, website: true },
-      });
-      if (!existing) {
-        return { success: false, error: 'Selected retailer not found' };
-      }
-      retailer = existing;
-      websiteUrl = existing.website;
-    } else {
-      // Create new retailer
-      // Normalize website URL
-      websiteUrl = data.newRetailerWebsite!.trim().toLowerCase();
-      if (!websiteUrl.startsWith('http://') && !websiteUrl.startsWith('https://')) {
-        websiteUrl = 'https://' + websiteUrl;
-      }
-      websiteUrl = websiteUrl.replace(/\/+$/, '');
-
-      // Check for duplicate retailer name
-      const existingByName = await prisma.retailers.findFirst({
-        where: { name: { equals: data.newRetailerName!.trim(), mode: 'insensitive' } },
-      });
-      if (existingByName) {
-        return {
-          success: false,
-          error: `A retailer named "${existingByName.name}" already exists. Please select it from the dropdown.`
-        };
-      }
-
-      retailer = await prisma.retailers.create({
-        data: {
-          name: data.newRetailerName!.trim(),
-          website: websiteUrl,
-        },
-      });
-    }
-
-    // Create source for the affiliate feed
-    const source = await prisma.sources.create({
-      data: {
-        name: data.sourceName,
-        type: 'FEED_CSV',
-        url: websiteUrl,
-        retailerId: retailer.id,
-        sourceKind: 'AFFILIATE_FEED',
-        affiliateNetwork: data.affiliateNetwork,
-        affiliateAdvertiserId: data.affiliateAdvertiserId || null,
-        affiliateAccountId: data.affiliateAccountId || null,
-        affiliateProgramId: data.affiliateProgramId || null,
-        affiliateTrackingTemplate: data.affiliateTrackingTemplate || null,
-      },
-    });
-
-    // Encrypt the password
-    const encryptedBuffer = encryptSecret(data.password);
-    const secretCiphertext = new Uint8Array(encryptedBuffer) as Uint8Array<ArrayBuffer>;
+    // Encrypt the password (FTP/SFTP) or the JSON credential bundle (HTTPS / SIGNED_URL)
+    const secretCiphertext = httpCredentials
+      ? encryptHttpCredentials(httpCredentials)
+      : (new Uint8Array(encryptSecret(data.password)) as Uint8Array<ArrayBuffer>);
+    // Signed URLs are stored encrypted; only the non-secret host/path are kept for display
+    const signedUrl = data.transport === 'SIGNED_URL' ? new URL(data.signedUrl!) : null;
 
     // Create the affiliate feed
     const feed = await prisma.affiliate_feeds.create({
       data: {
         sourceId: source.id,
-        network: data.affiliateNetwork,
+        network,
+        variant,
         status: 'DRAFT',
         transport: data.transport,
-        host: data.host,
-        port: data.port,
-        path: data.path,
-        username: data.username,
+        host: signedUrl ? signedUrl.hostname : data.host,
+        port: signedUrl ? null : data.port,
+        path: signedUrl ? signedUrl.pathname : data.path,
+        username: httpCredentials && data.httpAuthType !== 'BASIC' ? null : data.username,
+        httpAuthType: httpCredentials ? (data.httpAuthType ?? 'NONE') : 'NONE',
         secretCiphertext,
         secretVersion: 1,
-        format: 'CSV',
-        compression: 'NONE',
+        format: data.format ?? 'CSV',
+        compression: data.compression ?? 'NONE',
+        archiveEntryGlob,
         scheduleFrequencyHours: data.scheduleFrequencyHours ?? 24,
         expiryHours: 48,
         createdBy: session.email,
@@ -192,20 +161,25 @@ export async function createAffiliateFeedWithSource(data: CreateAffiliateFeedWit
       resourceId: feed.id,
       newValue: {
         sourceId: source.id,
-        sourceName: data.sourceName,
+        sourceName: source.name,
         retailerId: retailer.id,
         retailerName: retailer.name,
-        isNewRetailer: !data.retailerId,
-        network: data.affiliateNetwork,
+        isNewRetailer: variant === 'FULL' && !data.retailerId,
+        network,
+        variant,
         affiliateAdvertiserId: data.affiliateAdvertiserId,
-        host: data.host,
-        path: data.path,
+        transport: data.transport,
+        host: feed.host,
+        path: feed.path,
+        format: feed.format,
+        compression: feed.compression,
+        archiveEntryGlob: feed.archiveEntryGlob,
       },
     });
 
     revalidatePath('/affiliate-feeds');
 
-    return { success: true, feed, source };
+    return { success: true, feed: maskFeedSecrets(feed), source };
   } catch (error) {
     if (error instanceof ValidationError) {
       return { success: false, error: error.message };
@@ -216,15 +190,140 @@ export async function createAffiliateFeedWithSource(data: CreateAffiliateFeedWit
 }
 
 /**
- * Test FTP/SFTP connection with raw credentials (before saving feed)
+ * Get or create the retailer and create the source for a new FULL feed
+ */
+async function createFeedSource(
+  data: CreateAffiliateFeedWithSourceInput
+): Promise<{ error: string } | FeedTarget> {
+  if (!data.sourceName.trim()) {
+    return { error: 'Source name is required' };
+  }
+
+  // Validate retailer selection
+  const isNewRetailer = !data.retailerId;
+  if (isNewRetailer) {
+    if (!data.newRetailerName?.trim()) {
+      return { error: 'Retailer name is required' };
+    }
+    if (!data.newRetailerWebsite?.trim()) {
+      return { error: 'Website URL is required for new retailer' };
+    }
+  }
+
+  // Get or create retailer
+  let retailer: { id: string; name: string; website: string };
+  let websiteUrl: string;
+
+  if (data.retailerId) {
+    // Use existing retailer
+    const existing = await prisma.retailers.findUnique({
+      where: { id: data.retailerId },
+      select: { id: true, name: true, website: true },
+    });
+    if (!existing) {
+      return { error: 'Selected retailer not found' };
+    }
+    retailer = existing;
+    websiteUrl = existing.website;
+  } else {
+    // Create new retailer
+    // Normalize website URL
+    websiteUrl = data.newRetailerWebsite!.trim().toLowerCase();
+    if (!websiteUrl.startsWith('http://') && !websiteUrl.startsWith('https://')) {
+      websiteUrl = 'https://' + websiteUrl;
+    }
+    websiteUrl = websiteUrl.replace(/\/+$/, '');
+
+    // Check for duplicate retailer name
+    const existingByName = await prisma.retailers.findFirst({
+      where: { name: { equals: data.newRetailerName!.trim(), mode: 'insensitive' } },
+    });
+    if (existingByName) {
+      return {
+        error: `A retailer named "${existingByName.name}" already exists. Please select it from the dropdown.`
+      };
+    }
+
+    retailer = await prisma.retailers.create({
+      data: {
+        name: data.newRetailerName!.trim(),
+        website: websiteUrl,
+      },
+    });
+  }
+
+  // Create source for the affiliate feed
+  const source = await prisma.sources.create({
+    data: {
+      name: data.sourceName,
+      type: 'FEED_CSV',
+      url: websiteUrl,
+      retailerId: retailer.id,
+      sourceKind: 'AFFILIATE_FEED',
+      affiliateNetwork: data.affiliateNetwork,
+      affiliateAdvertiserId: data.affiliateAdvertiserId || null,
+      affiliateAccountId: data.affiliateAccountId || null,
+      affiliateProgramId: data.affiliateProgramId || null,
+      affiliateTrackingTemplate: data.affiliateTrackingTemplate || null,
+    },
+  });
+
+  return { source, retailer, network: data.affiliateNetwork };
+}
+
+/** Source, retailer and network a new feed is attached to */
+interface FeedTarget {
+  source: { id: string; name: string };
+  retailer: { id: string; name: string };
+  network: AffiliateNetwork;
+}
+
+/**
+ * Resolve the existing source a DELTA feed is added to.
+ * The source must already have a FULL feed (deltas are reconciled against it)
+ * and no DELTA feed yet.
+ */
+async function findDeltaFeedSource(sourceId: string | undefined): Promise<{ error: string } | FeedTarget> {
+  if (!sourceId) {
+    return { error: 'A DELTA feed must be added to an existing source' };
+  }
+
+  const source = await prisma.sources.findUnique({
+    where: { id: sourceId },
+    include: {
+      retailers: { select: { id: true, name: true } },
+      affiliate_feeds: { select: { variant: true, network: true } },
+    },
+  });
+  if (!source || !source.retailers) {
+    return { error: 'Source not found' };
+  }
+
+  const fullFeed = source.affiliate_feeds.find((f) => f.variant === 'FULL');
+  if (!fullFeed) {
+    return { error: 'A DELTA feed requires a FULL feed for the same source' };
+  }
+  if (source.affiliate_feeds.some((f) => f.variant === 'DELTA')) {
+    return { error: 'Source already has a DELTA feed configured' };
+  }
+
+  return { source, retailer: source.retailers, network: fullFeed.network as AffiliateNetwork };
+}
+
+/**
+ * Test FTP/SFTP/HTTPS connection with raw credentials (before saving feed)
  */
 export interface TestConnectionInput {
-  transport: 'FTP' | 'SFTP';
+  transport: FeedTransport;
   host: string;
   port: number;
   path: string;
   username: string;
   password: string;
+  httpAuthType?: HttpAuthType;
+  bearerToken?: string;
+  customHeaders?: string;
+  signedUrl?: string;
 }
 
 export interface TestConnectionResult {
@@ -242,15 +341,11 @@ export async function testFeedConnection(data: TestConnectionInput): Promise<Tes
 
   try {
     // Validate inputs
-    validateHost(data.host);
-    validatePort(data.port, data.transport);
-    validatePath(data.path);
+    const httpCredentials = validateConnection(data);
 
-    if (!data.username.trim()) {
-      return { success: false, error: 'Username is required' };
-    }
-    if (!data.password) {
-      return { success: false, error: 'Password is required' };
+    if (httpCredentials) {
+      const url = buildFeedUrl({ ...data, signedUrl: httpCredentials.signedUrl });
+      return await probeHttpFeed(url, buildHttpHeaders(data.httpAuthType ?? 'NONE', data.username, httpCredentials));
     }
 
     if (data.transport === 'SFTP') {
@@ -269,6 +364,43 @@ export async function testFeedConnection(data: TestConnectionInput): Promise<Tes
   }
 }
 
+/**
+ * Validate connection fields for the selected transport.
+ * Returns the HTTP credential bundle for HTTPS / SIGNED_URL feeds, null for FTP/SFTP.
+ * @throws ValidationError
+ */
+function validateConnection(data: TestConnectionInput): HttpFeedCredentials | null {
+  if (data.transport === 'SIGNED_URL') {
+    validateSignedUrl(data.signedUrl ?? '');
+  } else {
+    validateHost(data.host);
+    validatePort(data.port, data.transport);
+    validatePath(data.path);
+  }
+
+  if (!isHttpTransport(data.transport)) {
+    if (!data.username.trim()) throw new ValidationError('Username is required');
+    if (!data.password) throw new ValidationError('Password is required');
+    return null;
+  }
+
+  const authType = data.httpAuthType ?? 'NONE';
+  validateHttpAuthType(authType);
+  if (authType === 'BASIC' && (!data.username.trim() || !data.password)) {
+    throw new ValidationError('Username and password are required for basic auth');
+  }
+  if (authType === 'BEARER' && !data.bearerToken) {
+    throw new ValidationError('Bearer token is required');
+  }
+
+  return {
+    password: authType === 'BASIC' ? data.password : undefined,
+    token: authType === 'BEARER' ? data.bearerToken : undefined,
+    headers: parseCustomHeaders(data.customHeaders ?? ''),
+    signedUrl: data.transport === 'SIGNED_URL' ? data.signedUrl : undefined,
+  };
+}
+
 async function testSftpConnection(data: TestConnectionInput): Promise<TestConnectionResult> {
   return new Promise((resolve) => {
     const conn = new SftpClient();
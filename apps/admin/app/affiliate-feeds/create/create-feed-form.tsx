@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Save, Loader2, Plus, Store, Wifi, CheckCircle, XCircle } from 'lucide-react';
 import { createAffiliateFeedWithSource, getRetailers, testFeedConnection, type AffiliateNetwork, type TestConnectionResult } from './actions';
+import type { FeedCompression, FeedFormat, FeedTransport, HttpAuthType } from '@/lib/affiliate-feed-validation';
 
 /** Normalize a URL: add https:// if missing, lowercase, remove trailing slash */
 function normalizeUrl(url: string): string {
@@ -36,7 +37,7 @@ function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 }
 
-type Transport = 'FTP' | 'SFTP';
+const DEFAULT_PORTS: Record<FeedTransport, number> = { SFTP: 22, FTP: 21, HTTPS: 443, SIGNED_URL: 443 };
 
 const AFFILIATE_NETWORKS: { value: AffiliateNetwork; label: string }[] = [
   { value: 'IMPACT', label: 'Impact' },
@@ -46,6 +47,20 @@ const AFFILIATE_NETWORKS: { value: AffiliateNetwork; label: string }[] = [
   { value: 'RAKUTEN', label: 'Rakuten' },
 ];
 
+const FEED_FORMATS: { value: FeedFormat; label: string }[] = [
+  { value: 'CSV', label: 'CSV (comma-separated)' },
+  { value: 'TSV', label: 'TSV (tab-separated)' },
+  { value: 'XML', label: 'XML (RSS / Atom / Google Merchant)' },
+  { value: 'NDJSON', label: 'NDJSON (one JSON object per line)' },
+];
+
+const FEED_COMPRESSIONS: { value: FeedCompression; label: string }[] = [
+  { value: 'NONE', label: 'None' },
+  { value: 'GZIP', label: 'GZIP (.gz)' },
+  { value: 'ZIP', label: 'ZIP archive (.zip)' },
+  { value: 'BZIP2', label: 'BZIP2 (.bz2)' },
+];
+
 /**
  * Default tracking URL templates for each affiliate network.
  * These use the standard placeholders: {PRODUCT_URL}, {ADVERTISER_ID}, {PROGRAM_ID}, {CAMPAIGN_ID}
@@ -75,16 +90,26 @@ interface Retailer {
   website: string;
 }
 
+/** Existing source a DELTA feed is being added to */
+export interface DeltaFeedSource {
+  id: string;
+  name: string;
+  retailerName: string;
+  network: string;
+}
+
 interface CreateFeedFormProps {
   preselectedRetailerId?: string;
   preselectedRetailerName?: string;
   preselectedRetailerWebsite?: string;
+  deltaSource?: DeltaFeedSource;
 }
 
 export function CreateFeedForm({
   preselectedRetailerId,
   preselectedRetailerName,
   preselectedRetailerWebsite,
+  deltaSource,
 }: CreateFeedFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -117,14 +142,22 @@ export function CreateFeedForm({
     affiliateProgramId: '',
     affiliateTrackingTemplate: DEFAULT_TRACKING_TEMPLATES.IMPACT, // Pre-populate with default
     // Connection
-    transport: 'SFTP' as Transport,
+    transport: 'SFTP' as FeedTransport,
     host: '',
     port: 22,
     path: '',
     username: '',
     password: '',
-    // Schedule
-    scheduleFrequencyHours: 24,
+    // HTTPS / Signed URL
+    httpAuthType: 'NONE' as HttpAuthType,
+    bearerToken: '',
+    customHeaders: '',
+    signedUrl: '',
+    format: 'CSV' as FeedFormat,
+    compression: 'NONE' as FeedCompression,
+    archiveEntryGlob: '',
+    // Schedule - partners publish deltas hourly
+    scheduleFrequencyHours: deltaSource ? 1 : 24,
   });
 
   // Load retailers on mount
@@ -154,12 +187,12 @@ export function CreateFeedForm({
     setError(null);
 
     // Validate retailer selection
-    if (!createNewRetailer && !formData.retailerId) {
+    if (!deltaSource && !createNewRetailer && !formData.retailerId) {
       setError('Please select a retailer or create a new one');
       setIsSubmitting(false);
       return;
     }
-    if (createNewRetailer && !formData.newRetailerName.trim()) {
+    if (!deltaSource && createNewRetailer && !formData.newRetailerName.trim()) {
       setError('Please enter a retailer name');
       setIsSubmitting(false);
       return;
@@ -167,6 +200,8 @@ export function CreateFeedForm({
 
     try {
       const result = await createAffiliateFeedWithSource({
+        variant: deltaSource ? 'DELTA' : 'FULL',
+        sourceId: deltaSource?.id,
         sourceName: formData.sourceName,
         // Either use existing retailer ID or create new
         retailerId: createNewRetailer ? undefined : formData.retailerId,
@@ -183,11 +218,18 @@ export function CreateFeedForm({
         path: formData.path,
         username: formData.username,
         password: formData.password,
+        httpAuthType: formData.httpAuthType,
+        bearerToken: formData.bearerToken || undefined,
+        customHeaders: formData.customHeaders || undefined,
+        signedUrl: formData.signedUrl || undefined,
+        format: formData.format,
+        compression: formData.compression,
+        archiveEntryGlob: formData.archiveEntryGlob || undefined,
         scheduleFrequencyHours: formData.scheduleFrequencyHours,
       });
 
       if (result.success) {
-        router.push('/affiliate-feeds');
+        router.push(deltaSource && result.feed ? `/affiliate-feeds/${result.feed.id}` : '/affiliate-feeds');
       } else {
         setError(result.error || 'Failed to create feed');
       }
@@ -201,7 +243,10 @@ export function CreateFeedForm({
   const updateField = (field: string, value: any) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     // Clear test result when connection fields change
-    if (['transport', 'host', 'port', 'path', 'username', 'password'].includes(field)) {
+    if ([
+      'transport', 'host', 'port', 'path', 'username', 'password',
+      'httpAuthType', 'bearerToken', 'customHeaders', 'signedUrl',
+    ].includes(field)) {
       setTestResult(null);
     }
   };
@@ -218,6 +263,10 @@ export function CreateFeedForm({
         path: formData.path,
         username: formData.username,
         password: formData.password,
+        httpAuthType: formData.httpAuthType,
+        bearerToken: formData.bearerToken || undefined,
+        customHeaders: formData.customHeaders || undefined,
+        signedUrl: formData.signedUrl || undefined,
       });
       setTestResult(result);
     } catch (err) {
@@ -230,7 +279,12 @@ export function CreateFeedForm({
     }
   };
 
-  const canTestConnection = formData.host && formData.path && formData.username && formData.password;
+  const isHttp = formData.transport === 'HTTPS' || formData.transport === 'SIGNED_URL';
+  const needsUsernamePassword = !isHttp || formData.httpAuthType === 'BASIC';
+  const canTestConnection =
+    (formData.transport === 'SIGNED_URL' ? !!formData.signedUrl : !!(formData.host && formData.path)) &&
+    (!needsUsernamePassword || !!(formData.username && formData.password)) &&
+    (!isHttp || formData.httpAuthType !== 'BEARER' || !!formData.bearerToken);
 
   const selectedRetailer = retailers.find(r => r.id === formData.retailerId);
 
@@ -242,237 +296,256 @@ export function CreateFeedForm({
         </div>
       )}
 
-      {/* Source Information */}
-      <div className="bg-white shadow rounded-lg p-6">
-        <h2 className="text-lg font-medium text-gray-900 mb-4">Source Information</h2>
-        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-          <div className="sm:col-span-2">
-            <label className="block text-sm font-medium text-gray-700">
-              Source Name *
-            </label>
-            <input
-              type="text"
-              required
-              value={formData.sourceName}
-              onChange={(e) => updateField('sourceName', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              placeholder="e.g., Palmetto State Armory - Impact Feed"
-            />
-            <p className="mt-1 text-xs text-gray-500">
-              Internal name for this feed source
-            </p>
+      {deltaSource ? (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Delta Feed</h2>
+          <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
+            <Store className="h-5 w-5 text-gray-400" />
+            <span className="text-sm font-medium text-gray-900">{deltaSource.name}</span>
+            <span className="text-sm text-gray-500">
+              {deltaSource.retailerName} &middot; {deltaSource.network}
+            </span>
           </div>
-
-          {/* Retailer Selection */}
-          <div className="sm:col-span-2">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Retailer *
-            </label>
-
-            {/* When preselected from retailer detail page, show read-only display */}
-            {preselectedRetailerId && preselectedRetailerName ? (
-              <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
-                <Store className="h-5 w-5 text-gray-400" />
-                <span className="text-sm font-medium text-gray-900">{preselectedRetailerName}</span>
-              </div>
-            ) : loadingRetailers ? (
-              <div className="flex items-center gap-2 text-sm text-gray-500">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Loading retailers...
-              </div>
-            ) : (
-              <>
-                {/* Toggle between existing and new */}
-                <div className="flex gap-4 mb-3">
-                  <label className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="radio"
-                      checked={!createNewRetailer}
-                      onChange={() => setCreateNewRetailer(false)}
-                      disabled={retailers.length === 0}
-                      className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
-                    />
-                    <span className={`text-sm ${retailers.length === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
-                      Select existing retailer
-                    </span>
-                  </label>
-                  <label className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="radio"
-                      checked={createNewRetailer}
-                      onChange={() => setCreateNewRetailer(true)}
-                      className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
-                    />
-                    <span className="text-sm text-gray-700">Create new retailer</span>
-                  </label>
+          <p className="mt-2 text-xs text-gray-500">
+            Rows in each delta file add or update products; rows marked as deleted remove them.
+            Products missing from a delta are left alone until the next full file reconciles them.
+          </p>
+        </div>
+      ) : (
+        <>
+        {/* Source Information */}
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Source Information</h2>
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Source Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.sourceName}
+                onChange={(e) => updateField('sourceName', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="e.g., Palmetto State Armory - Impact Feed"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Internal name for this feed source
+              </p>
+            </div>
+
+            {/* Retailer Selection */}
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Retailer *
+              </label>
+
+              {/* When preselected from retailer detail page, show read-only display */}
+              {preselectedRetailerId && preselectedRetailerName ? (
+                <div className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
+                  <Store className="h-5 w-5 text-gray-400" />
+                  <span className="text-sm font-medium text-gray-900">{preselectedRetailerName}</span>
                 </div>
-
-                {!createNewRetailer ? (
-                  /* Existing Retailer Dropdown */
-                  <div>
-                    <select
-                      value={formData.retailerId}
-                      onChange={(e) => updateField('retailerId', e.target.value)}
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                    >
-                      <option value="">Select a retailer...</option>
-                      {retailers.map((retailer) => (
-                        <option key={retailer.id} value={retailer.id}>
-                          {retailer.name}
-                        </option>
-                      ))}
-                    </select>
+              ) : loadingRetailers ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading retailers...
+                </div>
+              ) : (
+                <>
+                  {/* Toggle between existing and new */}
+                  <div className="flex gap-4 mb-3">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={!createNewRetailer}
+                        onChange={() => setCreateNewRetailer(false)}
+                        disabled={retailers.length === 0}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      <span className={`text-sm ${retailers.length === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
+                        Select existing retailer
+                      </span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={createNewRetailer}
+                        onChange={() => setCreateNewRetailer(true)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">Create new retailer</span>
+                    </label>
                   </div>
-                ) : (
-                  /* New Retailer Form */
-                  <div className="space-y-4 p-4 bg-blue-50 border border-blue-200 rounded-md">
-                    <div className="flex items-center gap-2 text-sm font-medium text-blue-800">
-                      <Plus className="h-4 w-4" />
-                      Create New Retailer
+
+                  {!createNewRetailer ? (
+                    /* Existing Retailer Dropdown */
+                    <div>
+                      <select
+                        value={formData.retailerId}
+                        onChange={(e) => updateField('retailerId', e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      >
+                        <option value="">Select a retailer...</option>
+                        {retailers.map((retailer) => (
+                          <option key={retailer.id} value={retailer.id}>
+                            {retailer.name}
+                          </option>
+                        ))}
+                      </select>
                     </div>
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">
-                          Retailer Name *
-                        </label>
-                        <input
-                          type="text"
-                          value={formData.newRetailerName}
-                          onChange={(e) => updateField('newRetailerName', e.target.value)}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                          placeholder="e.g., Palmetto State Armory"
-                        />
+                  ) : (
+                    /* New Retailer Form */
+                    <div className="space-y-4 p-4 bg-blue-50 border border-blue-200 rounded-md">
+                      <div className="flex items-center gap-2 text-sm font-medium text-blue-800">
+                        <Plus className="h-4 w-4" />
+                        Create New Retailer
                       </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700">
-                          Website URL *
-                        </label>
-                        <input
-                          type="text"
-                          value={formData.newRetailerWebsite}
-                          onChange={(e) => updateField('newRetailerWebsite', e.target.value)}
-                          onBlur={(e) => updateField('newRetailerWebsite', normalizeUrl(e.target.value))}
-                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                          placeholder="e.g., palmettostatearmory.com"
-                        />
-                        <p className="mt-1 text-xs text-gray-500">
-                          https:// will be added automatically
-                        </p>
+                      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">
+                            Retailer Name *
+                          </label>
+                          <input
+                            type="text"
+                            value={formData.newRetailerName}
+                            onChange={(e) => updateField('newRetailerName', e.target.value)}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                            placeholder="e.g., Palmetto State Armory"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">
+                            Website URL *
+                          </label>
+                          <input
+                            type="text"
+                            value={formData.newRetailerWebsite}
+                            onChange={(e) => updateField('newRetailerWebsite', e.target.value)}
+                            onBlur={(e) => updateField('newRetailerWebsite', normalizeUrl(e.target.value))}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                            placeholder="e.g., palmettostatearmory.com"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            https:// will be added automatically
+                          </p>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
-              </>
-            )}
+                  )}
+                </>
+              )}
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Affiliate Network */}
-      <div className="bg-white shadow rounded-lg p-6">
-        <h2 className="text-lg font-medium text-gray-900 mb-4">Affiliate Network</h2>
-        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Network *
-            </label>
-            <select
-              value={formData.affiliateNetwork}
-              onChange={(e) => {
-                const newNetwork = e.target.value as AffiliateNetwork;
-                const currentTemplate = formData.affiliateTrackingTemplate;
-
-                // Auto-populate template if empty or using another network's default
-                const shouldAutoPopulate = !currentTemplate || isDefaultTemplate(currentTemplate);
-
-                // Update source name if it follows the default pattern
-                const networkLabel = AFFILIATE_NETWORKS.find(n => n.value === newNetwork)?.label || newNetwork;
-                const oldNetworkLabel = AFFILIATE_NETWORKS.find(n => n.value === formData.affiliateNetwork)?.label || formData.affiliateNetwork;
-                const defaultNamePattern = preselectedRetailerName
-                  ? `${preselectedRetailerName} - ${oldNetworkLabel} Feed`
-                  : '';
-                const shouldUpdateName = preselectedRetailerName && formData.sourceName === defaultNamePattern;
-
-                setFormData((prev) => ({
-                  ...prev,
-                  affiliateNetwork: newNetwork,
-                  affiliateTrackingTemplate: shouldAutoPopulate
-                    ? DEFAULT_TRACKING_TEMPLATES[newNetwork]
-                    : currentTemplate,
-                  sourceName: shouldUpdateName
-                    ? `${preselectedRetailerName} - ${networkLabel} Feed`
-                    : prev.sourceName,
-                }));
-              }}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-            >
-              {AFFILIATE_NETWORKS.map((network) => (
-                <option key={network.value} value={network.value}>
-                  {network.label}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Advertiser ID
-            </label>
-            <input
-              type="text"
-              value={formData.affiliateAdvertiserId}
-              onChange={(e) => updateField('affiliateAdvertiserId', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              placeholder="e.g., 12345"
-            />
-            <p className="mt-1 text-xs text-gray-500">
-              Network-assigned advertiser identifier for attribution
-            </p>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Account ID
-            </label>
-            <input
-              type="text"
-              value={formData.affiliateAccountId}
-              onChange={(e) => updateField('affiliateAccountId', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              placeholder="Optional"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Program ID
-            </label>
-            <input
-              type="text"
-              value={formData.affiliateProgramId}
-              onChange={(e) => updateField('affiliateProgramId', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              placeholder="Optional"
-            />
-          </div>
-          <div className="sm:col-span-2">
-            <label className="block text-sm font-medium text-gray-700">
-              Tracking Template
-            </label>
-            <input
-              type="text"
-              value={formData.affiliateTrackingTemplate}
-              onChange={(e) => updateField('affiliateTrackingTemplate', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono text-sm"
-              placeholder="e.g., https://track.example.com/click?url={PRODUCT_URL}"
-            />
-            <p className="mt-1 text-xs text-gray-500">
-              Pre-filled with network default. Edit if your setup differs.
-              Placeholders: <code className="bg-gray-100 px-1 rounded">{'{PRODUCT_URL}'}</code>,{' '}
-              <code className="bg-gray-100 px-1 rounded">{'{ADVERTISER_ID}'}</code>,{' '}
-              <code className="bg-gray-100 px-1 rounded">{'{PROGRAM_ID}'}</code>,{' '}
-              <code className="bg-gray-100 px-1 rounded">{'{CAMPAIGN_ID}'}</code>
-            </p>
+        {/* Affiliate Network */}
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Affiliate Network</h2>
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Network *
+              </label>
+              <select
+                value={formData.affiliateNetwork}
+                onChange={(e) => {
+                  const newNetwork = e.target.value as AffiliateNetwork;
+                  const currentTemplate = formData.affiliateTrackingTemplate;
+
+                  // Auto-populate template if empty or using another network's default
+                  const shouldAutoPopulate = !currentTemplate || isDefaultTemplate(currentTemplate);
+
+                  // Update source name if it follows the default pattern
+                  const networkLabel = AFFILIATE_NETWORKS.find(n => n.value === newNetwork)?.label || newNetwork;
+                  const oldNetworkLabel = AFFILIATE_NETWORKS.find(n => n.value === formData.affiliateNetwork)?.label || formData.affiliateNetwork;
+                  const defaultNamePattern = preselectedRetailerName
+                    ? `${preselectedRetailerName} - ${oldNetworkLabel} Feed`
+                    : '';
+                  const shouldUpdateName = preselectedRetailerName && formData.sourceName === defaultNamePattern;
+
+                  setFormData((prev) => ({
+                    ...prev,
+                    affiliateNetwork: newNetwork,
+                    affiliateTrackingTemplate: shouldAutoPopulate
+                      ? DEFAULT_TRACKING_TEMPLATES[newNetwork]
+                      : currentTemplate,
+                    sourceName: shouldUpdateName
+                      ? `${preselectedRetailerName} - ${networkLabel} Feed`
+                      : prev.sourceName,
+                  }));
+                }}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {AFFILIATE_NETWORKS.map((network) => (
+                  <option key={network.value} value={network.value}>
+                    {network.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Advertiser ID
+              </label>
+              <input
+                type="text"
+                value={formData.affiliateAdvertiserId}
+                onChange={(e) => updateField('affiliateAdvertiserId', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="e.g., 12345"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Network-assigned advertiser identifier for attribution
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Account ID
+              </label>
+              <input
+                type="text"
+                value={formData.affiliateAccountId}
+                onChange={(e) => updateField('affiliateAccountId', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Program ID
+              </label>
+              <input
+                type="text"
+                value={formData.affiliateProgramId}
+                onChange={(e) => updateField('affiliateProgramId', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="Optional"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Tracking Template
+              </label>
+              <input
+                type="text"
+                value={formData.affiliateTrackingTemplate}
+                onChange={(e) => updateField('affiliateTrackingTemplate', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono text-sm"
+                placeholder="e.g., https://track.example.com/click?url={PRODUCT_URL}"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Pre-filled with network default. Edit if your setup differs.
+                Placeholders: <code className="bg-gray-100 px-1 rounded">{'{PRODUCT_URL}'}</code>,{' '}
+                <code className="bg-gray-100 px-1 rounded">{'{ADVERTISER_ID}'}</code>,{' '}
+                <code className="bg-gray-100 px-1 rounded">{'{PROGRAM_ID}'}</code>,{' '}
+                <code className="bg-gray-100 px-1 rounded">{'{CAMPAIGN_ID}'}</code>
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+        </>
+      )}
 
       {/* Connection Settings */}
       <div className="bg-white shadow rounded-lg p-6">
@@ -485,85 +558,211 @@ export function CreateFeedForm({
             <select
               value={formData.transport}
               onChange={(e) => {
-                const transport = e.target.value as Transport;
+                const transport = e.target.value as FeedTransport;
                 updateField('transport', transport);
-                updateField('port', transport === 'SFTP' ? 22 : 21);
+                updateField('port', DEFAULT_PORTS[transport]);
               }}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
             >
               <option value="SFTP">SFTP (Recommended)</option>
               <option value="FTP">FTP</option>
+              <option value="HTTPS">HTTPS</option>
+              <option value="SIGNED_URL">Signed URL</option>
             </select>
           </div>
+          {isHttp && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Authentication
+              </label>
+              <select
+                value={formData.httpAuthType}
+                onChange={(e) => updateField('httpAuthType', e.target.value as HttpAuthType)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                <option value="NONE">None</option>
+                <option value="BASIC">Basic (username + password)</option>
+                <option value="BEARER">Bearer token</option>
+              </select>
+            </div>
+          )}
+          {formData.transport === 'SIGNED_URL' ? (
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Signed URL *
+              </label>
+              <input
+                type="password"
+                required
+                value={formData.signedUrl}
+                onChange={(e) => updateField('signedUrl', e.target.value.trim())}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+                placeholder="https://bucket.s3.amazonaws.com/feed.csv?X-Amz-Signature=..."
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                The full URL (including signature) is encrypted at rest
+              </p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Host *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.host}
+                  onChange={(e) => updateField('host', e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="e.g., ftp.impactradius.com"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Port *
+                </label>
+                <input
+                  type="number"
+                  required
+                  value={formData.port}
+                  onChange={(e) => updateField('port', parseInt(e.target.value) || 22)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Remote Path *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.path}
+                  onChange={(e) => updateField('path', e.target.value)}
+                  onBlur={(e) => updateField('path', normalizePath(e.target.value))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="e.g., /outgoing/products.csv"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Leading / will be added automatically for absolute paths
+                </p>
+              </div>
+            </>
+          )}
+          {needsUsernamePassword && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Username *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.username}
+                  onChange={(e) => updateField('username', e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Password *
+                </label>
+                <input
+                  type="password"
+                  required
+                  value={formData.password}
+                  onChange={(e) => updateField('password', e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Credentials are encrypted at rest using AES-256-GCM
+                </p>
+              </div>
+            </>
+          )}
+          {isHttp && formData.httpAuthType === 'BEARER' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Bearer Token *
+              </label>
+              <input
+                type="password"
+                required
+                value={formData.bearerToken}
+                onChange={(e) => updateField('bearerToken', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          )}
+          {isHttp && (
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Custom Headers
+              </label>
+              <textarea
+                rows={3}
+                value={formData.customHeaders}
+                onChange={(e) => updateField('customHeaders', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+                placeholder={'X-Api-Key: your-key\nX-Publisher-Id: 12345'}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                One &quot;Name: value&quot; per line. Header values are encrypted at rest.
+              </p>
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-700">
-              Host *
-            </label>
-            <input
-              type="text"
-              required
-              value={formData.host}
-              onChange={(e) => updateField('host', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              placeholder="e.g., ftp.impactradius.com"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Port *
-            </label>
-            <input
-              type="number"
-              required
-              value={formData.port}
-              onChange={(e) => updateField('port', parseInt(e.target.value) || 22)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Remote Path *
+              File Format *
             </label>
-            <input
-              type="text"
-              required
-              value={formData.path}
-              onChange={(e) => updateField('path', e.target.value)}
-              onBlur={(e) => updateField('path', normalizePath(e.target.value))}
+            <select
+              value={formData.format}
+              onChange={(e) => updateField('format', e.target.value as FeedFormat)}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              placeholder="e.g., /outgoing/products.csv"
-            />
+            >
+              {FEED_FORMATS.map((format) => (
+                <option key={format.value} value={format.value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
             <p className="mt-1 text-xs text-gray-500">
-              Leading / will be added automatically for absolute paths
+              CJ and Rakuten: CSV for delimited catalogs (pipe-delimited included) or XML
             </p>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700">
-              Username *
+              Compression
             </label>
-            <input
-              type="text"
-              required
-              value={formData.username}
-              onChange={(e) => updateField('username', e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              Password *
-            </label>
-            <input
-              type="password"
-              required
-              value={formData.password}
-              onChange={(e) => updateField('password', e.target.value)}
+            <select
+              value={formData.compression}
+              onChange={(e) => updateField('compression', e.target.value as FeedCompression)}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-            />
-            <p className="mt-1 text-xs text-gray-500">
-              Credentials are encrypted at rest using AES-256-GCM
-            </p>
+            >
+              {FEED_COMPRESSIONS.map((compression) => (
+                <option key={compression.value} value={compression.value}>
+                  {compression.label}
+                </option>
+              ))}
+            </select>
           </div>
+          {formData.compression === 'ZIP' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Archive Entry
+              </label>
+              <input
+                type="text"
+                value={formData.archiveEntryGlob}
+                onChange={(e) => updateField('archiveEntryGlob', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+                placeholder={`*.${formData.format.toLowerCase()}`}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Glob for the file to ingest when the archive holds several files. Leave blank to use the first file matching the format.
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Test Connection Button */}
@@ -650,7 +849,7 @@ export function CreateFeedForm({
           ) : (
             <Save className="h-4 w-4" />
           )}
-          Create Feed
+          {deltaSource ? 'Create Delta Feed' : 'Create Feed'}
         </button>
       </div>
     </form>
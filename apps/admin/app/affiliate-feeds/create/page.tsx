@@ -1,15 +1,35 @@
 import Link from 'next/link';
+import { notFound } from 'next/navigation';
 import { ArrowLeft } from 'lucide-react';
-import { CreateFeedForm } from './create-feed-form';
+import { prisma } from '@ironscout/db';
+import { CreateFeedForm, type DeltaFeedSource } from './create-feed-form';
 
 export const dynamic = 'force-dynamic';
 
 export default async function CreateAffiliateFeedPage({
   searchParams,
 }: {
-  searchParams: Promise<{ retailerId?: string; retailerName?: string; retailerWebsite?: string }>;
+  searchParams: Promise<{ retailerId?: string; retailerName?: string; retailerWebsite?: string; sourceId?: string }>;
 }) {
-  const { retailerId, retailerName, retailerWebsite } = await searchParams;
+  const { retailerId, retailerName, retailerWebsite, sourceId } = await searchParams;
+
+  // ?sourceId= adds a DELTA feed alongside the source's FULL feed
+  let deltaSource: DeltaFeedSource | undefined;
+  if (sourceId) {
+    const source = await prisma.sources.findUnique({
+      where: { id: sourceId },
+      select: { id: true, name: true, affiliateNetwork: true, retailers: { select: { name: true } } },
+    });
+    if (!source) {
+      notFound();
+    }
+    deltaSource = {
+      id: source.id,
+      name: source.name,
+      retailerName: source.retailers?.name ?? 'No retailer',
+      network: source.affiliateNetwork ?? 'Unknown',
+    };
+  }
 
   return (
     <div className="space-y-6">
@@ -22,9 +42,13 @@ export default async function CreateAffiliateFeedPage({
           <ArrowLeft className="h-5 w-5 text-gray-500" />
         </Link>
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Add Affiliate Feed</h1>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {deltaSource ? 'Add Delta Feed' : 'Add Affiliate Feed'}
+          </h1>
           <p className="mt-1 text-sm text-gray-500">
-            Configure a new product catalog feed from an affiliate network
+            {deltaSource
+              ? 'Configure an incremental (changed rows only) feed for an existing source'
+              : 'Configure a new product catalog feed from an affiliate network'}
           </p>
         </div>
       </div>
@@ -33,6 +57,7 @@ export default async function CreateAffiliateFeedPage({
         preselectedRetailerId={retailerId}
         preselectedRetailerName={retailerName}
         preselectedRetailerWebsite={retailerWebsite}
+        deltaSource={deltaSource}
       />
     </div>
   );
@@ -224,6 +224,11 @@ export default async function AffiliateFeedsPage() {
                     <Link href={`/affiliate-feeds/${feed.id}`} className="hover:underline">
                       <div className="text-sm font-medium text-gray-900">
                         {feed.sources.name}
+                        {feed.variant !== 'FULL' && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+                            {feed.variant}
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-gray-500">
                         {feed.sources.retailers?.name || 'No retailer'}
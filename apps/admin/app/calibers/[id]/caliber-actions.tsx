@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { setCaliberActive, type CaliberDTO } from '../actions';
+import { Loader2, CheckCircle, Ban } from 'lucide-react';
+
+interface CaliberActionsProps {
+  caliber: CaliberDTO;
+}
+
+export function CaliberActions({ caliber }: CaliberActionsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await setCaliberActive(caliber.id, !caliber.isActive);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error ?? 'Failed to change caliber status');
+      }
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-sm text-red-600 mr-2">{error}</span>}
+      {caliber.isActive ? (
+        <button
+          onClick={handleToggle}
+          disabled={isPending}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+          Disable
+        </button>
+      ) : (
+        <button
+          onClick={handleToggle}
+          disabled={isPending}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+          Enable
+        </button>
+      )}
+    </div>
+  );
+}
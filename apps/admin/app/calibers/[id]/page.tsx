@@ -0,0 +1,70 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, CheckCircle, XCircle } from 'lucide-react';
+import { getCaliber, listCalibers } from '../actions';
+import { CaliberForm } from '../caliber-form';
+import { CaliberActions } from './caliber-actions';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CaliberDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const [result, listResult] = await Promise.all([getCaliber(id), listCalibers()]);
+
+  if (!result.success || !result.caliber) {
+    notFound();
+  }
+
+  const caliber = result.caliber;
+  const parentOptions = listResult.calibers
+    .filter((option) => option.isActive && option.id !== caliber.id)
+    .map((option) => ({ id: option.id, name: option.name }));
+
+  return (
+    <div className="space-y-6">
+      {/* Back link */}
+      <Link
+        href="/calibers"
+        className="inline-flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Calibers
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">{caliber.name}</h1>
+            {caliber.isActive ? (
+              <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-sm font-medium bg-green-100 text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                Active
+              </span>
+            ) : (
+              <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700">
+                <XCircle className="h-4 w-4" />
+                Disabled
+              </span>
+            )}
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            {caliber.parentName ? `Child of ${caliber.parentName}. ` : ''}
+            {caliber.childCount > 0 ? `${caliber.childCount} child caliber(s). ` : ''}
+            Last updated {new Date(caliber.updatedAt).toLocaleString()} by {caliber.updatedBy}
+          </p>
+        </div>
+        <CaliberActions caliber={caliber} />
+      </div>
+
+      {/* Form */}
+      <div className="bg-white shadow rounded-lg">
+        <CaliberForm caliber={caliber} parentOptions={parentOptions} />
+      </div>
+    </div>
+  );
+}
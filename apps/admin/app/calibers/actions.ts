@@ -0,0 +1,511 @@
+'use server';
+
+import { prisma } from '@ironscout/db';
+import { CaliberCategory, Prisma } from '@ironscout/db/generated/prisma';
+// Import caliber taxonomy directly to avoid circular import issues
+import { validateCaliberEntries, type CaliberEntry, type CaliberGrainRanges } from '@ironscout/db/caliber-taxonomy.js';
+import { revalidatePath } from 'next/cache';
+import { getAdminSession, logAdminAction } from '@/lib/auth';
+import { loggers } from '@/lib/logger';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CaliberCategoryValue = 'HANDGUN' | 'RIFLE' | 'RIMFIRE' | 'SHOTGUN' | 'OTHER';
+
+export interface CaliberInput {
+  name: string;
+  label: string;
+  category: CaliberCategoryValue;
+  parentId: string | null;
+  aliases: string[];
+  titlePatterns: string[];
+  platforms: string[];
+  grainRanges: CaliberGrainRanges | null;
+  gunLocker: boolean;
+  sortOrder: number;
+}
+
+export interface CaliberDTO extends CaliberInput {
+  id: string;
+  parentName: string | null;
+  isActive: boolean;
+  childCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+export interface CaliberVersionDTO {
+  version: number;
+  summary: string;
+  createdAt: Date;
+  createdBy: string;
+}
+
+type CaliberRow = Prisma.calibersGetPayload<{
+  include: { parent: { select: { name: true } }; _count: { select: { children: true } } };
+}>;
+
+type TransactionClient = Prisma.TransactionClient;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toDTO(row: CaliberRow): CaliberDTO {
+  return {
+    id: row.id,
+    name: row.name,
+    label: row.label,
+    category: row.category as CaliberCategoryValue,
+    parentId: row.parentId,
+    parentName: row.parent?.name ?? null,
+    aliases: row.aliases,
+    titlePatterns: row.titlePatterns,
+    platforms: row.platforms,
+    grainRanges: (row.grainRanges as CaliberGrainRanges | null) ?? null,
+    gunLocker: row.gunLocker,
+    sortOrder: row.sortOrder,
+    isActive: row.isActive,
+    childCount: row._count.children,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    createdBy: row.createdBy,
+    updatedBy: row.updatedBy,
+  };
+}
+
+/** Trim, lowercase (aliases/platforms), drop blanks and duplicates */
+function cleanList(values: string[], lowercase: boolean): string[] {
+  const cleaned = values
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+    .map((value) => (lowercase ? value.toLowerCase() : value));
+  return [...new Set(cleaned)];
+}
+
+function cleanInput(data: CaliberInput): CaliberInput {
+  return {
+    name: data.name.trim(),
+    label: data.label.trim() || data.name.trim(),
+    category: data.category,
+    parentId: data.parentId || null,
+    aliases: cleanList(data.aliases, true),
+    titlePatterns: cleanList(data.titlePatterns, false),
+    platforms: cleanList(data.platforms, true),
+    grainRanges: data.grainRanges,
+    gunLocker: data.gunLocker,
+    sortOrder: Math.trunc(data.sortOrder),
+  };
+}
+
+interface ActiveRow {
+  id: string;
+  parentId: string | null;
+  entry: CaliberEntry;
+}
+
+/**
+ * Validate the active taxonomy as it would look after a change.
+ * `change` replaces (or adds) one row; null removes it (disable).
+ */
+async function validateProposed(
+  tx: TransactionClient,
+  id: string | null,
+  change: CaliberInput | null
+): Promise<string[]> {
+  const rows = await tx.calibers.findMany({ where: { isActive: true } });
+
+  const active: ActiveRow[] = rows
+    .filter((row) => row.id !== id)
+    .map((row) => ({
+      id: row.id,
+      parentId: row.parentId,
+      entry: {
+        name: row.name,
+        label: row.label,
+        category: row.category,
+        parentName: null,
+        aliases: row.aliases,
+        titlePatterns: row.titlePatterns,
+        platforms: row.platforms,
+        grainRanges: (row.grainRanges as CaliberGrainRanges | null) ?? null,
+        gunLocker: row.gunLocker,
+        sortOrder: row.sortOrder,
+      },
+    }));
+
+  if (change) {
+    active.push({
+      id: id ?? 'new',
+      parentId: change.parentId,
+      entry: { ...change, category: change.category as CaliberCategory, parentName: null },
+    });
+  }
+
+  const namesById = new Map(active.map((row) => [row.id, row.entry.name]));
+  const errors: string[] = [];
+  for (const row of active) {
+    if (!row.parentId) continue;
+    const parentName = namesById.get(row.parentId);
+    if (!parentName) {
+      errors.push(`Parent of ${row.entry.name} is not an active caliber`);
+      continue;
+    }
+    row.entry.parentName = parentName;
+  }
+
+  return [...errors, ...validateCaliberEntries(active.map((row) => row.entry))];
+}
+
+/**
+ * Record a new taxonomy version (snapshot of active rows).
+ * Consumers reload when they see a newer version.
+ */
+async function publishVersion(tx: TransactionClient, summary: string, createdBy: string): Promise<number> {
+  const rows = await tx.calibers.findMany({
+    where: { isActive: true },
+    include: { parent: { select: { name: true } } },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+
+  const snapshot = rows.map((row) => ({
+    name: row.name,
+    label: row.label,
+    category: row.category,
+    parentName: row.parent?.name ?? null,
+    aliases: row.aliases,
+    titlePatterns: row.titlePatterns,
+    platforms: row.platforms,
+    grainRanges: row.grainRanges,
+    gunLocker: row.gunLocker,
+    sortOrder: row.sortOrder,
+  }));
+
+  const version = await tx.caliber_taxonomy_versions.create({
+    data: { summary, snapshot: snapshot as Prisma.InputJsonValue, createdBy },
+  });
+  return version.version;
+}
+
+function rowData(data: CaliberInput) {
+  return {
+    name: data.name,
+    label: data.label,
+    category: data.category as CaliberCategory,
+    parentId: data.parentId,
+    aliases: data.aliases,
+    titlePatterns: data.titlePatterns,
+    platforms: data.platforms,
+    grainRanges: data.grainRanges ? (data.grainRanges as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+    gunLocker: data.gunLocker,
+    sortOrder: data.sortOrder,
+  };
+}
+
+class CaliberValidationError extends Error {}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * List all calibers (active and disabled) with the current version
+ */
+export async function listCalibers() {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false as const, error: 'Unauthorized', calibers: [] as CaliberDTO[] };
+  }
+
+  try {
+    const [rows, latest] = await Promise.all([
+      prisma.calibers.findMany({
+        include: { parent: { select: { name: true } }, _count: { select: { children: true } } },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      }),
+      prisma.caliber_taxonomy_versions.findFirst({ orderBy: { version: 'desc' } }),
+    ]);
+
+    return {
+      success: true as const,
+      calibers: rows.map(toDTO),
+      version: latest
+        ? { version: latest.version, summary: latest.summary, createdAt: latest.createdAt, createdBy: latest.createdBy }
+        : null,
+    };
+  } catch (error) {
+    loggers.admin.error('Failed to list calibers', {}, error instanceof Error ? error : new Error(String(error)));
+    return { success: false as const, error: 'Failed to list calibers', calibers: [] as CaliberDTO[] };
+  }
+}
+
+/**
+ * Get a single caliber
+ */
+export async function getCaliber(id: string) {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const row = await prisma.calibers.findUnique({
+      where: { id },
+      include: { parent: { select: { name: true } }, _count: { select: { children: true } } },
+    });
+
+    if (!row) {
+      return { success: false, error: 'Caliber not found' };
+    }
+
+    return { success: true, caliber: toDTO(row) };
+  } catch (error) {
+    loggers.admin.error('Failed to get caliber', { id }, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to get caliber' };
+  }
+}
+
+/**
+ * Recent taxonomy versions (newest first)
+ */
+export async function listCaliberVersions(limit = 10) {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false, error: 'Unauthorized', versions: [] as CaliberVersionDTO[] };
+  }
+
+  try {
+    const versions = await prisma.caliber_taxonomy_versions.findMany({
+      select: { version: true, summary: true, createdAt: true, createdBy: true },
+      orderBy: { version: 'desc' },
+      take: limit,
+    });
+    return { success: true, versions };
+  } catch (error) {
+    loggers.admin.error('Failed to list caliber versions', {}, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to list caliber versions', versions: [] as CaliberVersionDTO[] };
+  }
+}
+
+/**
+ * Preview title extraction with a set of patterns (case-insensitive, lowercased title)
+ */
+export async function previewTitlePatterns(patterns: string[], title: string) {
+  const value = title.toLowerCase();
+  for (const source of patterns) {
+    try {
+      if (new RegExp(source, 'i').test(value)) {
+        return { success: true, matched: source };
+      }
+    } catch {
+      return { success: false, error: `Invalid pattern: ${source}` };
+    }
+  }
+  return { success: true, matched: null };
+}
+
+// =============================================================================
+// Mutations (each publishes a new taxonomy version)
+// =============================================================================
+
+/**
+ * Create a caliber
+ */
+export async function createCaliber(input: CaliberInput) {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const data = cleanInput(input);
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const errors = await validateProposed(tx, null, data);
+      if (errors.length > 0) {
+        throw new CaliberValidationError(errors.join('; '));
+      }
+
+      const caliber = await tx.calibers.create({
+        data: { ...rowData(data), createdBy: session.email, updatedBy: session.email },
+      });
+      const version = await publishVersion(tx, `Added ${data.name}`, session.email);
+      return { caliber, version };
+    });
+
+    await logAdminAction(session.userId, 'CREATE_CALIBER', {
+      resource: 'Caliber',
+      resourceId: result.caliber.id,
+      newValue: { ...data, version: result.version },
+    });
+
+    revalidatePath('/calibers');
+
+    return { success: true, caliber: result.caliber, version: result.version };
+  } catch (error) {
+    if (error instanceof CaliberValidationError) {
+      return { success: false, error: error.message };
+    }
+    loggers.admin.error('Failed to create caliber', {}, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to create caliber' };
+  }
+}
+
+/**
+ * Update a caliber
+ */
+export async function updateCaliber(id: string, input: CaliberInput) {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const data = cleanInput(input);
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.calibers.findUnique({ where: { id } });
+      if (!existing) {
+        throw new CaliberValidationError('Caliber not found');
+      }
+
+      // Disabled rows are not part of the taxonomy; validate only active edits
+      if (existing.isActive) {
+        const errors = await validateProposed(tx, id, data);
+        if (errors.length > 0) {
+          throw new CaliberValidationError(errors.join('; '));
+        }
+      }
+
+      const caliber = await tx.calibers.update({
+        where: { id },
+        data: { ...rowData(data), updatedBy: session.email },
+      });
+      const summary = existing.name === data.name ? `Updated ${data.name}` : `Renamed ${existing.name} to ${data.name}`;
+      const version = await publishVersion(tx, summary, session.email);
+      return { existing, caliber, version };
+    });
+
+    await logAdminAction(session.userId, 'UPDATE_CALIBER', {
+      resource: 'Caliber',
+      resourceId: id,
+      oldValue: {
+        name: result.existing.name,
+        label: result.existing.label,
+        category: result.existing.category,
+        parentId: result.existing.parentId,
+        aliases: result.existing.aliases,
+        titlePatterns: result.existing.titlePatterns,
+        platforms: result.existing.platforms,
+        grainRanges: result.existing.grainRanges,
+        gunLocker: result.existing.gunLocker,
+        sortOrder: result.existing.sortOrder,
+      },
+      newValue: { ...data, version: result.version },
+    });
+
+    revalidatePath('/calibers');
+    revalidatePath(`/calibers/${id}`);
+
+    return { success: true, caliber: result.caliber, version: result.version };
+  } catch (error) {
+    if (error instanceof CaliberValidationError) {
+      return { success: false, error: error.message };
+    }
+    loggers.admin.error('Failed to update caliber', { id }, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to update caliber' };
+  }
+}
+
+/**
+ * Enable or disable a caliber. Rows are never deleted: user_guns and products
+ * may still carry the name, and disabling is reversible.
+ */
+export async function setCaliberActive(id: string, isActive: boolean) {
+  const session = await getAdminSession();
+
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.calibers.findUnique({ where: { id } });
+      if (!existing) {
+        throw new CaliberValidationError('Caliber not found');
+      }
+      if (existing.isActive === isActive) {
+        throw new CaliberValidationError(`Caliber is already ${isActive ? 'active' : 'disabled'}`);
+      }
+
+      if (!isActive) {
+        const activeChildren = await tx.calibers.count({ where: { parentId: id, isActive: true } });
+        if (activeChildren > 0) {
+          throw new CaliberValidationError(
+            `${existing.name} has ${activeChildren} active child caliber(s). Disable or re-parent them first.`
+          );
+        }
+      }
+
+      const errors = await validateProposed(
+        tx,
+        id,
+        isActive
+          ? {
+              name: existing.name,
+              label: existing.label,
+              category: existing.category as CaliberCategoryValue,
+              parentId: existing.parentId,
+              aliases: existing.aliases,
+              titlePatterns: existing.titlePatterns,
+              platforms: existing.platforms,
+              grainRanges: (existing.grainRanges as CaliberGrainRanges | null) ?? null,
+              gunLocker: existing.gunLocker,
+              sortOrder: existing.sortOrder,
+            }
+          : null
+      );
+      if (errors.length > 0) {
+        throw new CaliberValidationError(errors.join('; '));
+      }
+
+      await tx.calibers.update({
+        where: { id },
+        data: { isActive, updatedBy: session.email },
+      });
+      const version = await publishVersion(
+        tx,
+        `${isActive ? 'Enabled' : 'Disabled'} ${existing.name}`,
+        session.email
+      );
+      return { existing, version };
+    });
+
+    await logAdminAction(session.userId, isActive ? 'ENABLE_CALIBER' : 'DISABLE_CALIBER', {
+      resource: 'Caliber',
+      resourceId: id,
+      oldValue: { isActive: !isActive },
+      newValue: { name: result.existing.name, isActive, version: result.version },
+    });
+
+    revalidatePath('/calibers');
+    revalidatePath(`/calibers/${id}`);
+
+    return { success: true, version: result.version };
+  } catch (error) {
+    if (error instanceof CaliberValidationError) {
+      return { success: false, error: error.message };
+    }
+    loggers.admin.error('Failed to change caliber status', { id }, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to change caliber status' };
+  }
+}
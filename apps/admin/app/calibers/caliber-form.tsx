@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, AlertCircle } from 'lucide-react';
+import {
+  createCaliber,
+  updateCaliber,
+  previewTitlePatterns,
+  type CaliberDTO,
+  type CaliberInput,
+  type CaliberCategoryValue,
+} from './actions';
+
+const categoryOptions: { value: CaliberCategoryValue; label: string }[] = [
+  { value: 'HANDGUN', label: 'Handgun' },
+  { value: 'RIFLE', label: 'Rifle' },
+  { value: 'RIMFIRE', label: 'Rimfire' },
+  { value: 'SHOTGUN', label: 'Shotgun' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+interface ParentOption {
+  id: string;
+  name: string;
+}
+
+interface CaliberFormProps {
+  /** Existing caliber when editing; omitted when creating */
+  caliber?: CaliberDTO;
+  parentOptions: ParentOption[];
+  defaultSortOrder?: number;
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function splitLines(value: string): string[] {
+  return value
+    .split('\n')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function parseGrains(value: string): number[] {
+  return splitList(value).map(Number);
+}
+
+export function CaliberForm({ caliber, parentOptions, defaultSortOrder = 0 }: CaliberFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState(caliber?.name ?? '');
+  const [label, setLabel] = useState(caliber?.label ?? '');
+  const [category, setCategory] = useState<CaliberCategoryValue>(caliber?.category ?? 'HANDGUN');
+  const [parentId, setParentId] = useState(caliber?.parentId ?? '');
+  const [aliases, setAliases] = useState(caliber?.aliases.join(', ') ?? '');
+  const [titlePatterns, setTitlePatterns] = useState(caliber?.titlePatterns.join('\n') ?? '');
+  const [platforms, setPlatforms] = useState(caliber?.platforms.join(', ') ?? '');
+  const [lightGrains, setLightGrains] = useState(caliber?.grainRanges?.light.join(', ') ?? '');
+  const [mediumGrains, setMediumGrains] = useState(caliber?.grainRanges?.medium.join(', ') ?? '');
+  const [heavyGrains, setHeavyGrains] = useState(caliber?.grainRanges?.heavy.join(', ') ?? '');
+  const [gunLocker, setGunLocker] = useState(caliber?.gunLocker ?? false);
+  const [sortOrder, setSortOrder] = useState(String(caliber?.sortOrder ?? defaultSortOrder));
+
+  // Title pattern preview
+  const [sampleTitle, setSampleTitle] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+
+  const handlePreview = async () => {
+    if (!sampleTitle.trim()) return;
+    const result = await previewTitlePatterns(splitLines(titlePatterns), sampleTitle);
+    if (!result.success) {
+      setPreview(result.error ?? 'Invalid pattern');
+    } else {
+      setPreview(result.matched ? `Matches: ${result.matched}` : 'No pattern matches this title');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const hasGrains = lightGrains.trim() || mediumGrains.trim() || heavyGrains.trim();
+    const input: CaliberInput = {
+      name,
+      label,
+      category,
+      parentId: parentId || null,
+      aliases: splitList(aliases),
+      titlePatterns: splitLines(titlePatterns),
+      platforms: splitList(platforms),
+      grainRanges: hasGrains
+        ? { light: parseGrains(lightGrains), medium: parseGrains(mediumGrains), heavy: parseGrains(heavyGrains) }
+        : null,
+      gunLocker,
+      sortOrder: Number(sortOrder) || 0,
+    };
+
+    startTransition(async () => {
+      const result = caliber ? await updateCaliber(caliber.id, input) : await createCaliber(input);
+
+      if (result.success) {
+        router.push('/calibers');
+      } else {
+        setError(result.error ?? 'Failed to save caliber');
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Name */}
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <p className="text-xs text-gray-500 mt-0.5 mb-1">
+            Canonical value stored on products / Gun Locker (e.g., &quot;5.7x28mm&quot;)
+          </p>
+          <input
+            type="text"
+            id="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+            required
+          />
+        </div>
+
+        {/* Label */}
+        <div>
+          <label htmlFor="label" className="block text-sm font-medium text-gray-700">
+            Label
+          </label>
+          <p className="text-xs text-gray-500 mt-0.5 mb-1">Display label (defaults to the name)</p>
+          <input
+            type="text"
+            id="label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Category */}
+        <div>
+          <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+            Category <span className="text-red-500">*</span>
+          </label>
+          <select
+            id="category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value as CaliberCategoryValue)}
+            className={inputClass}
+          >
+            {categoryOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Parent */}
+        <div>
+          <label htmlFor="parentId" className="block text-sm font-medium text-gray-700">
+            Parent
+          </label>
+          <select id="parentId" value={parentId} onChange={(e) => setParentId(e.target.value)} className={inputClass}>
+            <option value="">None</option>
+            {parentOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Aliases */}
+      <div>
+        <label htmlFor="aliases" className="block text-sm font-medium text-gray-700">
+          Aliases
+        </label>
+        <p className="text-xs text-gray-500 mt-0.5 mb-1">
+          Comma-separated alternate spellings, matched exactly and in search queries (e.g., &quot;5.7x28, 5.7 fn&quot;)
+        </p>
+        <textarea
+          id="aliases"
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          rows={2}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Title Patterns */}
+      <div>
+        <label htmlFor="titlePatterns" className="block text-sm font-medium text-gray-700">
+          Title Patterns
+        </label>
+        <p className="text-xs text-gray-500 mt-0.5 mb-1">
+          One regular expression per line, tested case-insensitively against product titles. Leave empty for
+          family-only entries.
+        </p>
+        <textarea
+          id="titlePatterns"
+          value={titlePatterns}
+          onChange={(e) => setTitlePatterns(e.target.value)}
+          rows={3}
+          className={`${inputClass} font-mono text-sm`}
+        />
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="text"
+            value={sampleTitle}
+            onChange={(e) => setSampleTitle(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+            placeholder="Test against a product title..."
+          />
+          <button
+            type="button"
+            onClick={handlePreview}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Test
+          </button>
+        </div>
+        {preview && <p className="mt-1 text-xs text-gray-600 font-mono">{preview}</p>}
+      </div>
+
+      {/* Platforms */}
+      <div>
+        <label htmlFor="platforms" className="block text-sm font-medium text-gray-700">
+          Platforms
+        </label>
+        <p className="text-xs text-gray-500 mt-0.5 mb-1">
+          Comma-separated firearm names that imply this caliber in search (e.g., &quot;fn five-seven, ps90&quot;)
+        </p>
+        <input
+          type="text"
+          id="platforms"
+          value={platforms}
+          onChange={(e) => setPlatforms(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Grain Ranges */}
+      <div>
+        <p className="block text-sm font-medium text-gray-700">Grain Ranges</p>
+        <p className="text-xs text-gray-500 mt-0.5 mb-1">
+          Typical bullet weights used for search recommendations. Children inherit from their parent when empty.
+        </p>
+        <div className="grid grid-cols-3 gap-4">
+          {[
+            { id: 'lightGrains', label: 'Light', value: lightGrains, set: setLightGrains },
+            { id: 'mediumGrains', label: 'Medium', value: mediumGrains, set: setMediumGrains },
+            { id: 'heavyGrains', label: 'Heavy', value: heavyGrains, set: setHeavyGrains },
+          ].map((field) => (
+            <div key={field.id}>
+              <label htmlFor={field.id} className="block text-xs text-gray-500">
+                {field.label}
+              </label>
+              <input
+                type="text"
+                id={field.id}
+                value={field.value}
+                onChange={(e) => field.set(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., 40"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Gun Locker */}
+        <label className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={gunLocker}
+            onChange={(e) => setGunLocker(e.target.checked)}
+            className="mt-0.5"
+          />
+          <div>
+            <p className="text-sm font-medium text-gray-900">Gun Locker caliber</p>
+            <p className="text-xs text-gray-500">
+              Selectable in the Gun Locker and price check. Children without this flag roll up to it.
+            </p>
+          </div>
+        </label>
+
+        {/* Sort Order */}
+        <div>
+          <label htmlFor="sortOrder" className="block text-sm font-medium text-gray-700">
+            Sort Order
+          </label>
+          <p className="text-xs text-gray-500 mt-0.5 mb-1">
+            Ascending. Title patterns are tried in this order, so put specific calibers first.
+          </p>
+          <input
+            type="number"
+            id="sortOrder"
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Submit */}
+      <div className="flex justify-end gap-3 pt-4 border-t">
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          disabled={isPending}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isPending || !name.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          {caliber ? 'Save and Publish' : 'Create and Publish'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import Link from 'next/link';
+import { CheckCircle, XCircle, CornerDownRight } from 'lucide-react';
+import type { CaliberDTO, CaliberCategoryValue } from './actions';
+
+interface CalibersTableProps {
+  calibers: CaliberDTO[];
+}
+
+const categoryLabels: Record<CaliberCategoryValue, string> = {
+  HANDGUN: 'Handgun',
+  RIFLE: 'Rifle',
+  RIMFIRE: 'Rimfire',
+  SHOTGUN: 'Shotgun',
+  OTHER: 'Other',
+};
+
+export function CalibersTable({ calibers }: CalibersTableProps) {
+  if (calibers.length === 0) {
+    return (
+      <div className="p-8 text-center text-gray-500">
+        No calibers found. Run the caliber taxonomy migration or create one.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Caliber
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Category
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Aliases
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Patterns
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Status
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Order
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Actions
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {calibers.map((caliber) => (
+            <tr key={caliber.id} className={`hover:bg-gray-50 ${caliber.isActive ? '' : 'opacity-60'}`}>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <div className="flex items-center gap-2">
+                  {caliber.parentName && <CornerDownRight className="h-4 w-4 text-gray-400" />}
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {caliber.name}
+                      {caliber.gunLocker && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700">
+                          Gun Locker
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {caliber.label !== caliber.name && <span>{caliber.label}</span>}
+                      {caliber.parentName && <span> under {caliber.parentName}</span>}
+                    </div>
+                  </div>
+                </div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                {categoryLabels[caliber.category]}
+              </td>
+              <td className="px-6 py-4 text-sm text-gray-600 max-w-xs truncate" title={caliber.aliases.join(', ')}>
+                {caliber.aliases.join(', ') || <span className="text-gray-400">-</span>}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                {caliber.titlePatterns.length}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                {caliber.isActive ? (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                    <CheckCircle className="h-3 w-3" />
+                    Active
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    <XCircle className="h-3 w-3" />
+                    Disabled
+                  </span>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{caliber.sortOrder}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                <Link href={`/calibers/${caliber.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                  Edit
+                </Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { listCalibers } from '../actions';
+import { CaliberForm } from '../caliber-form';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CreateCaliberPage() {
+  const result = await listCalibers();
+  const calibers = result.calibers;
+  const parentOptions = calibers
+    .filter((caliber) => caliber.isActive)
+    .map((caliber) => ({ id: caliber.id, name: caliber.name }));
+  const nextSortOrder = calibers.reduce((max, caliber) => Math.max(max, caliber.sortOrder), 0) + 10;
+
+  return (
+    <div className="space-y-6">
+      {/* Back link */}
+      <Link
+        href="/calibers"
+        className="inline-flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Calibers
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Create Caliber</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Add a caliber to the shared taxonomy. It is published immediately.
+        </p>
+      </div>
+
+      {/* Form */}
+      <div className="bg-white shadow rounded-lg">
+        <CaliberForm parentOptions={parentOptions} defaultSortOrder={nextSortOrder} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { listCalibers, listCaliberVersions } from './actions';
+import Link from 'next/link';
+import { Plus, ArrowRight, History } from 'lucide-react';
+import { CalibersTable } from './calibers-table';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CalibersPage() {
+  const [calibersResult, versionsResult] = await Promise.all([listCalibers(), listCaliberVersions()]);
+
+  if (!calibersResult.success) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">Failed to load calibers: {calibersResult.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { calibers, version } = calibersResult;
+  const activeCount = calibers.filter((caliber) => caliber.isActive).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Calibers</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Caliber taxonomy shared by title extraction, the Gun Locker, price check and search
+          </p>
+        </div>
+        <Link
+          href="/calibers/create"
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          New Caliber
+        </Link>
+      </div>
+
+      {/* Calibers Table */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">
+            All Calibers
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              ({activeCount} active of {calibers.length})
+            </span>
+          </h2>
+          <span className="text-sm text-gray-500">
+            {version ? `Version ${version.version}` : 'No published version (built-in taxonomy in use)'}
+          </span>
+        </div>
+        <CalibersTable calibers={calibers} />
+      </div>
+
+      {/* Version History */}
+      {versionsResult.versions.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <History className="h-5 w-5 text-gray-400" />
+            Recent Versions
+          </h2>
+          <ul className="divide-y divide-gray-100">
+            {versionsResult.versions.map((entry) => (
+              <li key={entry.version} className="py-2 flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-mono text-gray-500 mr-3">v{entry.version}</span>
+                  <span className="text-gray-900">{entry.summary}</span>
+                </span>
+                <span className="text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString()} by {entry.createdBy}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Info Box */}
+      <div className="bg-blue-50 rounded-lg p-4">
+        <h3 className="text-sm font-medium text-blue-900 mb-2">How the Caliber Taxonomy Works</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li className="flex items-start gap-2">
+            <ArrowRight className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>Every change publishes a new version; the API and harvester pick it up within a minute</span>
+          </li>
+          <li className="flex items-start gap-2">
+            <ArrowRight className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>Children (5.56 NATO) roll up to their Gun Locker parent (.223/5.56) and share its search family</span>
+          </li>
+          <li className="flex items-start gap-2">
+            <ArrowRight className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>Title patterns affect future ingestion only; existing products are not reprocessed</span>
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
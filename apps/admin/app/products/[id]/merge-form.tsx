@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { mergeProduct } from '../actions';
+
+interface MergeFormProps {
+  productId: string;
+  productName: string;
+}
+
+export function MergeForm({ productId, productName }: MergeFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [winnerId, setWinnerId] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMerge = () => {
+    setError(null);
+    if (!confirm(`Merge "${productName}" into ${winnerId.trim()}? All links, prices, watchlists and alerts move to the winner.`)) {
+      return;
+    }
+    startTransition(async () => {
+      const result = await mergeProduct(productId, winnerId.trim(), reason);
+      if (result.success) {
+        router.push(`/products/${winnerId.trim()}`);
+      } else {
+        setError(result.error || 'Failed to merge products');
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">
+        Fold this product into another one. This product is marked superseded and aliased to the winner.
+      </p>
+      <input
+        type="text"
+        value={winnerId}
+        onChange={(e) => setWinnerId(e.target.value)}
+        placeholder="Winning product ID"
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm font-mono"
+      />
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (optional)"
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        onClick={handleMerge}
+        disabled={isPending || !winnerId.trim()}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg disabled:opacity-50"
+      >
+        {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitMerge className="h-4 w-4" />}
+        Merge Into Winner
+      </button>
+    </div>
+  );
+}
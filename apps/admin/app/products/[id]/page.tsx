@@ -0,0 +1,201 @@
+import { prisma } from '@ironscout/db';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, GitMerge, Split, History } from 'lucide-react';
+import { MergeForm } from './merge-form';
+import { SplitForm } from './split-form';
+import { RevertOperationButton } from './revert-operation-button';
+
+export const dynamic = 'force-dynamic';
+
+function formatDate(date: Date | null) {
+  return date ? new Date(date).toISOString().replace('T', ' ').slice(0, 16) : '—';
+}
+
+export default async function ProductDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  const product = await prisma.products.findUnique({
+    where: { id },
+    include: {
+      supersededBy: { select: { id: true, name: true } },
+      _count: { select: { prices: true, watchlist_items: true, alerts: true } },
+    },
+  });
+
+  if (!product) {
+    notFound();
+  }
+
+  const links = await prisma.product_links.findMany({
+    where: { productId: id },
+    include: {
+      source_products: {
+        select: { title: true, sources: { select: { name: true } } },
+      },
+    },
+    orderBy: { resolvedAt: 'desc' },
+    take: 200,
+  });
+
+  const operations = await prisma.product_merge_operations.findMany({
+    where: { OR: [{ fromProductId: id }, { toProductId: id }] },
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+
+  const otherProductIds = operations.map((op) => (op.fromProductId === id ? op.toProductId : op.fromProductId));
+  const otherProducts = await prisma.products.findMany({
+    where: { id: { in: otherProductIds } },
+    select: { id: true, name: true },
+  });
+  const productNames = new Map(otherProducts.map((p) => [p.id, p.name]));
+
+  const isActive = product.isActiveSku && !product.supersededById;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/products" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4" />
+          Products
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">{product.name}</h1>
+        <p className="mt-1 text-sm font-mono text-gray-500">
+          {product.id} · {product.canonicalKey ?? 'no canonical key'}
+        </p>
+        {product.supersededBy && (
+          <p className="mt-2 text-sm text-orange-700">
+            Superseded by{' '}
+            <Link href={`/products/${product.supersededBy.id}`} className="underline">
+              {product.supersededBy.name}
+            </Link>{' '}
+            on {formatDate(product.supersededAt)}
+          </p>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-5 sm:grid-cols-4">
+        {[
+          { label: 'Source Links', value: links.length },
+          { label: 'Prices', value: product._count.prices },
+          { label: 'Watchlist Items', value: product._count.watchlist_items },
+          { label: 'Alerts', value: product._count.alerts },
+        ].map((stat) => (
+          <div key={stat.label} className="bg-white shadow rounded-lg p-5">
+            <dt className="text-sm font-medium text-gray-500">{stat.label}</dt>
+            <dd className="text-lg font-semibold text-gray-900">{stat.value.toLocaleString()}</dd>
+          </div>
+        ))}
+      </div>
+
+      {isActive && (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Split */}
+          <div className="bg-white shadow rounded-lg p-6 lg:col-span-2">
+            <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900 mb-4">
+              <Split className="h-5 w-5 text-gray-400" />
+              Linked Source Products
+            </h2>
+            <SplitForm
+              productId={product.id}
+              productName={product.name}
+              grainWeight={product.grainWeight}
+              roundCount={product.roundCount}
+              links={links.map((link) => ({
+                sourceProductId: link.sourceProductId,
+                title: link.source_products?.title ?? link.sourceProductId,
+                sourceName: link.source_products?.sources?.name ?? '—',
+                matchType: link.matchType,
+                confidence: Number(link.confidence),
+              }))}
+            />
+          </div>
+
+          {/* Merge */}
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900 mb-4">
+              <GitMerge className="h-5 w-5 text-gray-400" />
+              Merge
+            </h2>
+            <MergeForm productId={product.id} productName={product.name} />
+          </div>
+        </div>
+      )}
+
+      {/* History */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+          <History className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-medium text-gray-900">Merge & Split History</h2>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Operation</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Moved</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {operations.map((op) => {
+              const otherId = op.fromProductId === id ? op.toProductId : op.fromProductId;
+              const summary = (op.summary as Record<string, number> | null) ?? {};
+              return (
+                <tr key={op.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {formatDate(op.createdAt)}
+                    <div className="text-xs text-gray-500">by {op.createdBy}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {op.type === 'MERGE'
+                      ? op.fromProductId === id ? 'Merged into ' : 'Absorbed '
+                      : op.fromProductId === id ? 'Split off into ' : 'Split from '}
+                    <Link href={`/products/${otherId}`} className="text-blue-600 hover:text-blue-800">
+                      {productNames.get(otherId) ?? otherId}
+                    </Link>
+                    {op.reason && <div className="text-xs text-gray-500">{op.reason}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-gray-600">
+                    {Object.entries(summary)
+                      .filter(([, count]) => count > 0)
+                      .map(([entity, count]) => `${entity}: ${count}`)
+                      .join(', ') || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {op.status === 'REVERTED' ? (
+                      <span className="text-gray-500">
+                        Reverted {formatDate(op.revertedAt)}
+                        {op.revertedBy ? ` by ${op.revertedBy}` : ''}
+                      </span>
+                    ) : (
+                      <span className="text-green-700">Applied</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    {op.status === 'APPLIED' && <RevertOperationButton operationId={op.id} />}
+                  </td>
+                </tr>
+              );
+            })}
+            {operations.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No merges or splits
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
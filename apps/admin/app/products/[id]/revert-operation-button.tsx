@@ -0,0 +1,41 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Undo2 } from 'lucide-react';
+import { revertOperation } from '../actions';
+
+export function RevertOperationButton({ operationId }: { operationId: string }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevert = () => {
+    if (!confirm('Revert this operation? Moved rows go back to the original product.')) {
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await revertOperation(operationId);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to revert operation');
+      }
+    });
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleRevert}
+        disabled={isPending}
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+      >
+        {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+        Revert
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
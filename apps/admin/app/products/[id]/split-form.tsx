@@ -0,0 +1,162 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Split } from 'lucide-react';
+import { splitSourceProducts } from '../actions';
+
+interface LinkedSourceProduct {
+  sourceProductId: string;
+  title: string;
+  sourceName: string;
+  matchType: string;
+  confidence: number;
+}
+
+interface SplitFormProps {
+  productId: string;
+  productName: string;
+  grainWeight: number | null;
+  roundCount: number | null;
+  links: LinkedSourceProduct[];
+}
+
+function parseOptionalInt(value: string): number | null {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export function SplitForm({ productId, productName, grainWeight, roundCount, links }: SplitFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [name, setName] = useState(productName);
+  const [grain, setGrain] = useState(grainWeight?.toString() ?? '');
+  const [rounds, setRounds] = useState(roundCount?.toString() ?? '');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (sourceProductId: string) => {
+    const next = new Set(selected);
+    if (next.has(sourceProductId)) {
+      next.delete(sourceProductId);
+    } else {
+      next.add(sourceProductId);
+    }
+    setSelected(next);
+  };
+
+  const handleSplit = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await splitSourceProducts(
+        productId,
+        [...selected],
+        { name, grainWeight: parseOptionalInt(grain), roundCount: parseOptionalInt(rounds) },
+        reason
+      );
+      if (result.success && result.productId) {
+        router.push(`/products/${result.productId}`);
+      } else {
+        setError(result.error || 'Failed to split product');
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3" />
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Source Product
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Source
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Match
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {links.map((link) => (
+              <tr key={link.sourceProductId}>
+                <td className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(link.sourceProductId)}
+                    onChange={() => toggle(link.sourceProductId)}
+                    className="rounded border-gray-300"
+                  />
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-900 max-w-md truncate">{link.title}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{link.sourceName}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">
+                  {link.matchType} · {(link.confidence * 100).toFixed(0)}%
+                </td>
+              </tr>
+            ))}
+            {links.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No linked source products
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selected.size > 0 && (
+        <div className="space-y-3 border-t border-gray-200 pt-4">
+          <p className="text-sm text-gray-500">
+            Move {selected.size} selected source product{selected.size === 1 ? '' : 's'} and their prices into a new
+            product. Moved links become MANUAL.
+          </p>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New product name"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="number"
+              value={grain}
+              onChange={(e) => setGrain(e.target.value)}
+              placeholder="Grain weight"
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+            <input
+              type="number"
+              value={rounds}
+              onChange={(e) => setRounds(e.target.value)}
+              placeholder="Round count"
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={handleSplit}
+            disabled={isPending || !name.trim()}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+          >
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Split className="h-4 w-4" />}
+            Split Into New Product
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  ProductMergeError,
+  mergeProducts,
+  revertProductOperation,
+  splitProduct,
+} from '@/lib/product-merge'
+
+function table() {
+  return {
+    findUnique: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    count: vi.fn().mockResolvedValue(0),
+    create: vi.fn(),
+    createMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn().mockImplementation(async ({ where }) => ({ count: where.id?.in?.length ?? 0 })),
+    deleteMany: vi.fn(),
+  }
+}
+
+function createTx() {
+  return {
+    products: table(),
+    product_links: table(),
+    prices: table(),
+    watchlist_items: table(),
+    alerts: table(),
+    firearm_ammo_preferences: table(),
+    product_aliases: table(),
+    product_merge_operations: table(),
+    product_merge_moves: table(),
+    $queryRaw: vi.fn().mockResolvedValue([]),
+  }
+}
+
+type MockTx = ReturnType<typeof createTx>
+
+const activeProduct = (id: string) => ({ id, name: id, isActiveSku: true, supersededById: null })
+
+function recordedMoves(tx: MockTx) {
+  return tx.product_merge_moves.createMany.mock.calls.flatMap(([args]) => args.data)
+}
+
+describe('mergeProducts', () => {
+  let tx: MockTx
+
+  beforeEach(() => {
+    tx = createTx()
+    tx.products.findUnique.mockImplementation(async ({ where }) => activeProduct(where.id))
+    tx.product_merge_operations.create.mockResolvedValue({ id: 'op-1' })
+    tx.product_aliases.create.mockResolvedValue({ id: 'alias-new' })
+  })
+
+  it('rejects merging a product into itself', async () => {
+    await expect(mergeProducts(tx as never, { loserId: 'p1', winnerId: 'p1', actor: 'a' })).rejects.toThrow(
+      ProductMergeError
+    )
+  })
+
+  it('rejects an already superseded loser', async () => {
+    tx.products.findUnique.mockResolvedValueOnce({ ...activeProduct('loser'), supersededById: 'other' })
+
+    await expect(mergeProducts(tx as never, { loserId: 'loser', winnerId: 'winner', actor: 'a' })).rejects.toThrow(
+      'already superseded'
+    )
+    expect(tx.product_merge_operations.create).not.toHaveBeenCalled()
+  })
+
+  it('locks both products before checking them', async () => {
+    await mergeProducts(tx as never, { loserId: 'winner', winnerId: 'loser', actor: 'a' })
+
+    const [[strings, ids]] = tx.$queryRaw.mock.calls
+    expect(strings.join('?')).toContain('FOR UPDATE')
+    // Sorted, so concurrent operations on the same pair lock in the same order
+    expect(ids).toEqual(['loser', 'winner'])
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.products.findUnique.mock.invocationCallOrder[0]
+    )
+  })
+
+  it('re-points references, resolves duplicates and aliases the loser', async () => {
+    tx.product_links.findMany.mockResolvedValue([{ id: 'link-1' }, { id: 'link-2' }])
+    tx.prices.findMany.mockResolvedValue([{ id: 'price-1' }])
+    tx.watchlist_items.findMany.mockImplementation(async ({ where }) =>
+      where.productId === 'loser'
+        ? [
+            { id: 'wi-dup', userId: 'u1', deletedAt: null },
+            { id: 'wi-move', userId: 'u2', deletedAt: null },
+          ]
+        : [{ userId: 'u1' }]
+    )
+    tx.alerts.findMany.mockImplementation(async ({ where }) =>
+      where.productId === 'loser'
+        ? [
+            { id: 'al-dup', userId: 'u1', ruleType: 'PRICE_DROP', suppressedAt: null },
+            { id: 'al-move', userId: 'u1', ruleType: 'BACK_IN_STOCK', suppressedAt: null },
+          ]
+        : [{ userId: 'u1', ruleType: 'PRICE_DROP' }]
+    )
+
+    const result = await mergeProducts(tx as never, { loserId: 'loser', winnerId: 'winner', actor: 'admin@x' })
+
+    expect(tx.product_links.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['link-1', 'link-2'] }, productId: 'loser' },
+      data: { productId: 'winner' },
+    })
+    expect(tx.watchlist_items.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['wi-dup'] } },
+      data: { deletedAt: expect.any(Date) },
+    })
+    expect(tx.alerts.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['al-dup'] } },
+      data: expect.objectContaining({ suppressedReason: 'product_merged' }),
+    })
+    expect(tx.products.update).toHaveBeenCalledWith({
+      where: { id: 'loser' },
+      data: { isActiveSku: false, supersededById: 'winner', supersededAt: expect.any(Date) },
+    })
+    expect(tx.product_aliases.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromProductId: 'loser', toProductId: 'winner' }),
+    })
+
+    expect(result.summary).toMatchObject({ product_links: 2, prices: 1, watchlist_items: 1, alerts: 1, softDeleted: 1, suppressed: 1 })
+    expect(recordedMoves(tx)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ entity: 'watchlist_items', entityId: 'wi-dup', action: 'SOFT_DELETED' }),
+        expect.objectContaining({ entity: 'watchlist_items', entityId: 'wi-move', action: 'REPOINTED' }),
+        expect.objectContaining({ entity: 'alerts', entityId: 'al-dup', action: 'SUPPRESSED' }),
+        expect.objectContaining({ entity: 'product_aliases', entityId: 'alias-new', action: 'CREATED' }),
+      ])
+    )
+  })
+})
+
+describe('splitProduct', () => {
+  let tx: MockTx
+
+  beforeEach(() => {
+    tx = createTx()
+    tx.products.findUnique.mockResolvedValue(activeProduct('orig'))
+    tx.products.findUniqueOrThrow.mockResolvedValue({ ...activeProduct('orig'), category: 'ammunition', grainWeight: 124, roundCount: 50 })
+    tx.products.create.mockResolvedValue({ id: 'new' })
+    tx.product_merge_operations.create.mockResolvedValue({ id: 'op-2' })
+  })
+
+  it('refuses to move every source product off the original', async () => {
+    tx.product_links.findMany.mockResolvedValue([{ id: 'link-1', sourceProductId: 'sp-1' }])
+    tx.product_links.count.mockResolvedValue(0)
+
+    await expect(
+      splitProduct(tx as never, { productId: 'orig', sourceProductIds: ['sp-1'], name: 'New', actor: 'a' })
+    ).rejects.toThrow('at least one source product')
+  })
+
+  it('moves links as MANUAL and keeps a snapshot for revert', async () => {
+    tx.product_links.findMany.mockResolvedValue([
+      {
+        id: 'link-1',
+        sourceProductId: 'sp-1',
+        matchType: 'FINGERPRINT',
+        status: 'MATCHED',
+        confidence: 0.82,
+        reasonCode: null,
+        resolverVersion: '1.2.0',
+        evidence: { rulesFired: [] },
+      },
+    ])
+    tx.product_links.count.mockResolvedValue(3)
+    tx.prices.findMany.mockResolvedValue([{ id: 'price-1' }])
+
+    const result = await splitProduct(tx as never, {
+      productId: 'orig',
+      sourceProductIds: ['sp-1'],
+      name: 'Federal 9mm 124gr 1000rd',
+      roundCount: 1000,
+      actor: 'admin@x',
+    })
+
+    expect(result).toMatchObject({ toProductId: 'new', summary: { product_links: 1, prices: 1 } })
+    expect(tx.products.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ roundCount: 1000, grainWeight: 124, canonicalKey: 'MANUAL:op-2' }),
+    })
+    expect(tx.product_links.update).toHaveBeenCalledWith({
+      where: { id: 'link-1' },
+      data: expect.objectContaining({ productId: 'new', matchType: 'MANUAL', status: 'MATCHED' }),
+    })
+    expect(recordedMoves(tx)).toContainEqual(
+      expect.objectContaining({
+        entity: 'product_links',
+        entityId: 'link-1',
+        previousValue: expect.objectContaining({ matchType: 'FINGERPRINT', confidence: 0.82 }),
+      })
+    )
+  })
+})
+
+describe('revertProductOperation', () => {
+  let tx: MockTx
+
+  beforeEach(() => {
+    tx = createTx()
+  })
+
+  it('refuses while a later operation on the same products is applied', async () => {
+    tx.product_merge_operations.findUnique.mockResolvedValue({
+      id: 'op-1',
+      type: 'MERGE',
+      status: 'APPLIED',
+      fromProductId: 'loser',
+      toProductId: 'winner',
+      createdAt: new Date('2026-10-01'),
+      moves: [],
+    })
+    tx.product_merge_operations.count.mockResolvedValue(1)
+
+    await expect(revertProductOperation(tx as never, 'op-1', 'a')).rejects.toThrow('later merges')
+  })
+
+  it('restores a merge', async () => {
+    tx.product_merge_operations.findUnique.mockResolvedValue({
+      id: 'op-1',
+      type: 'MERGE',
+      status: 'APPLIED',
+      fromProductId: 'loser',
+      toProductId: 'winner',
+      createdAt: new Date('2026-10-01'),
+      moves: [
+        { entity: 'product_links', entityId: 'link-1', action: 'REPOINTED' },
+        { entity: 'watchlist_items', entityId: 'wi-dup', action: 'SOFT_DELETED' },
+        { entity: 'product_aliases', entityId: 'alias-new', action: 'CREATED' },
+      ],
+    })
+    tx.product_links.findMany.mockResolvedValue([{ sourceProductId: 'sp-1' }])
+
+    await revertProductOperation(tx as never, 'op-1', 'admin@x')
+
+    expect(tx.product_links.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['link-1'] }, productId: 'winner' },
+      data: { productId: 'loser' },
+    })
+    expect(tx.prices.updateMany).toHaveBeenCalledWith({
+      where: { productId: 'winner', sourceProductId: { in: ['sp-1'] } },
+      data: { productId: 'loser' },
+    })
+    expect(tx.watchlist_items.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['wi-dup'] } },
+      data: { deletedAt: null },
+    })
+    expect(tx.product_aliases.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['alias-new'] } } })
+    expect(tx.products.update).toHaveBeenCalledWith({
+      where: { id: 'loser' },
+      data: { isActiveSku: true, supersededById: null, supersededAt: null },
+    })
+    expect(tx.product_merge_operations.update).toHaveBeenCalledWith({
+      where: { id: 'op-1' },
+      data: { status: 'REVERTED', revertedBy: 'admin@x', revertedAt: expect.any(Date) },
+    })
+  })
+})
@@ -0,0 +1,182 @@
+'use server';
+
+/**
+ * Product Merge / Split Server Actions
+ *
+ * Wrap lib/product-merge in a transaction, audit to admin_audit_logs in the
+ * same transaction and revalidate the product pages. See lib/product-merge.ts for what moves.
+ */
+
+import { prisma } from '@ironscout/db';
+import { revalidatePath } from 'next/cache';
+import { getAdminSession, logAdminAction } from '@/lib/auth';
+import { loggers } from '@/lib/logger';
+import {
+  ProductMergeError,
+  mergeProducts,
+  splitProduct,
+  revertProductOperation,
+} from '@/lib/product-merge';
+
+const log = loggers.admin;
+
+/** Large merges move every price row of the loser */
+const TRANSACTION_OPTIONS = { timeout: 120_000, maxWait: 10_000 };
+
+function revalidateProducts(...productIds: string[]) {
+  revalidatePath('/products');
+  for (const id of productIds) {
+    revalidatePath(`/products/${id}`);
+  }
+}
+
+/**
+ * Merge a losing product into a winner
+ */
+export async function mergeProduct(
+  loserId: string,
+  winnerId: string,
+  reason: string
+): Promise<{ success: boolean; operationId?: string; error?: string }> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const merged = await mergeProducts(tx, {
+        loserId,
+        winnerId,
+        reason: reason.trim() || undefined,
+        actor: session.email,
+      });
+      await logAdminAction(
+        session.userId,
+        'MERGE_PRODUCTS',
+        {
+          resource: 'products',
+          resourceId: loserId,
+          oldValue: { productId: loserId, supersededById: null },
+          newValue: { supersededById: winnerId, operationId: merged.operationId, reason, moved: merged.summary },
+        },
+        tx
+      );
+      return merged;
+    }, TRANSACTION_OPTIONS);
+
+    log.info('Products merged', { loserId, winnerId, operationId: result.operationId, actor: session.email });
+
+    revalidateProducts(loserId, winnerId);
+    return { success: true, operationId: result.operationId };
+  } catch (error) {
+    if (error instanceof ProductMergeError) {
+      return { success: false, error: error.message };
+    }
+    log.error('Failed to merge products', { loserId, winnerId }, error);
+    return { success: false, error: 'Failed to merge products' };
+  }
+}
+
+/**
+ * Move selected source products into a new product
+ */
+export async function splitSourceProducts(
+  productId: string,
+  sourceProductIds: string[],
+  newProduct: { name: string; grainWeight?: number | null; roundCount?: number | null },
+  reason: string
+): Promise<{ success: boolean; productId?: string; error?: string }> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const split = await splitProduct(tx, {
+        productId,
+        sourceProductIds,
+        ...newProduct,
+        reason: reason.trim() || undefined,
+        actor: session.email,
+      });
+      await logAdminAction(
+        session.userId,
+        'SPLIT_PRODUCT',
+        {
+          resource: 'products',
+          resourceId: productId,
+          newValue: {
+            newProductId: split.toProductId,
+            newProductName: newProduct.name,
+            sourceProductIds,
+            operationId: split.operationId,
+            reason,
+            moved: split.summary,
+          },
+        },
+        tx
+      );
+      return split;
+    }, TRANSACTION_OPTIONS);
+
+    log.info('Product split', {
+      productId,
+      newProductId: result.toProductId,
+      sourceProducts: sourceProductIds.length,
+      operationId: result.operationId,
+      actor: session.email,
+    });
+
+    revalidateProducts(productId, result.toProductId);
+    return { success: true, productId: result.toProductId };
+  } catch (error) {
+    if (error instanceof ProductMergeError) {
+      return { success: false, error: error.message };
+    }
+    log.error('Failed to split product', { productId, sourceProductIds }, error);
+    return { success: false, error: 'Failed to split product' };
+  }
+}
+
+/**
+ * Undo a merge or split
+ */
+export async function revertOperation(
+  operationId: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const reverted = await revertProductOperation(tx, operationId, session.email);
+      await logAdminAction(
+        session.userId,
+        'REVERT_PRODUCT_OPERATION',
+        {
+          resource: 'product_merge_operations',
+          resourceId: operationId,
+          oldValue: { status: 'APPLIED' },
+          newValue: { status: 'REVERTED', restored: reverted.summary },
+        },
+        tx
+      );
+      return reverted;
+    }, TRANSACTION_OPTIONS);
+
+    log.info('Product operation reverted', { operationId, actor: session.email });
+
+    revalidateProducts(result.fromProductId, result.toProductId);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ProductMergeError) {
+      return { success: false, error: error.message };
+    }
+    log.error('Failed to revert product operation', { operationId }, error);
+    return { success: false, error: 'Failed to revert operation' };
+  }
+}
@@ -0,0 +1,134 @@
+import { prisma } from '@ironscout/db';
+import Link from 'next/link';
+import { Search, Package } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ProductsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string }>;
+}) {
+  const { q } = await searchParams;
+  const query = q?.trim() ?? '';
+
+  const products = query
+    ? await prisma.products.findMany({
+        where: {
+          OR: [
+            { id: query },
+            { canonicalKey: query },
+            { upcNorm: query },
+            { name: { contains: query, mode: 'insensitive' } },
+          ],
+        },
+        select: {
+          id: true,
+          name: true,
+          canonicalKey: true,
+          brandNorm: true,
+          caliberNorm: true,
+          grainWeight: true,
+          roundCount: true,
+          isActiveSku: true,
+          supersededById: true,
+          _count: { select: { product_links: true } },
+        },
+        orderBy: { name: 'asc' },
+        take: 50,
+      })
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Products</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Find canonical products to merge duplicates or split out source products
+        </p>
+      </div>
+
+      <form className="flex gap-2" action="/products">
+        <div className="relative flex-1 max-w-xl">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            name="q"
+            defaultValue={query}
+            placeholder="Name, product ID, canonical key or UPC"
+            className="w-full rounded-md border border-gray-300 pl-9 pr-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg"
+        >
+          Search
+        </button>
+      </form>
+
+      {query && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Identity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Links
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {products.map((product) => (
+                <tr key={product.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <Link href={`/products/${product.id}`} className="text-sm text-blue-600 hover:text-blue-800">
+                      {product.name}
+                    </Link>
+                    <div className="text-xs font-mono text-gray-500">{product.canonicalKey ?? product.id}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {[product.brandNorm, product.caliberNorm, product.grainWeight && `${product.grainWeight}gr`, product.roundCount && `${product.roundCount}rd`]
+                      .filter(Boolean)
+                      .join(' · ') || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {product._count.product_links.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {product.supersededById ? (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Superseded
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                        Active
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {products.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                    <Package className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                    No products match &ldquo;{query}&rdquo;
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { prisma } from '@ironscout/db';
+import { ArrowLeft, ArrowDown, ArrowUp, GitCompareArrows } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+const CHANGE_TYPES = [
+  'UNCHANGED',
+  'CONFIDENCE_SHIFT',
+  'RELINKED',
+  'NEW_PRODUCT',
+  'NEW_REVIEW',
+  'LEFT_REVIEW',
+  'REASON_CHANGED',
+  'NEW_LINK',
+  'ERROR',
+] as const;
+
+/** Change types where the product a source product points at would differ */
+const MOVED_CHANGE_TYPES = ['RELINKED', 'NEW_PRODUCT', 'NEW_REVIEW', 'LEFT_REVIEW'] as const;
+
+const changeTypeColors: Record<string, string> = {
+  UNCHANGED: 'bg-gray-100 text-gray-700',
+  CONFIDENCE_SHIFT: 'bg-blue-100 text-blue-700',
+  RELINKED: 'bg-orange-100 text-orange-700',
+  NEW_PRODUCT: 'bg-purple-100 text-purple-700',
+  NEW_REVIEW: 'bg-yellow-100 text-yellow-700',
+  LEFT_REVIEW: 'bg-green-100 text-green-700',
+  REASON_CHANGED: 'bg-yellow-100 text-yellow-700',
+  NEW_LINK: 'bg-emerald-100 text-emerald-700',
+  ERROR: 'bg-red-100 text-red-700',
+};
+
+const changeTypeDescriptions: Record<string, string> = {
+  UNCHANGED: 'Same product and confidence',
+  CONFIDENCE_SHIFT: 'Same product, different confidence',
+  RELINKED: 'Would link to a different existing product',
+  NEW_PRODUCT: 'Would create a new canonical product',
+  NEW_REVIEW: 'Linked today, would go to review',
+  LEFT_REVIEW: 'In review today, would link',
+  REASON_CHANGED: 'Stays unlinked with a different reason code',
+  NEW_LINK: 'No live link yet',
+  ERROR: 'Shadow resolution failed',
+};
+
+function formatPercent(value: number | null | undefined) {
+  return value == null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number | null | undefined) {
+  if (value == null) return '—';
+  return `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+}
+
+export default async function ResolverShadowRunPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  const run = await prisma.resolver_shadow_runs.findUnique({ where: { id } });
+  if (!run) {
+    notFound();
+  }
+
+  const changeTypeCounts = await prisma.resolver_shadow_decisions.groupBy({
+    by: ['changeType'],
+    where: { runId: id },
+    _count: { id: true },
+  });
+
+  const sourceChangeCounts = await prisma.resolver_shadow_decisions.groupBy({
+    by: ['sourceId', 'changeType'],
+    where: { runId: id },
+    _count: { id: true },
+  });
+
+  // Reasons for rows entering or changing review use the shadow reason;
+  // rows leaving review are explained by the reason they had
+  const newReviewReasons = await prisma.resolver_shadow_decisions.groupBy({
+    by: ['reasonCode'],
+    where: { runId: id, changeType: { in: ['NEW_REVIEW', 'REASON_CHANGED'] } },
+    _count: { id: true },
+  });
+
+  const leftReviewReasons = await prisma.resolver_shadow_decisions.groupBy({
+    by: ['currentReasonCode'],
+    where: { runId: id, changeType: 'LEFT_REVIEW' },
+    _count: { id: true },
+  });
+
+  const confidenceShift = await prisma.resolver_shadow_decisions.aggregate({
+    where: { runId: id, changeType: 'CONFIDENCE_SHIFT' },
+    _avg: { confidenceDelta: true },
+    _min: { confidenceDelta: true },
+    _max: { confidenceDelta: true },
+  });
+
+  const confidenceUp = await prisma.resolver_shadow_decisions.count({
+    where: { runId: id, changeType: 'CONFIDENCE_SHIFT', confidenceDelta: { gt: 0 } },
+  });
+
+  const movedLinks = await prisma.resolver_shadow_decisions.findMany({
+    where: { runId: id, changeType: { in: [...MOVED_CHANGE_TYPES] } },
+    orderBy: { createdAt: 'asc' },
+    take: 50,
+  });
+
+  // Side tables have no FKs; resolve names for display
+  const sourceIds = [...new Set(sourceChangeCounts.map((s) => s.sourceId))];
+  const sources = await prisma.sources.findMany({
+    where: { id: { in: sourceIds } },
+    select: { id: true, name: true },
+  });
+  const sourceNames = new Map(sources.map((s) => [s.id, s.name]));
+
+  const sourceProducts = await prisma.source_products.findMany({
+    where: { id: { in: movedLinks.map((l) => l.sourceProductId) } },
+    select: { id: true, title: true },
+  });
+  const sourceProductTitles = new Map(sourceProducts.map((sp) => [sp.id, sp.title]));
+
+  const productIds = movedLinks
+    .flatMap((l) => [l.currentProductId, l.productId])
+    .filter((pid): pid is string => !!pid);
+  const products = await prisma.products.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, name: true },
+  });
+  const productNames = new Map(products.map((p) => [p.id, p.name]));
+
+  const countFor = (changeType: string) =>
+    changeTypeCounts.find((c) => c.changeType === changeType)?._count.id ?? 0;
+  const total = changeTypeCounts.reduce((sum, c) => sum + c._count.id, 0);
+  const shiftCount = countFor('CONFIDENCE_SHIFT');
+
+  // Pivot source × change type
+  const bySource = new Map<string, Record<string, number>>();
+  for (const row of sourceChangeCounts) {
+    const counts = bySource.get(row.sourceId) ?? {};
+    counts[row.changeType] = row._count.id;
+    bySource.set(row.sourceId, counts);
+  }
+  const sourceRows = [...bySource.entries()]
+    .map(([sourceId, counts]) => ({
+      sourceId,
+      counts,
+      total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+      changed: Object.entries(counts)
+        .filter(([changeType]) => changeType !== 'UNCHANGED')
+        .reduce((sum, [, n]) => sum + n, 0),
+    }))
+    .sort((a, b) => b.changed - a.changed);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/resolver-shadow"
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Shadow Runs
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          Shadow Run: resolver {run.resolverVersion} / dictionary {run.dictionaryVersion}
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          {run.sourceId ? sourceNames.get(run.sourceId) ?? run.sourceId : 'All sources'}
+          {run.sampleSize ? `, sample of ${run.sampleSize.toLocaleString()}` : ''} · {run.status} ·
+          started {new Date(run.startedAt).toISOString().replace('T', ' ').slice(0, 16)}
+          {run.triggeredBy ? ` by ${run.triggeredBy}` : ''}
+        </p>
+        {run.errorMessage && (
+          <p className="mt-2 text-sm text-red-600">{run.errorMessage}</p>
+        )}
+      </div>
+
+      {/* Change Types */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Changes vs Live Links</h2>
+        <div className="space-y-3">
+          {CHANGE_TYPES.map((changeType) => {
+            const count = countFor(changeType);
+            const percentage = total > 0 ? (count / total) * 100 : 0;
+            return (
+              <div key={changeType}>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${changeTypeColors[changeType]}`}>
+                      {changeType}
+                    </span>
+                    <span className="text-xs text-gray-500">{changeTypeDescriptions[changeType]}</span>
+                  </div>
+                  <span className="text-sm text-gray-600">
+                    {count.toLocaleString()} ({percentage.toFixed(1)}%)
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${changeType === 'UNCHANGED' ? 'bg-gray-400' : changeType === 'ERROR' ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Reasons & Confidence */}
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">New Review Reasons</h2>
+          {newReviewReasons.length > 0 ? (
+            <div className="space-y-2">
+              {newReviewReasons
+                .sort((a, b) => b._count.id - a._count.id)
+                .map((reason) => (
+                  <div
+                    key={reason.reasonCode ?? 'none'}
+                    className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0"
+                  >
+                    <span className="text-sm font-mono text-gray-700">{reason.reasonCode ?? '—'}</span>
+                    <span className="text-sm text-gray-600">{reason._count.id.toLocaleString()}</span>
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No rows would enter review</p>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Review Reasons Cleared</h2>
+          {leftReviewReasons.length > 0 ? (
+            <div className="space-y-2">
+              {leftReviewReasons
+                .sort((a, b) => b._count.id - a._count.id)
+                .map((reason) => (
+                  <div
+                    key={reason.currentReasonCode ?? 'none'}
+                    className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0"
+                  >
+                    <span className="text-sm font-mono text-gray-700">{reason.currentReasonCode ?? '—'}</span>
+                    <span className="text-sm text-gray-600">{reason._count.id.toLocaleString()}</span>
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No rows would leave review</p>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Confidence Shifts</h2>
+          {shiftCount > 0 ? (
+            <dl className="space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <dt className="flex items-center gap-1 text-gray-500">
+                  <ArrowUp className="h-4 w-4 text-green-500" /> Increased
+                </dt>
+                <dd className="text-gray-900">{confidenceUp.toLocaleString()}</dd>
+              </div>
+              <div className="flex items-center justify-between">
+                <dt className="flex items-center gap-1 text-gray-500">
+                  <ArrowDown className="h-4 w-4 text-red-500" /> Decreased
+                </dt>
+                <dd className="text-gray-900">{(shiftCount - confidenceUp).toLocaleString()}</dd>
+              </div>
+              <div className="flex items-center justify-between">
+                <dt className="text-gray-500">Average change</dt>
+                <dd className="text-gray-900">{formatDelta(Number(confidenceShift._avg.confidenceDelta))}</dd>
+              </div>
+              <div className="flex items-center justify-between">
+                <dt className="text-gray-500">Range</dt>
+                <dd className="text-gray-900">
+                  {formatDelta(Number(confidenceShift._min.confidenceDelta))} to{' '}
+                  {formatDelta(Number(confidenceShift._max.confidenceDelta))}
+                </dd>
+              </div>
+            </dl>
+          ) : (
+            <p className="text-sm text-gray-500">No confidence changes</p>
+          )}
+        </div>
+      </div>
+
+      {/* By Source */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">By Source</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Source
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Resolved
+                </th>
+                {CHANGE_TYPES.filter((c) => c !== 'UNCHANGED').map((changeType) => (
+                  <th
+                    key={changeType}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {changeType.replace(/_/g, ' ')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sourceRows.map((row) => (
+                <tr key={row.sourceId}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {sourceNames.get(row.sourceId) ?? row.sourceId}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {row.total.toLocaleString()}
+                  </td>
+                  {CHANGE_TYPES.filter((c) => c !== 'UNCHANGED').map((changeType) => (
+                    <td key={changeType} className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {row.counts[changeType] ? row.counts[changeType].toLocaleString() : '—'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {sourceRows.length === 0 && (
+                <tr>
+                  <td colSpan={10} className="px-6 py-12 text-center text-gray-500">
+                    No decisions recorded
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Moved Links */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+          <GitCompareArrows className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-medium text-gray-900">Links That Would Move</h2>
+          <span className="text-sm text-gray-500">(first {movedLinks.length})</span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Source Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Change
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Live
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Shadow
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Confidence
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {movedLinks.map((link) => (
+                <tr key={link.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900 max-w-xs truncate">
+                      {sourceProductTitles.get(link.sourceProductId) ?? link.sourceProductId}
+                    </div>
+                    <div className="text-xs text-gray-500">{sourceNames.get(link.sourceId) ?? link.sourceId}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${changeTypeColors[link.changeType]}`}>
+                      {link.changeType}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900 max-w-xs truncate">
+                      {link.currentProductId ? productNames.get(link.currentProductId) ?? link.currentProductId : '—'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {link.currentStatus}
+                      {link.currentReasonCode ? ` · ${link.currentReasonCode}` : ''}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900 max-w-xs truncate">
+                      {link.productId
+                        ? productNames.get(link.productId) ?? link.productId
+                        : link.createdCanonicalKey
+                          ? <span className="font-mono">new {link.createdCanonicalKey}</span>
+                          : '—'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {link.status} · {link.matchType}
+                      {link.reasonCode ? ` · ${link.reasonCode}` : ''}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {formatPercent(link.currentConfidence == null ? null : Number(link.currentConfidence))} →{' '}
+                    {formatPercent(Number(link.confidence))}
+                  </td>
+                </tr>
+              ))}
+              {movedLinks.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    No links would move
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
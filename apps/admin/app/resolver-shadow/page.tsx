@@ -0,0 +1,123 @@
+import Link from 'next/link';
+import { prisma } from '@ironscout/db';
+import { FlaskConical } from 'lucide-react';
+
+export const dynamic = 'force-dynamic';
+
+const runStatusColors: Record<string, string> = {
+  RUNNING: 'bg-blue-100 text-blue-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  FAILED: 'bg-red-100 text-red-700',
+};
+
+function formatDate(date: Date | null) {
+  return date ? new Date(date).toISOString().replace('T', ' ').slice(0, 16) : '—';
+}
+
+export default async function ResolverShadowRunsPage() {
+  const runs = await prisma.resolver_shadow_runs.findMany({
+    orderBy: { startedAt: 'desc' },
+    take: 50,
+  });
+
+  const sourceIds = [...new Set(runs.map((r) => r.sourceId).filter((id): id is string => !!id))];
+  const sources = await prisma.sources.findMany({
+    where: { id: { in: sourceIds } },
+    select: { id: true, name: true },
+  });
+  const sourceNames = new Map(sources.map((s) => [s.id, s.name]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Resolver Shadow Runs</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Re-resolutions with a candidate resolver build, compared against live product links.
+          Start a run with <code className="font-mono">pnpm --filter harvester resolver:shadow --sample &lt;n&gt;</code>{' '}
+          or <code className="font-mono">--source &lt;id&gt;</code>.
+        </p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Started
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Versions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Resolved
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Changed
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Errors
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {runs.map((run) => {
+                const changedRate = run.totalCount > 0 ? (run.changedCount / run.totalCount) * 100 : 0;
+                return (
+                  <tr key={run.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link href={`/resolver-shadow/${run.id}`} className="text-blue-600 hover:text-blue-800">
+                        {formatDate(run.startedAt)}
+                      </Link>
+                      {run.triggeredBy && <div className="text-xs text-gray-500">by {run.triggeredBy}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">
+                      resolver {run.resolverVersion}
+                      <div className="text-xs text-gray-500">dictionary {run.dictionaryVersion}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {run.sourceId ? sourceNames.get(run.sourceId) ?? run.sourceId : 'All sources'}
+                      {run.sampleSize && <div className="text-xs text-gray-500">sample of {run.sampleSize.toLocaleString()}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${runStatusColors[run.status]}`}
+                        title={run.errorMessage ?? undefined}
+                      >
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {run.totalCount.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {run.changedCount.toLocaleString()} ({changedRate.toFixed(1)}%)
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {run.errorCount.toLocaleString()}
+                    </td>
+                  </tr>
+                );
+              })}
+              {runs.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                    <FlaskConical className="mx-auto h-8 w-8 text-gray-300 mb-2" />
+                    No shadow runs yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
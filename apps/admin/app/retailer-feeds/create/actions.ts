@@ -1,9 +1,10 @@
 'use server';
 
 import { prisma } from '@ironscout/db';
+import { encryptSecret, buildFeedCredentialAAD } from '@ironscout/crypto';
 import { revalidatePath } from 'next/cache';
 
-export type FeedAccessType = 'URL' | 'AUTH_URL' | 'FTP' | 'SFTP' | 'UPLOAD';
+export type FeedAccessType = 'URL' | 'AUTH_URL' | 'FTP' | 'SFTP' | 'UPLOAD' | 'PUSH';
 export type FeedFormatType = 'GENERIC' | 'AMMOSEEK_V1' | 'GUNENGINE_V2' | 'IMPACT';
 
 interface CreateRetailerFeedInput {
@@ -47,20 +48,33 @@ export async function createRetailerFeed(input: CreateRetailerFeedInput): Promis
       }
     }
 
-    // Create the feed
-    const feed = await prisma.retailer_feeds.create({
-      data: {
-        retailerId: input.retailerId,
-        name: input.name,
-        accessType: input.accessType,
-        formatType: input.formatType,
-        url: input.url || null,
-        username: input.username || null,
-        password: input.password || null,
-        scheduleMinutes: input.scheduleMinutes,
-        status: 'PENDING',
-        enabled: false, // Start disabled until verified
-      },
+    // The password is bound to the generated feed id, so it is encrypted
+    // after the row exists, in the same transaction
+    const feed = await prisma.$transaction(async (tx) => {
+      const created = await tx.retailer_feeds.create({
+        data: {
+          retailerId: input.retailerId,
+          name: input.name,
+          accessType: input.accessType,
+          formatType: input.formatType,
+          url: input.url || null,
+          username: input.username || null,
+          scheduleMinutes: input.scheduleMinutes,
+          status: 'PENDING',
+          enabled: false, // Start disabled until verified
+        },
+      });
+
+      if (!input.password) return created;
+
+      return tx.retailer_feeds.update({
+        where: { id: created.id },
+        data: {
+          secretCiphertext: new Uint8Array(
+            encryptSecret(input.password, buildFeedCredentialAAD(created.id, created.secretVersion))
+          ) as Uint8Array<ArrayBuffer>,
+        },
+      });
     });
 
     revalidatePath(`/retailers/${input.retailerId}`);
@@ -12,6 +12,7 @@ const ACCESS_TYPES: { value: FeedAccessType; label: string; description: string
   { value: 'FTP', label: 'FTP', description: 'FTP server connection' },
   { value: 'SFTP', label: 'SFTP', description: 'SFTP server connection' },
   { value: 'UPLOAD', label: 'Manual Upload', description: 'Manually uploaded files' },
+  { value: 'PUSH', label: 'API Push', description: 'Records pushed by the merchant through the inventory API' },
 ];
 
 const FORMAT_TYPES: { value: FeedFormatType; label: string }[] = [
@@ -73,7 +74,7 @@ export function CreateRetailerFeedForm({ retailerId, retailerName }: CreateFeedF
   };
 
   const needsAuth = ['AUTH_URL', 'FTP', 'SFTP'].includes(formData.accessType);
-  const needsUrl = formData.accessType !== 'UPLOAD';
+  const needsUrl = formData.accessType !== 'UPLOAD' && formData.accessType !== 'PUSH';
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
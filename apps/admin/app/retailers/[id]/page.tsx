@@ -1,4 +1,5 @@
 import { prisma } from '@ironscout/db';
+import { toShippingRule } from '@ironscout/db/landed-cost.js';
 import { notFound } from 'next/navigation';
 import { formatDateTime } from '@/lib/utils';
 import Link from 'next/link';
@@ -21,6 +22,8 @@ import { EditRetailerForm } from './edit-form';
 import { VisibilityActions } from './visibility-actions';
 import { MerchantLinkSection } from './merchant-link-section';
 import { SourceTrustConfigSection } from './source-trust-config-section';
+import { ShippingRuleSection } from './shipping-rule-section';
+import { ShippingRestrictionsSection } from './shipping-restrictions-section';
 
 export const dynamic = 'force-dynamic';
 
@@ -61,6 +64,10 @@ export default async function RetailerDetailPage({
         },
         orderBy: { name: 'asc' },
       },
+      shipping_rule: true,
+      shipping_restrictions: {
+        orderBy: { state: 'asc' },
+      },
       _count: {
         select: {
           prices: true,
@@ -346,6 +353,33 @@ export default async function RetailerDetailPage({
         <SourceTrustConfigSection sources={retailer.sources} />
       )}
 
+      {/* Shipping Rules Section */}
+      <ShippingRuleSection
+        retailerId={retailer.id}
+        rule={
+          retailer.shipping_rule
+            ? {
+                ...toShippingRule(retailer.shipping_rule),
+                notes: retailer.shipping_rule.notes,
+                updatedAt: retailer.shipping_rule.updatedAt.toISOString(),
+                updatedBy: retailer.shipping_rule.updatedBy,
+              }
+            : null
+        }
+      />
+
+      {/* Shipping Restrictions Section */}
+      <ShippingRestrictionsSection
+        retailerId={retailer.id}
+        restrictions={retailer.shipping_restrictions.map((restriction) => ({
+          state: restriction.state,
+          reason: restriction.reason,
+          notes: restriction.notes,
+          updatedAt: restriction.updatedAt.toISOString(),
+          updatedBy: restriction.updatedBy,
+        }))}
+      />
+
       {/* Feeds Section */}
       <div className="bg-white shadow rounded-lg p-6">
         <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Ban, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { ShippingRestrictionReason } from '@ironscout/db/generated/prisma';
+import { upsertRetailerShippingRestriction, deleteRetailerShippingRestriction } from '../actions';
+
+export interface ShippingRestrictionValues {
+  state: string;
+  reason: ShippingRestrictionReason;
+  notes: string | null;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+interface ShippingRestrictionsSectionProps {
+  retailerId: string;
+  restrictions: ShippingRestrictionValues[];
+}
+
+const REASON_LABELS: Record<ShippingRestrictionReason, string> = {
+  NO_SHIP: 'Does not ship',
+  IN_PERSON_PICKUP: 'In-person pickup only',
+  FFL_REQUIRED: 'Ships to FFL only',
+  BACKGROUND_CHECK: 'Background check required',
+};
+
+const BLOCKING_REASONS: ShippingRestrictionReason[] = ['NO_SHIP', 'IN_PERSON_PICKUP'];
+
+export function ShippingRestrictionsSection({ retailerId, restrictions }: ShippingRestrictionsSectionProps) {
+  const router = useRouter();
+  const [state, setState] = useState('');
+  const [reason, setReason] = useState<ShippingRestrictionReason>('NO_SHIP');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingState, setRemovingState] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      const result = await upsertRetailerShippingRestriction(retailerId, {
+        state,
+        reason,
+        notes: notes || null,
+      });
+
+      if (result.success) {
+        setState('');
+        setNotes('');
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to save');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (restrictionState: string) => {
+    if (!confirm(`Remove the ${restrictionState} restriction?`)) return;
+
+    setError(null);
+    setRemovingState(restrictionState);
+
+    try {
+      const result = await deleteRetailerShippingRestriction(retailerId, restrictionState);
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to remove');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setRemovingState(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center gap-2">
+            <Ban className="h-5 w-5 text-gray-500" />
+            State Shipping Restrictions
+          </h2>
+          <span className="text-sm text-gray-500">
+            {restrictions.length === 0
+              ? 'None'
+              : `${restrictions.length} ${restrictions.length === 1 ? 'state' : 'states'}`}
+          </span>
+        </div>
+      </div>
+
+      {restrictions.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">State</th>
+                <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Restriction</th>
+                <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Updated</th>
+                <th className="px-6 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {restrictions.map((restriction) => (
+                <tr key={restriction.state}>
+                  <td className="px-6 py-2 text-sm font-medium text-gray-900">{restriction.state}</td>
+                  <td className="px-6 py-2">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                      BLOCKING_REASONS.includes(restriction.reason)
+                        ? 'bg-red-100 text-red-700'
+                        : 'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {REASON_LABELS[restriction.reason]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-2 text-sm text-gray-500">{restriction.notes || '—'}</td>
+                  <td className="px-6 py-2 text-sm text-gray-500">
+                    {new Date(restriction.updatedAt).toLocaleDateString()} by {restriction.updatedBy}
+                  </td>
+                  <td className="px-6 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(restriction.state)}
+                      disabled={removingState === restriction.state}
+                      className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      {removingState === restriction.state ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+          <div>
+            <label htmlFor="restrictionState" className="block text-sm font-medium text-gray-700">
+              State
+            </label>
+            <input
+              id="restrictionState"
+              type="text"
+              maxLength={2}
+              value={state}
+              onChange={(e) => setState(e.target.value.toUpperCase())}
+              placeholder="CA"
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="restrictionReason" className="block text-sm font-medium text-gray-700">
+              Restriction
+            </label>
+            <select
+              id="restrictionReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ShippingRestrictionReason)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {(Object.keys(REASON_LABELS) as ShippingRestrictionReason[]).map((value) => (
+                <option key={value} value={value}>
+                  {REASON_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="sm:col-span-2">
+            <label htmlFor="restrictionNotes" className="block text-sm font-medium text-gray-700">
+              Notes
+            </label>
+            <input
+              id="restrictionNotes"
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Ammo purchases require a background check in CA"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Save Restriction
+          </button>
+        </div>
+      </form>
+      <div className="px-6 py-3 bg-gray-50 border-t border-gray-200">
+        <p className="text-xs text-gray-500">
+          Applied to buyers with a ship-to state. &quot;Does not ship&quot; and &quot;In-person pickup
+          only&quot; hide this retailer&apos;s offers in search and the bulk planner; FFL and background
+          check restrictions keep offers visible with a note.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Truck, Loader2, Save } from 'lucide-react';
+import type { ShippingType } from '@ironscout/db/generated/prisma';
+import { updateRetailerShippingRule } from '../actions';
+
+export interface ShippingRuleValues {
+  shippingType: ShippingType;
+  flatRate: number | null;
+  perUnitRate: number | null;
+  freeShippingMinimum: number | null;
+  stateSurcharges: Record<string, number>;
+  notes: string | null;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+interface ShippingRuleSectionProps {
+  retailerId: string;
+  rule: ShippingRuleValues | null;
+}
+
+const SHIPPING_TYPE_LABELS: Record<ShippingType, string> = {
+  UNKNOWN: 'Unknown (use shipping observed on offers)',
+  CALCULATED: 'Calculated at checkout (use shipping observed on offers)',
+  FREE: 'Free shipping',
+  FLAT: 'Flat rate per order',
+  PER_UNIT: 'Per box/case',
+};
+
+function toInput(value: number | null): string {
+  return value === null ? '' : String(value);
+}
+
+function parseAmount(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function formatSurcharges(surcharges: Record<string, number>): string {
+  return Object.entries(surcharges)
+    .map(([state, amount]) => `${state}=${amount}`)
+    .join(', ');
+}
+
+/**
+ * Parse "AK=15, HI=12.5" into { AK: 15, HI: 12.5 }. Returns null if malformed.
+ */
+function parseSurcharges(value: string): Record<string, number> | null {
+  const result: Record<string, number> = {};
+  for (const part of value.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [state, amount] = part.split('=').map((p) => p.trim());
+    if (!state || amount === undefined || amount === '') {
+      return null;
+    }
+    result[state.toUpperCase()] = Number(amount);
+  }
+  return result;
+}
+
+export function ShippingRuleSection({ retailerId, rule }: ShippingRuleSectionProps) {
+  const router = useRouter();
+  const [shippingType, setShippingType] = useState<ShippingType>(rule?.shippingType ?? 'UNKNOWN');
+  const [flatRate, setFlatRate] = useState(toInput(rule?.flatRate ?? null));
+  const [perUnitRate, setPerUnitRate] = useState(toInput(rule?.perUnitRate ?? null));
+  const [freeShippingMinimum, setFreeShippingMinimum] = useState(toInput(rule?.freeShippingMinimum ?? null));
+  const [surcharges, setSurcharges] = useState(formatSurcharges(rule?.stateSurcharges ?? {}));
+  const [notes, setNotes] = useState(rule?.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const stateSurcharges = parseSurcharges(surcharges);
+    if (!stateSurcharges) {
+      setError('State surcharges must look like "AK=15, HI=15"');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await updateRetailerShippingRule(retailerId, {
+        shippingType,
+        flatRate: shippingType === 'FLAT' ? parseAmount(flatRate) : null,
+        perUnitRate: shippingType === 'PER_UNIT' ? parseAmount(perUnitRate) : null,
+        freeShippingMinimum: parseAmount(freeShippingMinimum),
+        stateSurcharges,
+        notes: notes || null,
+      });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to save');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center gap-2">
+            <Truck className="h-5 w-5 text-gray-500" />
+            Shipping Rules
+          </h2>
+          <span className="text-sm text-gray-500">
+            {rule
+              ? `Updated ${new Date(rule.updatedAt).toLocaleString()} by ${rule.updatedBy}`
+              : 'Not configured'}
+          </span>
+        </div>
+      </div>
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="shippingType" className="block text-sm font-medium text-gray-700">
+              Shipping Type
+            </label>
+            <select
+              id="shippingType"
+              value={shippingType}
+              onChange={(e) => setShippingType(e.target.value as ShippingType)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {(Object.keys(SHIPPING_TYPE_LABELS) as ShippingType[]).map((type) => (
+                <option key={type} value={type}>
+                  {SHIPPING_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {shippingType === 'FLAT' && (
+            <div>
+              <label htmlFor="flatRate" className="block text-sm font-medium text-gray-700">
+                Flat Rate ($ per order)
+              </label>
+              <input
+                id="flatRate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={flatRate}
+                onChange={(e) => setFlatRate(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          )}
+
+          {shippingType === 'PER_UNIT' && (
+            <div>
+              <label htmlFor="perUnitRate" className="block text-sm font-medium text-gray-700">
+                Per-Unit Rate ($ per box/case)
+              </label>
+              <input
+                id="perUnitRate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={perUnitRate}
+                onChange={(e) => setPerUnitRate(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="freeShippingMinimum" className="block text-sm font-medium text-gray-700">
+              Free Shipping Minimum ($ order subtotal)
+            </label>
+            <input
+              id="freeShippingMinimum"
+              type="number"
+              min="0"
+              step="0.01"
+              value={freeShippingMinimum}
+              onChange={(e) => setFreeShippingMinimum(e.target.value)}
+              placeholder="None"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="stateSurcharges" className="block text-sm font-medium text-gray-700">
+              State Surcharges ($ per order)
+            </label>
+            <input
+              id="stateSurcharges"
+              type="text"
+              value={surcharges}
+              onChange={(e) => setSurcharges(e.target.value)}
+              placeholder="AK=15, HI=15"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="shippingNotes" className="block text-sm font-medium text-gray-700">
+            Notes
+          </label>
+          <textarea
+            id="shippingNotes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save Shipping Rules
+          </button>
+        </div>
+      </form>
+      <div className="px-6 py-3 bg-gray-50 border-t border-gray-200">
+        <p className="text-xs text-gray-500">
+          Used for delivered price per round in search and price check. Unknown and calculated
+          shipping fall back to the shipping observed on each offer; state surcharges apply to
+          flat, per-unit and free shipping.
+        </p>
+      </div>
+    </div>
+  );
+}
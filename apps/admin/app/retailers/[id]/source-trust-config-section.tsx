@@ -10,7 +10,8 @@ import {
   Database,
   Rss,
 } from 'lucide-react';
-import { updateSourceTrustConfig } from '@/app/affiliate-feeds/actions';
+import { updateSourceTrustConfig, updateSourceScoringConfig } from '@/app/affiliate-feeds/actions';
+import { SCORING_STRATEGIES, type ScoringStrategy } from '@/lib/affiliate-feed-validation';
 
 interface Source {
   id: string;
@@ -19,9 +20,16 @@ interface Source {
   source_trust_config: {
     upcTrusted: boolean;
     version: number;
+    scoringStrategy: ScoringStrategy;
+    shadowScoringStrategy: ScoringStrategy | null;
   } | null;
 }
 
+const SCORING_STRATEGY_LABELS: Record<ScoringStrategy, string> = {
+  WEIGHTED_EXACT: 'Weighted exact',
+  LOGISTIC: 'Logistic (learned)',
+};
+
 interface SourceTrustConfigSectionProps {
   sources: Source[];
 }
@@ -43,6 +51,8 @@ function SourceTrustRow({ source }: { source: Source }) {
 
   const upcTrusted = source.source_trust_config?.upcTrusted ?? false;
   const version = source.source_trust_config?.version ?? 0;
+  const scoringStrategy = source.source_trust_config?.scoringStrategy ?? 'WEIGHTED_EXACT';
+  const shadowScoringStrategy = source.source_trust_config?.shadowScoringStrategy ?? null;
 
   const handleToggle = async () => {
     setIsUpdating(true);
@@ -63,6 +73,33 @@ function SourceTrustRow({ source }: { source: Source }) {
     }
   };
 
+  const handleScoringChange = async (
+    nextStrategy: ScoringStrategy,
+    nextShadow: ScoringStrategy | null
+  ) => {
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      // A shadow equal to the active strategy compares nothing - clear it
+      const result = await updateSourceScoringConfig(
+        source.id,
+        nextStrategy,
+        nextShadow === nextStrategy ? null : nextShadow
+      );
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to update');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   return (
     <tr className={error ? 'bg-red-50' : ''}>
       <td className="px-4 py-3 whitespace-nowrap">
@@ -89,6 +126,39 @@ function SourceTrustRow({ source }: { source: Source }) {
           </span>
         )}
       </td>
+      <td className="px-4 py-3 whitespace-nowrap">
+        <div className="flex items-center gap-2">
+          <select
+            value={scoringStrategy}
+            onChange={(e) => handleScoringChange(e.target.value as ScoringStrategy, shadowScoringStrategy)}
+            disabled={isUpdating}
+            aria-label="Scoring strategy"
+            className="rounded-md border-gray-300 text-xs focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {SCORING_STRATEGIES.map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {SCORING_STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={shadowScoringStrategy ?? ''}
+            onChange={(e) =>
+              handleScoringChange(scoringStrategy, (e.target.value || null) as ScoringStrategy | null)
+            }
+            disabled={isUpdating}
+            aria-label="Shadow scoring strategy"
+            className="rounded-md border-gray-300 text-xs text-gray-500 focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="">No shadow</option>
+            {SCORING_STRATEGIES.filter((strategy) => strategy !== scoringStrategy).map((strategy) => (
+              <option key={strategy} value={strategy}>
+                Shadow: {SCORING_STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </td>
       <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-400">
         v{version}
       </td>
@@ -148,6 +218,9 @@ export function SourceTrustConfigSection({ sources }: SourceTrustConfigSectionPr
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                 UPC Status
               </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                Scoring
+              </th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                 Version
               </th>
@@ -166,7 +239,8 @@ export function SourceTrustConfigSection({ sources }: SourceTrustConfigSectionPr
       <div className="px-6 py-3 bg-gray-50 border-t border-gray-200">
         <p className="text-xs text-gray-500">
           When UPCs are trusted, the resolver uses UPC codes to directly match products.
-          Untrusted sources require fingerprint verification.
+          Untrusted sources require fingerprint verification. Scoring selects how fingerprint
+          candidates are ranked; a shadow strategy is scored alongside and only logs disagreements.
         </p>
       </div>
     </div>
@@ -1,6 +1,9 @@
 'use server';
 
 import { prisma, RetailerTier, RetailerVisibility } from '@ironscout/db';
+import type { ShippingRestrictionReason, ShippingType } from '@ironscout/db/generated/prisma';
+import { validateShippingRuleInput } from '@ironscout/db/landed-cost.js';
+import { validateShippingRestrictionInput } from '@ironscout/db/shipping-restrictions.js';
 import { revalidatePath } from 'next/cache';
 import { getAdminSession, logAdminAction } from '@/lib/auth';
 
@@ -541,6 +544,198 @@ export async function updateRetailerVisibility(
   }
 }
 
+// ============================================================================
+// SHIPPING RULE Operations
+// ============================================================================
+
+export interface ShippingRuleData {
+  shippingType: ShippingType;
+  flatRate: number | null;
+  perUnitRate: number | null;
+  freeShippingMinimum: number | null;
+  stateSurcharges: Record<string, number>;
+  notes: string | null;
+}
+
+function shippingRuleAuditValue(rule: {
+  shippingType: ShippingType;
+  flatRate: { toString(): string } | null;
+  perUnitRate: { toString(): string } | null;
+  freeShippingMinimum: { toString(): string } | null;
+  stateSurcharges: unknown;
+}) {
+  return {
+    shippingType: rule.shippingType,
+    flatRate: rule.flatRate?.toString() ?? null,
+    perUnitRate: rule.perUnitRate?.toString() ?? null,
+    freeShippingMinimum: rule.freeShippingMinimum?.toString() ?? null,
+    stateSurcharges: rule.stateSurcharges,
+  };
+}
+
+/**
+ * Create or replace a retailer's shipping rule (used for delivered pricing)
+ */
+export async function updateRetailerShippingRule(
+  retailerId: string,
+  data: ShippingRuleData
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const errors = validateShippingRuleInput(data);
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('; ') };
+  }
+
+  try {
+    const retailer = await prisma.retailers.findUnique({
+      where: { id: retailerId },
+      include: { shipping_rule: true },
+    });
+    if (!retailer) {
+      return { success: false, error: 'Retailer not found' };
+    }
+
+    const ruleData = {
+      shippingType: data.shippingType,
+      flatRate: data.flatRate,
+      perUnitRate: data.perUnitRate,
+      freeShippingMinimum: data.freeShippingMinimum,
+      stateSurcharges: data.stateSurcharges,
+      notes: data.notes?.trim() || null,
+      updatedBy: session.email,
+    };
+
+    const updatedRule = await prisma.retailer_shipping_rules.upsert({
+      where: { retailerId },
+      create: { retailerId, ...ruleData },
+      update: ruleData,
+    });
+
+    await logAdminAction(session.userId, 'UPDATE_RETAILER_SHIPPING_RULE', {
+      resource: 'Retailer',
+      resourceId: retailerId,
+      oldValue: retailer.shipping_rule ? shippingRuleAuditValue(retailer.shipping_rule) : undefined,
+      newValue: shippingRuleAuditValue(updatedRule),
+    });
+
+    revalidatePath(`/retailers/${retailerId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating retailer shipping rule:', error);
+    return { success: false, error: 'Failed to update shipping rule' };
+  }
+}
+
+// ============================================================================
+// SHIPPING RESTRICTION Operations
+// ============================================================================
+
+export interface ShippingRestrictionData {
+  state: string;
+  reason: ShippingRestrictionReason;
+  notes: string | null;
+}
+
+/**
+ * Create or replace a retailer's restriction for one state
+ */
+export async function upsertRetailerShippingRestriction(
+  retailerId: string,
+  data: ShippingRestrictionData
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const state = data.state.trim().toUpperCase();
+  const errors = validateShippingRestrictionInput({ state, reason: data.reason });
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('; ') };
+  }
+
+  try {
+    const retailer = await prisma.retailers.findUnique({
+      where: { id: retailerId },
+      include: { shipping_restrictions: { where: { state } } },
+    });
+    if (!retailer) {
+      return { success: false, error: 'Retailer not found' };
+    }
+
+    const restrictionData = {
+      reason: data.reason,
+      notes: data.notes?.trim() || null,
+      updatedBy: session.email,
+    };
+
+    await prisma.retailer_shipping_restrictions.upsert({
+      where: { retailerId_state: { retailerId, state } },
+      create: { retailerId, state, ...restrictionData },
+      update: restrictionData,
+    });
+
+    const existing = retailer.shipping_restrictions[0];
+    await logAdminAction(session.userId, 'UPDATE_RETAILER_SHIPPING_RESTRICTION', {
+      resource: 'Retailer',
+      resourceId: retailerId,
+      oldValue: existing ? { state, reason: existing.reason } : undefined,
+      newValue: { state, reason: data.reason },
+    });
+
+    revalidatePath(`/retailers/${retailerId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating retailer shipping restriction:', error);
+    return { success: false, error: 'Failed to update shipping restriction' };
+  }
+}
+
+/**
+ * Remove a retailer's restriction for one state
+ */
+export async function deleteRetailerShippingRestriction(
+  retailerId: string,
+  state: string
+): Promise<{ success: boolean; error?: string }> {
+  const session = await getAdminSession();
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const existing = await prisma.retailer_shipping_restrictions.findUnique({
+      where: { retailerId_state: { retailerId, state } },
+    });
+    if (!existing) {
+      return { success: false, error: 'Restriction not found' };
+    }
+
+    await prisma.retailer_shipping_restrictions.delete({
+      where: { id: existing.id },
+    });
+
+    await logAdminAction(session.userId, 'DELETE_RETAILER_SHIPPING_RESTRICTION', {
+      resource: 'Retailer',
+      resourceId: retailerId,
+      oldValue: { state, reason: existing.reason },
+    });
+
+    revalidatePath(`/retailers/${retailerId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting retailer shipping restriction:', error);
+    return { success: false, error: 'Failed to delete shipping restriction' };
+  }
+}
+
 // ============================================================================
 // MERCHANT LINKING Operations
 // ============================================================================
@@ -395,6 +395,6 @@ export const SETTING_TOOLTIPS: Record<SettingKey, SettingTooltip> = {
     summary: 'Automatically generates vector embeddings when products are created or updated by the resolver.',
     whenEnabled: 'New and updated products are queued for embedding generation after resolution completes.',
     whenDisabled: 'Embeddings must be generated manually via admin UI or API. Use backfill for bulk updates.',
-    note: 'Requires OPENAI_API_KEY to be set. Embeddings are used by vector search for semantic matching.',
+    note: 'Uses the configured EMBEDDING_PROVIDER (OpenAI with OPENAI_API_KEY; without a key a local MiniLM sentence-transformer runs on the harvester CPU).',
   },
 };
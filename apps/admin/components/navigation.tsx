@@ -13,6 +13,9 @@ import {
   ClipboardList,
   Tags,
   AlertTriangle,
+  FlaskConical,
+  Package,
+  Crosshair,
 } from 'lucide-react';
 import type { AdminSession } from '@/lib/auth';
 
@@ -26,7 +29,10 @@ const navItems = [
   { name: 'Affiliate Feeds', href: '/affiliate-feeds', icon: Rss },
   { name: 'Quarantine', href: '/quarantine', icon: AlertTriangle },
   { name: 'Brand Aliases', href: '/brand-aliases', icon: Tags },
+  { name: 'Calibers', href: '/calibers', icon: Crosshair },
+  { name: 'Products', href: '/products', icon: Package },
   { name: 'Resolver Metrics', href: '/resolver-metrics', icon: Activity },
+  { name: 'Resolver Shadow Runs', href: '/resolver-shadow', icon: FlaskConical },
   { name: 'Review Queue', href: '/review-queue', icon: ClipboardList },
   { name: 'Platform Configuration', href: '/settings', icon: Settings },
 ];
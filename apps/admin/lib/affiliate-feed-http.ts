@@ -0,0 +1,127 @@
+/**
+ * HTTPS / signed-URL helpers for affiliate feed management
+ *
+ * Mirrors the harvester fetcher: credentials for HTTP transports are stored as
+ * encrypted JSON ({ password?, token?, headers?, signedUrl? }) in
+ * secretCiphertext, while FTP/SFTP feeds keep a plain encrypted password.
+ */
+
+import { encryptJsonSecret, decryptJsonSecret } from '@ironscout/crypto';
+import type { HttpAuthType } from './affiliate-feed-validation';
+
+export interface HttpFeedCredentials {
+  password?: string;
+  token?: string;
+  headers?: Record<string, string>;
+  signedUrl?: string;
+}
+
+export interface HttpProbeResult {
+  success: boolean;
+  error?: string;
+  fileSize?: number;
+  fileName?: string;
+}
+
+/** Hosts fetched over plain HTTP (local stand-ins in dev/test) */
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+/**
+ * Drop empty fields so unchanged secrets are not overwritten with blanks
+ */
+function compactCredentials(credentials: HttpFeedCredentials): HttpFeedCredentials {
+  const result: HttpFeedCredentials = {};
+  if (credentials.password) result.password = credentials.password;
+  if (credentials.token) result.token = credentials.token;
+  if (credentials.headers && Object.keys(credentials.headers).length > 0) result.headers = credentials.headers;
+  if (credentials.signedUrl) result.signedUrl = credentials.signedUrl;
+  return result;
+}
+
+/**
+ * Encrypt HTTP credentials for storage. Returns null when there is nothing secret
+ * to store (unauthenticated HTTPS feed without custom headers).
+ */
+export function encryptHttpCredentials(credentials: HttpFeedCredentials): Uint8Array<ArrayBuffer> | null {
+  const compact = compactCredentials(credentials);
+  if (Object.keys(compact).length === 0) return null;
+  return new Uint8Array(encryptJsonSecret(compact)) as Uint8Array<ArrayBuffer>;
+}
+
+export function decryptHttpCredentials(ciphertext: Uint8Array | null, keyId?: string | null): HttpFeedCredentials {
+  if (!ciphertext) return {};
+  return decryptJsonSecret<HttpFeedCredentials>(Buffer.from(ciphertext), keyId || undefined);
+}
+
+/**
+ * Merge changed credential fields over the stored ones (blank fields keep the stored value)
+ */
+export function mergeHttpCredentials(
+  stored: HttpFeedCredentials,
+  changes: HttpFeedCredentials
+): HttpFeedCredentials {
+  return { ...stored, ...compactCredentials(changes) };
+}
+
+/**
+ * Resolve the request URL for an HTTPS / SIGNED_URL feed
+ */
+export function buildFeedUrl(params: {
+  transport: string;
+  host?: string | null;
+  port?: number | null;
+  path?: string | null;
+  signedUrl?: string;
+}): URL {
+  if (params.transport === 'SIGNED_URL') {
+    if (!params.signedUrl) throw new Error('Signed URL not configured');
+    return new URL(params.signedUrl);
+  }
+  if (!params.host || !params.path) throw new Error('Host and path are required');
+  const scheme = LOOPBACK_HOSTS.has(params.host) ? 'http' : 'https';
+  return new URL(`${scheme}://${params.host}${params.port ? `:${params.port}` : ''}${params.path}`);
+}
+
+export function buildHttpHeaders(
+  authType: HttpAuthType,
+  username: string | null | undefined,
+  credentials: HttpFeedCredentials
+): Record<string, string> {
+  const headers: Record<string, string> = { ...(credentials.headers ?? {}) };
+  if (authType === 'BASIC') {
+    headers['Authorization'] = `Basic ${Buffer.from(`${username ?? ''}:${credentials.password ?? ''}`).toString('base64')}`;
+  } else if (authType === 'BEARER') {
+    headers['Authorization'] = `Bearer ${credentials.token ?? ''}`;
+  }
+  return headers;
+}
+
+/**
+ * Check that a feed URL is reachable with the given headers.
+ * Uses HEAD, falling back to GET for hosts that reject HEAD (common for signed URLs).
+ */
+export async function probeHttpFeed(url: URL, headers: Record<string, string>): Promise<HttpProbeResult> {
+  try {
+    let response = await fetch(url, { method: 'HEAD', headers, signal: AbortSignal.timeout(10000) });
+    if (response.status === 405 || response.status === 403) {
+      response = await fetch(url, { method: 'GET', headers, signal: AbortSignal.timeout(10000) });
+      await response.body?.cancel();
+    }
+
+    if (!response.ok) {
+      return { success: false, error: `HTTP ${response.status} ${response.statusText}` };
+    }
+
+    const contentLength = response.headers.get('content-length');
+    return {
+      success: true,
+      fileSize: contentLength ? Number(contentLength) : undefined,
+      fileName: url.pathname.split('/').pop(),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? `Connection error: ${error.message}` : 'Connection failed',
+    };
+  }
+}
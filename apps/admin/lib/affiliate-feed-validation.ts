@@ -23,9 +23,21 @@ export function validateScheduleFrequencyHours(value: number | null): void {
   }
 }
 
+/** Affiliate feed transports (HTTPS / SIGNED_URL pull over HTTP) */
+export const FEED_TRANSPORTS = ['FTP', 'SFTP', 'HTTPS', 'SIGNED_URL'] as const;
+export type FeedTransport = (typeof FEED_TRANSPORTS)[number];
+
+/** Authentication schemes for HTTPS / SIGNED_URL feeds */
+export const HTTP_AUTH_TYPES = ['NONE', 'BASIC', 'BEARER'] as const;
+export type HttpAuthType = (typeof HTTP_AUTH_TYPES)[number];
+
+export function isHttpTransport(transport: string): boolean {
+  return transport === 'HTTPS' || transport === 'SIGNED_URL';
+}
+
 export function validateTransport(transport: string): void {
-  if (!['FTP', 'SFTP'].includes(transport)) {
-    throw new ValidationError('Transport must be FTP or SFTP');
+  if (!(FEED_TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new ValidationError(`Transport must be one of: ${FEED_TRANSPORTS.join(', ')}`);
   }
 }
 
@@ -60,7 +72,7 @@ export function validatePort(port: number | null, transport: string): void {
     throw new ValidationError('Port must be an integer between 1 and 65535');
   }
   // Warn if using non-standard ports
-  const defaultPort = transport === 'FTP' ? 21 : 22;
+  const defaultPort = transport === 'FTP' ? 21 : transport === 'SFTP' ? 22 : 443;
   if (port !== defaultPort) {
     // This is just informational, not an error
   }
@@ -87,26 +99,74 @@ export function validatePath(path: string | null): void {
   }
 }
 
+/** Networks the harvester can ingest (Impact-style CSV, CJ catalogs, Rakuten merchandiser) */
+export const INGESTIBLE_NETWORKS = ['IMPACT', 'CJ', 'RAKUTEN'] as const;
+
 export function validateNetwork(network: string): void {
-  // v1 only supports IMPACT
-  if (network !== 'IMPACT') {
-    throw new ValidationError('Only IMPACT network is supported in v1');
+  if (!(INGESTIBLE_NETWORKS as readonly string[]).includes(network)) {
+    throw new ValidationError(`Network must be one of: ${INGESTIBLE_NETWORKS.join(', ')}`);
   }
 }
 
+/** Feed file formats the harvester parser can decode */
+export const FEED_FORMATS = ['CSV', 'TSV', 'XML', 'NDJSON'] as const;
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
 export function validateFormat(format: string): void {
-  // v1 only supports CSV. TSV/XML/JSON are post-v1.
-  if (format !== 'CSV') {
-    throw new ValidationError('Only CSV format is supported in v1');
+  if (!(FEED_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError(`Format must be one of: ${FEED_FORMATS.join(', ')}`);
   }
 }
 
+/**
+ * Feed variants the harvester ingests. A source has one FULL feed and may add
+ * a DELTA feed (changed rows only) alongside it.
+ */
+export const FEED_VARIANTS = ['FULL', 'DELTA'] as const;
+export type FeedVariant = (typeof FEED_VARIANTS)[number];
+
+export function validateVariant(variant: string): void {
+  if (!(FEED_VARIANTS as readonly string[]).includes(variant)) {
+    throw new ValidationError(`Variant must be one of: ${FEED_VARIANTS.join(', ')}`);
+  }
+}
+
+/** Resolver fingerprint scoring strategies selectable per source */
+export const SCORING_STRATEGIES = ['WEIGHTED_EXACT', 'LOGISTIC'] as const;
+export type ScoringStrategy = (typeof SCORING_STRATEGIES)[number];
+
+export function validateScoringStrategy(strategy: string): void {
+  if (!(SCORING_STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new ValidationError(`Scoring strategy must be one of: ${SCORING_STRATEGIES.join(', ')}`);
+  }
+}
+
+/** Feed compression; decompression is streamed into the parser by the harvester */
+export const FEED_COMPRESSIONS = ['NONE', 'GZIP', 'ZIP', 'BZIP2'] as const;
+export type FeedCompression = (typeof FEED_COMPRESSIONS)[number];
+
 export function validateCompression(compression: string): void {
-  if (!['NONE', 'GZIP'].includes(compression)) {
-    throw new ValidationError('Compression must be NONE or GZIP');
+  if (!(FEED_COMPRESSIONS as readonly string[]).includes(compression)) {
+    throw new ValidationError(`Compression must be one of: ${FEED_COMPRESSIONS.join(', ')}`);
   }
 }
 
+/**
+ * Validate the ZIP entry glob (e.g. "*.csv", "exports/products_*.txt").
+ * Returns the trimmed glob, or null when blank (harvester picks by format extension).
+ */
+export function validateArchiveEntryGlob(glob: string | null | undefined): string | null {
+  const trimmed = glob?.trim();
+  if (!trimmed) return null;
+  if (trimmed.length > 200) {
+    throw new ValidationError('Archive entry glob must be 200 characters or fewer');
+  }
+  if (trimmed.startsWith('/') || trimmed.split('/').includes('..')) {
+    throw new ValidationError('Archive entry glob must be a relative path inside the archive');
+  }
+  return trimmed;
+}
+
 export function validateMaxFileSizeBytes(value: bigint | null): void {
   if (value === null) return;
   const maxAllowed = BigInt(500 * 1024 * 1024); // 500 MB
@@ -121,3 +181,52 @@ export function validateMaxRowCount(value: number | null): void {
     throw new ValidationError('maxRowCount must be between 0 and 500,000');
   }
 }
+
+export function validateHttpAuthType(authType: string): void {
+  if (!(HTTP_AUTH_TYPES as readonly string[]).includes(authType)) {
+    throw new ValidationError(`HTTP auth type must be one of: ${HTTP_AUTH_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Pre-signed URLs must be HTTPS and carry their signature in the query string
+ */
+export function validateSignedUrl(value: string): void {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ValidationError('Signed URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:') {
+    throw new ValidationError('Signed URL must use HTTPS');
+  }
+  if (!url.search) {
+    throw new ValidationError('Signed URL must include its signature query parameters');
+  }
+}
+
+/** Headers the harvester sets itself (conditional requests, framing) */
+const RESERVED_HEADERS = ['host', 'content-length', 'connection', 'if-none-match', 'if-modified-since'];
+
+/**
+ * Parse custom request headers entered one per line as "Name: value"
+ */
+export function parseCustomHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const separator = line.indexOf(':');
+    const name = separator > 0 ? line.slice(0, separator).trim() : '';
+    const value = separator > 0 ? line.slice(separator + 1).trim() : '';
+    if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name) || !value) {
+      throw new ValidationError(`Invalid header line: "${line.slice(0, 40)}" (expected "Name: value")`);
+    }
+    if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      throw new ValidationError(`Header ${name} is managed by the harvester and cannot be overridden`);
+    }
+    headers[name] = value;
+  }
+  return headers;
+}
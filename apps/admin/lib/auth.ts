@@ -7,6 +7,7 @@
 
 import { auth } from '@/lib/auth-config';
 import { prisma } from '@ironscout/db';
+import type { Prisma } from '@ironscout/db/generated/prisma';
 import { logger } from './logger';
 
 // Admin emails list
@@ -103,6 +104,9 @@ export async function isAdmin(): Promise<boolean> {
 
 /**
  * Log an admin action to the audit log
+ *
+ * Pass the transaction client to write the audit row atomically with the
+ * change it records.
  */
 export async function logAdminAction(
   adminUserId: string,
@@ -123,12 +127,13 @@ export async function logAdminAction(
     newValue?: unknown;
     ipAddress?: string;
     userAgent?: string;
-  }
+  },
+  tx: Prisma.TransactionClient = prisma
 ): Promise<void> {
   logger.debug('Creating admin audit log', { adminUserId, action, merchantId, resource });
 
   try {
-    await prisma.admin_audit_logs.create({
+    await tx.admin_audit_logs.create({
       data: {
         adminUserId,
         merchantId,
@@ -0,0 +1,562 @@
+/**
+ * Canonical product merge and split
+ *
+ * MERGE folds a losing product into a winner: every product reference
+ * (links, prices, watchlist items, alerts, ammo preferences, aliases) moves to
+ * the winner, the loser is marked superseded and aliased to the winner so the
+ * resolver follows it.
+ *
+ * SPLIT moves selected source products (their links and prices) from a product
+ * into a new product. Moved links become MANUAL so the resolver keeps them.
+ *
+ * Every touched row is recorded in product_merge_moves, so an operation can be
+ * reverted as long as no later operation touched the same products.
+ *
+ * All functions run inside the caller's transaction and lock the products
+ * they change (SELECT ... FOR UPDATE) before checking them.
+ */
+
+import type {
+  Prisma,
+  ProductLinkMatchType,
+  ProductLinkReasonCode,
+  ProductLinkStatus,
+} from '@ironscout/db/generated/prisma';
+
+type Tx = Prisma.TransactionClient;
+
+export class ProductMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductMergeError';
+  }
+}
+
+/** Tables re-pointed by a merge, with the column holding the product id */
+const PRODUCT_COLUMNS = {
+  product_links: 'productId',
+  prices: 'productId',
+  watchlist_items: 'productId',
+  alerts: 'productId',
+  firearm_ammo_preferences: 'ammoSkuId',
+  product_aliases: 'toProductId',
+  products: 'supersededById',
+} as const;
+
+export type MergeEntity = keyof typeof PRODUCT_COLUMNS;
+
+export type MergeSummary = Partial<Record<string, number>>;
+
+/** createMany chunk size for move records (5 columns, well under the bind limit) */
+const MOVE_CHUNK_SIZE = 5000;
+
+interface MoveRecord {
+  entity: MergeEntity;
+  entityId: string;
+  action: 'REPOINTED' | 'SOFT_DELETED' | 'SUPPRESSED' | 'CREATED';
+  previousValue?: Prisma.InputJsonValue;
+}
+
+/** Link fields restored when a split is reverted */
+interface LinkSnapshot {
+  matchType: ProductLinkMatchType;
+  status: ProductLinkStatus;
+  confidence: number;
+  reasonCode: ProductLinkReasonCode | null;
+  resolverVersion: string;
+  manual: Prisma.JsonValue | null;
+}
+
+export interface MergeProductsInput {
+  loserId: string;
+  winnerId: string;
+  reason?: string;
+  actor: string;
+}
+
+export interface SplitProductInput {
+  productId: string;
+  sourceProductIds: string[];
+  name: string;
+  grainWeight?: number | null;
+  roundCount?: number | null;
+  reason?: string;
+  actor: string;
+}
+
+export interface ProductOperationResult {
+  operationId: string;
+  fromProductId: string;
+  toProductId: string;
+  summary: MergeSummary;
+}
+
+async function recordMoves(tx: Tx, operationId: string, moves: MoveRecord[]): Promise<void> {
+  for (let i = 0; i < moves.length; i += MOVE_CHUNK_SIZE) {
+    await tx.product_merge_moves.createMany({
+      data: moves.slice(i, i + MOVE_CHUNK_SIZE).map((m) => ({ ...m, operationId })),
+    });
+  }
+}
+
+/**
+ * Point rows of one table from one product to another
+ * Guarded on the current value, so rows changed since are left alone.
+ */
+async function repoint(tx: Tx, entity: MergeEntity, ids: string[], from: string, to: string): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  switch (entity) {
+    case 'product_links':
+      return (await tx.product_links.updateMany({ where: { id: { in: ids }, productId: from }, data: { productId: to } })).count;
+    case 'prices':
+      return (await tx.prices.updateMany({ where: { id: { in: ids }, productId: from }, data: { productId: to } })).count;
+    case 'watchlist_items':
+      return (await tx.watchlist_items.updateMany({ where: { id: { in: ids }, productId: from }, data: { productId: to } })).count;
+    case 'alerts':
+      return (await tx.alerts.updateMany({ where: { id: { in: ids }, productId: from }, data: { productId: to } })).count;
+    case 'firearm_ammo_preferences':
+      return (await tx.firearm_ammo_preferences.updateMany({ where: { id: { in: ids }, ammoSkuId: from }, data: { ammoSkuId: to } })).count;
+    case 'product_aliases':
+      return (await tx.product_aliases.updateMany({ where: { id: { in: ids }, toProductId: from }, data: { toProductId: to } })).count;
+    case 'products':
+      return (await tx.products.updateMany({ where: { id: { in: ids }, supersededById: from }, data: { supersededById: to } })).count;
+  }
+}
+
+/**
+ * Lock product rows until the transaction ends
+ *
+ * Taken before the products are checked, so a concurrent merge, split or
+ * revert of the same products waits instead of acting on a stale read. Rows
+ * are locked in id order so two operations on the same pair cannot deadlock.
+ */
+async function lockProducts(tx: Tx, ids: string[]): Promise<void> {
+  const sorted = [...new Set(ids)].sort();
+  await tx.$queryRaw`
+    SELECT id FROM products
+    WHERE id = ANY(${sorted}::text[])
+    ORDER BY id
+    FOR UPDATE
+  `;
+}
+
+async function loadActiveProduct(tx: Tx, id: string, label: string) {
+  const product = await tx.products.findUnique({
+    where: { id },
+    select: { id: true, name: true, isActiveSku: true, supersededById: true },
+  });
+  if (!product) {
+    throw new ProductMergeError(`${label} product ${id} not found`);
+  }
+  if (product.supersededById || !product.isActiveSku) {
+    throw new ProductMergeError(`${label} product ${id} is already superseded`);
+  }
+  return product;
+}
+
+/**
+ * Merge a losing product into a winner
+ */
+export async function mergeProducts(tx: Tx, input: MergeProductsInput): Promise<ProductOperationResult> {
+  const { loserId, winnerId } = input;
+  if (loserId === winnerId) {
+    throw new ProductMergeError('Cannot merge a product into itself');
+  }
+
+  await lockProducts(tx, [loserId, winnerId]);
+  await loadActiveProduct(tx, loserId, 'Losing');
+  await loadActiveProduct(tx, winnerId, 'Winning');
+
+  const operation = await tx.product_merge_operations.create({
+    data: {
+      type: 'MERGE',
+      fromProductId: loserId,
+      toProductId: winnerId,
+      reason: input.reason ?? null,
+      createdBy: input.actor,
+    },
+  });
+
+  const moves: MoveRecord[] = [];
+  const summary: MergeSummary = {};
+  const repointAll = async (entity: MergeEntity, ids: string[]) => {
+    summary[entity] = await repoint(tx, entity, ids, loserId, winnerId);
+    moves.push(...ids.map((entityId) => ({ entity, entityId, action: 'REPOINTED' as const })));
+  };
+
+  // Links, prices, aliases and superseded products move unconditionally
+  const links = await tx.product_links.findMany({ where: { productId: loserId }, select: { id: true } });
+  await repointAll('product_links', links.map((l) => l.id));
+
+  const prices = await tx.prices.findMany({ where: { productId: loserId }, select: { id: true } });
+  await repointAll('prices', prices.map((p) => p.id));
+
+  // Flatten alias chains: anything aliased to the loser now points at the winner
+  const aliases = await tx.product_aliases.findMany({ where: { toProductId: loserId }, select: { id: true } });
+  await repointAll('product_aliases', aliases.map((a) => a.id));
+
+  const superseded = await tx.products.findMany({ where: { supersededById: loserId }, select: { id: true } });
+  await repointAll('products', superseded.map((p) => p.id));
+
+  // Watchlist items: one active SKU item per user and product
+  const watchlistItems = await tx.watchlist_items.findMany({
+    where: { productId: loserId },
+    select: { id: true, userId: true, deletedAt: true },
+  });
+  const watchingWinner = new Set(
+    (
+      await tx.watchlist_items.findMany({
+        where: { productId: winnerId, deletedAt: null, userId: { in: watchlistItems.map((w) => w.userId) } },
+        select: { userId: true },
+      })
+    ).map((w) => w.userId)
+  );
+  const duplicateItems = watchlistItems.filter((w) => !w.deletedAt && watchingWinner.has(w.userId));
+  const now = new Date();
+  if (duplicateItems.length > 0) {
+    await tx.watchlist_items.updateMany({
+      where: { id: { in: duplicateItems.map((w) => w.id) } },
+      data: { deletedAt: now },
+    });
+    moves.push(...duplicateItems.map((w) => ({ entity: 'watchlist_items' as const, entityId: w.id, action: 'SOFT_DELETED' as const })));
+  }
+  await repointAll(
+    'watchlist_items',
+    watchlistItems.filter((w) => !duplicateItems.includes(w)).map((w) => w.id)
+  );
+
+  // Alerts: unique per user, product and rule type (suppressed rows included)
+  const alerts = await tx.alerts.findMany({
+    where: { productId: loserId },
+    select: { id: true, userId: true, ruleType: true, suppressedAt: true },
+  });
+  const winnerAlertKeys = new Set(
+    (
+      await tx.alerts.findMany({
+        where: { productId: winnerId, userId: { in: alerts.map((a) => a.userId) } },
+        select: { userId: true, ruleType: true },
+      })
+    ).map((a) => `${a.userId}:${a.ruleType}`)
+  );
+  const duplicateAlerts = alerts.filter((a) => winnerAlertKeys.has(`${a.userId}:${a.ruleType}`));
+  const alertsToSuppress = duplicateAlerts.filter((a) => !a.suppressedAt);
+  if (alertsToSuppress.length > 0) {
+    await tx.alerts.updateMany({
+      where: { id: { in: alertsToSuppress.map((a) => a.id) } },
+      data: { suppressedAt: now, suppressedBy: input.actor, suppressedReason: 'product_merged' },
+    });
+    moves.push(...alertsToSuppress.map((a) => ({ entity: 'alerts' as const, entityId: a.id, action: 'SUPPRESSED' as const })));
+  }
+  await repointAll(
+    'alerts',
+    alerts.filter((a) => !duplicateAlerts.includes(a)).map((a) => a.id)
+  );
+
+  // Ammo preferences: one active mapping per user, firearm and use case
+  const preferences = await tx.firearm_ammo_preferences.findMany({
+    where: { ammoSkuId: loserId },
+    select: { id: true, userId: true, firearmId: true, useCase: true, deletedAt: true },
+  });
+  const winnerPreferenceKeys = new Set(
+    (
+      await tx.firearm_ammo_preferences.findMany({
+        where: { ammoSkuId: winnerId, deletedAt: null, userId: { in: preferences.map((p) => p.userId) } },
+        select: { userId: true, firearmId: true, useCase: true },
+      })
+    ).map((p) => `${p.userId}:${p.firearmId}:${p.useCase}`)
+  );
+  const duplicatePreferences = preferences.filter(
+    (p) => !p.deletedAt && winnerPreferenceKeys.has(`${p.userId}:${p.firearmId}:${p.useCase}`)
+  );
+  if (duplicatePreferences.length > 0) {
+    await tx.firearm_ammo_preferences.updateMany({
+      where: { id: { in: duplicatePreferences.map((p) => p.id) } },
+      data: { deletedAt: now, deleteReason: 'SKU_SUPERSEDED' },
+    });
+    moves.push(
+      ...duplicatePreferences.map((p) => ({
+        entity: 'firearm_ammo_preferences' as const,
+        entityId: p.id,
+        action: 'SOFT_DELETED' as const,
+      }))
+    );
+  }
+  await repointAll(
+    'firearm_ammo_preferences',
+    preferences.filter((p) => !duplicatePreferences.includes(p)).map((p) => p.id)
+  );
+
+  // Supersede the loser and alias it so the resolver follows it to the winner
+  await tx.products.update({
+    where: { id: loserId },
+    data: { isActiveSku: false, supersededById: winnerId, supersededAt: now },
+  });
+  const alias = await tx.product_aliases.create({
+    data: {
+      fromProductId: loserId,
+      toProductId: winnerId,
+      reason: input.reason ? `merge: ${input.reason}` : 'merge',
+      createdBy: input.actor,
+    },
+  });
+  moves.push({ entity: 'product_aliases', entityId: alias.id, action: 'CREATED' });
+
+  summary.softDeleted = duplicateItems.length + duplicatePreferences.length;
+  summary.suppressed = alertsToSuppress.length;
+
+  await recordMoves(tx, operation.id, moves);
+  await tx.product_merge_operations.update({ where: { id: operation.id }, data: { summary } });
+
+  return { operationId: operation.id, fromProductId: loserId, toProductId: winnerId, summary };
+}
+
+/**
+ * Move selected source products into a new product
+ */
+export async function splitProduct(tx: Tx, input: SplitProductInput): Promise<ProductOperationResult> {
+  const sourceProductIds = [...new Set(input.sourceProductIds)];
+  if (sourceProductIds.length === 0) {
+    throw new ProductMergeError('Select at least one source product to split off');
+  }
+  if (!input.name.trim()) {
+    throw new ProductMergeError('New product name is required');
+  }
+
+  await lockProducts(tx, [input.productId]);
+  await loadActiveProduct(tx, input.productId, 'Original');
+  const original = await tx.products.findUniqueOrThrow({ where: { id: input.productId } });
+
+  const links = await tx.product_links.findMany({
+    where: { sourceProductId: { in: sourceProductIds }, productId: original.id },
+  });
+  if (links.length !== sourceProductIds.length) {
+    throw new ProductMergeError('Some selected source products are no longer linked to this product');
+  }
+  const remaining = await tx.product_links.count({
+    where: { productId: original.id, sourceProductId: { notIn: sourceProductIds } },
+  });
+  if (remaining === 0) {
+    throw new ProductMergeError('A split must leave at least one source product on the original; edit the product instead');
+  }
+
+  const operation = await tx.product_merge_operations.create({
+    data: {
+      type: 'SPLIT',
+      fromProductId: original.id,
+      // Set once the new product exists
+      toProductId: original.id,
+      reason: input.reason ?? null,
+      createdBy: input.actor,
+    },
+  });
+
+  const created = await tx.products.create({
+    data: {
+      name: input.name.trim(),
+      category: original.category,
+      brand: original.brand,
+      caliber: original.caliber,
+      grainWeight: input.grainWeight !== undefined ? input.grainWeight : original.grainWeight,
+      roundCount: input.roundCount !== undefined ? input.roundCount : original.roundCount,
+      caseMaterial: original.caseMaterial,
+      purpose: original.purpose,
+      bulletType: original.bulletType,
+      brandNorm: original.brandNorm,
+      caliberNorm: original.caliberNorm,
+      canonicalKey: `MANUAL:${operation.id}`,
+    },
+  });
+
+  const moves: MoveRecord[] = [{ entity: 'products', entityId: created.id, action: 'CREATED' }];
+  const now = new Date();
+
+  for (const link of links) {
+    const existingEvidence = (link.evidence as Record<string, unknown>) ?? {};
+    const snapshot: LinkSnapshot = {
+      matchType: link.matchType,
+      status: link.status,
+      confidence: Number(link.confidence),
+      reasonCode: link.reasonCode,
+      resolverVersion: link.resolverVersion,
+      manual: (existingEvidence.manual as Prisma.JsonValue) ?? null,
+    };
+
+    await tx.product_links.update({
+      where: { id: link.id },
+      data: {
+        productId: created.id,
+        matchType: 'MANUAL',
+        status: 'MATCHED',
+        reasonCode: null,
+        confidence: 1.0,
+        resolverVersion: 'MANUAL',
+        resolvedAt: now,
+        evidence: {
+          ...existingEvidence,
+          manual: {
+            actor: input.actor,
+            timestamp: now.toISOString(),
+            action: 'SPLIT',
+            operationId: operation.id,
+            productId: created.id,
+            previousProductId: original.id,
+          },
+        } as Prisma.InputJsonValue,
+      },
+    });
+    moves.push({
+      entity: 'product_links',
+      entityId: link.id,
+      action: 'REPOINTED',
+      previousValue: snapshot as unknown as Prisma.InputJsonValue,
+    });
+  }
+
+  const prices = await tx.prices.findMany({
+    where: { productId: original.id, sourceProductId: { in: sourceProductIds } },
+    select: { id: true },
+  });
+  const movedPrices = await repoint(tx, 'prices', prices.map((p) => p.id), original.id, created.id);
+  moves.push(...prices.map((p) => ({ entity: 'prices' as const, entityId: p.id, action: 'REPOINTED' as const })));
+
+  const summary: MergeSummary = { product_links: links.length, prices: movedPrices };
+
+  await recordMoves(tx, operation.id, moves);
+  await tx.product_merge_operations.update({
+    where: { id: operation.id },
+    data: { toProductId: created.id, summary },
+  });
+
+  return { operationId: operation.id, fromProductId: original.id, toProductId: created.id, summary };
+}
+
+/**
+ * Undo a merge or split
+ *
+ * Rows changed since the operation (e.g. a link re-resolved elsewhere) are
+ * left alone. Prices ingested after the operation for moved source products
+ * follow their links back.
+ */
+export async function revertProductOperation(
+  tx: Tx,
+  operationId: string,
+  actor: string
+): Promise<ProductOperationResult> {
+  const operation = await tx.product_merge_operations.findUnique({
+    where: { id: operationId },
+    include: { moves: true },
+  });
+  if (!operation) {
+    throw new ProductMergeError(`Operation ${operationId} not found`);
+  }
+  if (operation.status !== 'APPLIED') {
+    throw new ProductMergeError('Operation was already reverted');
+  }
+
+  const { fromProductId, toProductId } = operation;
+  const productIds = [fromProductId, toProductId];
+  await lockProducts(tx, productIds);
+  const later = await tx.product_merge_operations.count({
+    where: {
+      status: 'APPLIED',
+      createdAt: { gt: operation.createdAt },
+      OR: [{ fromProductId: { in: productIds } }, { toProductId: { in: productIds } }],
+    },
+  });
+  if (later > 0) {
+    throw new ProductMergeError('Revert the later merges or splits of these products first');
+  }
+
+  const summary: MergeSummary = {};
+  const idsFor = (entity: MergeEntity, action: MoveRecord['action']) =>
+    operation.moves.filter((m) => m.entity === entity && m.action === action).map((m) => m.entityId);
+
+  for (const entity of Object.keys(PRODUCT_COLUMNS) as MergeEntity[]) {
+    if (entity === 'product_links' && operation.type === 'SPLIT') continue;
+    summary[entity] = await repoint(tx, entity, idsFor(entity, 'REPOINTED'), toProductId, fromProductId);
+  }
+
+  // Split links get their resolver decision back
+  if (operation.type === 'SPLIT') {
+    let restored = 0;
+    for (const move of operation.moves.filter((m) => m.entity === 'product_links' && m.action === 'REPOINTED')) {
+      const link = await tx.product_links.findUnique({ where: { id: move.entityId } });
+      if (!link || link.productId !== toProductId) continue;
+      const snapshot = move.previousValue as unknown as LinkSnapshot;
+      const { manual: _manual, ...evidence } = (link.evidence as Record<string, unknown>) ?? {};
+      await tx.product_links.update({
+        where: { id: link.id },
+        data: {
+          productId: fromProductId,
+          matchType: snapshot.matchType,
+          status: snapshot.status,
+          confidence: snapshot.confidence,
+          reasonCode: snapshot.reasonCode,
+          resolverVersion: snapshot.resolverVersion,
+          evidence: (snapshot.manual ? { ...evidence, manual: snapshot.manual } : evidence) as Prisma.InputJsonValue,
+        },
+      });
+      restored++;
+    }
+    summary.product_links = restored;
+  }
+
+  // Prices ingested since the operation for moved source products
+  const movedLinkIds = operation.moves.filter((m) => m.entity === 'product_links').map((m) => m.entityId);
+  if (movedLinkIds.length > 0) {
+    const movedLinks = await tx.product_links.findMany({
+      where: { id: { in: movedLinkIds }, productId: fromProductId },
+      select: { sourceProductId: true },
+    });
+    const followed = await tx.prices.updateMany({
+      where: { productId: toProductId, sourceProductId: { in: movedLinks.map((l) => l.sourceProductId) } },
+      data: { productId: fromProductId },
+    });
+    summary.prices = (summary.prices ?? 0) + followed.count;
+  }
+
+  const softDeletedItems = idsFor('watchlist_items', 'SOFT_DELETED');
+  if (softDeletedItems.length > 0) {
+    await tx.watchlist_items.updateMany({ where: { id: { in: softDeletedItems } }, data: { deletedAt: null } });
+  }
+  const softDeletedPreferences = idsFor('firearm_ammo_preferences', 'SOFT_DELETED');
+  if (softDeletedPreferences.length > 0) {
+    await tx.firearm_ammo_preferences.updateMany({
+      where: { id: { in: softDeletedPreferences } },
+      data: { deletedAt: null, deleteReason: null },
+    });
+  }
+  const suppressedAlerts = idsFor('alerts', 'SUPPRESSED');
+  if (suppressedAlerts.length > 0) {
+    await tx.alerts.updateMany({
+      where: { id: { in: suppressedAlerts }, suppressedReason: 'product_merged' },
+      data: { suppressedAt: null, suppressedBy: null, suppressedReason: null },
+    });
+  }
+
+  const now = new Date();
+  if (operation.type === 'MERGE') {
+    await tx.product_aliases.deleteMany({ where: { id: { in: idsFor('product_aliases', 'CREATED') } } });
+    await tx.products.update({
+      where: { id: fromProductId },
+      data: { isActiveSku: true, supersededById: null, supersededAt: null },
+    });
+  } else {
+    // Products are never hard-deleted; retire the split-off product and alias it back
+    await tx.products.update({
+      where: { id: toProductId },
+      data: { isActiveSku: false, supersededById: fromProductId, supersededAt: now },
+    });
+    await tx.product_aliases.create({
+      data: { fromProductId: toProductId, toProductId: fromProductId, reason: 'split reverted', createdBy: actor },
+    });
+  }
+
+  await tx.product_merge_operations.update({
+    where: { id: operation.id },
+    data: { status: 'REVERTED', revertedBy: actor, revertedAt: now },
+  });
+
+  return { operationId: operation.id, fromProductId, toProductId, summary };
+}
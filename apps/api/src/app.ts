@@ -32,13 +32,17 @@ import { logsRouter } from './routes/logs'
 import { harvesterRouter } from './routes/harvester'
 import reportsRouter from './routes/reports'
 import { searchRouter } from './routes/search'
+import { customLensesRouter } from './routes/custom-lenses'
 import { authRouter } from './routes/auth'
 import { dashboardRouter } from './routes/dashboard'
 import { watchlistRouter } from './routes/watchlist'
 import { savedItemsRouter } from './routes/saved-items'
+import { savedSearchesRouter } from './routes/saved-searches'
+import { notificationChannelsRouter } from './routes/notification-channels'
 import { gunLockerRouter } from './routes/gun-locker'
 import { firearmAmmoPreferenceRouter, ammoPreferencesRouter } from './routes/firearm-ammo-preference'
 import { priceCheckRouter } from './routes/price-check'
+import { bulkOptimizerRouter } from './routes/bulk-optimizer'
 import { adminRouter } from './routes/admin'
 import { usersRouter } from './routes/users'
 
@@ -167,14 +171,18 @@ app.use('/api/logs', logsRouter)
 app.use('/api/harvester', harvesterRouter)
 app.use('/api/reports', reportsRouter)
 app.use('/api/search', searchRouter)
+app.use('/api/lenses', customLensesRouter)
 app.use('/api/auth', authRouter)
 app.use('/api/dashboard', dashboardRouter)
 app.use('/api/watchlist', watchlistRouter)
 app.use('/api/saved-items', savedItemsRouter)
+app.use('/api/saved-searches', savedSearchesRouter)
+app.use('/api/notification-channels', notificationChannelsRouter)
 app.use('/api/gun-locker', gunLockerRouter)
 app.use('/api/gun-locker', firearmAmmoPreferenceRouter) // Ammo preferences nested under gun-locker
 app.use('/api/ammo-preferences', ammoPreferencesRouter)  // User-level ammo preferences (My Loadout)
 app.use('/api/price-check', priceCheckRouter)
+app.use('/api/bulk-optimizer', bulkOptimizerRouter)
 app.use('/api/admin', adminRouter)
 app.use('/api/users', usersRouter)
 
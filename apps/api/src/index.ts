@@ -5,6 +5,7 @@
  * The Express app configuration is in app.ts for testability.
  */
 
+import { startCaliberTaxonomyRefresh } from '@ironscout/db/caliber-taxonomy.js'
 import { app, prisma } from './app.js'
 import { loggers } from './config/logger'
 
@@ -15,6 +16,12 @@ const server = app.listen(PORT, () => {
   log.info('API server started', { port: PORT })
 })
 
+// Caliber taxonomy (Gun Locker, price check, search). Built-in until a version loads.
+const caliberTaxonomyRefresh = startCaliberTaxonomyRefresh(prisma, {
+  onRefresh: (taxonomy) => log.info('Caliber taxonomy loaded', { version: taxonomy.version }),
+  onError: (error) => log.warn('Caliber taxonomy refresh failed', { error: error instanceof Error ? error.message : String(error) }),
+})
+
 // Track if shutdown is in progress
 let isShuttingDown = false
 
@@ -39,6 +46,8 @@ const shutdown = async (signal: string) => {
       })
     })
     log.info('HTTP server closed')
+    const stopCaliberTaxonomyRefresh = await caliberTaxonomyRefresh
+    stopCaliberTaxonomyRefresh()
 
     // 2. Disconnect from database
     log.info('Disconnecting from database')
@@ -43,6 +43,7 @@ router.post('/', async (req: Request, res: Response) => {
       id: item.id,
       userId,
       productId: item.productId,
+      targetPrice: item.targetPrice,
       alertType: 'PRICE_DROP',
       isActive: item.notificationsEnabled,
       createdAt: item.savedAt,
@@ -0,0 +1,76 @@
+/**
+ * Bulk Optimizer Routes
+ *
+ * "I need N rounds of caliber X for purpose Y": cheapest fulfilment plans
+ * across current offers, split across at most K retailers, with per-retailer
+ * subtotals and shipping. See services/bulk-optimizer.ts for the cost model.
+ *
+ * Routes:
+ * - POST /api/bulk-optimizer - Build fulfilment plans
+ */
+
+import { Router, Request, Response } from 'express'
+import { z } from 'zod'
+import { BULK_OPTIMIZER_LIMITS, optimizeBulkPurchase } from '../services/bulk-optimizer'
+import { getCanonicalCalibers, isValidCaliber } from '../services/gun-locker'
+// Import landed cost directly to avoid circular import issues
+import { isUsStateCode } from '@ironscout/db/landed-cost.js'
+import { loggers } from '../config/logger'
+
+const log = loggers.dashboard // Use dashboard logger for user-facing features
+
+const router: Router = Router()
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const bulkOptimizerSchema = z.object({
+  caliber: z.string().refine(isValidCaliber, {
+    error: () => `Invalid caliber. Must be one of: ${getCanonicalCalibers().join(', ')}`,
+  }),
+  rounds: z
+    .number()
+    .int()
+    .min(BULK_OPTIMIZER_LIMITS.rounds.min)
+    .max(BULK_OPTIMIZER_LIMITS.rounds.max, `Rounds must be at most ${BULK_OPTIMIZER_LIMITS.rounds.max}`),
+  purpose: z.string().trim().min(1).max(50).optional(),
+  maxRetailers: z
+    .number()
+    .int()
+    .min(BULK_OPTIMIZER_LIMITS.maxRetailers.min)
+    .max(BULK_OPTIMIZER_LIMITS.maxRetailers.max)
+    .default(BULK_OPTIMIZER_LIMITS.maxRetailers.default),
+  shipTo: z.string().toUpperCase().refine(isUsStateCode, { error: 'Invalid state code' }).optional(),
+})
+
+// ============================================================================
+// POST /api/bulk-optimizer - Build fulfilment plans
+// ============================================================================
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = bulkOptimizerSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        details: parsed.error.issues,
+      })
+    }
+
+    const result = await optimizeBulkPurchase(parsed.data)
+
+    res.json(result)
+  } catch (error) {
+    const err = error as Error
+    log.error('Bulk optimizer error', { message: err.message }, err)
+
+    if (err.message.startsWith('Invalid caliber')) {
+      return res.status(400).json({ error: err.message })
+    }
+
+    res.status(500).json({ error: 'Failed to build purchase plans' })
+  }
+})
+
+export { router as bulkOptimizerRouter }
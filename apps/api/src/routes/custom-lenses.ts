@@ -0,0 +1,158 @@
+/**
+ * Custom Lenses Routes
+ *
+ * User-defined search lenses. A saved lens is selectable in search as its
+ * "user:<id>" lens id and listed by GET /api/search/lenses.
+ *
+ * Routes:
+ * - GET    /api/lenses     - List the user's custom lenses
+ * - POST   /api/lenses     - Create a custom lens
+ * - PATCH  /api/lenses/:id - Update a custom lens (bumps its version)
+ * - DELETE /api/lenses/:id - Delete a custom lens
+ *
+ * :id accepts either the record id or the "user:<id>" lens id.
+ */
+
+import { Router, Request, Response } from 'express'
+import { z } from 'zod'
+import {
+  getCustomLenses,
+  createCustomLens,
+  updateCustomLens,
+  deleteCustomLens,
+} from '../services/custom-lenses'
+import { CUSTOM_LENS_LIMITS } from '../services/lens'
+import { getAuthenticatedUserId } from '../middleware/auth'
+import { loggers } from '../config/logger'
+
+const log = loggers.search
+
+const router: any = Router()
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+// Rule contents are checked against the lens field vocabulary in the service
+const ruleSchema = z.record(z.string(), z.unknown())
+
+const createLensSchema = z.object({
+  label: z.string().min(1).max(CUSTOM_LENS_LIMITS.maxLabelLength),
+  description: z.string().max(CUSTOM_LENS_LIMITS.maxDescriptionLength).nullable().optional(),
+  eligibility: z.array(ruleSchema).max(CUSTOM_LENS_LIMITS.maxEligibilityRules).optional(),
+  ordering: z.array(ruleSchema).min(1).max(CUSTOM_LENS_LIMITS.maxOrderingRules),
+})
+
+const updateLensSchema = createLensSchema.partial()
+
+// ============================================================================
+// GET /api/lenses - List custom lenses
+// ============================================================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const lenses = await getCustomLenses(userId)
+
+    res.json({ lenses, limit: CUSTOM_LENS_LIMITS.maxLensesPerUser })
+  } catch (error) {
+    const err = error as Error
+    log.error('Get custom lenses error', { message: err.message }, err)
+    res.status(500).json({ error: 'Failed to fetch lenses' })
+  }
+})
+
+// ============================================================================
+// POST /api/lenses - Create a custom lens
+// ============================================================================
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const input = createLensSchema.parse(req.body)
+    const lens = await createCustomLens(userId, input)
+
+    res.status(201).json(lens)
+  } catch (error: any) {
+    log.error('Create custom lens error', { error }, error as Error)
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+
+    if (error.message?.includes('must be')) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to create lens' })
+  }
+})
+
+// ============================================================================
+// PATCH /api/lenses/:id - Update a custom lens
+// ============================================================================
+
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const input = updateLensSchema.parse(req.body)
+    const lens = await updateCustomLens(userId, req.params.id as string, input)
+
+    res.json(lens)
+  } catch (error: any) {
+    log.error('Update custom lens error', { error }, error as Error)
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+
+    if (error.message === 'Item not found') {
+      return res.status(404).json({ error: 'Item not found' })
+    }
+
+    if (error.message?.includes('must be')) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to update lens' })
+  }
+})
+
+// ============================================================================
+// DELETE /api/lenses/:id - Delete a custom lens
+// ============================================================================
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    await deleteCustomLens(userId, req.params.id as string)
+
+    res.json({ message: 'Lens removed', id: req.params.id })
+  } catch (error: any) {
+    log.error('Delete custom lens error', { error }, error as Error)
+
+    if (error.message === 'Item not found') {
+      return res.status(404).json({ error: 'Item not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to remove lens' })
+  }
+})
+
+export { router as customLensesRouter }
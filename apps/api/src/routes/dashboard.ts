@@ -23,6 +23,9 @@ import {
 import { getMarketDeals, getMarketDealsWithGunLocker } from '../services/market-deals'
 import { getUserCalibers, type CaliberValue } from '../services/gun-locker'
 import { getLoadoutData } from '../services/loadout'
+import { getPriceAnalytics } from '../services/price-analytics'
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
 
 const log = loggers.dashboard
 
@@ -780,5 +783,50 @@ router.get('/price-history/:caliber', async (req: Request, res: Response) => {
   }
 })
 
+// ============================================================================
+// PRICE ANALYTICS ENDPOINT
+// Caliber price-per-round percentiles, all-time low, volatility and
+// seasonality from the price_history_daily rollup
+// ============================================================================
+
+const priceAnalyticsSchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(90)
+})
+
+router.get('/price-analytics/:caliber', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const { days } = priceAnalyticsSchema.parse(req.query)
+    const userTier = await getUserTier(req)
+
+    if (!hasPriceHistoryAccess(userTier)) {
+      return res.status(403).json({
+        error: 'Price history unavailable',
+        message: 'Price history is not available for this request.',
+        tier: userTier
+      })
+    }
+
+    // Rollup rows are keyed by canonical caliber; accept aliases ("9mm luger")
+    const requested = decodeURIComponent(req.params.caliber as string)
+    const caliber = getCaliberTaxonomy().find(requested)?.name ?? requested
+
+    const effectiveDays = Math.min(days, getPriceHistoryDays(userTier))
+    const analytics = await getPriceAnalytics('CALIBER', caliber, effectiveDays)
+
+    res.json({ caliber, ...analytics })
+  } catch (error) {
+    log.error('Price analytics error', { error }, error as Error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid parameters', details: error.issues })
+    }
+    res.status(500).json({ error: 'Failed to fetch price analytics' })
+  }
+})
+
 export { router as dashboardRouter }
 
@@ -17,12 +17,13 @@ const listExecutionsSchema = z.object({
   limit: z.string().default('20'),
   status: z.enum(['PENDING', 'RUNNING', 'SUCCESS', 'FAILED']).optional(),
   sourceId: z.string().optional(),
+  extractionRulesVersionId: z.string().optional(),
 })
 
 // GET /api/executions - List executions with pagination
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const { page, limit, status, sourceId } = listExecutionsSchema.parse(req.query)
+    const { page, limit, status, sourceId, extractionRulesVersionId } = listExecutionsSchema.parse(req.query)
 
     const pageNum = parseInt(page)
     const limitNum = parseInt(limit)
@@ -31,6 +32,7 @@ router.get('/', async (req: Request, res: Response) => {
     const where: any = {}
     if (status) where.status = status
     if (sourceId) where.sourceId = sourceId
+    if (extractionRulesVersionId) where.extractionRulesVersionId = extractionRulesVersionId
 
     const [executions, total] = await Promise.all([
       prisma.executions.findMany({
@@ -40,6 +42,9 @@ router.get('/', async (req: Request, res: Response) => {
         orderBy: { startedAt: 'desc' },
         include: {
           sources: true,
+          extraction_rules_version: {
+            select: { version: true },
+          },
           _count: {
             select: { execution_logs: true },
           },
@@ -23,7 +23,7 @@ import {
   countGuns,
   setGunImage,
   deleteGunImage,
-  CANONICAL_CALIBERS,
+  getCanonicalCalibers,
   isValidCaliber,
 } from '../services/gun-locker'
 import { getAuthenticatedUserId } from '../middleware/auth'
@@ -39,7 +39,7 @@ const router: Router = Router()
 
 const addGunSchema = z.object({
   caliber: z.string().refine(isValidCaliber, {
-    message: `Invalid caliber. Must be one of: ${CANONICAL_CALIBERS.join(', ')}`,
+    error: () => `Invalid caliber. Must be one of: ${getCanonicalCalibers().join(', ')}`,
   }),
   nickname: z.string().max(100).optional().nullable(),
 })
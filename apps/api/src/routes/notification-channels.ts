@@ -0,0 +1,288 @@
+/**
+ * Notification Channel Routes
+ *
+ * User-level destinations for web push, SMS and webhook alerts.
+ * Per-item channel selection lives on PATCH /api/saved-items/:productId.
+ *
+ * Routes:
+ * - GET    /api/notification-channels                    - Channel setup for the user
+ * - POST   /api/notification-channels/push-subscriptions - Register a browser push subscription
+ * - DELETE /api/notification-channels/push-subscriptions - Remove a browser push subscription
+ * - PUT    /api/notification-channels/sms                - Send a verification code to an SMS phone number
+ * - POST   /api/notification-channels/sms/verify         - Confirm the code (opt-in)
+ * - DELETE /api/notification-channels/sms                - Remove SMS phone number (opt-out)
+ * - POST   /api/notification-channels/webhooks           - Create a webhook (returns secret once)
+ * - PATCH  /api/notification-channels/webhooks/:id       - Enable/disable a webhook
+ * - DELETE /api/notification-channels/webhooks/:id       - Delete a webhook
+ */
+
+import { Router, Request, Response } from 'express'
+import { z } from 'zod'
+import {
+  getNotificationChannels,
+  addPushSubscription,
+  removePushSubscription,
+  setSmsPhoneNumber,
+  confirmSmsPhoneNumber,
+  clearSmsPhoneNumber,
+  SmsVerificationError,
+  createWebhook,
+  setWebhookEnabled,
+  deleteWebhook,
+} from '../services/notification-channels'
+import { getAuthenticatedUserId } from '../middleware/auth'
+import { loggers } from '../config/logger'
+
+const log = loggers.alerts
+
+const router: any = Router()
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2048),
+  keys: z.object({
+    p256dh: z.string().min(1).max(256),
+    auth: z.string().min(1).max(64),
+  }),
+})
+
+const removePushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2048),
+})
+
+const smsSchema = z.object({
+  phoneNumber: z.string().min(1).max(32),
+})
+
+const smsVerifySchema = z.object({
+  code: z.string().regex(/^\s*\d{6}\s*$/),
+})
+
+const createWebhookSchema = z.object({
+  url: z.string().url().max(2048),
+  name: z.string().max(100).optional(),
+})
+
+const updateWebhookSchema = z.object({
+  enabled: z.boolean(),
+})
+
+/** Service validation errors that map to 400 */
+function isValidationMessage(message: string | undefined): boolean {
+  return !!message && /must|limit reached|invalid/i.test(message)
+}
+
+// ============================================================================
+// GET /api/notification-channels
+// ============================================================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    res.json(await getNotificationChannels(userId))
+  } catch (error) {
+    log.error('Get notification channels error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to fetch notification channels' })
+  }
+})
+
+// ============================================================================
+// Web Push
+// ============================================================================
+
+router.post('/push-subscriptions', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const input = pushSubscriptionSchema.parse(req.body)
+    await addPushSubscription(userId, { ...input, userAgent: req.get('user-agent')?.slice(0, 255) })
+
+    res.status(201).json({ success: true })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+    if (isValidationMessage(error.message)) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    log.error('Add push subscription error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to register push subscription' })
+  }
+})
+
+router.delete('/push-subscriptions', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const { endpoint } = removePushSubscriptionSchema.parse(req.body)
+    await removePushSubscription(userId, endpoint)
+
+    res.json({ success: true })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+
+    log.error('Remove push subscription error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to remove push subscription' })
+  }
+})
+
+// ============================================================================
+// SMS
+// ============================================================================
+
+router.put('/sms', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const { phoneNumber } = smsSchema.parse(req.body)
+    await setSmsPhoneNumber(userId, phoneNumber)
+
+    res.json(await getNotificationChannels(userId))
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+    if (error instanceof SmsVerificationError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+    if (isValidationMessage(error.message)) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    log.error('Set SMS phone number error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to update SMS settings' })
+  }
+})
+
+router.post('/sms/verify', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const { code } = smsVerifySchema.parse(req.body)
+    await confirmSmsPhoneNumber(userId, code)
+
+    res.json(await getNotificationChannels(userId))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Verification code must be 6 digits' })
+    }
+    if (error instanceof SmsVerificationError) {
+      return res.status(error.statusCode).json({ error: error.message })
+    }
+
+    log.error('Verify SMS phone number error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to verify phone number' })
+  }
+})
+
+router.delete('/sms', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    await clearSmsPhoneNumber(userId)
+
+    res.json(await getNotificationChannels(userId))
+  } catch (error) {
+    log.error('Clear SMS phone number error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to update SMS settings' })
+  }
+})
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+router.post('/webhooks', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const input = createWebhookSchema.parse(req.body)
+    const webhook = await createWebhook(userId, input)
+
+    res.status(201).json(webhook)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+    if (isValidationMessage(error.message)) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    log.error('Create webhook error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to create webhook' })
+  }
+})
+
+router.patch('/webhooks/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const { enabled } = updateWebhookSchema.parse(req.body)
+    const webhook = await setWebhookEnabled(userId, req.params.id as string, enabled)
+
+    res.json(webhook)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+    if (error.message === 'Webhook not found') {
+      return res.status(404).json({ error: 'Webhook not found' })
+    }
+
+    log.error('Update webhook error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to update webhook' })
+  }
+})
+
+router.delete('/webhooks/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    await deleteWebhook(userId, req.params.id as string)
+
+    res.json({ success: true })
+  } catch (error: any) {
+    if (error.message === 'Webhook not found') {
+      return res.status(404).json({ error: 'Webhook not found' })
+    }
+
+    log.error('Delete webhook error', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to delete webhook' })
+  }
+})
+
+export { router as notificationChannelsRouter }
@@ -13,7 +13,11 @@
 import { Router, Request, Response } from 'express'
 import { z } from 'zod'
 import { checkPrice } from '../services/price-check'
-import { CANONICAL_CALIBERS, isValidCaliber } from '../services/gun-locker'
+import { getCanonicalCalibers, isValidCaliber } from '../services/gun-locker'
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
+// Import landed cost directly to avoid circular import issues
+import { isUsStateCode } from '@ironscout/db/landed-cost.js'
 import { getAuthenticatedUserId } from '../middleware/auth'
 import { loggers } from '../config/logger'
 
@@ -27,7 +31,7 @@ const router: Router = Router()
 
 const priceCheckSchema = z.object({
   caliber: z.string().refine(isValidCaliber, {
-    message: `Invalid caliber. Must be one of: ${CANONICAL_CALIBERS.join(', ')}`,
+    error: () => `Invalid caliber. Must be one of: ${getCanonicalCalibers().join(', ')}`,
   }),
   pricePerRound: z
     .number()
@@ -35,6 +39,9 @@ const priceCheckSchema = z.object({
     .max(10, 'Price per round seems too high (max $10/rd)'),
   brand: z.string().max(100).optional(),
   grain: z.number().int().min(1).max(1000).optional(),
+  // Compare against item price (default) or delivered price (item + shipping)
+  basis: z.enum(['ITEM', 'DELIVERED']).default('ITEM'),
+  shipTo: z.string().toUpperCase().refine(isUsStateCode, { error: 'Invalid state code' }).optional(),
 })
 
 // ============================================================================
@@ -51,9 +58,9 @@ router.post('/', async (req: Request, res: Response) => {
       })
     }
 
-    const { caliber, pricePerRound, brand, grain } = parsed.data
+    const { caliber, pricePerRound, brand, grain, basis, shipTo } = parsed.data
 
-    const result = await checkPrice(caliber, pricePerRound, brand, grain)
+    const result = await checkPrice(caliber, pricePerRound, brand, grain, { basis, shipTo })
 
     // Check if user has Gun Locker (for optional prompt)
     const userId = getAuthenticatedUserId(req)
@@ -89,30 +96,13 @@ router.post('/', async (req: Request, res: Response) => {
 // ============================================================================
 
 router.get('/calibers', async (_req: Request, res: Response) => {
-  const calibers = CANONICAL_CALIBERS.map((value) => ({
+  const taxonomy = getCaliberTaxonomy()
+  const calibers = taxonomy.gunLockerValues().map((value) => ({
     value,
-    label: getCaliberLabel(value),
+    label: taxonomy.label(value),
   }))
 
   res.json({ calibers })
 })
 
-function getCaliberLabel(caliber: string): string {
-  const labels: Record<string, string> = {
-    '9mm': '9mm',
-    '.45_acp': '.45 ACP',
-    '.40_sw': '.40 S&W',
-    '.380_acp': '.380 ACP',
-    '.22_lr': '.22 LR',
-    '.223_556': '.223 / 5.56',
-    '.308_762x51': '.308 / 7.62x51',
-    '.30-06': '.30-06',
-    '6.5_creedmoor': '6.5 Creedmoor',
-    '7.62x39': '7.62x39',
-    '12ga': '12 Gauge',
-    '20ga': '20 Gauge',
-  }
-  return labels[caliber] || caliber
-}
-
 export { router as priceCheckRouter }
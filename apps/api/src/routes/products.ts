@@ -1,11 +1,19 @@
 import { Router, Request, Response } from 'express'
 import { z } from 'zod'
 import { prisma } from '@ironscout/db'
+// Import landed cost directly to avoid circular import issues
+import {
+  calculateLandedCost,
+  InvalidQuantityError,
+  isUsStateCode,
+  loadShippingRules,
+} from '@ironscout/db/landed-cost.js'
 import { hasPriceHistoryAccess, getPriceHistoryDays, shapePriceHistory, visibleHistoricalPriceWhere } from '../config/tiers'
 import { getUserTier } from '../middleware/auth'
 import { loggers } from '../config/logger'
 import { batchGetPricesViaProductLinks, getPricesViaProductLinks } from '../services/ai-search/price-resolver'
 import { lookupByUpc } from '../services/upc-lookup'
+import { getPriceAnalytics } from '../services/price-analytics'
 
 const log = loggers.products
 
@@ -30,6 +38,11 @@ const searchSchema = z.object({
   limit: z.string().default('20')
 })
 
+const landedCostSchema = z.object({
+  quantity: z.coerce.number().int().min(1).max(100).default(1),
+  shipTo: z.string().toUpperCase().refine(isUsStateCode, { error: 'Invalid state code' }).optional(),
+})
+
 router.get('/search', async (req: Request, res: Response) => {
   try {
     const params = searchSchema.parse(req.query)
@@ -417,6 +430,81 @@ router.get('/:id/prices', async (req: Request, res: Response) => {
   }
 })
 
+// Get delivered (item + shipping) cost per retailer for a quantity and destination
+router.get('/:id/landed-cost', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    const parsed = landedCostSchema.safeParse(req.query)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query', details: parsed.error.issues })
+    }
+    const { quantity, shipTo } = parsed.data
+
+    const product = await prisma.products.findUnique({
+      where: { id },
+      select: { id: true, name: true, roundCount: true }
+    })
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' })
+    }
+
+    // Cheapest in-stock offer per retailer (prices are ordered by price within tier)
+    const prices = await getPricesViaProductLinks(id)
+    const offersByRetailer = new Map<string, any>()
+    for (const price of prices) {
+      const current = offersByRetailer.get(price.retailerId)
+      if (price.inStock && (!current || Number(price.price) < Number(current.price))) {
+        offersByRetailer.set(price.retailerId, price)
+      }
+    }
+
+    const offers = Array.from(offersByRetailer.values())
+    const rules = await loadShippingRules(prisma, offers.map(offer => offer.retailerId))
+    const rounds = product.roundCount && product.roundCount > 0 ? product.roundCount * quantity : null
+
+    const results = offers
+      .map(offer => {
+        const cost = calculateLandedCost({
+          offer,
+          quantity,
+          rule: rules.get(offer.retailerId) ?? null,
+          destinationState: shipTo ?? null,
+        })
+        return {
+          retailerId: offer.retailerId,
+          retailerName: offer.retailerName,
+          url: offer.url,
+          price: parseFloat(offer.price.toString()),
+          ...cost,
+          deliveredPricePerRound: cost.total !== null && rounds
+            ? Math.round((cost.total / rounds) * 10000) / 10000
+            : null,
+        }
+      })
+      // Lowest delivered total first, unknown shipping last
+      .sort((a, b) => {
+        if (a.total === null || b.total === null) {
+          return (a.total === null ? 1 : 0) - (b.total === null ? 1 : 0)
+        }
+        return a.total - b.total
+      })
+
+    res.json({
+      product,
+      quantity,
+      shipTo: shipTo ?? null,
+      offers: results,
+    })
+  } catch (error) {
+    if (error instanceof InvalidQuantityError) {
+      return res.status(400).json({ error: error.message })
+    }
+    log.error('Landed cost error', { error }, error as Error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 // Get price history for a product
 router.get('/:id/history', async (req: Request, res: Response) => {
   try {
@@ -537,6 +625,49 @@ router.get('/:id/history', async (req: Request, res: Response) => {
   }
 })
 
+// Price analytics (percentiles, all-time low, volatility, seasonality) from
+// the price_history_daily rollup
+const priceAnalyticsSchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(90)
+})
+
+router.get('/:id/price-analytics', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    const { days } = priceAnalyticsSchema.parse(req.query)
+
+    const product = await prisma.products.findUnique({
+      where: { id },
+      select: { id: true, name: true, caliber: true, roundCount: true }
+    })
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' })
+    }
+
+    const userTier = await getUserTier(req)
+
+    if (!hasPriceHistoryAccess(userTier)) {
+      return res.status(403).json({
+        error: 'Price history unavailable',
+        message: 'Price history is not available for this request.',
+        tier: userTier,
+      })
+    }
+
+    const effectiveDays = Math.min(days, getPriceHistoryDays(userTier))
+    const analytics = await getPriceAnalytics('PRODUCT', id, effectiveDays)
+
+    res.json({ product, ...analytics })
+  } catch (error) {
+    log.error('Price analytics error', { error }, error as Error)
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid parameters', details: error.issues })
+    }
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 export { router as productsRouter }
 
 
@@ -22,6 +22,7 @@ import {
   countSavedItems,
   getAlertHistory,
 } from '../services/saved-items'
+import { NOTIFICATION_CHANNELS } from '../services/notification-channels'
 import { getAuthenticatedUserId } from '../middleware/auth'
 import { loggers } from '../config/logger'
 
@@ -40,6 +41,10 @@ const updatePrefsSchema = z.object({
   minDropPercent: z.number().int().min(0).max(100).optional(),
   minDropAmount: z.number().min(0).optional(),
   stockAlertCooldownHours: z.number().int().min(1).max(168).optional(),
+  notificationChannels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1).optional(),
+  targetPrice: z.number().positive().max(100000).nullable().optional(),
+  targetPriceBasis: z.enum(['TOTAL', 'PER_ROUND']).optional(),
+  targetIncludeShipping: z.boolean().optional(),
 })
 
 // ============================================================================
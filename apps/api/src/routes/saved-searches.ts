@@ -0,0 +1,193 @@
+/**
+ * Saved Searches Routes (SEARCH intent, ADR-011A)
+ *
+ * Routes:
+ * - GET    /api/saved-searches             - List saved searches with match counts
+ * - POST   /api/saved-searches             - Save a search (idempotent per filters)
+ * - GET    /api/saved-searches/:id/matches - Product IDs currently matching
+ * - PATCH  /api/saved-searches/:id         - Update notification preferences
+ * - DELETE /api/saved-searches/:id         - Delete a saved search
+ */
+
+import { Router, Request, Response } from 'express'
+import { z } from 'zod'
+import { BulletType } from '@ironscout/db/generated/prisma'
+import {
+  saveSearch,
+  getSavedSearches,
+  getSavedSearchMatches,
+  updateSavedSearch,
+  deleteSavedSearch,
+} from '../services/saved-searches'
+import { NOTIFICATION_CHANNELS } from '../services/notification-channels'
+import { getAuthenticatedUserId } from '../middleware/auth'
+import { loggers } from '../config/logger'
+
+const log = loggers.watchlist
+
+const router: any = Router()
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const rangeSchema = z.object({
+  min: z.number().min(0).optional(),
+  max: z.number().min(0).optional(),
+})
+
+const saveSearchSchema = z.object({
+  searchText: z.string().max(500).optional(),
+  filters: z.object({
+    caliber: z.array(z.string().min(1).max(100)).min(1).max(10),
+    brand: z.array(z.string().min(1).max(100)).max(10).optional(),
+    bulletType: z.array(z.enum(BulletType)).max(10).optional(),
+    grainRange: rangeSchema.optional(),
+    priceRange: rangeSchema.optional(),
+    maxPricePerRound: z.number().positive().max(100).optional(),
+  }),
+  sortBy: z.string().max(50).optional(),
+  lensId: z.string().optional(),
+})
+
+const updateSearchSchema = z.object({
+  notificationsEnabled: z.boolean().optional(),
+  notificationChannels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1).optional(),
+})
+
+// ============================================================================
+// GET /api/saved-searches - List saved searches
+// ============================================================================
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const searches = await getSavedSearches(userId)
+
+    res.json({ searches })
+  } catch (error) {
+    const err = error as Error
+    log.error('Get saved searches error', { message: err.message }, err)
+    res.status(500).json({ error: 'Failed to fetch saved searches' })
+  }
+})
+
+// ============================================================================
+// POST /api/saved-searches - Save a search
+// ============================================================================
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const input = saveSearchSchema.parse(req.body)
+    const search = await saveSearch(userId, input)
+
+    res.status(201).json(search)
+  } catch (error: any) {
+    log.error('Save search error', { error }, error as Error)
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+
+    if (error.message?.includes('must be')) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to save search' })
+  }
+})
+
+// ============================================================================
+// GET /api/saved-searches/:id/matches - Current matches
+// ============================================================================
+
+router.get('/:id/matches', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const productIds = await getSavedSearchMatches(userId, req.params.id as string)
+
+    res.json({ productIds })
+  } catch (error: any) {
+    log.error('Get saved search matches error', { error }, error as Error)
+
+    if (error.message === 'Item not found') {
+      return res.status(404).json({ error: 'Item not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to fetch matches' })
+  }
+})
+
+// ============================================================================
+// PATCH /api/saved-searches/:id - Update notification preferences
+// ============================================================================
+
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    const input = updateSearchSchema.parse(req.body)
+    const search = await updateSavedSearch(userId, req.params.id as string, input)
+
+    res.json(search)
+  } catch (error: any) {
+    log.error('Update saved search error', { error }, error as Error)
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.issues })
+    }
+
+    if (error.message === 'Item not found') {
+      return res.status(404).json({ error: 'Item not found' })
+    }
+
+    if (error.message?.includes('must be')) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to update saved search' })
+  }
+})
+
+// ============================================================================
+// DELETE /api/saved-searches/:id - Delete a saved search
+// ============================================================================
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getAuthenticatedUserId(req)
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' })
+    }
+
+    await deleteSavedSearch(userId, req.params.id as string)
+
+    res.json({ message: 'Search removed', id: req.params.id })
+  } catch (error: any) {
+    log.error('Delete saved search error', { error }, error as Error)
+
+    if (error.message === 'Item not found') {
+      return res.status(404).json({ error: 'Item not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to remove search' })
+  }
+})
+
+export { router as savedSearchesRouter }
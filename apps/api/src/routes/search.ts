@@ -1,11 +1,14 @@
 import { Router, Request, Response } from 'express'
 import { z } from 'zod'
-import { aiSearch, getSearchSuggestions, parseSearchIntent, backfillProductEmbeddings, updateProductEmbedding, ParseOptions } from '../services/ai-search'
+import { aiSearch, getSearchSuggestions, parseSearchIntent, backfillProductEmbeddings, updateProductEmbedding, getEmbeddingModelId, ParseOptions } from '../services/ai-search'
 import { enqueueEmbeddingBatch, getEmbeddingQueueStats } from '../services/ai-search/embedding-queue'
 import { prisma, isAiSearchEnabled, isVectorSearchEnabled } from '@ironscout/db'
-import { requireAdmin, rateLimit, redisRateLimit } from '../middleware/auth'
+// Import landed cost directly to avoid circular import issues
+import { isUsStateCode } from '@ironscout/db/landed-cost.js'
+import { requireAdmin, rateLimit, redisRateLimit, getAuthenticatedUserId } from '../middleware/auth'
 import { loggers } from '../config/logger'
-import { InvalidLensError, VALID_LENS_IDS, isLensEnabled } from '../services/lens'
+import { InvalidLensError, VALID_LENS_IDS, isCustomLensId, isLensEnabled } from '../services/lens'
+import { getCustomLenses, resolveCustomLens } from '../services/custom-lenses'
 
 const log = loggers.search
 
@@ -43,6 +46,13 @@ const semanticSearchSchema = z.object({
   sortBy: z.enum(['relevance', 'price_asc', 'price_desc', 'date_desc', 'date_asc', 'price_context']).default('relevance'),
   // Optional lens ID for lens-based filtering (requires ENABLE_LENS_V1=true)
   lensId: z.string().optional(),
+  // Order on item price (default) or delivered price (item + shipping)
+  priceBasis: z.enum(['ITEM', 'DELIVERED']).default('ITEM'),
+  // Destination state for delivered prices (state surcharges) and shipping restrictions.
+  // Defaults to the signed-in user's ship-to state.
+  shipTo: z.string().toUpperCase().refine(isUsStateCode, { error: 'Invalid state code' }).optional(),
+  // Hide offers that cannot ship to shipTo (default) or keep them flagged with a reason code
+  restrictedOffers: z.enum(['HIDE', 'FLAG']).default('HIDE'),
   // Explicit filters that override AI intent
   filters: z.object({
     // Basic filters (FREE + PREMIUM)
@@ -90,7 +100,20 @@ router.post('/semantic', redisRateLimit({
       })
     }
 
-    const { query, page, limit, sortBy, lensId, filters } = semanticSearchSchema.parse(req.body)
+    const { query, page, limit, sortBy, lensId, priceBasis, shipTo, restrictedOffers, filters } =
+      semanticSearchSchema.parse(req.body)
+
+    // Fall back to the signed-in user's ship-to state
+    const userId = shipTo ? null : getAuthenticatedUserId(req)
+    const userShipTo = userId
+      ? (await prisma.users.findUnique({ where: { id: userId }, select: { shipToState: true } }))?.shipToState
+      : null
+
+    // Custom lenses resolve only for their owner; anyone else gets INVALID_LENS
+    const lensUserId = lensId && isCustomLensId(lensId) ? getAuthenticatedUserId(req) : null
+    const customLens = lensUserId && lensId && isCustomLensId(lensId)
+      ? await resolveCustomLens(lensUserId, lensId)
+      : null
 
     // Check if vector search is enabled
     const vectorEnabled = await isVectorSearchEnabled()
@@ -107,7 +130,11 @@ router.post('/semantic', redisRateLimit({
       explicitFilters: filters,
       userTier: 'PREMIUM',
       lensId,
+      customLens,
       requestId,
+      priceBasis,
+      shipTo: shipTo ?? userShipTo ?? undefined,
+      restrictedOffers,
     })
 
     res.json(result)
@@ -186,19 +213,23 @@ router.post('/parse', redisRateLimit({
 
 /**
  * Get search suggestions/autocomplete
- * GET /api/search/suggestions?q=ar1
+ * GET /api/search/suggestions?q=fed%20hst&limit=8
+ *
+ * `suggestions` is the plain text list; `items` adds the kind (BRAND,
+ * CALIBER, PRODUCT_LINE, BULLET_TYPE, PRODUCT, QUERY) and detail label.
  */
 const suggestionsSchema = z.object({
   q: z.string().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
 })
 
 router.get('/suggestions', async (req: Request, res: Response) => {
   try {
-    const { q } = suggestionsSchema.parse(req.query)
-    
-    const suggestions = await getSearchSuggestions(q)
-    
-    res.json({ suggestions })
+    const { q, limit } = suggestionsSchema.parse(req.query)
+
+    const items = await getSearchSuggestions(q, limit)
+
+    res.json({ suggestions: items.map(item => item.text), items })
   } catch (error) {
     log.error('Suggestions error', {}, error)
 
@@ -450,9 +481,11 @@ router.get('/premium-filters', async (_req: Request, res: Response) => {
  * GET /api/search/lenses
  *
  * Returns available lens IDs and their descriptions when ENABLE_LENS_V1=true.
+ * Signed-in users also get their custom lenses (custom: true); validIds
+ * lists the system lenses only.
  * Returns 503 when lens feature is disabled.
  */
-router.get('/lenses', async (_req: Request, res: Response) => {
+router.get('/lenses', async (req: Request, res: Response) => {
   try {
     if (!isLensEnabled()) {
       return res.status(503).json({
@@ -470,11 +503,24 @@ router.get('/lenses', async (_req: Request, res: Response) => {
       label: lens.label,
       description: lens.description,
       version: lens.version,
+      custom: false,
     }))
 
+    // Signed-in users also get their own lenses ("user:" ids)
+    const userId = getAuthenticatedUserId(req)
+    const customLenses = userId
+      ? (await getCustomLenses(userId)).map(lens => ({
+          id: lens.id,
+          label: lens.label,
+          description: lens.description ?? '',
+          version: lens.version,
+          custom: true,
+        }))
+      : []
+
     res.json({
       enabled: true,
-      lenses,
+      lenses: [...lenses, ...customLenses],
       validIds: VALID_LENS_IDS,
     })
   } catch (error) {
@@ -569,6 +615,8 @@ router.get('/admin/ballistic-stats', requireAdmin, async (req: Request, res: Res
  *
  * Routes through the embedding-generate queue so all embeddings use
  * the same code path (harvester worker) regardless of trigger source.
+ * Includes products embedded with a different model than the configured
+ * provider, so switching providers re-embeds the catalog.
  */
 let backfillInProgress = false
 let backfillProgress = { processed: 0, total: 0, errors: [] as string[] }
@@ -582,9 +630,14 @@ router.post('/admin/backfill-embeddings', requireAdmin, rateLimit({ max: 1, wind
   }
 
   try {
-    // Query products without embeddings
+    const modelId = getEmbeddingModelId()
+    if (!modelId) {
+      return res.status(503).json({ error: 'No embedding provider configured' })
+    }
+
+    // Query products without an embedding from the configured model
     const productsWithoutEmbedding = await prisma.$queryRaw<Array<{ id: string }>>`
-      SELECT id FROM products WHERE embedding IS NULL
+      SELECT id FROM products WHERE embedding IS NULL OR "embeddingModel" IS DISTINCT FROM ${modelId}
     `
 
     if (productsWithoutEmbedding.length === 0) {
@@ -642,14 +695,21 @@ router.get('/admin/backfill-progress', requireAdmin, (req: Request, res: Respons
  */
 router.get('/admin/embedding-stats', requireAdmin, async (req: Request, res: Response) => {
   try {
-    const [totalProducts, productsWithEmbedding, queueStats] = await Promise.all([
+    const modelId = getEmbeddingModelId()
+    const [totalProducts, byModel, queueStats] = await Promise.all([
       prisma.products.count(),
-      prisma.$queryRaw<[{ count: bigint }]>`
-        SELECT COUNT(*) as count FROM products WHERE embedding IS NOT NULL
-      `.then(r => Number(r[0].count)),
+      prisma.$queryRaw<Array<{ model: string | null; count: bigint }>>`
+        SELECT "embeddingModel" as model, COUNT(*) as count
+        FROM products
+        WHERE embedding IS NOT NULL
+        GROUP BY "embeddingModel"
+      `,
       getEmbeddingQueueStats(),
     ])
 
+    // Only embeddings from the configured model are searchable
+    const productsWithEmbedding = Number(byModel.find(r => r.model === modelId)?.count ?? 0)
+
     const productsWithoutEmbedding = totalProducts - productsWithEmbedding
     const coveragePercent = totalProducts > 0
       ? Math.round((productsWithEmbedding / totalProducts) * 100)
@@ -659,6 +719,8 @@ router.get('/admin/embedding-stats', requireAdmin, async (req: Request, res: Res
     const queueProcessing = queueStats.waiting > 0 || queueStats.active > 0
 
     res.json({
+      embeddingModel: modelId,
+      embeddingsByModel: Object.fromEntries(byModel.map(r => [r.model ?? 'unknown', Number(r.count)])),
       totalProducts,
       productsWithEmbedding,
       productsWithoutEmbedding,
@@ -694,6 +756,51 @@ router.post('/admin/update-embedding/:productId', requireAdmin, rateLimit({ max:
   }
 })
 
+/**
+ * Debug endpoint - semantic search with per-result retrieval scores
+ * POST /api/search/debug/semantic
+ *
+ * Same body as /semantic. Adds searchMetadata.retrieval (retrieval mode,
+ * candidate counts and each result's lexical/vector ranks and RRF score)
+ * for tuning hybrid search. Custom lenses are not resolved.
+ */
+router.post('/debug/semantic', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { query, page, limit, sortBy, lensId, priceBasis, shipTo, restrictedOffers, filters } =
+      semanticSearchSchema.parse(req.body)
+
+    const result = await aiSearch(query, {
+      page,
+      limit,
+      sortBy,
+      useVectorSearch: await isVectorSearchEnabled(),
+      explicitFilters: filters,
+      userTier: 'PREMIUM',
+      lensId,
+      priceBasis,
+      shipTo,
+      restrictedOffers,
+      debug: true,
+    })
+
+    res.json(result)
+  } catch (error) {
+    if (error instanceof InvalidLensError) {
+      return res.status(400).json(error.toApiError())
+    }
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid request parameters',
+        details: error.issues
+      })
+    }
+
+    log.error('Debug semantic search error', {}, error)
+    res.status(500).json({ error: 'Search failed' })
+  }
+})
+
 /**
  * Debug endpoint - get unique caliber values in database
  * GET /api/search/debug/calibers
@@ -3,7 +3,14 @@ import { randomUUID } from 'crypto'
 import { z } from 'zod'
 import { prisma } from '@ironscout/db'
 import { logger } from '../config/logger'
-import { requireAdmin } from '../middleware/auth'
+import { requireAdmin, getAuthenticatedUserId } from '../middleware/auth'
+import {
+  getSourceExtractionRules,
+  saveSourceExtractionRules,
+  rollbackSourceExtractionRules,
+  previewExtractionRules,
+  MAX_PREVIEW_SAMPLE_LENGTH,
+} from '../services/source-extraction-rules'
 
 const log = logger.child('sources')
 
@@ -30,6 +37,22 @@ const updateSourceSchema = z.object({
   interval: z.number().optional(),
 })
 
+const previewExtractionRulesSchema = z.object({
+  sourceType: z.enum(['RSS', 'HTML', 'JSON', 'JS_RENDERED']),
+  rules: z.unknown(),
+  sample: z.string().min(1).max(MAX_PREVIEW_SAMPLE_LENGTH),
+  pageUrl: z.string().url().optional(),
+})
+
+const saveExtractionRulesSchema = z.object({
+  rules: z.unknown(),
+  summary: z.string().trim().min(1).max(500),
+})
+
+const rollbackExtractionRulesSchema = z.object({
+  version: z.number().int().positive(),
+})
+
 // GET /api/sources - List all sources
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -160,4 +183,89 @@ router.post('/:id/toggle', async (req: Request, res: Response) => {
   }
 })
 
+// POST /api/sources/extraction-rules/preview - Run extraction rules against a sample page
+router.post('/extraction-rules/preview', async (req: Request, res: Response) => {
+  try {
+    const input = previewExtractionRulesSchema.parse(req.body)
+    const result = previewExtractionRules(input)
+
+    if (!result.ok) {
+      return res.status(400).json({ error: 'Invalid extraction rules', details: result.errors })
+    }
+
+    res.json({ records: result.records, nextPage: result.nextPage })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues })
+    }
+    log.error('Error previewing extraction rules', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to preview extraction rules' })
+  }
+})
+
+// GET /api/sources/:id/extraction-rules - Active rules and version history
+router.get('/:id/extraction-rules', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    res.json(await getSourceExtractionRules(id))
+  } catch (error) {
+    if ((error as Error).message === 'Source not found') {
+      return res.status(404).json({ error: 'Source not found' })
+    }
+    log.error('Error fetching extraction rules', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to fetch extraction rules' })
+  }
+})
+
+// PUT /api/sources/:id/extraction-rules - Save rules as a new version
+router.put('/:id/extraction-rules', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    const data = saveExtractionRulesSchema.parse(req.body)
+    const createdBy = getAuthenticatedUserId(req) ?? 'admin-api-key'
+
+    const saved = await saveSourceExtractionRules(id, data, createdBy)
+    if (!saved.ok) {
+      return res.status(400).json({ error: 'Invalid extraction rules', details: saved.errors })
+    }
+
+    log.info('Extraction rules saved', { sourceId: id, activeVersionId: saved.result.activeVersionId, createdBy })
+    res.json(saved.result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues })
+    }
+    if ((error as Error).message === 'Source not found') {
+      return res.status(404).json({ error: 'Source not found' })
+    }
+    log.error('Error saving extraction rules', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to save extraction rules' })
+  }
+})
+
+// POST /api/sources/:id/extraction-rules/rollback - Re-activate an earlier version
+router.post('/:id/extraction-rules/rollback', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string
+    const { version } = rollbackExtractionRulesSchema.parse(req.body)
+
+    const rolledBack = await rollbackSourceExtractionRules(id, version)
+    if (!rolledBack.ok) {
+      return res.status(409).json({ error: 'Version is no longer valid for this source', details: rolledBack.errors })
+    }
+
+    log.info('Extraction rules rolled back', { sourceId: id, version })
+    res.json(rolledBack.result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.issues })
+    }
+    if ((error as Error).message === 'Version not found') {
+      return res.status(404).json({ error: 'Version not found' })
+    }
+    log.error('Error rolling back extraction rules', { error }, error as Error)
+    res.status(500).json({ error: 'Failed to roll back extraction rules' })
+  }
+})
+
 export { router as sourcesRouter }
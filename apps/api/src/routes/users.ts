@@ -5,12 +5,16 @@
  * - GET  /api/users/me/deletion-eligibility - Check if user can delete account
  * - POST /api/users/me/delete - Initiate account deletion (14-day cooling-off)
  * - POST /api/users/me/cancel-deletion - Cancel pending account deletion
+ * - GET  /api/users/me/ship-to - Get ship-to state
+ * - PUT  /api/users/me/ship-to - Set or clear ship-to state
  */
 
 import { Router, Request, Response } from 'express'
 import type { Router as RouterType } from 'express'
 import { z } from 'zod'
 import { prisma } from '@ironscout/db'
+// Import landed cost directly to avoid circular import issues
+import { isUsStateCode } from '@ironscout/db/landed-cost.js'
 import jwt from 'jsonwebtoken'
 import {
   checkDeletionEligibility,
@@ -173,4 +177,47 @@ router.post('/me/cancel-deletion', requireAuth, async (req: AuthenticatedRequest
   }
 })
 
+// ============================================================================
+// SHIP-TO STATE
+// ============================================================================
+
+router.get('/me/ship-to', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await prisma.users.findUnique({
+      where: { id: req.userId! },
+      select: { shipToState: true }
+    })
+
+    return res.json({ state: user?.shipToState ?? null })
+  } catch (error) {
+    log.error('Get ship-to state error', { error }, error as Error)
+    return res.status(500).json({ error: 'Failed to get ship-to state' })
+  }
+})
+
+const shipToSchema = z.object({
+  // null clears the setting
+  state: z.string().toUpperCase().refine(isUsStateCode, { error: 'Invalid state code' }).nullable()
+})
+
+router.put('/me/ship-to', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = shipToSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid state code' })
+    }
+
+    const user = await prisma.users.update({
+      where: { id: req.userId! },
+      data: { shipToState: parsed.data.state },
+      select: { shipToState: true }
+    })
+
+    return res.json({ state: user.shipToState })
+  } catch (error) {
+    log.error('Update ship-to state error', { error }, error as Error)
+    return res.status(500).json({ error: 'Failed to update ship-to state' })
+  }
+})
+
 export { router as usersRouter }
@@ -0,0 +1,136 @@
+/**
+ * Bulk Purchase Optimizer Tests
+ *
+ * Cart selection per retailer (whole listings, free-shipping minimums),
+ * splitting across retailers and exclusion of unknown shipping and
+ * retailers that cannot ship to the buyer's state.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+// vi.mock must use inline factory - cannot reference external variables
+vi.mock('@ironscout/db', () => ({
+  prisma: {},
+}))
+
+import type { ShippingRule } from '@ironscout/db/landed-cost.js'
+import { planBulkPurchase, type BulkOffer } from '../bulk-optimizer'
+
+function offer(overrides: Partial<BulkOffer>): BulkOffer {
+  return {
+    offerId: 'o1',
+    productId: 'p1',
+    productName: 'Test 9mm 115gr FMJ',
+    brand: 'Test',
+    retailerId: 'r1',
+    retailerName: 'Retailer One',
+    url: 'https://example.com/p1',
+    price: 15,
+    roundCount: 50,
+    shippingCost: null,
+    freeShippingMinimum: null,
+    ...overrides,
+  }
+}
+
+function rule(retailerId: string, overrides: Partial<ShippingRule>): ShippingRule {
+  return {
+    retailerId,
+    shippingType: 'FLAT',
+    flatRate: 10,
+    perUnitRate: null,
+    freeShippingMinimum: null,
+    stateSurcharges: {},
+    ...overrides,
+  }
+}
+
+describe('planBulkPurchase', () => {
+  it('picks the cart that reaches the free-shipping minimum', () => {
+    const offers = [
+      offer({ offerId: 'box', price: 14, roundCount: 50 }),
+      offer({ offerId: 'case', productId: 'p2', price: 290, roundCount: 1000 }),
+    ]
+    const rules = new Map([['r1', rule('r1', { flatRate: 15, freeShippingMinimum: 250 })]])
+
+    const { plans } = planBulkPurchase(offers, { rounds: 1000, maxRetailers: 1, rules })
+
+    expect(plans[0]).toMatchObject({ retailerCount: 1, rounds: 1000, subtotal: 280, shipping: 0, total: 280 })
+    expect(plans[0].retailers[0].lines).toMatchObject([{ offerId: 'box', quantity: 20, rounds: 1000 }])
+  })
+
+  it('splits across retailers when it is cheaper and reports per-retailer subtotals', () => {
+    const offers = [
+      offer({ offerId: 'a', retailerId: 'a', retailerName: 'A', price: 50, roundCount: 250 }),
+      offer({ offerId: 'b', retailerId: 'b', retailerName: 'B', price: 44, roundCount: 200 }),
+    ]
+    const rules = new Map([
+      ['a', rule('a', { flatRate: 20 })],
+      ['b', rule('b', { shippingType: 'FREE', flatRate: null })],
+    ])
+
+    const single = planBulkPurchase(offers, { rounds: 450, maxRetailers: 1, rules })
+    expect(single.plans[0]).toMatchObject({ retailerCount: 1, total: 120, surplusRounds: 50 })
+
+    const { plans } = planBulkPurchase(offers, { rounds: 450, maxRetailers: 2, rules })
+    expect(plans[0]).toMatchObject({ retailerCount: 2, rounds: 450, total: 114, pricePerRound: 0.2533 })
+    expect(plans[0].retailers).toMatchObject([
+      { retailerId: 'a', subtotal: 50, shipping: 20, total: 70 },
+      { retailerId: 'b', subtotal: 44, shipping: 0, total: 44 },
+    ])
+    // Single-retailer alternatives follow the split
+    expect(plans.map((p) => p.total)).toEqual([114, 120, 132])
+  })
+
+  it('uses observed offer shipping and state surcharges', () => {
+    const offers = [offer({ shippingCost: 9.99, freeShippingMinimum: 100 })]
+    const rules = new Map([['r2', rule('r2', { shippingType: 'FREE', stateSurcharges: { AK: 25 } })]])
+
+    const observed = planBulkPurchase(offers, { rounds: 200, maxRetailers: 2, rules })
+    expect(observed.plans[0]).toMatchObject({ subtotal: 60, shipping: 9.99, total: 69.99 })
+
+    const surcharged = planBulkPurchase([offer({ retailerId: 'r2' })], {
+      rounds: 100,
+      maxRetailers: 1,
+      rules,
+      shipTo: 'AK',
+    })
+    expect(surcharged.plans[0].retailers[0]).toMatchObject({ shipping: 25, shippingSource: 'RULE' })
+  })
+
+  it('leaves out retailers with unknown shipping', () => {
+    const offers = [
+      offer({ retailerId: 'known', shippingCost: 5 }),
+      offer({ offerId: 'o2', retailerId: 'unknown', retailerName: 'Unknown', price: 5 }),
+    ]
+
+    const { plans, excludedRetailers } = planBulkPurchase(offers, { rounds: 100, maxRetailers: 2, rules: new Map() })
+
+    expect(plans).toHaveLength(1)
+    expect(plans[0].retailers[0].retailerId).toBe('known')
+    expect(excludedRetailers).toEqual([{ retailerId: 'unknown', retailerName: 'Unknown', reason: 'UNKNOWN_SHIPPING' }])
+  })
+
+  it('leaves out retailers that cannot ship to the state and flags conditional restrictions', () => {
+    const offers = [
+      offer({ retailerId: 'ffl', retailerName: 'FFL Only', shippingCost: 5 }),
+      offer({ offerId: 'o2', retailerId: 'blocked', retailerName: 'Blocked', price: 5, shippingCost: 5 }),
+    ]
+    const restrictions = new Map<string, any>([
+      ['ffl', 'FFL_REQUIRED'],
+      ['blocked', 'NO_SHIP'],
+    ])
+
+    const { plans, excludedRetailers } = planBulkPurchase(offers, {
+      rounds: 100,
+      maxRetailers: 2,
+      rules: new Map(),
+      shipTo: 'CA',
+      restrictions,
+    })
+
+    expect(plans).toHaveLength(1)
+    expect(plans[0].retailers[0]).toMatchObject({ retailerId: 'ffl', shippingRestriction: 'FFL_REQUIRED' })
+    expect(excludedRetailers).toEqual([{ retailerId: 'blocked', retailerName: 'Blocked', reason: 'SHIPPING_RESTRICTED' }])
+  })
+})
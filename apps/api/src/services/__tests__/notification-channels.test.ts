@@ -0,0 +1,259 @@
+/**
+ * Notification Channels Service Tests
+ *
+ * Validation of user-supplied alert destinations (push endpoints, SMS numbers,
+ * webhook URLs), SMS one-time code verification and per-user ownership scoping.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// vi.mock must use inline factory - cannot reference external variables
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    users: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    user_push_subscriptions: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    user_webhooks: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@ironscout/notifications', () => ({
+  getSmsProvider: vi.fn(() => null),
+  sendSms: vi.fn(),
+}))
+
+import { prisma } from '@ironscout/db'
+import { sendSms } from '@ironscout/notifications'
+const mockPrisma = prisma as any
+const mockSendSms = vi.mocked(sendSms)
+const smsProvider = { name: 'test', send: vi.fn() }
+
+import {
+  addPushSubscription,
+  confirmSmsPhoneNumber,
+  setSmsPhoneNumber,
+  createWebhook,
+  deleteWebhook,
+  validateWebhookUrl,
+} from '../notification-channels'
+
+describe('Notification Channels Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('validateWebhookUrl', () => {
+    it('accepts public https URLs', () => {
+      expect(() => validateWebhookUrl('https://discord.com/api/webhooks/1/abc')).not.toThrow()
+    })
+
+    it('rejects plain http', () => {
+      expect(() => validateWebhookUrl('http://example.com/hook')).toThrow('must be https')
+    })
+
+    it.each([
+      'https://localhost/hook',
+      'https://127.0.0.1/hook',
+      'https://10.0.0.5/hook',
+      'https://[::1]/hook',
+      'https://metadata.google.internal/hook',
+    ])('rejects internal target %s', (url) => {
+      expect(() => validateWebhookUrl(url)).toThrow('public hostname')
+    })
+  })
+
+  describe('setSmsPhoneNumber', () => {
+    beforeEach(() => {
+      mockPrisma.users.findUnique.mockResolvedValue({ smsPhoneNumber: null, smsVerifiedAt: null })
+      mockPrisma.users.updateMany.mockResolvedValue({ count: 1 })
+      mockSendSms.mockResolvedValue({ success: true })
+    })
+
+    it('stores the normalized number as pending and texts a code', async () => {
+      await setSmsPhoneNumber('user_1', '+1 (555) 123-4567', smsProvider)
+
+      const { where, data } = mockPrisma.users.updateMany.mock.calls[0][0]
+      expect(where.id).toBe('user_1')
+      expect(data).toMatchObject({ smsPendingPhoneNumber: '+15551234567', smsCodeAttempts: 0 })
+      expect(data).not.toHaveProperty('smsPhoneNumber')
+      expect(data).not.toHaveProperty('smsVerifiedAt')
+      expect(mockSendSms).toHaveBeenCalledWith('+15551234567', expect.stringMatching(/\b\d{6}\b/), smsProvider)
+      // Only a hash of the code is stored
+      const code = mockSendSms.mock.calls[0][1].match(/\d{6}/)![0]
+      expect(data.smsCodeHash).not.toContain(code)
+    })
+
+    it('rejects numbers without a country code', async () => {
+      await expect(setSmsPhoneNumber('user_1', '555-123-4567', smsProvider)).rejects.toThrow('international format')
+      expect(mockPrisma.users.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('refuses to resend within the resend window', async () => {
+      mockPrisma.users.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      await expect(setSmsPhoneNumber('user_1', '+15551234567', smsProvider)).rejects.toMatchObject({
+        statusCode: 429,
+      })
+      expect(mockSendSms).not.toHaveBeenCalled()
+    })
+
+    it('fails when SMS is not configured', async () => {
+      await expect(setSmsPhoneNumber('user_1', '+15551234567', null)).rejects.toMatchObject({ statusCode: 503 })
+    })
+  })
+
+  describe('confirmSmsPhoneNumber', () => {
+    async function sendCode(): Promise<string> {
+      mockPrisma.users.findUnique.mockResolvedValueOnce({ smsPhoneNumber: null, smsVerifiedAt: null })
+      mockPrisma.users.updateMany.mockResolvedValueOnce({ count: 1 })
+      mockSendSms.mockResolvedValueOnce({ success: true })
+      await setSmsPhoneNumber('user_1', '+15551234567', smsProvider)
+
+      const { data } = mockPrisma.users.updateMany.mock.calls[0][0]
+      mockPrisma.users.findUnique.mockResolvedValueOnce({
+        smsPendingPhoneNumber: data.smsPendingPhoneNumber,
+        smsCodeHash: data.smsCodeHash,
+        smsCodeSentAt: data.smsCodeSentAt,
+      })
+      return mockSendSms.mock.calls[0][1].match(/\d{6}/)![0]
+    }
+
+    it('verifies the pending number with the right code', async () => {
+      const code = await sendCode()
+      mockPrisma.users.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      await confirmSmsPhoneNumber('user_1', code)
+
+      expect(mockPrisma.users.update).toHaveBeenCalledWith({
+        where: { id: 'user_1' },
+        data: expect.objectContaining({
+          smsPhoneNumber: '+15551234567',
+          smsVerifiedAt: expect.any(Date),
+          smsOptInAt: expect.any(Date),
+          smsPendingPhoneNumber: null,
+          smsCodeHash: null,
+        }),
+      })
+    })
+
+    it('rejects a wrong code without verifying', async () => {
+      const code = await sendCode()
+      mockPrisma.users.updateMany.mockResolvedValueOnce({ count: 1 })
+      const wrong = code === '000000' ? '111111' : '000000'
+
+      await expect(confirmSmsPhoneNumber('user_1', wrong)).rejects.toThrow('incorrect')
+      expect(mockPrisma.users.update).not.toHaveBeenCalled()
+    })
+
+    it('stops accepting guesses after the attempt limit', async () => {
+      const code = await sendCode()
+      mockPrisma.users.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      await expect(confirmSmsPhoneNumber('user_1', code)).rejects.toMatchObject({ statusCode: 429 })
+      expect(mockPrisma.users.update).not.toHaveBeenCalled()
+    })
+
+    it('rejects an expired code', async () => {
+      mockPrisma.users.findUnique.mockResolvedValueOnce({
+        smsPendingPhoneNumber: '+15551234567',
+        smsCodeHash: 'a'.repeat(64),
+        smsCodeSentAt: new Date(Date.now() - 11 * 60 * 1000),
+      })
+
+      await expect(confirmSmsPhoneNumber('user_1', '123456')).rejects.toThrow('expired')
+      expect(mockPrisma.users.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addPushSubscription', () => {
+    const input = {
+      endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+      keys: { p256dh: 'BPk', auth: 'xyz' },
+    }
+
+    it('upserts by endpoint', async () => {
+      mockPrisma.user_push_subscriptions.findUnique.mockResolvedValue(null)
+      mockPrisma.user_push_subscriptions.count.mockResolvedValue(0)
+
+      await addPushSubscription('user_1', input)
+
+      expect(mockPrisma.user_push_subscriptions.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { endpoint: input.endpoint } })
+      )
+    })
+
+    it.each([
+      'https://wns2-by3p.notify.windows.com/w/?token=abc',
+      'https://web.push.apple.com/QGuQyavXutnMH',
+      'https://updates.push.services.mozilla.com/wpush/v2/gAAAA',
+    ])('accepts push service endpoint %s', async (endpoint) => {
+      mockPrisma.user_push_subscriptions.findUnique.mockResolvedValue(null)
+      mockPrisma.user_push_subscriptions.count.mockResolvedValue(0)
+
+      await expect(addPushSubscription('user_1', { ...input, endpoint })).resolves.toBeUndefined()
+    })
+
+    it.each([
+      'https://169.254.169.254/latest/meta-data',
+      'https://10.0.0.5/push',
+      'https://internal.example.com/push',
+      'https://fcm.googleapis.com.attacker.example/push',
+      'https://fcm.googleapis.com:8443/fcm/send/abc',
+      'http://fcm.googleapis.com/fcm/send/abc',
+    ])('rejects endpoint %s', async (endpoint) => {
+      await expect(addPushSubscription('user_1', { ...input, endpoint })).rejects.toThrow(/Push endpoint/)
+      expect(mockPrisma.user_push_subscriptions.upsert).not.toHaveBeenCalled()
+    })
+
+    it('enforces the per-user device limit for new endpoints', async () => {
+      mockPrisma.user_push_subscriptions.findUnique.mockResolvedValue(null)
+      mockPrisma.user_push_subscriptions.count.mockResolvedValue(10)
+
+      await expect(addPushSubscription('user_1', input)).rejects.toThrow('limit reached')
+      expect(mockPrisma.user_push_subscriptions.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('webhooks', () => {
+    it('returns a generated signing secret on create', async () => {
+      mockPrisma.user_webhooks.count.mockResolvedValue(0)
+      mockPrisma.user_webhooks.create.mockImplementation(async ({ data }: any) => ({
+        id: 'wh_1',
+        enabled: true,
+        createdAt: new Date(),
+        lastDeliveredAt: null,
+        lastError: null,
+        ...data,
+      }))
+
+      const webhook = await createWebhook('user_1', { url: 'https://hooks.example.com/ironscout' })
+
+      expect(webhook.secret).toMatch(/^whsec_/)
+      expect(mockPrisma.user_webhooks.create.mock.calls[0][0].data.secret).toBe(webhook.secret)
+    })
+
+    it('scopes deletes to the owning user', async () => {
+      mockPrisma.user_webhooks.deleteMany.mockResolvedValue({ count: 0 })
+
+      await expect(deleteWebhook('user_2', 'wh_1')).rejects.toThrow('Webhook not found')
+      expect(mockPrisma.user_webhooks.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'wh_1', userId: 'user_2' },
+      })
+    })
+  })
+})
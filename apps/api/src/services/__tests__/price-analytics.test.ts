@@ -0,0 +1,127 @@
+/**
+ * Price Analytics Tests
+ *
+ * Volatility, seasonality and the analytics read over price_history_daily
+ * rows (window, all-time low, Decimal conversion).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    price_history_daily: {
+      findMany: vi.fn(),
+    },
+  },
+}))
+
+import { prisma } from '@ironscout/db'
+import {
+  computeSeasonality,
+  computeVolatility,
+  getPriceAnalytics,
+  MIN_SEASONALITY_DAYS,
+  MIN_VOLATILITY_DAYS,
+} from '../price-analytics'
+
+const mockFindMany = prisma.price_history_daily.findMany as ReturnType<typeof vi.fn>
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+function row(iso: string, median: number, low = median - 0.02) {
+  // Prisma returns Decimal columns; strings stand in for them here
+  return {
+    day: day(iso),
+    minPpr: String(low),
+    p10Ppr: String(median - 0.01),
+    medianPpr: String(median),
+    p90Ppr: String(median + 0.01),
+    maxPpr: String(median + 0.02),
+    sampleCount: 4,
+    retailerCount: 2,
+    computedAt: new Date('2026-10-19T01:17:00Z'),
+  }
+}
+
+describe('computeVolatility', () => {
+  it('is null until enough days are observed', () => {
+    expect(computeVolatility(Array(MIN_VOLATILITY_DAYS - 1).fill(0.3))).toBeNull()
+  })
+
+  it('is zero for a flat series and grows with swings', () => {
+    const flat = computeVolatility(Array(10).fill(0.3))
+    const swinging = computeVolatility([0.3, 0.36, 0.3, 0.36, 0.3, 0.36, 0.3, 0.36])
+
+    expect(flat).toEqual({ score: 0, level: 'LOW', observedDays: 10 })
+    expect(swinging!.score).toBeGreaterThan(5)
+    expect(swinging!.level).toBe('HIGH')
+  })
+})
+
+describe('computeSeasonality', () => {
+  it('finds cheaper weekdays independent of the monthly trend', () => {
+    // Four weeks in October, then four weeks in November at a higher level;
+    // Tuesdays are always 10% cheaper than the rest of the week
+    const days = []
+    for (let i = 0; i < 56; i++) {
+      const date = new Date(day('2026-10-01').getTime() + i * 86_400_000)
+      const level = date.getUTCMonth() === 9 ? 0.3 : 0.4
+      days.push({ date, median: date.getUTCDay() === 2 ? level * 0.9 : level })
+    }
+
+    const result = computeSeasonality(days)
+    const tuesday = result.dayOfWeek!.find(b => b.label === 'Tue')!
+    const friday = result.dayOfWeek!.find(b => b.label === 'Fri')!
+
+    expect(result.observedDays).toBe(56)
+    expect(tuesday.relativeToAverage).toBeLessThan(-7)
+    expect(Math.abs(friday.relativeToAverage!)).toBeLessThan(3)
+    expect(result.month.find(b => b.label === 'Oct')!.relativeToAverage).toBeLessThan(0)
+    expect(result.month.find(b => b.label === 'Nov')!.relativeToAverage).toBeGreaterThan(0)
+    expect(result.month.find(b => b.label === 'Mar')).toMatchObject({ relativeToAverage: null, days: 0 })
+  })
+
+  it('withholds day-of-week seasonality on short histories', () => {
+    const days = Array.from({ length: MIN_SEASONALITY_DAYS - 1 }, (_, i) => ({
+      date: new Date(day('2026-10-01').getTime() + i * 86_400_000),
+      median: 0.3,
+    }))
+
+    expect(computeSeasonality(days).dayOfWeek).toBeNull()
+  })
+})
+
+describe('getPriceAnalytics', () => {
+  beforeEach(() => {
+    mockFindMany.mockReset()
+  })
+
+  it('returns the window series with all-time low and seasonality from full history', async () => {
+    mockFindMany.mockResolvedValue([
+      row('2026-01-10', 0.25, 0.21),
+      row('2026-10-17', 0.3),
+      row('2026-10-18', 0.31),
+      row('2026-10-19', 0.29),
+    ])
+
+    const analytics = await getPriceAnalytics('PRODUCT', 'prod-1', 7, new Date('2026-10-19T12:00:00Z'))
+
+    expect(mockFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { scopeType: 'PRODUCT', scopeKey: 'prod-1' },
+    }))
+    expect(analytics.series.map(s => s.date)).toEqual(['2026-10-17', '2026-10-18', '2026-10-19'])
+    expect(analytics.series[0]).toMatchObject({ medianPricePerRound: 0.3, p10PricePerRound: 0.29, sampleCount: 4 })
+    expect(analytics.allTimeLow).toEqual({ pricePerRound: 0.21, date: '2026-01-10' })
+    expect(analytics.volatility).toBeNull()
+    expect(analytics.seasonality.observedDays).toBe(4)
+    expect(analytics.computedAt).toBe('2026-10-19T01:17:00.000Z')
+  })
+
+  it('handles scopes with no rollup rows', async () => {
+    mockFindMany.mockResolvedValue([])
+
+    const analytics = await getPriceAnalytics('CALIBER', '9mm', 90)
+
+    expect(analytics).toMatchObject({ series: [], allTimeLow: null, volatility: null, computedAt: null })
+  })
+})
@@ -47,6 +47,7 @@ import {
   getSavedItemById,
   getSavedItemByProductId,
   countSavedItems,
+  updateSavedItemPrefs,
 } from '../saved-items'
 
 describe('ADR-011A: Saved Items Service', () => {
@@ -111,6 +112,9 @@ describe('ADR-011A: Saved Items Service', () => {
       minDropPercent: 10,
       minDropAmount: { toString: () => '10.00' },
       stockAlertCooldownHours: 48,
+      targetPrice: null,
+      targetPriceBasis: 'TOTAL',
+      targetIncludeShipping: false,
       createdAt: new Date(),
       updatedAt: new Date(),
       products: {
@@ -291,6 +295,90 @@ describe('ADR-011A: Saved Items Service', () => {
     })
   })
 
+  describe('updateSavedItemPrefs (target price)', () => {
+    const item = {
+      id: 'item-123',
+      userId: 'user-123',
+      productId: 'product-456',
+      deletedAt: null,
+      intentType: 'SKU',
+      notificationsEnabled: true,
+      priceDropEnabled: true,
+      backInStockEnabled: true,
+      minDropPercent: 5,
+      minDropAmount: { toString: () => '5.00' },
+      stockAlertCooldownHours: 24,
+      notificationChannels: ['EMAIL'],
+      targetPrice: { toString: () => '0.2800' },
+      targetPriceBasis: 'PER_ROUND',
+      targetIncludeShipping: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      products: {
+        id: 'product-456',
+        name: 'Test Ammo',
+        brand: 'Test Brand',
+        caliber: '9mm',
+        roundCount: 50,
+        imageUrl: null,
+        prices: [],
+      },
+    }
+
+    beforeEach(() => {
+      mockPrisma.watchlist_items.findFirst.mockResolvedValue(item)
+      mockPrisma.watchlist_items.update.mockResolvedValue(item)
+      mockPrisma.products.findUnique.mockResolvedValue({ roundCount: 50 })
+    })
+
+    it('enables the TARGET_PRICE alert when a target is set', async () => {
+      const dto = await updateSavedItemPrefs('user-123', 'product-456', {
+        targetPrice: 0.28,
+        targetPriceBasis: 'PER_ROUND',
+        targetIncludeShipping: true,
+      })
+
+      expect(mockPrisma.alerts.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_productId_ruleType: { userId: 'user-123', productId: 'product-456', ruleType: 'TARGET_PRICE' },
+          },
+          update: expect.objectContaining({ isEnabled: true }),
+        })
+      )
+      expect(dto).toMatchObject({ targetPrice: 0.28, targetPriceBasis: 'PER_ROUND', targetIncludeShipping: true })
+    })
+
+    it('disables the TARGET_PRICE alert when the target is cleared', async () => {
+      await updateSavedItemPrefs('user-123', 'product-456', { targetPrice: null })
+
+      expect(mockPrisma.alerts.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: expect.objectContaining({ isEnabled: false }) })
+      )
+    })
+
+    it('leaves the alert alone when the target is not part of the update', async () => {
+      await updateSavedItemPrefs('user-123', 'product-456', { priceDropEnabled: false })
+
+      expect(mockPrisma.alerts.upsert).not.toHaveBeenCalled()
+    })
+
+    it('rejects per-round targets for products without a round count', async () => {
+      mockPrisma.products.findUnique.mockResolvedValue({ roundCount: null })
+
+      await expect(
+        updateSavedItemPrefs('user-123', 'product-456', { targetPrice: 0.28, targetPriceBasis: 'PER_ROUND' })
+      ).rejects.toThrow('round count must be known')
+      expect(mockPrisma.watchlist_items.update).not.toHaveBeenCalled()
+    })
+
+    it('rejects non-positive targets', async () => {
+      await expect(updateSavedItemPrefs('user-123', 'product-456', { targetPrice: 0 })).rejects.toThrow(
+        'targetPrice must be greater than 0'
+      )
+    })
+  })
+
   describe('deletedAt filter enforcement', () => {
     describe('getSavedItems', () => {
       it('includes deletedAt: null in query', async () => {
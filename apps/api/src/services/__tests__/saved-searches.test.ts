@@ -0,0 +1,160 @@
+/**
+ * Saved Searches Service Tests
+ *
+ * Snapshot normalization/validation, filter hashing for uniqueness and
+ * baseline seeding of current matches when a search is saved.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// vi.mock must use inline factory - cannot reference external variables
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    watchlist_items: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    watchlist_search_matches: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('../watchlist-item', () => ({
+  watchlistItemResolver: {
+    resolve: vi.fn(),
+    resolveMany: vi.fn(),
+  },
+}))
+
+import { prisma } from '@ironscout/db'
+import { watchlistItemResolver } from '../watchlist-item'
+const mockPrisma = prisma as any
+const mockResolver = watchlistItemResolver as any
+
+import {
+  buildSnapshot,
+  hashSnapshotFilters,
+  saveSearch,
+  deleteSavedSearch,
+} from '../saved-searches'
+
+const searchItem = {
+  id: 'search-1',
+  userId: 'user-1',
+  querySnapshot: { version: 1, filters: { caliber: ['9mm'] } },
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+  deletedAt: null,
+  notificationsEnabled: true,
+  notificationChannels: ['EMAIL'],
+}
+
+describe('Saved Searches Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation(async (fn: any) => fn(mockPrisma))
+  })
+
+  describe('buildSnapshot', () => {
+    it('normalizes lists so equal queries hash equally', () => {
+      const a = buildSnapshot({ filters: { caliber: [' 9mm ', '.380 ACP', '9mm'], bulletType: ['JHP', 'FMJ'] } })
+      const b = buildSnapshot({ filters: { caliber: ['.380 ACP', '9mm'], bulletType: ['FMJ', 'JHP'] } })
+
+      expect(a.filters).toEqual({ caliber: ['.380 ACP', '9mm'], bulletType: ['FMJ', 'JHP'] })
+      expect(hashSnapshotFilters(a.filters!)).toBe(hashSnapshotFilters(b.filters!))
+    })
+
+    it('keeps replay fields out of the hash', () => {
+      const a = buildSnapshot({ filters: { caliber: ['9mm'] }, lensId: 'RANGE', searchText: 'cheap 9mm' })
+      const b = buildSnapshot({ filters: { caliber: ['9mm'] } })
+
+      expect(a.lensId).toBe('RANGE')
+      expect(hashSnapshotFilters(a.filters!)).toBe(hashSnapshotFilters(b.filters!))
+    })
+
+    it('requires a caliber', () => {
+      expect(() => buildSnapshot({ filters: { caliber: [' '] } })).toThrow('caliber must be included')
+    })
+
+    it('rejects inverted ranges and unknown lenses', () => {
+      expect(() => buildSnapshot({ filters: { caliber: ['9mm'], grainRange: { min: 147, max: 115 } } })).toThrow(
+        'grainRange min must be at most max'
+      )
+      expect(() => buildSnapshot({ filters: { caliber: ['9mm'] }, lensId: 'BULK' })).toThrow('lensId must be a valid lens')
+      expect(() => buildSnapshot({ filters: { caliber: ['9mm'] }, lensId: 'user:' })).toThrow('lensId must be a valid lens')
+    })
+
+    it('keeps custom lens ids', () => {
+      expect(buildSnapshot({ filters: { caliber: ['9mm'] }, lensId: 'user:abc123' }).lensId).toBe('user:abc123')
+    })
+  })
+
+  describe('saveSearch', () => {
+    it('creates the item and records current matches as the alert baseline', async () => {
+      mockPrisma.watchlist_items.findFirst.mockResolvedValue(null)
+      mockPrisma.watchlist_items.create.mockResolvedValue(searchItem)
+      mockResolver.resolve.mockResolvedValue({ productIds: ['prod-1', 'prod-2'], resolvedAt: new Date() })
+
+      const dto = await saveSearch('user-1', { filters: { caliber: ['9mm'] } })
+
+      expect(mockPrisma.watchlist_items.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          productId: null,
+          intentType: 'SEARCH',
+          querySnapshotHash: hashSnapshotFilters({ caliber: ['9mm'] }),
+        }),
+      })
+      expect(mockPrisma.watchlist_search_matches.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ watchlistItemId: 'search-1', productId: 'prod-1' }),
+          expect.objectContaining({ watchlistItemId: 'search-1', productId: 'prod-2' }),
+        ],
+        skipDuplicates: true,
+      })
+      expect(dto.matchCount).toBe(2)
+    })
+
+    it('is idempotent for an active search with the same filters', async () => {
+      mockPrisma.watchlist_items.findFirst.mockResolvedValue(searchItem)
+      mockPrisma.watchlist_items.update.mockResolvedValue(searchItem)
+      mockResolver.resolve.mockResolvedValue({ productIds: ['prod-1'], resolvedAt: new Date() })
+
+      await saveSearch('user-1', { filters: { caliber: ['9mm'] }, lensId: 'RANGE' })
+
+      expect(mockPrisma.watchlist_items.create).not.toHaveBeenCalled()
+      expect(mockPrisma.watchlist_search_matches.deleteMany).not.toHaveBeenCalled()
+      expect(mockPrisma.watchlist_search_matches.createMany).not.toHaveBeenCalled()
+    })
+
+    it('re-baselines a resurrected search', async () => {
+      mockPrisma.watchlist_items.findFirst.mockResolvedValue({ ...searchItem, deletedAt: new Date() })
+      mockPrisma.watchlist_items.update.mockResolvedValue(searchItem)
+      mockResolver.resolve.mockResolvedValue({ productIds: ['prod-3'], resolvedAt: new Date() })
+
+      await saveSearch('user-1', { filters: { caliber: ['9mm'] } })
+
+      expect(mockPrisma.watchlist_search_matches.deleteMany).toHaveBeenCalledWith({
+        where: { watchlistItemId: 'search-1' },
+      })
+      expect(mockPrisma.watchlist_search_matches.createMany).toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteSavedSearch', () => {
+    it('scopes deletes to the owner and SEARCH intent', async () => {
+      mockPrisma.watchlist_items.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(deleteSavedSearch('user-2', 'search-1')).rejects.toThrow('Item not found')
+      expect(mockPrisma.watchlist_items.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'search-1', userId: 'user-2', intentType: 'SEARCH', deletedAt: null },
+        })
+      )
+    })
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Source Extraction Rules Service Tests
+ *
+ * Version numbering on save, rollback to an earlier version, per-version
+ * execution stats and the no-write preview.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// vi.mock must use inline factory - cannot reference external variables
+vi.mock('@ironscout/db', () => ({
+  Prisma: { DbNull: 'DbNull' },
+  prisma: {
+    $transaction: vi.fn(),
+    sources: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    source_extraction_rule_versions: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    executions: {
+      groupBy: vi.fn(),
+    },
+  },
+}))
+
+import { prisma } from '@ironscout/db'
+const mockPrisma = prisma as any
+
+import {
+  getSourceExtractionRules,
+  saveSourceExtractionRules,
+  rollbackSourceExtractionRules,
+  previewExtractionRules,
+} from '../source-extraction-rules'
+
+const RULES = {
+  selectorType: 'CSS',
+  item: 'li.product',
+  fields: { title: 'a', price: '.price' },
+}
+
+const NORMALIZED = {
+  selectorType: 'CSS',
+  item: 'li.product',
+  fields: { title: { selector: 'a' }, price: { selector: '.price' } },
+  currency: 'USD',
+}
+
+const source = {
+  id: 'src-1',
+  type: 'HTML',
+  url: 'https://shop.example.com/9mm',
+  extractionRules: NORMALIZED,
+  extractionRulesVersionId: 'ver-2',
+}
+
+function version(n: number) {
+  return {
+    id: `ver-${n}`,
+    sourceId: 'src-1',
+    version: n,
+    rules: NORMALIZED,
+    summary: `change ${n}`,
+    createdAt: new Date(`2026-10-0${n}T00:00:00Z`),
+    createdBy: 'admin@example.com',
+  }
+}
+
+describe('Source Extraction Rules Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation(async (fn: any) => fn(mockPrisma))
+    mockPrisma.sources.findUnique.mockResolvedValue(source)
+    mockPrisma.source_extraction_rule_versions.findMany.mockResolvedValue([version(2), version(1)])
+    mockPrisma.executions.groupBy.mockResolvedValue([])
+  })
+
+  describe('getSourceExtractionRules', () => {
+    it('marks the active version and rolls up executions per version', async () => {
+      mockPrisma.executions.groupBy.mockResolvedValue([
+        { extractionRulesVersionId: 'ver-1', status: 'SUCCESS', _count: { _all: 4 }, _max: { startedAt: new Date('2026-10-02T06:00:00Z') } },
+        { extractionRulesVersionId: 'ver-1', status: 'FAILED', _count: { _all: 1 }, _max: { startedAt: new Date('2026-10-03T06:00:00Z') } },
+        { extractionRulesVersionId: 'ver-2', status: 'RUNNING', _count: { _all: 1 }, _max: { startedAt: new Date('2026-10-04T06:00:00Z') } },
+      ])
+
+      const result = await getSourceExtractionRules('src-1')
+
+      expect(result.activeVersionId).toBe('ver-2')
+      expect(result.versions.map(v => [v.version, v.isActive])).toEqual([
+        [2, true],
+        [1, false],
+      ])
+      expect(result.versions[1].executions).toEqual({
+        total: 5,
+        success: 4,
+        failed: 1,
+        lastStartedAt: '2026-10-03T06:00:00.000Z',
+      })
+      expect(result.versions[0].executions).toMatchObject({ total: 1, success: 0, failed: 0 })
+    })
+
+    it('throws when the source does not exist', async () => {
+      mockPrisma.sources.findUnique.mockResolvedValue(null)
+      await expect(getSourceExtractionRules('missing')).rejects.toThrow('Source not found')
+    })
+  })
+
+  describe('saveSourceExtractionRules', () => {
+    it('stores normalized rules as the next version and activates it', async () => {
+      mockPrisma.source_extraction_rule_versions.findFirst.mockResolvedValue({ version: 2 })
+      mockPrisma.source_extraction_rule_versions.create.mockResolvedValue({ id: 'ver-3' })
+
+      const saved = await saveSourceExtractionRules('src-1', { rules: RULES, summary: 'tighten price' }, 'admin@example.com')
+
+      expect(saved.ok).toBe(true)
+      expect(mockPrisma.source_extraction_rule_versions.create).toHaveBeenCalledWith({
+        data: {
+          sourceId: 'src-1',
+          version: 3,
+          rules: NORMALIZED,
+          summary: 'tighten price',
+          createdBy: 'admin@example.com',
+        },
+      })
+      expect(mockPrisma.sources.update).toHaveBeenCalledWith({
+        where: { id: 'src-1' },
+        data: { extractionRules: NORMALIZED, extractionRulesVersionId: 'ver-3' },
+      })
+    })
+
+    it('versions clearing the rules as a JSON null', async () => {
+      mockPrisma.source_extraction_rule_versions.findFirst.mockResolvedValue(null)
+      mockPrisma.source_extraction_rule_versions.create.mockResolvedValue({ id: 'ver-1' })
+
+      await saveSourceExtractionRules('src-1', { rules: null, summary: 'back to generic' }, 'admin-api-key')
+
+      expect(mockPrisma.source_extraction_rule_versions.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 1, rules: 'DbNull' }),
+      })
+      expect(mockPrisma.sources.update).toHaveBeenCalledWith({
+        where: { id: 'src-1' },
+        data: { extractionRules: 'DbNull', extractionRulesVersionId: 'ver-1' },
+      })
+    })
+
+    it('returns validation errors without writing', async () => {
+      const saved = await saveSourceExtractionRules(
+        'src-1',
+        { rules: { selectorType: 'JSONPATH', item: '$.items', fields: { title: '$.t', price: '$.p' } }, summary: 'x' },
+        'admin-api-key'
+      )
+
+      expect(saved).toEqual({ ok: false, errors: ['HTML sources use CSS or XPATH rules'] })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rollbackSourceExtractionRules', () => {
+    it('re-activates the earlier version without creating a new one', async () => {
+      mockPrisma.source_extraction_rule_versions.findUnique.mockResolvedValue({
+        ...version(1),
+        sources: { type: 'HTML' },
+      })
+
+      const result = await rollbackSourceExtractionRules('src-1', 1)
+
+      expect(result.ok).toBe(true)
+      expect(mockPrisma.source_extraction_rule_versions.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sourceId_version: { sourceId: 'src-1', version: 1 } } })
+      )
+      expect(mockPrisma.sources.update).toHaveBeenCalledWith({
+        where: { id: 'src-1' },
+        data: { extractionRules: NORMALIZED, extractionRulesVersionId: 'ver-1' },
+      })
+      expect(mockPrisma.source_extraction_rule_versions.create).not.toHaveBeenCalled()
+    })
+
+    it('refuses a version that no longer fits the source type', async () => {
+      mockPrisma.source_extraction_rule_versions.findUnique.mockResolvedValue({
+        ...version(1),
+        sources: { type: 'JSON' },
+      })
+
+      const result = await rollbackSourceExtractionRules('src-1', 1)
+
+      expect(result).toEqual({ ok: false, errors: ['JSON sources use JSONPATH rules'] })
+      expect(mockPrisma.sources.update).not.toHaveBeenCalled()
+    })
+
+    it('throws when the version does not exist', async () => {
+      mockPrisma.source_extraction_rule_versions.findUnique.mockResolvedValue(null)
+      await expect(rollbackSourceExtractionRules('src-1', 9)).rejects.toThrow('Version not found')
+    })
+  })
+
+  describe('previewExtractionRules', () => {
+    it('extracts records from the sample page', () => {
+      const result = previewExtractionRules({
+        sourceType: 'HTML',
+        rules: RULES,
+        sample: '<ul><li class="product"><a>PMC Bronze 9mm</a><span class="price">$15.99</span></li></ul>',
+        pageUrl: 'https://shop.example.com/9mm',
+      })
+
+      expect(result).toEqual({
+        ok: true,
+        nextPage: null,
+        records: [
+          expect.objectContaining({ title: 'PMC Bronze 9mm', price: 15.99, url: 'https://shop.example.com/9mm', missing: [] }),
+        ],
+      })
+    })
+
+    it('reports a JSON sample that does not parse', () => {
+      const result = previewExtractionRules({
+        sourceType: 'JSON',
+        rules: { selectorType: 'JSONPATH', item: '$.items', fields: { title: '$.t', price: '$.p' } },
+        sample: '<html>',
+      })
+
+      expect(result).toEqual({ ok: false, errors: [expect.stringMatching(/^Could not parse sample:/)] })
+    })
+  })
+})
@@ -300,6 +300,13 @@ export async function finalizeAccountDeletion(userId: string): Promise<{ success
     // Note: firearm_ammo_preferences already soft-deleted above with delete_reason
     await tx.user_guns.deleteMany({ where: { userId } })
 
+    // 3b. Delete alert channel destinations (push subscriptions, webhooks)
+    await tx.user_push_subscriptions.deleteMany({ where: { userId } })
+    await tx.user_webhooks.deleteMany({ where: { userId } })
+
+    // 3c. Delete custom search lenses
+    await tx.user_lenses.deleteMany({ where: { userId } })
+
     // 4. Anonymize product reports (keep for data integrity)
     await tx.product_reports.updateMany({
       where: { userId },
@@ -321,6 +328,12 @@ export async function finalizeAccountDeletion(userId: string): Promise<{ success
         image: null,
         password: null,
         emailVerified: null,
+        smsPhoneNumber: null,
+        smsOptInAt: null,
+        smsVerifiedAt: null,
+        smsPendingPhoneNumber: null,
+        smsCodeHash: null,
+        shipToState: null,
         status: 'DELETED',
         tier: 'FREE',
         deletionRequestedAt: null,
@@ -0,0 +1,79 @@
+/**
+ * Hybrid Retrieval Tests
+ *
+ * Reciprocal rank fusion and the lexical query builder. The SQL itself
+ * runs against Postgres (pg_trgm, full-text) and is not exercised here.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {},
+}))
+
+import {
+  fuseWithRrf,
+  tokenizeLexicalQuery,
+  buildLexicalTsQuery,
+  RRF_K,
+} from '../hybrid-search'
+
+const ranked = (...ids: string[]) => ids.map((id, i) => ({ id, score: 1 - i * 0.1 }))
+
+describe('fuseWithRrf', () => {
+  it('ranks candidates found by both retrievers first', () => {
+    const fused = fuseWithRrf(ranked('a', 'b', 'c'), ranked('c', 'd', 'b'))
+
+    expect(fused.map(c => c.id)).toEqual(['c', 'b', 'a', 'd'])
+    expect(fused[0]).toMatchObject({
+      lexicalRank: 3,
+      lexicalScore: 0.8,
+      vectorRank: 1,
+      vectorSimilarity: 1,
+    })
+    expect(fused[0].rrfScore).toBeCloseTo(1 / (RRF_K + 3) + 1 / (RRF_K + 1), 10)
+  })
+
+  it('records which retriever contributed', () => {
+    const fused = fuseWithRrf(ranked('a'), ranked('b'))
+    const a = fused.find(c => c.id === 'a')!
+    const b = fused.find(c => c.id === 'b')!
+
+    expect(a).toMatchObject({ vectorRank: null, vectorSimilarity: null })
+    expect(b).toMatchObject({ lexicalRank: null, lexicalScore: null })
+  })
+
+  it('breaks ties deterministically on best rank, then id', () => {
+    // Same rank in different lists: equal scores and equal best rank
+    expect(fuseWithRrf(ranked('b'), ranked('a')).map(c => c.id)).toEqual(['a', 'b'])
+  })
+
+  it('scales relevance to the best score possible from the lists present', () => {
+    expect(fuseWithRrf(ranked('a', 'b'), ranked('a'))[0].relevance).toBeCloseTo(1, 10)
+    // Lexical only: rank 1 is still fully relevant
+    expect(fuseWithRrf(ranked('a', 'b'), [])[0].relevance).toBeCloseTo(1, 10)
+    expect(fuseWithRrf([], [])).toEqual([])
+  })
+
+  it('counts a duplicate id once per list', () => {
+    const [a] = fuseWithRrf(ranked('a', 'a'), [])
+    expect(a.rrfScore).toBeCloseTo(1 / (RRF_K + 1), 10)
+  })
+})
+
+describe('lexical query', () => {
+  it('tokenizes product terms and keeps decimal calibers', () => {
+    expect(tokenizeLexicalQuery('Hornday Critical-Defence 9mm, .223 / 5.56!')).toEqual([
+      'hornday', 'critical', 'defence', '9mm', '223', '5.56',
+    ])
+  })
+
+  it('drops single letters and duplicates', () => {
+    expect(tokenizeLexicalQuery('a 9 mm 9 MM')).toEqual(['9', 'mm'])
+  })
+
+  it('matches any token by prefix', () => {
+    expect(buildLexicalTsQuery('fed hst 124')).toBe("'fed':* | 'hst':* | '124':*")
+    expect(buildLexicalTsQuery("' & !")).toBeNull()
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Rule-Based Intent Parser Tests
+ *
+ * The rule-based parser is the intent backend when OpenAI is not selected
+ * or configured (dev, CI, on-prem). It must be deterministic and cover the
+ * basic fields plus premium context without any network call.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+// The provider is chosen at import; keep a developer's key out of the test
+vi.hoisted(() => {
+  delete process.env.OPENAI_API_KEY
+  delete process.env.INTENT_PROVIDER
+})
+
+vi.mock('../cache', () => ({
+  getCachedIntent: vi.fn().mockResolvedValue(null),
+  cacheIntent: vi.fn(),
+}))
+
+import {
+  parseIntentWithRules,
+  parseSearchIntent,
+  resolveIntentProviderName,
+  getIntentParserModelId,
+  RULE_INTENT_PARSER_MODEL,
+} from '../intent-parser'
+
+describe('resolveIntentProviderName', () => {
+  it('defaults to openai with an API key and rules without one', () => {
+    expect(resolveIntentProviderName({ OPENAI_API_KEY: 'sk-test' })).toBe('openai')
+    expect(resolveIntentProviderName({})).toBe('rules')
+  })
+
+  it('honors INTENT_PROVIDER and ignores unknown values', () => {
+    expect(resolveIntentProviderName({ INTENT_PROVIDER: 'Rules', OPENAI_API_KEY: 'sk-test' })).toBe('rules')
+    expect(resolveIntentProviderName({ INTENT_PROVIDER: 'llama' })).toBe('rules')
+  })
+})
+
+describe('parseIntentWithRules', () => {
+  it('extracts the basic fields', () => {
+    const intent = parseIntentWithRules('Federal 9mm 124gr hollow point for home defense in stock under $30')
+
+    expect(intent.calibers?.length).toBeGreaterThan(0)
+    expect(intent).toMatchObject({
+      purpose: 'Defense',
+      brands: ['Federal'],
+      grainWeights: [124],
+      inStockOnly: true,
+      maxPrice: 30,
+    })
+    expect(intent.confidence).toBeGreaterThan(0.7)
+    expect(intent.premiumIntent).toBeUndefined()
+  })
+
+  it('ignores per-round prices', () => {
+    expect(parseIntentWithRules('9mm under $0.30 per round').maxPrice).toBeUndefined()
+    expect(parseIntentWithRules('9mm over $15').minPrice).toBe(15)
+  })
+
+  it('falls back to keywords with low confidence for unrecognized queries', () => {
+    expect(parseIntentWithRules('something for my cousin')).toEqual({
+      originalQuery: 'something for my cousin',
+      keywords: ['something', 'for', 'cousin'],
+      confidence: 0.3,
+    })
+  })
+
+  it('infers premium context for PREMIUM users', () => {
+    const intent = parseIntentWithRules('9mm hollow point for apartment home defense, compact pistol', {
+      userTier: 'PREMIUM',
+    })
+
+    expect(intent.premiumIntent).toMatchObject({
+      environment: 'indoor',
+      barrelLength: 'short',
+      safetyConstraints: ['low-overpenetration', 'low-flash'],
+      preferredBulletTypes: ['JHP', 'BJHP', 'HST', 'GDHP', 'XTP'],
+      rankingBoosts: { shortBarrelOptimized: 0.8, lowFlash: 0.7, controlledExpansion: 0.8 },
+    })
+    expect(intent.premiumIntent?.explanation).toMatch(/^For defensive use/)
+  })
+
+  it('flags suppressor use from subsonic or suppressed', () => {
+    const intent = parseIntentWithRules('.300 blackout subsonic for suppressed sbr', { userTier: 'PREMIUM' })
+
+    expect(intent.premiumIntent?.suppressorUse).toBe(true)
+    expect(intent.premiumIntent?.rankingBoosts?.suppressorSafe).toBe(0.9)
+  })
+
+  it('is deterministic', () => {
+    const query = 'cheap bulk 5.56 brass for the range'
+    expect(parseIntentWithRules(query, { userTier: 'PREMIUM' })).toEqual(
+      parseIntentWithRules(query, { userTier: 'PREMIUM' })
+    )
+  })
+})
+
+describe('parseSearchIntent without OpenAI', () => {
+  it('uses the rule-based parser and reports its model id', async () => {
+    const query = '.223 match grade long range'
+
+    expect(getIntentParserModelId()).toBe(RULE_INTENT_PARSER_MODEL)
+    expect(await parseSearchIntent(query, { userTier: 'PREMIUM' })).toEqual(
+      parseIntentWithRules(query, { userTier: 'PREMIUM' })
+    )
+  })
+})
@@ -22,6 +22,8 @@ vi.mock('@ironscout/db', () => ({
       count: vi.fn().mockResolvedValue(0),
     },
     $queryRawUnsafe: vi.fn().mockResolvedValue([]),
+    $executeRawUnsafe: vi.fn(),
+    $transaction: vi.fn().mockResolvedValue([0, []]),
     $disconnect: vi.fn(),
   },
   Prisma: {
@@ -45,6 +47,8 @@ vi.mock('../intent-parser', async (importOriginal) => {
 
 vi.mock('../embedding-service', () => ({
   generateEmbedding: vi.fn().mockResolvedValue(new Array(1536).fill(0)),
+  getEmbeddingModelId: vi.fn().mockReturnValue('text-embedding-3-small'),
+  isEmbeddingServiceAvailable: vi.fn().mockReturnValue(true),
   buildProductText: vi.fn().mockReturnValue('test'),
 }))
 
@@ -99,7 +103,9 @@ vi.mock('../cache', () => ({
   cacheEmbedding: vi.fn().mockResolvedValue(undefined),
 }))
 
-import { _testExports, ExplicitFilters } from '../search-service'
+import { prisma } from '@ironscout/db'
+import { batchGetPricesViaProductLinks } from '../price-resolver'
+import { _testExports, aiSearch, ExplicitFilters } from '../search-service'
 import { SearchIntent } from '../intent-parser'
 
 const {
@@ -948,6 +954,47 @@ describe('formatProduct', () => {
     })
   })
 
+  describe('Shipping restrictions', () => {
+    const shipTo = {
+      state: 'CA',
+      restrictions: new Map<string, any>([
+        ['blocked', 'NO_SHIP'],
+        ['ffl', 'FFL_REQUIRED'],
+      ]),
+    }
+
+    function createRestrictedProduct(): any {
+      const [offer] = createProduct().prices
+      return createProduct({
+        prices: ['open', 'blocked', 'ffl'].map((retailerId) => ({
+          ...offer,
+          id: `price-${retailerId}`,
+          retailerId,
+        })),
+      })
+    }
+
+    it('should leave out offers that cannot ship in HIDE mode', () => {
+      const formatted = formatProduct(createRestrictedProduct(), false, undefined, shipTo, 'HIDE')
+
+      expect(formatted.prices.map((p: any) => p.id)).toEqual(['price-open', 'price-ffl'])
+      expect(formatted.prices.map((p: any) => p.shippingRestriction)).toEqual([null, 'FFL_REQUIRED'])
+    })
+
+    it('should keep restricted offers with reason codes in FLAG mode', () => {
+      const formatted = formatProduct(createRestrictedProduct(), false, undefined, shipTo, 'FLAG')
+
+      expect(formatted.prices.map((p: any) => p.shippingRestriction)).toEqual([null, 'NO_SHIP', 'FFL_REQUIRED'])
+    })
+
+    it('should omit reason codes without a ship-to state', () => {
+      const formatted = formatProduct(createRestrictedProduct(), false)
+
+      expect(formatted.prices).toHaveLength(3)
+      expect(formatted.prices[0]).not.toHaveProperty('shippingRestriction')
+    })
+  })
+
   describe('Price context tier enforcement', () => {
     it('should include only contextBand for FREE tier', () => {
       const product = createProduct({
@@ -1191,3 +1238,45 @@ describe('Real-World Query Scenarios', () => {
     })
   })
 })
+
+// =============================================
+// Hybrid retrieval paging
+// =============================================
+
+describe('aiSearch hybrid retrieval', () => {
+  const candidateIds = Array.from({ length: 30 }, (_, i) => `prod-${i}`)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([])
+    vi.mocked(prisma.products.findMany).mockImplementation((async (args: any) =>
+      (args?.where?.id?.in ?? []).map((id: string) => createProduct({ id, prices: undefined }))) as any)
+    vi.mocked(batchGetPricesViaProductLinks).mockImplementation((async (ids: string[]) =>
+      new Map(ids.map((id) => [id, createProduct().prices]))) as any)
+  })
+
+  it('takes the total from the fused candidate set on every page', async () => {
+    vi.mocked(prisma.$transaction).mockResolvedValue([
+      0,
+      candidateIds.map((id, i) => ({ id, score: 1 - i / 100 })),
+    ] as any)
+
+    for (const page of [1, 2, 3]) {
+      const result = await aiSearch('federal 9mm', { page, limit: 5, debug: true })
+
+      expect(result.pagination.total).toBe(candidateIds.length)
+      expect(result.searchMetadata.retrieval?.mode).toBe('lexical')
+    }
+    expect(prisma.products.count).not.toHaveBeenCalled()
+  })
+
+  it('serves a query without candidates from standard search', async () => {
+    vi.mocked(prisma.$transaction).mockResolvedValue([0, []] as any)
+    vi.mocked(prisma.products.count).mockResolvedValue(12)
+
+    const result = await aiSearch('zzzz', { page: 2, limit: 5, debug: true })
+
+    expect(result.searchMetadata.retrieval?.mode).toBe('standard')
+    expect(result.pagination.total).toBe(12)
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Suggestion Index Loader Tests
+ *
+ * Version-checked reloads of the Redis-published autocomplete index:
+ * at most one Redis check per interval, reload only on a new version,
+ * and the last index kept when Redis fails.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { redisGet } = vi.hoisted(() => ({ redisGet: vi.fn() }))
+
+vi.mock('../../../config/redis', () => ({
+  getRedisClient: () => ({ get: redisGet }),
+}))
+
+vi.mock('../../../config/logger', () => ({
+  loggers: { ai: { info: vi.fn(), warn: vi.fn(), debug: vi.fn() } },
+}))
+
+import {
+  SUGGESTION_INDEX_KEY,
+  SUGGESTION_INDEX_VERSION_KEY,
+} from '@ironscout/db/search-suggestions.js'
+import { getSuggestionMatcher, resetSuggestionIndex, SUGGESTION_INDEX_CHECK_MS } from '../suggestion-index'
+
+function publish(version: string, texts: string[]) {
+  const index = {
+    version,
+    builtAt: version,
+    entries: texts.map(text => ({ text, kind: 'BRAND', weight: 1, terms: text.toLowerCase().split(' ') })),
+  }
+  redisGet.mockImplementation(async (key: string) => {
+    if (key === SUGGESTION_INDEX_VERSION_KEY) return version
+    if (key === SUGGESTION_INDEX_KEY) return JSON.stringify(index)
+    return null
+  })
+}
+
+describe('getSuggestionMatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    resetSuggestionIndex()
+    redisGet.mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns null when no index is published', async () => {
+    redisGet.mockResolvedValue(null)
+
+    expect(await getSuggestionMatcher()).toBeNull()
+  })
+
+  it('loads the index once and checks the version at most once per interval', async () => {
+    publish('v1', ['Federal'])
+
+    const first = await getSuggestionMatcher()
+    const second = await getSuggestionMatcher()
+
+    expect(first?.match('fed')).toEqual([{ text: 'Federal', kind: 'BRAND' }])
+    expect(second).toBe(first)
+    expect(redisGet).toHaveBeenCalledTimes(2)
+  })
+
+  it('reloads when the published version changes', async () => {
+    publish('v1', ['Federal'])
+    await getSuggestionMatcher()
+
+    publish('v2', ['Fiocchi'])
+    vi.advanceTimersByTime(SUGGESTION_INDEX_CHECK_MS + 1)
+    // The loaded index is served while the new one is fetched
+    expect((await getSuggestionMatcher())?.version).toBe('v1')
+    await vi.waitFor(async () => {
+      expect((await getSuggestionMatcher())?.version).toBe('v2')
+    })
+  })
+
+  it('keeps the last index when Redis fails', async () => {
+    publish('v1', ['Federal'])
+    await getSuggestionMatcher()
+
+    redisGet.mockRejectedValue(new Error('ECONNREFUSED'))
+    vi.advanceTimersByTime(SUGGESTION_INDEX_CHECK_MS + 1)
+
+    expect((await getSuggestionMatcher())?.version).toBe('v1')
+  })
+})
@@ -1,42 +1,13 @@
 /**
  * Domain knowledge for ammunition
  * Used by the AI intent parser to understand user queries
+ *
+ * Caliber aliases, platform mappings and grain ranges come from the shared
+ * caliber taxonomy (@ironscout/db/caliber-taxonomy.js, edited in admin).
  */
 
-// Common platform-to-caliber mappings
-export const PLATFORM_CALIBER_MAP: Record<string, string[]> = {
-  // Rifles
-  'ar15': ['.223 Remington', '5.56 NATO', '.223/5.56'],
-  'ar-15': ['.223 Remington', '5.56 NATO', '.223/5.56'],
-  'ar10': ['.308 Winchester', '7.62 NATO', '.308/7.62'],
-  'ar-10': ['.308 Winchester', '7.62 NATO', '.308/7.62'],
-  'ak47': ['7.62x39mm'],
-  'ak-47': ['7.62x39mm'],
-  'ak74': ['5.45x39mm'],
-  'ak-74': ['5.45x39mm'],
-  'mini-14': ['.223 Remington', '5.56 NATO'],
-  'sks': ['7.62x39mm'],
-  'm1 garand': ['.30-06 Springfield'],
-  'm1a': ['.308 Winchester', '7.62 NATO'],
-  'mosin nagant': ['7.62x54R'],
-  
-  // Handguns
-  'glock 19': ['9mm Luger'],
-  'glock 17': ['9mm Luger'],
-  'glock 43': ['9mm Luger'],
-  '1911': ['.45 ACP'],
-  'beretta 92': ['9mm Luger'],
-  'sig p365': ['9mm Luger'],
-  'sig p320': ['9mm Luger'],
-  'smith & wesson shield': ['9mm Luger', '.40 S&W'],
-  'revolver': ['.38 Special', '.357 Magnum', '.44 Magnum'],
-  
-  // Shotguns
-  'shotgun': ['12 Gauge', '20 Gauge'],
-  'mossberg 500': ['12 Gauge', '20 Gauge'],
-  'remington 870': ['12 Gauge', '20 Gauge'],
-  'benelli m4': ['12 Gauge'],
-}
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
 
 // Purpose/use-case mappings with synonyms
 export const PURPOSE_SYNONYMS: Record<string, string> = {
@@ -72,31 +43,6 @@ export const PURPOSE_SYNONYMS: Record<string, string> = {
   'game': 'Hunting',
 }
 
-// Caliber aliases and normalizations
-export const CALIBER_ALIASES: Record<string, string[]> = {
-  '9mm': ['9mm Luger', '9mm', '9x19mm', '9mm Parabellum'],
-  '9mm luger': ['9mm Luger', '9mm', '9x19mm'],
-  '.223': ['.223 Remington', '.223/5.56', '5.56 NATO'],
-  '5.56': ['5.56 NATO', '.223/5.56', '.223 Remington'],
-  '.308': ['.308 Winchester', '.308/7.62', '7.62 NATO'],
-  '7.62': ['7.62 NATO', '.308/7.62', '.308 Winchester', '7.62x39mm', '7.62x51mm'],
-  '.45': ['.45 ACP', '.45 Auto'],
-  '.45 acp': ['.45 ACP', '.45 Auto'],
-  '.40': ['.40 S&W'],
-  '.40 s&w': ['.40 S&W'],
-  '.380': ['.380 ACP', '.380 Auto'],
-  '12ga': ['12 Gauge'],
-  '12 gauge': ['12 Gauge'],
-  '20ga': ['20 Gauge'],
-  '20 gauge': ['20 Gauge'],
-  '.22': ['.22 LR', '.22 Long Rifle'],
-  '.22lr': ['.22 LR', '.22 Long Rifle'],
-  '.30-06': ['.30-06 Springfield'],
-  '6.5 creedmoor': ['6.5 Creedmoor'],
-  '.300 blackout': ['.300 AAC Blackout', '.300 BLK'],
-  '.300 blk': ['.300 AAC Blackout', '.300 BLK'],
-}
-
 // Range preferences - maps to grain weight recommendations
 export const RANGE_GRAIN_PREFERENCES: Record<string, { weight: 'light' | 'medium' | 'heavy', reason: string }> = {
   'long range': { weight: 'heavy', reason: 'Heavier bullets maintain velocity and resist wind better at distance' },
@@ -108,15 +54,6 @@ export const RANGE_GRAIN_PREFERENCES: Record<string, { weight: 'light' | 'medium
   'cqb': { weight: 'light', reason: 'Lighter bullets for faster target acquisition' },
 }
 
-// Grain weight ranges by caliber
-export const CALIBER_GRAIN_RANGES: Record<string, { light: number[], medium: number[], heavy: number[] }> = {
-  '9mm': { light: [115], medium: [124], heavy: [147] },
-  '.223/5.56': { light: [55], medium: [62, 64], heavy: [69, 77] },
-  '.308/7.62': { light: [147, 150], medium: [165, 168], heavy: [175, 180] },
-  '.45 ACP': { light: [185], medium: [200], heavy: [230] },
-  '.40 S&W': { light: [155], medium: [165], heavy: [180] },
-}
-
 // Quality indicators in product names
 export const QUALITY_INDICATORS = {
   matchGrade: ['match', 'sierra', 'matchking', 'smk', 'gold medal', 'berger', 'lapua', 'hornady match', 'eld-m', 'nosler', 'bthp'],
@@ -183,14 +120,7 @@ export const CASE_MATERIAL_BY_PURPOSE: Record<string, string[]> = {
  * Get recommended grain weights for a caliber and purpose
  */
 export function getRecommendedGrains(caliber: string, purpose: string, range?: string): number[] {
-  const normalizedCaliber = Object.keys(CALIBER_GRAIN_RANGES).find(c => 
-    caliber.toLowerCase().includes(c.toLowerCase()) ||
-    c.toLowerCase().includes(caliber.toLowerCase())
-  )
-  
-  if (!normalizedCaliber) return []
-  
-  const ranges = CALIBER_GRAIN_RANGES[normalizedCaliber]
+  const ranges = getCaliberTaxonomy().grainRanges(caliber)
   if (!ranges) return []
   
   // If long range specified, prefer heavy
@@ -214,8 +144,7 @@ export function getRecommendedGrains(caliber: string, purpose: string, range?: s
  * Extract caliber from platform mention
  */
 export function getCalibrFromPlatform(platform: string): string[] {
-  const normalized = platform.toLowerCase().trim()
-  return PLATFORM_CALIBER_MAP[normalized] || []
+  return getCaliberTaxonomy().platformCalibers(platform)
 }
 
 /**
@@ -230,6 +159,6 @@ export function normalizePurpose(input: string): string | null {
  * Get all possible caliber variations
  */
 export function getCaliberVariations(caliber: string): string[] {
-  const normalized = caliber.toLowerCase().trim()
-  return CALIBER_ALIASES[normalized] || [caliber]
+  const variations = getCaliberTaxonomy().variations(caliber)
+  return variations.length > 0 ? variations : [caliber]
 }
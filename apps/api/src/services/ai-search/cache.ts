@@ -36,10 +36,10 @@ function getIntentCacheKey(query: string, userTier: 'FREE' | 'PREMIUM'): string
 /**
  * Generate cache key for query embedding
  */
-function getEmbeddingCacheKey(text: string): string {
-  // Normalize for consistent caching
+function getEmbeddingCacheKey(text: string, modelId: string): string {
+  // Normalize for consistent caching; vectors are only valid for their model
   const normalizedText = text.toLowerCase().trim()
-  return `${EMBEDDING_PREFIX}${normalizedText}`
+  return `${EMBEDDING_PREFIX}${modelId}:${normalizedText}`
 }
 
 /**
@@ -97,11 +97,12 @@ export async function getCachedIntent(
  */
 export async function cacheEmbedding(
   text: string,
+  modelId: string,
   embedding: number[]
 ): Promise<void> {
   try {
     const redis = getRedisClient()
-    const key = getEmbeddingCacheKey(text)
+    const key = getEmbeddingCacheKey(text, modelId)
     // Store as comma-separated string to save space
     await redis.setex(key, EMBEDDING_CACHE_TTL, embedding.join(','))
     log.debug('CACHE_EMBEDDING_SET', { textLength: text.length, key })
@@ -115,10 +116,10 @@ export async function cacheEmbedding(
 /**
  * Get cached embedding if available
  */
-export async function getCachedEmbedding(text: string): Promise<number[] | null> {
+export async function getCachedEmbedding(text: string, modelId: string): Promise<number[] | null> {
   try {
     const redis = getRedisClient()
-    const key = getEmbeddingCacheKey(text)
+    const key = getEmbeddingCacheKey(text, modelId)
     const cached = await redis.get(key)
 
     if (cached) {
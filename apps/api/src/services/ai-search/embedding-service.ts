@@ -1,5 +1,7 @@
 import OpenAI from 'openai'
 import { prisma, buildProductText } from '@ironscout/db'
+// Import embedding providers directly to avoid circular import issues
+import { createEmbeddingProvider, type EmbeddingProvider } from '@ironscout/db/embedding-provider.js'
 import { loggers } from '../../config/logger'
 import { getCachedEmbedding, cacheEmbedding } from './cache'
 
@@ -8,34 +10,41 @@ export { buildProductText } from '@ironscout/db'
 
 const log = loggers.ai
 
-// Initialize OpenAI client only if API key is configured
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-const openai = OPENAI_API_KEY
-  ? new OpenAI({ apiKey: OPENAI_API_KEY })
-  : null
-
-// Embedding model configuration
-const EMBEDDING_MODEL = 'text-embedding-3-small' // 1536 dimensions, $0.02/1M tokens
-// const EMBEDDING_MODEL = 'text-embedding-3-large' // 3072 dimensions, $0.13/1M tokens
+// Configured provider (EMBEDDING_PROVIDER, default openai with a key, else local).
+// Must match the harvester embedding worker so query and product vectors compare.
+const provider: EmbeddingProvider | null = createEmbeddingProvider({
+  createOpenAIClient: (apiKey) => new OpenAI({ apiKey }),
+})
 
 /**
  * Check if embedding service is available
  */
 export function isEmbeddingServiceAvailable(): boolean {
-  return openai !== null
+  return provider !== null
+}
+
+/**
+ * Model id of the configured provider (stored in products.embeddingModel)
+ */
+export function getEmbeddingModelId(): string | null {
+  return provider?.modelId ?? null
+}
+
+function requireProvider(): EmbeddingProvider {
+  if (!provider) {
+    throw new Error('Embedding provider not configured (EMBEDDING_PROVIDER=none, or openai without OPENAI_API_KEY)')
+  }
+  return provider
 }
 
 /**
  * Generate embedding for a single text
- * Uses caching to avoid repeated API calls for the same text
+ * Embeddings are cached to avoid repeated API calls or model runs for the same text
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized (OPENAI_API_KEY not set)')
-  }
+  const embedder = requireProvider()
 
-  // Check cache first
-  const cachedEmbedding = await getCachedEmbedding(text)
+  const cachedEmbedding = await getCachedEmbedding(text, embedder.modelId)
   if (cachedEmbedding) {
     log.debug('EMBEDDING_CACHE_HIT', { textLength: text.length })
     return cachedEmbedding
@@ -43,18 +52,18 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 
   // Generate new embedding
   const startTime = Date.now()
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text,
-  })
+  const [embedding] = await embedder.embed([text])
   const duration = Date.now() - startTime
 
-  const embedding = response.data[0].embedding
-
-  log.debug('EMBEDDING_GENERATED', { textLength: text.length, durationMs: duration })
+  log.debug('EMBEDDING_GENERATED', {
+    textLength: text.length,
+    durationMs: duration,
+    provider: embedder.name,
+    model: embedder.modelId,
+  })
 
   // Cache for future requests
-  await cacheEmbedding(text, embedding)
+  await cacheEmbedding(text, embedder.modelId, embedding)
 
   return embedding
 }
@@ -63,31 +72,7 @@ export async function generateEmbedding(text: string): Promise<number[]> {
  * Generate embeddings for multiple texts (batched for efficiency)
  */
 export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized (OPENAI_API_KEY not set)')
-  }
-
-  // OpenAI allows up to 2048 inputs per request
-  const batchSize = 100
-  const embeddings: number[][] = []
-
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize)
-
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: batch,
-    })
-    
-    embeddings.push(...response.data.map(d => d.embedding))
-    
-    // Small delay to avoid rate limits
-    if (i + batchSize < texts.length) {
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
-  }
-  
-  return embeddings
+  return requireProvider().embed(texts)
 }
 
 /**
@@ -109,6 +94,7 @@ export async function updateProductEmbedding(productId: string): Promise<void> {
   await prisma.$executeRaw`
     UPDATE products
     SET embedding = ${JSON.stringify(embedding)}::vector,
+        "embeddingModel" = ${getEmbeddingModelId()},
         "lastEmbeddedAt" = NOW(),
         "updatedAt" = NOW()
     WHERE id = ${productId}
@@ -116,7 +102,8 @@ export async function updateProductEmbedding(productId: string): Promise<void> {
 }
 
 /**
- * Batch update embeddings for all products without embeddings
+ * Batch update embeddings for all products without an embedding from the
+ * configured model (missing, or produced by another provider)
  */
 export async function backfillProductEmbeddings(options: {
   batchSize?: number
@@ -124,8 +111,9 @@ export async function backfillProductEmbeddings(options: {
 } = {}): Promise<{ processed: number; errors: string[] }> {
   const { batchSize = 50, onProgress } = options
   const errors: string[] = []
+  const modelId = requireProvider().modelId
   
-  // Get products without embeddings
+  // Get products without embeddings from this model
   const products = await prisma.$queryRaw<Array<{
     id: string
     name: string
@@ -139,13 +127,13 @@ export async function backfillProductEmbeddings(options: {
   }>>`
     SELECT id, name, description, brand, caliber, "grainWeight", "caseMaterial", purpose, category
     FROM products
-    WHERE embedding IS NULL
+    WHERE embedding IS NULL OR "embeddingModel" IS DISTINCT FROM ${modelId}
   `
   
   const total = products.length
   let processed = 0
 
-  log.info('Found products without embeddings', { total })
+  log.info('Found products without embeddings', { total, model: modelId })
   
   // Process in batches
   for (let i = 0; i < products.length; i += batchSize) {
@@ -164,6 +152,7 @@ export async function backfillProductEmbeddings(options: {
           await prisma.$executeRaw`
             UPDATE products
             SET embedding = ${JSON.stringify(embeddings[j])}::vector,
+                "embeddingModel" = ${modelId},
                 "lastEmbeddedAt" = NOW(),
                 "updatedAt" = NOW()
             WHERE id = ${batch[j].id}
@@ -213,6 +202,7 @@ export async function vectorSearch(
       1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) as similarity
     FROM products
     WHERE embedding IS NOT NULL
+      AND "embeddingModel" = ${getEmbeddingModelId()}
     ${whereClause ? prisma.$queryRaw`AND ${whereClause}` : prisma.$queryRaw``}
     ORDER BY embedding <=> ${JSON.stringify(queryEmbedding)}::vector
     LIMIT ${limit}
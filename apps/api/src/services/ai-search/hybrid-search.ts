@@ -0,0 +1,205 @@
+/**
+ * Hybrid Retrieval
+ *
+ * Lexical (Postgres full-text + trigram) and vector (pgvector) candidates
+ * fused with reciprocal rank fusion (RRF). Lexical retrieval carries exact
+ * and misspelled product terms ("hornday critical defence 9mm"); vector
+ * retrieval carries intent ("something for home defense"). RRF only uses
+ * ranks, so the two score scales never have to be calibrated against each other.
+ */
+
+import { prisma } from '@ironscout/db'
+
+/** RRF damping constant; 60 is the value from the original RRF paper */
+export const RRF_K = 60
+
+/** Upper bound on candidates pulled from each retriever */
+export const MAX_RETRIEVAL_CANDIDATES = 200
+
+/**
+ * Minimum word similarity for a trigram match. Lower than the pg_trgm
+ * default (0.6) so a single transposition ("hornday") still matches.
+ */
+export const LEXICAL_TRIGRAM_THRESHOLD = 0.4
+
+/** Max query tokens in the full-text query */
+const MAX_LEXICAL_TOKENS = 12
+
+/**
+ * Text searched lexically. Must match the expression indexes in
+ * migration 20261025090000_product_lexical_search exactly.
+ */
+export const LEXICAL_DOCUMENT_SQL =
+  `lower(coalesce("name", '') || ' ' || coalesce("brand", '') || ' ' || coalesce("caliber", ''))`
+
+/**
+ * Candidate from one retriever, best first
+ */
+export interface RankedCandidate {
+  id: string
+  score: number
+}
+
+/**
+ * Candidate after fusion, with each retriever's contribution
+ */
+export interface FusedCandidate {
+  id: string
+  rrfScore: number
+  /** rrfScore scaled to 0-1 against the best possible score */
+  relevance: number
+  /** 1-based rank in the lexical list, null when not retrieved lexically */
+  lexicalRank: number | null
+  lexicalScore: number | null
+  /** 1-based rank in the vector list, null when not retrieved by vector */
+  vectorRank: number | null
+  vectorSimilarity: number | null
+}
+
+/**
+ * Filters shared by both retrievers, as SQL conditions over products
+ */
+export interface RetrievalFilters {
+  conditions: string[]
+  params: any[]
+}
+
+/**
+ * Builds the shared filters with placeholders numbered from firstParam,
+ * so each retriever can put its own parameters first
+ */
+export type RetrievalFilterBuilder = (firstParam: number) => RetrievalFilters
+
+/**
+ * Fuse ranked candidate lists with reciprocal rank fusion:
+ * score(d) = sum over lists of 1 / (k + rank(d)).
+ *
+ * Ties break on the better single-list rank, then id, so results are stable.
+ */
+export function fuseWithRrf(
+  lexical: RankedCandidate[],
+  vector: RankedCandidate[],
+  k: number = RRF_K
+): FusedCandidate[] {
+  const fused = new Map<string, FusedCandidate>()
+
+  const entry = (id: string): FusedCandidate => {
+    let candidate = fused.get(id)
+    if (!candidate) {
+      candidate = {
+        id,
+        rrfScore: 0,
+        relevance: 0,
+        lexicalRank: null,
+        lexicalScore: null,
+        vectorRank: null,
+        vectorSimilarity: null,
+      }
+      fused.set(id, candidate)
+    }
+    return candidate
+  }
+
+  lexical.forEach((c, i) => {
+    const candidate = entry(c.id)
+    if (candidate.lexicalRank !== null) return
+    candidate.lexicalRank = i + 1
+    candidate.lexicalScore = c.score
+    candidate.rrfScore += 1 / (k + i + 1)
+  })
+
+  vector.forEach((c, i) => {
+    const candidate = entry(c.id)
+    if (candidate.vectorRank !== null) return
+    candidate.vectorRank = i + 1
+    candidate.vectorSimilarity = c.score
+    candidate.rrfScore += 1 / (k + i + 1)
+  })
+
+  // Best possible score: rank 1 in every non-empty list
+  const listCount = (lexical.length > 0 ? 1 : 0) + (vector.length > 0 ? 1 : 0)
+  const maxScore = listCount / (k + 1)
+  const bestRank = (c: FusedCandidate) =>
+    Math.min(c.lexicalRank ?? Infinity, c.vectorRank ?? Infinity)
+
+  return [...fused.values()]
+    .map(c => ({ ...c, relevance: maxScore > 0 ? c.rrfScore / maxScore : 0 }))
+    .sort((a, b) =>
+      b.rrfScore - a.rrfScore ||
+      bestRank(a) - bestRank(b) ||
+      (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    )
+}
+
+/**
+ * Lowercase query tokens for the full-text query. Keeps decimal points
+ * inside numbers (5.56) and drops other punctuation.
+ */
+export function tokenizeLexicalQuery(query: string): string[] {
+  const tokens = query
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .split(' ')
+    .map(t => t.replace(/^\.+|\.+$/g, ''))
+    .filter(t => t.length >= 2 || /\d/.test(t))
+
+  return [...new Set(tokens)].slice(0, MAX_LEXICAL_TOKENS)
+}
+
+/**
+ * Full-text query matching any token by prefix ("fed" matches "federal").
+ * OR rather than AND so one misspelled word does not drop the product;
+ * ts_rank_cd still ranks products matching more tokens higher.
+ * Returns null when the query has no usable tokens.
+ */
+export function buildLexicalTsQuery(query: string): string | null {
+  const tokens = tokenizeLexicalQuery(query)
+  if (tokens.length === 0) return null
+  // Tokens are [a-z0-9.] only, so quoting cannot be broken
+  return tokens.map(t => `'${t}':*`).join(' | ')
+}
+
+/**
+ * Lexical candidates: full-text matches plus trigram word-similarity
+ * matches, ranked by text rank + trigram similarity.
+ */
+export async function lexicalCandidates(
+  query: string,
+  buildFilters: RetrievalFilterBuilder,
+  take: number
+): Promise<RankedCandidate[]> {
+  const tsQuery = buildLexicalTsQuery(query)
+  if (!tsQuery) return []
+
+  const text = tokenizeLexicalQuery(query).join(' ')
+  const filters = buildFilters(3)
+  const params = [text, tsQuery, ...filters.params]
+  const filterSql = filters.conditions.length > 0 ? `AND ${filters.conditions.join(' AND ')}` : ''
+  const limit = Math.min(Math.max(1, Math.floor(take)), MAX_RETRIEVAL_CANDIDATES)
+
+  // SET LOCAL scopes the trigram threshold to this transaction; the
+  // <% operator (word similarity) can then use the trigram index
+  const [, rows] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(
+      `SET LOCAL pg_trgm.word_similarity_threshold = ${LEXICAL_TRIGRAM_THRESHOLD}`
+    ),
+    prisma.$queryRawUnsafe<Array<{ id: string; score: number }>>(`
+      SELECT id, score FROM (
+        SELECT
+          id,
+          least(ts_rank_cd(to_tsvector('simple', ${LEXICAL_DOCUMENT_SQL}), to_tsquery('simple', $2)), 1)
+            + word_similarity($1, ${LEXICAL_DOCUMENT_SQL}) AS score
+        FROM products
+        WHERE (
+          to_tsvector('simple', ${LEXICAL_DOCUMENT_SQL}) @@ to_tsquery('simple', $2)
+          OR $1 <% ${LEXICAL_DOCUMENT_SQL}
+        )
+        ${filterSql}
+      ) matches
+      ORDER BY score DESC, id
+      LIMIT ${limit}
+    `, ...params),
+  ])
+
+  return rows.map(r => ({ id: r.id, score: Math.round(Number(r.score) * 1000) / 1000 }))
+}
@@ -1,12 +1,19 @@
 // AI-powered semantic search module
 
 // Intent parsing
-export { parseSearchIntent } from './intent-parser'
+export {
+  parseSearchIntent,
+  parseIntentWithRules,
+  resolveIntentProviderName,
+  getIntentParserModelId,
+  RULE_INTENT_PARSER_MODEL
+} from './intent-parser'
 export type {
   SearchIntent,
   PremiumSearchIntent,
   SafetyConstraint,
-  ParseOptions
+  ParseOptions,
+  IntentProviderName
 } from './intent-parser'
 
 // Main search service
@@ -14,7 +21,8 @@ export { aiSearch, getSearchSuggestions } from './search-service'
 export type {
   AISearchResult,
   ExplicitFilters,
-  AISearchOptions
+  AISearchOptions,
+  SearchSuggestion
 } from './search-service'
 
 // Premium ranking
@@ -44,6 +52,9 @@ export * from './ammo-knowledge'
 // Embedding service
 export * from './embedding-service'
 
+// Catalog suggestion index (autocomplete)
+export { getSuggestionMatcher, resetSuggestionIndex } from './suggestion-index'
+
 // Caching utilities for monitoring and debugging
 export {
   clearSearchCaches,
@@ -1,8 +1,6 @@
 import OpenAI from 'openai'
 import {
-  PLATFORM_CALIBER_MAP,
   PURPOSE_SYNONYMS,
-  CALIBER_ALIASES,
   RANGE_GRAIN_PREFERENCES,
   AMMO_BRANDS,
   BULLET_TYPE_KEYWORDS,
@@ -11,17 +9,53 @@ import {
   normalizePurpose,
   getCaliberVariations,
 } from './ammo-knowledge'
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
 import { loggers } from '../../config/logger'
 import { getCachedIntent, cacheIntent } from './cache'
 
 const log = loggers.ai
 
-// Initialize OpenAI client only if API key is configured
+/**
+ * Intent parser backends:
+ * - openai: quick local parse first, OpenAI for queries it can't handle
+ * - rules: deterministic rule-based parse only (no network, no API key)
+ */
+export type IntentProviderName = 'openai' | 'rules'
+
+/** Model id reported for rule-based parses (lens telemetry extractorModelId) */
+export const RULE_INTENT_PARSER_MODEL = 'rules-v1'
+
+/**
+ * Configured intent provider: INTENT_PROVIDER if valid, else openai when
+ * OPENAI_API_KEY is set, else rules.
+ */
+export function resolveIntentProviderName(
+  env: Record<string, string | undefined> = process.env
+): IntentProviderName {
+  const configured = env.INTENT_PROVIDER?.trim().toLowerCase()
+  if (configured === 'openai' || configured === 'rules') {
+    return configured
+  }
+  return env.OPENAI_API_KEY ? 'openai' : 'rules'
+}
+
+// Initialize OpenAI client only if selected and the API key is configured
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-const openai = OPENAI_API_KEY
+const openai = resolveIntentProviderName() === 'openai' && OPENAI_API_KEY
   ? new OpenAI({ apiKey: OPENAI_API_KEY })
   : null
 
+/**
+ * Model id of the active intent parser: the pinned OpenAI model, or
+ * RULE_INTENT_PARSER_MODEL when parsing falls to the rule-based parser.
+ */
+export function getIntentParserModelId(): string {
+  return openai
+    ? process.env.INTENT_EXTRACTOR_MODEL || 'gpt-4o-mini'
+    : RULE_INTENT_PARSER_MODEL
+}
+
 /**
  * Structured search intent extracted from natural language query
  * 
@@ -141,6 +175,12 @@ export async function parseSearchIntent(
 ): Promise<SearchIntent> {
   const { userTier = 'FREE' } = options
 
+  // Rule-based parsing when OpenAI is not selected or not configured
+  if (!openai) {
+    log.debug('INTENT_RULES_PARSE', { query, userTier })
+    return parseIntentWithRules(query, options)
+  }
+
   // First, try quick local parsing for simple queries
   // Use quick parse for ALL users when confidence is high - no need to waste AI calls
   const quickParse = tryQuickParse(query)
@@ -149,16 +189,6 @@ export async function parseSearchIntent(
     return quickParse
   }
 
-  // Skip AI parsing if API key not configured
-  if (!openai) {
-    log.debug('AI parsing skipped (OPENAI_API_KEY not configured)')
-    return quickParse || {
-      originalQuery: query,
-      keywords: query.split(/\s+/).filter(w => w.length > 2),
-      confidence: 0.3,
-    }
-  }
-
   // Check cache for previously parsed intent
   const cachedIntent = await getCachedIntent(query, userTier)
   if (cachedIntent) {
@@ -180,12 +210,37 @@ export async function parseSearchIntent(
     return intent
   } catch (error) {
     log.error('AI parsing failed, falling back to local parse', { error }, error as Error)
-    return quickParse || {
-      originalQuery: query,
-      keywords: query.split(/\s+/).filter(w => w.length > 2),
-      confidence: 0.3,
+    return parseIntentWithRules(query, options)
+  }
+}
+
+/**
+ * Deterministic rule-based intent parse, used when OpenAI is unavailable.
+ *
+ * Same knowledge as the quick parse (ammo-knowledge.ts, caliber taxonomy),
+ * but always returns an intent and, for PREMIUM, infers premiumIntent from
+ * context words (suppressor, indoor, compact, ...) instead of asking the model.
+ */
+export function parseIntentWithRules(
+  query: string,
+  options: ParseOptions = {}
+): SearchIntent {
+  const { userTier = 'FREE' } = options
+
+  const intent = tryQuickParse(query) || {
+    originalQuery: query,
+    keywords: query.split(/\s+/).filter(w => w.length > 2),
+    confidence: 0.3,
+  }
+
+  if (userTier === 'PREMIUM') {
+    const premiumIntent = inferPremiumIntent(query.toLowerCase(), intent)
+    if (premiumIntent) {
+      intent.premiumIntent = premiumIntent
     }
   }
+
+  return intent
 }
 
 /**
@@ -210,22 +265,18 @@ function tryQuickParse(query: string): SearchIntent | null {
   // =============================================
 
   // Check for platform mentions first (AR15, Glock, etc.)
-  for (const [platform, calibers] of Object.entries(PLATFORM_CALIBER_MAP)) {
-    if (lowerQuery.includes(platform.toLowerCase())) {
-      intent.calibers = calibers
-      matchCount++
-      break
-    }
+  const platformCalibers = getCalibrFromPlatform(lowerQuery)
+  if (platformCalibers.length > 0) {
+    intent.calibers = platformCalibers
+    matchCount++
   }
 
   // Check for direct caliber mentions
   if (!intent.calibers) {
-    for (const [alias, variations] of Object.entries(CALIBER_ALIASES)) {
-      if (lowerQuery.includes(alias.toLowerCase())) {
-        intent.calibers = variations
-        matchCount++
-        break
-      }
+    const caliber = getCaliberTaxonomy().detect(lowerQuery)
+    if (caliber) {
+      intent.calibers = getCaliberVariations(caliber.name)
+      matchCount++
     }
   }
 
@@ -352,6 +403,21 @@ function tryQuickParse(query: string): SearchIntent | null {
     matchCount++
   }
 
+  // =============================================
+  // 11. PRICE RANGE (e.g., "under $20", "over $15")
+  // =============================================
+  // Dollar amounts only; "30 cents a round" is per-round, not a box price
+  const maxPriceMatch = lowerQuery.match(/(?:under|below|less than|max|up to)\s*\$(\d+(?:\.\d{1,2})?)(?![\d.])(?!\s*(?:\/|per|a)\s*(?:rd|round))/)
+  if (maxPriceMatch) {
+    intent.maxPrice = parseFloat(maxPriceMatch[1])
+    matchCount++
+  }
+  const minPriceMatch = lowerQuery.match(/(?:over|above|more than|at least)\s*\$(\d+(?:\.\d{1,2})?)(?![\d.])(?!\s*(?:\/|per|a)\s*(?:rd|round))/)
+  if (minPriceMatch) {
+    intent.minPrice = parseFloat(minPriceMatch[1])
+    matchCount++
+  }
+
   // =============================================
   // CONFIDENCE CALCULATION
   // =============================================
@@ -401,6 +467,91 @@ function tryQuickParse(query: string): SearchIntent | null {
   return matchCount > 0 ? intent : null
 }
 
+/**
+ * Preferred bullet types per purpose (mirrors the premium prompt)
+ */
+const PURPOSE_BULLET_TYPES: Record<string, string[]> = {
+  Defense: ['JHP', 'BJHP', 'HST', 'GDHP', 'XTP'],
+  Target: ['FMJ', 'TMJ'],
+  Hunting: ['SP', 'JSP', 'VMAX'],
+}
+
+/**
+ * Rule-based premium intent: the context the premium prompt asks the model
+ * to infer, read from explicit words in the query. Returns undefined when
+ * the query carries no context beyond the basic fields.
+ */
+function inferPremiumIntent(
+  lowerQuery: string,
+  intent: SearchIntent
+): PremiumSearchIntent | undefined {
+  const has = (pattern: RegExp) => pattern.test(lowerQuery)
+  const premiumIntent: PremiumSearchIntent = { explanation: '' }
+  const reasoning: NonNullable<PremiumSearchIntent['reasoning']> = {}
+  const safety = new Set<SafetyConstraint>()
+
+  if (has(/\b(suppress(or|ed)|silencer|subsonic)\b/)) {
+    premiumIntent.suppressorUse = true
+  }
+
+  if (has(/\b(indoor|apartment|house|home|low[- ]light|night)\b/)) {
+    premiumIntent.environment = 'indoor'
+    reasoning.environmentReason = 'Query mentions indoor or home use'
+  } else if (has(/\b(outdoor|field|hunt(ing)?|long range)\b/)) {
+    premiumIntent.environment = 'outdoor'
+    reasoning.environmentReason = 'Query mentions outdoor or field use'
+  }
+
+  if (has(/\b(compact|sub-?compact|snub(nose)?|pocket|micro|short[- ]barrel(ed)?|carry|ccw|edc)\b/)) {
+    premiumIntent.barrelLength = 'short'
+    reasoning.barrelReason = 'Query mentions a compact or carry firearm'
+  }
+
+  if (has(/\b(apartment|home defen[cs]e|over-?penetration)\b/)) {
+    safety.add('low-overpenetration')
+  }
+  if (premiumIntent.environment === 'indoor' && intent.purpose === 'Defense') {
+    safety.add('low-flash')
+  }
+  if (has(/\b(low[- ]recoil|soft[- ]shooting|reduced recoil)\b/)) {
+    safety.add('low-recoil')
+  }
+  if (has(/\b(duty|barrier|law enforcement|leo)\b/)) {
+    safety.add('barrier-blind')
+  }
+  if (has(/\b(frangible|steel targets?)\b/)) {
+    safety.add('frangible')
+  }
+  if (safety.size > 0) {
+    premiumIntent.safetyConstraints = [...safety]
+    reasoning.safetyReason = 'Constraints follow from the use case in the query'
+  }
+
+  if (intent.qualityLevel === 'match-grade') {
+    premiumIntent.priorityFocus = 'performance'
+    premiumIntent.preferredBulletTypes = ['BTHP', 'SMK']
+  } else if (intent.qualityLevel === 'budget') {
+    premiumIntent.priorityFocus = 'value'
+  }
+
+  if (!premiumIntent.preferredBulletTypes && intent.purpose && PURPOSE_BULLET_TYPES[intent.purpose]) {
+    premiumIntent.preferredBulletTypes = PURPOSE_BULLET_TYPES[intent.purpose]
+    reasoning.bulletTypeReason = `Typical bullet types for ${intent.purpose.toLowerCase()} use`
+  }
+
+  const hasContext = premiumIntent.suppressorUse || premiumIntent.environment ||
+    premiumIntent.barrelLength || premiumIntent.safetyConstraints || premiumIntent.priorityFocus
+  if (!hasContext && !intent.purpose) {
+    return undefined
+  }
+
+  premiumIntent.reasoning = Object.keys(reasoning).length > 0 ? reasoning : undefined
+  premiumIntent.explanation = generateExplanation(intent, premiumIntent)
+  premiumIntent.rankingBoosts = calculateRankingBoosts(premiumIntent)
+
+  return premiumIntent
+}
+
 /**
  * Use OpenAI to parse complex natural language queries
  * Premium users get deeper analysis
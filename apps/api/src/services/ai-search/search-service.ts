@@ -1,7 +1,24 @@
 import { prisma, Prisma } from '@ironscout/db'
+// Import landed cost directly to avoid circular import issues
+import { calculateLandedCost, loadShippingRules, type PriceBasis } from '@ironscout/db/landed-cost.js'
+import {
+  isBlockingRestriction,
+  loadShippingRestrictions,
+  type RestrictedOfferMode,
+} from '@ironscout/db/shipping-restrictions.js'
 import { parseSearchIntent, SearchIntent, ParseOptions } from './intent-parser'
 import { QUALITY_INDICATORS, CASE_MATERIAL_BY_PURPOSE } from './ammo-knowledge'
-import { generateEmbedding, buildProductText } from './embedding-service'
+import { generateEmbedding, getEmbeddingModelId, isEmbeddingServiceAvailable, buildProductText } from './embedding-service'
+import {
+  fuseWithRrf,
+  lexicalCandidates,
+  MAX_RETRIEVAL_CANDIDATES,
+  RRF_K,
+  FusedCandidate,
+  RankedCandidate,
+  RetrievalFilterBuilder,
+  RetrievalFilters
+} from './hybrid-search'
 import {
   applyPremiumRanking,
   applyFreeRanking,
@@ -9,10 +26,13 @@ import {
   PremiumRankedProduct
 } from './premium-ranking'
 import { batchCalculatePriceSignalIndex, PriceSignalIndex } from './price-signal-index'
+import { getSuggestionMatcher } from './suggestion-index'
+// Import search-suggestions directly to avoid circular import issues
+import { DEFAULT_SUGGESTION_LIMIT, type SuggestionKind } from '@ironscout/db/search-suggestions.js'
 import { batchGetPricesViaProductLinks, batchGetPricesWithConfidence } from './price-resolver'
 import { BulletType, PressureRating, BULLET_TYPE_CATEGORIES } from '../../types/product-metadata'
 import { loggers } from '../../config/logger'
-import type { LensMetadata, ProductWithOffers } from '../lens'
+import type { CustomLens, LensMetadata, ProductWithOffers, LandedCostContext, ShipToContext } from '../lens'
 import { isLensEnabled, applyLensPipeline, InvalidLensError } from '../lens'
 
 const log = loggers.ai
@@ -71,6 +91,12 @@ export interface AISearchResult {
     vectorSearchUsed: boolean
     processingTimeMs: number
     userTier: 'FREE' | 'PREMIUM'
+    /** Price basis used for price ordering */
+    priceBasis: PriceBasis
+    /** Destination state for delivered prices and shipping restrictions */
+    shipTo?: string
+    /** How offers that cannot ship to shipTo were handled */
+    restrictedOffers?: RestrictedOfferMode
     premiumFeaturesUsed?: string[]
     /** Detailed timing breakdown for debugging */
     timing?: {
@@ -80,12 +106,34 @@ export interface AISearchResult {
       rankingMs: number
       lensMs?: number
       embeddingMs?: number
+      /** Hybrid retrieval: lexical candidate query */
+      lexicalMs?: number
+      /** Hybrid retrieval: reciprocal rank fusion */
+      fusionMs?: number
+    }
+    /** Retrieval stage details (debug searches only) */
+    retrieval?: RetrievalMetadata & {
+      /** Per-result retrieval scores, in result order */
+      scores: Array<Omit<FusedCandidate, 'id'> & { productId: string }>
     }
   }
   /** Lens metadata (only present when ENABLE_LENS_V1=true) */
   lens?: LensMetadata
 }
 
+/**
+ * How candidates were retrieved
+ * - hybrid: lexical + vector, fused with RRF
+ * - lexical: full-text/trigram only (vector disabled, unavailable or empty)
+ * - standard: Prisma filters (explicit filters, non-relevance sort, or fallback)
+ */
+export interface RetrievalMetadata {
+  mode: 'hybrid' | 'lexical' | 'standard'
+  rrfK?: number
+  lexicalCandidates?: number
+  vectorCandidates?: number
+}
+
 /**
  * Search options
  */
@@ -98,8 +146,18 @@ export interface AISearchOptions {
   userTier?: 'FREE' | 'PREMIUM'
   /** Optional lens ID for lens-based filtering (requires ENABLE_LENS_V1=true) */
   lensId?: string
+  /** The caller's custom lens when lensId is a "user:" id (resolved per user by the route) */
+  customLens?: CustomLens | null
   /** Request ID for telemetry correlation */
   requestId?: string
+  /** Order prices on item price (default) or delivered price (item + shipping) */
+  priceBasis?: PriceBasis
+  /** Two-letter destination state for delivered prices and shipping restrictions */
+  shipTo?: string
+  /** Hide (default) or flag offers that cannot ship to shipTo */
+  restrictedOffers?: RestrictedOfferMode
+  /** Include per-result retrieval scores in searchMetadata.retrieval (admin debug) */
+  debug?: boolean
 }
 
 /**
@@ -108,7 +166,8 @@ export interface AISearchOptions {
  * The search process:
  * 1. Parse natural language query to extract intent (caliber, purpose, grain, etc.)
  * 2. Merge explicit filters on top of AI intent (explicit filters take priority)
- * 3. Execute hybrid search (vector + structured)
+ * 3. Retrieve candidates: hybrid lexical + vector fused with RRF (relevance
+ *    sorts without explicit filters), otherwise structured Prisma filters
  * 4. Apply performance-aware ranking with price context
  *
  * V1: All users get full search capabilities (no tier restrictions)
@@ -133,7 +192,12 @@ export async function aiSearch(
     explicitFilters = {},
     userTier = 'PREMIUM', // V1: All users get premium capabilities
     lensId,
+    customLens,
     requestId = `req_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    priceBasis = 'ITEM',
+    shipTo,
+    restrictedOffers = 'HIDE',
+    debug = false,
   } = options
 
   // V1: All users get premium features
@@ -152,6 +216,7 @@ export async function aiSearch(
     hasFilters: Object.keys(explicitFilters).length > 0,
     lensId,
     vectorSearchEnabled: useVectorSearch,
+    priceBasis,
   })
 
   // Track Premium filter usage
@@ -214,47 +279,70 @@ export async function aiSearch(
   const skip = (page - 1) * limit
   let products: any[]
   let vectorSearchUsed = false
+  let retrieval: RetrievalMetadata = { mode: 'standard' }
+  let retrievalScores: FusedCandidate[] = []
   let total: number
   const hasExplicitFilters = Object.keys(explicitFilters).length > 0
 
   const dbStart = Date.now()
 
-  if (useVectorSearch && (sortBy === 'relevance' || sortBy === 'price_context') && !hasExplicitFilters) {
+  if ((sortBy === 'relevance' || sortBy === 'price_context') && !hasExplicitFilters) {
     try {
-      // Try vector-enhanced search (only when no explicit filters)
-      const embeddingStart = Date.now()
-      products = await vectorEnhancedSearch(query, mergedIntent, explicitFilters, { skip, limit: limit * 2 }, isPremium)
-      timing.embeddingMs = Date.now() - embeddingStart
-      vectorSearchUsed = true
-      // For vector search, count using base where clause
-      // Note: Can't filter on embedding field since it's Unsupported("vector") in Prisma
-      total = await prisma.products.count({ where })
-
-      log.info('SEARCH_VECTOR_COMPLETE', {
-        requestId,
-        productsCount: products.length,
-        total,
-        embeddingMs: timing.embeddingMs,
-      })
+      // Hybrid lexical + vector retrieval (only when no explicit filters)
+      const hybrid = await hybridSearch(
+        query,
+        mergedIntent,
+        explicitFilters,
+        { skip, limit: limit * 2, useVectorSearch },
+        isPremium
+      )
+      timing.lexicalMs = hybrid.lexicalMs
+      timing.fusionMs = hybrid.fusionMs
+
+      if (hybrid.total > 0) {
+        products = hybrid.products
+        vectorSearchUsed = hybrid.vectorUsed
+        if (hybrid.vectorUsed) {
+          timing.embeddingMs = hybrid.vectorMs
+        }
+        retrievalScores = hybrid.fused
+        retrieval = {
+          mode: hybrid.vectorUsed ? 'hybrid' : 'lexical',
+          rrfK: RRF_K,
+          lexicalCandidates: hybrid.lexicalCount,
+          vectorCandidates: hybrid.vectorCount,
+        }
+        // Pages come from the fused candidate set, so it is also the total
+        total = hybrid.total
 
-      // Fall back to standard search if vector search returns no results
-      // This handles cases where products don't have embeddings yet
-      if (products.length === 0 && total > 0) {
-        log.warn('SEARCH_VECTOR_FALLBACK', {
+        log.info('SEARCH_HYBRID_COMPLETE', {
           requestId,
-          reason: 'vector_empty_but_products_exist',
+          productsCount: products.length,
           total,
+          lexicalCandidates: hybrid.lexicalCount,
+          vectorCandidates: hybrid.vectorCount,
+          lexicalMs: hybrid.lexicalMs,
+          vectorMs: hybrid.vectorMs,
+        })
+      } else {
+        // Neither retriever matched the query. The candidate set does not depend
+        // on the page, so every page of this query is served by standard search.
+        log.warn('SEARCH_HYBRID_FALLBACK', {
+          requestId,
+          reason: 'no_hybrid_candidates',
         })
         products = await standardSearch(where, skip, limit * 2, isPremium)
-        vectorSearchUsed = false
+        total = await prisma.products.count({ where })
       }
     } catch (error) {
-      log.warn('SEARCH_VECTOR_ERROR', {
+      log.warn('SEARCH_HYBRID_ERROR', {
         requestId,
         error: error instanceof Error ? error.message : String(error),
       })
       products = await standardSearch(where, skip, limit * 2, isPremium)
       total = await prisma.products.count({ where })
+      vectorSearchUsed = false
+      retrieval = { mode: 'standard' }
     }
   } else {
     // Use standard Prisma search with explicit filters
@@ -343,6 +431,46 @@ export async function aiSearch(
     total = products.length
   }
 
+  // Delivered pricing: load shipping rules for the retailers on this page
+  let landedCost: LandedCostContext | undefined
+  if (priceBasis === 'DELIVERED') {
+    const retailerIds = products.flatMap((p: any) => (p.prices ?? []).map((pr: any) => pr.retailerId))
+    landedCost = {
+      rules: await loadShippingRules(prisma, retailerIds),
+      destinationState: shipTo ?? null,
+    }
+  }
+
+  // Shipping restrictions: load the ship-to state's restrictions for this page
+  let shipToContext: ShipToContext | undefined
+  if (shipTo) {
+    const retailerIds = products.flatMap((p: any) => (p.prices ?? []).map((pr: any) => pr.retailerId))
+    shipToContext = {
+      state: shipTo,
+      restrictions: await loadShippingRestrictions(prisma, retailerIds, shipTo),
+    }
+
+    // Without a lens, drop offers (and products) that cannot ship to the buyer.
+    // The lens pipeline applies the same rule through eligibility.
+    if (restrictedOffers === 'HIDE' && !isLensEnabled() && shipToContext.restrictions.size > 0) {
+      const beforeCount = products.length
+      products = products
+        .map((p: any) => ({ ...p, prices: formatOffers(p.prices ?? [], shipToContext, 'HIDE') }))
+        .filter((p: any) => p.prices.length > 0)
+
+      if (products.length !== beforeCount) {
+        log.info('SEARCH_SHIP_TO_FILTER', {
+          requestId,
+          shipTo,
+          before: beforeCount,
+          after: products.length,
+        })
+        const ratio = products.length / (beforeCount || 1)
+        total = Math.max(products.length, Math.floor(total * ratio))
+      }
+    }
+  }
+
   // =============================================
   // LENS PIPELINE (when ENABLE_LENS_V1=true)
   // =============================================
@@ -371,7 +499,12 @@ export async function aiSearch(
         query,
         products: productsWithConfidence as ProductWithOffers[],
         userLensId: lensId,
+        customLens,
         requestId,
+        priceBasis,
+        landedCost,
+        shipTo: shipToContext,
+        restrictedOffers,
       })
 
       lensMetadata = lensResult.metadata
@@ -475,12 +608,24 @@ export async function aiSearch(
   // 8. Apply price sorting if requested
   // CRITICAL: Skip when lens ordering is active - lens determines order
   if (!lensOrderingActive && (sortBy === 'price_asc' || sortBy === 'price_desc')) {
-    rankedProducts = rankedProducts.sort((a: any, b: any) => {
-      const aPrice = a.prices[0]?.price || Infinity
-      const bPrice = b.prices[0]?.price || Infinity
-      const comparison = parseFloat(aPrice.toString()) - parseFloat(bPrice.toString())
-      return sortBy === 'price_asc' ? comparison : -comparison
-    })
+    if (landedCost) {
+      // Delivered: lowest item + shipping per product, unknown shipping last
+      rankedProducts = rankedProducts.sort((a: any, b: any) => {
+        const aPrice = getMinDeliveredPrice(a, landedCost)
+        const bPrice = getMinDeliveredPrice(b, landedCost)
+        if (aPrice === null || bPrice === null) {
+          return (aPrice === null ? 1 : 0) - (bPrice === null ? 1 : 0)
+        }
+        return sortBy === 'price_asc' ? aPrice - bPrice : bPrice - aPrice
+      })
+    } else {
+      rankedProducts = rankedProducts.sort((a: any, b: any) => {
+        const aPrice = a.prices[0]?.price || Infinity
+        const bPrice = b.prices[0]?.price || Infinity
+        const comparison = parseFloat(aPrice.toString()) - parseFloat(bPrice.toString())
+        return sortBy === 'price_asc' ? comparison : -comparison
+      })
+    }
   }
 
   // 9. Trim to requested limit
@@ -512,7 +657,9 @@ export async function aiSearch(
   })
 
   // 11. Format products (with Premium data if applicable)
-  const formattedProducts = rankedProducts.map(p => formatProduct(p, isPremium))
+  const formattedProducts = rankedProducts.map(p =>
+    formatProduct(p, isPremium, landedCost, shipToContext, restrictedOffers)
+  )
 
   // 12. Build facets (with Premium facets if applicable)
   const facets = await buildFacets(where, isPremium)
@@ -527,6 +674,7 @@ export async function aiSearch(
     processingTimeMs,
     timing,
     vectorSearchUsed,
+    retrievalMode: retrieval.mode,
     lensApplied: lensMetadata?.id,
     premiumFeaturesUsed,
   })
@@ -563,7 +711,10 @@ export async function aiSearch(
       vectorSearchUsed,
       processingTimeMs,
       userTier: 'PREMIUM', // V1: All users get premium
+      priceBasis,
+      ...(shipTo ? { shipTo, restrictedOffers } : {}),
       timing,
+      ...(debug ? { retrieval: { ...retrieval, scores: buildRetrievalScores(formattedProducts, retrievalScores) } } : {}),
       ...(premiumFeaturesUsed.length > 0 ? { premiumFeaturesUsed } : {})
     },
     // Include lens metadata when lens pipeline is enabled
@@ -895,109 +1046,233 @@ async function standardSearch(where: any, skip: number, take: number, includePre
 }
 
 /**
- * Vector-enhanced semantic search using pgvector
+ * Filters applied by both hybrid retrievers
+ *
+ * IMPORTANT: Only apply caliber as hard filter, other AI intent values are for scoring
  */
-async function vectorEnhancedSearch(
-  query: string,
+function buildRetrievalFilters(
   intent: SearchIntent,
   explicitFilters: ExplicitFilters,
-  options: { skip: number; limit: number },
-  isPremium: boolean
-): Promise<any[]> {
-  const { skip, limit } = options
-
-  // Build the search text
-  const searchText = [
-    query,
-    intent.purpose ? `for ${intent.purpose.toLowerCase()}` : '',
-    intent.calibers?.join(' ') || '',
-    intent.qualityLevel || '',
-    // Add Premium intent context for better matching
-    ...(isPremium && intent.premiumIntent ? [
-      intent.premiumIntent.environment || '',
-      intent.premiumIntent.preferredBulletTypes?.join(' ') || ''
-    ] : [])
-  ].filter(Boolean).join(' ')
-
-  log.debug('SEARCH_VECTOR_EMBEDDING_START', { searchText })
-
-  // Generate query embedding
-  const embeddingStart = Date.now()
-  const queryEmbedding = await generateEmbedding(searchText)
-  const embeddingDuration = Date.now() - embeddingStart
-  const embeddingStr = `[${queryEmbedding.join(',')}]`
-
-  log.debug('SEARCH_VECTOR_EMBEDDING_COMPLETE', { durationMs: embeddingDuration })
-
-  // Build filter conditions for SQL
-  // IMPORTANT: Only apply caliber as hard filter, other AI intent values are for scoring
-  const conditions: string[] = ['embedding IS NOT NULL']
+  firstParam: number
+): RetrievalFilters {
+  const conditions: string[] = []
   const params: any[] = []
+  const next = () => `$${firstParam + params.length}`
 
   // Caliber filter - use caliberNorm (normalized form, always populated by resolver)
   const calibers = explicitFilters.caliber ? [explicitFilters.caliber] : intent.calibers
   if (calibers?.length) {
     const caliberPatterns = calibers.map(c => `%${c}%`)
-    conditions.push(`"caliberNorm" ILIKE ANY($${params.length + 1})`)
+    conditions.push(`"caliberNorm" ILIKE ANY(${next()})`)
     params.push(caliberPatterns)
   }
 
   // Purpose filter - ONLY if explicitly specified
   if (explicitFilters.purpose) {
-    conditions.push(`purpose ILIKE $${params.length + 1}`)
+    conditions.push(`purpose ILIKE ${next()}`)
     params.push(`%${explicitFilters.purpose}%`)
   }
 
   // Case material filter - only apply if user explicitly specified
   if (explicitFilters.caseMaterial) {
-    conditions.push(`"caseMaterial" ILIKE $${params.length + 1}`)
+    conditions.push(`"caseMaterial" ILIKE ${next()}`)
     params.push(`%${explicitFilters.caseMaterial}%`)
   }
 
   // Brand filter - ONLY if explicitly specified
   if (explicitFilters.brand) {
-    conditions.push(`brand ILIKE $${params.length + 1}`)
+    conditions.push(`brand ILIKE ${next()}`)
     params.push(`%${explicitFilters.brand}%`)
   }
 
   // Grain weight range - only if explicitly specified
   if (explicitFilters.minGrain !== undefined) {
-    conditions.push(`"grainWeight" >= $${params.length + 1}`)
+    conditions.push(`"grainWeight" >= ${next()}`)
     params.push(explicitFilters.minGrain)
   }
   if (explicitFilters.maxGrain !== undefined) {
-    conditions.push(`"grainWeight" <= $${params.length + 1}`)
+    conditions.push(`"grainWeight" <= ${next()}`)
     params.push(explicitFilters.maxGrain)
   }
 
+  return { conditions, params }
+}
+
+/**
+ * Vector candidates from pgvector, most similar first
+ */
+async function vectorCandidates(
+  query: string,
+  intent: SearchIntent,
+  buildFilters: RetrievalFilterBuilder,
+  take: number,
+  isPremium: boolean
+): Promise<RankedCandidate[]> {
+  // Build the search text
+  const searchText = [
+    query,
+    intent.purpose ? `for ${intent.purpose.toLowerCase()}` : '',
+    intent.calibers?.join(' ') || '',
+    intent.qualityLevel || '',
+    // Add Premium intent context for better matching
+    ...(isPremium && intent.premiumIntent ? [
+      intent.premiumIntent.environment || '',
+      intent.premiumIntent.preferredBulletTypes?.join(' ') || ''
+    ] : [])
+  ].filter(Boolean).join(' ')
+
+  log.debug('SEARCH_VECTOR_EMBEDDING_START', { searchText })
+
+  // Generate query embedding
+  const embeddingStart = Date.now()
+  const queryEmbedding = await generateEmbedding(searchText)
+  const embeddingDuration = Date.now() - embeddingStart
+  const embeddingStr = `[${queryEmbedding.join(',')}]`
+
+  log.debug('SEARCH_VECTOR_EMBEDDING_COMPLETE', { durationMs: embeddingDuration })
+
+  // Vectors are only comparable within the model that produced them
+  const filters = buildFilters(2)
+  const conditions = ['embedding IS NOT NULL', '"embeddingModel" = $1', ...filters.conditions]
+  const params: any[] = [getEmbeddingModelId(), ...filters.params]
   const whereClause = conditions.join(' AND ')
 
   log.debug('SEARCH_VECTOR_SQL', { whereClause, paramCount: params.length })
 
   // Execute vector search
   const vectorStart = Date.now()
-  const productIds = await prisma.$queryRawUnsafe<Array<{ id: string; similarity: number }>>(`
+  const rows = await prisma.$queryRawUnsafe<Array<{ id: string; similarity: number }>>(`
     SELECT
       id,
       1 - (embedding <=> '${embeddingStr}'::vector) as similarity
     FROM products
     WHERE ${whereClause}
     ORDER BY embedding <=> '${embeddingStr}'::vector
-    LIMIT ${limit + skip}
-    OFFSET ${skip}
+    LIMIT ${Math.min(take, MAX_RETRIEVAL_CANDIDATES)}
   `, ...params)
   const vectorDuration = Date.now() - vectorStart
 
   log.debug('SEARCH_VECTOR_QUERY_COMPLETE', {
-    resultCount: productIds.length,
+    resultCount: rows.length,
     durationMs: vectorDuration,
   })
 
-  if (productIds.length === 0) {
+  return rows.map(r => ({ id: r.id, score: Number(r.similarity) }))
+}
+
+/**
+ * Hybrid retrieval result: the requested page of fused candidates
+ */
+interface HybridSearchResult {
+  products: any[]
+  fused: FusedCandidate[]
+  /** Size of the whole fused candidate set (the result count for this query) */
+  total: number
+  lexicalCount: number
+  vectorCount: number
+  vectorUsed: boolean
+  lexicalMs: number
+  vectorMs: number
+  fusionMs: number
+}
+
+/**
+ * Hybrid lexical + vector retrieval fused with reciprocal rank fusion
+ *
+ * Each retriever returns its top MAX_RETRIEVAL_CANDIDATES regardless of the
+ * page, so the fused set, its size and the retrieval mode are the same on
+ * every page of a query; only the slice returned changes. A failing vector
+ * leg degrades to lexical-only instead of failing the search.
+ */
+async function hybridSearch(
+  query: string,
+  intent: SearchIntent,
+  explicitFilters: ExplicitFilters,
+  options: { skip: number; limit: number; useVectorSearch: boolean },
+  isPremium: boolean
+): Promise<HybridSearchResult> {
+  const { skip, limit, useVectorSearch } = options
+  const take = MAX_RETRIEVAL_CANDIDATES
+  const buildFilters = (firstParam: number) => buildRetrievalFilters(intent, explicitFilters, firstParam)
+
+  let lexicalMs = 0
+  let vectorMs = 0
+  const timed = async <T>(fn: () => Promise<T>, record: (ms: number) => void): Promise<T> => {
+    const start = Date.now()
+    try {
+      return await fn()
+    } finally {
+      record(Date.now() - start)
+    }
+  }
+
+  const runVector = useVectorSearch && isEmbeddingServiceAvailable()
+  const [lexical, vector] = await Promise.all([
+    timed(() => lexicalCandidates(query, buildFilters, take), ms => { lexicalMs = ms }),
+    runVector
+      ? timed(() => vectorCandidates(query, intent, buildFilters, take, isPremium), ms => { vectorMs = ms })
+          .catch((error): RankedCandidate[] => {
+            log.warn('SEARCH_VECTOR_ERROR', {
+              error: error instanceof Error ? error.message : String(error),
+            })
+            return []
+          })
+      : Promise.resolve([] as RankedCandidate[]),
+  ])
+
+  const fusionStart = Date.now()
+  const ranked = fuseWithRrf(lexical, vector)
+  const fused = ranked.slice(skip, skip + limit)
+  const fusionMs = Date.now() - fusionStart
+
+  const products = await fetchProductsByIds(fused.map(c => c.id), isPremium)
+  const byId = new Map(products.map((p: any) => [p.id, p]))
+
+  return {
+    products: fused
+      .filter(c => byId.has(c.id))
+      .map(c => ({
+        ...byId.get(c.id),
+        _relevanceScore: Math.round(c.relevance * 100),
+        ...(c.vectorSimilarity !== null ? { _vectorSimilarity: c.vectorSimilarity } : {}),
+      })),
+    fused,
+    total: ranked.length,
+    lexicalCount: lexical.length,
+    vectorCount: vector.length,
+    vectorUsed: vector.length > 0,
+    lexicalMs,
+    vectorMs,
+    fusionMs,
+  }
+}
+
+/**
+ * Retrieval scores for the returned products, in result order.
+ * Products that did not come from hybrid retrieval get no entry.
+ */
+function buildRetrievalScores(
+  products: Array<{ id: string }>,
+  fused: FusedCandidate[]
+): Array<Omit<FusedCandidate, 'id'> & { productId: string }> {
+  const byId = new Map(fused.map(c => [c.id, c]))
+  return products.flatMap(p => {
+    const candidate = byId.get(p.id)
+    if (!candidate) return []
+    const { id, ...scores } = candidate
+    return [{ productId: id, ...scores }]
+  })
+}
+
+/**
+ * Fetch products by id with prices (through product_links, Spec v1.2 §0.0).
+ * Order is not preserved.
+ */
+async function fetchProductsByIds(ids: string[], isPremium: boolean): Promise<any[]> {
+  if (ids.length === 0) {
     return []
   }
 
-  // Fetch full product details
   const baseSelect = {
     id: true,
     name: true,
@@ -1031,31 +1306,18 @@ async function vectorEnhancedSearch(
     } : {}),
   }
 
-  // Fetch products through product_links (Spec v1.2 §0.0)
   const rawProducts = await prisma.products.findMany({
-    where: { id: { in: productIds.map(p => p.id) } },
+    where: { id: { in: ids } },
     select: baseSelect,
   })
 
   // Batch fetch prices via product_links
-  const ids = rawProducts.map((p: { id: string }) => p.id)
-  const pricesMap = await batchGetPricesViaProductLinks(ids)
+  const pricesMap = await batchGetPricesViaProductLinks(rawProducts.map((p: { id: string }) => p.id))
 
-  const products = rawProducts.map((p: { id: string }) => ({
+  return rawProducts.map((p: { id: string }) => ({
     ...p,
     prices: pricesMap.get(p.id) || [],
   }))
-
-  // Create similarity map and sort by similarity
-  const similarityMap = new Map(productIds.map(p => [p.id, p.similarity]))
-
-  return products
-    .map((p: { id: string; [key: string]: unknown }) => ({
-      ...p,
-      _relevanceScore: Math.round((similarityMap.get(p.id) || 0) * 100),
-      _vectorSimilarity: similarityMap.get(p.id) || 0
-    }))
-    .sort((a: { _vectorSimilarity: number }, b: { _vectorSimilarity: number }) => b._vectorSimilarity - a._vectorSimilarity)
 }
 
 /**
@@ -1181,7 +1443,43 @@ function reRankProducts(products: any[], intent: SearchIntent): any[] {
  * - Everyone gets the conclusion (contextBand)
  * - Premium gets the reasoning (relativePricePct, positionInRange, meta)
  */
-function formatProduct(product: any, isPremium: boolean): any {
+/**
+ * Lowest delivered cost (item + shipping) of one listing across a product's
+ * offers, or null when no offer has known shipping.
+ */
+function getMinDeliveredPrice(product: any, landedCost: LandedCostContext): number | null {
+  let min: number | null = null
+  for (const price of product.prices ?? []) {
+    const { total } = calculateLandedCost({
+      offer: price,
+      rule: landedCost.rules.get(price.retailerId) ?? null,
+      destinationState: landedCost.destinationState,
+    })
+    if (total !== null && (min === null || total < min)) {
+      min = total
+    }
+  }
+  return min
+}
+
+/**
+ * Offers to show for a product: blocked offers are left out in HIDE mode
+ * and kept (with their reason code) in FLAG mode.
+ */
+function formatOffers(prices: any[], shipTo: ShipToContext | undefined, mode: RestrictedOfferMode): any[] {
+  if (!shipTo || mode === 'FLAG') {
+    return prices
+  }
+  return prices.filter((price: any) => !isBlockingRestriction(shipTo.restrictions.get(price.retailerId)))
+}
+
+function formatProduct(
+  product: any,
+  isPremium: boolean,
+  landedCost?: LandedCostContext,
+  shipTo?: ShipToContext,
+  restrictedOffers: RestrictedOfferMode = 'HIDE'
+): any {
   // Build price context - verdict for everyone, depth for premium
   let priceContext: any = undefined
   const priceSignal = product._priceSignal
@@ -1219,12 +1517,24 @@ function formatProduct(product: any, isPremium: boolean): any {
     relevanceScore: product._relevanceScore,
     // Price context - everyone gets verdict, premium gets depth
     ...(priceContext && { priceContext }),
-    prices: product.prices.map((price: any) => ({
+    prices: formatOffers(product.prices, shipTo, restrictedOffers).map((price: any) => ({
       id: price.id,
       price: parseFloat(price.price.toString()),
       currency: price.currency,
       url: price.url,
       inStock: price.inStock,
+      // Delivered (item + shipping) price, null when shipping is unknown
+      ...(landedCost && {
+        deliveredPrice: calculateLandedCost({
+          offer: price,
+          rule: landedCost.rules.get(price.retailerId) ?? null,
+          destinationState: landedCost.destinationState,
+        }).total
+      }),
+      // Ship-to restriction reason code, null when the offer ships normally
+      ...(shipTo && {
+        shippingRestriction: shipTo.restrictions.get(price.retailerId) ?? null
+      }),
       retailer: {
         id: price.retailers.id,
         name: price.retailers.name,
@@ -1350,9 +1660,41 @@ async function buildFacets(where: any, isPremium: boolean): Promise<Record<strin
 }
 
 /**
- * Get search suggestions based on partial query
+ * Autocomplete suggestion: a catalog completion (brand, caliber, product
+ * line, bullet type, product) or a static QUERY suggestion
+ */
+export interface SearchSuggestion {
+  text: string
+  kind: SuggestionKind | 'QUERY'
+  detail?: string
+}
+
+/**
+ * Get search suggestions based on partial query.
+ * Completes from the catalog suggestion index; falls back to static query
+ * suggestions when no index is loaded or nothing in the catalog matches.
+ */
+export async function getSearchSuggestions(
+  partialQuery: string,
+  limit: number = DEFAULT_SUGGESTION_LIMIT
+): Promise<SearchSuggestion[]> {
+  const matcher = await getSuggestionMatcher()
+  if (matcher) {
+    const matches = matcher.match(partialQuery, limit)
+    if (matches.length > 0) {
+      return matches
+    }
+  }
+
+  return getStaticSuggestions(partialQuery)
+    .slice(0, limit)
+    .map(text => ({ text, kind: 'QUERY' as const }))
+}
+
+/**
+ * Static query suggestions (platforms, common calibers, purposes)
  */
-export async function getSearchSuggestions(partialQuery: string): Promise<string[]> {
+function getStaticSuggestions(partialQuery: string): string[] {
   const suggestions: string[] = []
   const lowerQuery = partialQuery.toLowerCase()
 
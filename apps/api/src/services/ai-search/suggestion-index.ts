@@ -0,0 +1,99 @@
+/**
+ * Search Suggestion Index (API side)
+ *
+ * The harvester builds the autocomplete index from catalog data and stores
+ * it in Redis (see packages/db/search-suggestions.js). Each API instance
+ * keeps the compiled matcher in memory and checks the Redis version key at
+ * most every SUGGESTION_INDEX_CHECK_MS, reloading only when it changed, so a
+ * keystroke is an in-memory lookup.
+ *
+ * Redis errors keep the last loaded matcher; with none loaded, callers fall
+ * back to the static suggestions.
+ */
+
+import { getRedisClient } from '../../config/redis'
+import { loggers } from '../../config/logger'
+// Import search-suggestions directly to avoid circular import issues
+import {
+  createSuggestionMatcher,
+  SUGGESTION_INDEX_KEY,
+  SUGGESTION_INDEX_VERSION_KEY,
+  type SuggestionIndex,
+  type SuggestionMatcher,
+} from '@ironscout/db/search-suggestions.js'
+
+const log = loggers.ai
+
+/** How often the Redis version key is checked */
+export const SUGGESTION_INDEX_CHECK_MS = 30_000
+
+let matcher: SuggestionMatcher | null = null
+let lastCheckedAt = 0
+let pendingCheck: Promise<SuggestionMatcher | null> | null = null
+
+/**
+ * Reload the matcher if the published index version changed
+ */
+async function checkForNewIndex(): Promise<SuggestionMatcher | null> {
+  try {
+    const redis = getRedisClient()
+    const version = await redis.get(SUGGESTION_INDEX_VERSION_KEY)
+    if (!version || version === matcher?.version) {
+      return matcher
+    }
+
+    const startTime = Date.now()
+    const payload = await redis.get(SUGGESTION_INDEX_KEY)
+    if (!payload) {
+      return matcher
+    }
+
+    const index = JSON.parse(payload) as SuggestionIndex
+    matcher = createSuggestionMatcher(index)
+    log.info('SUGGESTION_INDEX_LOADED', {
+      version: matcher.version,
+      entries: matcher.size,
+      loadMs: Date.now() - startTime,
+    })
+  } catch (error) {
+    // Keep serving the last index
+    log.warn('SUGGESTION_INDEX_LOAD_ERROR', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+  return matcher
+}
+
+/**
+ * Current suggestion matcher, or null when no index has been published.
+ * Only the first call after each check interval waits on Redis.
+ */
+export async function getSuggestionMatcher(): Promise<SuggestionMatcher | null> {
+  if (!matcher && pendingCheck) {
+    return pendingCheck
+  }
+
+  const now = Date.now()
+  if (now - lastCheckedAt < SUGGESTION_INDEX_CHECK_MS) {
+    return matcher
+  }
+
+  if (!pendingCheck) {
+    lastCheckedAt = now
+    pendingCheck = checkForNewIndex().finally(() => {
+      pendingCheck = null
+    })
+  }
+
+  // Serve the loaded index while a newer one is fetched
+  return matcher ?? pendingCheck
+}
+
+/**
+ * Drop the in-memory index (tests and admin cache clears)
+ */
+export function resetSuggestionIndex(): void {
+  matcher = null
+  lastCheckedAt = 0
+  pendingCheck = null
+}
@@ -0,0 +1,636 @@
+/**
+ * Bulk Purchase Optimizer
+ *
+ * Answers "I need N rounds of caliber X for purpose Y": combines in-stock
+ * offers from current_visible_prices (ADR-015) into fulfilment plans that
+ * cover at least N rounds at the lowest delivered cost, splitting the order
+ * across at most K retailers.
+ *
+ * Cost model:
+ * - Listings are bought whole (a 50-round box counts as 50 rounds)
+ * - Shipping is charged once per retailer order via the retailer shipping rule
+ *   (free-shipping minimum on the order subtotal, PER_UNIT per listing), falling
+ *   back to shipping observed on the offers (see @ironscout/db/landed-cost.js)
+ * - Retailers whose shipping is unknown are left out and reported, since their
+ *   delivered cost cannot be compared
+ * - Retailers that cannot ship to the ship-to state (NO_SHIP, IN_PERSON_PICKUP)
+ *   are left out and reported; conditional restrictions (FFL, background
+ *   check) stay in with a reason code on the retailer order
+ * - Only inStock is tracked, so in-stock listings are assumed available in
+ *   any quantity
+ *
+ * Per retailer, a knapsack over round counts finds the cheapest cart covering
+ * each round total (up to one listing past N, so a bigger box that reaches the
+ * free-shipping minimum can win). A second pass allocates rounds across
+ * retailers on a coarse grid.
+ */
+
+import { prisma } from '@ironscout/db'
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
+// Import landed cost directly to avoid circular import issues
+import {
+  calculateOrderLandedCost,
+  loadShippingRules,
+  type ShippingRule,
+  type ShippingSource,
+} from '@ironscout/db/landed-cost.js'
+// Import shipping restrictions directly to avoid circular import issues
+import { isBlockingRestriction, loadShippingRestrictions } from '@ironscout/db/shipping-restrictions.js'
+import type { ShippingRestrictionReason } from '@ironscout/db'
+import { currentVisiblePriceWhere } from '../config/tiers'
+import { getCanonicalCalibers, isValidCaliber, type CaliberValue } from './gun-locker'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BulkOptimizerInput {
+  caliber: string
+  /** Rounds needed */
+  rounds: number
+  /** Product purpose filter (e.g. "Target", "Defense") */
+  purpose?: string
+  /** Split the order across at most this many retailers */
+  maxRetailers?: number
+  /** Two-letter destination state for shipping surcharges */
+  shipTo?: string
+}
+
+/** An in-stock offer for a product with a known round count */
+export interface BulkOffer {
+  offerId: string
+  productId: string
+  productName: string
+  brand: string | null
+  retailerId: string
+  retailerName: string
+  url: string
+  price: number
+  roundCount: number
+  shippingCost: number | null
+  freeShippingMinimum: number | null
+}
+
+export interface BulkPlanLine {
+  offerId: string
+  productId: string
+  productName: string
+  brand: string | null
+  url: string
+  price: number
+  roundCount: number
+  /** Listings (boxes/cases) to buy */
+  quantity: number
+  rounds: number
+  lineTotal: number
+  pricePerRound: number
+}
+
+export interface BulkRetailerOrder {
+  retailerId: string
+  retailerName: string
+  lines: BulkPlanLine[]
+  rounds: number
+  subtotal: number
+  shipping: number
+  shippingSource: ShippingSource
+  freeShippingApplied: boolean
+  total: number
+  pricePerRound: number
+  /** Conditional restriction for the ship-to state (e.g. FFL_REQUIRED) */
+  shippingRestriction: ShippingRestrictionReason | null
+}
+
+export interface BulkPlan {
+  retailerCount: number
+  rounds: number
+  /** Rounds bought beyond the request (listings are bought whole) */
+  surplusRounds: number
+  subtotal: number
+  shipping: number
+  total: number
+  pricePerRound: number
+  retailers: BulkRetailerOrder[]
+}
+
+export interface BulkExcludedRetailer {
+  retailerId: string
+  retailerName: string
+  reason: 'UNKNOWN_SHIPPING' | 'SHIPPING_RESTRICTED'
+}
+
+export interface BulkOptimizationResult {
+  caliber: CaliberValue
+  purpose: string | null
+  rounds: number
+  maxRetailers: number
+  shipTo: string | null
+  /** Cheapest first */
+  plans: BulkPlan[]
+  offersConsidered: number
+  excludedRetailers: BulkExcludedRetailer[]
+}
+
+export interface PlanBulkPurchaseOptions {
+  rounds: number
+  maxRetailers: number
+  rules: Map<string, ShippingRule>
+  shipTo?: string | null
+  /** Restriction reasons for shipTo, keyed by retailerId */
+  restrictions?: Map<string, ShippingRestrictionReason>
+  maxPlans?: number
+}
+
+export const BULK_OPTIMIZER_LIMITS = {
+  rounds: { min: 1, max: 20000 },
+  maxRetailers: { min: 1, max: 4, default: 2 },
+}
+
+const MAX_PLANS = 5
+/** Retailers entering the split pass, cheapest single-retailer cost first */
+const MAX_CANDIDATE_RETAILERS = 12
+/** Cheapest-per-round listings kept per retailer */
+const MAX_OFFERS_PER_RETAILER = 40
+/** Resolution of the split pass */
+const MAX_SPLIT_STEPS = 200
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Load in-stock offers for the caliber/purpose and return the cheapest
+ * fulfilment plans.
+ */
+export async function optimizeBulkPurchase(input: BulkOptimizerInput): Promise<BulkOptimizationResult> {
+  if (!isValidCaliber(input.caliber)) {
+    throw new Error(`Invalid caliber: ${input.caliber}. Must be one of: ${getCanonicalCalibers().join(', ')}`)
+  }
+
+  const maxRetailers = input.maxRetailers ?? BULK_OPTIMIZER_LIMITS.maxRetailers.default
+  const offers = await loadBulkOffers(input.caliber, input.purpose)
+  const retailerIds = offers.map((offer) => offer.retailerId)
+  const rules = await loadShippingRules(prisma, retailerIds)
+  const restrictions = await loadShippingRestrictions(prisma, retailerIds, input.shipTo)
+  const { plans, excludedRetailers } = planBulkPurchase(offers, {
+    rounds: input.rounds,
+    maxRetailers,
+    rules,
+    shipTo: input.shipTo,
+    restrictions,
+  })
+
+  return {
+    caliber: input.caliber as CaliberValue,
+    purpose: input.purpose ?? null,
+    rounds: input.rounds,
+    maxRetailers,
+    shipTo: input.shipTo ?? null,
+    plans,
+    offersConsidered: offers.length,
+    excludedRetailers,
+  }
+}
+
+/**
+ * Latest in-stock observation per listing for products of the caliber (and
+ * its child calibers) with a known round count.
+ */
+async function loadBulkOffers(caliber: string, purpose?: string): Promise<BulkOffer[]> {
+  const matching = getCaliberTaxonomy().matchingStrings(caliber)
+  const aliases = matching.length > 0 ? matching : [caliber]
+
+  const products = await prisma.products.findMany({
+    where: {
+      OR: aliases.map((alias) => ({ caliber: { equals: alias, mode: 'insensitive' as const } })),
+      roundCount: { gt: 0 },
+      ...(purpose ? { purpose: { contains: purpose, mode: 'insensitive' as const } } : {}),
+    },
+    select: { id: true, name: true, brand: true, roundCount: true },
+  })
+  if (products.length === 0) {
+    return []
+  }
+
+  const productsById = new Map(products.map((p) => [p.id, p]))
+  const rows = await prisma.current_visible_prices.findMany({
+    where: {
+      productId: { in: products.map((p) => p.id) },
+      ...currentVisiblePriceWhere(),
+    },
+    select: {
+      id: true,
+      productId: true,
+      retailerId: true,
+      retailerName: true,
+      url: true,
+      visiblePrice: true,
+      inStock: true,
+      shippingCost: true,
+    },
+    orderBy: { observedAt: 'desc' },
+  })
+
+  // Latest observation per listing decides stock
+  const seen = new Set<string>()
+  const latest = rows.filter((row) => {
+    const key = `${row.productId}|${row.retailerId}|${row.url}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return row.inStock
+  })
+
+  // Free-shipping minimum is only on the underlying price row
+  const minimums = await prisma.prices.findMany({
+    where: { id: { in: latest.map((row) => row.id) } },
+    select: { id: true, freeShippingMinimum: true },
+  })
+  const minimumById = new Map(minimums.map((m) => [m.id, m.freeShippingMinimum]))
+
+  const offers: BulkOffer[] = []
+  for (const row of latest) {
+    const product = row.productId ? productsById.get(row.productId) : undefined
+    if (!product?.roundCount) continue
+
+    const minimum = minimumById.get(row.id)
+    offers.push({
+      offerId: row.id,
+      productId: product.id,
+      productName: product.name,
+      brand: product.brand,
+      retailerId: row.retailerId,
+      retailerName: row.retailerName,
+      url: row.url,
+      price: Number(row.visiblePrice),
+      roundCount: product.roundCount,
+      shippingCost: row.shippingCost === null ? null : Number(row.shippingCost),
+      freeShippingMinimum: minimum === null || minimum === undefined ? null : Number(minimum),
+    })
+  }
+
+  return offers
+}
+
+// ============================================================================
+// Optimizer
+// ============================================================================
+
+interface RetailerCarts {
+  retailerId: string
+  retailerName: string
+  offers: BulkOffer[]
+  /** Offer index of the last listing added for each round total (in units) */
+  choice: Int32Array
+  /** Cheapest delivered cost covering at least r units, and the total that achieves it */
+  cover: Float64Array
+  coverAt: Int32Array
+}
+
+/**
+ * Cheapest plans covering `rounds` with at most `maxRetailers` retailers: the
+ * best plan for each retailer count up to the limit, then the cheapest
+ * single-retailer alternatives.
+ */
+export function planBulkPurchase(
+  offers: BulkOffer[],
+  options: PlanBulkPurchaseOptions
+): { plans: BulkPlan[]; excludedRetailers: BulkExcludedRetailer[] } {
+  const usable = offers.filter((o) => o.roundCount > 0 && o.price > 0)
+  if (usable.length === 0 || options.rounds <= 0) {
+    return { plans: [], excludedRetailers: [] }
+  }
+
+  // Work in units of the largest common box size to keep the knapsack small
+  const unit = usable.reduce((g, o) => gcd(g, o.roundCount), 0)
+  const needed = Math.ceil(options.rounds / unit)
+  const shipTo = options.shipTo ?? null
+  const restrictions = options.restrictions ?? new Map<string, ShippingRestrictionReason>()
+
+  const byRetailer = new Map<string, BulkOffer[]>()
+  for (const offer of usable) {
+    const list = byRetailer.get(offer.retailerId) ?? []
+    list.push(offer)
+    byRetailer.set(offer.retailerId, list)
+  }
+
+  const carts: RetailerCarts[] = []
+  const excludedRetailers: BulkExcludedRetailer[] = []
+  for (const [retailerId, retailerOffers] of byRetailer) {
+    if (isBlockingRestriction(restrictions.get(retailerId))) {
+      excludedRetailers.push({
+        retailerId,
+        retailerName: retailerOffers[0].retailerName,
+        reason: 'SHIPPING_RESTRICTED',
+      })
+      continue
+    }
+
+    const rule = options.rules.get(retailerId) ?? null
+    const result = buildRetailerCarts(retailerOffers, unit, needed, rule, shipTo)
+    if (result) {
+      carts.push(result)
+    } else {
+      excludedRetailers.push({
+        retailerId,
+        retailerName: retailerOffers[0].retailerName,
+        reason: 'UNKNOWN_SHIPPING',
+      })
+    }
+  }
+
+  carts.sort((a, b) => a.cover[needed] - b.cover[needed])
+  const candidates = carts.slice(0, MAX_CANDIDATE_RETAILERS)
+  const maxRetailers = Math.max(1, Math.min(options.maxRetailers, candidates.length))
+
+  const allocations: Array<Array<{ carts: RetailerCarts; units: number }>> = []
+  for (let k = 1; k <= maxRetailers; k++) {
+    const split = splitAcrossRetailers(candidates, needed, k)
+    if (split) allocations.push(split)
+  }
+  for (const single of candidates) {
+    allocations.push([{ carts: single, units: needed }])
+  }
+
+  const plans = new Map<string, BulkPlan>()
+  for (const allocation of allocations) {
+    const plan = buildPlan(allocation, unit, options.rounds, options.rules, shipTo, restrictions)
+    const key = plan.retailers
+      .map((order) => `${order.retailerId}:${order.lines.map((l) => `${l.offerId}x${l.quantity}`).join(',')}`)
+      .sort()
+      .join('|')
+    if (!plans.has(key)) plans.set(key, plan)
+  }
+
+  return {
+    plans: [...plans.values()]
+      .sort((a, b) => a.total - b.total || a.retailerCount - b.retailerCount)
+      .slice(0, options.maxPlans ?? MAX_PLANS),
+    excludedRetailers,
+  }
+}
+
+/**
+ * Unbounded knapsack over round totals for one retailer. Returns null when the
+ * retailer's shipping is unknown.
+ */
+function buildRetailerCarts(
+  retailerOffers: BulkOffer[],
+  unit: number,
+  needed: number,
+  rule: ShippingRule | null,
+  shipTo: string | null
+): RetailerCarts | null {
+  // Cheapest listing per product, best price per round first
+  const cheapest = new Map<string, BulkOffer>()
+  for (const offer of retailerOffers) {
+    const current = cheapest.get(offer.productId)
+    if (!current || offer.price < current.price) cheapest.set(offer.productId, offer)
+  }
+  const offers = [...cheapest.values()]
+    .sort((a, b) => a.price / a.roundCount - b.price / b.roundCount)
+    .slice(0, MAX_OFFERS_PER_RETAILER)
+
+  // Shipping estimate for carts: the order calculator with the retailer's
+  // highest observed shipping and lowest observed free-shipping minimum
+  const observedShipping = maxOrNull(offers.map((o) => o.shippingCost))
+  const observedMinimum = minOrNull(offers.map((o) => o.freeShippingMinimum))
+  const orderTotal = (itemTotal: number, units: number): number | null =>
+    calculateOrderLandedCost({
+      lines: [
+        {
+          offer: { price: itemTotal / units, shippingCost: observedShipping, freeShippingMinimum: observedMinimum },
+          quantity: units,
+        },
+      ],
+      rule,
+      destinationState: shipTo,
+    }).total
+
+  if (orderTotal(offers[0].price, 1) === null) {
+    return null
+  }
+
+  // PER_UNIT shipping scales with listings, so fold it into the listing cost
+  const perListing = rule?.shippingType === 'PER_UNIT' ? rule.perUnitRate ?? 0 : 0
+  const sizes = offers.map((o) => o.roundCount / unit)
+  const limit = needed + Math.max(...sizes) - 1
+
+  const cost = new Float64Array(limit + 1).fill(Infinity)
+  const itemTotal = new Float64Array(limit + 1)
+  const units = new Int32Array(limit + 1)
+  const choice = new Int32Array(limit + 1).fill(-1)
+  cost[0] = 0
+
+  for (let r = 1; r <= limit; r++) {
+    for (let i = 0; i < offers.length; i++) {
+      const prev = r - sizes[i]
+      if (prev < 0 || cost[prev] === Infinity) continue
+      const candidate = cost[prev] + offers[i].price + perListing
+      if (candidate < cost[r]) {
+        cost[r] = candidate
+        itemTotal[r] = itemTotal[prev] + offers[i].price
+        units[r] = units[prev] + 1
+        choice[r] = i
+      }
+    }
+  }
+
+  // cover[r] = cheapest delivered total among carts with at least r units
+  const cover = new Float64Array(needed + 1).fill(Infinity)
+  const coverAt = new Int32Array(needed + 1).fill(-1)
+  let best = Infinity
+  let bestAt = -1
+  for (let r = limit; r >= 1; r--) {
+    if (cost[r] !== Infinity) {
+      const total = orderTotal(itemTotal[r], units[r])
+      if (total !== null && total < best) {
+        best = total
+        bestAt = r
+      }
+    }
+    if (r <= needed) {
+      cover[r] = best
+      coverAt[r] = bestAt
+    }
+  }
+  cover[0] = 0
+
+  return {
+    retailerId: offers[0].retailerId,
+    retailerName: offers[0].retailerName,
+    offers,
+    choice,
+    cover,
+    coverAt,
+  }
+}
+
+/**
+ * Cheapest allocation of `needed` units across at most `maxRetailers`
+ * retailers, evaluated on a grid of at most MAX_SPLIT_STEPS steps.
+ */
+function splitAcrossRetailers(
+  candidates: RetailerCarts[],
+  needed: number,
+  maxRetailers: number
+): Array<{ carts: RetailerCarts; units: number }> | null {
+  const step = Math.ceil(needed / MAX_SPLIT_STEPS)
+  const steps = Math.ceil(needed / step)
+  const unitsAt = (s: number) => Math.min(needed, s * step)
+
+  // best[k][j] = cheapest cost covering j steps with at most k retailers
+  let best = Array.from({ length: maxRetailers + 1 }, () => {
+    const row = new Float64Array(steps + 1).fill(Infinity)
+    row[0] = 0
+    return row
+  })
+  // trace[i][k][j] = steps taken at retailer i (0 = skipped) and the step it came from
+  const takenSteps: Int32Array[][] = []
+  const fromStep: Int32Array[][] = []
+
+  for (const carts of candidates) {
+    const next = best.map((row) => Float64Array.from(row))
+    const taken = best.map(() => new Int32Array(steps + 1))
+    const from = best.map(() => new Int32Array(steps + 1))
+
+    for (let k = 1; k <= maxRetailers; k++) {
+      for (let j0 = 0; j0 < steps; j0++) {
+        const base = best[k - 1][j0]
+        if (base === Infinity) continue
+        for (let s = 1; s <= steps - j0; s++) {
+          const candidate = base + carts.cover[unitsAt(s)]
+          const j = j0 + s
+          if (candidate < next[k][j] - 0.005) {
+            next[k][j] = candidate
+            taken[k][j] = s
+            from[k][j] = j0
+          }
+        }
+      }
+    }
+
+    best = next
+    takenSteps.push(taken)
+    fromStep.push(from)
+  }
+
+  if (best[maxRetailers][steps] === Infinity) {
+    return null
+  }
+
+  const allocation: Array<{ carts: RetailerCarts; units: number }> = []
+  let k = maxRetailers
+  let j = steps
+  for (let i = candidates.length - 1; i >= 0 && j > 0; i--) {
+    const s = takenSteps[i][k][j]
+    if (s === 0) continue
+    allocation.push({ carts: candidates[i], units: unitsAt(s) })
+    j = fromStep[i][k][j]
+    k--
+  }
+
+  return allocation
+}
+
+function buildPlan(
+  allocation: Array<{ carts: RetailerCarts; units: number }>,
+  unit: number,
+  requestedRounds: number,
+  rules: Map<string, ShippingRule>,
+  shipTo: string | null,
+  restrictions: Map<string, ShippingRestrictionReason>
+): BulkPlan {
+  const retailers = allocation.map(({ carts, units }) => {
+    const counts = new Map<number, number>()
+    let r = carts.coverAt[units]
+    while (r > 0) {
+      const i = carts.choice[r]
+      counts.set(i, (counts.get(i) ?? 0) + 1)
+      r -= carts.offers[i].roundCount / unit
+    }
+
+    const cart = [...counts.entries()].map(([i, quantity]) => ({ offer: carts.offers[i], quantity }))
+    const cost = calculateOrderLandedCost({
+      lines: cart,
+      rule: rules.get(carts.retailerId) ?? null,
+      destinationState: shipTo,
+    })
+
+    const lines: BulkPlanLine[] = cart
+      .map(({ offer, quantity }) => ({
+        offerId: offer.offerId,
+        productId: offer.productId,
+        productName: offer.productName,
+        brand: offer.brand,
+        url: offer.url,
+        price: offer.price,
+        roundCount: offer.roundCount,
+        quantity,
+        rounds: offer.roundCount * quantity,
+        lineTotal: roundCents(offer.price * quantity),
+        pricePerRound: roundPerRound(offer.price / offer.roundCount),
+      }))
+      .sort((a, b) => a.pricePerRound - b.pricePerRound)
+
+    const rounds = lines.reduce((sum, line) => sum + line.rounds, 0)
+    // Known by construction: retailers with unknown shipping are excluded
+    const shipping = cost.shipping ?? 0
+    const total = cost.total ?? cost.itemTotal
+
+    return {
+      retailerId: carts.retailerId,
+      retailerName: carts.retailerName,
+      lines,
+      rounds,
+      subtotal: cost.itemTotal,
+      shipping,
+      shippingSource: cost.shippingSource,
+      freeShippingApplied: cost.freeShippingApplied,
+      total,
+      pricePerRound: roundPerRound(total / rounds),
+      shippingRestriction: restrictions.get(carts.retailerId) ?? null,
+    }
+  })
+
+  retailers.sort((a, b) => b.rounds - a.rounds)
+  const rounds = retailers.reduce((sum, order) => sum + order.rounds, 0)
+  const total = roundCents(retailers.reduce((sum, order) => sum + order.total, 0))
+
+  return {
+    retailerCount: retailers.length,
+    rounds,
+    surplusRounds: Math.max(0, rounds - requestedRounds),
+    subtotal: roundCents(retailers.reduce((sum, order) => sum + order.subtotal, 0)),
+    shipping: roundCents(retailers.reduce((sum, order) => sum + order.shipping, 0)),
+    total,
+    pricePerRound: roundPerRound(total / rounds),
+    retailers,
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b)
+}
+
+function maxOrNull(values: Array<number | null>): number | null {
+  const known = values.filter((v): v is number => v !== null)
+  return known.length > 0 ? Math.max(...known) : null
+}
+
+function minOrNull(values: Array<number | null>): number | null {
+  const known = values.filter((v): v is number => v !== null)
+  return known.length > 0 ? Math.min(...known) : null
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function roundPerRound(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
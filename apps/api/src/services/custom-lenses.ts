@@ -0,0 +1,209 @@
+/**
+ * Custom Lenses Service
+ *
+ * Per-user search lenses (user_lenses). Rules are validated against the same
+ * field vocabulary as the governed system lenses; the stored lens is exposed
+ * to search as lens id "user:<id>" and only resolves for its owner.
+ */
+
+import { prisma } from '@ironscout/db'
+import {
+  CUSTOM_LENS_LIMITS,
+  fromCustomLensId,
+  toCustomLens,
+  toCustomLensId,
+  validateCustomLensRules,
+  type CustomLens,
+  type CustomLensId,
+  type EligibilityRule,
+  type OrderingRule,
+} from './lens'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CustomLensDTO {
+  id: CustomLensId
+  label: string
+  description: string | null
+  eligibility: EligibilityRule[]
+  ordering: OrderingRule[]
+  version: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomLensInput {
+  label: string
+  description?: string | null
+  eligibility?: unknown[]
+  ordering: unknown[]
+}
+
+export type UpdateCustomLensInput = Partial<CustomLensInput>
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * List a user's custom lenses, oldest first
+ */
+export async function getCustomLenses(userId: string): Promise<CustomLensDTO[]> {
+  const records = await prisma.user_lenses.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return records.map(mapToDTO)
+}
+
+/**
+ * Resolve a "user:<id>" lens id for search.
+ * Returns null when the lens does not exist or belongs to another user.
+ */
+export async function resolveCustomLens(
+  userId: string,
+  lensId: CustomLensId
+): Promise<CustomLens | null> {
+  const record = await prisma.user_lenses.findFirst({
+    where: { id: fromCustomLensId(lensId), userId },
+  })
+
+  return record ? toCustomLens(record) : null
+}
+
+/**
+ * Create a custom lens
+ * @throws Error if the rules are invalid or the user is at the lens limit
+ */
+export async function createCustomLens(
+  userId: string,
+  input: CustomLensInput
+): Promise<CustomLensDTO> {
+  const data = normalizeInput(input)
+
+  const count = await prisma.user_lenses.count({ where: { userId } })
+  if (count >= CUSTOM_LENS_LIMITS.maxLensesPerUser) {
+    throw new Error(`Lens count must be at most ${CUSTOM_LENS_LIMITS.maxLensesPerUser}`)
+  }
+
+  const record = await prisma.user_lenses.create({
+    data: {
+      userId,
+      label: data.label,
+      description: data.description,
+      eligibility: data.eligibility as object[],
+      ordering: data.ordering as object[],
+    },
+  })
+
+  return mapToDTO(record)
+}
+
+/**
+ * Update a custom lens. Every update bumps the revision, which is reported
+ * as the lens version in search metadata and telemetry.
+ * @throws Error if lens not found or doesn't belong to user
+ */
+export async function updateCustomLens(
+  userId: string,
+  lensId: string,
+  input: UpdateCustomLensInput
+): Promise<CustomLensDTO> {
+  const existing = await findOwned(userId, lensId)
+
+  const data = normalizeInput({
+    label: input.label ?? existing.label,
+    description: input.description !== undefined ? input.description : existing.description,
+    eligibility: input.eligibility ?? (existing.eligibility as unknown[]),
+    ordering: input.ordering ?? (existing.ordering as unknown[]),
+  })
+
+  const record = await prisma.user_lenses.update({
+    where: { id: existing.id },
+    data: {
+      label: data.label,
+      description: data.description,
+      eligibility: data.eligibility as object[],
+      ordering: data.ordering as object[],
+      revision: { increment: 1 },
+    },
+  })
+
+  return mapToDTO(record)
+}
+
+/**
+ * Delete a custom lens
+ * @throws Error if lens not found or doesn't belong to user
+ */
+export async function deleteCustomLens(userId: string, lensId: string): Promise<void> {
+  const existing = await findOwned(userId, lensId)
+
+  await prisma.user_lenses.delete({ where: { id: existing.id } })
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Accepts either the record id or the "user:<id>" lens id
+ */
+async function findOwned(userId: string, lensId: string) {
+  const id = lensId.startsWith('user:') ? fromCustomLensId(lensId as CustomLensId) : lensId
+  const record = await prisma.user_lenses.findFirst({ where: { id, userId } })
+
+  if (!record) {
+    throw new Error('Item not found') // Don't leak that it exists for another user
+  }
+
+  return record
+}
+
+function normalizeInput(input: CustomLensInput) {
+  const label = input.label.trim()
+  if (!label || label.length > CUSTOM_LENS_LIMITS.maxLabelLength) {
+    throw new Error(`label must be 1 to ${CUSTOM_LENS_LIMITS.maxLabelLength} characters`)
+  }
+
+  const description = input.description?.trim() || null
+  if (description && description.length > CUSTOM_LENS_LIMITS.maxDescriptionLength) {
+    throw new Error(`description must be at most ${CUSTOM_LENS_LIMITS.maxDescriptionLength} characters`)
+  }
+
+  const eligibility = input.eligibility ?? []
+  const ordering = input.ordering
+  const errors = validateCustomLensRules({ eligibility, ordering })
+  if (errors.length > 0) {
+    // Messages read "<path> must be ..." so routes map them to 400
+    throw new Error(errors.join('; '))
+  }
+
+  return { label, description, eligibility, ordering }
+}
+
+function mapToDTO(record: {
+  id: string
+  label: string
+  description: string | null
+  eligibility: unknown
+  ordering: unknown
+  revision: number
+  createdAt: Date
+  updatedAt: Date
+}): CustomLensDTO {
+  const lens = toCustomLens(record)
+  return {
+    id: toCustomLensId(record.id),
+    label: record.label,
+    description: record.description,
+    eligibility: lens.eligibility ?? [],
+    ordering: lens.ordering,
+    version: lens.version,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  }
+}
@@ -139,6 +139,7 @@ export async function getWatchlistPreview(
     where: {
       userId,
       deletedAt: null,
+      intentType: 'SKU', // Saved searches have no single product to show
     },
     include: {
       products: {
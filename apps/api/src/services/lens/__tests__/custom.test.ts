@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validateCustomLensRules,
+  toCustomLens,
+  toCustomLensId,
+  fromCustomLensId,
+} from '../custom'
+import { selectLens, InvalidLensError } from '../selector'
+import { applyEligibility } from '../eligibility'
+import { applyOrdering } from '../ordering'
+import { isCustomLensId, isValidLensId, AggregatedProduct } from '../types'
+
+// "Subsonic .300 BLK for suppressed SBR": brass case, cheapest per round first
+const record = {
+  id: 'clens1',
+  label: 'Suppressed SBR',
+  description: 'Brass-cased, cheapest per round',
+  eligibility: [{ field: 'casing', operator: 'EQ', value: 'Brass' }],
+  ordering: [
+    { field: 'pricePerRound', direction: 'ASC' },
+    { field: 'productId', direction: 'ASC' },
+  ],
+  revision: 3,
+}
+
+function product(overrides: Partial<AggregatedProduct>): AggregatedProduct {
+  return {
+    productId: 'p1',
+    bulletType: null,
+    grain: 220,
+    casing: 'Brass',
+    packSize: 20,
+    canonicalConfidence: 0.9,
+    price: 20,
+    availability: 'IN_STOCK',
+    pricePerRound: 1,
+    deliveredPricePerRound: null,
+    shippingRestricted: null,
+    _originalProduct: {},
+    _visibleOfferCount: 1,
+    ...overrides,
+  }
+}
+
+describe('custom lens ids', () => {
+  it('uses the user: namespace, separate from system lenses', () => {
+    const id = toCustomLensId('clens1')
+
+    expect(id).toBe('user:clens1')
+    expect(isCustomLensId(id)).toBe(true)
+    expect(isValidLensId(id)).toBe(false)
+    expect(fromCustomLensId(id)).toBe('clens1')
+    expect(isCustomLensId('user:')).toBe(false)
+    expect(isCustomLensId('RANGE')).toBe(false)
+  })
+})
+
+describe('validateCustomLensRules', () => {
+  it('accepts rules within the field vocabulary', () => {
+    expect(validateCustomLensRules({ eligibility: record.eligibility, ordering: record.ordering })).toEqual([])
+    expect(
+      validateCustomLensRules({
+        eligibility: [
+          { field: 'grain', operator: 'GTE', value: 200 },
+          { field: 'availability', operator: 'IN', value: ['IN_STOCK', 'LOW_STOCK'] },
+          { field: 'deliveredPricePerRound', operator: 'IS_NOT_NULL' },
+          { field: 'shippingRestricted', operator: 'NOT_EQ', value: true },
+        ],
+        ordering: [{ field: 'deliveredPricePerRound', direction: 'ASC' }],
+      })
+    ).toEqual([])
+  })
+
+  it('rejects unknown fields and operators', () => {
+    const errors = validateCustomLensRules({
+      eligibility: [
+        { field: 'isSubsonic', operator: 'EQ', value: true },
+        { field: 'casing', operator: 'LIKE', value: 'Brass' },
+      ],
+      ordering: [{ field: 'embeddingScore', direction: 'DESC' }],
+    })
+
+    expect(errors).toHaveLength(3)
+    expect(errors[0]).toMatch(/^eligibility\[0\]\.field must be one of/)
+    expect(errors[1]).toMatch(/^eligibility\[1\]\.operator must be one of/)
+    expect(errors[2]).toMatch(/^ordering\[0\]\.field must be one of/)
+  })
+
+  it('rejects values that eligibility would never match', () => {
+    const errors = validateCustomLensRules({
+      eligibility: [
+        { field: 'grain', operator: 'EQ', value: '220' },
+        { field: 'casing', operator: 'GTE', value: 'Brass' },
+        { field: 'casing', operator: 'IN', value: 'Brass' },
+        { field: 'availability', operator: 'EQ', value: 'BACKORDER' },
+        { field: 'grain', operator: 'IS_NULL', value: 220 },
+      ],
+      ordering: [{ field: 'price', direction: 'ASC' }],
+    })
+
+    expect(errors).toEqual([
+      'eligibility[0].value must be a number for grain',
+      'eligibility[1].operator must be EQ, NOT_EQ, IN, NOT_IN, IS_NULL or IS_NOT_NULL for casing',
+      'eligibility[2].value must be an array of 1 to 20 values for IN',
+      'eligibility[3].value must be one of: OUT_OF_STOCK, LOW_STOCK, IN_STOCK',
+      'eligibility[4].value must be omitted for IS_NULL',
+    ])
+  })
+
+  it('requires ordering without repeated fields', () => {
+    expect(validateCustomLensRules({ eligibility: [], ordering: [] })).toEqual(['ordering must be 1 to 5 rules'])
+    expect(
+      validateCustomLensRules({
+        eligibility: [],
+        ordering: [
+          { field: 'price', direction: 'ASC' },
+          { field: 'price', direction: 'DESC' },
+          { field: 'shippingRestricted', direction: 'ASC' },
+          { field: 'grain', direction: 'UP' },
+        ],
+      })
+    ).toEqual([
+      'ordering[1].field must be unique (price repeats)',
+      expect.stringMatching(/^ordering\[2\]\.field must be one of/),
+      'ordering[3].direction must be ASC or DESC',
+    ])
+  })
+})
+
+describe('toCustomLens', () => {
+  it('builds a trigger-less lens versioned by revision', () => {
+    const lens = toCustomLens(record)
+
+    expect(lens).toMatchObject({
+      id: 'user:clens1',
+      label: 'Suppressed SBR',
+      triggers: [],
+      version: 'custom-r3',
+    })
+    expect(toCustomLens({ ...record, eligibility: [] }).eligibility).toBeUndefined()
+  })
+
+  it('filters and orders like a system lens', () => {
+    const lens = toCustomLens(record)
+    const products = [
+      product({ productId: 'steel', casing: 'Steel', pricePerRound: 0.5 }),
+      product({ productId: 'b', pricePerRound: 1.2 }),
+      product({ productId: 'a', pricePerRound: 0.9 }),
+    ]
+
+    const { eligible } = applyEligibility(products, lens.eligibility ?? [])
+    const ordered = applyOrdering(eligible, lens.ordering)
+
+    expect(ordered.map((p) => p.productId)).toEqual(['a', 'b'])
+  })
+})
+
+describe('selectLens with a custom lens', () => {
+  const lens = toCustomLens(record)
+
+  it('selects the owner-resolved custom lens as a user override', () => {
+    const result = selectLens({ usage_hint: { value: 'RANGE', confidence: 0.9 } }, 'user:clens1', 'test-model', lens)
+
+    expect(result.lens).toBe(lens)
+    expect(result.metadata).toMatchObject({
+      id: 'user:clens1',
+      autoApplied: false,
+      reasonCode: 'USER_OVERRIDE',
+      version: 'custom-r3',
+    })
+    expect(result.matchedLensIds).toEqual(['RANGE'])
+  })
+
+  it('rejects custom ids that were not resolved for the user', () => {
+    expect(() => selectLens({}, 'user:clens1', 'test-model')).toThrow(InvalidLensError)
+    expect(() => selectLens({}, 'user:other', 'test-model', lens)).toThrow(InvalidLensError)
+  })
+
+  it('ignores a resolved custom lens when a system lens is selected', () => {
+    expect(selectLens({}, 'MATCH', 'test-model', lens).lens.id).toBe('MATCH')
+  })
+})
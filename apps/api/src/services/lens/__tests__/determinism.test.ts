@@ -26,6 +26,8 @@ function createProduct(overrides: Partial<AggregatedProduct> = {}): AggregatedPr
     price: 29.99,
     availability: 'IN_STOCK',
     pricePerRound: 0.5998,
+    deliveredPricePerRound: null,
+    shippingRestricted: null,
     _originalProduct: {},
     _visibleOfferCount: 3,
     ...overrides,
@@ -3,6 +3,7 @@ import {
   evaluateRule,
   evaluateEligibility,
   applyEligibility,
+  applyShipToEligibility,
   countFilterReasons,
 } from '../eligibility'
 import { EligibilityRule, AggregatedProduct } from '../types'
@@ -19,6 +20,8 @@ function createProduct(overrides: Partial<AggregatedProduct> = {}): AggregatedPr
     price: 29.99,
     availability: 'IN_STOCK',
     pricePerRound: 0.5998,
+    deliveredPricePerRound: null,
+    shippingRestricted: null,
     _originalProduct: {},
     _visibleOfferCount: 3,
     ...overrides,
@@ -349,6 +352,28 @@ describe('applyEligibility', () => {
   })
 })
 
+describe('applyShipToEligibility', () => {
+  const rules: EligibilityRule[] = [{ field: 'bulletType', operator: 'IN', value: ['FMJ'] }]
+
+  it('leaves lens rules unchanged without a ship-to state or in FLAG mode', () => {
+    expect(applyShipToEligibility(rules)).toBe(rules)
+    expect(applyShipToEligibility(rules, 'HIDE', false)).toBe(rules)
+    expect(applyShipToEligibility(rules, 'FLAG', true)).toBe(rules)
+  })
+
+  it('hides products that cannot ship to the buyer in HIDE mode', () => {
+    const effective = applyShipToEligibility(rules, 'HIDE', true)
+    const products = [
+      createProduct({ productId: 'ships', shippingRestricted: false }),
+      createProduct({ productId: 'blocked', shippingRestricted: true }),
+    ]
+
+    const { eligible, filtered } = applyEligibility(products, effective)
+    expect(eligible.map(p => p.productId)).toEqual(['ships'])
+    expect(filtered.map(p => p.productId)).toEqual(['blocked'])
+  })
+})
+
 describe('countFilterReasons', () => {
   it('counts unique filter reasons', () => {
     const filterReasons = new Map([
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest'
 import {
   createComparator,
   applyOrdering,
+  applyPriceBasis,
   extractSortKeys,
   verifyDeterminism,
 } from '../ordering'
@@ -19,6 +20,8 @@ function createProduct(overrides: Partial<AggregatedProduct> = {}): AggregatedPr
     price: 29.99,
     availability: 'IN_STOCK',
     pricePerRound: 0.5998,
+    deliveredPricePerRound: null,
+    shippingRestricted: null,
     _originalProduct: {},
     _visibleOfferCount: 3,
     ...overrides,
@@ -188,6 +191,41 @@ describe('applyOrdering', () => {
   })
 })
 
+describe('applyPriceBasis', () => {
+  const rules: OrderingRule[] = [
+    { field: 'availability', direction: 'DESC' },
+    { field: 'pricePerRound', direction: 'ASC' },
+  ]
+
+  it('leaves lens ordering unchanged for ITEM', () => {
+    expect(applyPriceBasis(rules)).toBe(rules)
+    expect(applyPriceBasis(rules, 'ITEM')).toBe(rules)
+  })
+
+  it('orders on delivered price per round first for DELIVERED', () => {
+    expect(applyPriceBasis(rules, 'DELIVERED')).toEqual([
+      { field: 'availability', direction: 'DESC' },
+      { field: 'deliveredPricePerRound', direction: 'ASC' },
+      { field: 'pricePerRound', direction: 'ASC' },
+    ])
+  })
+
+  it('ranks cheaper delivered offers ahead of cheaper item prices', () => {
+    const products = [
+      createProduct({ productId: 'cheap-item', pricePerRound: 0.30, deliveredPricePerRound: 0.42 }),
+      createProduct({ productId: 'free-ship', pricePerRound: 0.34, deliveredPricePerRound: 0.34 }),
+      createProduct({ productId: 'unknown-ship', pricePerRound: 0.25, deliveredPricePerRound: null }),
+    ]
+
+    expect(applyOrdering(products, rules).map(p => p.productId)).toEqual(['unknown-ship', 'cheap-item', 'free-ship'])
+    expect(applyOrdering(products, applyPriceBasis(rules, 'DELIVERED')).map(p => p.productId)).toEqual([
+      'free-ship',
+      'cheap-item',
+      'unknown-ship',
+    ])
+  })
+})
+
 describe('extractSortKeys', () => {
   it('extracts sort keys for all ordering fields', () => {
     const product = createProduct({
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { buildLensEvalEvent } from '../telemetry'
 import { selectLens } from '../selector'
+import { toCustomLens } from '../custom'
 import type { AggregatedProduct, LensSignals } from '../types'
 import type { SignalExtractionResult } from '../signal-extractor'
 
@@ -15,6 +16,8 @@ function createProduct(overrides: Partial<AggregatedProduct> = {}): AggregatedPr
     price: 12.5,
     availability: 'IN_STOCK',
     pricePerRound: 0.25,
+    deliveredPricePerRound: null,
+    shippingRestricted: null,
     _originalProduct: {},
     _visibleOfferCount: 2,
     ...overrides,
@@ -77,4 +80,52 @@ describe('lens telemetry', () => {
     expect(event.results.offerSummary?.[0]?.priceMeta.sampleCount).toBe(2)
     expect(event.results.offerSummary?.[0]?.priceMeta.asOf).toBe(asOf.toISOString())
   })
+
+  it('records custom lenses in the user: namespace with their revision', () => {
+    const signals: LensSignals = {
+      usage_hint: { value: 'RANGE', confidence: 0.9 },
+    }
+    const customLens = toCustomLens({
+      id: 'clens1',
+      label: 'Brass, cheapest first',
+      description: null,
+      eligibility: [{ field: 'casing', operator: 'EQ', value: 'Brass' }],
+      ordering: [{ field: 'pricePerRound', direction: 'ASC' }],
+      revision: 2,
+    })
+    const selection = selectLens(signals, 'user:clens1', 'intent-v2.1.0', customLens)
+
+    const event = buildLensEvalEvent({
+      requestId: 'req-2',
+      query: '300 blk subsonic',
+      extractionResult: {
+        signals,
+        intent: { originalQuery: '300 blk subsonic', confidence: 0.9 },
+        status: 'OK',
+        extractorModelId: 'intent-v2.1.0',
+        latencyMs: 5,
+      },
+      selectionResult: selection,
+      userOverrideId: 'user:clens1',
+      candidateCount: 1,
+      eligibleCount: 1,
+      filteredByReason: {},
+      orderedProducts: [createProduct({ casing: 'Brass' })],
+      config: {
+        priceLookbackDays: 7,
+        asOfTime: new Date('2026-01-21T15:04:05Z'),
+      },
+      timing: { intentMs: 1, offersMs: 1, rankMs: 1, totalMs: 3 },
+      status: 'OK',
+    })
+
+    expect(event.lens).toMatchObject({
+      overrideId: 'user:clens1',
+      selectedId: 'user:clens1',
+      version: 'custom-r2',
+      reasonCode: 'USER_OVERRIDE',
+    })
+    // System lens candidates are still evaluated for audit
+    expect(event.lens.candidates.map((c) => c.lensId)).toContain('RANGE')
+  })
 })
@@ -8,8 +8,19 @@
  * - price: min(offer.price) across visible offers
  * - availability: max(offer.availabilityRank) where IN_STOCK > LOW_STOCK > OUT_OF_STOCK
  * - pricePerRound: derived from aggregated price and canonical packSize
+ * - deliveredPricePerRound: min(offer landed cost / packSize) for one listing
+ * - shippingRestricted: every offer blocked for the ship-to state
+ *
+ * With a ship-to context, offers that cannot ship to the buyer's state
+ * (NO_SHIP, IN_PERSON_PICKUP) are left out of price, availability and
+ * delivered price.
  */
 
+// Import landed cost directly to avoid circular import issues
+import { deliveredPricePerRound, type ShippingRule } from '@ironscout/db/landed-cost.js'
+// Import shipping restrictions directly to avoid circular import issues
+import { isBlockingRestriction } from '@ironscout/db/shipping-restrictions.js'
+import type { ShippingRestrictionReason } from '@ironscout/db'
 import type { AggregatedProduct, Availability } from './types'
 import { AVAILABILITY_RANK } from './types'
 
@@ -25,6 +36,29 @@ export interface VisibleOffer {
   availability?: Availability | null
   retailerId: string
   retailerName?: string
+  /** Observed shipping for this offer (used when the retailer has no priced rule) */
+  shippingCost?: number | { toString(): string } | null
+}
+
+/**
+ * Shipping context for delivered pricing.
+ * Without it, deliveredPricePerRound uses only shipping observed on offers.
+ */
+export interface LandedCostContext {
+  /** Shipping rules keyed by retailerId */
+  rules: Map<string, ShippingRule>
+  /** Two-letter destination state for surcharges */
+  destinationState?: string | null
+}
+
+/**
+ * Buyer's ship-to state and the restrictions that apply to it.
+ */
+export interface ShipToContext {
+  /** Two-letter destination state */
+  state: string
+  /** Restriction reason for the state, keyed by retailerId */
+  restrictions: Map<string, ShippingRestrictionReason>
 }
 
 /**
@@ -141,6 +175,40 @@ function calculatePricePerRound(price: number | null, packSize: number | null):
   return Math.round(ppr * 10000) / 10000
 }
 
+/**
+ * Get the lowest delivered price per round across offers.
+ * Offers with unknown shipping are skipped; null if none is known.
+ */
+function getMinDeliveredPricePerRound(
+  offers: VisibleOffer[],
+  packSize: number | null,
+  context?: LandedCostContext
+): number | null {
+  let min: number | null = null
+  for (const offer of offers) {
+    const dppr = deliveredPricePerRound({
+      offer,
+      roundCount: packSize,
+      rule: context?.rules.get(offer.retailerId) ?? null,
+      destinationState: context?.destinationState ?? null,
+    })
+    if (dppr !== null && (min === null || dppr < min)) {
+      min = dppr
+    }
+  }
+  return min
+}
+
+/**
+ * Offers that can be delivered to the ship-to state (all offers without one).
+ */
+export function getShippableOffers<T extends { retailerId: string }>(offers: T[], shipTo?: ShipToContext): T[] {
+  if (!shipTo) {
+    return offers
+  }
+  return offers.filter(offer => !isBlockingRestriction(shipTo.restrictions.get(offer.retailerId)))
+}
+
 /**
  * Floor a confidence value to 2 decimal places.
  * Per search-lens-v1.md: canonicalConfidence is floored to 2 decimals.
@@ -258,18 +326,29 @@ function normalizeCasing(casing: string | null | undefined): string | null {
  * Aggregate a product with its offers into an AggregatedProduct.
  *
  * @param product - The product with its visible offers
+ * @param landedCost - Optional shipping context for deliveredPricePerRound
+ * @param shipTo - Optional ship-to state and restrictions
  * @returns The aggregated product view for lens evaluation
  */
-export function aggregateProduct(product: ProductWithOffers): AggregatedProduct {
+export function aggregateProduct(
+  product: ProductWithOffers,
+  landedCost?: LandedCostContext,
+  shipTo?: ShipToContext
+): AggregatedProduct {
   const visibleOffers = product.prices || []
+  const shippableOffers = getShippableOffers(visibleOffers, shipTo)
 
   // Aggregate offer-level fields
-  const price = getMinPrice(visibleOffers)
-  const availability = getBestAvailability(visibleOffers)
+  const price = getMinPrice(shippableOffers)
+  const availability = getBestAvailability(shippableOffers)
 
   // Derive price per round
   const packSize = product.roundCount ?? null
   const pricePerRound = calculatePricePerRound(price, packSize)
+  const deliveredPricePerRound = getMinDeliveredPricePerRound(shippableOffers, packSize, landedCost)
+  const shippingRestricted = shipTo
+    ? visibleOffers.length > 0 && shippableOffers.length === 0
+    : null
 
   // Per search-lens-v1.md: canonicalConfidence source = ProductResolver.matchScore
   // Use linkConfidence (from product_links.confidence) if available, fall back to dataConfidence
@@ -298,6 +377,8 @@ export function aggregateProduct(product: ProductWithOffers): AggregatedProduct
 
     // Derived fields
     pricePerRound,
+    deliveredPricePerRound,
+    shippingRestricted,
 
     // Original data for response
     _originalProduct: product,
@@ -309,10 +390,16 @@ export function aggregateProduct(product: ProductWithOffers): AggregatedProduct
  * Aggregate multiple products with their offers.
  *
  * @param products - Products with offers
+ * @param landedCost - Optional shipping context for deliveredPricePerRound
+ * @param shipTo - Optional ship-to state and restrictions
  * @returns Aggregated product views
  */
-export function aggregateProducts(products: ProductWithOffers[]): AggregatedProduct[] {
-  return products.map(aggregateProduct)
+export function aggregateProducts(
+  products: ProductWithOffers[],
+  landedCost?: LandedCostContext,
+  shipTo?: ShipToContext
+): AggregatedProduct[] {
+  return products.map(product => aggregateProduct(product, landedCost, shipTo))
 }
 
 /**
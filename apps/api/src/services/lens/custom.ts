@@ -0,0 +1,241 @@
+/**
+ * Custom Lenses
+ *
+ * User-defined lenses saved per user. They reuse the system lens machinery
+ * (eligibility, ordering, telemetry) but:
+ * - Live in the "user:<id>" id namespace, never in LENS_REGISTRY
+ * - Have no triggers, so they are only applied when explicitly selected
+ * - Are validated against the same field vocabulary as system lenses
+ *   (EXPECTED_FIELDS), plus operator and value type checks since they are
+ *   user input rather than reviewed code
+ */
+
+import type {
+  Availability,
+  CustomLens,
+  CustomLensId,
+  EligibilityOperator,
+  EligibilityRule,
+  OrderingRule,
+  SortDirection,
+} from './types'
+import { AVAILABILITY_RANK, CUSTOM_LENS_ID_PREFIX } from './types'
+import { EXPECTED_FIELDS } from './definitions'
+
+/**
+ * Limits on user-defined lenses.
+ */
+export const CUSTOM_LENS_LIMITS = {
+  maxLensesPerUser: 20,
+  maxLabelLength: 60,
+  maxDescriptionLength: 280,
+  maxEligibilityRules: 10,
+  maxOrderingRules: 5,
+  maxInValues: 20,
+} as const
+
+/**
+ * Value type of each field in EXPECTED_FIELDS.
+ * Eligibility does no type coercion, so rule values must match exactly.
+ */
+const FIELD_VALUE_TYPES: Record<string, 'string' | 'number' | 'boolean'> = {
+  productId: 'string',
+  canonicalConfidence: 'number',
+  bulletType: 'string',
+  grain: 'number',
+  casing: 'string',
+  packSize: 'number',
+  price: 'number',
+  pricePerRound: 'number',
+  deliveredPricePerRound: 'number',
+  availability: 'string',
+  shippingRestricted: 'boolean',
+}
+
+/**
+ * Fields that have a defined sort value (see ordering.ts getSortValue).
+ */
+const SORTABLE_FIELDS = new Set([
+  'productId',
+  'canonicalConfidence',
+  'bulletType',
+  'grain',
+  'casing',
+  'packSize',
+  'price',
+  'pricePerRound',
+  'deliveredPricePerRound',
+  'availability',
+])
+
+const OPERATORS: readonly EligibilityOperator[] = [
+  'EQ', 'NOT_EQ', 'IN', 'NOT_IN', 'GTE', 'LTE', 'IS_NULL', 'IS_NOT_NULL',
+]
+
+const DIRECTIONS: readonly SortDirection[] = ['ASC', 'DESC']
+
+/**
+ * Lens rules as submitted by a user (not yet validated).
+ */
+export interface CustomLensRulesInput {
+  eligibility: unknown[]
+  ordering: unknown[]
+}
+
+/**
+ * Stored custom lens, as read from user_lenses.
+ */
+export interface CustomLensRecord {
+  id: string
+  label: string
+  description: string | null
+  eligibility: unknown
+  ordering: unknown
+  revision: number
+}
+
+/**
+ * Build the lens id for a stored custom lens.
+ */
+export function toCustomLensId(recordId: string): CustomLensId {
+  return `${CUSTOM_LENS_ID_PREFIX}${recordId}`
+}
+
+/**
+ * Extract the record id from a custom lens id.
+ */
+export function fromCustomLensId(lensId: CustomLensId): string {
+  return lensId.slice(CUSTOM_LENS_ID_PREFIX.length)
+}
+
+/**
+ * Validate a single eligibility rule.
+ *
+ * @returns Error message, or null if valid
+ */
+function validateEligibilityRule(rule: unknown, index: number): string | null {
+  const at = `eligibility[${index}]`
+  if (!rule || typeof rule !== 'object') {
+    return `${at} must be an object`
+  }
+
+  const { field, operator, value } = rule as Record<string, unknown>
+  if (typeof field !== 'string' || !EXPECTED_FIELDS.has(field)) {
+    return `${at}.field must be one of: ${Array.from(EXPECTED_FIELDS).join(', ')}`
+  }
+  if (!OPERATORS.includes(operator as EligibilityOperator)) {
+    return `${at}.operator must be one of: ${OPERATORS.join(', ')}`
+  }
+
+  const valueType = FIELD_VALUE_TYPES[field]
+  const values = operator === 'IN' || operator === 'NOT_IN' ? value : [value]
+
+  switch (operator) {
+    case 'IS_NULL':
+    case 'IS_NOT_NULL':
+      if (value !== undefined && value !== null) {
+        return `${at}.value must be omitted for ${operator}`
+      }
+      return null
+    case 'GTE':
+    case 'LTE':
+      if (valueType !== 'number') {
+        return `${at}.operator must be EQ, NOT_EQ, IN, NOT_IN, IS_NULL or IS_NOT_NULL for ${field}`
+      }
+      break
+    case 'IN':
+    case 'NOT_IN':
+      if (!Array.isArray(value) || value.length === 0 || value.length > CUSTOM_LENS_LIMITS.maxInValues) {
+        return `${at}.value must be an array of 1 to ${CUSTOM_LENS_LIMITS.maxInValues} values for ${operator}`
+      }
+      break
+  }
+
+  for (const v of values as unknown[]) {
+    if (typeof v !== valueType || (typeof v === 'number' && !Number.isFinite(v))) {
+      return `${at}.value must be a ${valueType} for ${field}`
+    }
+    if (field === 'availability' && !((v as string) in AVAILABILITY_RANK)) {
+      return `${at}.value must be one of: ${(Object.keys(AVAILABILITY_RANK) as Availability[]).join(', ')}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate a single ordering rule.
+ *
+ * @returns Error message, or null if valid
+ */
+function validateOrderingRule(rule: unknown, index: number): string | null {
+  const at = `ordering[${index}]`
+  if (!rule || typeof rule !== 'object') {
+    return `${at} must be an object`
+  }
+
+  const { field, direction } = rule as Record<string, unknown>
+  if (typeof field !== 'string' || !SORTABLE_FIELDS.has(field)) {
+    return `${at}.field must be one of: ${Array.from(SORTABLE_FIELDS).join(', ')}`
+  }
+  if (!DIRECTIONS.includes(direction as SortDirection)) {
+    return `${at}.direction must be ASC or DESC`
+  }
+
+  return null
+}
+
+/**
+ * Validate user-submitted lens rules.
+ *
+ * @param input - Eligibility and ordering rules
+ * @returns Error messages (empty if valid)
+ */
+export function validateCustomLensRules(input: CustomLensRulesInput): string[] {
+  const errors: string[] = []
+
+  if (input.eligibility.length > CUSTOM_LENS_LIMITS.maxEligibilityRules) {
+    errors.push(`eligibility must be at most ${CUSTOM_LENS_LIMITS.maxEligibilityRules} rules`)
+  }
+  if (input.ordering.length === 0 || input.ordering.length > CUSTOM_LENS_LIMITS.maxOrderingRules) {
+    errors.push(`ordering must be 1 to ${CUSTOM_LENS_LIMITS.maxOrderingRules} rules`)
+  }
+
+  input.eligibility.forEach((rule, index) => {
+    const error = validateEligibilityRule(rule, index)
+    if (error) errors.push(error)
+  })
+
+  const seen = new Set<string>()
+  input.ordering.forEach((rule, index) => {
+    const error = validateOrderingRule(rule, index)
+    if (error) {
+      errors.push(error)
+      return
+    }
+    const { field } = rule as OrderingRule
+    if (seen.has(field)) {
+      errors.push(`ordering[${index}].field must be unique (${field} repeats)`)
+    }
+    seen.add(field)
+  })
+
+  return errors
+}
+
+/**
+ * Convert a stored custom lens to a Lens for the pipeline.
+ * The version carries the revision so telemetry distinguishes edits.
+ */
+export function toCustomLens(record: CustomLensRecord): CustomLens {
+  const eligibility = record.eligibility as EligibilityRule[]
+  return {
+    id: toCustomLensId(record.id),
+    label: record.label,
+    description: record.description ?? '',
+    triggers: [],
+    eligibility: eligibility.length > 0 ? eligibility : undefined,
+    ordering: record.ordering as OrderingRule[],
+    version: `custom-r${record.revision}`,
+  }
+}
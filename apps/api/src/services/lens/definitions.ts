@@ -11,7 +11,7 @@
  * - No semantic changes without an ADR
  */
 
-import type { Lens, LensId } from './types'
+import type { AnyLensId, Lens, LensId, SystemLens } from './types'
 
 /**
  * Current lens spec version.
@@ -34,7 +34,7 @@ export const LENS_DEFINITION_VERSION = '1.0.0'
  * 3. canonicalConfidence DESC
  * 4. productId ASC (tie-breaker)
  */
-export const ALL_LENS: Lens = {
+export const ALL_LENS: SystemLens = {
   id: 'ALL',
   label: 'All Results',
   description: 'Shows all matching products with availability-first ordering',
@@ -60,7 +60,7 @@ export const ALL_LENS: Lens = {
  * 3. canonicalConfidence DESC
  * 4. productId ASC (tie-breaker)
  */
-export const RANGE_LENS: Lens = {
+export const RANGE_LENS: SystemLens = {
   id: 'RANGE',
   label: 'Range / Training',
   description: 'Value-optimized ordering for range practice ammunition',
@@ -89,7 +89,7 @@ export const RANGE_LENS: Lens = {
  * 3. pricePerRound ASC
  * 4. productId ASC (tie-breaker)
  */
-export const DEFENSIVE_LENS: Lens = {
+export const DEFENSIVE_LENS: SystemLens = {
   id: 'DEFENSIVE',
   label: 'Defensive',
   description: 'Availability-optimized ordering for self-defense ammunition',
@@ -117,7 +117,7 @@ export const DEFENSIVE_LENS: Lens = {
  * 3. pricePerRound ASC
  * 4. productId ASC (tie-breaker)
  */
-export const MATCH_LENS: Lens = {
+export const MATCH_LENS: SystemLens = {
   id: 'MATCH',
   label: 'Match / Precision',
   description: 'Quality-optimized ordering for competition ammunition',
@@ -137,7 +137,7 @@ export const MATCH_LENS: Lens = {
  * Registry of all lens definitions.
  * Keyed by lens ID for O(1) lookup.
  */
-export const LENS_REGISTRY: Readonly<Record<LensId, Lens>> = {
+export const LENS_REGISTRY: Readonly<Record<LensId, SystemLens>> = {
   ALL: ALL_LENS,
   RANGE: RANGE_LENS,
   DEFENSIVE: DEFENSIVE_LENS,
@@ -149,7 +149,7 @@ export const LENS_REGISTRY: Readonly<Record<LensId, Lens>> = {
  * @param id - The lens ID
  * @returns The lens definition or undefined if not found
  */
-export function getLens(id: LensId): Lens | undefined {
+export function getLens(id: LensId): SystemLens | undefined {
   return LENS_REGISTRY[id]
 }
 
@@ -157,7 +157,7 @@ export function getLens(id: LensId): Lens | undefined {
  * Get all lenses that can be auto-applied (have triggers).
  * ALL lens is excluded as it has no triggers.
  */
-export function getAutoApplyableLenses(): Lens[] {
+export function getAutoApplyableLenses(): SystemLens[] {
   return Object.values(LENS_REGISTRY).filter(lens => lens.triggers.length > 0)
 }
 
@@ -187,14 +187,16 @@ export const EXPECTED_FIELDS: ReadonlySet<string> = new Set([
   // Aggregated/derived fields
   'price',
   'pricePerRound',
+  'deliveredPricePerRound',
   'availability',
+  'shippingRestricted',
 ])
 
 /**
  * Validation error for lens definitions.
  */
 export interface LensValidationError {
-  lensId: LensId
+  lensId: AnyLensId
   field: string
   type: 'eligibility' | 'ordering'
   message: string
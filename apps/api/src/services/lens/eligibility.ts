@@ -13,6 +13,8 @@
  */
 
 import type { EligibilityRule, EligibilityOperator, AggregatedProduct } from './types'
+// Import shipping restriction types directly to avoid circular import issues
+import type { RestrictedOfferMode } from '@ironscout/db/shipping-restrictions.js'
 
 /**
  * Result of evaluating a single eligibility rule.
@@ -278,8 +280,12 @@ function getFieldValue(product: AggregatedProduct, field: string): unknown {
       return product.price
     case 'pricePerRound':
       return product.pricePerRound
+    case 'deliveredPricePerRound':
+      return product.deliveredPricePerRound
     case 'availability':
       return product.availability
+    case 'shippingRestricted':
+      return product.shippingRestricted
     default:
       // Unknown field - return undefined (will cause null check to fail)
       return undefined
@@ -353,6 +359,31 @@ export function applyEligibility(
   return { eligible, filtered, filterReasons }
 }
 
+/**
+ * Add the request-time ship-to rule to a lens's eligibility rules.
+ *
+ * HIDE drops products whose every offer is blocked for the buyer's state
+ * (NO_SHIP, IN_PERSON_PICKUP); FLAG keeps them so offers can carry reason
+ * codes. Without a ship-to state nothing changes. Lens definitions are not
+ * changed.
+ *
+ * @param rules - The lens eligibility rules
+ * @param mode - How restricted offers are handled
+ * @param hasShipTo - Whether a ship-to state is known for the request
+ * @returns Effective eligibility rules
+ */
+export function applyShipToEligibility(
+  rules: EligibilityRule[],
+  mode: RestrictedOfferMode = 'HIDE',
+  hasShipTo = false
+): EligibilityRule[] {
+  if (!hasShipTo || mode !== 'HIDE') {
+    return rules
+  }
+
+  return [...rules, { field: 'shippingRestricted', operator: 'EQ', value: false }]
+}
+
 /**
  * Count products filtered by each unique reason.
  * Used for telemetry.
@@ -20,6 +20,8 @@ export type {
   LensSignal,
   LensSignals,
   LensId,
+  CustomLensId,
+  AnyLensId,
   ReasonCode,
   LensTriggerRule,
   EligibilityOperator,
@@ -27,6 +29,8 @@ export type {
   SortDirection,
   OrderingRule,
   Lens,
+  SystemLens,
+  CustomLens,
   LensMetadata,
   Availability,
   AggregatedProduct,
@@ -41,6 +45,8 @@ export type {
 export {
   VALID_LENS_IDS,
   isValidLensId,
+  CUSTOM_LENS_ID_PREFIX,
+  isCustomLensId,
   AVAILABILITY_RANK,
   getAvailabilityRank,
   isLensEnabled,
@@ -66,12 +72,23 @@ export {
   validateAndLogLensDefinitions,
 } from './definitions'
 
+// Custom (user-defined) lenses
+export type { CustomLensRulesInput, CustomLensRecord } from './custom'
+export {
+  CUSTOM_LENS_LIMITS,
+  toCustomLensId,
+  fromCustomLensId,
+  validateCustomLensRules,
+  toCustomLens,
+} from './custom'
+
 // Eligibility
 export type { RuleEvaluationResult, EligibilityResult } from './eligibility'
 export {
   evaluateRule,
   evaluateEligibility,
   applyEligibility,
+  applyShipToEligibility,
   countFilterReasons,
 } from './eligibility'
 
@@ -79,15 +96,17 @@ export {
 export {
   createComparator,
   applyOrdering,
+  applyPriceBasis,
   extractSortKeys,
   verifyDeterminism,
 } from './ordering'
 
 // Aggregation
-export type { VisibleOffer, ProductWithOffers } from './aggregation'
+export type { VisibleOffer, ProductWithOffers, LandedCostContext, ShipToContext } from './aggregation'
 export {
   aggregateProduct,
   aggregateProducts,
+  getShippableOffers,
   hasVisibleOffers,
   getOfferSummary,
 } from './aggregation'
@@ -153,12 +172,16 @@ export {
  */
 import { extractLensSignals, SignalExtractionResult } from './signal-extractor'
 import { selectLens, InvalidLensError, markZeroResults } from './selector'
-import { aggregateProducts, ProductWithOffers } from './aggregation'
-import { applyEligibility, countFilterReasons } from './eligibility'
-import { applyOrdering } from './ordering'
+import { aggregateProducts, ProductWithOffers, LandedCostContext, ShipToContext } from './aggregation'
+import { applyEligibility, applyShipToEligibility, countFilterReasons } from './eligibility'
+import { applyOrdering, applyPriceBasis } from './ordering'
 import { emitLensTelemetry, createTimingTracker, createTelemetryConfig } from './telemetry'
-import type { AggregatedProduct, LensMetadata, LensId } from './types'
+import type { AggregatedProduct, AnyLensId, CustomLens, LensMetadata } from './types'
 import { isLensEnabled } from './types'
+// Import landed cost types directly to avoid circular import issues
+import type { PriceBasis } from '@ironscout/db/landed-cost.js'
+// Import shipping restriction types directly to avoid circular import issues
+import type { RestrictedOfferMode } from '@ironscout/db/shipping-restrictions.js'
 
 export interface LensPipelineInput {
   /** The user's search query */
@@ -167,6 +190,8 @@ export interface LensPipelineInput {
   products: ProductWithOffers[]
   /** Optional user-selected lens ID */
   userLensId?: string | null
+  /** The user's custom lens when userLensId is a "user:" id (resolved by caller) */
+  customLens?: CustomLens | null
   /** Request ID for telemetry correlation */
   requestId: string
   /** Optional trace ID for telemetry correlation */
@@ -175,6 +200,14 @@ export interface LensPipelineInput {
   userIdHash?: string
   /** Optional session ID for telemetry */
   sessionId?: string
+  /** Price basis for pricePerRound ordering (default ITEM) */
+  priceBasis?: PriceBasis
+  /** Shipping rules and destination for deliveredPricePerRound */
+  landedCost?: LandedCostContext
+  /** Buyer's ship-to state and its shipping restrictions */
+  shipTo?: ShipToContext
+  /** Hide (default) or flag products that cannot ship to the buyer */
+  restrictedOffers?: RestrictedOfferMode
 }
 
 export interface LensPipelineResult {
@@ -207,20 +240,27 @@ export async function applyLensPipeline(input: LensPipelineInput): Promise<LensP
   const selection = selectLens(
     extraction.signals,
     input.userLensId,
-    extraction.extractorModelId
+    extraction.extractorModelId,
+    input.customLens
   )
 
   // 3. Aggregate products
   timing.start('offers')
-  const aggregated = aggregateProducts(input.products)
+  const aggregated = aggregateProducts(input.products, input.landedCost, input.shipTo)
   timing.end('offers')
 
-  // 4. Apply eligibility filter (if any rules defined)
+  // 4. Apply eligibility filter (lens rules plus the request's ship-to rule)
   timing.start('rank')
-  const { eligible, filterReasons } = applyEligibility(aggregated, selection.lens.eligibility ?? [])
+  const eligibilityRules = applyShipToEligibility(
+    selection.lens.eligibility ?? [],
+    input.restrictedOffers,
+    input.shipTo !== undefined
+  )
+  const { eligible, filterReasons } = applyEligibility(aggregated, eligibilityRules)
 
   // 5. Apply ordering
-  const ordered = applyOrdering(eligible, selection.lens.ordering)
+  const orderingRules = applyPriceBasis(selection.lens.ordering, input.priceBasis)
+  const ordered = applyOrdering(eligible, orderingRules)
   timing.end('rank')
 
   // 6. Handle zero results
@@ -239,11 +279,12 @@ export async function applyLensPipeline(input: LensPipelineInput): Promise<LensP
     query: input.query,
     extractionResult: extraction,
     selectionResult: selection,
-    userOverrideId: input.userLensId as LensId | undefined,
+    userOverrideId: input.userLensId as AnyLensId | undefined,
     candidateCount: aggregated.length,
     eligibleCount: eligible.length,
     filteredByReason: countFilterReasons(filterReasons),
     orderedProducts: ordered,
+    orderingRules,
     config: createTelemetryConfig(),
     timing: timing.getTiming(),
     status: extraction.status === 'FAILED' ? 'DEGRADED' : 'OK',
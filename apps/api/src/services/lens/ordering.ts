@@ -11,6 +11,8 @@
  * - Deterministic ordering guaranteed
  */
 
+// Import landed cost types directly to avoid circular import issues
+import type { PriceBasis } from '@ironscout/db/landed-cost.js'
 import type { OrderingRule, AggregatedProduct, Availability } from './types'
 import { getAvailabilityRank } from './types'
 
@@ -29,6 +31,7 @@ const TIE_BREAKER_RULE: OrderingRule = {
  * Null behavior per spec:
  * - price: Infinity (last in ASC)
  * - pricePerRound: Infinity (last in ASC)
+ * - deliveredPricePerRound: Infinity (last in ASC)
  * - availability: OUT_OF_STOCK rank (last in DESC)
  * - canonicalConfidence: 0.0 (last in DESC)
  *
@@ -57,6 +60,14 @@ function getSortValue(product: AggregatedProduct, field: string): string | numbe
       return product.pricePerRound
     }
 
+    case 'deliveredPricePerRound': {
+      // Null (unknown shipping) → Infinity (sorts last in ASC)
+      if (product.deliveredPricePerRound === null || product.deliveredPricePerRound === undefined) {
+        return Infinity
+      }
+      return product.deliveredPricePerRound
+    }
+
     case 'availability': {
       // Convert to rank for numeric comparison
       // Higher rank = better availability, so DESC works naturally
@@ -202,6 +213,29 @@ export function applyOrdering(
   return [...products].sort(comparator)
 }
 
+/**
+ * Adapt a lens's ordering rules to the requested price basis.
+ *
+ * DELIVERED orders on deliveredPricePerRound wherever the lens orders on
+ * pricePerRound, keeping pricePerRound (same direction) as the fallback for
+ * products whose shipping is unknown. Lens definitions are not changed.
+ *
+ * @param rules - The lens ordering rules
+ * @param basis - Price basis requested by the caller
+ * @returns Effective ordering rules
+ */
+export function applyPriceBasis(rules: OrderingRule[], basis: PriceBasis = 'ITEM'): OrderingRule[] {
+  if (basis !== 'DELIVERED') {
+    return rules
+  }
+
+  return rules.flatMap(rule =>
+    rule.field === 'pricePerRound'
+      ? [{ field: 'deliveredPricePerRound', direction: rule.direction }, rule]
+      : [rule]
+  )
+}
+
 /**
  * Extract sort keys for a product (used for telemetry).
  * Returns a record of field -> value for all ordering fields.
@@ -231,6 +265,9 @@ export function extractSortKeys(
           ? Math.round(product.pricePerRound * 10000) / 10000
           : null
         break
+      case 'deliveredPricePerRound':
+        sortKeys.dppr = product.deliveredPricePerRound
+        break
       case 'availability':
         sortKeys.avail = getAvailabilityRank(product.availability)
         break
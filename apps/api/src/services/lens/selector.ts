@@ -22,6 +22,7 @@
  */
 
 import type {
+  CustomLens,
   Lens,
   LensId,
   LensSignals,
@@ -29,9 +30,10 @@ import type {
   LensSelectionResult,
   LensTriggerRule,
   ReasonCode,
+  SystemLens,
   TriggerMatch,
 } from './types'
-import { isValidLensId } from './types'
+import { isCustomLensId, isValidLensId } from './types'
 import {
   LENS_REGISTRY,
   ALL_LENS,
@@ -185,22 +187,28 @@ function createMetadata(
  * @param signals - The extracted intent signals
  * @param userLensId - Optional user-selected lens ID
  * @param extractorModelId - The intent extractor model ID
+ * @param customLens - The user's custom lens, resolved by the caller when
+ *   userLensId is in the "user:" namespace
  * @returns The selection result with lens and metadata
  * @throws InvalidLensError if userLensId is invalid
  */
 export function selectLens(
   signals: LensSignals,
   userLensId: string | undefined | null,
-  extractorModelId: string
+  extractorModelId: string,
+  customLens?: CustomLens | null
 ): LensSelectionResult {
   // 1. Handle user override
   if (userLensId !== undefined && userLensId !== null && userLensId !== '') {
+    // Custom lenses only resolve for their owner (caller passes the match)
+    const isCustom = isCustomLensId(userLensId) && customLens?.id === userLensId
+
     // Validate the lens ID
-    if (!isValidLensId(userLensId)) {
+    if (!isCustom && !isValidLensId(userLensId)) {
       throw new InvalidLensError(userLensId, getValidLensIds())
     }
 
-    const lens = LENS_REGISTRY[userLensId]
+    const lens: Lens = isCustom ? customLens! : LENS_REGISTRY[userLensId as LensId]
     const matchedLenses = getMatchingLenses(signals)
 
     return {
@@ -343,7 +351,7 @@ export function getCandidatesForTelemetry(
  * @param signals - The extracted signals
  * @returns Array of trigger match details for this lens
  */
-function evaluateLensTriggers(lens: Lens, signals: LensSignals): TriggerMatch[] {
+function evaluateLensTriggers(lens: SystemLens, signals: LensSignals): TriggerMatch[] {
   return lens.triggers.map((rule, index) => {
     const signal = signals[rule.signal]
     const minConfidence = rule.minConfidence ?? 0.0
@@ -386,7 +394,7 @@ function evaluateLensTriggers(lens: Lens, signals: LensSignals): TriggerMatch[]
  * @deprecated Use getAllTriggerMatchesForTelemetry for complete trigger evaluation proof
  */
 export function getTriggerMatchesForTelemetry(
-  lens: Lens,
+  lens: SystemLens,
   signals: LensSignals
 ): TriggerMatch[] {
   return evaluateLensTriggers(lens, signals)
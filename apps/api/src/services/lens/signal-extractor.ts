@@ -16,7 +16,7 @@
  * - Lens selection resolves to ALL with reasonCode = NO_MATCH
  */
 
-import { SearchIntent, parseSearchIntent } from '../ai-search/intent-parser'
+import { SearchIntent, parseSearchIntent, getIntentParserModelId } from '../ai-search/intent-parser'
 import type { LensSignals, IntentStatus } from './types'
 import { loggers } from '../../config/logger'
 
@@ -36,10 +36,11 @@ export interface ExtractorConfig {
 
 /**
  * Default extractor configuration.
- * Model version is pinned for determinism.
+ * Model version is pinned for determinism; without OpenAI the rule-based
+ * parser's version is reported instead.
  */
 export const DEFAULT_EXTRACTOR_CONFIG: ExtractorConfig = {
-  modelId: process.env.INTENT_EXTRACTOR_MODEL || 'gpt-4o-mini',
+  modelId: getIntentParserModelId(),
   temperature: 0,
   timeoutMs: 5000,
 }
@@ -14,7 +14,7 @@
  */
 
 import { createHash } from 'crypto'
-import type { LensEvalTelemetry, LensId, ReasonCode, IntentStatus, AggregatedProduct, LensSelectionResult, OrderingRule } from './types'
+import type { AnyLensId, LensEvalTelemetry, ReasonCode, IntentStatus, AggregatedProduct, LensSelectionResult, OrderingRule } from './types'
 import { LENS_SPEC_VERSION } from './definitions'
 import { loggers, LOG_EVENTS } from '../../config/logger'
 import { signalsToArray, SignalExtractionResult } from './signal-extractor'
@@ -76,11 +76,13 @@ export interface LensEvalContext {
   query: string
   extractionResult: SignalExtractionResult
   selectionResult: LensSelectionResult
-  userOverrideId?: LensId | null
+  userOverrideId?: AnyLensId | null
   candidateCount: number
   eligibleCount: number
   filteredByReason: Record<string, number>
   orderedProducts: AggregatedProduct[]
+  /** Effective ordering rules when they differ from the lens (price basis) */
+  orderingRules?: OrderingRule[]
   config: LensTelemetryConfig
   timing: LensPerfTiming
   status: 'OK' | 'DEGRADED' | 'FAILED'
@@ -299,7 +301,7 @@ export function buildLensEvalEvent(context: LensEvalContext): LensEvalTelemetry
 
     results: {
       returned: context.orderedProducts.length,
-      top: buildTopResults(context.orderedProducts, selectionResult.lens.ordering, 20),
+      top: buildTopResults(context.orderedProducts, context.orderingRules ?? selectionResult.lens.ordering, 20),
       finalProductIdsTopN: context.orderedProducts.slice(0, 20).map(p => p.productId),
       offerSummary: buildOfferSummary(context.orderedProducts, config, 20),
     },
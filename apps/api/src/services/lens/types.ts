@@ -53,6 +53,29 @@ export function isValidLensId(id: string): id is LensId {
   return (VALID_LENS_IDS as readonly string[]).includes(id)
 }
 
+/**
+ * Prefix for user-defined lens IDs. Keeps custom lenses in their own
+ * namespace so they can never shadow or be mistaken for system lenses.
+ */
+export const CUSTOM_LENS_ID_PREFIX = 'user:'
+
+/**
+ * User-defined lens identifier ("user:<record id>").
+ */
+export type CustomLensId = `user:${string}`
+
+/**
+ * Any selectable lens: a governed system lens or a user-defined lens.
+ */
+export type AnyLensId = LensId | CustomLensId
+
+/**
+ * Check if a string is in the custom lens ID namespace.
+ */
+export function isCustomLensId(id: string): id is CustomLensId {
+  return id.startsWith(CUSTOM_LENS_ID_PREFIX) && id.length > CUSTOM_LENS_ID_PREFIX.length
+}
+
 // ============================================================================
 // Reason Code Types
 // ============================================================================
@@ -154,9 +177,9 @@ export interface OrderingRule {
  * - Ordering derives from declared rules only
  * - Products with null fields sort LAST, not excluded
  */
-export interface Lens {
-  /** Unique lens identifier */
-  id: LensId
+export interface Lens<Id extends AnyLensId = AnyLensId> {
+  /** Unique lens identifier (user-defined lenses use the "user:" namespace) */
+  id: Id
   /** Human-readable label for the lens */
   label: string
   /** Description of the lens purpose */
@@ -171,6 +194,16 @@ export interface Lens {
   version: string
 }
 
+/**
+ * A governed system lens from the static registry.
+ */
+export type SystemLens = Lens<LensId>
+
+/**
+ * A user-defined lens. Never auto-applied (no triggers).
+ */
+export type CustomLens = Lens<CustomLensId>
+
 // ============================================================================
 // Lens Metadata (Response)
 // ============================================================================
@@ -181,7 +214,7 @@ export interface Lens {
  */
 export interface LensMetadata {
   /** Lens identifier */
-  id: LensId
+  id: AnyLensId
   /** Human-readable label */
   label: string
   /** True if lens was auto-applied based on triggers */
@@ -251,6 +284,8 @@ export interface AggregatedProduct {
 
   // Derived fields
   pricePerRound: number | null  // price / packSize, null if either is null/invalid
+  deliveredPricePerRound: number | null  // min(offer landed cost / packSize), null if shipping unknown
+  shippingRestricted: boolean | null     // every offer blocked for the ship-to state, null without one
 
   // Original product data (for response)
   _originalProduct: unknown
@@ -339,8 +374,8 @@ export interface LensEvalTelemetry {
   }
 
   lens: {
-    overrideId: LensId | null
-    selectedId: LensId
+    overrideId: AnyLensId | null
+    selectedId: AnyLensId
     version: string
     reasonCode: ReasonCode
     candidates: Array<{
@@ -269,6 +269,7 @@ async function getWatchingWithPrices(
     where: {
       userId,
       deletedAt: null,
+      intentType: 'SKU', // Saved searches have no single product to show
     },
     include: {
       products: {
@@ -10,7 +10,7 @@
  */
 
 import { prisma } from '@ironscout/db'
-import { CANONICAL_CALIBERS, normalizeCaliber, type CaliberValue } from './gun-locker'
+import { normalizeCaliber, type CaliberValue } from './gun-locker'
 import { getRedisClient } from '../config/redis'
 import { loggers } from '../config/logger'
 
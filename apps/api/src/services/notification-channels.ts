@@ -0,0 +1,392 @@
+/**
+ * Notification Channels Service
+ *
+ * User-level destinations for alert channels other than email:
+ * - WEB_PUSH: browser push subscriptions (one per browser/device)
+ * - SMS: a single E.164 phone number, used only after the user confirms a
+ *   one-time code sent to it
+ * - WEBHOOK: outbound webhooks (Discord, home automation)
+ *
+ * Which channels an alert uses is chosen per saved item
+ * (watchlist_items.notificationChannels); the harvester alerter delivers and
+ * records per-channel status in alert_deliveries.
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto'
+import { isIP } from 'net'
+import { prisma } from '@ironscout/db'
+import { getSmsProvider, sendSms, type SmsProvider } from '@ironscout/notifications'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const NOTIFICATION_CHANNELS = ['EMAIL', 'WEB_PUSH', 'SMS', 'WEBHOOK'] as const
+export type NotificationChannelValue = typeof NOTIFICATION_CHANNELS[number]
+
+export interface PushSubscriptionInput {
+  endpoint: string
+  keys: { p256dh: string; auth: string }
+  userAgent?: string
+}
+
+export interface WebhookDTO {
+  id: string
+  name: string | null
+  url: string
+  enabled: boolean
+  createdAt: string
+  lastDeliveredAt: string | null
+  lastError: string | null
+}
+
+export interface NotificationChannelsDTO {
+  webPush: {
+    /** VAPID public key for PushManager.subscribe; null when push is not configured */
+    publicKey: string | null
+    subscriptionCount: number
+  }
+  sms: {
+    /** Verified number alerts are sent to */
+    phoneNumber: string | null
+    optedInAt: string | null
+    verifiedAt: string | null
+    /** Number waiting for its one-time code */
+    pendingPhoneNumber: string | null
+  }
+  webhooks: WebhookDTO[]
+}
+
+/**
+ * SMS verification failure with the HTTP status to report
+ */
+export class SmsVerificationError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'SmsVerificationError'
+  }
+}
+
+// Limits
+const MAX_PUSH_SUBSCRIPTIONS = 10
+const MAX_WEBHOOKS = 5
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/
+
+// SMS one-time codes
+const SMS_CODE_TTL_MS = 10 * 60 * 1000
+const SMS_CODE_RESEND_MS = 60 * 1000
+const SMS_CODE_MAX_ATTEMPTS = 5
+
+/**
+ * Browser push services (Chrome/FCM, Firefox/Autopush, Edge/WNS, Safari/APNs).
+ * The harvester POSTs to stored endpoints, so nothing else is accepted.
+ */
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'updates.push.services.mozilla.com',
+  'web.push.apple.com',
+]
+const PUSH_SERVICE_HOST_SUFFIXES = ['.notify.windows.com', '.push.apple.com']
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+export async function getNotificationChannels(userId: string): Promise<NotificationChannelsDTO> {
+  const [user, subscriptionCount, webhooks] = await Promise.all([
+    prisma.users.findUnique({
+      where: { id: userId },
+      select: { smsPhoneNumber: true, smsOptInAt: true, smsVerifiedAt: true, smsPendingPhoneNumber: true },
+    }),
+    prisma.user_push_subscriptions.count({ where: { userId } }),
+    prisma.user_webhooks.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  ])
+
+  return {
+    webPush: {
+      publicKey: process.env.VAPID_PUBLIC_KEY || null,
+      subscriptionCount,
+    },
+    sms: {
+      phoneNumber: user?.smsPhoneNumber ?? null,
+      optedInAt: user?.smsOptInAt?.toISOString() ?? null,
+      verifiedAt: user?.smsVerifiedAt?.toISOString() ?? null,
+      pendingPhoneNumber: user?.smsPendingPhoneNumber ?? null,
+    },
+    webhooks: webhooks.map(mapWebhook),
+  }
+}
+
+/**
+ * Register a browser push subscription (idempotent per endpoint)
+ * An endpoint re-registered by another account moves to that account.
+ */
+export async function addPushSubscription(userId: string, input: PushSubscriptionInput): Promise<void> {
+  validatePushEndpoint(input.endpoint)
+
+  const existing = await prisma.user_push_subscriptions.findUnique({
+    where: { endpoint: input.endpoint },
+    select: { userId: true },
+  })
+  if (!existing || existing.userId !== userId) {
+    const count = await prisma.user_push_subscriptions.count({ where: { userId } })
+    if (count >= MAX_PUSH_SUBSCRIPTIONS) {
+      throw new Error(`Push subscription limit reached (${MAX_PUSH_SUBSCRIPTIONS})`)
+    }
+  }
+
+  await prisma.user_push_subscriptions.upsert({
+    where: { endpoint: input.endpoint },
+    create: {
+      userId,
+      endpoint: input.endpoint,
+      p256dh: input.keys.p256dh,
+      auth: input.keys.auth,
+      userAgent: input.userAgent ?? null,
+    },
+    update: {
+      userId,
+      p256dh: input.keys.p256dh,
+      auth: input.keys.auth,
+      userAgent: input.userAgent ?? null,
+      lastFailureAt: null,
+    },
+  })
+}
+
+export async function removePushSubscription(userId: string, endpoint: string): Promise<void> {
+  await prisma.user_push_subscriptions.deleteMany({ where: { userId, endpoint } })
+}
+
+/**
+ * Start verifying an SMS destination: store the number as pending and text it
+ * a one-time code. A previously verified number keeps receiving alerts until
+ * the new one is confirmed (see confirmSmsPhoneNumber).
+ */
+export async function setSmsPhoneNumber(
+  userId: string,
+  phoneNumber: string,
+  provider: SmsProvider | null = getSmsProvider()
+): Promise<void> {
+  const normalized = phoneNumber.replace(/[\s().-]/g, '')
+  if (!E164_PATTERN.test(normalized)) {
+    throw new Error('Phone number must be in international format, e.g. +15551234567')
+  }
+  if (!provider) {
+    throw new SmsVerificationError('Text message alerts are not available', 503)
+  }
+
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { smsPhoneNumber: true, smsVerifiedAt: true },
+  })
+  if (user?.smsPhoneNumber === normalized && user.smsVerifiedAt) {
+    return
+  }
+
+  // Claim the send atomically so parallel requests can't bypass the resend limit
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0')
+  const claimed = await prisma.users.updateMany({
+    where: {
+      id: userId,
+      OR: [{ smsCodeSentAt: null }, { smsCodeSentAt: { lt: new Date(Date.now() - SMS_CODE_RESEND_MS) } }],
+    },
+    data: {
+      smsPendingPhoneNumber: normalized,
+      smsCodeHash: hashSmsCode(userId, normalized, code),
+      smsCodeSentAt: new Date(),
+      smsCodeAttempts: 0,
+    },
+  })
+  if (claimed.count === 0) {
+    throw new SmsVerificationError('Please wait a minute before requesting another code', 429)
+  }
+
+  const result = await sendSms(normalized, `IronScout verification code: ${code}. It expires in 10 minutes.`, provider)
+  if (!result.success) {
+    throw new SmsVerificationError('Could not send the verification code', 502)
+  }
+}
+
+/**
+ * Confirm the pending SMS number with its one-time code. Only then does it
+ * become the alert destination (smsVerifiedAt set).
+ */
+export async function confirmSmsPhoneNumber(userId: string, code: string): Promise<void> {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { smsPendingPhoneNumber: true, smsCodeHash: true, smsCodeSentAt: true },
+  })
+  if (!user?.smsPendingPhoneNumber || !user.smsCodeHash || !user.smsCodeSentAt) {
+    throw new SmsVerificationError('No phone number is waiting for verification', 400)
+  }
+  if (Date.now() - user.smsCodeSentAt.getTime() > SMS_CODE_TTL_MS) {
+    throw new SmsVerificationError('Verification code expired, request a new one', 400)
+  }
+
+  // Count the attempt before comparing, so guesses are capped even in parallel
+  const counted = await prisma.users.updateMany({
+    where: { id: userId, smsCodeHash: user.smsCodeHash, smsCodeAttempts: { lt: SMS_CODE_MAX_ATTEMPTS } },
+    data: { smsCodeAttempts: { increment: 1 } },
+  })
+  if (counted.count === 0) {
+    throw new SmsVerificationError('Too many attempts, request a new code', 429)
+  }
+
+  const expected = Buffer.from(user.smsCodeHash, 'hex')
+  const actual = Buffer.from(hashSmsCode(userId, user.smsPendingPhoneNumber, code.trim()), 'hex')
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new SmsVerificationError('Verification code is incorrect', 400)
+  }
+
+  const now = new Date()
+  await prisma.users.update({
+    where: { id: userId },
+    data: {
+      smsPhoneNumber: user.smsPendingPhoneNumber,
+      smsOptInAt: now,
+      smsVerifiedAt: now,
+      smsPendingPhoneNumber: null,
+      smsCodeHash: null,
+      smsCodeSentAt: null,
+      smsCodeAttempts: 0,
+    },
+  })
+}
+
+/**
+ * Opt out. smsCodeSentAt is kept so clearing can't reset the resend limit.
+ */
+export async function clearSmsPhoneNumber(userId: string): Promise<void> {
+  await prisma.users.update({
+    where: { id: userId },
+    data: {
+      smsPhoneNumber: null,
+      smsOptInAt: null,
+      smsVerifiedAt: null,
+      smsPendingPhoneNumber: null,
+      smsCodeHash: null,
+      smsCodeAttempts: 0,
+    },
+  })
+}
+
+/**
+ * Create an outbound webhook. The signing secret is returned only here.
+ */
+export async function createWebhook(
+  userId: string,
+  input: { url: string; name?: string }
+): Promise<WebhookDTO & { secret: string }> {
+  validateWebhookUrl(input.url)
+
+  const count = await prisma.user_webhooks.count({ where: { userId } })
+  if (count >= MAX_WEBHOOKS) {
+    throw new Error(`Webhook limit reached (${MAX_WEBHOOKS})`)
+  }
+
+  const secret = `whsec_${randomBytes(24).toString('base64url')}`
+  const webhook = await prisma.user_webhooks.create({
+    data: { userId, url: input.url, name: input.name ?? null, secret },
+  })
+
+  return { ...mapWebhook(webhook), secret }
+}
+
+export async function setWebhookEnabled(userId: string, id: string, enabled: boolean): Promise<WebhookDTO> {
+  const result = await prisma.user_webhooks.updateMany({
+    where: { id, userId },
+    data: { enabled },
+  })
+  if (result.count === 0) {
+    throw new Error('Webhook not found')
+  }
+
+  const webhook = await prisma.user_webhooks.findUniqueOrThrow({ where: { id } })
+  return mapWebhook(webhook)
+}
+
+export async function deleteWebhook(userId: string, id: string): Promise<void> {
+  const result = await prisma.user_webhooks.deleteMany({ where: { id, userId } })
+  if (result.count === 0) {
+    throw new Error('Webhook not found')
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Push endpoints are called from our workers, so only known push services are allowed
+ */
+export function validatePushEndpoint(value: string): void {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error('Push endpoint is invalid')
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new Error('Push endpoint must be https')
+  }
+
+  const host = url.hostname.toLowerCase()
+  const known =
+    url.port === '' &&
+    (PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix)))
+  if (!known) {
+    throw new Error('Push endpoint is not a known browser push service')
+  }
+}
+
+/**
+ * Webhooks are called from our workers, so refuse obvious internal targets.
+ * Hostnames are resolved and checked again at send time (see sendWebhook).
+ */
+export function validateWebhookUrl(value: string): void {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error('Webhook URL is invalid')
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new Error('Webhook URL must be https')
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || isIP(host) !== 0) {
+    throw new Error('Webhook URL must use a public hostname')
+  }
+}
+
+/**
+ * Codes are bound to the user and number they were sent for
+ */
+function hashSmsCode(userId: string, phoneNumber: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${phoneNumber}:${code}`).digest('hex')
+}
+
+function mapWebhook(webhook: {
+  id: string
+  name: string | null
+  url: string
+  enabled: boolean
+  createdAt: Date
+  lastDeliveredAt: Date | null
+  lastError: string | null
+}): WebhookDTO {
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    url: webhook.url,
+    enabled: webhook.enabled,
+    createdAt: webhook.createdAt.toISOString(),
+    lastDeliveredAt: webhook.lastDeliveredAt?.toISOString() ?? null,
+    lastError: webhook.lastError,
+  }
+}
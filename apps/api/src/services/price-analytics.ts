@@ -0,0 +1,223 @@
+/**
+ * Price Analytics Service
+ *
+ * Descriptive price-per-round statistics for a product or a caliber, read
+ * from price_history_daily (maintained by the harvester price-history-rollup
+ * job), so requests never scan prices:
+ * - Daily min / p10 / median / p90 / max price per round
+ * - All-time low and the day it was seen
+ * - Volatility: spread of day-over-day changes in the daily median
+ * - Seasonality: how day-of-week and month medians compare to their average
+ *
+ * Statistics describe observed prices only; they are not predictions.
+ */
+
+import { prisma, type PriceHistoryScope } from '@ironscout/db'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Minimum observed days in the window before volatility is reported */
+export const MIN_VOLATILITY_DAYS = 7
+
+/** Minimum observed days before day-of-week seasonality is reported */
+export const MIN_SEASONALITY_DAYS = 28
+
+/** Volatility score thresholds (percent) for the LOW / MODERATE / HIGH levels */
+const VOLATILITY_LEVELS = { moderate: 2, high: 5 }
+
+const DAY_OF_WEEK_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+export interface DailyPriceStats {
+  /** UTC day, YYYY-MM-DD */
+  date: string
+  minPricePerRound: number
+  p10PricePerRound: number
+  medianPricePerRound: number
+  p90PricePerRound: number
+  maxPricePerRound: number
+  sampleCount: number
+  retailerCount: number
+}
+
+export interface PriceVolatility {
+  /** Standard deviation of day-over-day median changes, in percent */
+  score: number
+  level: 'LOW' | 'MODERATE' | 'HIGH'
+  /** Observed days the score is based on */
+  observedDays: number
+}
+
+export interface SeasonalityBucket {
+  /** 0-6 (Sunday first) for day of week, 1-12 for month */
+  index: number
+  label: string
+  /** Mean median vs. the average, in percent (negative = cheaper); null without data */
+  relativeToAverage: number | null
+  /** Observed days in the bucket */
+  days: number
+}
+
+export interface PriceAnalytics {
+  scope: { type: PriceHistoryScope; key: string }
+  days: number
+  series: DailyPriceStats[]
+  allTimeLow: { pricePerRound: number; date: string } | null
+  volatility: PriceVolatility | null
+  seasonality: {
+    /** Null until MIN_SEASONALITY_DAYS days are observed */
+    dayOfWeek: SeasonalityBucket[] | null
+    month: SeasonalityBucket[]
+    observedDays: number
+  }
+  /** When the newest rollup row was computed */
+  computedAt: string | null
+}
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+
+/**
+ * Volatility of a series of daily medians (oldest first): the standard
+ * deviation of day-over-day log changes, in percent. Null with fewer than
+ * MIN_VOLATILITY_DAYS observations.
+ */
+export function computeVolatility(medians: number[]): PriceVolatility | null {
+  const positive = medians.filter(m => m > 0)
+  if (positive.length < MIN_VOLATILITY_DAYS) return null
+
+  const changes = positive.slice(1).map((m, i) => Math.log(m / positive[i]))
+  const avg = mean(changes)
+  const variance = mean(changes.map(c => (c - avg) ** 2))
+  const score = round(Math.sqrt(variance) * 100, 2)
+
+  return {
+    score,
+    level: score >= VOLATILITY_LEVELS.high ? 'HIGH' : score >= VOLATILITY_LEVELS.moderate ? 'MODERATE' : 'LOW',
+    observedDays: positive.length,
+  }
+}
+
+/**
+ * Day-of-week and month seasonality from daily medians.
+ *
+ * Day of week compares each day's median with the mean of its calendar
+ * month, so a trend across months does not leak into weekdays. Month
+ * compares each month's mean median with the mean over all days.
+ */
+export function computeSeasonality(
+  days: Array<{ date: Date; median: number }>
+): PriceAnalytics['seasonality'] {
+  const observed = days.filter(d => d.median > 0)
+
+  const monthKey = (date: Date) => `${date.getUTCFullYear()}-${date.getUTCMonth()}`
+  const monthMeans = new Map<string, number>()
+  const byMonthKey = new Map<string, number[]>()
+  for (const d of observed) {
+    const key = monthKey(d.date)
+    byMonthKey.set(key, [...(byMonthKey.get(key) ?? []), d.median])
+  }
+  for (const [key, medians] of byMonthKey) {
+    monthMeans.set(key, mean(medians))
+  }
+
+  const buckets = (labels: string[], offset: number) =>
+    labels.map((label, i) => ({ index: i + offset, label, ratios: [] as number[] }))
+  const toResult = (bucketList: Array<{ index: number; label: string; ratios: number[] }>) =>
+    bucketList.map(({ index, label, ratios }) => ({
+      index,
+      label,
+      relativeToAverage: ratios.length > 0 ? round((mean(ratios) - 1) * 100, 2) : null,
+      days: ratios.length,
+    }))
+
+  const weekdays = buckets(DAY_OF_WEEK_LABELS, 0)
+  for (const d of observed) {
+    weekdays[d.date.getUTCDay()].ratios.push(d.median / monthMeans.get(monthKey(d.date))!)
+  }
+
+  const months = buckets(MONTH_LABELS, 1)
+  const overall = observed.length > 0 ? mean(observed.map(d => d.median)) : 0
+  for (const d of observed) {
+    months[d.date.getUTCMonth()].ratios.push(d.median / overall)
+  }
+
+  return {
+    dayOfWeek: observed.length >= MIN_SEASONALITY_DAYS ? toResult(weekdays) : null,
+    month: toResult(months),
+    observedDays: observed.length,
+  }
+}
+
+/**
+ * Price analytics for a product (scopeKey = product id) or caliber
+ * (scopeKey = canonical caliber) over the last `days` days. All-time low
+ * and seasonality use the full rolled-up history.
+ */
+export async function getPriceAnalytics(
+  scopeType: PriceHistoryScope,
+  scopeKey: string,
+  days: number,
+  now: Date = new Date()
+): Promise<PriceAnalytics> {
+  const rows = await prisma.price_history_daily.findMany({
+    where: { scopeType, scopeKey },
+    orderBy: { day: 'asc' },
+    select: {
+      day: true,
+      minPpr: true,
+      p10Ppr: true,
+      medianPpr: true,
+      p90Ppr: true,
+      maxPpr: true,
+      sampleCount: true,
+      retailerCount: true,
+      computedAt: true,
+    },
+  })
+
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const windowStart = today - (days - 1) * DAY_MS
+  const formatDay = (day: Date) => day.toISOString().split('T')[0]
+
+  const series: DailyPriceStats[] = rows
+    .filter(row => row.day.getTime() >= windowStart)
+    .map(row => ({
+      date: formatDay(row.day),
+      minPricePerRound: Number(row.minPpr),
+      p10PricePerRound: Number(row.p10Ppr),
+      medianPricePerRound: Number(row.medianPpr),
+      p90PricePerRound: Number(row.p90Ppr),
+      maxPricePerRound: Number(row.maxPpr),
+      sampleCount: row.sampleCount,
+      retailerCount: row.retailerCount,
+    }))
+
+  // Earliest day wins a tie
+  let allTimeLow: PriceAnalytics['allTimeLow'] = null
+  for (const row of rows) {
+    const low = Number(row.minPpr)
+    if (!allTimeLow || low < allTimeLow.pricePerRound) {
+      allTimeLow = { pricePerRound: low, date: formatDay(row.day) }
+    }
+  }
+
+  const computedAt = rows.reduce<Date | null>(
+    (latest, row) => (!latest || row.computedAt > latest ? row.computedAt : latest),
+    null
+  )
+
+  return {
+    scope: { type: scopeType, key: scopeKey },
+    days,
+    series,
+    allTimeLow,
+    volatility: computeVolatility(series.map(s => s.medianPricePerRound)),
+    seasonality: computeSeasonality(rows.map(row => ({ date: row.day, median: Number(row.medianPpr) }))),
+    computedAt: computedAt?.toISOString() ?? null,
+  }
+}
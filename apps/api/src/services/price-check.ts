@@ -5,10 +5,19 @@
  * - Answers: "Is this price normal, high, or unusually low right now?"
  * - Classification requires ≥5 price points in trailing 30 days
  * - No verdicts or recommendations
+ *
+ * Basis ITEM (default) compares listing price per round. Basis DELIVERED
+ * compares item + shipping per round for one listing (retailer shipping rules,
+ * falling back to shipping observed on the offer); offers with unknown
+ * shipping are left out of the distribution.
  */
 
 import { prisma } from '@ironscout/db'
-import { CANONICAL_CALIBERS, type CaliberValue, isValidCaliber } from './gun-locker'
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
+// Import landed cost directly to avoid circular import issues
+import { deliveredPricePerRound, loadShippingRules, type PriceBasis } from '@ironscout/db/landed-cost.js'
+import { getCanonicalCalibers, type CaliberValue, isValidCaliber } from './gun-locker'
 
 /**
  * Price classification
@@ -22,6 +31,8 @@ export interface PriceCheckResult {
   classification: PriceClassification
   enteredPricePerRound: number
   caliber: CaliberValue
+  /** Whether prices are compared on item or delivered cost */
+  basis: PriceBasis
   context: {
     minPrice: number | null
     maxPrice: number | null
@@ -33,6 +44,16 @@ export interface PriceCheckResult {
   message: string
 }
 
+/**
+ * Price check options
+ */
+export interface PriceCheckOptions {
+  /** ITEM (default) or DELIVERED (item + shipping) */
+  basis?: PriceBasis
+  /** Two-letter destination state for delivered prices */
+  shipTo?: string
+}
+
 /**
  * Check a price against recent market data
  *
@@ -40,16 +61,20 @@ export interface PriceCheckResult {
  * @param pricePerRound - Entered price per round in cents (e.g., 0.30 = $0.30/rd)
  * @param brand - Optional brand filter
  * @param grain - Optional grain weight filter
+ * @param options - Price basis and destination state
  */
 export async function checkPrice(
   caliber: string,
   pricePerRound: number,
   brand?: string,
-  grain?: number
+  grain?: number,
+  options: PriceCheckOptions = {}
 ): Promise<PriceCheckResult> {
+  const basis = options.basis ?? 'ITEM'
+
   // Validate caliber is canonical
   if (!isValidCaliber(caliber)) {
-    throw new Error(`Invalid caliber: ${caliber}. Must be one of: ${CANONICAL_CALIBERS.join(', ')}`)
+    throw new Error(`Invalid caliber: ${caliber}. Must be one of: ${getCanonicalCalibers().join(', ')}`)
   }
 
   const now = new Date()
@@ -75,61 +100,35 @@ export async function checkPrice(
     params.push(grain)
   }
 
+  const offerSource = buildVisibleOfferSource(caliberConditions.sql, brandCondition, grainCondition)
+
   // Get daily best prices per product for the caliber in trailing 30 days
   // Per spec: "One daily best price per product per caliber (lowest visible offer price on a given UTC calendar day)"
-  // ADR-015: Apply corrections overlay (IGNORE corrections exclude prices)
-  const priceData = await prisma.$queryRawUnsafe<
-    Array<{
-      pricePerRound: any
-      observedDate: Date
-    }>
-  >(
-    `
-    WITH daily_best AS (
-      SELECT
-        p.id as product_id,
-        DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC') as observed_day,
-        MIN(CASE WHEN p."roundCount" > 0 THEN pr.price / p."roundCount" ELSE pr.price END) as price_per_round
-      FROM products p
-      JOIN product_links pl ON pl."productId" = p.id
-      JOIN prices pr ON pr."sourceProductId" = pl."sourceProductId"
-      JOIN retailers r ON r.id = pr."retailerId"
-      LEFT JOIN merchant_retailers mr ON mr."retailerId" = r.id AND mr.status = 'ACTIVE'
-      LEFT JOIN affiliate_feed_runs afr ON afr.id = pr."affiliateFeedRunId"
-      WHERE pl.status IN ('MATCHED', 'CREATED')
-        AND pr."observedAt" >= $1
-        AND pr."inStock" = true
-        AND r."visibilityStatus" = 'ELIGIBLE'
-        AND (mr.id IS NULL OR (mr."listingStatus" = 'LISTED' AND mr.status = 'ACTIVE'))
-        AND (pr."affiliateFeedRunId" IS NULL OR afr."ignoredAt" IS NULL) -- ADR-015: Exclude ignored runs
-        -- ADR-015: Exclude prices with active IGNORE corrections
-        AND NOT EXISTS (
-          SELECT 1 FROM price_corrections pc
-          WHERE pc."revokedAt" IS NULL
-            AND pc.action = 'IGNORE'
-            AND pr."observedAt" >= pc."startTs"
-            AND pr."observedAt" < pc."endTs"
-            AND (
-              (pc."scopeType" = 'PRODUCT' AND pc."scopeId" = p.id) OR
-              (pc."scopeType" = 'RETAILER' AND pc."scopeId" = r.id) OR
-              (pc."scopeType" = 'SOURCE' AND pc."scopeId" = pr."sourceId") OR
-              (pc."scopeType" = 'AFFILIATE' AND pc."scopeId" = pr."affiliateId") OR
-              (pc."scopeType" = 'FEED_RUN' AND pr."ingestionRunId" IS NOT NULL AND pc."scopeId" = pr."ingestionRunId")
-            )
+  const priceData = basis === 'DELIVERED'
+    ? await getDailyBestDeliveredPrices(offerSource, params, options.shipTo)
+    : await prisma.$queryRawUnsafe<
+        Array<{
+          pricePerRound: any
+          observedDate: Date
+        }>
+      >(
+        `
+        WITH daily_best AS (
+          SELECT
+            p.id as product_id,
+            DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC') as observed_day,
+            MIN(CASE WHEN p."roundCount" > 0 THEN pr.price / p."roundCount" ELSE pr.price END) as price_per_round
+          ${offerSource}
+          GROUP BY p.id, DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC')
         )
-        AND (${caliberConditions.sql})
-        ${brandCondition}
-        ${grainCondition}
-      GROUP BY p.id, DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC')
-    )
-    SELECT
-      price_per_round as "pricePerRound",
-      observed_day as "observedDate"
-    FROM daily_best
-    ORDER BY observed_day DESC
-  `,
-    ...params
-  )
+        SELECT
+          price_per_round as "pricePerRound",
+          observed_day as "observedDate"
+        FROM daily_best
+        ORDER BY observed_day DESC
+      `,
+        ...params
+      )
 
   const pricePointCount = priceData.length
   const uniqueDays = new Set(priceData.map((p) => p.observedDate.toISOString().split('T')[0]))
@@ -141,6 +140,7 @@ export async function checkPrice(
       classification: 'INSUFFICIENT_DATA',
       enteredPricePerRound: pricePerRound,
       caliber: caliber as CaliberValue,
+      basis,
       context: {
         minPrice: null,
         maxPrice: null,
@@ -167,6 +167,7 @@ export async function checkPrice(
       classification: 'INSUFFICIENT_DATA',
       enteredPricePerRound: pricePerRound,
       caliber: caliber as CaliberValue,
+      basis,
       context: {
         minPrice: round(minPrice, 4),
         maxPrice: round(maxPrice, 4),
@@ -204,6 +205,7 @@ export async function checkPrice(
     classification,
     enteredPricePerRound: pricePerRound,
     caliber: caliber as CaliberValue,
+    basis,
     context: {
       minPrice: round(minPrice, 4),
       maxPrice: round(maxPrice, 4),
@@ -217,41 +219,111 @@ export async function checkPrice(
 }
 
 /**
- * Get SQL conditions for caliber matching (handles aliases)
+ * FROM/WHERE clause selecting visible, in-stock offers for the price check
+ * window ($1) and caliber/brand/grain filters.
+ * ADR-015: Apply corrections overlay (IGNORE corrections exclude prices)
  */
-function getCaliberConditions(caliber: CaliberValue): { sql: string; params: string[] } {
-  // Map canonical caliber to possible database values
-  const aliasGroups: Record<CaliberValue, string[]> = {
-    '9mm': ['9mm', '9mm luger', '9mm parabellum', '9x19', '9x19mm'],
-    '.38 Special': ['.38 special', '38 special', '.38 spl', '38 spl'],
-    '.357 Magnum': ['.357 magnum', '357 magnum', '.357 mag', '357 mag'],
-    '.25 ACP': ['.25 acp', '25 acp', '.25 auto'],
-    '.32 ACP': ['.32 acp', '32 acp', '.32 auto', '7.65mm'],
-    '10mm Auto': ['10mm', '10mm auto'],
-    '.45 ACP': ['.45 acp', '45 acp', '.45acp', '.45 auto'],
-    '.45 Colt': ['.45 colt', '45 colt', '.45 long colt', '45 lc'],
-    '.40 S&W': ['.40 s&w', '40 s&w', '.40sw', '.40 smith & wesson'],
-    '.380 ACP': ['.380 acp', '380 acp', '.380acp', '.380 auto'],
-    '.22 LR': ['.22 lr', '22 lr', '.22lr', '22lr', '.22 long rifle'],
-    '.22 WMR': ['.22 wmr', '22 wmr', '.22 magnum', '22 magnum', '.22 mag'],
-    '.17 HMR': ['.17 hmr', '17 hmr', '.17 hornady magnum'],
-    '.223/5.56': ['.223 rem', '.223 remington', '223 rem', '5.56', '5.56mm', '5.56x45', '5.56 nato', '.223/5.56'],
-    '.308/7.62x51': ['.308 win', '.308 winchester', '308 win', '7.62x51', '7.62x51mm', '7.62 nato', '.308/7.62x51'],
-    '.30-06': ['.30-06', '30-06', '.30-06 springfield', '.30-06 sprg'],
-    '.300 AAC Blackout': ['.300 blackout', '300 blackout', '.300 aac', '300 aac', '.300 blk', '300 blk'],
-    '6.5 Creedmoor': ['6.5 creedmoor', '6.5mm creedmoor', '6.5 cm'],
-    '7.62x39': ['7.62x39', '7.62x39mm'],
-    '.243 Winchester': ['.243 win', '.243 winchester', '243 win'],
-    '.270 Winchester': ['.270 win', '.270 winchester', '270 win'],
-    '.30-30 Winchester': ['.30-30', '30-30', '.30-30 win', '30-30 winchester'],
-    '12ga': ['12 gauge', '12 ga', '12ga', '12g'],
-    '20ga': ['20 gauge', '20 ga', '20ga', '20g'],
-    '16ga': ['16 gauge', '16 ga', '16ga', '16g'],
-    '.410 Bore': ['.410', '410', '.410 bore', '410 bore'],
-    'Other': ['other'],
+function buildVisibleOfferSource(caliberSql: string, brandCondition: string, grainCondition: string): string {
+  return `
+    FROM products p
+    JOIN product_links pl ON pl."productId" = p.id
+    JOIN prices pr ON pr."sourceProductId" = pl."sourceProductId"
+    JOIN retailers r ON r.id = pr."retailerId"
+    LEFT JOIN merchant_retailers mr ON mr."retailerId" = r.id AND mr.status = 'ACTIVE'
+    LEFT JOIN affiliate_feed_runs afr ON afr.id = pr."affiliateFeedRunId"
+    WHERE pl.status IN ('MATCHED', 'CREATED')
+      AND pr."observedAt" >= $1
+      AND pr."inStock" = true
+      AND r."visibilityStatus" = 'ELIGIBLE'
+      AND (mr.id IS NULL OR (mr."listingStatus" = 'LISTED' AND mr.status = 'ACTIVE'))
+      AND (pr."affiliateFeedRunId" IS NULL OR afr."ignoredAt" IS NULL) -- ADR-015: Exclude ignored runs
+      -- ADR-015: Exclude prices with active IGNORE corrections
+      AND NOT EXISTS (
+        SELECT 1 FROM price_corrections pc
+        WHERE pc."revokedAt" IS NULL
+          AND pc.action = 'IGNORE'
+          AND pr."observedAt" >= pc."startTs"
+          AND pr."observedAt" < pc."endTs"
+          AND (
+            (pc."scopeType" = 'PRODUCT' AND pc."scopeId" = p.id) OR
+            (pc."scopeType" = 'RETAILER' AND pc."scopeId" = r.id) OR
+            (pc."scopeType" = 'SOURCE' AND pc."scopeId" = pr."sourceId") OR
+            (pc."scopeType" = 'AFFILIATE' AND pc."scopeId" = pr."affiliateId") OR
+            (pc."scopeType" = 'FEED_RUN' AND pr."ingestionRunId" IS NOT NULL AND pc."scopeId" = pr."ingestionRunId")
+          )
+      )
+      AND (${caliberSql})
+      ${brandCondition}
+      ${grainCondition}
+  `
+}
+
+/**
+ * Daily best delivered price per round per product.
+ * Takes each retailer's cheapest listing per product and day, adds shipping
+ * for one listing and keeps the lowest known delivered price per round.
+ */
+async function getDailyBestDeliveredPrices(
+  offerSource: string,
+  params: any[],
+  shipTo?: string
+): Promise<Array<{ pricePerRound: number; observedDate: Date }>> {
+  const offers = await prisma.$queryRawUnsafe<
+    Array<{
+      productId: string
+      observedDate: Date
+      retailerId: string
+      price: any
+      shippingCost: any
+      freeShippingMinimum: any
+      roundCount: number
+    }>
+  >(
+    `
+    SELECT DISTINCT ON (p.id, DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC'), pr."retailerId")
+      p.id as "productId",
+      DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC') as "observedDate",
+      pr."retailerId" as "retailerId",
+      pr.price as price,
+      pr."shippingCost" as "shippingCost",
+      pr."freeShippingMinimum" as "freeShippingMinimum",
+      p."roundCount" as "roundCount"
+    ${offerSource}
+      AND p."roundCount" > 0
+    ORDER BY p.id, DATE_TRUNC('day', pr."observedAt" AT TIME ZONE 'UTC'), pr."retailerId", pr.price ASC
+  `,
+    ...params
+  )
+
+  const rules = await loadShippingRules(prisma, offers.map((offer) => offer.retailerId))
+  const dailyBest = new Map<string, { pricePerRound: number; observedDate: Date }>()
+
+  for (const offer of offers) {
+    const dppr = deliveredPricePerRound({
+      offer,
+      roundCount: offer.roundCount,
+      rule: rules.get(offer.retailerId) ?? null,
+      destinationState: shipTo ?? null,
+    })
+    if (dppr === null) continue
+
+    const key = `${offer.productId}:${offer.observedDate.toISOString()}`
+    const current = dailyBest.get(key)
+    if (!current || dppr < current.pricePerRound) {
+      dailyBest.set(key, { pricePerRound: dppr, observedDate: offer.observedDate })
+    }
   }
 
-  const aliases = aliasGroups[caliber] || [caliber]
+  return [...dailyBest.values()].sort((a, b) => b.observedDate.getTime() - a.observedDate.getTime())
+}
+
+/**
+ * Get SQL conditions for caliber matching (handles aliases)
+ */
+function getCaliberConditions(caliber: CaliberValue): { sql: string; params: string[] } {
+  // Names and aliases of the caliber and its children (.223/5.56 -> 5.56 NATO, .223 Remington)
+  const matching = getCaliberTaxonomy().matchingStrings(caliber)
+  const aliases = matching.length > 0 ? matching : [caliber]
   const placeholders = aliases.map((_, i) => `LOWER(p.caliber) = LOWER($${i + 2})`).join(' OR ')
 
   return {
@@ -264,36 +336,7 @@ function getCaliberConditions(caliber: CaliberValue): { sql: string; params: str
  * Get human-readable caliber label
  */
 function getCaliberLabel(caliber: string): string {
-  const labels: Record<CaliberValue, string> = {
-    '9mm': '9mm',
-    '.38 Special': '.38 Special',
-    '.357 Magnum': '.357 Magnum',
-    '.25 ACP': '.25 ACP',
-    '.32 ACP': '.32 ACP',
-    '10mm Auto': '10mm Auto',
-    '.45 ACP': '.45 ACP',
-    '.45 Colt': '.45 Colt',
-    '.40 S&W': '.40 S&W',
-    '.380 ACP': '.380 ACP',
-    '.22 LR': '.22 LR',
-    '.22 WMR': '.22 WMR',
-    '.17 HMR': '.17 HMR',
-    '.223/5.56': '.223 / 5.56',
-    '.308/7.62x51': '.308 / 7.62x51',
-    '.30-06': '.30-06',
-    '.300 AAC Blackout': '.300 Blackout',
-    '6.5 Creedmoor': '6.5 Creedmoor',
-    '7.62x39': '7.62x39',
-    '.243 Winchester': '.243 Winchester',
-    '.270 Winchester': '.270 Winchester',
-    '.30-30 Winchester': '.30-30 Winchester',
-    '12ga': '12 Gauge',
-    '20ga': '20 Gauge',
-    '16ga': '16 Gauge',
-    '.410 Bore': '.410 Bore',
-    'Other': 'Other',
-  }
-  return labels[caliber as CaliberValue] || caliber
+  return getCaliberTaxonomy().label(caliber)
 }
 
 function round(value: number, decimals: number): number {
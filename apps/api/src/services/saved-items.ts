@@ -14,8 +14,10 @@
 
 import { randomUUID } from 'crypto'
 import { prisma, AlertRuleType, Prisma } from '@ironscout/db'
+import type { TargetPriceBasis } from '@ironscout/db/generated/prisma'
 import { visiblePriceWhere } from '../config/tiers'
 import { watchlistItemRepository } from './watchlist-item'
+import type { NotificationChannelValue } from './notification-channels'
 
 // ============================================================================
 // Types
@@ -27,6 +29,7 @@ export interface SavedItemDTO {
   name: string
   brand: string
   caliber: string
+  roundCount: number | null
   price: number | null
   inStock: boolean
   imageUrl: string | null
@@ -39,6 +42,12 @@ export interface SavedItemDTO {
   minDropPercent: number
   minDropAmount: number
   stockAlertCooldownHours: number
+  notificationChannels: NotificationChannelValue[]
+
+  // TARGET_PRICE rule (null targetPrice = no target)
+  targetPrice: number | null
+  targetPriceBasis: TargetPriceBasis
+  targetIncludeShipping: boolean
 }
 
 export interface SavedItemsResponse {
@@ -58,6 +67,11 @@ export interface UpdatePrefsInput {
   minDropPercent?: number
   minDropAmount?: number
   stockAlertCooldownHours?: number
+  notificationChannels?: NotificationChannelValue[]
+  /** null clears the target and disables the TARGET_PRICE alert */
+  targetPrice?: number | null
+  targetPriceBasis?: TargetPriceBasis
+  targetIncludeShipping?: boolean
 }
 
 // Validation constraints
@@ -65,6 +79,7 @@ const PREFS_VALIDATION = {
   minDropPercent: { min: 0, max: 100 },
   minDropAmount: { min: 0 },
   stockAlertCooldownHours: { min: 1, max: 168 }, // 1 hour to 1 week
+  targetPrice: { max: 100000 },
 }
 
 // ============================================================================
@@ -227,6 +242,7 @@ export async function getSavedItems(userId: string): Promise<SavedItemDTO[]> {
           name: true,
           brand: true,
           caliber: true,
+          roundCount: true,
           imageUrl: true,
           prices: {
             where: {
@@ -266,6 +282,7 @@ export async function getSavedItemById(
           name: true,
           brand: true,
           caliber: true,
+          roundCount: true,
           imageUrl: true,
           prices: {
             where: {
@@ -313,6 +330,7 @@ export async function getSavedItemByProductId(
           name: true,
           brand: true,
           caliber: true,
+          roundCount: true,
           imageUrl: true,
           prices: {
             where: {
@@ -357,13 +375,64 @@ export async function updateSavedItemPrefs(
     throw new Error('Item not found')
   }
 
+  // Per-round targets can never fire for products without a known round count
+  if (prefs.targetPriceBasis === 'PER_ROUND') {
+    const product = await prisma.products.findUnique({
+      where: { id: productId },
+      select: { roundCount: true },
+    })
+    if (!product?.roundCount) {
+      throw new Error('Product round count must be known to use a per-round target')
+    }
+  }
+
   // Update preferences using repository
   await watchlistItemRepository.updatePreferences(existing.id, prefs)
 
+  // TARGET_PRICE alert row mirrors whether a target is set (ADR-011: alert is a rule marker)
+  if (prefs.targetPrice !== undefined) {
+    await syncTargetPriceAlert(userId, productId, existing.id, prefs.targetPrice !== null)
+  }
+
   // Return updated DTO
   return await getSavedItemById(userId, existing.id)
 }
 
+/**
+ * Create or toggle the TARGET_PRICE alert row for a saved item.
+ * Created lazily because most items never get a target.
+ */
+async function syncTargetPriceAlert(
+  userId: string,
+  productId: string,
+  watchlistItemId: string,
+  enabled: boolean
+): Promise<void> {
+  await prisma.alerts.upsert({
+    where: {
+      userId_productId_ruleType: {
+        userId,
+        productId,
+        ruleType: 'TARGET_PRICE',
+      },
+    },
+    create: {
+      id: randomUUID(),
+      userId,
+      productId,
+      watchlistItemId,
+      ruleType: 'TARGET_PRICE',
+      isEnabled: enabled,
+      updatedAt: new Date(),
+    },
+    update: {
+      watchlistItemId,
+      isEnabled: enabled,
+      updatedAt: new Date(),
+    },
+  })
+}
+
 /**
  * Count saved items for a user (active only)
  * Per ADR-011A Section 17.2: All user-facing queries MUST include deletedAt: null
@@ -378,7 +447,7 @@ export async function countSavedItems(userId: string): Promise<number> {
 
 export interface AlertHistoryEntry {
   id: string
-  type: 'PRICE_DROP' | 'BACK_IN_STOCK'
+  type: 'PRICE_DROP' | 'BACK_IN_STOCK' | 'TARGET_PRICE' | 'NEW_PRODUCT'
   productId: string
   productName: string
   triggeredAt: string
@@ -436,10 +505,11 @@ export async function getAlertHistory(
     const meta = log.metadata || {}
     const isBackInStock = meta.reason?.includes('BACK_IN_STOCK') ||
                           meta.ruleType === 'BACK_IN_STOCK'
+    const isRuleSpecific = meta.ruleType === 'TARGET_PRICE' || meta.ruleType === 'NEW_PRODUCT'
 
     return {
       id: log.id,
-      type: isBackInStock ? 'BACK_IN_STOCK' : 'PRICE_DROP',
+      type: isBackInStock ? 'BACK_IN_STOCK' : isRuleSpecific ? meta.ruleType : 'PRICE_DROP',
       productId: meta.productId || '',
       productName: meta.productName || 'Unknown Product',
       triggeredAt: log.timestamp.toISOString(),
@@ -467,6 +537,7 @@ type WatchlistItemWithProduct = Prisma.watchlist_itemsGetPayload<{
         name: true
         brand: true
         caliber: true
+        roundCount: true
         imageUrl: true
         prices: {
           select: {
@@ -501,6 +572,7 @@ function mapToDTO(item: WatchlistItemWithProduct): SavedItemDTO {
     name: products?.name || 'Unknown Product',
     brand: products?.brand || '',
     caliber: products?.caliber || '',
+    roundCount: products?.roundCount ?? null,
     price: lowestPrice ? parseFloat(lowestPrice.price.toString()) : null,
     inStock: (products?.prices.length ?? 0) > 0 && lowestPrice?.inStock === true,
     imageUrl: products?.imageUrl || null,
@@ -512,6 +584,11 @@ function mapToDTO(item: WatchlistItemWithProduct): SavedItemDTO {
     minDropPercent: item.minDropPercent,
     minDropAmount: parseFloat(item.minDropAmount.toString()),
     stockAlertCooldownHours: item.stockAlertCooldownHours,
+    notificationChannels: item.notificationChannels,
+
+    targetPrice: item.targetPrice === null ? null : parseFloat(item.targetPrice.toString()),
+    targetPriceBasis: item.targetPriceBasis,
+    targetIncludeShipping: item.targetIncludeShipping,
   }
 }
 
@@ -535,4 +612,14 @@ function validatePrefs(prefs: UpdatePrefsInput): void {
       throw new Error(`stockAlertCooldownHours must be between ${PREFS_VALIDATION.stockAlertCooldownHours.min} and ${PREFS_VALIDATION.stockAlertCooldownHours.max}`)
     }
   }
+
+  if (prefs.notificationChannels !== undefined && prefs.notificationChannels.length === 0) {
+    throw new Error('notificationChannels must include at least one channel')
+  }
+
+  if (prefs.targetPrice !== undefined && prefs.targetPrice !== null) {
+    if (prefs.targetPrice <= 0 || prefs.targetPrice > PREFS_VALIDATION.targetPrice.max) {
+      throw new Error(`targetPrice must be greater than 0 and at most ${PREFS_VALIDATION.targetPrice.max}`)
+    }
+  }
 }
@@ -0,0 +1,331 @@
+/**
+ * Saved Searches Service (SEARCH intent, ADR-011A)
+ *
+ * A saved search is a WatchlistItem with intentType SEARCH, productId null and
+ * a versioned querySnapshot. It resolves to every product currently matching
+ * the query (see watchlist-item/resolver.ts).
+ *
+ * Alerts: when a search is saved, its current matches are recorded in
+ * watchlist_search_matches. The harvester alerter compares new products and
+ * offers against that baseline and fires NEW_PRODUCT / TARGET_PRICE alerts only
+ * for products that start matching afterwards.
+ *
+ * Kept separate from SavedItemDTO, which stays SKU-only (ADR-011A Section 19.2).
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { prisma } from '@ironscout/db'
+import type { SavedSearchFilters } from '@ironscout/db'
+import { watchlistItemResolver } from './watchlist-item'
+import type { QuerySnapshotV1 } from './watchlist-item'
+import { isCustomLensId, isValidLensId } from './lens'
+import type { NotificationChannelValue } from './notification-channels'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SavedSearchDTO {
+  id: string
+  query: QuerySnapshotV1
+  matchCount: number
+  savedAt: string
+
+  notificationsEnabled: boolean
+  notificationChannels: NotificationChannelValue[]
+}
+
+export interface SaveSearchInput {
+  searchText?: string
+  filters: SavedSearchFilters
+  sortBy?: string
+  lensId?: string
+}
+
+export interface UpdateSavedSearchInput {
+  notificationsEnabled?: boolean
+  notificationChannels?: NotificationChannelValue[]
+}
+
+const SEARCH_VALIDATION = {
+  grain: { min: 1, max: 1000 },
+  maxPricePerRound: { max: 100 },
+  price: { max: 100000 },
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Save a search (idempotent with resurrection support)
+ *
+ * Searches are unique per user on the hash of their filters
+ * (watchlist_items_search_active_uniq). Saving the same filters again
+ * updates the replay fields (searchText, sortBy, lens) on the existing item.
+ *
+ * Current matches are recorded so existing products never alert.
+ */
+export async function saveSearch(
+  userId: string,
+  input: SaveSearchInput
+): Promise<SavedSearchDTO> {
+  const snapshot = buildSnapshot(input)
+  const querySnapshotHash = hashSnapshotFilters(snapshot.filters ?? {})
+
+  const { item, needsBaseline } = await prisma.$transaction(async (tx) => {
+    // Includes soft-deleted for resurrection
+    const existing = await tx.watchlist_items.findFirst({
+      where: { userId, intentType: 'SEARCH', querySnapshotHash },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (existing) {
+      const item = await tx.watchlist_items.update({
+        where: { id: existing.id },
+        data: {
+          querySnapshot: snapshot as object,
+          deletedAt: null,
+          updatedAt: new Date(),
+        },
+      })
+      // A resurrected search starts from a fresh baseline
+      return { item, needsBaseline: existing.deletedAt !== null }
+    }
+
+    const item = await tx.watchlist_items.create({
+      data: {
+        id: randomUUID(),
+        userId,
+        productId: null,
+        intentType: 'SEARCH',
+        querySnapshot: snapshot as object,
+        querySnapshotHash,
+        notificationsEnabled: true,
+        updatedAt: new Date(),
+      },
+    })
+    return { item, needsBaseline: true }
+  })
+
+  const { productIds } = await watchlistItemResolver.resolve(item.id, { userId })
+
+  if (needsBaseline) {
+    await prisma.watchlist_search_matches.deleteMany({ where: { watchlistItemId: item.id } })
+    if (productIds.length > 0) {
+      await prisma.watchlist_search_matches.createMany({
+        data: productIds.map((productId) => ({
+          id: randomUUID(),
+          watchlistItemId: item.id,
+          productId,
+          updatedAt: new Date(),
+        })),
+        skipDuplicates: true,
+      })
+    }
+  }
+
+  return mapToDTO(item, productIds.length)
+}
+
+/**
+ * List saved searches for a user (active only) with live match counts
+ * Per ADR-011A Section 17.2: All user-facing queries MUST include deletedAt: null
+ */
+export async function getSavedSearches(userId: string): Promise<SavedSearchDTO[]> {
+  const items = await prisma.watchlist_items.findMany({
+    where: { userId, deletedAt: null, intentType: 'SEARCH' },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const resolutions = await watchlistItemResolver.resolveMany(
+    items.map((item) => item.id),
+    { userId }
+  )
+
+  return items.map((item) => mapToDTO(item, resolutions.get(item.id)?.productIds.length ?? 0))
+}
+
+/**
+ * Products currently matching a saved search
+ */
+export async function getSavedSearchMatches(userId: string, id: string): Promise<string[]> {
+  await findActiveSearch(userId, id)
+  const { productIds } = await watchlistItemResolver.resolve(id, { userId })
+  return productIds
+}
+
+/**
+ * Update notification preferences of a saved search
+ */
+export async function updateSavedSearch(
+  userId: string,
+  id: string,
+  input: UpdateSavedSearchInput
+): Promise<SavedSearchDTO> {
+  if (input.notificationChannels !== undefined && input.notificationChannels.length === 0) {
+    throw new Error('notificationChannels must include at least one channel')
+  }
+
+  await findActiveSearch(userId, id)
+
+  const item = await prisma.watchlist_items.update({
+    where: { id },
+    data: {
+      ...(input.notificationsEnabled !== undefined && { notificationsEnabled: input.notificationsEnabled }),
+      ...(input.notificationChannels !== undefined && { notificationChannels: input.notificationChannels }),
+      updatedAt: new Date(),
+    },
+  })
+
+  const { productIds } = await watchlistItemResolver.resolve(id, { userId })
+  return mapToDTO(item, productIds.length)
+}
+
+/**
+ * Delete a saved search (soft delete, per ADR-011A Section 12.1)
+ */
+export async function deleteSavedSearch(userId: string, id: string): Promise<void> {
+  const result = await prisma.watchlist_items.updateMany({
+    where: { id, userId, intentType: 'SEARCH', deletedAt: null },
+    data: { deletedAt: new Date(), updatedAt: new Date() },
+  })
+
+  if (result.count === 0) {
+    throw new Error('Item not found')
+  }
+}
+
+// ============================================================================
+// Snapshot Helpers
+// ============================================================================
+
+/**
+ * Normalize and validate input into a QuerySnapshotV1.
+ * Arrays are trimmed, de-duplicated and sorted so equal queries hash equally.
+ */
+export function buildSnapshot(input: SaveSearchInput): QuerySnapshotV1 {
+  const filters = input.filters
+  const caliber = normalizeList(filters.caliber)
+  if (caliber.length === 0) {
+    throw new Error('caliber must be included in a saved search')
+  }
+
+  const grainRange = normalizeRange(filters.grainRange, 'grainRange', SEARCH_VALIDATION.grain.max)
+  if (grainRange?.min !== undefined && grainRange.min < SEARCH_VALIDATION.grain.min) {
+    throw new Error(`grainRange must be between ${SEARCH_VALIDATION.grain.min} and ${SEARCH_VALIDATION.grain.max}`)
+  }
+  const priceRange = normalizeRange(filters.priceRange, 'priceRange', SEARCH_VALIDATION.price.max)
+
+  if (filters.maxPricePerRound !== undefined) {
+    if (filters.maxPricePerRound <= 0 || filters.maxPricePerRound > SEARCH_VALIDATION.maxPricePerRound.max) {
+      throw new Error(`maxPricePerRound must be greater than 0 and at most ${SEARCH_VALIDATION.maxPricePerRound.max}`)
+    }
+  }
+
+  if (input.lensId !== undefined && !isValidLensId(input.lensId) && !isCustomLensId(input.lensId)) {
+    throw new Error('lensId must be a valid lens')
+  }
+
+  const brand = normalizeList(filters.brand)
+  const bulletType = [...new Set(filters.bulletType ?? [])].sort()
+  const searchText = input.searchText?.trim()
+
+  return {
+    version: 1,
+    ...(searchText ? { searchText } : {}),
+    filters: {
+      caliber,
+      ...(brand.length > 0 ? { brand } : {}),
+      ...(bulletType.length > 0 ? { bulletType } : {}),
+      ...(grainRange ? { grainRange } : {}),
+      ...(priceRange ? { priceRange } : {}),
+      ...(filters.maxPricePerRound !== undefined ? { maxPricePerRound: filters.maxPricePerRound } : {}),
+    },
+    ...(input.sortBy ? { sortBy: input.sortBy } : {}),
+    ...(input.lensId ? { lensId: input.lensId } : {}),
+  }
+}
+
+/**
+ * sha256 of the canonical filters. Only filters affect matching, so only
+ * filters take part in uniqueness.
+ */
+export function hashSnapshotFilters(filters: SavedSearchFilters): string {
+  return createHash('sha256').update(canonicalJson(filters)).digest('hex')
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+function normalizeList(values: string[] | undefined): string[] {
+  return [...new Set((values ?? []).map((v) => v.trim()).filter(Boolean))].sort()
+}
+
+function normalizeRange(
+  range: { min?: number; max?: number } | undefined,
+  name: string,
+  max: number
+): { min?: number; max?: number } | undefined {
+  if (!range || (range.min === undefined && range.max === undefined)) {
+    return undefined
+  }
+  for (const bound of [range.min, range.max]) {
+    if (bound !== undefined && (bound < 0 || bound > max)) {
+      throw new Error(`${name} must be between 0 and ${max}`)
+    }
+  }
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    throw new Error(`${name} min must be at most max`)
+  }
+  return {
+    ...(range.min !== undefined ? { min: range.min } : {}),
+    ...(range.max !== undefined ? { max: range.max } : {}),
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function findActiveSearch(userId: string, id: string) {
+  const item = await prisma.watchlist_items.findFirst({
+    where: { id, userId, intentType: 'SEARCH', deletedAt: null },
+    select: { id: true },
+  })
+
+  if (!item) {
+    throw new Error('Item not found')
+  }
+  return item
+}
+
+function mapToDTO(
+  item: {
+    id: string
+    querySnapshot: unknown
+    createdAt: Date
+    notificationsEnabled: boolean
+    notificationChannels: NotificationChannelValue[]
+  },
+  matchCount: number
+): SavedSearchDTO {
+  return {
+    id: item.id,
+    query: item.querySnapshot as QuerySnapshotV1,
+    matchCount,
+    savedAt: item.createdAt.toISOString(),
+    notificationsEnabled: item.notificationsEnabled,
+    notificationChannels: item.notificationChannels,
+  }
+}
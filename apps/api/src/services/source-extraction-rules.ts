@@ -0,0 +1,232 @@
+/**
+ * Source Extraction Rules Service
+ *
+ * Versioned per-source extraction rules for the crawl worker. Saving rules
+ * appends version N+1 and makes it active; rollback re-activates an earlier
+ * version without rewriting history. Each crawl execution records the version
+ * it ran with, so the history shows what every rule change produced.
+ *
+ * Rules are validated and previewed with @ironscout/db/extraction-rules.js,
+ * the same code the harvester runs.
+ */
+
+import { prisma, Prisma, type SourceType } from '@ironscout/db'
+import {
+  applyExtractionRules,
+  validateExtractionRules,
+  type ExtractedRecord,
+  type ExtractionRules,
+} from '@ironscout/db/extraction-rules.js'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExtractionRuleVersionDTO {
+  id: string
+  version: number
+  rules: ExtractionRules | null
+  summary: string
+  createdAt: string
+  createdBy: string
+  isActive: boolean
+  executions: {
+    total: number
+    success: number
+    failed: number
+    lastStartedAt: string | null
+  }
+}
+
+export interface SourceExtractionRulesDTO {
+  sourceId: string
+  sourceType: SourceType
+  sourceUrl: string
+  activeVersionId: string | null
+  rules: ExtractionRules | null
+  versions: ExtractionRuleVersionDTO[]
+}
+
+export interface ExtractionPreviewInput {
+  sourceType: SourceType
+  rules: unknown
+  sample: string
+  pageUrl?: string
+}
+
+export type ExtractionPreviewResult =
+  | { ok: true; records: ExtractedRecord[]; nextPage: string | null }
+  | { ok: false; errors: string[] }
+
+export type ExtractionRulesWriteResult =
+  | { ok: true; result: SourceExtractionRulesDTO }
+  | { ok: false; errors: string[] }
+
+/** Largest sample accepted for preview (characters) */
+export const MAX_PREVIEW_SAMPLE_LENGTH = 2_000_000
+
+const DEFAULT_PREVIEW_URL = 'https://example.com/'
+
+function toJson(rules: ExtractionRules | null): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return rules ? (rules as unknown as Prisma.InputJsonValue) : Prisma.DbNull
+}
+
+// ============================================================================
+// Read
+// ============================================================================
+
+export async function getSourceExtractionRules(sourceId: string): Promise<SourceExtractionRulesDTO> {
+  const source = await prisma.sources.findUnique({
+    where: { id: sourceId },
+    select: { id: true, type: true, url: true, extractionRules: true, extractionRulesVersionId: true },
+  })
+  if (!source) {
+    throw new Error('Source not found')
+  }
+
+  const [versions, executionCounts] = await Promise.all([
+    prisma.source_extraction_rule_versions.findMany({
+      where: { sourceId },
+      orderBy: { version: 'desc' },
+    }),
+    prisma.executions.groupBy({
+      by: ['extractionRulesVersionId', 'status'],
+      where: { sourceId, extractionRulesVersionId: { not: null } },
+      _count: { _all: true },
+      _max: { startedAt: true },
+    }),
+  ])
+
+  return {
+    sourceId: source.id,
+    sourceType: source.type,
+    sourceUrl: source.url,
+    activeVersionId: source.extractionRulesVersionId,
+    rules: source.extractionRules as ExtractionRules | null,
+    versions: versions.map(version => {
+      const counts = executionCounts.filter(c => c.extractionRulesVersionId === version.id)
+      const lastStartedAt = counts
+        .map(c => c._max.startedAt)
+        .filter((d): d is Date => d !== null)
+        .sort((a, b) => b.getTime() - a.getTime())[0]
+      const count = (status: string) => counts.find(c => c.status === status)?._count._all ?? 0
+
+      return {
+        id: version.id,
+        version: version.version,
+        rules: version.rules as ExtractionRules | null,
+        summary: version.summary,
+        createdAt: version.createdAt.toISOString(),
+        createdBy: version.createdBy,
+        isActive: version.id === source.extractionRulesVersionId,
+        executions: {
+          total: counts.reduce((sum, c) => sum + c._count._all, 0),
+          success: count('SUCCESS'),
+          failed: count('FAILED'),
+          lastStartedAt: lastStartedAt?.toISOString() ?? null,
+        },
+      }
+    }),
+  }
+}
+
+// ============================================================================
+// Write
+// ============================================================================
+
+/**
+ * Validate and save rules as the next version. `rules: null` clears them
+ * (the crawler falls back to generic extraction) and is versioned too.
+ *
+ * @returns validation errors (nothing saved) or the updated rules
+ */
+export async function saveSourceExtractionRules(
+  sourceId: string,
+  input: { rules: unknown; summary: string },
+  createdBy: string
+): Promise<ExtractionRulesWriteResult> {
+  const source = await prisma.sources.findUnique({ where: { id: sourceId }, select: { type: true } })
+  if (!source) {
+    throw new Error('Source not found')
+  }
+
+  const { rules, errors } = validateExtractionRules(input.rules, source.type)
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  await prisma.$transaction(async tx => {
+    const latest = await tx.source_extraction_rule_versions.findFirst({
+      where: { sourceId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+    const created = await tx.source_extraction_rule_versions.create({
+      data: {
+        sourceId,
+        version: (latest?.version ?? 0) + 1,
+        rules: toJson(rules),
+        summary: input.summary,
+        createdBy,
+      },
+    })
+    await tx.sources.update({
+      where: { id: sourceId },
+      data: { extractionRules: toJson(rules), extractionRulesVersionId: created.id },
+    })
+  })
+
+  return { ok: true, result: await getSourceExtractionRules(sourceId) }
+}
+
+/**
+ * Re-activate an earlier version. The version must still be valid for the
+ * source's current type.
+ */
+export async function rollbackSourceExtractionRules(
+  sourceId: string,
+  version: number
+): Promise<ExtractionRulesWriteResult> {
+  const target = await prisma.source_extraction_rule_versions.findUnique({
+    where: { sourceId_version: { sourceId, version } },
+    include: { sources: { select: { type: true } } },
+  })
+  if (!target) {
+    throw new Error('Version not found')
+  }
+
+  const { rules, errors } = validateExtractionRules(target.rules, target.sources.type)
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  await prisma.sources.update({
+    where: { id: sourceId },
+    data: { extractionRules: toJson(rules), extractionRulesVersionId: target.id },
+  })
+
+  return { ok: true, result: await getSourceExtractionRules(sourceId) }
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Run rules against a pasted sample page without saving anything
+ */
+export function previewExtractionRules(input: ExtractionPreviewInput): ExtractionPreviewResult {
+  const { rules, errors } = validateExtractionRules(input.rules, input.sourceType)
+  if (errors.length > 0) return { ok: false, errors }
+  if (!rules) return { ok: false, errors: ['No extraction rules to preview'] }
+
+  try {
+    const { records, nextPage } = applyExtractionRules(rules, input.sample, {
+      pageUrl: input.pageUrl ?? DEFAULT_PREVIEW_URL,
+      xml: input.sourceType === 'RSS',
+    })
+    return { ok: true, records, nextPage }
+  } catch (error) {
+    return { ok: false, errors: [`Could not parse sample: ${(error as Error).message}`] }
+  }
+}
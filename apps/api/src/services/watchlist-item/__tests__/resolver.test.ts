@@ -13,6 +13,12 @@ vi.mock('@ironscout/db', () => ({
     watchlist_items: {
       findMany: vi.fn(),
     },
+    products: {
+      findMany: vi.fn(),
+    },
+    current_visible_prices: {
+      findMany: vi.fn(),
+    },
   },
 }))
 
@@ -22,7 +28,6 @@ const mockPrisma = prisma as any
 
 // Import after mocking
 import { WatchlistItemResolver, watchlistItemResolver } from '../resolver'
-import { NotImplementedError } from '../types'
 
 describe('ADR-011A: WatchlistItemResolver', () => {
   let resolver: WatchlistItemResolver
@@ -163,29 +168,75 @@ describe('ADR-011A: WatchlistItemResolver', () => {
     })
   })
 
-  describe('SEARCH intent gating', () => {
-    it('throws NotImplementedError for SEARCH intent', async () => {
+  describe('SEARCH intent', () => {
+    const snapshot = {
+      version: 1,
+      filters: { caliber: ['9mm'], maxPricePerRound: 0.3 },
+    }
+
+    function row(productId: string, price: string, overrides: Record<string, unknown> = {}) {
+      return {
+        productId,
+        retailerId: 'ret-1',
+        url: `https://example.com/${productId}`,
+        visiblePrice: { toString: () => price },
+        inStock: true,
+        ...overrides,
+      }
+    }
+
+    it('resolves to products with an offer under the price ceiling', async () => {
       mockPrisma.watchlist_items.findMany.mockResolvedValue([
-        { id: 'item-1', intentType: 'SEARCH', productId: null },
+        { id: 'item-1', intentType: 'SEARCH', productId: null, querySnapshot: snapshot },
+      ])
+      mockPrisma.products.findMany.mockResolvedValue([
+        { id: 'product-1', roundCount: 50 },
+        { id: 'product-2', roundCount: 50 },
+        { id: 'product-3', roundCount: null },
+      ])
+      mockPrisma.current_visible_prices.findMany.mockResolvedValue([
+        row('product-1', '14.00'), // $0.28/rd
+        row('product-2', '17.50'), // $0.35/rd
+        row('product-3', '5.00'), // unknown round count
       ])
 
-      await expect(resolver.resolveMany(['item-1'])).rejects.toThrow(
-        NotImplementedError
-      )
-      await expect(resolver.resolveMany(['item-1'])).rejects.toThrow(
-        'SEARCH intent resolution is not implemented'
+      const result = await resolver.resolveMany(['item-1'])
+
+      expect(result.get('item-1')?.productIds).toEqual(['product-1'])
+      expect(mockPrisma.products.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { AND: [{ OR: [{ caliberNorm: { contains: '9mm', mode: 'insensitive' } }] }] },
+        })
       )
     })
 
-    it('throws even when mixed with SKU items', async () => {
+    it('ignores older observations when the latest one is out of stock', async () => {
       mockPrisma.watchlist_items.findMany.mockResolvedValue([
-        { id: 'item-1', intentType: 'SKU', productId: 'product-1' },
-        { id: 'item-2', intentType: 'SEARCH', productId: null },
+        { id: 'item-1', intentType: 'SEARCH', productId: null, querySnapshot: snapshot },
+      ])
+      mockPrisma.products.findMany.mockResolvedValue([{ id: 'product-1', roundCount: 50 }])
+      mockPrisma.current_visible_prices.findMany.mockResolvedValue([
+        row('product-1', '14.00', { inStock: false }),
+        row('product-1', '14.00'),
       ])
 
-      await expect(resolver.resolveMany(['item-1', 'item-2'])).rejects.toThrow(
-        NotImplementedError
-      )
+      const result = await resolver.resolveMany(['item-1'])
+
+      expect(result.get('item-1')?.productIds).toEqual([])
+    })
+
+    it('resolves mixed SKU and SEARCH items', async () => {
+      mockPrisma.watchlist_items.findMany.mockResolvedValue([
+        { id: 'item-1', intentType: 'SKU', productId: 'product-9' },
+        { id: 'item-2', intentType: 'SEARCH', productId: null, querySnapshot: snapshot },
+      ])
+      mockPrisma.products.findMany.mockResolvedValue([])
+
+      const result = await resolver.resolveMany(['item-1', 'item-2'])
+
+      expect(result.get('item-1')?.productIds).toEqual(['product-9'])
+      expect(result.get('item-2')?.productIds).toEqual([])
+      expect(mockPrisma.current_visible_prices.findMany).not.toHaveBeenCalled()
     })
   })
 
@@ -264,6 +264,10 @@ export async function updatePreferences(
     minDropPercent?: number
     minDropAmount?: number
     stockAlertCooldownHours?: number
+    notificationChannels?: Array<'EMAIL' | 'WEB_PUSH' | 'SMS' | 'WEBHOOK'>
+    targetPrice?: number | null
+    targetPriceBasis?: 'TOTAL' | 'PER_ROUND'
+    targetIncludeShipping?: boolean
   }
 ): Promise<WatchlistItemRecord> {
   const record = await prisma.watchlist_items.update({
@@ -2,7 +2,8 @@
  * WatchlistItemResolver
  *
  * Per ADR-011A Section 7: Provides a seam for product resolution.
- * v1: SKU intent returns [productId]. SEARCH throws NotImplementedError.
+ * SKU intent returns [productId]. SEARCH returns the products currently
+ * matching the saved query (shared predicates in @ironscout/db/saved-search.js).
  *
  * CRITICAL: All product resolution MUST go through this resolver.
  * Direct productId access outside resolver/repo is forbidden.
@@ -11,19 +12,20 @@
  */
 
 import { prisma } from '@ironscout/db'
+// Import saved search predicates directly so they stay real when @ironscout/db is mocked
+import { savedSearchProductWhere, offerMatchesSavedSearch } from '@ironscout/db/saved-search.js'
 import {
   WatchlistItemResolution,
   ResolveOptions,
-  NotImplementedError,
   IWatchlistItemResolver,
+  QuerySnapshot,
 } from './types'
 
 /**
  * WatchlistItemResolver implementation.
  *
  * Resolves WatchlistItems to their associated product IDs.
- * This abstraction allows future SEARCH intent to resolve to multiple products
- * without changing downstream code.
+ * SEARCH intent resolves to multiple products without changing downstream code.
  */
 export class WatchlistItemResolver implements IWatchlistItemResolver {
   /**
@@ -80,6 +82,7 @@ export class WatchlistItemResolver implements IWatchlistItemResolver {
         id: true,
         intentType: true,
         productId: true,
+        querySnapshot: true,
       },
     })
 
@@ -87,9 +90,13 @@ export class WatchlistItemResolver implements IWatchlistItemResolver {
     const now = new Date()
 
     for (const record of records) {
-      // Per ADR-011A Section 19.2: SEARCH is gated in v1
+      // SEARCH intent: one match query per saved search (items are still fetched in one query)
       if (record.intentType === 'SEARCH') {
-        throw new NotImplementedError('SEARCH intent resolution')
+        results.set(record.id, {
+          productIds: await this.resolveSearch(record.querySnapshot as QuerySnapshot | null),
+          resolvedAt: now,
+        })
+        continue
       }
 
       // SKU intent: productIds = [productId]
@@ -104,6 +111,57 @@ export class WatchlistItemResolver implements IWatchlistItemResolver {
 
     return results
   }
+
+  /**
+   * Products currently matching a saved search.
+   *
+   * Attribute filters run in SQL; price filters run against the latest
+   * observation per listing in current_visible_prices (ADR-015), so a listing
+   * whose latest observation is out of stock does not count.
+   */
+  private async resolveSearch(snapshot: QuerySnapshot | null): Promise<string[]> {
+    if (!snapshot) {
+      return []
+    }
+    const filters = snapshot.filters ?? {}
+
+    const products = await prisma.products.findMany({
+      where: savedSearchProductWhere(filters),
+      select: { id: true, roundCount: true },
+    })
+    if (products.length === 0) {
+      return []
+    }
+
+    const roundCounts = new Map(products.map((p) => [p.id, p.roundCount]))
+    const rows = await prisma.current_visible_prices.findMany({
+      where: { productId: { in: products.map((p) => p.id) } },
+      select: {
+        productId: true,
+        retailerId: true,
+        url: true,
+        visiblePrice: true,
+        inStock: true,
+      },
+      orderBy: { observedAt: 'desc' },
+    })
+
+    const seen = new Set<string>()
+    const matched = new Set<string>()
+    for (const row of rows) {
+      if (!row.productId) continue
+      const key = `${row.productId}|${row.retailerId}|${row.url}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const offer = { price: parseFloat(row.visiblePrice.toString()), inStock: row.inStock }
+      if (offerMatchesSavedSearch(offer, roundCounts.get(row.productId) ?? null, filters)) {
+        matched.add(row.productId)
+      }
+    }
+
+    return products.filter((p) => matched.has(p.id)).map((p) => p.id)
+  }
 }
 
 /**
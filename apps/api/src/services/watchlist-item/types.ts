@@ -10,29 +10,31 @@
  * - API DTO: SavedItemDTO (unchanged, defined in saved-items.ts)
  */
 
+import type { SavedSearchFilters } from '@ironscout/db'
+
 // ============================================================================
 // Intent Types
 // ============================================================================
 
 /**
  * Intent types for WatchlistItem.
- * v1: Only SKU is implemented. SEARCH is gated per ADR-011A Section 19.2.
+ * SKU tracks one product; SEARCH tracks every product matching a saved query.
  */
 export type IntentType = 'SKU' | 'SEARCH'
 
 /**
- * QuerySnapshot for SEARCH intent (future).
+ * QuerySnapshot for SEARCH intent.
  * Versioned for forward compatibility per ADR-011A Section 5.
+ *
+ * Matching uses filters only (see @ironscout/db saved-search predicates).
+ * searchText, sortBy and lensId replay the search in the UI.
  */
 export interface QuerySnapshotV1 {
   version: 1
   searchText?: string
-  filters?: {
-    caliber?: string[]
-    brand?: string[]
-    priceRange?: { min?: number; max?: number }
-  }
+  filters?: SavedSearchFilters
   sortBy?: string
+  lensId?: string
 }
 
 export type QuerySnapshot = QuerySnapshotV1
@@ -0,0 +1,194 @@
+/**
+ * Tests for Affiliate Feed Decompression
+ *
+ * Covers streaming GZIP/BZIP2/ZIP decoding into the parser, ZIP entry
+ * selection (globs and format-extension defaults) and corrupt input handling.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { gzipSync } from 'zlib'
+import { openFeedContent, selectZipEntries, globToRegExp } from '../decompress'
+import { parseFeed } from '../parser'
+import { AffiliateFeedError, ERROR_CODES } from '../types'
+import { buildZip, BZIP2_FEED, BZIP2_FEED_CSV, fileLevelFixtures } from './fixtures'
+import type { AffiliateFeed } from '../types'
+
+const CSV = 'Name,URL,Price\nFederal 9mm,https://example.com/fed-9mm,18.99\nCCI 22LR,https://example.com/cci-22,6.49\n'
+
+type DecompressFeed = Pick<AffiliateFeed, 'id' | 'compression' | 'format' | 'archiveEntryGlob'>
+
+function feed(overrides: Partial<DecompressFeed> = {}): DecompressFeed {
+  return { id: 'feed-1', compression: 'NONE', format: 'CSV', archiveEntryGlob: null, ...overrides }
+}
+
+let spoolDir: string
+let spoolCount = 0
+
+beforeAll(() => {
+  spoolDir = mkdtempSync(join(tmpdir(), 'decompress-test-'))
+})
+
+afterAll(() => {
+  rmSync(spoolDir, { recursive: true, force: true })
+})
+
+/**
+ * Write a download body to disk, as the fetcher's spool does
+ */
+function spool(content: Buffer): string {
+  const filePath = join(spoolDir, `download-${++spoolCount}`)
+  writeFileSync(filePath, content)
+  return filePath
+}
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+  let text = ''
+  for await (const chunk of stream) text += chunk.toString()
+  return text
+}
+
+describe('openFeedContent', () => {
+  it('passes uncompressed content through and counts bytes', async () => {
+    const content = await openFeedContent(spool(Buffer.from(CSV)), feed())
+
+    expect(await readAll(content.stream)).toBe(CSV)
+    expect(content.uncompressedBytes).toBe(Buffer.byteLength(CSV))
+    expect(content.entryName).toBeNull()
+    expect(content.error).toBeNull()
+  })
+
+  it('streams GZIP content into the parser', async () => {
+    const compressed = gzipSync(CSV)
+    const content = await openFeedContent(spool(compressed), feed({ compression: 'GZIP' }))
+
+    const result = await parseFeed(content.stream, 'CSV', 1000)
+
+    expect(result.rowsParsed).toBe(2)
+    expect(result.products[0].name).toBe('Federal 9mm')
+    expect(content.uncompressedBytes).toBe(Buffer.byteLength(CSV))
+    expect(content.error).toBeNull()
+  })
+
+  it('handles multi-member GZIP files', async () => {
+    const [header, ...rows] = CSV.trimEnd().split('\n')
+    const compressed = Buffer.concat([gzipSync(`${header}\n${rows[0]}\n`), gzipSync(`${rows[1]}\n`)])
+    const content = await openFeedContent(spool(compressed), feed({ compression: 'GZIP' }))
+
+    const result = await parseFeed(content.stream, 'CSV', 1000)
+
+    expect(result.rowsParsed).toBe(2)
+  })
+
+  it('streams BZIP2 content', async () => {
+    const content = await openFeedContent(spool(BZIP2_FEED), feed({ compression: 'BZIP2' }))
+
+    expect(await readAll(content.stream)).toBe(BZIP2_FEED_CSV)
+    expect(content.uncompressedBytes).toBe(Buffer.byteLength(BZIP2_FEED_CSV))
+  })
+
+  it('reports corrupt GZIP data after the parser drains the stream', async () => {
+    const scenario = fileLevelFixtures.find((s) => s.name === 'corrupted_gzip')!
+    const content = await openFeedContent(spool(scenario.csv as Buffer), feed({ compression: 'GZIP' }))
+
+    const result = await parseFeed(content.stream, 'CSV', 1000)
+
+    expect(result.products).toHaveLength(0)
+    expect(content.error).toBeInstanceOf(AffiliateFeedError)
+    expect(content.error?.code).toBe(ERROR_CODES.DECOMPRESS_FAILED)
+    expect(content.error?.message).toContain('GZIP decompression failed')
+  })
+
+  it('reports uncompressed content configured as GZIP', async () => {
+    const content = await openFeedContent(spool(Buffer.from(CSV)), feed({ compression: 'GZIP' }))
+
+    await parseFeed(content.stream, 'CSV', 1000)
+
+    expect(content.error?.code).toBe(ERROR_CODES.DECOMPRESS_FAILED)
+  })
+
+  it('reports corrupt BZIP2 data', async () => {
+    const truncated = BZIP2_FEED.subarray(0, BZIP2_FEED.length - 20)
+    const content = await openFeedContent(spool(truncated), feed({ compression: 'BZIP2' }))
+
+    await parseFeed(content.stream, 'CSV', 1000)
+
+    expect(content.error?.message).toContain('BZIP2 decompression failed')
+  })
+
+  describe('ZIP archives', () => {
+    const archive = buildZip([
+      { name: '__MACOSX/._products.csv', content: 'junk' },
+      { name: 'README.txt', content: 'Product export, see products.csv' },
+      { name: 'exports/', content: '' },
+      { name: 'exports/products.csv', content: CSV },
+      { name: 'exports/products.xml', content: '<rss><channel></channel></rss>', stored: true },
+    ])
+
+    it('selects the entry matching the configured glob', async () => {
+      const content = await openFeedContent(spool(archive), feed({ compression: 'ZIP', archiveEntryGlob: 'exports/*.csv' }))
+
+      const result = await parseFeed(content.stream, 'CSV', 1000)
+
+      expect(content.entryName).toBe('exports/products.csv')
+      expect(result.rowsParsed).toBe(2)
+      expect(content.uncompressedBytes).toBe(Buffer.byteLength(CSV))
+    })
+
+    it('matches globs without a directory against the file name', async () => {
+      const content = await openFeedContent(spool(archive), feed({ compression: 'ZIP', format: 'XML', archiveEntryGlob: 'products.XML' }))
+
+      expect(content.entryName).toBe('exports/products.xml')
+      expect(await readAll(content.stream)).toContain('<rss>')
+    })
+
+    it('defaults to the first entry with an extension for the feed format', async () => {
+      const content = await openFeedContent(spool(archive), feed({ compression: 'ZIP', format: 'XML' }))
+
+      expect(content.entryName).toBe('exports/products.xml')
+    })
+
+    it('fails before parsing when no entry matches', async () => {
+      await expect(
+        openFeedContent(spool(archive), feed({ compression: 'ZIP', archiveEntryGlob: '*.ndjson' }))
+      ).rejects.toMatchObject({
+        code: ERROR_CODES.DECOMPRESS_FAILED,
+        message: expect.stringContaining('No ZIP entry matches "*.ndjson"'),
+      })
+    })
+
+    it('fails on content that is not a ZIP archive', async () => {
+      await expect(openFeedContent(spool(Buffer.from(CSV)), feed({ compression: 'ZIP' }))).rejects.toThrow(
+        'ZIP decompression failed'
+      )
+    })
+  })
+})
+
+describe('selectZipEntries', () => {
+  it('prefers format extensions over other files', () => {
+    expect(selectZipEntries(['readme.md', 'feed.tsv', 'feed.txt'], 'TSV')).toEqual(['feed.tsv', 'feed.txt'])
+  })
+
+  it('falls back to the only file in the archive', () => {
+    expect(selectZipEntries(['catalog.dat'], 'CSV')).toEqual(['catalog.dat'])
+    expect(selectZipEntries(['catalog.dat', 'other.dat'], 'CSV')).toEqual([])
+  })
+})
+
+describe('globToRegExp', () => {
+  it('keeps * within a path segment and lets ** cross segments', () => {
+    expect(globToRegExp('*.csv').test('feed.csv')).toBe(true)
+    expect(globToRegExp('*.csv').test('dir/feed.csv')).toBe(false)
+    expect(globToRegExp('**/*.csv').test('feed.csv')).toBe(true)
+    expect(globToRegExp('**/*.csv').test('a/b/feed.csv')).toBe(true)
+    expect(globToRegExp('feed_??.csv').test('feed_01.csv')).toBe(true)
+  })
+
+  it('escapes regex metacharacters', () => {
+    expect(globToRegExp('feed(1).csv').test('feed(1).csv')).toBe(true)
+    expect(globToRegExp('feed.csv').test('feedxcsv')).toBe(false)
+  })
+})
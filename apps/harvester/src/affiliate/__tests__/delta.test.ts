@@ -0,0 +1,229 @@
+/**
+ * Tests for DELTA feed semantics
+ *
+ * - Explicit DELETE rows end presence without creating products
+ * - DELTA runs do not count unseen products as expiring
+ * - FULL runs reconcile drift left by deltas
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@ironscout/db'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    affiliate_feeds: { findUnique: vi.fn() },
+    source_product_identifiers: { findMany: vi.fn() },
+    source_products: { findMany: vi.fn() },
+    product_links: { findMany: vi.fn() },
+    quarantined_records: { upsert: vi.fn() },
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn((fn: any) => fn(prisma)),
+  },
+  Prisma: { InputJsonValue: {} },
+}))
+
+vi.mock('../../config/redis', () => ({
+  redisConnection: {},
+}))
+
+vi.mock('../../config/queues', () => ({
+  QUEUE_NAMES: { RESOLVER: 'resolver' },
+  resolverQueue: { add: vi.fn(), addBulk: vi.fn() },
+}))
+
+vi.mock('../../config/logger', () => {
+  const mockLogger: any = {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }
+  mockLogger.child = vi.fn(() => mockLogger)
+  return {
+    logger: { affiliate: mockLogger },
+    rootLogger: { child: vi.fn(() => mockLogger) },
+  }
+})
+
+// Import after mocks
+import { processProducts } from '../processor'
+import { evaluateCircuitBreaker, reconcileFullRun } from '../circuit-breaker'
+import type { ParsedFeedProduct, FeedRunContext } from '../types'
+
+/** SQL text of a tagged-template prisma call */
+function sqlOf(call: unknown[]): string {
+  return (call[0] as TemplateStringsArray).join('?')
+}
+
+function createContext(): FeedRunContext {
+  return {
+    feed: { id: 'feed-delta', sourceId: 'source-1', expiryHours: 48, network: 'IMPACT', variant: 'DELTA' } as never,
+    run: { id: 'run-1', startedAt: new Date() } as never,
+    sourceId: 'source-1',
+    retailerId: 'retailer-1',
+    t0: new Date('2026-10-19T10:00:00.000Z'),
+  }
+}
+
+function deleteRow(overrides: Partial<ParsedFeedProduct> = {}): ParsedFeedProduct {
+  return { name: '', url: '', price: 0, inStock: true, impactItemId: 'A-2', deltaAction: 'DELETE', rowNumber: 1, ...overrides }
+}
+
+describe('processProducts with DELETE rows', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([{ sourceProductId: 'sp-2' }])
+    vi.mocked(prisma.$executeRaw).mockResolvedValue(1)
+  })
+
+  it('ends presence and records an out-of-stock price for existing products', async () => {
+    const result = await processProducts(createContext(), [deleteRow()])
+
+    expect(result.productsDeleted).toBe(1)
+    expect(result.productsUpserted).toBe(0)
+
+    const statements = vi.mocked(prisma.$executeRaw).mock.calls.map(sqlOf)
+    expect(statements).toHaveLength(2)
+    expect(statements[0]).toContain('"lastSeenSuccessAt" = NULL')
+    expect(statements[1]).toContain('INSERT INTO prices')
+    // Never recorded as seen, so Phase 2 cannot promote it again
+    expect(statements.some((sql) => sql.includes('source_product_seen'))).toBe(false)
+  })
+
+  it('looks up only the identifiers a DELETE row carries', async () => {
+    await processProducts(createContext(), [deleteRow()])
+
+    const [lookup] = vi.mocked(prisma.$queryRaw).mock.calls
+    const idTypes = lookup[2] as string[]
+    expect(idTypes).toEqual(['NETWORK_ITEM_ID'])
+  })
+
+  it('ignores DELETE rows for products that were never ingested', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([])
+
+    const result = await processProducts(createContext(), [deleteRow()])
+
+    expect(result.productsDeleted).toBe(0)
+    expect(prisma.$executeRaw).not.toHaveBeenCalled()
+  })
+
+  it('applies the last row when a product is updated then deleted', async () => {
+    const update: ParsedFeedProduct = {
+      name: 'Federal 9mm 115gr FMJ',
+      url: 'https://example.com/fed-9mm',
+      price: 18.99,
+      inStock: true,
+      impactItemId: 'A-2',
+      caliber: '9mm',
+      deltaAction: 'UPSERT',
+      rowNumber: 1,
+    }
+
+    const result = await processProducts(createContext(), [update, deleteRow({ rowNumber: 2 })])
+
+    expect(result.productsDeleted).toBe(1)
+    expect(result.productsUpserted).toBe(0)
+    expect(result.duplicateKeyCount).toBe(1)
+  })
+
+  it('processes streamed batches and counts identities repeated across them', async () => {
+    async function* batches() {
+      yield [deleteRow()]
+      yield [deleteRow({ rowNumber: 2 })]
+    }
+
+    const result = await processProducts(createContext(), batches())
+
+    expect(result.duplicateKeyCount).toBe(1)
+    expect(result.productsDeleted).toBe(2)
+  })
+})
+
+describe('evaluateCircuitBreaker for DELTA runs', () => {
+  const t0 = new Date('2026-10-19T10:00:00.000Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.affiliate_feeds.findUnique).mockResolvedValue({ sourceId: 'source-1' } as never)
+    // 1000 active products, only 20 of them in this run
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([{ count: BigInt(1000) }])
+      .mockResolvedValueOnce([{ count: BigInt(20) }])
+  })
+
+  it('does not treat products missing from a delta as expiring', async () => {
+    const result = await evaluateCircuitBreaker('run-1', 'feed-delta', 48, t0, 0, 25, 'DELTA')
+
+    expect(result.passed).toBe(true)
+    expect(result.metrics.activeCountBefore).toBe(1000)
+    expect(result.metrics.wouldExpireCount).toBe(0)
+  })
+
+  it('still blocks the same counts on a FULL run', async () => {
+    const result = await evaluateCircuitBreaker('run-1', 'feed-full', 48, t0, 0, 25)
+
+    expect(result.passed).toBe(false)
+    expect(result.reason).toBe('SPIKE_THRESHOLD_EXCEEDED')
+    expect(result.metrics.wouldExpireCount).toBe(980)
+  })
+
+  it('keeps URL_HASH quality gates for DELTA runs', async () => {
+    const result = await evaluateCircuitBreaker('run-1', 'feed-delta', 48, t0, 20, 25, 'DELTA')
+
+    expect(result.passed).toBe(false)
+    expect(result.reason).toBe('DATA_QUALITY_URL_HASH_SPIKE')
+  })
+})
+
+describe('reconcileFullRun', () => {
+  const t0 = new Date('2026-10-19T02:00:00.000Z')
+  const snapshotAt = new Date('2026-10-19T00:00:00.000Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$executeRaw).mockResolvedValue(1)
+  })
+
+  function mockActiveAndUnseen(activeCount: number, unseenCount: number) {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([{ count: BigInt(activeCount) }])
+      .mockResolvedValueOnce(Array.from({ length: unseenCount }, (_, i) => ({ sourceProductId: `sp-${i}` })))
+  }
+
+  it('removes active products missing from the full file like DELETE rows', async () => {
+    mockActiveAndUnseen(1000, 7)
+
+    const result = await reconcileFullRun('run-full', 'source-1', 48, t0, snapshotAt)
+
+    expect(result).toEqual({ productsExpired: 7 })
+    const [, unseenQuery] = vi.mocked(prisma.$queryRaw).mock.calls
+    expect(sqlOf(unseenQuery)).toContain('NOT EXISTS')
+    // Expiry window start, then the snapshot bound that protects newer delta rows
+    expect(unseenQuery).toContain(snapshotAt)
+    expect(unseenQuery).toContainEqual(new Date('2026-10-17T02:00:00.000Z'))
+
+    const statements = vi.mocked(prisma.$executeRaw).mock.calls.map(sqlOf)
+    expect(statements).toHaveLength(2)
+    expect(statements[0]).toContain('"lastSeenSuccessAt" = NULL')
+    expect(statements[1]).toContain('INSERT INTO prices')
+  })
+
+  it('skips removal when it would trip the circuit breaker', async () => {
+    mockActiveAndUnseen(1000, 400)
+
+    const result = await reconcileFullRun('run-full', 'source-1', 48, t0, snapshotAt)
+
+    expect(result).toEqual({ productsExpired: 0, blockedReason: 'SPIKE_THRESHOLD_EXCEEDED' })
+    expect(prisma.$executeRaw).not.toHaveBeenCalled()
+  })
+
+  it('writes nothing when every active product was in the full file', async () => {
+    mockActiveAndUnseen(1000, 0)
+
+    const result = await reconcileFullRun('run-full', 'source-1', 48, t0, snapshotAt)
+
+    expect(result).toEqual({ productsExpired: 0 })
+    expect(prisma.$executeRaw).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,240 @@
+/**
+ * Tests for HTTPS / SIGNED_URL affiliate feed downloads
+ *
+ * Runs the fetcher against a local HTTP stand-in to cover auth schemes,
+ * custom headers, ETag/Last-Modified change detection and credential handling.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import crypto from 'crypto'
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { gzipSync } from 'zlib'
+import { encryptJsonSecret, clearKeyCache } from '@ironscout/crypto'
+import { downloadFeed, buildFeedUrl, testConnection } from '../fetcher'
+import { startHttpFeedServer, type HttpFeedServer } from './fixtures'
+import type { AffiliateFeed, HttpFeedCredentials } from '../types'
+
+vi.mock('@ironscout/db', () => ({
+  isPlainFtpAllowed: vi.fn().mockResolvedValue(false),
+}))
+
+const FEED_BODY = 'Name,URL,Price\nFederal 9mm,https://example.com/fed-9mm,18.99\n'
+
+function createFeed(server: HttpFeedServer, overrides: Partial<AffiliateFeed> = {}, credentials?: HttpFeedCredentials): AffiliateFeed {
+  return {
+    id: 'feed-http-1',
+    transport: 'HTTPS',
+    host: server.host,
+    port: server.port,
+    path: '/exports/products.csv',
+    username: null,
+    httpAuthType: 'NONE',
+    secretCiphertext: credentials ? new Uint8Array(encryptJsonSecret(credentials)) : null,
+    secretKeyId: null,
+    secretVersion: 1,
+    compression: 'NONE',
+    maxFileSizeBytes: null,
+    lastRemoteMtime: null,
+    lastRemoteSize: null,
+    lastRemoteEtag: null,
+    lastContentHash: null,
+    ...overrides,
+  } as AffiliateFeed
+}
+
+describe('downloadFeed (HTTPS transport)', () => {
+  let server: HttpFeedServer
+  let spoolDir: string
+
+  beforeAll(async () => {
+    clearKeyCache()
+    process.env.CREDENTIAL_ENCRYPTION_KEY_B64 = crypto.randomBytes(32).toString('base64')
+    spoolDir = mkdtempSync(join(tmpdir(), 'fetcher-test-'))
+    process.env.AFFILIATE_FEED_SPOOL_DIR = spoolDir
+    server = await startHttpFeedServer()
+  })
+
+  afterAll(async () => {
+    await server.close()
+    clearKeyCache()
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_B64
+    delete process.env.AFFILIATE_FEED_SPOOL_DIR
+    rmSync(spoolDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    for (const file of readdirSync(spoolDir)) rmSync(join(spoolDir, file))
+    Object.assign(server.state, {
+      body: FEED_BODY,
+      status: 200,
+      etag: '"v1"',
+      lastModified: new Date('2026-01-10T02:00:00Z'),
+      requireAuthorization: undefined,
+      ignoreConditionals: false,
+    })
+  })
+
+  it('downloads an unauthenticated feed without stored credentials', async () => {
+    const result = await downloadFeed(createFeed(server))
+
+    expect(result.skipped).toBe(false)
+    expect(result.filePath?.startsWith(spoolDir)).toBe(true)
+    expect(readFileSync(result.filePath!, 'utf8')).toBe(FEED_BODY)
+    expect(result.contentBytes).toBe(FEED_BODY.length)
+    expect(result.etag).toBe('"v1"')
+    expect(result.mtime?.toISOString()).toBe('2026-01-10T02:00:00.000Z')
+    expect(result.size).toBe(BigInt(FEED_BODY.length))
+    expect(server.requests[0].url).toBe('/exports/products.csv')
+  })
+
+  it('returns GZIP feeds still compressed, hashed as transferred', async () => {
+    const compressed = gzipSync(FEED_BODY)
+    server.state.body = compressed
+
+    const result = await downloadFeed(createFeed(server, { compression: 'GZIP' }))
+
+    expect(readFileSync(result.filePath!).equals(compressed)).toBe(true)
+    expect(result.size).toBe(BigInt(compressed.length))
+    expect(result.contentHash).toBe(crypto.createHash('sha256').update(compressed).digest('hex'))
+  })
+
+  it('sends basic auth and custom headers', async () => {
+    const expected = `Basic ${Buffer.from('publisher:s3cret').toString('base64')}`
+    server.state.requireAuthorization = expected
+    const feed = createFeed(
+      server,
+      { httpAuthType: 'BASIC', username: 'publisher' },
+      { password: 's3cret', headers: { 'X-Api-Key': 'key-123' } }
+    )
+
+    const result = await downloadFeed(feed)
+
+    expect(result.skipped).toBe(false)
+    expect(server.requests[0].headers['x-api-key']).toBe('key-123')
+  })
+
+  it('sends bearer tokens', async () => {
+    server.state.requireAuthorization = 'Bearer tok-abc'
+    const feed = createFeed(server, { httpAuthType: 'BEARER' }, { token: 'tok-abc' })
+
+    const result = await downloadFeed(feed)
+
+    expect(result.skipped).toBe(false)
+  })
+
+  it('fails on rejected credentials', async () => {
+    server.state.requireAuthorization = 'Bearer right'
+    const feed = createFeed(server, { httpAuthType: 'BEARER' }, { token: 'wrong' })
+
+    await expect(downloadFeed(feed)).rejects.toThrow('HTTP authentication failed: 401')
+  })
+
+  it('requires credentials when an auth scheme is configured', async () => {
+    const feed = createFeed(server, { httpAuthType: 'BEARER' })
+
+    await expect(downloadFeed(feed)).rejects.toThrow('credentials not configured')
+  })
+
+  it('skips as UNCHANGED_MTIME when the server answers 304', async () => {
+    const feed = createFeed(server, {
+      lastRemoteEtag: '"v1"',
+      lastRemoteMtime: new Date('2026-01-10T02:00:00Z'),
+      lastRemoteSize: BigInt(FEED_BODY.length),
+      lastContentHash: 'previous-hash',
+    })
+
+    const result = await downloadFeed(feed)
+
+    expect(server.requests[0].headers['if-none-match']).toBe('"v1"')
+    expect(server.requests[0].headers['if-modified-since']).toBe('Sat, 10 Jan 2026 02:00:00 GMT')
+    expect(result.skipped).toBe(true)
+    expect(result.skippedReason).toBe('UNCHANGED_MTIME')
+    expect(result.contentHash).toBe('previous-hash')
+  })
+
+  it('skips on a matching ETag when the server ignores conditional headers', async () => {
+    server.state.ignoreConditionals = true
+    const feed = createFeed(server, { lastRemoteEtag: '"v1"', lastContentHash: 'previous-hash' })
+
+    const result = await downloadFeed(feed)
+
+    expect(result.skipped).toBe(true)
+    expect(result.skippedReason).toBe('UNCHANGED_MTIME')
+  })
+
+  it('does not send validators after a forced reprocess', async () => {
+    const feed = createFeed(server, { lastRemoteEtag: '"v1"', lastContentHash: null })
+
+    const result = await downloadFeed(feed)
+
+    expect(server.requests[0].headers['if-none-match']).toBeUndefined()
+    expect(result.skipped).toBe(false)
+  })
+
+  it('falls back to content hash when the ETag changed but content did not', async () => {
+    const first = await downloadFeed(createFeed(server))
+    server.state.etag = '"v2"'
+
+    const result = await downloadFeed(createFeed(server, { lastRemoteEtag: '"v1"', lastContentHash: first.contentHash }))
+
+    expect(result.skipped).toBe(true)
+    expect(result.skippedReason).toBe('UNCHANGED_HASH')
+    expect(result.etag).toBe('"v2"')
+    expect(result.filePath).toBeNull()
+    expect(readdirSync(spoolDir)).toEqual([first.filePath!.split('/').pop()])
+  })
+
+  it('treats 404 as FILE_NOT_FOUND skip', async () => {
+    server.state.status = 404
+
+    const result = await downloadFeed(createFeed(server))
+
+    expect(result.skipped).toBe(true)
+    expect(result.skippedReason).toBe('FILE_NOT_FOUND')
+  })
+
+  it('enforces the max file size', async () => {
+    const feed = createFeed(server, { maxFileSizeBytes: BigInt(10) })
+
+    await expect(downloadFeed(feed)).rejects.toThrow('exceeds limit')
+  })
+
+  it('downloads a signed URL stored in the encrypted credentials', async () => {
+    const signedUrl = `${server.origin}/signed/products.csv?X-Amz-Signature=abc&X-Amz-Expires=3600`
+    const feed = createFeed(server, { transport: 'SIGNED_URL', host: null, port: null, path: null }, { signedUrl })
+
+    const result = await downloadFeed(feed)
+
+    expect(result.skipped).toBe(false)
+    expect(server.requests[0].url).toBe('/signed/products.csv?X-Amz-Signature=abc&X-Amz-Expires=3600')
+  })
+
+  it('tests the connection with a HEAD request', async () => {
+    const result = await testConnection(createFeed(server))
+
+    expect(result).toEqual({ success: true, fileSize: FEED_BODY.length, fileName: 'products.csv' })
+    expect(server.requests[0].method).toBe('HEAD')
+  })
+})
+
+describe('buildFeedUrl', () => {
+  const feed = (overrides: Partial<AffiliateFeed>) =>
+    ({ transport: 'HTTPS', host: 'feeds.example.com', port: null, path: '/a/b.csv', ...overrides }) as AffiliateFeed
+
+  it('builds HTTPS URLs from host, port and path', () => {
+    expect(buildFeedUrl(feed({}), {}).toString()).toBe('https://feeds.example.com/a/b.csv')
+    expect(buildFeedUrl(feed({ port: 8443 }), {}).toString()).toBe('https://feeds.example.com:8443/a/b.csv')
+  })
+
+  it('rejects non-HTTPS signed URLs for remote hosts', () => {
+    expect(() => buildFeedUrl(feed({ transport: 'SIGNED_URL' }), { signedUrl: 'http://cdn.example.com/f.csv?sig=1' }))
+      .toThrow('must use HTTPS')
+  })
+
+  it('requires a signed URL for SIGNED_URL feeds', () => {
+    expect(() => buildFeedUrl(feed({ transport: 'SIGNED_URL' }), {})).toThrow('Signed URL not configured')
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Compressed Feed Fixtures
+ *
+ * Builds ZIP archives in memory (no zip writer dependency) and provides a
+ * small pre-compressed BZIP2 feed for decompression tests.
+ */
+
+import { crc32, deflateRawSync } from 'zlib'
+
+export interface ZipFixtureEntry {
+  name: string
+  content: string | Buffer
+  /** Store without compression (method 0) instead of deflate */
+  stored?: boolean
+}
+
+/**
+ * Build a ZIP archive with the given entries (directories end in "/")
+ */
+export function buildZip(entries: ZipFixtureEntry[]): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const raw = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8')
+    const isDirectory = entry.name.endsWith('/')
+    const method = entry.stored || isDirectory ? 0 : 8
+    const data = method === 8 ? deflateRawSync(raw) : raw
+    const crc = crc32(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(0, 10) // mod time
+    local.writeUInt16LE(0x21, 12) // mod date (1980-01-01)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+    localParts.push(local, name, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6) // version needed
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(0, 12)
+    central.writeUInt16LE(0x21, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centralParts.push(central, name)
+
+    offset += local.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/**
+ * BZIP2_FEED_CSV compressed with `bzip2 -9`
+ */
+export const BZIP2_FEED_CSV = 'name,url,price\nA,https://x.example/a,1.00\n'
+export const BZIP2_FEED = Buffer.from(
+  'QlpoOTFBWSZTWVzOsMgAAA9dgAAQAAXgECAAKmdeQCAAMUaMgaNMjQoGhiBiaEAjqoudDwZtkEHvE2RNBlhm4eB5TevF+LuSKcKEguZ1hkA=',
+  'base64'
+)
@@ -100,8 +100,8 @@ export const fileLevelFixtures: BadDataFixture[] = [
     name: 'corrupted_gzip',
     description: 'GZIP file that fails to decompress',
     csv: Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0xff, 0xff, 0xff]),
-    setup: 'Test at fetcher level - decompress should fail. Parser receives already decompressed content.',
-    expectedError: null, // Parser doesn't see compression - tested at fetcher level
+    setup: 'Tested in decompress.test.ts - decompression should fail. Parser receives a decompressed stream.',
+    expectedError: null, // Parser doesn't see compression - tested at decompression level
     expectedProducts: 0,
   },
   {
@@ -109,7 +109,7 @@ export const fileLevelFixtures: BadDataFixture[] = [
     name: 'wrong_compression_gzip_expected',
     description: 'File configured as GZIP but is actually uncompressed CSV',
     csv: `${VALID_HEADER}\n${validRow()}`,
-    setup: 'Test at fetcher level - compression mismatch. Parser receives already decompressed content.',
+    setup: 'Tested in decompress.test.ts - compression mismatch. Parser receives a decompressed stream.',
     expectedError: null, // Parser doesn't handle compression
     expectedProducts: 1,
   },
@@ -0,0 +1,96 @@
+/**
+ * Local HTTP stand-in for HTTPS / SIGNED_URL affiliate feed tests
+ *
+ * Serves a single configurable feed body on 127.0.0.1 (the fetcher allows
+ * plain HTTP for loopback hosts only). Honors If-None-Match and
+ * If-Modified-Since like a real CDN, and records every request so tests can
+ * assert on auth and custom headers.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+
+export interface HttpFeedServerState {
+  body: Buffer | string
+  status: number
+  etag?: string
+  lastModified?: Date
+  /** Required Authorization header value; requests without it get 401 */
+  requireAuthorization?: string
+  /** Ignore conditional request headers (always answer 200) */
+  ignoreConditionals?: boolean
+}
+
+export interface RecordedRequest {
+  method: string
+  url: string
+  headers: IncomingHttpHeaders
+}
+
+export interface HttpFeedServer {
+  host: string
+  port: number
+  /** Base URL, e.g. http://127.0.0.1:54321 */
+  origin: string
+  state: HttpFeedServerState
+  requests: RecordedRequest[]
+  close(): Promise<void>
+}
+
+export async function startHttpFeedServer(initial: Partial<HttpFeedServerState> = {}): Promise<HttpFeedServer> {
+  const state: HttpFeedServerState = { body: '', status: 200, ...initial }
+  const requests: RecordedRequest[] = []
+
+  const server: Server = createServer((req, res) => {
+    requests.push({ method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers })
+
+    if (state.requireAuthorization && req.headers.authorization !== state.requireAuthorization) {
+      res.writeHead(401, { 'Content-Type': 'text/plain' })
+      res.end('Unauthorized')
+      return
+    }
+
+    if (state.status !== 200) {
+      res.writeHead(state.status)
+      res.end()
+      return
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'text/plain' }
+    if (state.etag) headers['ETag'] = state.etag
+    if (state.lastModified) headers['Last-Modified'] = state.lastModified.toUTCString()
+
+    if (!state.ignoreConditionals) {
+      const ifNoneMatch = req.headers['if-none-match']
+      const ifModifiedSince = req.headers['if-modified-since']
+      const etagMatches = !!state.etag && ifNoneMatch === state.etag
+      const notModifiedSince =
+        !ifNoneMatch &&
+        !!state.lastModified &&
+        !!ifModifiedSince &&
+        Math.floor(state.lastModified.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000)
+      if (etagMatches || notModifiedSince) {
+        res.writeHead(304, headers)
+        res.end()
+        return
+      }
+    }
+
+    const body = Buffer.isBuffer(state.body) ? state.body : Buffer.from(state.body)
+    headers['Content-Length'] = String(body.length)
+    res.writeHead(200, headers)
+    res.end(req.method === 'HEAD' ? undefined : body)
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    host: '127.0.0.1',
+    port,
+    origin: `http://127.0.0.1:${port}`,
+    state,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  }
+}
@@ -5,3 +5,5 @@
  */
 
 export * from './bad-data-scenarios'
+export * from './http-feed-server'
+export * from './archives'
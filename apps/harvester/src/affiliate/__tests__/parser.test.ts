@@ -1,12 +1,12 @@
 /**
  * Tests for Affiliate Feed Parser
  *
- * Tests CSV parsing with Impact column mapping and identity resolution.
- * v1 only supports CSV format.
+ * Tests CSV/TSV/XML/NDJSON parsing with Impact column mapping and identity resolution.
  */
 
 import { describe, it, expect } from 'vitest'
-import { parseFeed, computeUrlHash, normalizeUrl } from '../parser'
+import { Readable } from 'stream'
+import { parseFeed, parseFeedBatches, computeUrlHash, normalizeUrl } from '../parser'
 
 describe('parseFeed', () => {
   describe('CSV parsing', () => {
@@ -136,7 +136,249 @@ Basic Product,https://example.com/cci-stinger-22lr-32gr-50rd.html,9.99,Yes`
     })
   })
 
-  // Note: TSV/XML/JSON parsing tests removed - v1 only supports CSV
+  describe('network parsers', () => {
+    it('should map CJ catalog columns and unwrap click URLs', async () => {
+      const csv = `PROGRAMNAME,NAME,SKU,MANUFACTURER,SALEPRICE,PRICE,BUYURL,INSTOCK
+Ammo Depot,Federal HST 9mm 124gr JHP 50rd,fed-p9hst1s,federal,24.99,29.99,https://www.jdoqocy.com/click-1-2?url=https%3A%2F%2Fammodepot.com%2Fp%2Ffed-hst,no`
+
+      const result = await parseFeed(csv, 'CSV', 1000, undefined, 'CJ')
+
+      expect(result.rowsParsed).toBe(1)
+      const product = result.products[0]
+      expect(product.url).toBe('https://ammodepot.com/p/fed-hst')
+      expect(product.sku).toBe('FED-P9HST1S')
+      expect(product.brand).toBe('Federal')
+      expect(product.price).toBe(24.99)
+      expect(product.originalPrice).toBe(29.99)
+      expect(product.inStock).toBe(false)
+      expect(product.caliber).toBe('9mm')
+      expect(product.grainWeight).toBe(124)
+    })
+
+    it('should carry Rakuten product_id as the network item ID', async () => {
+      const cols = new Array(28).fill('')
+      cols[0] = '555001'
+      cols[1] = 'Hornady Critical Defense 9mm 115gr FTX 25rd'
+      cols[5] = 'https://click.linksynergy.com/link?id=abc&murl=https%3A%2F%2Fgunshop.example.com%2Fcd-9mm'
+      cols[13] = '25.99'
+      const content = ['HDR|1|Gun Shop|2026-01-10', cols.join('|'), 'TRL|1'].join('\n')
+
+      const result = await parseFeed(content, 'CSV', 1000, undefined, 'RAKUTEN')
+
+      expect(result.rowsRead).toBe(1)
+      expect(result.products[0].impactItemId).toBe('555001')
+      expect(result.products[0].url).toBe('https://gunshop.example.com/cd-9mm')
+      expect(result.products[0].price).toBe(25.99)
+    })
+  })
+
+  describe('delta markers', () => {
+    it('should keep DELETE rows that only carry an identity', async () => {
+      const csv = `Operation,CatalogItemId,Name,URL,Price
+update,A-1,Federal 9mm 115gr FMJ,https://example.com/fed-9mm,18.99
+delete,A-2,,,
+D,,,https://example.com/cci-22lr,`
+
+      const result = await parseFeed(csv, 'CSV', 1000)
+
+      expect(result.errors).toHaveLength(0)
+      expect(result.products.map((p) => p.deltaAction)).toEqual(['UPSERT', 'DELETE', 'DELETE'])
+      expect(result.products[1].impactItemId).toBe('A-2')
+      expect(result.products[2].url).toBe('https://example.com/cci-22lr')
+    })
+
+    it('should reject DELETE rows without any identity', async () => {
+      const csv = `Action,Name,URL,Price
+remove,Federal 9mm,,`
+
+      const result = await parseFeed(csv, 'CSV', 1000)
+
+      expect(result.products).toHaveLength(0)
+      expect(result.errors[0].message).toContain('DELETE row')
+    })
+
+    it('should treat out-of-stock markers as in-place stock updates', async () => {
+      const csv = `ChangeType,Name,URL,Price,Availability
+out-of-stock,Federal 9mm,https://example.com/fed-9mm,18.99,in stock`
+
+      const result = await parseFeed(csv, 'CSV', 1000)
+
+      expect(result.products[0].deltaAction).toBe('UPSERT')
+      expect(result.products[0].inStock).toBe(false)
+    })
+
+    it('should leave deltaAction unset for feeds without a marker column', async () => {
+      const result = await parseFeed('Name,URL,Price\nFederal 9mm,https://example.com/fed-9mm,18.99', 'CSV', 1000)
+
+      expect(result.products[0].deltaAction).toBeUndefined()
+    })
+
+    it('should map the Rakuten modification flag', async () => {
+      const cols = new Array(28).fill('')
+      cols[0] = '555001'
+      cols[1] = 'Hornady Critical Defense 9mm 115gr FTX 25rd'
+      cols[5] = 'https://click.linksynergy.com/link?id=abc&murl=https%3A%2F%2Fgunshop.example.com%2Fcd-9mm'
+      cols[13] = '25.99'
+      const content = ['HDR|1|Gun Shop|2026-01-10', [...cols, 'D'].join('|'), 'TRL|1'].join('\n')
+
+      const result = await parseFeed(content, 'CSV', 1000, undefined, 'RAKUTEN')
+
+      expect(result.products[0].deltaAction).toBe('DELETE')
+      expect(result.products[0].impactItemId).toBe('555001')
+    })
+  })
+
+  describe('TSV parsing', () => {
+    it('should parse tab-delimited rows with commas in values', async () => {
+      const tsv = [
+        'Name\tURL\tPrice\tStock\tSKU',
+        'Federal 9mm, 115gr FMJ\thttps://example.com/fed-9mm\t18.99\tYes\tFED-9',
+      ].join('\n')
+
+      const result = await parseFeed(tsv, 'TSV', 1000)
+
+      expect(result.rowsParsed).toBe(1)
+      expect(result.products[0].name).toBe('Federal 9mm, 115gr FMJ')
+      expect(result.products[0].price).toBe(18.99)
+      expect(result.products[0].sku).toBe('FED-9')
+    })
+  })
+
+  describe('XML parsing', () => {
+    it('should parse Google Merchant RSS items', async () => {
+      const xml = `<?xml version="1.0"?>
+<rss xmlns:g="http://base.google.com/ns/1.0"><channel>
+  <title>Example Feed</title>
+  <item>
+    <g:id>A-1</g:id>
+    <title><![CDATA[CCI Blazer Brass 9mm 115gr FMJ 50rd]]></title>
+    <link>https://example.com/cci-9mm</link>
+    <g:price>15.99 USD</g:price>
+    <g:sale_price>13.99 USD</g:sale_price>
+    <g:availability>out of stock</g:availability>
+    <g:gtin>076683050005</g:gtin>
+    <g:image_link>https://example.com/cci.jpg</g:image_link>
+  </item>
+  <item>
+    <title>Second &amp; Last</title>
+    <link>https://example.com/second</link>
+    <g:price>9.99 USD</g:price>
+  </item>
+</channel></rss>`
+
+      const result = await parseFeed(xml, 'XML', 1000)
+
+      expect(result.rowsRead).toBe(2)
+      expect(result.rowsParsed).toBe(2)
+      const [product, second] = result.products
+      expect(product.name).toBe('CCI Blazer Brass 9mm 115gr FMJ 50rd')
+      expect(product.url).toBe('https://example.com/cci-9mm')
+      expect(product.price).toBe(13.99)
+      expect(product.originalPrice).toBe(15.99)
+      expect(product.inStock).toBe(false)
+      expect(product.upc).toBe('076683050005')
+      expect(product.imageUrl).toBe('https://example.com/cci.jpg')
+      expect(second.name).toBe('Second & Last')
+    })
+
+    it('should read Atom entry link href', async () => {
+      const xml = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry><title>Atom Product</title><link href="https://example.com/atom"/><price>5.00</price></entry>
+</feed>`
+
+      const result = await parseFeed(xml, 'XML', 1000)
+
+      expect(result.products[0].url).toBe('https://example.com/atom')
+    })
+
+    it('should fail gracefully on malformed XML', async () => {
+      const result = await parseFeed('<rss><channel><item><title>Broken</channel>', 'XML', 1000)
+
+      expect(result.products).toHaveLength(0)
+      expect(result.errors[0].code).toBe('PARSE_FAILED')
+    })
+  })
+
+  describe('NDJSON parsing', () => {
+    it('should parse one product per line and flatten nested fields', async () => {
+      const ndjson = [
+        '{"title":"Hornady 308 168gr ELD","link":"https://example.com/hornady-308","price":{"amount":"39.99"},"sku":"HRN-308"}',
+        '',
+        '{"Name":"Second","URL":"https://example.com/second","Price":12.5,"StockAvailability":"no"}',
+      ].join('\n')
+
+      const result = await parseFeed(ndjson, 'NDJSON', 1000)
+
+      expect(result.rowsRead).toBe(2)
+      expect(result.rowsParsed).toBe(2)
+      expect(result.products[0].price).toBe(39.99)
+      expect(result.products[0].sku).toBe('HRN-308')
+      expect(result.products[1].inStock).toBe(false)
+    })
+
+    it('should record invalid lines as row errors without failing the feed', async () => {
+      const ndjson = [
+        '{"Name":"Good","URL":"https://example.com/good","Price":"10.00"}',
+        '{"Name":"Broken",',
+        '["not","an","object"]',
+      ].join('\n')
+
+      const result = await parseFeed(ndjson, 'NDJSON', 1000)
+
+      expect(result.rowsRead).toBe(3)
+      expect(result.rowsParsed).toBe(1)
+      expect(result.errors.map((e) => e.rowNumber)).toEqual([2, 3])
+      expect(result.errors.every((e) => e.code === 'PARSE_FAILED')).toBe(true)
+    })
+  })
+
+  describe('streaming input', () => {
+    it('should parse a Buffer stream split mid-record and mid-character', async () => {
+      const csv = Buffer.from('\uFEFFName,URL,Price\nCafé Ammo,https://example.com/cafe,9.99\n', 'utf-8')
+      // Split inside the two-byte "é" to exercise incremental decoding
+      const splitAt = csv.indexOf(0xc3) + 1
+      const stream = Readable.from([csv.subarray(0, splitAt), csv.subarray(splitAt)], { objectMode: false })
+
+      const result = await parseFeed(stream, 'CSV', 1000)
+
+      expect(result.rowsParsed).toBe(1)
+      expect(result.products[0].name).toBe('Café Ammo')
+    })
+
+    it('should stop decoding at the row limit', async () => {
+      const lines = ['Name,URL,Price']
+      for (let i = 1; i <= 5; i++) lines.push(`Item ${i},https://example.com/${i},${i}.00`)
+
+      const result = await parseFeed(Buffer.from(lines.join('\n')), 'CSV', 3)
+
+      expect(result.rowsRead).toBe(3)
+      expect(result.truncated).toBe(true)
+      expect(result.products).toHaveLength(3)
+      expect(result.errors[0].code).toBe('TOO_MANY_ROWS')
+    })
+
+    it('should yield products in batches and release the input at the row limit', async () => {
+      const lines = ['Name,URL,Price']
+      for (let i = 1; i <= 10; i++) lines.push(`Item ${i},https://example.com/${i},${i}.00`)
+      const stream = Readable.from([lines.join('\n')], { objectMode: false })
+
+      const { batches, summary } = parseFeedBatches(stream, 'CSV', 7, { batchSize: 3 })
+      const sizes: number[] = []
+      for await (const batch of batches) sizes.push(batch.length)
+
+      expect(sizes).toEqual([3, 3, 1])
+      expect(summary.rowsRead).toBe(7)
+      expect(summary.rowsParsed).toBe(7)
+      expect(summary.truncated).toBe(true)
+      expect(stream.destroyed).toBe(true)
+    })
+
+    it('should throw a permanent error when the feed cannot be decoded', async () => {
+      const { batches } = parseFeedBatches('<rss><channel><item><title>Broken</channel>', 'XML', 1000)
+
+      await expect(batches.next()).rejects.toMatchObject({ code: 'PARSE_FAILED', kind: 'PERMANENT' })
+    })
+  })
 })
 
 describe('computeUrlHash', () => {
@@ -235,6 +477,11 @@ describe('normalizeUrl', () => {
       expect(hash1).not.toBe(hash2)
     })
 
+    it('should strip CJ and Rakuten tracking params', () => {
+      const url = 'https://retailer.com/p/9mm?cjevent=abc123&ranMID=38605&ranEAID=xyz&ranSiteID=xyz-1&color=red'
+      expect(normalizeUrl(url)).toBe('https://retailer.com/p/9mm?color=red')
+    })
+
     it('should handle real Impact affiliate URL', () => {
       // Realistic Impact URL format
       const url = 'https://www.ammunitiondepot.com/9mm-luger-ammo-115-grain-fmj?irclickid=wqKz8dXuJxyKRG%3AwUx0Mo38AUks0Uc%3An3QznRg0&irgwc=1&impactradius_campaignid=11051'
@@ -62,6 +62,7 @@ vi.mock('../circuit-breaker', () => ({
   evaluateCircuitBreaker: vi.fn().mockResolvedValue({ passed: true, metrics: {} }),
   promoteProducts: vi.fn().mockResolvedValue(0),
   copySeenFromPreviousRun: vi.fn().mockResolvedValue(0),
+  reconcileFullRun: vi.fn().mockResolvedValue({ productsExpired: 0 }),
 }))
 
 // Import after mocks
@@ -0,0 +1,51 @@
+/**
+ * Tests for the affiliate feed download spool
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import crypto from 'crypto'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { DownloadSpool } from '../spool'
+
+describe('DownloadSpool', () => {
+  let spoolDir: string
+
+  beforeAll(() => {
+    spoolDir = mkdtempSync(join(tmpdir(), 'spool-test-'))
+    process.env.AFFILIATE_FEED_SPOOL_DIR = spoolDir
+  })
+
+  afterAll(() => {
+    delete process.env.AFFILIATE_FEED_SPOOL_DIR
+    rmSync(spoolDir, { recursive: true, force: true })
+  })
+
+  it('writes the download to disk while hashing and counting it', async () => {
+    const chunks = [Buffer.from('Name,URL,Price\n'), Buffer.from('Federal 9mm,https://example.com/fed-9mm,18.99\n')]
+    const spool = new DownloadSpool('feed-1', 1024)
+
+    await pipeline(Readable.from(chunks), spool)
+
+    const body = Buffer.concat(chunks)
+    expect(spool.filePath.startsWith(spoolDir)).toBe(true)
+    expect(readFileSync(spool.filePath).equals(body)).toBe(true)
+    expect(spool.bytes).toBe(body.length)
+    expect(spool.digest()).toBe(crypto.createHash('sha256').update(body).digest('hex'))
+  })
+
+  it('aborts past the max file size and removes the partial file', async () => {
+    const spool = new DownloadSpool('feed-1', 10)
+
+    await expect(pipeline(Readable.from([Buffer.alloc(8), Buffer.alloc(8)]), spool)).rejects.toThrow(
+      'Download exceeded max file size: 10'
+    )
+    expect(spool.limitExceeded).toBe(true)
+
+    await spool.remove()
+    expect(existsSync(spool.filePath)).toBe(false)
+  })
+})
@@ -20,7 +20,7 @@ const mockPrismaFindUniqueOrThrow = vi.fn()
 const mockAcquireLock = vi.fn()
 const mockReleaseLock = vi.fn()
 const mockDownloadFeed = vi.fn()
-const mockParseFeed = vi.fn()
+const mockParseFeedBatches = vi.fn()
 const mockProcessProducts = vi.fn()
 const mockEvaluateCircuitBreaker = vi.fn()
 const mockPromoteProducts = vi.fn()
@@ -59,7 +59,7 @@ vi.mock('../fetcher', () => ({
 }))
 
 vi.mock('../parser', () => ({
-  parseFeed: mockParseFeed,
+  parseFeedBatches: mockParseFeedBatches,
 }))
 
 vi.mock('../processor', () => ({
@@ -70,6 +70,7 @@ vi.mock('../circuit-breaker', () => ({
   evaluateCircuitBreaker: mockEvaluateCircuitBreaker,
   promoteProducts: mockPromoteProducts,
   copySeenFromPreviousRun: mockCopySeenFromPreviousRun,
+  reconcileFullRun: vi.fn().mockResolvedValue({ productsExpired: 0 }),
 }))
 
 vi.mock('@ironscout/notifications', () => ({
@@ -457,7 +458,8 @@ describe('Circuit Breaker Integration', () => {
 describe('Phase 1: Download → Parse → Process', () => {
   it('should skip processing when feed content unchanged', async () => {
     mockDownloadFeed.mockResolvedValue({
-      content: Buffer.alloc(0),
+      filePath: null,
+      contentBytes: 0,
       mtime: new Date(),
       size: BigInt(0),
       contentHash: 'abc123',
@@ -473,18 +475,19 @@ describe('Phase 1: Download → Parse → Process', () => {
 
   it('should process products after successful download and parse', async () => {
     mockDownloadFeed.mockResolvedValue({
-      content: Buffer.from('csv,data'),
+      filePath: '/tmp/ironscout-affiliate-feeds/feed-1-download',
+      contentBytes: 8,
       mtime: new Date(),
       size: BigInt(100),
       contentHash: 'new-hash',
       skipped: false,
     })
 
-    mockParseFeed.mockResolvedValue({
-      products: [{ name: 'Test', url: 'http://test.com', price: 10, inStock: true, rowNumber: 1 }],
-      rowsRead: 1,
-      rowsParsed: 1,
-      errors: [],
+    mockParseFeedBatches.mockReturnValue({
+      batches: (async function* () {
+        yield [{ name: 'Test', url: 'http://test.com', price: 10, inStock: true, rowNumber: 1 }]
+      })(),
+      summary: { rowsRead: 1, rowsParsed: 1, errors: [], truncated: false },
     })
 
     mockProcessProducts.mockResolvedValue({
@@ -497,11 +500,11 @@ describe('Phase 1: Download → Parse → Process', () => {
     })
 
     const downloadResult = await mockDownloadFeed()
-    const parseResult = await mockParseFeed()
-    const processResult = await mockProcessProducts()
+    const parse = mockParseFeedBatches()
+    const processResult = await mockProcessProducts({}, parse.batches)
 
     expect(downloadResult.skipped).toBe(false)
-    expect(parseResult.products.length).toBe(1)
+    expect(parse.summary.rowsParsed).toBe(1)
     expect(processResult.productsUpserted).toBe(1)
   })
 })
@@ -509,7 +512,8 @@ describe('Phase 1: Download → Parse → Process', () => {
 describe('Metrics and Logging', () => {
   it('should record download bytes in run metrics', async () => {
     mockDownloadFeed.mockResolvedValue({
-      content: Buffer.alloc(1024),
+      filePath: '/tmp/ironscout-affiliate-feeds/feed-1-download',
+      contentBytes: 1024,
       mtime: new Date(),
       size: BigInt(1024),
       contentHash: 'hash',
@@ -518,7 +522,7 @@ describe('Metrics and Logging', () => {
 
     const result = await mockDownloadFeed()
 
-    expect(result.content.length).toBe(1024)
+    expect(result.contentBytes).toBe(1024)
   })
 
   it('should track URL hash fallback count', async () => {
@@ -15,11 +15,16 @@
  *
  * New products (lastSeenSuccessAt IS NULL) are EXCLUDED from circuit breaker math.
  * They don't affect the calculation - only previously-active products that would become stale matter.
+ *
+ * DELTA runs only carry changed rows, so unseen products are not expiring:
+ * wouldExpireCount is 0 and only the URL_HASH quality gates apply.
  */
 
 import { prisma } from '@ironscout/db'
+import type { FeedVariant } from '@ironscout/db'
 import { logger } from '../config/logger'
-import type { CircuitBreakerResult, CircuitBreakerMetrics } from './types'
+import { removeSourceProducts } from './removal'
+import type { CircuitBreakerResult, CircuitBreakerMetrics, ReconcileResult } from './types'
 import { CIRCUIT_BREAKER_THRESHOLDS } from './types'
 
 const log = logger.affiliate
@@ -33,6 +38,7 @@ const log = logger.affiliate
  * @param t0 - The run start timestamp (used for all queries - no NOW() in SQL)
  * @param urlHashFallbackCount - Count of products that used URL_HASH identity
  * @param totalProductsProcessed - Total products processed in this run (for URL_HASH percentage)
+ * @param variant - Feed variant; DELTA runs skip expiry spike detection
  */
 export async function evaluateCircuitBreaker(
   runId: string,
@@ -40,9 +46,10 @@ export async function evaluateCircuitBreaker(
   expiryHours: number,
   t0: Date,
   urlHashFallbackCount: number,
-  totalProductsProcessed: number
+  totalProductsProcessed: number,
+  variant: FeedVariant = 'FULL'
 ): Promise<CircuitBreakerResult> {
-  log.info('CIRCUIT_BREAKER_START', { runId, feedId, t0: t0.toISOString(), expiryHours })
+  log.info('CIRCUIT_BREAKER_START', { runId, feedId, t0: t0.toISOString(), expiryHours, variant })
 
   // Get feed's source ID
   const feed = await prisma.affiliate_feeds.findUnique({
@@ -92,7 +99,8 @@ export async function evaluateCircuitBreaker(
   // Per spec §8.2: Clamp to zero - negative values indicate data anomalies
   // ═══════════════════════════════════════════════════════════════════════════
   const rawExpireCount = activeCountBefore - seenSuccessCount
-  const wouldExpireCount = Math.max(0, rawExpireCount)
+  // A delta leaves unseen products untouched - nothing expires from this run
+  const wouldExpireCount = variant === 'DELTA' ? 0 : Math.max(0, rawExpireCount)
 
   // Log warning if clamping occurred - this is a smoke alarm
   if (rawExpireCount < 0) {
@@ -149,9 +157,9 @@ export async function evaluateCircuitBreaker(
   //   This prevents blocking legitimate new feeds with poor identity coverage
   // ═══════════════════════════════════════════════════════════════════════════
 
-  // Check absolute expiry cap first (regardless of percentage or active count)
-  // Per spec Q7.2.2: Block if wouldExpire >= 500
-  if (wouldExpireCount >= CIRCUIT_BREAKER_THRESHOLDS.ABSOLUTE_EXPIRY_CAP) {
+  // Expiry spike: absolute cap regardless of active count, percentage only for
+  // established feeds (see isExpirySpike)
+  if (isExpirySpike(wouldExpireCount, activeCountBefore)) {
     log.warn('CIRCUIT_BREAKER_TRIPPED', {
       runId,
       feedId,
@@ -160,6 +168,7 @@ export async function evaluateCircuitBreaker(
       expirePercent: expiryPercentage.toFixed(2),
       thresholdPercent: CIRCUIT_BREAKER_THRESHOLDS.MAX_EXPIRY_PERCENTAGE,
       thresholdAbsolute: CIRCUIT_BREAKER_THRESHOLDS.ABSOLUTE_EXPIRY_CAP,
+      thresholdMinCount: CIRCUIT_BREAKER_THRESHOLDS.MIN_EXPIRY_COUNT_FOR_SPIKE,
     })
 
     return {
@@ -179,30 +188,6 @@ export async function evaluateCircuitBreaker(
   // Both absolute cap and percentage checks require established history.
   // ═══════════════════════════════════════════════════════════════════════════
   if (activeCountBefore >= CIRCUIT_BREAKER_THRESHOLDS.MIN_ACTIVE_FOR_PERCENTAGE_CHECK) {
-    // Check expiry spike
-    // Per spec Q7.2.2: Block if (wouldExpire / activeBefore) > 30% AND wouldExpire >= 10
-    const exceedsPercentage = expiryPercentage > CIRCUIT_BREAKER_THRESHOLDS.MAX_EXPIRY_PERCENTAGE
-    const exceedsMinCount = wouldExpireCount >= CIRCUIT_BREAKER_THRESHOLDS.MIN_EXPIRY_COUNT_FOR_SPIKE
-
-    if (exceedsPercentage && exceedsMinCount) {
-      log.warn('CIRCUIT_BREAKER_TRIPPED', {
-        runId,
-        feedId,
-        reason: 'SPIKE_THRESHOLD_EXCEEDED',
-        wouldExpireCount,
-        expirePercent: expiryPercentage.toFixed(2),
-        thresholdPercent: CIRCUIT_BREAKER_THRESHOLDS.MAX_EXPIRY_PERCENTAGE,
-        thresholdAbsolute: CIRCUIT_BREAKER_THRESHOLDS.ABSOLUTE_EXPIRY_CAP,
-        thresholdMinCount: CIRCUIT_BREAKER_THRESHOLDS.MIN_EXPIRY_COUNT_FOR_SPIKE,
-      })
-
-      return {
-        passed: false,
-        reason: 'SPIKE_THRESHOLD_EXCEEDED',
-        metrics,
-      }
-    }
-
     // Check absolute URL_HASH cap (only for established feeds)
     // Per spec Q6.1.5: Block if >1000 products use URL_HASH
     // Note: This cap only applies to feeds with history - new feeds can have high URL_HASH
@@ -271,6 +256,24 @@ export async function evaluateCircuitBreaker(
   }
 }
 
+/**
+ * Whether expiring `wouldExpireCount` of `activeCount` products is a spike
+ *
+ * Per spec Q7.2.2: block if wouldExpire >= 500 (regardless of active count),
+ * or if (wouldExpire / active) > 30% AND wouldExpire >= 10 once the feed has
+ * enough active products for the percentage to mean something.
+ */
+export function isExpirySpike(wouldExpireCount: number, activeCount: number): boolean {
+  if (wouldExpireCount >= CIRCUIT_BREAKER_THRESHOLDS.ABSOLUTE_EXPIRY_CAP) return true
+  if (activeCount < CIRCUIT_BREAKER_THRESHOLDS.MIN_ACTIVE_FOR_PERCENTAGE_CHECK) return false
+
+  const expiryPercentage = (wouldExpireCount / activeCount) * 100
+  return (
+    expiryPercentage > CIRCUIT_BREAKER_THRESHOLDS.MAX_EXPIRY_PERCENTAGE &&
+    wouldExpireCount >= CIRCUIT_BREAKER_THRESHOLDS.MIN_EXPIRY_COUNT_FOR_SPIKE
+  )
+}
+
 /**
  * Promote products after circuit breaker passes
  * Updates lastSeenSuccessAt for all products seen in this run
@@ -289,6 +292,77 @@ export async function promoteProducts(runId: string, t0: Date): Promise<number>
   return result
 }
 
+/**
+ * Reconcile delta drift after a FULL run has been promoted
+ *
+ * Only needed when the source also has a DELTA feed: deltas keep products
+ * alive between full files, so a missed delete would otherwise linger until
+ * expiryHours. Products active for this source but absent from the full file
+ * are removed the same way as DELETE rows (presence ended, out-of-stock price).
+ *
+ * Products promoted at or after `snapshotAt` (the full file's remote mtime)
+ * came from deltas newer than the snapshot and are left alone.
+ *
+ * Removal is held to the circuit breaker's expiry thresholds: when it would
+ * be a spike, nothing is removed and the products expire (or come back)
+ * through the normal expiry window instead.
+ */
+export async function reconcileFullRun(
+  runId: string,
+  sourceId: string,
+  expiryHours: number,
+  t0: Date,
+  snapshotAt: Date
+): Promise<ReconcileResult> {
+  const expiryThreshold = new Date(t0.getTime() - expiryHours * 3600000)
+
+  const activeCount = await prisma.$queryRaw<[{ count: bigint }]>`
+    SELECT COUNT(*) as count
+    FROM source_product_presence spp
+    INNER JOIN source_products sp ON sp.id = spp."sourceProductId"
+    WHERE sp."sourceId" = ${sourceId}
+      AND spp."lastSeenSuccessAt" >= ${expiryThreshold}
+  `.then((r) => Number(r[0]?.count ?? 0))
+
+  const unseen = await prisma.$queryRaw<Array<{ sourceProductId: string }>>`
+    SELECT spp."sourceProductId"
+    FROM source_product_presence spp
+    INNER JOIN source_products sp ON sp.id = spp."sourceProductId"
+    WHERE sp."sourceId" = ${sourceId}
+      AND spp."lastSeenSuccessAt" >= ${expiryThreshold}
+      AND spp."lastSeenSuccessAt" < ${snapshotAt}
+      AND NOT EXISTS (
+        SELECT 1 FROM source_product_seen sps
+        WHERE sps."runId" = ${runId}
+          AND sps."sourceProductId" = spp."sourceProductId"
+      )
+  `
+  const sourceProductIds = unseen.map((row) => row.sourceProductId)
+
+  if (isExpirySpike(sourceProductIds.length, activeCount)) {
+    log.warn('DELTA_RECONCILE_BLOCKED', {
+      runId,
+      sourceId,
+      reason: 'SPIKE_THRESHOLD_EXCEEDED',
+      wouldExpireCount: sourceProductIds.length,
+      activeCount,
+      snapshotAt: snapshotAt.toISOString(),
+    })
+    return { productsExpired: 0, blockedReason: 'SPIKE_THRESHOLD_EXCEEDED' }
+  }
+
+  await removeSourceProducts(sourceProductIds, runId, t0)
+
+  log.info('Delta drift reconciled', {
+    runId,
+    sourceId,
+    snapshotAt: snapshotAt.toISOString(),
+    count: sourceProductIds.length,
+  })
+
+  return { productsExpired: sourceProductIds.length }
+}
+
 /**
  * Copy seen rows from a previous run and refresh presence timestamps.
  * Used when a feed is unchanged but needs freshness refresh after downtime.
@@ -0,0 +1,308 @@
+/**
+ * Affiliate Feed Decompression
+ *
+ * Turns the spooled download into a stream of uncompressed bytes for the
+ * parser. The file is read from disk and GZIP, BZIP2 and ZIP are decoded
+ * incrementally, so neither the download nor the decompressed feed is held
+ * in memory.
+ *
+ * ZIP archives often bundle several files (feed + readme, or one file per
+ * category). A single entry is selected with the feed's archiveEntryGlob, or
+ * by file extension matching the feed format when no glob is configured.
+ */
+
+import { Readable, Transform, TransformCallback, pipeline } from 'stream'
+import { createReadStream } from 'fs'
+import { stat } from 'fs/promises'
+import { createGunzip } from 'zlib'
+import unbzip2Stream from 'unbzip2-stream'
+import * as yauzl from 'yauzl'
+import { logger } from '../config/logger'
+import type { FeedFormat } from '@ironscout/db'
+import { AffiliateFeedError, ERROR_CODES } from './types'
+import type { AffiliateFeed } from './types'
+
+const log = logger.affiliate
+
+const STREAM_CHUNK_BYTES = 64 * 1024
+
+/**
+ * Entry extensions considered when a ZIP feed has no archiveEntryGlob
+ */
+const FORMAT_EXTENSIONS: Record<FeedFormat, string[]> = {
+  CSV: ['.csv', '.txt'],
+  TSV: ['.tsv', '.tab', '.txt'],
+  XML: ['.xml', '.rss'],
+  NDJSON: ['.ndjson', '.jsonl', '.json'],
+}
+
+/**
+ * Decompressed feed body handed to the parser
+ */
+export interface FeedContentStream {
+  /** Uncompressed bytes, ready for parseFeed */
+  stream: Readable
+  /** ZIP only: the archive entry being ingested */
+  entryName: string | null
+  /** Bytes emitted so far; final once the parser has drained the stream */
+  readonly uncompressedBytes: number
+  /**
+   * Set when the compressed input turned out to be corrupt mid-stream.
+   * The parser sees a truncated stream, so callers must check this after parsing.
+   */
+  readonly error: AffiliateFeedError | null
+}
+
+/**
+ * Counts bytes passing through, for run metrics
+ */
+class ByteCounter extends Transform {
+  bytes = 0
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length
+    callback(null, chunk)
+  }
+}
+
+/**
+ * Open the spooled feed download as a stream of uncompressed bytes
+ *
+ * Fails fast (before any parsing) when a ZIP archive is unreadable or has no
+ * matching entry; errors inside the compressed data surface via `error`.
+ */
+export async function openFeedContent(
+  filePath: string,
+  feed: Pick<AffiliateFeed, 'id' | 'compression' | 'format' | 'archiveEntryGlob'>
+): Promise<FeedContentStream> {
+  const feedLog = log.child({ feedId: feed.id })
+  const compressedBytes = (await stat(filePath)).size
+  const counter = new ByteCounter()
+  let entryName: string | null = null
+  let source: Readable
+  let decoder: NodeJS.ReadWriteStream | null = null
+
+  switch (feed.compression) {
+    case 'GZIP':
+      source = createReadStream(filePath, { highWaterMark: STREAM_CHUNK_BYTES })
+      decoder = createGunzip()
+      break
+    case 'BZIP2':
+      source = createReadStream(filePath, { highWaterMark: STREAM_CHUNK_BYTES })
+      decoder = unbzip2Stream()
+      break
+    case 'ZIP': {
+      const entry = await openZipEntry(filePath, compressedBytes, feed, feedLog)
+      entryName = entry.name
+      source = entry.stream
+      break
+    }
+    default:
+      source = createReadStream(filePath, { highWaterMark: STREAM_CHUNK_BYTES })
+  }
+
+  let error: AffiliateFeedError | null = null
+  const onDone = (err: NodeJS.ErrnoException | null | undefined) => {
+    // Premature close means the parser stopped reading (e.g. structural CSV
+    // error) - that is reported by the parser, not a decompression failure
+    if (!err || err.code === 'ERR_STREAM_PREMATURE_CLOSE') return
+    error = AffiliateFeedError.permanentError(
+      `${feed.compression} decompression failed: ${err.message}`,
+      ERROR_CODES.DECOMPRESS_FAILED,
+      { compression: feed.compression, entryName, compressedBytes, uncompressedBytes: counter.bytes }
+    )
+    feedLog.error('DECOMPRESS_FAILED', {
+      phase: 'decompress',
+      compression: feed.compression,
+      entryName,
+      errorMessage: err.message,
+      compressedBytes,
+      uncompressedBytesBeforeError: counter.bytes,
+    })
+  }
+
+  if (decoder) {
+    pipeline(source, decoder, counter, onDone)
+  } else {
+    pipeline(source, counter, onDone)
+  }
+
+  feedLog.debug('DECOMPRESS_START', {
+    phase: 'decompress',
+    compression: feed.compression,
+    compressedBytes,
+    entryName,
+  })
+
+  return {
+    stream: counter,
+    entryName,
+    get uncompressedBytes() {
+      return counter.bytes
+    },
+    get error() {
+      return error
+    },
+  }
+}
+
+/**
+ * Select and open the ZIP entry to ingest
+ */
+async function openZipEntry(
+  filePath: string,
+  compressedBytes: number,
+  feed: Pick<AffiliateFeed, 'id' | 'compression' | 'format' | 'archiveEntryGlob'>,
+  feedLog: typeof log
+): Promise<{ name: string; stream: Readable }> {
+  let zipfile: yauzl.ZipFile | undefined
+  let entries: yauzl.Entry[]
+  try {
+    // autoClose off: the entry is opened after the central directory has been read
+    zipfile = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+      yauzl.open(filePath, { lazyEntries: true, autoClose: false }, (err, zip) => (err ? reject(err) : resolve(zip)))
+    })
+    entries = await readZipEntries(zipfile)
+  } catch (err) {
+    zipfile?.close()
+    throw AffiliateFeedError.permanentError(
+      `ZIP decompression failed: ${err instanceof Error ? err.message : String(err)}`,
+      ERROR_CODES.DECOMPRESS_FAILED,
+      { compressedBytes }
+    )
+  }
+
+  const files = entries.filter((entry) => isFeedCandidate(entry.fileName))
+  const matches = selectZipEntries(
+    files.map((entry) => entry.fileName),
+    feed.format,
+    feed.archiveEntryGlob
+  )
+
+  feedLog.debug('ZIP_ENTRIES_LISTED', {
+    phase: 'decompress',
+    entryCount: entries.length,
+    candidateCount: files.length,
+    matchCount: matches.length,
+    archiveEntryGlob: feed.archiveEntryGlob,
+  })
+
+  if (matches.length === 0) {
+    zipfile.close()
+    const listed = files.slice(0, 10).map((entry) => entry.fileName).join(', ') || 'none'
+    throw AffiliateFeedError.permanentError(
+      feed.archiveEntryGlob
+        ? `No ZIP entry matches "${feed.archiveEntryGlob}" (entries: ${listed})`
+        : `No ZIP entry with a ${feed.format} file extension (entries: ${listed}) - set an archive entry glob`,
+      ERROR_CODES.DECOMPRESS_FAILED,
+      { archiveEntryGlob: feed.archiveEntryGlob, entryCount: entries.length }
+    )
+  }
+
+  if (matches.length > 1) {
+    feedLog.warn('ZIP_MULTIPLE_ENTRIES_MATCHED', {
+      phase: 'decompress',
+      selected: matches[0],
+      matched: matches.slice(0, 10),
+      archiveEntryGlob: feed.archiveEntryGlob,
+    })
+  }
+
+  const entry = files.find((candidate) => candidate.fileName === matches[0])!
+  const stream = await new Promise<Readable>((resolve, reject) => {
+    zipfile.openReadStream(entry, (err, readStream) => (err ? reject(err) : resolve(readStream)))
+  }).catch((err: Error) => {
+    zipfile.close()
+    throw AffiliateFeedError.permanentError(
+      `ZIP decompression failed: ${err.message}`,
+      ERROR_CODES.DECOMPRESS_FAILED,
+      { entryName: entry.fileName }
+    )
+  })
+  stream.on('close', () => zipfile.close())
+
+  feedLog.info('ZIP_ENTRY_SELECTED', {
+    phase: 'decompress',
+    entryName: entry.fileName,
+    compressedBytes: entry.compressedSize,
+    uncompressedBytes: entry.uncompressedSize,
+  })
+
+  return { name: entry.fileName, stream }
+}
+
+/**
+ * Read the central directory (entry metadata only - no data is inflated)
+ */
+function readZipEntries(zipfile: yauzl.ZipFile): Promise<yauzl.Entry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: yauzl.Entry[] = []
+    zipfile.on('entry', (entry: yauzl.Entry) => {
+      entries.push(entry)
+      zipfile.readEntry()
+    })
+    zipfile.on('end', () => resolve(entries))
+    zipfile.on('error', reject)
+    zipfile.readEntry()
+  })
+}
+
+/**
+ * Skip directories and OS metadata (__MACOSX/, .DS_Store, dotfiles)
+ */
+function isFeedCandidate(fileName: string): boolean {
+  if (fileName.endsWith('/')) return false
+  if (fileName.startsWith('__MACOSX/')) return false
+  const baseName = fileName.split('/').pop() ?? ''
+  return baseName !== '' && !baseName.startsWith('.')
+}
+
+/**
+ * Pick the archive entries to ingest, in archive order
+ *
+ * With a glob, entries matching it (globs without "/" match the file name in
+ * any directory). Without one, entries whose extension fits the feed format,
+ * falling back to the only file when the archive holds exactly one.
+ */
+export function selectZipEntries(fileNames: string[], format: FeedFormat, entryGlob?: string | null): string[] {
+  if (entryGlob) {
+    const pattern = globToRegExp(entryGlob)
+    const matchBaseName = !entryGlob.includes('/')
+    return fileNames.filter((name) => pattern.test(matchBaseName ? (name.split('/').pop() ?? name) : name))
+  }
+
+  const extensions = FORMAT_EXTENSIONS[format] ?? []
+  const byExtension = fileNames.filter((name) => extensions.some((ext) => name.toLowerCase().endsWith(ext)))
+  if (byExtension.length > 0) return byExtension
+  return fileNames.length === 1 ? fileNames : []
+}
+
+/**
+ * Convert a file glob to a case-insensitive RegExp
+ * Supports `*` (within a path segment), `**` (across segments) and `?`
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches zero directories
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 2
+        } else {
+          source += '.*'
+          i += 1
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`, 'i')
+}
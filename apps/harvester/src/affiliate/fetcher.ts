@@ -1,23 +1,50 @@
 /**
  * Affiliate Feed Fetcher
  *
- * Downloads feed files via FTP/SFTP with change detection.
+ * Downloads feed files via FTP/SFTP/HTTPS with change detection.
  * Per spec Section 8.2: Detect unchanged files via mtime/size and content hash.
+ * HTTPS and pre-signed URL feeds use ETag/Last-Modified conditional requests.
+ *
+ * The body is spooled to a temp file as transferred (still compressed for
+ * GZIP/ZIP/BZIP2 feeds) and the content hash covers those bytes; see
+ * spool.ts and decompress.ts.
  */
 
 import * as ftp from 'basic-ftp'
 import { Client as SftpClient, SFTPWrapper, FileEntry } from 'ssh2'
-import { createHash } from 'crypto'
-import { gunzipSync } from 'zlib'
-import { decryptSecret } from '@ironscout/crypto'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import { decryptSecret, decryptJsonSecret } from '@ironscout/crypto'
 import { isPlainFtpAllowed } from '@ironscout/db'
 import { logger } from '../config/logger'
-import type { AffiliateFeed, DownloadResult } from './types'
+import { DownloadSpool } from './spool'
+import type { AffiliateFeed, DownloadResult, HttpFeedCredentials } from './types'
 
 const log = logger.affiliate
 
 // Default limits
 const DEFAULT_MAX_FILE_SIZE = 500 * 1024 * 1024 // 500 MB
+const HTTP_RESPONSE_TIMEOUT_MS = 30000
+
+/** Hosts fetched over plain HTTP (local stand-ins in dev/test) */
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]'])
+
+/**
+ * Whether the feed is pulled over HTTP(S) rather than FTP/SFTP
+ */
+export function isHttpTransport(transport: AffiliateFeed['transport']): boolean {
+  return transport === 'HTTPS' || transport === 'SIGNED_URL'
+}
+
+/**
+ * Default port for a transport (null for HTTP transports - implied by the URL scheme)
+ */
+function defaultPort(transport: AffiliateFeed['transport']): number | null {
+  if (transport === 'SFTP') return 22
+  if (transport === 'FTP') return 21
+  return null
+}
 
 /**
  * Download feed file with change detection
@@ -28,16 +55,36 @@ export async function downloadFeed(feed: AffiliateFeed): Promise<DownloadResult>
   feedLog.debug('DOWNLOAD_START', {
     phase: 'init',
     transport: feed.transport,
-    host: feed.host,
-    port: feed.port ?? (feed.transport === 'SFTP' ? 22 : 21),
-    path: feed.path,
+    host: feed.transport === 'SIGNED_URL' ? undefined : feed.host,
+    port: feed.port ?? defaultPort(feed.transport),
+    path: feed.transport === 'SIGNED_URL' ? undefined : feed.path,
+    httpAuthType: isHttpTransport(feed.transport) ? feed.httpAuthType : undefined,
     compression: feed.compression,
     hasCredentials: !!feed.secretCiphertext,
     hasLastMtime: !!feed.lastRemoteMtime,
     hasLastSize: !!feed.lastRemoteSize,
     hasLastHash: !!feed.lastContentHash,
+    hasLastEtag: !!feed.lastRemoteEtag,
   })
 
+  const maxFileSize = feed.maxFileSizeBytes
+    ? Number(feed.maxFileSizeBytes)
+    : DEFAULT_MAX_FILE_SIZE
+
+  if (isHttpTransport(feed.transport)) {
+    const credentials = decryptHttpCredentials(feed, feedLog)
+    feedLog.debug('DOWNLOAD_TRANSPORT_SELECTED', {
+      phase: 'connect',
+      transport: feed.transport,
+      httpAuthType: feed.httpAuthType,
+      customHeaderCount: Object.keys(credentials.headers ?? {}).length,
+    })
+    const downloadStart = Date.now()
+    const result = await downloadViaHttp(feed, credentials, maxFileSize, feedLog)
+    logDownloadOutcome(feed, result, Date.now() - downloadStart, feedLog)
+    return result
+  }
+
   // Decrypt credentials
   if (!feed.secretCiphertext) {
     feedLog.error('DOWNLOAD_NO_CREDENTIALS', {
@@ -74,10 +121,6 @@ export async function downloadFeed(feed: AffiliateFeed): Promise<DownloadResult>
     throw new Error(`Failed to decrypt feed credentials: ${err instanceof Error ? err.message : String(err)}`)
   }
 
-  const maxFileSize = feed.maxFileSizeBytes
-    ? Number(feed.maxFileSizeBytes)
-    : DEFAULT_MAX_FILE_SIZE
-
   feedLog.debug('DOWNLOAD_CONFIG', {
     phase: 'config',
     maxFileSizeBytes: maxFileSize,
@@ -109,28 +152,334 @@ export async function downloadFeed(feed: AffiliateFeed): Promise<DownloadResult>
     result = await downloadViaFtp(feed, password, maxFileSize, feedLog)
   }
 
-  const downloadDuration = Date.now() - downloadStart
+  logDownloadOutcome(feed, result, Date.now() - downloadStart, feedLog)
+
+  return result
+}
 
+/**
+ * Log the final outcome of a download (skipped or completed)
+ */
+function logDownloadOutcome(
+  feed: AffiliateFeed,
+  result: DownloadResult,
+  downloadDuration: number,
+  feedLog: typeof log
+): void {
   if (result.skipped) {
     feedLog.info('DOWNLOAD_SKIPPED', {
       phase: 'complete',
       durationMs: downloadDuration,
       skippedReason: result.skippedReason,
-      changeDetectionMethod: result.skippedReason === 'UNCHANGED_MTIME' ? 'mtime_size' : 'content_hash',
+      changeDetectionMethod:
+        result.skippedReason === 'UNCHANGED_MTIME'
+          ? (isHttpTransport(feed.transport) ? 'etag_last_modified' : 'mtime_size')
+          : 'content_hash',
     })
   } else {
     feedLog.info('DOWNLOAD_COMPLETE', {
       phase: 'complete',
       durationMs: downloadDuration,
-      contentBytes: result.content.length,
-      contentMB: (result.content.length / 1024 / 1024).toFixed(2),
+      contentBytes: result.contentBytes,
+      contentMB: (result.contentBytes / 1024 / 1024).toFixed(2),
       contentHashPrefix: result.contentHash?.slice(0, 16),
-      compressionApplied: feed.compression === 'GZIP',
-      throughputMBps: downloadDuration > 0 ? ((result.content.length / 1024 / 1024) / (downloadDuration / 1000)).toFixed(2) : null,
+      compression: feed.compression,
+      throughputMBps: downloadDuration > 0 ? ((result.contentBytes / 1024 / 1024) / (downloadDuration / 1000)).toFixed(2) : null,
     })
   }
+}
 
-  return result
+/**
+ * Decrypt HTTPS / SIGNED_URL credentials.
+ * Unauthenticated HTTPS feeds without custom headers may have no secret at all.
+ */
+function decryptHttpCredentials(feed: AffiliateFeed, feedLog: typeof log): HttpFeedCredentials {
+  if (!feed.secretCiphertext) {
+    if (feed.transport === 'SIGNED_URL' || feed.httpAuthType !== 'NONE') {
+      feedLog.error('DOWNLOAD_NO_CREDENTIALS', {
+        phase: 'auth',
+        reason: 'Feed credentials not configured',
+        transport: feed.transport,
+        httpAuthType: feed.httpAuthType,
+      })
+      throw new Error('Feed credentials not configured - re-save the feed credentials in admin.')
+    }
+    return {}
+  }
+
+  try {
+    return decryptJsonSecret<HttpFeedCredentials>(
+      Buffer.from(feed.secretCiphertext),
+      feed.secretKeyId || undefined  // AAD (for future KMS migration)
+    )
+  } catch (err) {
+    feedLog.error('DOWNLOAD_DECRYPT_FAILED', {
+      phase: 'auth',
+      errorMessage: err instanceof Error ? err.message : String(err),
+      hint: 'Is CREDENTIAL_ENCRYPTION_KEY_B64 the same in admin and harvester?',
+    })
+    throw new Error(`Failed to decrypt feed credentials: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Resolve the request URL for an HTTPS / SIGNED_URL feed.
+ * HTTPS is required except for loopback hosts (local stand-ins), which use plain HTTP.
+ */
+export function buildFeedUrl(feed: AffiliateFeed, credentials: HttpFeedCredentials): URL {
+  let url: URL
+  if (feed.transport === 'SIGNED_URL') {
+    if (!credentials.signedUrl) {
+      throw new Error('Signed URL not configured - re-save the feed credentials in admin.')
+    }
+    url = new URL(credentials.signedUrl)
+  } else {
+    if (!feed.host || !feed.path) {
+      throw new Error('HTTPS feed requires host and path')
+    }
+    const scheme = LOOPBACK_HOSTS.has(feed.host) ? 'http' : 'https'
+    url = new URL(`${scheme}://${feed.host}${feed.port ? `:${feed.port}` : ''}${feed.path}`)
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && LOOPBACK_HOSTS.has(url.hostname))) {
+    throw new Error(`Feed URL must use HTTPS (got ${url.protocol.replace(':', '')})`)
+  }
+  return url
+}
+
+/**
+ * Build request headers: custom headers first, then the configured auth scheme
+ */
+export function buildHttpHeaders(feed: AffiliateFeed, credentials: HttpFeedCredentials): Record<string, string> {
+  const headers: Record<string, string> = { ...(credentials.headers ?? {}) }
+
+  if (feed.httpAuthType === 'BASIC') {
+    const auth = Buffer.from(`${feed.username ?? ''}:${credentials.password ?? ''}`).toString('base64')
+    headers['Authorization'] = `Basic ${auth}`
+  } else if (feed.httpAuthType === 'BEARER') {
+    headers['Authorization'] = `Bearer ${credentials.token ?? ''}`
+  }
+
+  return headers
+}
+
+/**
+ * Strip query string from a URL for logging (signed URLs carry signatures there)
+ */
+function redactUrl(url: URL): string {
+  return `${url.origin}${url.pathname}${url.search ? '?…' : ''}`
+}
+
+/**
+ * Download via HTTPS or a pre-signed URL with change detection
+ *
+ * Once a feed has been processed, requests are conditional (If-None-Match /
+ * If-Modified-Since). A 304, or a 200 whose ETag matches the last processed
+ * response, skips as UNCHANGED_MTIME without reading the body. Otherwise the
+ * body is hashed exactly like FTP/SFTP downloads.
+ */
+async function downloadViaHttp(
+  feed: AffiliateFeed,
+  credentials: HttpFeedCredentials,
+  maxFileSize: number,
+  feedLog: typeof log
+): Promise<DownloadResult> {
+  const url = buildFeedUrl(feed, credentials)
+  const headers = buildHttpHeaders(feed, credentials)
+
+  // Only send validators when the last content was actually processed
+  // (forceReprocess clears lastContentHash to bypass change detection)
+  if (feed.lastContentHash) {
+    if (feed.lastRemoteEtag) headers['If-None-Match'] = feed.lastRemoteEtag
+    if (feed.lastRemoteMtime) headers['If-Modified-Since'] = feed.lastRemoteMtime.toUTCString()
+  }
+
+  feedLog.debug('HTTP_REQUEST_START', {
+    phase: 'connect',
+    url: redactUrl(url),
+    conditional: !!(headers['If-None-Match'] || headers['If-Modified-Since']),
+  })
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), HTTP_RESPONSE_TIMEOUT_MS)
+  const connectStart = Date.now()
+  let response: Response
+  try {
+    response = await fetch(url, { headers, signal: controller.signal, redirect: 'follow' })
+  } catch (err) {
+    const timedOut = controller.signal.aborted
+    feedLog.error(timedOut ? 'HTTP_TIMEOUT' : 'HTTP_CONNECTION_ERROR', {
+      phase: 'connect',
+      url: redactUrl(url),
+      timeoutMs: HTTP_RESPONSE_TIMEOUT_MS,
+      errorMessage: err instanceof Error ? err.message : String(err),
+    })
+    throw new Error(
+      timedOut
+        ? `HTTP response timeout (${HTTP_RESPONSE_TIMEOUT_MS / 1000}s)`
+        : `HTTP connection error: ${err instanceof Error ? err.message : String(err)}`
+    )
+  } finally {
+    clearTimeout(timeout)
+  }
+
+  const etag = response.headers.get('etag')
+  const lastModified = response.headers.get('last-modified')
+  const remoteMtime = lastModified && !isNaN(Date.parse(lastModified)) ? new Date(lastModified) : null
+  const contentLength = response.headers.get('content-length')
+
+  feedLog.info('HTTP_RESPONSE', {
+    phase: 'connect',
+    status: response.status,
+    connectDurationMs: Date.now() - connectStart,
+    etag,
+    lastModified,
+    contentLength,
+  })
+
+  if (response.status === 304) {
+    feedLog.debug('HTTP_CHANGE_DETECTION_SKIP', {
+      phase: 'change_detection',
+      reason: 'not_modified',
+      lastEtag: feed.lastRemoteEtag,
+      lastRemoteMtime: feed.lastRemoteMtime?.toISOString(),
+    })
+    return {
+      filePath: null,
+      contentBytes: 0,
+      mtime: feed.lastRemoteMtime,
+      size: feed.lastRemoteSize ?? BigInt(0),
+      contentHash: feed.lastContentHash || '',
+      etag: feed.lastRemoteEtag,
+      skipped: true,
+      skippedReason: 'UNCHANGED_MTIME',
+    }
+  }
+
+  if (response.status === 404 || response.status === 410) {
+    await response.body?.cancel()
+    // Same as FTP/SFTP: file not yet published is a skip, not a failure
+    feedLog.warn('HTTP_FILE_NOT_FOUND', {
+      event_name: 'HTTP_FILE_NOT_FOUND',
+      phase: 'stat',
+      url: redactUrl(url),
+      status: response.status,
+      action: 'skip_run',
+    })
+    return {
+      filePath: null,
+      contentBytes: 0,
+      mtime: null,
+      size: BigInt(0),
+      contentHash: '',
+      skipped: true,
+      skippedReason: 'FILE_NOT_FOUND',
+    }
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel()
+    feedLog.error('HTTP_ERROR', {
+      event_name: 'HTTP_ERROR',
+      phase: 'error',
+      url: redactUrl(url),
+      status: response.status,
+      statusText: response.statusText,
+    })
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`HTTP authentication failed: ${response.status} ${response.statusText}`)
+    }
+    throw new Error(`HTTP download failed: ${response.status} ${response.statusText}`)
+  }
+
+  // Server ignored If-None-Match but the entity tag is unchanged
+  if (etag && feed.lastContentHash && feed.lastRemoteEtag === etag) {
+    await response.body?.cancel()
+    feedLog.debug('HTTP_CHANGE_DETECTION_SKIP', {
+      phase: 'change_detection',
+      reason: 'etag_unchanged',
+      etag,
+    })
+    return {
+      filePath: null,
+      contentBytes: 0,
+      mtime: remoteMtime ?? feed.lastRemoteMtime,
+      size: feed.lastRemoteSize ?? BigInt(0),
+      contentHash: feed.lastContentHash,
+      etag,
+      skipped: true,
+      skippedReason: 'UNCHANGED_MTIME',
+    }
+  }
+
+  if (contentLength && Number(contentLength) > maxFileSize) {
+    await response.body?.cancel()
+    throw new Error(`File size ${contentLength} exceeds limit ${maxFileSize}`)
+  }
+
+  const downloadStart = Date.now()
+  const spool = new DownloadSpool(feed.id, maxFileSize)
+  try {
+    await pipeline(
+      response.body ? Readable.fromWeb(response.body as WebReadableStream<Uint8Array>) : Readable.from([]),
+      spool
+    )
+  } catch (err) {
+    await spool.remove()
+    throw err
+  }
+  const downloadedBytes = spool.bytes
+
+  const downloadDurationMs = Date.now() - downloadStart
+  feedLog.debug('HTTP_DOWNLOAD_COMPLETE', {
+    phase: 'download',
+    downloadedBytes,
+    downloadDurationMs,
+    throughputMBps: downloadDurationMs > 0 ? ((downloadedBytes / 1024 / 1024) / (downloadDurationMs / 1000)).toFixed(2) : null,
+  })
+
+  // Compressed feeds are kept compressed here; decompression streams into the parser
+  // (HTTP Content-Encoding is already handled by fetch)
+  const remoteSize = BigInt(downloadedBytes)
+  const contentHash = spool.digest()
+
+  if (feed.lastContentHash && contentHash === feed.lastContentHash) {
+    await spool.remove()
+    feedLog.info('HTTP_UNCHANGED_HASH', {
+      phase: 'change_detection',
+      reason: 'content_hash_unchanged',
+      hashPrefix: contentHash.slice(0, 16),
+      contentBytes: downloadedBytes,
+    })
+    return {
+      filePath: null,
+      contentBytes: downloadedBytes,
+      mtime: remoteMtime,
+      size: remoteSize,
+      contentHash,
+      etag,
+      skipped: true,
+      skippedReason: 'UNCHANGED_HASH',
+    }
+  }
+
+  feedLog.debug('HTTP_DOWNLOAD_SUCCESS', {
+    phase: 'complete',
+    contentBytes: downloadedBytes,
+    hashPrefix: contentHash.slice(0, 16),
+    isNewContent: !feed.lastContentHash,
+    hashChanged: feed.lastContentHash ? 'yes' : 'first_download',
+  })
+
+  return {
+    filePath: spool.filePath,
+    contentBytes: downloadedBytes,
+    mtime: remoteMtime,
+    size: remoteSize,
+    contentHash,
+    etag,
+    skipped: false,
+  }
 }
 
 /**
@@ -194,7 +543,8 @@ async function downloadViaSftp(
               action: 'skip_run',
             })
             resolve({
-              content: Buffer.alloc(0),
+              filePath: null,
+              contentBytes: 0,
               mtime: null,
               size: BigInt(0),
               contentHash: '',
@@ -244,7 +594,8 @@ async function downloadViaSftp(
               remoteSize: remoteSize.toString(),
             })
             resolve({
-              content: Buffer.alloc(0),
+              filePath: null,
+              contentBytes: 0,
               mtime: remoteMtime,
               size: remoteSize,
               contentHash: feed.lastContentHash || '',
@@ -263,27 +614,14 @@ async function downloadViaSftp(
             sizeMB: (Number(remoteSize) / 1024 / 1024).toFixed(2),
           })
           const readStream = sftp.createReadStream(feed.path!)
-          const chunks: Buffer[] = []
-          let downloadedBytes = 0
-
-          readStream.on('data', (chunk: Buffer) => {
-            downloadedBytes += chunk.length
-            if (downloadedBytes > maxFileSize) {
-              readStream.destroy()
-              clearTimeout(timeout)
-              resolved = true
-              conn.end()
-              reject(new Error(`Download exceeded max file size: ${maxFileSize}`))
-              return
-            }
-            chunks.push(chunk)
-          })
+          const spool = new DownloadSpool(feed.id, maxFileSize)
 
-          readStream.on('end', () => {
+          const onDownloaded = () => {
             clearTimeout(timeout)
             resolved = true
             conn.end()
 
+            const downloadedBytes = spool.bytes
             const downloadDurationMs = Date.now() - downloadStart
             feedLog.debug('SFTP_DOWNLOAD_COMPLETE', {
               phase: 'download',
@@ -292,41 +630,12 @@ async function downloadViaSftp(
               throughputMBps: downloadDurationMs > 0 ? ((downloadedBytes / 1024 / 1024) / (downloadDurationMs / 1000)).toFixed(2) : null,
             })
 
-            let content = Buffer.concat(chunks)
-
-            // Decompress if needed
-            if (feed.compression === 'GZIP') {
-              const decompressStart = Date.now()
-              try {
-                const compressedSize = content.length
-                content = gunzipSync(content)
-                const decompressDurationMs = Date.now() - decompressStart
-                feedLog.debug('SFTP_GZIP_DECOMPRESSED', {
-                  phase: 'decompress',
-                  compressedBytes: compressedSize,
-                  decompressedBytes: content.length,
-                  compressionRatio: (compressedSize / content.length).toFixed(3),
-                  durationMs: decompressDurationMs,
-                })
-              } catch (gzipErr) {
-                feedLog.error('SFTP_GZIP_FAILED', {
-                  phase: 'decompress',
-                  errorMessage: (gzipErr as Error).message,
-                  compressedBytes: content.length,
-                })
-                reject(new Error(`GZIP decompression failed: ${(gzipErr as Error).message}`))
-                return
-              }
-            }
-
-            // Compute content hash
-            const hashStart = Date.now()
-            const contentHash = createHash('sha256').update(content).digest('hex')
+            // Compressed feeds are kept compressed; decompression streams into the parser
+            const contentHash = spool.digest()
             feedLog.debug('SFTP_CONTENT_HASH_COMPUTED', {
               phase: 'hash',
-              contentBytes: content.length,
+              contentBytes: downloadedBytes,
               hashPrefix: contentHash.slice(0, 16),
-              durationMs: Date.now() - hashStart,
             })
 
             // Check if content unchanged
@@ -335,48 +644,59 @@ async function downloadViaSftp(
                 phase: 'change_detection',
                 reason: 'content_hash_unchanged',
                 hashPrefix: contentHash.slice(0, 16),
-                contentBytes: content.length,
-              })
-              resolve({
-                content,
-                mtime: remoteMtime,
-                size: remoteSize,
-                contentHash,
-                skipped: true,
-                skippedReason: 'UNCHANGED_HASH',
+                contentBytes: downloadedBytes,
               })
+              spool.remove().then(
+                () =>
+                  resolve({
+                    filePath: null,
+                    contentBytes: downloadedBytes,
+                    mtime: remoteMtime,
+                    size: remoteSize,
+                    contentHash,
+                    skipped: true,
+                    skippedReason: 'UNCHANGED_HASH',
+                  }),
+                reject
+              )
               return
             }
 
             feedLog.debug('SFTP_DOWNLOAD_SUCCESS', {
               phase: 'complete',
-              contentBytes: content.length,
+              contentBytes: downloadedBytes,
               hashPrefix: contentHash.slice(0, 16),
               isNewContent: !feed.lastContentHash,
               hashChanged: feed.lastContentHash ? 'yes' : 'first_download',
             })
 
             resolve({
-              content,
+              filePath: spool.filePath,
+              contentBytes: downloadedBytes,
               mtime: remoteMtime,
               size: remoteSize,
               contentHash,
               skipped: false,
             })
-          })
+          }
 
-          readStream.on('error', (readErr: Error) => {
+          const onDownloadFailed = (downloadErr: Error) => {
             clearTimeout(timeout)
             resolved = true
             conn.end()
-            feedLog.error('SFTP_READ_ERROR', {
-              phase: 'download',
-              errorMessage: readErr.message,
-              downloadedBytes,
-              path: feed.path,
-            })
-            reject(new Error(`SFTP read error: ${readErr.message}`))
-          })
+            const error = spool.limitExceeded ? downloadErr : new Error(`SFTP read error: ${downloadErr.message}`)
+            if (!spool.limitExceeded) {
+              feedLog.error('SFTP_READ_ERROR', {
+                phase: 'download',
+                errorMessage: downloadErr.message,
+                downloadedBytes: spool.bytes,
+                path: feed.path,
+              })
+            }
+            spool.remove().then(() => reject(error), () => reject(error))
+          }
+
+          pipeline(readStream, spool).then(onDownloaded, onDownloadFailed)
         })
       })
     })
@@ -438,6 +758,7 @@ async function downloadViaFtp(
   const client = new ftp.Client()
   client.ftp.verbose = false
 
+  let spool: DownloadSpool | null = null
   const connectStart = Date.now()
   try {
     feedLog.debug('FTP_CONNECTING', {
@@ -504,19 +825,10 @@ async function downloadViaFtp(
     })
 
     const downloadStart = Date.now()
-    const chunks: Buffer[] = []
-    let downloadedBytes = 0
-    const { Writable } = await import('stream')
-
-    const writable = new Writable({
-      write(chunk: Buffer, _encoding: string, callback: () => void) {
-        downloadedBytes += chunk.length
-        chunks.push(chunk)
-        callback()
-      },
-    })
-
-    await client.downloadTo(writable, feed.path!)
+    spool = new DownloadSpool(feed.id, maxFileSize)
+    // downloadTo pipes the data socket into the spool and ends it
+    await client.downloadTo(spool, feed.path!)
+    const downloadedBytes = spool.bytes
 
     const downloadDurationMs = Date.now() - downloadStart
     feedLog.debug('FTP_DOWNLOAD_COMPLETE', {
@@ -526,52 +838,26 @@ async function downloadViaFtp(
       throughputMBps: downloadDurationMs > 0 ? ((downloadedBytes / 1024 / 1024) / (downloadDurationMs / 1000)).toFixed(2) : null,
     })
 
-    let content = Buffer.concat(chunks)
-
-    // Decompress if needed
-    if (feed.compression === 'GZIP') {
-      const decompressStart = Date.now()
-      try {
-        const compressedSize = content.length
-        content = gunzipSync(content)
-        const decompressDurationMs = Date.now() - decompressStart
-        feedLog.debug('FTP_GZIP_DECOMPRESSED', {
-          phase: 'decompress',
-          compressedBytes: compressedSize,
-          decompressedBytes: content.length,
-          compressionRatio: (compressedSize / content.length).toFixed(3),
-          durationMs: decompressDurationMs,
-        })
-      } catch (gzipErr) {
-        feedLog.error('FTP_GZIP_FAILED', {
-          phase: 'decompress',
-          errorMessage: (gzipErr as Error).message,
-          compressedBytes: content.length,
-        })
-        throw new Error(`GZIP decompression failed: ${(gzipErr as Error).message}`)
-      }
-    }
-
-    // Compute content hash
-    const hashStart = Date.now()
-    const contentHash = createHash('sha256').update(content).digest('hex')
+    // Compressed feeds are kept compressed; decompression streams into the parser
+    const contentHash = spool.digest()
     feedLog.debug('FTP_CONTENT_HASH_COMPUTED', {
       phase: 'hash',
-      contentBytes: content.length,
+      contentBytes: downloadedBytes,
       hashPrefix: contentHash.slice(0, 16),
-      durationMs: Date.now() - hashStart,
     })
 
     // Check if content unchanged
     if (feed.lastContentHash && contentHash === feed.lastContentHash) {
+      await spool.remove()
       feedLog.info('FTP_UNCHANGED_HASH', {
         phase: 'change_detection',
         reason: 'content_hash_unchanged',
         hashPrefix: contentHash.slice(0, 16),
-        contentBytes: content.length,
+        contentBytes: downloadedBytes,
       })
       return {
-        content,
+        filePath: null,
+        contentBytes: downloadedBytes,
         mtime: null, // FTP doesn't provide reliable mtime
         size: BigInt(remoteSize),
         contentHash,
@@ -582,20 +868,22 @@ async function downloadViaFtp(
 
     feedLog.debug('FTP_DOWNLOAD_SUCCESS', {
       phase: 'complete',
-      contentBytes: content.length,
+      contentBytes: downloadedBytes,
       hashPrefix: contentHash.slice(0, 16),
       isNewContent: !feed.lastContentHash,
       hashChanged: feed.lastContentHash ? 'yes' : 'first_download',
     })
 
     return {
-      content,
+      filePath: spool.filePath,
+      contentBytes: downloadedBytes,
       mtime: null,
       size: BigInt(remoteSize),
       contentHash,
       skipped: false,
     }
   } catch (err) {
+    await spool?.remove()
     const errorMessage = err instanceof Error ? err.message : String(err)
     const errorMessageLower = errorMessage.toLowerCase()
 
@@ -616,7 +904,8 @@ async function downloadViaFtp(
         action: 'skip_run',
       })
       return {
-        content: Buffer.alloc(0),
+        filePath: null,
+        contentBytes: 0,
         mtime: null,
         size: BigInt(0),
         contentHash: '',
@@ -651,6 +940,10 @@ export async function testConnection(feed: AffiliateFeed): Promise<{
   fileName?: string
 }> {
   try {
+    if (isHttpTransport(feed.transport)) {
+      return await testHttpConnection(feed, decryptHttpCredentials(feed, log.child({ feedId: feed.id })))
+    }
+
     if (!feed.secretCiphertext) {
       return { success: false, error: 'Feed credentials not configured - re-save credentials in admin' }
     }
@@ -673,6 +966,32 @@ export async function testConnection(feed: AffiliateFeed): Promise<{
   }
 }
 
+async function testHttpConnection(
+  feed: AffiliateFeed,
+  credentials: HttpFeedCredentials
+): Promise<{ success: boolean; error?: string; fileSize?: number; fileName?: string }> {
+  const url = buildFeedUrl(feed, credentials)
+  const headers = buildHttpHeaders(feed, credentials)
+
+  // Not every feed host answers HEAD (signed URLs are often GET-only); fall back to GET
+  let response = await fetch(url, { method: 'HEAD', headers, signal: AbortSignal.timeout(10000) })
+  if (response.status === 405 || response.status === 403) {
+    response = await fetch(url, { method: 'GET', headers, signal: AbortSignal.timeout(10000) })
+    await response.body?.cancel()
+  }
+
+  if (!response.ok) {
+    return { success: false, error: `HTTP ${response.status} ${response.statusText}` }
+  }
+
+  const contentLength = response.headers.get('content-length')
+  return {
+    success: true,
+    fileSize: contentLength ? Number(contentLength) : undefined,
+    fileName: url.pathname.split('/').pop(),
+  }
+}
+
 async function testSftpConnection(
   feed: AffiliateFeed,
   password: string
@@ -14,7 +14,7 @@ export {
 
 // Utility exports for admin API
 export { testConnection, downloadFeed } from './fetcher'
-export { parseFeed } from './parser'
+export { parseFeed, parseFeedBatches } from './parser'
 export {
   evaluateCircuitBreaker,
   promoteProducts,
@@ -1,36 +1,143 @@
 /**
  * Affiliate Feed Parser
  *
- * v1 only supports CSV format. TSV/XML/JSON are post-v1.
- * Uses the existing Impact parser as a foundation.
+ * Supports CSV, TSV, XML (RSS/Atom/Google Merchant) and NDJSON feeds with
+ * streaming row iteration. Uses the existing Impact parser as a foundation.
+ *
+ * Networks with their own native catalog layout (CJ product catalogs,
+ * Rakuten merchandiser files) are streamed by the network parsers in
+ * ../parsers in the feed's configured format, and bridged into the same
+ * column vocabulary before mapping.
  *
  * Per spec Section 8.3: Parse rows and resolve identity type.
  */
 
-import { parse as parseCSV } from 'csv-parse/sync'
+import { parse as parseCSVStream } from 'csv-parse'
 import { createHash } from 'crypto'
+import { createInterface } from 'readline'
+import { Readable } from 'stream'
+import { StringDecoder } from 'string_decoder'
+import { SaxesParser } from 'saxes'
+import type { AffiliateNetwork, FeedFormat } from '@ironscout/db'
 import { logger } from '../config/logger'
+import { CJParser, RakutenParser, type ParsedProduct, type StreamingFeedParser } from '../parsers'
 import { parseAttributes, parseUrlSignals } from './signal-extraction'
 import { normalizeCaliberString, extractGrainWeight, extractRoundCount } from '../utils/ammo-utils'
-import type { ParsedFeedProduct, ParseResult, ParseError, ErrorCode } from './types'
-import { ERROR_CODES } from './types'
+import type { ParsedFeedProduct, ParseResult, ParseSummary, ErrorCode } from './types'
+import { AffiliateFeedError, ERROR_CODES } from './types'
 
 const log = logger.affiliate
 
+/** Feed body accepted by parseFeed */
+export type FeedInput = string | Buffer | Readable
+
+/** Formats the affiliate parser can decode */
+const SUPPORTED_FORMATS: readonly FeedFormat[] = ['CSV', 'TSV', 'XML', 'NDJSON']
+
+/** A decoded raw row, or a row-level decode error */
+type RawFeedRow = { record: Record<string, string> } | { error: string }
+
+/**
+ * Networks whose feeds use a native layout rather than Impact-style columns.
+ * Networks not listed here are parsed as generic CSV.
+ */
+const NETWORK_PARSERS: Partial<Record<AffiliateNetwork, StreamingFeedParser>> = {
+  CJ: new CJParser(),
+  RAKUTEN: new RakutenParser(),
+}
+
+/** Rows per batch yielded by parseFeedBatches */
+const DEFAULT_PARSE_BATCH_SIZE = 1000
+
+/** Options for parseFeedBatches */
+export interface ParseFeedOptions {
+  feedId?: string
+  /** Affiliate network of the feed; selects a native network parser when one exists */
+  network?: AffiliateNetwork
+  /** Products per yielded batch */
+  batchSize?: number
+}
+
+/** Streaming parse: product batches plus counters that are final once the batches are exhausted */
+export interface FeedParseStream {
+  batches: AsyncGenerator<ParsedFeedProduct[]>
+  summary: ParseSummary
+}
+
 /**
- * Parse feed content (CSV only for v1)
+ * Parse feed content into a fully materialized result
+ *
+ * Collects parseFeedBatches into one array; decode failures are returned as a
+ * PARSE_FAILED result instead of being thrown. The worker streams batches
+ * straight into the processor instead.
+ *
+ * @param content - Feed body as a string, Buffer or Readable stream
+ * @param network - Affiliate network of the feed; selects a native network parser when one exists
  */
 export async function parseFeed(
-  content: string,
-  format: 'CSV',
+  content: FeedInput,
+  format: FeedFormat,
   maxRows: number,
-  feedId?: string
+  feedId?: string,
+  network?: AffiliateNetwork
 ): Promise<ParseResult> {
+  const { batches, summary } = parseFeedBatches(content, format, maxRows, { feedId, network })
+  const products: ParsedFeedProduct[] = []
+
+  try {
+    for await (const batch of batches) {
+      products.push(...batch)
+    }
+  } catch (err) {
+    return {
+      products: [],
+      rowsRead: 0,
+      rowsParsed: 0,
+      truncated: false,
+      errors: [
+        {
+          code: ERROR_CODES.PARSE_FAILED,
+          message: err instanceof Error ? err.message : 'Parse failed',
+        },
+      ],
+    }
+  }
+
+  return { products, ...summary }
+}
+
+/**
+ * Parse feed content as a stream of product batches
+ *
+ * Rows are decoded incrementally from the input stream (CSV/TSV via csv-parse,
+ * XML via a SAX parser, NDJSON line by line) and mapped products are yielded
+ * in batches of `batchSize`, so neither the raw feed nor the full product list
+ * is ever held in memory. Decoding stops at `maxRows`: the input is released
+ * and `summary.truncated` is set, without counting the remaining rows.
+ *
+ * Decode failures and unsupported formats are thrown from the generator as
+ * permanent PARSE_FAILED errors; row-level errors are collected in the summary.
+ */
+export function parseFeedBatches(
+  content: FeedInput,
+  format: FeedFormat,
+  maxRows: number,
+  options: ParseFeedOptions = {}
+): FeedParseStream {
+  const summary: ParseSummary = { rowsRead: 0, rowsParsed: 0, errors: [], truncated: false }
+  return { batches: generateBatches(content, format, maxRows, options, summary), summary }
+}
+
+async function* generateBatches(
+  content: FeedInput,
+  format: FeedFormat,
+  maxRows: number,
+  { feedId, network, batchSize = DEFAULT_PARSE_BATCH_SIZE }: ParseFeedOptions,
+  summary: ParseSummary
+): AsyncGenerator<ParsedFeedProduct[]> {
   const parseLog = feedId ? log.child({ feedId }) : log
   const parseStart = Date.now()
-  const errors: ParseError[] = []
-  let rowsRead = 0
-  let rowsParsed = 0
+  const errors = summary.errors
 
   // Track validation statistics
   const validationStats = {
@@ -41,90 +148,54 @@ export async function parseFeed(
     parseErrors: 0,
   }
 
+  const networkParser = network ? NETWORK_PARSERS[network] : undefined
+
   parseLog.debug('PARSE_START', {
     phase: 'init',
     format,
+    network,
+    nativeParser: Boolean(networkParser),
     maxRows,
-    contentBytes: content.length,
-    contentKB: (content.length / 1024).toFixed(2),
-    hasBOM: content.charCodeAt(0) === 0xFEFF,
+    batchSize,
+    streamed: content instanceof Readable,
+    contentBytes: content instanceof Readable ? undefined : content.length,
   })
 
-  try {
-    // v1 only supports CSV
-    if (format !== 'CSV') {
-      parseLog.error('PARSE_UNSUPPORTED_FORMAT', {
-        phase: 'init',
-        format,
-        supportedFormats: ['CSV'],
-      })
-      throw new Error(`Unsupported format: ${format}. Only CSV is supported in v1.`)
-    }
-
-    let rawRecords: Record<string, string>[]
-    const csvParseStart = Date.now()
-    try {
-      rawRecords = parseCSVContent(content)
-      parseLog.debug('PARSE_CSV_COMPLETE', {
-        phase: 'csv_parse',
-        rowCount: rawRecords.length,
-        durationMs: Date.now() - csvParseStart,
-        columnCount: rawRecords.length > 0 ? Object.keys(rawRecords[0]).length : 0,
-        columns: rawRecords.length > 0 ? Object.keys(rawRecords[0]).slice(0, 20) : [],
-      })
-    } catch (err) {
-      // CSV parse errors are anticipated for malformed feeds - return gracefully
-      const message = err instanceof Error ? err.message : 'Parse failed'
-      parseLog.error('PARSE_CSV_FAILED', {
-        phase: 'csv_parse',
-        errorMessage: message,
-        contentPreview: content.slice(0, 200),
-        durationMs: Date.now() - csvParseStart,
-      })
-      return {
-        products: [],
-        rowsRead: 0,
-        rowsParsed: 0,
-        errors: [
-          {
-            code: ERROR_CODES.PARSE_FAILED,
-            message,
-          },
-        ],
-      }
-    }
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    parseLog.error('PARSE_UNSUPPORTED_FORMAT', {
+      phase: 'init',
+      format,
+      supportedFormats: SUPPORTED_FORMATS,
+    })
+    throw AffiliateFeedError.permanentError(
+      `Unsupported format: ${format}. Supported: ${SUPPORTED_FORMATS.join(', ')}.`,
+      ERROR_CODES.PARSE_FAILED,
+      { format }
+    )
+  }
 
-    rowsRead = rawRecords.length
-
-    // Check row count limit
-    if (rowsRead > maxRows) {
-      parseLog.warn('PARSE_ROW_LIMIT_EXCEEDED', {
-        phase: 'validation',
-        rowsRead,
-        maxRows,
-        rowsTruncated: rowsRead - maxRows,
-        truncatedPercent: (((rowsRead - maxRows) / rowsRead) * 100).toFixed(2),
-      })
-      errors.push({
-        code: ERROR_CODES.TOO_MANY_ROWS,
-        message: `Feed has ${rowsRead} rows, exceeds limit of ${maxRows}`,
-      })
-      // Still process up to the limit
-      rawRecords = rawRecords.slice(0, maxRows)
-    }
+  const input = toReadable(content)
+  const rows = networkParser ? parseNetworkContent(networkParser, input, format) : streamFeedRecords(input, format)
+  let batch: ParsedFeedProduct[] = []
+  let columns: string[] = []
 
-    parseLog.debug('PARSE_MAPPING_START', {
-      phase: 'mapping',
-      recordsToProcess: rawRecords.length,
-    })
+  try {
+    for await (const row of rows) {
+      // A row past the limit proves truncation; stop decoding the rest
+      if (summary.rowsRead >= maxRows) {
+        summary.truncated = true
+        break
+      }
+      const rowNumber = ++summary.rowsRead // 1-indexed for human readability
 
-    // Map each record to ParsedFeedProduct
-    const products: ParsedFeedProduct[] = []
-    const mappingStart = Date.now()
+      if ('error' in row) {
+        validationStats.parseErrors++
+        errors.push({ code: ERROR_CODES.PARSE_FAILED, message: row.error, rowNumber })
+        continue
+      }
 
-    for (let i = 0; i < rawRecords.length; i++) {
-      const record = rawRecords[i]
-      const rowNumber = i + 1 // 1-indexed for human readability
+      const record = row.record
+      if (rowNumber === 1) columns = Object.keys(record)
 
       try {
         const product = mapRecord(record, rowNumber)
@@ -164,8 +235,8 @@ export async function parseFeed(
           continue
         }
 
-        products.push(product)
-        rowsParsed++
+        batch.push(product)
+        summary.rowsParsed++
       } catch (err) {
         validationStats.parseErrors++
         errors.push({
@@ -185,68 +256,321 @@ export async function parseFeed(
           })
         }
       }
+
+      if (batch.length >= batchSize) {
+        yield batch
+        batch = []
+      }
     }
+  } catch (err) {
+    if (err instanceof AffiliateFeedError) throw err
+    // Decode errors are anticipated for malformed feeds - fail the run cleanly
+    const message = err instanceof Error ? err.message : 'Parse failed'
+    parseLog.error('PARSE_DECODE_FAILED', {
+      phase: 'decode',
+      format,
+      errorMessage: message,
+      rowsDecoded: summary.rowsRead,
+      contentPreview: typeof content === 'string' ? content.slice(0, 200) : undefined,
+      durationMs: Date.now() - parseStart,
+    })
+    throw AffiliateFeedError.permanentError(message, ERROR_CODES.PARSE_FAILED, { rowsDecoded: summary.rowsRead })
+  } finally {
+    // Release the source (and any decompression pipeline feeding it) when
+    // decoding stops early: row limit, decode error, or an abandoned consumer
+    input.destroy()
+  }
 
-    const mappingDurationMs = Date.now() - mappingStart
-    const totalDurationMs = Date.now() - parseStart
+  if (batch.length > 0) {
+    yield batch
+  }
 
-    // Calculate statistics
-    const successRate = rowsRead > 0 ? ((rowsParsed / rowsRead) * 100).toFixed(2) : '0'
-    const avgMsPerRow = rowsRead > 0 ? (mappingDurationMs / rowsRead).toFixed(3) : '0'
+  const { rowsRead, rowsParsed } = summary
+  const totalDurationMs = Date.now() - parseStart
 
-    parseLog.debug('PARSE_VALIDATION_STATS', {
-      phase: 'validation',
-      stats: validationStats,
-      totalErrors: errors.length,
-      errorBreakdown: {
-        missingName: validationStats.missingName,
-        missingUrl: validationStats.missingUrl,
-        invalidUrl: validationStats.invalidUrl,
-        invalidPrice: validationStats.invalidPrice,
-        parseErrors: validationStats.parseErrors,
-      },
-    })
+  parseLog.debug('PARSE_DECODE_COMPLETE', {
+    phase: 'decode',
+    format,
+    network,
+    rowCount: rowsRead,
+    durationMs: totalDurationMs,
+    columnCount: columns.length,
+    columns: columns.slice(0, 20),
+  })
 
-    parseLog.info('PARSE_COMPLETE', {
-      phase: 'complete',
-      format,
+  // Check row count limit
+  if (summary.truncated) {
+    parseLog.warn('PARSE_ROW_LIMIT_EXCEEDED', {
+      phase: 'validation',
       rowsRead,
-      rowsParsed,
-      rowsRejected: rowsRead - rowsParsed,
-      errorCount: errors.length,
-      successRate: successRate + '%',
-      durationMs: totalDurationMs,
-      mappingDurationMs,
-      avgMsPerRow,
-      throughputRowsPerSec: totalDurationMs > 0 ? Math.round((rowsRead / totalDurationMs) * 1000) : 0,
+      maxRows,
+    })
+    errors.unshift({
+      code: ERROR_CODES.TOO_MANY_ROWS,
+      message: `Feed exceeds limit of ${maxRows} rows; rows past the limit were not read`,
     })
+  }
 
-    return { products, rowsRead, rowsParsed, errors }
-  } catch (err) {
-    const totalDurationMs = Date.now() - parseStart
-    parseLog.error('PARSE_FAILED', {
-      phase: 'error',
-      format,
-      errorMessage: err instanceof Error ? err.message : 'Parse failed',
-      errorName: err instanceof Error ? err.name : 'Unknown',
-      durationMs: totalDurationMs,
-      rowsRead,
-      rowsParsed,
-    }, err as Error)
-    return {
-      products: [],
-      rowsRead: 0,
-      rowsParsed: 0,
-      errors: [
-        {
-          code: ERROR_CODES.PARSE_FAILED,
-          message: err instanceof Error ? err.message : 'Parse failed',
-        },
-      ],
+  // Calculate statistics
+  const successRate = rowsRead > 0 ? ((rowsParsed / rowsRead) * 100).toFixed(2) : '0'
+  const avgMsPerRow = rowsRead > 0 ? (totalDurationMs / rowsRead).toFixed(3) : '0'
+
+  parseLog.debug('PARSE_VALIDATION_STATS', {
+    phase: 'validation',
+    stats: validationStats,
+    totalErrors: errors.length,
+    errorBreakdown: {
+      missingName: validationStats.missingName,
+      missingUrl: validationStats.missingUrl,
+      invalidUrl: validationStats.invalidUrl,
+      invalidPrice: validationStats.invalidPrice,
+      parseErrors: validationStats.parseErrors,
+    },
+  })
+
+  parseLog.info('PARSE_COMPLETE', {
+    phase: 'complete',
+    format,
+    rowsRead,
+    rowsParsed,
+    rowsRejected: rowsRead - rowsParsed,
+    truncated: summary.truncated,
+    errorCount: errors.length,
+    successRate: successRate + '%',
+    durationMs: totalDurationMs,
+    avgMsPerRow,
+    throughputRowsPerSec: totalDurationMs > 0 ? Math.round((rowsRead / totalDurationMs) * 1000) : 0,
+  })
+}
+
+// ============================================================================
+// Streaming Row Iteration
+// ============================================================================
+
+/**
+ * Chunk size used when turning an in-memory body into a stream.
+ * Keeps decoder buffers (and csv-parse's pending record queue) small.
+ */
+const STREAM_CHUNK_BYTES = 64 * 1024
+
+/**
+ * Item element names recognised in XML feeds:
+ * RSS 2.0 / Google Merchant (<item>), Atom (<entry>), generic catalogs (<product>)
+ */
+const XML_ITEM_ELEMENTS = new Set(['item', 'entry', 'product'])
+
+/**
+ * Wrap string/Buffer input in a Readable that yields bounded chunks.
+ * Buffers are sliced without copying.
+ */
+function toReadable(content: FeedInput): Readable {
+  if (content instanceof Readable) return content
+
+  if (typeof content === 'string') {
+    const text = stripBOM(content)
+    return Readable.from(
+      (function* () {
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_BYTES) {
+          yield text.slice(i, i + STREAM_CHUNK_BYTES)
+        }
+      })(),
+      { objectMode: false }
+    )
+  }
+
+  return Readable.from(
+    (function* () {
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_BYTES) {
+        yield content.subarray(i, i + STREAM_CHUNK_BYTES)
+      }
+    })(),
+    { objectMode: false }
+  )
+}
+
+/**
+ * Iterate raw records from a feed stream in the given format.
+ * Structural failures (unterminated quote, malformed XML) throw; row-level
+ * decode failures (a malformed NDJSON line) are yielded as errors.
+ */
+export async function* streamFeedRecords(
+  input: Readable,
+  format: FeedFormat
+): AsyncGenerator<RawFeedRow> {
+  switch (format) {
+    case 'CSV':
+      yield* streamDelimited(input, ',')
+      return
+    case 'TSV':
+      yield* streamDelimited(input, '\t')
+      return
+    case 'XML':
+      yield* streamXml(input)
+      return
+    case 'NDJSON':
+      yield* streamNdjson(input)
+      return
+    default:
+      throw new Error(`Unsupported format: ${format}`)
+  }
+}
+
+/**
+ * Stream CSV/TSV records with a header row
+ */
+async function* streamDelimited(input: Readable, delimiter: ',' | '\t'): AsyncGenerator<RawFeedRow> {
+  const parser = parseCSVStream({
+    columns: true,
+    skip_empty_lines: true,
+    delimiter,
+    relax_column_count: true,
+    relax_quotes: true,
+    trim: true,
+    // Strip BOM before parsing to prevent header mismatch
+    bom: true,
+  })
+  input.on('error', (err) => parser.destroy(err))
+  input.pipe(parser)
+
+  for await (const record of parser) {
+    yield { record: record as Record<string, string> }
+  }
+}
+
+/**
+ * Stream NDJSON (JSON Lines) records.
+ * Each non-empty line is one product object; nested objects are flattened
+ * with dotted keys so mapRecord can address them.
+ */
+async function* streamNdjson(input: Readable): AsyncGenerator<RawFeedRow> {
+  const lines = createInterface({ input, crlfDelay: Infinity })
+  let first = true
+
+  for await (const rawLine of lines) {
+    const line = first ? stripBOM(rawLine).trim() : rawLine.trim()
+    first = false
+    if (!line) continue
+
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch (err) {
+      yield { error: `Invalid JSON line: ${err instanceof Error ? err.message : 'parse error'}` }
+      continue
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      yield { error: 'JSON line is not an object' }
+      continue
     }
+
+    yield { record: flattenJsonRecord(value as Record<string, unknown>) }
   }
 }
 
+/**
+ * Stream XML item records (RSS 2.0, Atom, Google Merchant, generic <products>).
+ *
+ * Each item element becomes one record keyed by child element local name
+ * (g:price -> price). Item attributes become fields too, and Atom
+ * <link href="..."/> is read from its href attribute. For repeated or nested
+ * children the first non-empty value wins.
+ */
+async function* streamXml(input: Readable): AsyncGenerator<RawFeedRow> {
+  const parser = new SaxesParser()
+  const decoder = new StringDecoder('utf8')
+  const pending: RawFeedRow[] = []
+
+  let record: Record<string, string> | null = null
+  let itemDepth = 0
+  let depth = 0
+  const path: string[] = []
+  let text = ''
+
+  const localName = (name: string) => name.slice(name.indexOf(':') + 1)
+  const setField = (key: string, value: string) => {
+    const trimmed = value.trim()
+    if (record && trimmed && record[key] === undefined) record[key] = trimmed
+  }
+
+  parser.on('opentag', (node) => {
+    depth++
+    const name = localName(node.name)
+
+    if (!record && XML_ITEM_ELEMENTS.has(name.toLowerCase())) {
+      record = {}
+      itemDepth = depth
+      for (const [attr, value] of Object.entries(node.attributes as Record<string, string>)) {
+        setField(localName(attr), value)
+      }
+      return
+    }
+
+    if (record) {
+      path.push(name)
+      text = ''
+      const href = (node.attributes as Record<string, string>).href
+      if (href) setField(name, href)
+    }
+  })
+  parser.on('text', (value) => {
+    if (record) text += value
+  })
+  parser.on('cdata', (value) => {
+    if (record) text += value
+  })
+  parser.on('closetag', () => {
+    if (record && depth === itemDepth) {
+      pending.push({ record })
+      record = null
+    } else if (record) {
+      const name = path.pop()
+      if (name) setField(name, text)
+      text = ''
+    }
+    depth--
+  })
+
+  let first = true
+  for await (const chunk of input) {
+    let decoded = typeof chunk === 'string' ? chunk : decoder.write(chunk as Buffer)
+    if (first) {
+      decoded = stripBOM(decoded)
+      first = false
+    }
+    parser.write(decoded)
+    while (pending.length > 0) yield pending.shift()!
+  }
+  parser.write(decoder.end())
+  parser.close()
+  while (pending.length > 0) yield pending.shift()!
+}
+
+/**
+ * Flatten a JSON object to string fields.
+ * { price: { value: 9.99, currency: 'USD' } } -> { price: '9.99', 'price.value': '9.99', 'price.currency': 'USD' }
+ * Money-style objects ({ value } / { amount }) also populate their parent key; primitive arrays are joined.
+ */
+function flattenJsonRecord(value: Record<string, unknown>, prefix = ''): Record<string, string> {
+  const record: Record<string, string> = {}
+  for (const [key, field] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (field === null || field === undefined) continue
+    if (Array.isArray(field)) {
+      const primitives = field.filter((v) => v !== null && typeof v !== 'object')
+      if (primitives.length > 0) record[path] = primitives.map(String).join(', ')
+    } else if (typeof field === 'object') {
+      const nested = field as Record<string, unknown>
+      Object.assign(record, flattenJsonRecord(nested, path))
+      const amount = nested.value ?? nested.amount
+      if (amount !== null && amount !== undefined && typeof amount !== 'object') record[path] = String(amount)
+    } else {
+      record[path] = String(field)
+    }
+  }
+  return record
+}
+
 /**
  * Strip UTF-8 BOM (Byte Order Mark) from content
  * BOM is common in files exported from Excel and can break header parsing
@@ -260,21 +584,51 @@ function stripBOM(content: string): string {
 }
 
 /**
- * Parse CSV content
- * v1 only supports CSV. TSV/XML/JSON parsing functions are post-v1.
+ * Parse content with a network-native parser and bridge each product into the
+ * column vocabulary understood by mapRecord, so normalization, signal
+ * extraction and validation stay identical across networks.
  */
-function parseCSVContent(content: string): Record<string, string>[] {
-  // Strip BOM before parsing to prevent header mismatch
-  const cleanContent = stripBOM(content)
+async function* parseNetworkContent(
+  parser: StreamingFeedParser,
+  input: Readable,
+  format: FeedFormat
+): AsyncGenerator<RawFeedRow> {
+  for await (const product of parser.parseStream(input, format)) {
+    yield { record: toCanonicalRecord(product) }
+  }
+}
 
-  return parseCSV(cleanContent, {
-    columns: true,
-    skip_empty_lines: true,
-    delimiter: ',',
-    relax_column_count: true,
-    relax_quotes: true,
-    trim: true,
-  }) as Record<string, string>[]
+/**
+ * Convert a network ParsedProduct into mapRecord's canonical columns.
+ * The network item ID is carried as CatalogItemId (stored as NETWORK_ITEM_ID).
+ */
+function toCanonicalRecord(product: ParsedProduct): Record<string, string> {
+  const record: Record<string, string> = {
+    Name: product.name,
+    URL: product.url,
+    CurrentPrice: String(product.price),
+    StockAvailability: product.inStock ? 'in stock' : 'out of stock',
+  }
+
+  const optional: Record<string, string | number | undefined> = {
+    CatalogItemId: product.catalogItemId,
+    SKU: product.sku,
+    UPC: product.upc,
+    Brand: product.brand,
+    Category: product.category,
+    ImageUrl: product.imageUrl,
+    Description: product.description,
+    OriginalPrice: product.originalPrice,
+    Currency: product.currency,
+    Modification: product.rawData?.modification as string | undefined,
+  }
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined && value !== '') {
+      record[key] = String(value)
+    }
+  }
+
+  return record
 }
 
 // ============================================================================
@@ -398,7 +752,7 @@ function mapRecord(record: Record<string, string>, rowNumber: number): ParsedFee
 
   // Extract and normalize price
   // Priority: SalePrice > CurrentPrice > Price (SalePrice is the actual selling price)
-  const salePriceStr = getValue('SalePrice', 'Sale Price', 'CurrentPrice', 'Current Price')
+  const salePriceStr = getValue('SalePrice', 'Sale Price', 'sale_price', 'CurrentPrice', 'Current Price')
   const listPriceStr = getValue('Price', 'price', 'ListPrice', 'List Price')
   // Use sale price if available, otherwise fall back to list price
   const priceStr = salePriceStr || listPriceStr
@@ -406,7 +760,11 @@ function mapRecord(record: Record<string, string>, rowNumber: number): ParsedFee
 
   // Parse stock status
   const stockText = getValue('StockAvailability', 'Stock Availability', 'Availability', 'InStock', 'In Stock', 'inStock')
-  const inStock = parseStockStatus(stockText)
+  // Delta change marker - an out-of-stock marker overrides the availability column
+  const deltaMarker = parseDeltaMarker(
+    getValue('Operation', 'Action', 'ChangeType', 'Change Type', 'Modification', 'DeltaAction', 'RecordAction')
+  )
+  const inStock = deltaMarker === 'OUT_OF_STOCK' ? false : parseStockStatus(stockText)
 
   // Extract and normalize identity fields
   const impactItemId = normalizeString(getValue('CatalogItemId', 'ItemId', 'item_id', 'catalogItemId'))
@@ -450,19 +808,38 @@ function mapRecord(record: Record<string, string>, rowNumber: number): ParsedFee
     impactItemId,
     sku,
     upc,
-    imageUrl: normalizeString(getValue('ImageUrl', 'ImageURL', 'Image URL', 'Image', 'PrimaryImage', 'image_url', 'Primary Image URL')),
+    imageUrl: normalizeString(getValue('ImageUrl', 'ImageURL', 'Image URL', 'Image', 'PrimaryImage', 'image_url', 'image_link', 'Primary Image URL')),
     description: normalizeString(getValue('Description', 'ProductDescription', 'Product Description', 'description')),
     brand: normalizeBrand(getValue('Manufacturer', 'Brand', 'brand', 'manufacturer')),
-    category: normalizeString(getValue('Category', 'ProductCategory', 'category', 'Product Type')),
+    category: normalizeString(getValue('Category', 'ProductCategory', 'category', 'Product Type', 'product_type', 'google_product_category')),
     originalPrice: originalPrice > 0 ? originalPrice : undefined,
     currency: normalizeCurrency(getValue('Currency', 'CurrencyCode', 'currency')),
     caliber: caliber ?? undefined,
     grainWeight: grainWeight ?? undefined,
     roundCount: roundCount ?? undefined,
+    deltaAction: deltaMarker === 'DELETE' ? 'DELETE' : deltaMarker ? 'UPSERT' : undefined,
     rowNumber,
   }
 }
 
+/**
+ * Parse a delta change marker
+ * Handles single-letter flags (I/U/D, as in Rakuten delta files) and words
+ * (insert/update/delete/remove). Unrecognized values are treated as updates.
+ */
+function parseDeltaMarker(value: string | undefined): 'UPSERT' | 'DELETE' | 'OUT_OF_STOCK' | undefined {
+  if (!value) return undefined
+  const normalized = value.toLowerCase().trim().replace(/[\s-]/g, '_')
+
+  if (['d', 'del', 'delete', 'deleted', 'remove', 'removed'].includes(normalized)) {
+    return 'DELETE'
+  }
+  if (['oos', 'out_of_stock', 'outofstock', 'soldout', 'sold_out'].includes(normalized)) {
+    return 'OUT_OF_STOCK'
+  }
+  return 'UPSERT'
+}
+
 /**
  * Parse stock availability status
  * Handles various formats: Y/N, Yes/No, true/false, In Stock/Out of Stock, 1/0
@@ -560,6 +937,14 @@ function isValidProductUrl(url: string): boolean {
 function validateProduct(
   product: ParsedFeedProduct
 ): { code: ErrorCode; message: string } | null {
+  // DELETE rows only need something to identify the product by
+  if (product.deltaAction === 'DELETE') {
+    if (product.impactItemId || product.sku || (product.url && isValidProductUrl(product.url))) {
+      return null
+    }
+    return { code: ERROR_CODES.MISSING_REQUIRED_FIELD, message: 'Missing identity (item ID, SKU or URL) on DELETE row' }
+  }
+
   if (!product.name || product.name.trim() === '') {
     return { code: ERROR_CODES.MISSING_REQUIRED_FIELD, message: 'Missing product name' }
   }
@@ -609,6 +994,10 @@ const TRACKING_PARAMS = [
   'ref', 'source', 'partner_id', 'affiliate_id',
   // Impact Network (v1 primary)
   'clickid', 'irclickid', 'irgwc',
+  // CJ Affiliate
+  'cjevent', 'cjdata',
+  // Rakuten Advertising (LinkShare)
+  'ranMID', 'ranEAID', 'ranSiteID',
 ]
 
 // Prefixes for tracking parameters (strips any param starting with these)
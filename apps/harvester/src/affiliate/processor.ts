@@ -19,7 +19,7 @@
  * - Actual row count from DB for accurate metrics
  */
 
-import { prisma } from '@ironscout/db'
+import { prisma, type AffiliateNetwork } from '@ironscout/db'
 import { createHash } from 'crypto'
 import { createId } from '@paralleldrive/cuid2'
 import { logger } from '../config/logger'
@@ -35,6 +35,7 @@ import type {
   IdentityType,
 } from './types'
 import { ERROR_CODES, AffiliateFeedError } from './types'
+import { removeSourceProducts } from './removal'
 import { emitIngestRunSummary } from '../config/ingest-summary'
 
 const log = logger.affiliate
@@ -103,6 +104,15 @@ export interface AffiliateStockChange {
   inStock: true // Only back-in-stock triggers alerts
 }
 
+/**
+ * First in-stock offer seen for a source product.
+ * Has no prior state for SKU rules, but can start matching a saved search.
+ */
+export interface AffiliateNewOffer {
+  productId: string
+  sourceProductId: string
+}
+
 /**
  * Skip counters for alert detection observability
  * Per affiliate-feed-alerts-v1 spec: Structured skip logging
@@ -132,6 +142,7 @@ interface PriceWriteResult {
   pricesToWrite: NewPriceRecord[]
   priceChanges: AffiliatePriceChange[]
   stockChanges: AffiliateStockChange[]
+  newOffers: AffiliateNewOffer[]
   alertSkips: AlertDetectionSkips
 }
 
@@ -167,6 +178,9 @@ interface UpsertedSourceProduct {
 /**
  * Process parsed products in Phase 1
  *
+ * Products arrive in batches straight from the parser (parseFeedBatches), so
+ * a feed is never held in memory as a whole; an array is accepted too.
+ *
  * Per spec §4.2.1: Uses batched processing with run-local cache
  * - Batch-fetch last prices (no per-row queries)
  * - Run-local lastPriceCache maintained across chunks
@@ -175,12 +189,13 @@ interface UpsertedSourceProduct {
  * - Actual row count from DB for accurate metrics
  *
  * Per spec §4.2.2: "Last row wins" deduplication
- * - Pre-scan to identify last occurrence of each identity
- * - Only process rows that are "winners" for their identity
+ * - Within a chunk only the last occurrence of an identity is processed
+ * - An identity repeated in a later chunk is processed again on top of the
+ *   earlier row, without raising alerts (see dedupeChunk)
  */
 export async function processProducts(
   context: FeedRunContext,
-  products: ParsedFeedProduct[]
+  products: ParsedFeedProduct[] | AsyncIterable<ParsedFeedProduct[]>
 ): Promise<ProcessorResult> {
   const { feed, run, sourceId, retailerId, t0 } = context
   const maxRowCount = feed.maxRowCount ?? DEFAULT_MAX_ROW_COUNT
@@ -190,10 +205,8 @@ export async function processProducts(
     feedId: feed.id,
     sourceId,
     retailerId,
-    productCount: products.length,
     maxRowCount,
     batchSize: BATCH_SIZE,
-    expectedBatches: Math.ceil(products.length / BATCH_SIZE),
     heartbeatHours: HEARTBEAT_HOURS,
   })
 
@@ -203,11 +216,16 @@ export async function processProducts(
   let productsQuarantined = 0
   let duplicateKeyCount = 0
   let urlHashFallbackCount = 0
+  let productsDeleted = 0
   let productsMatched = 0
   let missingBrandCount = 0
   let missingRoundCountCount = 0
+  let totalRows = 0
   const errors: ParseError[] = []
 
+  // Identity keys processed so far in this run (for cross-chunk duplicates)
+  const seenIdentities = new Set<string>()
+
   // Run-local price cache - maintained across all chunks
   // Per spec §4.2.1: This prevents cross-chunk staleness
   const lastPriceCache = new Map<string, LastPriceEntry>()
@@ -216,53 +234,30 @@ export async function processProducts(
   // Creates/maintains run-local cache for efficient matching
   const productMatcher = new ProductMatcher()
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // PRE-SCAN: Identify "winning" row for each identity
-  // Per spec §4.2.2: "Last row wins" - only process the last occurrence
-  // This avoids processing duplicates across chunks and ensures consistency.
-  // ═══════════════════════════════════════════════════════════════════════════
-  log.debug('Starting identity pre-scan', { runId: run.id, productCount: products.length })
-  const prescanStart = Date.now()
-  const { winningRows, totalDuplicates, totalUrlHashFallbacks } = prescanIdentities(products)
-  duplicateKeyCount = totalDuplicates
-  urlHashFallbackCount = totalUrlHashFallbacks
-
-  log.info('PRESCAN_OK', {
-    runId: run.id,
-    durationMs: Date.now() - prescanStart,
-    totalRows: products.length,
-    uniqueIdentities: winningRows.size,
-    duplicatesSkipped: totalDuplicates,
-    duplicatePercentage: products.length > 0 ? ((totalDuplicates / products.length) * 100).toFixed(2) : 0,
-    urlHashFallbacks: totalUrlHashFallbacks,
-    urlHashPercentage: products.length > 0 ? ((totalUrlHashFallbacks / products.length) * 100).toFixed(2) : 0,
-  })
-
-  // Process in chunks
-  const totalChunks = Math.ceil(products.length / BATCH_SIZE)
-  log.debug('Starting chunk processing', {
-    runId: run.id,
-    totalChunks,
-    batchSize: BATCH_SIZE,
-  })
-
-  for (let chunkStart = 0; chunkStart < products.length; chunkStart += BATCH_SIZE) {
-    const chunk = products.slice(chunkStart, chunkStart + BATCH_SIZE)
-    const chunkNum = Math.floor(chunkStart / BATCH_SIZE) + 1
+  let chunkNum = 0
+  for await (const chunk of toChunks(products)) {
+    chunkNum++
+    const chunkStart = totalRows
+    totalRows += chunk.length
     const chunkStartTime = Date.now()
 
     log.debug('Processing chunk', {
       runId: run.id,
       chunkNum,
-      totalChunks,
       chunkSize: chunk.length,
       chunkStartIndex: chunkStart,
     })
 
     try {
-      // Step 1: Filter chunk to only include winning rows
+      // Step 1: Resolve identities and keep the last row per identity
       // Per spec §4.2.2: "Last row wins" - skip non-winning rows (duplicates)
-      const deduped = filterToWinningRows(chunk, chunkStart, winningRows)
+      const { rows: deduped, repeated, duplicates, urlHashFallbacks } = dedupeChunk(
+        chunk,
+        feed.network,
+        seenIdentities
+      )
+      duplicateKeyCount += duplicates
+      urlHashFallbackCount += urlHashFallbacks
 
       log.debug('Chunk deduplication complete', {
         runId: run.id,
@@ -270,6 +265,7 @@ export async function processProducts(
         originalSize: chunk.length,
         dedupedSize: deduped.length,
         duplicatesRemoved: chunk.length - deduped.length,
+        repeatedFromEarlierChunks: repeated.size,
       })
 
       if (deduped.length === 0) {
@@ -277,12 +273,31 @@ export async function processProducts(
         continue
       }
 
+      // Step 1a: Apply explicit DELETE rows (delta feeds)
+      // Removed products are never recorded as seen, so they cannot be promoted
+      const removals = deduped.filter(({ product }) => product.deltaAction === 'DELETE')
+      if (removals.length > 0) {
+        const removed = await batchRemoveProducts(sourceId, run.id, removals, t0)
+        productsDeleted += removed
+
+        log.info('DELTA_DELETES_APPLIED', {
+          runId: run.id,
+          chunkNum,
+          deleteRows: removals.length,
+          productsDeleted: removed,
+        })
+      }
+      const upserts = removals.length > 0
+        ? deduped.filter(({ product }) => product.deltaAction !== 'DELETE')
+        : deduped
+      if (upserts.length === 0) continue
+
       // Step 1b: Quarantine products missing caliber (trust-critical field)
       // Products without caliber can't be matched to canonical products effectively
-      const { valid: validProducts, quarantined: toQuarantine } = filterMissingCaliber(deduped)
+      const { valid: validProducts, quarantined: toQuarantine } = filterMissingCaliber(upserts)
 
       // Track quality metrics (not blocking, just metrics)
-      for (const { product } of deduped) {
+      for (const { product } of upserts) {
         if (!product.brand) missingBrandCount++
         if (!product.roundCount) missingRoundCountCount++
       }
@@ -473,9 +488,9 @@ export async function processProducts(
       // Step 5: Decide writes in-memory and collect prices to insert
       // Per spec §4.2.1: No per-row DB reads - all decisions use cache
       // Per affiliate-feed-alerts-v1: Also returns price/stock changes for alerting
-      log.debug('Deciding price writes', { runId: run.id, chunkNum, productCount: deduped.length })
-      const { pricesToWrite, priceChanges, stockChanges } = decidePriceWrites(
-        deduped,
+      log.debug('Deciding price writes', { runId: run.id, chunkNum, productCount: upserts.length })
+      const decided = decidePriceWrites(
+        upserts,
         upsertedProducts,
         retailerId,
         run.id,
@@ -483,13 +498,25 @@ export async function processProducts(
         lastPriceCache,
         sourceProductIdToProductId
       )
+      const { pricesToWrite } = decided
+
+      // A row repeating an identity from an earlier chunk is compared against
+      // this run's own price, so any "change" is a feed inconsistency, not news
+      const repeatedSourceProductIds = new Set(
+        upsertedProducts.filter((sp) => repeated.has(sp.identityKey)).map((sp) => sp.id)
+      )
+      const isFresh = (change: { sourceProductId: string }) => !repeatedSourceProductIds.has(change.sourceProductId)
+      const priceChanges = decided.priceChanges.filter(isFresh)
+      const stockChanges = decided.stockChanges.filter(isFresh)
+      const newOffers = decided.newOffers.filter(isFresh)
       log.debug('Price write decisions made', {
         runId: run.id,
         chunkNum,
         pricesToWrite: pricesToWrite.length,
         priceChanges: priceChanges.length,
         stockChanges: stockChanges.length,
-        skipped: deduped.length - pricesToWrite.length,
+        newOffers: newOffers.length,
+        skipped: upserts.length - pricesToWrite.length,
       })
 
       // Step 6: Bulk insert prices with ON CONFLICT DO NOTHING
@@ -512,21 +539,23 @@ export async function processProducts(
         // Step 6b: Queue alerts AFTER successful price writes
         // Per affiliate-feed-alerts-v1 spec §4: Only enqueue after bulkInsertPrices succeeds
         // ═══════════════════════════════════════════════════════════════════════
-        if (priceChanges.length > 0 || stockChanges.length > 0) {
+        if (priceChanges.length > 0 || stockChanges.length > 0 || newOffers.length > 0) {
           const alertStart = Date.now()
-          const { priceDropsEnqueued, backInStockEnqueued } = await queueAffiliateAlerts(
+          const { priceDropsEnqueued, backInStockEnqueued, newOffersEnqueued } = await queueAffiliateAlerts(
             priceChanges,
             stockChanges,
+            newOffers,
             run.id
           )
 
-          if (priceDropsEnqueued > 0 || backInStockEnqueued > 0) {
+          if (priceDropsEnqueued > 0 || backInStockEnqueued > 0 || newOffersEnqueued > 0) {
             log.info('AFFILIATE_ALERTS_ENQUEUED', {
               event_name: 'AFFILIATE_ALERTS_ENQUEUED',
               runId: run.id,
               chunkNum,
               priceDropsEnqueued,
               backInStockEnqueued,
+              newOffersEnqueued,
               durationMs: Date.now() - alertStart,
             })
           }
@@ -554,12 +583,11 @@ export async function processProducts(
       log.info('CHUNK_OK', {
         runId: run.id,
         chunkNum,
-        totalChunks,
         chunkDurationMs: chunkDuration,
         productsUpserted: upsertedProducts.length,
         pricesWritten: actualInserted,
         cacheSize: lastPriceCache.size,
-        percentComplete: ((chunkNum / totalChunks) * 100).toFixed(1),
+        rowsProcessed: totalRows,
       })
     } catch (err) {
       // Chunk failed - log error and continue with next chunk
@@ -592,11 +620,14 @@ export async function processProducts(
 
   log.info('Processing complete', {
     runId: run.id,
+    totalRows,
+    chunks: chunkNum,
     productsUpserted,
     pricesWritten,
     productsMatched,
     duplicateKeyCount,
     urlHashFallbackCount,
+    productsDeleted,
     errors: errors.length,
     uniqueProductsSeen: lastPriceCache.size,
     productMatchStats: matcherStats,
@@ -612,7 +643,7 @@ export async function processProducts(
     status: errors.length > 0 ? 'WARNING' : 'SUCCESS',
     durationMs: totalDurationMs,
     input: {
-      totalRows: products.length,
+      totalRows,
     },
     output: {
       listingsCreated: productsUpserted - (matcherStats.cacheHits + matcherStats.matchesFound),
@@ -643,6 +674,7 @@ export async function processProducts(
     productsRejected,
     duplicateKeyCount,
     urlHashFallbackCount,
+    productsDeleted,
     errors,
   }
 }
@@ -677,12 +709,15 @@ function resolveIdentity(product: ParsedFeedProduct): ResolvedIdentity {
  * This enables "find by any identifier" upsert strategy.
  *
  * Priority for canonical marking (highest wins):
- * 1. NETWORK_ITEM_ID (e.g., Impact's catalogItemId)
+ * 1. NETWORK_ITEM_ID (e.g., Impact's catalogItemId, Rakuten's product_id)
  * 2. SKU
  * 3. UPC
  * 4. URL_HASH
+ *
+ * @param network - Feed's affiliate network; namespaces NETWORK_ITEM_ID so
+ *   item IDs from different networks never collide
  */
-function extractAllIdentifiers(product: ParsedFeedProduct): ExtractedIdentifier[] {
+function extractAllIdentifiers(product: ParsedFeedProduct, network: AffiliateNetwork): ExtractedIdentifier[] {
   const identifiers: ExtractedIdentifier[] = []
   const urlHash = computeUrlHash(product.url)
 
@@ -696,12 +731,12 @@ function extractAllIdentifiers(product: ParsedFeedProduct): ExtractedIdentifier[
     canonicalType = 'URL_HASH'
   }
 
-  // 1. Network Item ID (Impact's catalogItemId)
+  // 1. Network Item ID (namespaced by network: IMPACT, CJ, RAKUTEN, ...)
   if (product.impactItemId?.trim()) {
     identifiers.push({
       idType: 'NETWORK_ITEM_ID',
       idValue: product.impactItemId.trim(),
-      namespace: 'IMPACT', // Hardcoded for now; will be dynamic per-feed later
+      namespace: network,
       isCanonical: canonicalType === 'NETWORK_ITEM_ID',
       normalizedValue: product.impactItemId.trim().toUpperCase(),
     })
@@ -764,95 +799,67 @@ function computePriceSignature(product: ParsedFeedProduct): string {
 }
 
 /**
- * Pre-scan all products to identify the "winning" row for each identity
- *
- * Per spec §4.2.2: "Last row wins" - when duplicate identities appear in a feed,
- * only the last occurrence should be processed. This pre-scan identifies which
- * row index wins for each identity, enabling efficient cross-batch deduplication.
- *
- * @returns Map of array index -> ProductWithIdentity for winning rows only
+ * Re-slice incoming product batches into chunks of at most BATCH_SIZE
  */
-function prescanIdentities(products: ParsedFeedProduct[]): {
-  winningRows: Map<number, ProductWithIdentity>
-  totalDuplicates: number
-  totalUrlHashFallbacks: number
-} {
-  // Track last occurrence of each identity (identityKey -> array index)
-  const lastOccurrence = new Map<string, number>()
-  // Track identity info for each index
-  const identityByIndex = new Map<number, {
-    product: ParsedFeedProduct
-    identity: ResolvedIdentity
-    identityKey: string
-    allIdentifiers: ExtractedIdentifier[]
-  }>()
-  let totalUrlHashFallbacks = 0
-
-  // First pass: identify last occurrence of each identity
-  for (let i = 0; i < products.length; i++) {
-    const product = products[i]
-    const identity = resolveIdentity(product)
-    const identityKey = `${identity.type}:${identity.value}`
-    const allIdentifiers = extractAllIdentifiers(product)
-
-    if (identity.type === 'URL_HASH') {
-      totalUrlHashFallbacks++
+async function* toChunks(
+  products: ParsedFeedProduct[] | AsyncIterable<ParsedFeedProduct[]>
+): AsyncGenerator<ParsedFeedProduct[]> {
+  const batches = Array.isArray(products) ? [products] : products
+  for await (const batch of batches) {
+    for (let i = 0; i < batch.length; i += BATCH_SIZE) {
+      yield batch.slice(i, i + BATCH_SIZE)
     }
-
-    // Always update - "last row wins"
-    lastOccurrence.set(identityKey, i)
-    identityByIndex.set(i, { product, identity, identityKey, allIdentifiers })
   }
-
-  // Second pass: build winning rows map (only indices that are the last occurrence)
-  const winningRows = new Map<number, ProductWithIdentity>()
-  const winningIdentities = new Set<string>()
-
-  for (const [identityKey, winningIndex] of lastOccurrence) {
-    const info = identityByIndex.get(winningIndex)!
-    winningRows.set(winningIndex, {
-      product: info.product,
-      identity: info.identity,
-      identityKey: info.identityKey,
-      allIdentifiers: info.allIdentifiers,
-    })
-    winningIdentities.add(identityKey)
-  }
-
-  // Count duplicates: total rows - unique identities
-  const totalDuplicates = products.length - winningIdentities.size
-
-  return { winningRows, totalDuplicates, totalUrlHashFallbacks }
 }
 
 /**
- * Filter a chunk to only include winning rows
+ * Resolve identities for a chunk and apply "last row wins"
  *
- * Per spec §4.2.2: "Last row wins" - only process rows that are the last
- * occurrence of their identity across the entire feed.
+ * Per spec §4.2.2: when an identity appears more than once in the chunk, only
+ * its last occurrence is kept. An identity already processed in an earlier
+ * chunk is kept too and returned in `repeated`: processing it again lets the
+ * later row win for the stored product, and the caller suppresses its alerts.
  *
- * @param chunk - Products in this chunk
- * @param chunkStart - Starting index of this chunk in the full products array
- * @param winningRows - Map of array index -> ProductWithIdentity from prescan
+ * @param seenIdentities - identity keys of earlier chunks; updated in place
+ * @returns Winning rows in feed order, with duplicate and URL-hash counts
  */
-function filterToWinningRows(
+function dedupeChunk(
   chunk: ParsedFeedProduct[],
-  chunkStart: number,
-  winningRows: Map<number, ProductWithIdentity>
-): ProductWithIdentity[] {
-  const result: ProductWithIdentity[] = []
+  network: AffiliateNetwork,
+  seenIdentities: Set<string>
+): {
+  rows: ProductWithIdentity[]
+  repeated: Set<string>
+  duplicates: number
+  urlHashFallbacks: number
+} {
+  // identityKey -> last occurrence; re-inserting keeps feed order of last occurrences
+  const lastOccurrence = new Map<string, { product: ParsedFeedProduct; identity: ResolvedIdentity }>()
+  let urlHashFallbacks = 0
 
-  for (let i = 0; i < chunk.length; i++) {
-    const globalIndex = chunkStart + i
-    const winning = winningRows.get(globalIndex)
+  for (const product of chunk) {
+    const identity = resolveIdentity(product)
+    const identityKey = `${identity.type}:${identity.value}`
+    if (identity.type === 'URL_HASH') {
+      urlHashFallbacks++
+    }
+    lastOccurrence.delete(identityKey)
+    lastOccurrence.set(identityKey, { product, identity })
+  }
 
-    if (winning) {
-      result.push(winning)
+  const rows: ProductWithIdentity[] = []
+  const repeated = new Set<string>()
+  for (const [identityKey, { product, identity }] of lastOccurrence) {
+    if (seenIdentities.has(identityKey)) {
+      repeated.add(identityKey)
+    } else {
+      seenIdentities.add(identityKey)
     }
-    // Non-winning rows are silently skipped (they're duplicates)
+    rows.push({ product, identity, identityKey, allIdentifiers: extractAllIdentifiers(product, network) })
   }
 
-  return result
+  // Duplicates: rows beyond the first occurrence of each identity in the run
+  return { rows, repeated, duplicates: chunk.length - lastOccurrence.size + repeated.size, urlHashFallbacks }
 }
 
 /**
@@ -1336,6 +1343,48 @@ async function batchRecordSeen(
   `
 }
 
+/**
+ * Apply explicit DELETE rows
+ *
+ * Looks the products up by any identifier (never creates them), ends their
+ * presence so they drop out of the active set immediately rather than after
+ * expiryHours, and records an out-of-stock price so consumers stop seeing the
+ * last in-stock offer. A later run that sees the product again restores it.
+ *
+ * @returns Number of existing products removed
+ */
+async function batchRemoveProducts(
+  sourceId: string,
+  runId: string,
+  removals: ProductWithIdentity[],
+  t0: Date
+): Promise<number> {
+  // DELETE rows may omit the URL - only look up by identifiers the row carries
+  const lookups = removals.flatMap(({ product, allIdentifiers }) =>
+    allIdentifiers.filter((id) => product.url || (id.idType !== 'URL_HASH' && id.idType !== 'URL'))
+  )
+  if (lookups.length === 0) return 0
+
+  const matches = await prisma.$queryRaw<Array<{ sourceProductId: string }>>`
+    SELECT DISTINCT spi."sourceProductId"
+    FROM source_product_identifiers spi
+    JOIN source_products sp ON sp.id = spi."sourceProductId"
+    WHERE sp."sourceId" = ${sourceId}
+      AND (spi."idType"::text, spi."idValue", spi."namespace") IN (
+        SELECT
+          unnest(${lookups.map((id) => id.idType)}::text[]),
+          unnest(${lookups.map((id) => id.idValue)}::text[]),
+          unnest(${lookups.map((id) => id.namespace)}::text[])
+      )
+  `
+  const sourceProductIds = matches.map((m) => m.sourceProductId)
+  if (sourceProductIds.length === 0) return 0
+
+  await removeSourceProducts(sourceProductIds, runId, t0)
+
+  return sourceProductIds.length
+}
+
 /**
  * Batch fetch last prices for source products
  * Per spec §4.2.1: Uses DISTINCT ON for efficient single-query fetch
@@ -1461,6 +1510,7 @@ function decidePriceWrites(
   const pricesToWrite: NewPriceRecord[] = []
   const priceChanges: AffiliatePriceChange[] = []
   const stockChanges: AffiliateStockChange[] = []
+  const newOffers: AffiliateNewOffer[] = []
 
   // Per affiliate-feed-alerts-v1 spec: Track skip reasons for observability
   const alertSkips: AlertDetectionSkips = {
@@ -1548,6 +1598,10 @@ function decidePriceWrites(
           break
         case 'NEW_PRODUCT':
           // New products are expected, don't count as skips
+          // In-stock new offers are still evaluated against saved searches
+          if (productId && product.inStock === true) {
+            newOffers.push({ productId, sourceProductId })
+          }
           break
         case 'CURRENCY_MISMATCH':
           alertSkips.currencyMismatch++
@@ -1579,7 +1633,7 @@ function decidePriceWrites(
     })
   }
 
-  return { pricesToWrite, priceChanges, stockChanges, alertSkips }
+  return { pricesToWrite, priceChanges, stockChanges, newOffers, alertSkips }
 }
 
 /**
@@ -1659,21 +1713,24 @@ async function bulkInsertPrices(
 }
 
 /**
- * Queue affiliate alerts for price drops and back-in-stock events
+ * Queue affiliate alerts for price drops, back-in-stock events and new offers
  * Per affiliate-feed-alerts-v1 spec §4
  *
  * @param priceChanges - Price drop changes to alert
  * @param stockChanges - Back-in-stock changes to alert
+ * @param newOffers - New in-stock offers (saved search evaluation only)
  * @param runId - Affiliate feed run ID for traceability
  * @returns Counts of enqueued alerts
  */
 async function queueAffiliateAlerts(
   priceChanges: AffiliatePriceChange[],
   stockChanges: AffiliateStockChange[],
+  newOffers: AffiliateNewOffer[],
   runId: string
-): Promise<{ priceDropsEnqueued: number; backInStockEnqueued: number }> {
+): Promise<{ priceDropsEnqueued: number; backInStockEnqueued: number; newOffersEnqueued: number }> {
   let priceDropsEnqueued = 0
   let backInStockEnqueued = 0
+  let newOffersEnqueued = 0
 
   // Queue price drop alerts
   for (const change of priceChanges) {
@@ -1722,5 +1779,27 @@ async function queueAffiliateAlerts(
     }
   }
 
-  return { priceDropsEnqueued, backInStockEnqueued }
+  // Queue new offer evaluations (one per product; no prices so SKU rules stay silent)
+  const newOfferProductIds = new Set(newOffers.map((offer) => offer.productId))
+  for (const productId of newOfferProductIds) {
+    try {
+      const jobData: AlertJobData = {
+        executionId: runId,
+        productId,
+      }
+      await alertQueue.add('NEW_PRODUCT', jobData)
+      newOffersEnqueued++
+    } catch (err) {
+      log.error('AFFILIATE_ALERTS_QUEUE_FAILED', {
+        event_name: 'AFFILIATE_ALERTS_QUEUE_FAILED',
+        runId,
+        alertType: 'NEW_PRODUCT',
+        productId,
+        error: err instanceof Error ? err.message : String(err),
+      })
+      // Continue - alerts are best-effort per spec
+    }
+  }
+
+  return { priceDropsEnqueued, backInStockEnqueued, newOffersEnqueued }
 }
@@ -0,0 +1,44 @@
+/**
+ * Affiliate Product Removal
+ *
+ * Ends presence for source products that left a feed and carries their last
+ * price forward as out of stock. Shared by explicit DELETE rows (processor.ts)
+ * and FULL-run delta reconciliation (circuit-breaker.ts), so a product leaves
+ * the catalog the same way whichever path removes it.
+ */
+
+import { prisma } from '@ironscout/db'
+
+/**
+ * End presence and record an out-of-stock price (only where the last price
+ * was in stock) so consumers stop seeing the last offer
+ */
+export async function removeSourceProducts(sourceProductIds: string[], runId: string, t0: Date): Promise<void> {
+  if (sourceProductIds.length === 0) return
+
+  await prisma.$executeRaw`
+    UPDATE source_product_presence
+    SET "lastSeenSuccessAt" = NULL, "updatedAt" = ${t0}
+    WHERE "sourceProductId" = ANY(${sourceProductIds}::text[])
+  `
+
+  await prisma.$executeRaw`
+    INSERT INTO prices (
+      "id", "sourceProductId", "productId", "retailerId", "price", "currency", "url",
+      "inStock", "originalPrice", "priceType", "affiliateFeedRunId", "priceSignatureHash",
+      "createdAt", "observedAt", "ingestionRunType", "ingestionRunId"
+    )
+    SELECT
+      gen_random_uuid(), last."sourceProductId", last."productId", last."retailerId", last."price",
+      last."currency", last."url", false, last."originalPrice", last."priceType", ${runId},
+      last."priceSignatureHash", ${t0}, ${t0}, 'AFFILIATE_FEED'::"IngestionRunType", ${runId}
+    FROM (
+      SELECT DISTINCT ON ("sourceProductId") *
+      FROM prices
+      WHERE "sourceProductId" = ANY(${sourceProductIds}::text[])
+      ORDER BY "sourceProductId", "createdAt" DESC
+    ) last
+    WHERE last."inStock" = true
+    ON CONFLICT DO NOTHING
+  `
+}
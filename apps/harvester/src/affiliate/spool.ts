@@ -0,0 +1,95 @@
+/**
+ * Affiliate Feed Download Spool
+ *
+ * Downloads are written to a temp file as they arrive instead of being
+ * collected in memory. The spool hashes and counts the bytes on the way
+ * through, so change detection needs no second pass over the file, and
+ * enforces the feed's max file size while the transfer is still running.
+ *
+ * Spool files live in AFFILIATE_FEED_SPOOL_DIR (default: the OS temp dir).
+ * The fetcher removes them on failure and on unchanged-hash skips; the worker
+ * removes them once the feed has been parsed.
+ */
+
+import { Writable } from 'stream'
+import { createWriteStream, mkdirSync, WriteStream } from 'fs'
+import { rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createHash, Hash, randomUUID } from 'crypto'
+
+/**
+ * Directory for in-flight feed downloads
+ */
+export function getSpoolDir(): string {
+  return process.env.AFFILIATE_FEED_SPOOL_DIR || join(tmpdir(), 'ironscout-affiliate-feeds')
+}
+
+/**
+ * Writable that spools a download to disk, hashing and counting as it goes
+ */
+export class DownloadSpool extends Writable {
+  readonly filePath: string
+  /** Bytes written so far */
+  bytes = 0
+  /** Set when the download was aborted for exceeding maxFileSize */
+  limitExceeded = false
+
+  private readonly file: WriteStream
+  private readonly hash: Hash = createHash('sha256')
+
+  constructor(feedId: string, private readonly maxFileSize: number) {
+    super()
+    const dir = getSpoolDir()
+    mkdirSync(dir, { recursive: true })
+    this.filePath = join(dir, `${feedId}-${randomUUID()}`)
+    this.file = createWriteStream(this.filePath)
+    this.file.on('error', (err) => this.destroy(err))
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.bytes += chunk.length
+    if (this.bytes > this.maxFileSize) {
+      this.limitExceeded = true
+      callback(new Error(`Download exceeded max file size: ${this.maxFileSize}`))
+      return
+    }
+    this.hash.update(chunk)
+    if (this.file.write(chunk)) {
+      callback()
+    } else {
+      this.file.once('drain', () => callback())
+    }
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.file.end(() => callback())
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.file.destroy()
+    callback(error)
+  }
+
+  /**
+   * SHA-256 of the spooled bytes (call once, after the spool has finished)
+   */
+  digest(): string {
+    return this.hash.digest('hex')
+  }
+
+  /**
+   * Discard the spool file
+   */
+  async remove(): Promise<void> {
+    if (!this.destroyed) this.destroy()
+    await removeSpoolFile(this.filePath)
+  }
+}
+
+/**
+ * Delete a spool file (missing files are ignored)
+ */
+export async function removeSpoolFile(filePath: string): Promise<void> {
+  await rm(filePath, { force: true })
+}
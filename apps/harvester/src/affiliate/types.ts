@@ -43,18 +43,50 @@ export interface FeedRunContext {
 }
 
 /**
- * Result of FTP/SFTP download
+ * Result of FTP/SFTP/HTTPS download
  */
 export interface DownloadResult {
-  content: Buffer
+  /**
+   * Spool file holding the body as transferred - still compressed for
+   * GZIP/ZIP/BZIP2 feeds. Set only when not skipped; the caller removes it.
+   */
+  filePath: string | null
+  /** Bytes transferred (0 when skipped before downloading) */
+  contentBytes: number
   mtime: Date | null
   size: bigint
+  /** SHA-256 of the transferred bytes */
   contentHash: string
+  /** HTTP ETag of the response (HTTPS / SIGNED_URL only) */
+  etag?: string | null
   skipped: boolean
   /** Reason for skipping processing (run completes as SUCCEEDED, not FAILED) */
   skippedReason?: 'UNCHANGED_HASH' | 'UNCHANGED_MTIME' | 'FILE_NOT_FOUND'
 }
 
+/**
+ * Decrypted credentials for HTTPS / SIGNED_URL feeds.
+ * Stored as encrypted JSON in affiliate_feeds.secretCiphertext
+ * (FTP/SFTP feeds store the plain password instead).
+ */
+export interface HttpFeedCredentials {
+  /** BASIC auth password (username is affiliate_feeds.username) */
+  password?: string
+  /** BEARER auth token */
+  token?: string
+  /** Extra request headers, e.g. { 'X-Api-Key': '...' } */
+  headers?: Record<string, string>
+  /** SIGNED_URL only: full pre-signed URL including signature query params */
+  signedUrl?: string
+}
+
+/**
+ * Row-level change marker in DELTA feeds
+ * - UPSERT: add or update the product (default for rows without a marker)
+ * - DELETE: the product was removed from the catalog
+ */
+export type DeltaAction = 'UPSERT' | 'DELETE'
+
 /**
  * Parsed product from feed
  */
@@ -66,6 +98,10 @@ export interface ParsedFeedProduct {
   inStock: boolean
 
   // Identity fields (priority: impactItemId > sku > upc > urlHash)
+  /**
+   * Network item ID (Impact CatalogItemId, CJ catalog item id, Rakuten product_id).
+   * Stored as a NETWORK_ITEM_ID identifier namespaced by the feed's network.
+   */
   impactItemId?: string
   sku?: string
   upc?: string
@@ -81,18 +117,33 @@ export interface ParsedFeedProduct {
   grainWeight?: number
   roundCount?: number
 
+  /**
+   * Explicit change marker (operation/action/modification column).
+   * DELETE rows only need an identity; name and price may be blank.
+   */
+  deltaAction?: DeltaAction
+
   // Raw row number for error reporting
   rowNumber: number
 }
 
 /**
- * Result of parsing the feed
+ * Row counters and errors from parsing the feed
  */
-export interface ParseResult {
-  products: ParsedFeedProduct[]
+export interface ParseSummary {
+  /** Rows decoded; never more than maxRows */
   rowsRead: number
   rowsParsed: number
   errors: ParseError[]
+  /** The feed had more than maxRows rows; decoding stopped at the limit */
+  truncated: boolean
+}
+
+/**
+ * Result of parsing the feed
+ */
+export interface ParseResult extends ParseSummary {
+  products: ParsedFeedProduct[]
 }
 
 /**
@@ -114,6 +165,8 @@ export interface ProcessorResult {
   productsRejected: number
   duplicateKeyCount: number
   urlHashFallbackCount: number
+  /** Products removed by explicit DELETE rows */
+  productsDeleted: number
   errors: ParseError[]
 }
 
@@ -126,6 +179,15 @@ export interface CircuitBreakerResult {
   metrics: CircuitBreakerMetrics
 }
 
+/**
+ * Result of FULL-run delta reconciliation
+ */
+export interface ReconcileResult {
+  productsExpired: number
+  /** Set when removal would have tripped the circuit breaker (nothing was removed) */
+  blockedReason?: 'SPIKE_THRESHOLD_EXCEEDED'
+}
+
 /**
  * Metrics computed by circuit breaker
  */
@@ -26,11 +26,14 @@ import {
 } from '@ironscout/notifications'
 import { acquireAdvisoryLock, releaseAdvisoryLock } from './lock'
 import { downloadFeed } from './fetcher'
-import { parseFeed } from './parser'
+import { openFeedContent } from './decompress'
+import type { FeedContentStream } from './decompress'
+import { removeSpoolFile } from './spool'
+import { parseFeedBatches } from './parser'
 import { processProducts } from './processor'
-import { evaluateCircuitBreaker, promoteProducts, copySeenFromPreviousRun } from './circuit-breaker'
+import { evaluateCircuitBreaker, promoteProducts, copySeenFromPreviousRun, reconcileFullRun } from './circuit-breaker'
 import { AffiliateFeedError, FAILURE_KIND, ERROR_CODES } from './types'
-import type { FeedRunContext, RunStatus, FailureKind, ErrorCode } from './types'
+import type { FeedRunContext, RunStatus, FailureKind, ErrorCode, ParseSummary, ProcessorResult } from './types'
 
 const moduleLog = logger.affiliate
 
@@ -383,8 +386,11 @@ async function processAffiliateFeedJob(job: Job<AffiliateFeedJobData>): Promise<
     })
 
     if (result.skipped) {
+      // An unchanged delta file carries no changes - replaying its rows would
+      // re-promote products a later FULL run may have reconciled away
       const shouldRefreshFromPreviousRun =
-        result.skippedReason === 'UNCHANGED_HASH' || result.skippedReason === 'UNCHANGED_MTIME'
+        (result.skippedReason === 'UNCHANGED_HASH' || result.skippedReason === 'UNCHANGED_MTIME') &&
+        feed.variant !== 'DELTA'
       if (shouldRefreshFromPreviousRun) {
         const previousRun = await prisma.affiliate_feed_runs.findFirst({
           where: {
@@ -425,6 +431,7 @@ async function processAffiliateFeedJob(job: Job<AffiliateFeedJobData>): Promise<
                 productsRejected: previousRun.productsRejected ?? 0,
                 duplicateKeyCount: previousRun.duplicateKeyCount ?? 0,
                 urlHashFallbackCount: previousRun.urlHashFallbackCount ?? 0,
+                productsDeleted: 0,
                 errorCount: 0,
               },
             }
@@ -494,12 +501,13 @@ async function processAffiliateFeedJob(job: Job<AffiliateFeedJobData>): Promise<
         runId: run.id,
         durationMs: phase2Duration,
         productsPromoted: phase2Result.productsPromoted,
+        productsExpired: phase2Result.productsExpired,
         circuitBreakerBlocked: phase2Result.circuitBreakerBlocked,
       })
 
-      // Check for processing failure
+      // Check for processing failure (a delta of only deletes saves no products)
       const isProcessingFailure =
-        result.metrics.rowsRead > 0 && result.metrics.productsUpserted === 0
+        result.metrics.rowsRead > 0 && result.metrics.productsUpserted === 0 && result.metrics.productsDeleted === 0
 
       if (isProcessingFailure) {
         const failureReason =
@@ -537,6 +545,7 @@ async function processAffiliateFeedJob(job: Job<AffiliateFeedJobData>): Promise<
         await finalizeRun(context, 'SUCCEEDED', {
           ...result.metrics,
           productsPromoted: phase2Result.productsPromoted,
+          productsExpired: phase2Result.productsExpired,
           changeDetection: result.changeDetection,
         }, log)
       }
@@ -650,6 +659,9 @@ interface Phase1Result {
   skippedReason?: string
   metrics: {
     downloadBytes: number
+    /** Set when the feed is compressed (equals downloadBytes) */
+    compressedBytes?: number
+    uncompressedBytes?: number
     rowsRead: number
     rowsParsed: number
     productsUpserted: number
@@ -657,12 +669,14 @@ interface Phase1Result {
     productsRejected: number
     duplicateKeyCount: number
     urlHashFallbackCount: number
+    productsDeleted: number
     errorCount: number
   }
   changeDetection?: {
     mtime: Date | null
     size: bigint
     contentHash: string
+    etag: string | null
   }
 }
 
@@ -682,22 +696,44 @@ async function executePhase1(context: FeedRunContext, log: typeof moduleLog): Pr
       metrics: {
         downloadBytes: 0, rowsRead: 0, rowsParsed: 0, productsUpserted: 0,
         pricesWritten: 0, productsRejected: 0, duplicateKeyCount: 0,
-        urlHashFallbackCount: 0, errorCount: 0,
+        urlHashFallbackCount: 0, productsDeleted: 0, errorCount: 0,
       },
     }
   }
 
-  log.info('Parsing feed', { feedId: feed.id, bytes: downloadResult.content.length })
-  if (feed.format !== 'CSV') {
-    throw new Error(`Unsupported format: ${feed.format}. Only CSV is supported in v1.`)
+  log.info('Parsing and processing feed', { feedId: feed.id, bytes: downloadResult.contentBytes, compression: feed.compression })
+  // The download is spooled to disk, decompression streams into the parser and
+  // the parser yields product batches to the processor, so neither the feed nor
+  // its parsed products are ever held in memory as a whole
+  let feedContent: FeedContentStream
+  let parseResult: ParseSummary
+  let processResult: ProcessorResult
+  try {
+    feedContent = await openFeedContent(downloadResult.filePath!, feed)
+    const parse = parseFeedBatches(feedContent.stream, feed.format, feed.maxRowCount || 500000, {
+      feedId: feed.id,
+      network: feed.network,
+    })
+    try {
+      processResult = await processProducts(context, parse.batches)
+    } catch (err) {
+      // A decode error on a truncated stream is a symptom of corrupt compressed data
+      throw feedContent.error ?? err
+    }
+    parseResult = parse.summary
+  } finally {
+    await removeSpoolFile(downloadResult.filePath!)
   }
-  const parseResult = await parseFeed(
-    downloadResult.content.toString('utf-8'),
-    feed.format,
-    feed.maxRowCount || 500000,
-    feed.id
-  )
-  log.debug('Parse complete', { rowsRead: parseResult.rowsRead, rowsParsed: parseResult.rowsParsed })
+  // Corrupt compressed data truncates the stream - fail the run so the partial
+  // feed is never promoted or reconciled in Phase 2
+  if (feedContent.error) throw feedContent.error
+  log.debug('Parse complete', {
+    rowsRead: parseResult.rowsRead,
+    rowsParsed: parseResult.rowsParsed,
+    truncated: parseResult.truncated,
+    entryName: feedContent.entryName,
+    uncompressedBytes: feedContent.uncompressedBytes,
+  })
 
   if (parseResult.errors.length > 0) {
     log.debug('Recording parse errors', { count: parseResult.errors.length })
@@ -713,14 +749,12 @@ async function executePhase1(context: FeedRunContext, log: typeof moduleLog): Pr
     })
   }
 
-  log.info('Processing products', { feedId: feed.id, count: parseResult.products.length })
-  const processResult = await processProducts(context, parseResult.products)
-
   log.info('PHASE1_PROCESS_OK', {
     feedId: feed.id,
     productsUpserted: processResult.productsUpserted,
     pricesWritten: processResult.pricesWritten,
     productsRejected: processResult.productsRejected,
+    productsDeleted: processResult.productsDeleted,
     errorCount: parseResult.errors.length + processResult.errors.length,
   })
 
@@ -740,7 +774,9 @@ async function executePhase1(context: FeedRunContext, log: typeof moduleLog): Pr
   return {
     skipped: false,
     metrics: {
-      downloadBytes: downloadResult.content.length,
+      downloadBytes: downloadResult.contentBytes,
+      compressedBytes: feed.compression !== 'NONE' ? downloadResult.contentBytes : undefined,
+      uncompressedBytes: feedContent.uncompressedBytes,
       rowsRead: parseResult.rowsRead,
       rowsParsed: parseResult.rowsParsed,
       productsUpserted: processResult.productsUpserted,
@@ -748,23 +784,27 @@ async function executePhase1(context: FeedRunContext, log: typeof moduleLog): Pr
       productsRejected: processResult.productsRejected,
       duplicateKeyCount: processResult.duplicateKeyCount,
       urlHashFallbackCount: processResult.urlHashFallbackCount,
+      productsDeleted: processResult.productsDeleted,
       errorCount: parseResult.errors.length + processResult.errors.length,
     },
     changeDetection: {
       mtime: downloadResult.mtime,
       size: downloadResult.size,
       contentHash: downloadResult.contentHash,
+      etag: downloadResult.etag ?? null,
     },
   }
 }
 
 interface Phase2Result {
   productsPromoted: number
+  /** Products ended by FULL-run delta reconciliation */
+  productsExpired?: number
   circuitBreakerBlocked: boolean
 }
 
 /**
- * Phase 2: Circuit Breaker → Promote (update lastSeenSuccessAt)
+ * Phase 2: Circuit Breaker → Promote (update lastSeenSuccessAt) → Reconcile deltas
  */
 async function executePhase2(
   context: FeedRunContext,
@@ -784,7 +824,8 @@ async function executePhase2(
     : await evaluateCircuitBreaker(
         run.id, feed.id, feed.expiryHours, t0,
         phase1Result.metrics.urlHashFallbackCount,
-        phase1Result.metrics.productsUpserted
+        phase1Result.metrics.productsUpserted,
+        feed.variant
       )
 
   await prisma.affiliate_feed_runs.update({
@@ -818,6 +859,37 @@ async function executePhase2(
   const productsPromoted = await promoteProducts(run.id, t0)
   log.info('Promotion complete', { feedId: feed.id, productsPromoted })
 
+  // A freshly downloaded FULL file is the source of truth for sources that
+  // also receive deltas (refresh runs replay old rows, so they never reconcile)
+  if (feed.variant === 'FULL' && phase1Result.changeDetection) {
+    const deltaFeedCount = await prisma.affiliate_feeds.count({
+      where: { sourceId: feed.sourceId, variant: 'DELTA' },
+    })
+    if (deltaFeedCount > 0) {
+      const mtime = phase1Result.changeDetection.mtime
+      const snapshotAt = mtime && mtime < t0 ? mtime : t0
+      const { productsExpired, blockedReason } = await reconcileFullRun(
+        run.id, feed.sourceId, feed.expiryHours, t0, snapshotAt
+      )
+      if (blockedReason) {
+        // Promotion stands; only the reconciliation removals were held back
+        await prisma.affiliate_feed_runs.update({
+          where: { id: run.id },
+          data: { expiryBlocked: true, expiryBlockedReason: blockedReason },
+        })
+      }
+      log.info('DELTA_DRIFT_RECONCILED', {
+        feedId: feed.id,
+        runId: run.id,
+        phase: 'reconcile',
+        productsExpired,
+        blockedReason,
+        snapshotAt: snapshotAt.toISOString(),
+      })
+      return { productsPromoted, productsExpired, circuitBreakerBlocked: false }
+    }
+  }
+
   return { productsPromoted, circuitBreakerBlocked: false }
 }
 
@@ -839,12 +911,16 @@ async function finalizeRun(
     data: {
       status, finishedAt, durationMs,
       downloadBytes: metrics.downloadBytes as bigint | undefined,
+      compressedBytes: metrics.compressedBytes as bigint | undefined,
+      uncompressedBytes: metrics.uncompressedBytes as bigint | undefined,
       rowsRead: metrics.rowsRead as number | undefined,
       rowsParsed: metrics.rowsParsed as number | undefined,
       productsUpserted: metrics.productsUpserted as number | undefined,
       pricesWritten: metrics.pricesWritten as number | undefined,
       productsPromoted: metrics.productsPromoted as number | undefined,
       productsRejected: metrics.productsRejected as number | undefined,
+      productsDeleted: metrics.productsDeleted as number | undefined,
+      productsExpired: metrics.productsExpired as number | undefined,
       duplicateKeyCount: metrics.duplicateKeyCount as number | undefined,
       urlHashFallbackCount: metrics.urlHashFallbackCount as number | undefined,
       errorCount: metrics.errorCount as number | undefined,
@@ -865,11 +941,14 @@ async function finalizeRun(
     // Note: nextRunAt is managed by the scheduler when claiming the feed.
     // We don't update it here to preserve the configured schedule offset.
     // This ensures feeds run at consistent times (e.g., every 6h at X:30).
-    const changeDetection = metrics.changeDetection as { mtime: Date | null; size: bigint; contentHash: string } | undefined
+    const changeDetection = metrics.changeDetection as
+      | { mtime: Date | null; size: bigint; contentHash: string; etag: string | null }
+      | undefined
     if (changeDetection) {
       updateData.lastRemoteMtime = changeDetection.mtime
       updateData.lastRemoteSize = changeDetection.size
       updateData.lastContentHash = changeDetection.contentHash
+      updateData.lastRemoteEtag = changeDetection.etag
     }
     if (wasRecovery) {
       notifyAffiliateFeedRecovered(
@@ -0,0 +1,264 @@
+/**
+ * Alert Delivery Channel Tests
+ *
+ * Fan-out to the watchlist item's channels, per-channel delivery rows and the
+ * throw/resolve contract the two-phase claim relies on.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  users: {
+    findUnique: vi.fn(),
+  },
+  user_push_subscriptions: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  user_webhooks: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  alert_deliveries: {
+    createMany: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+  },
+}))
+
+const mockNotifications = vi.hoisted(() => ({
+  sendWebPush: vi.fn(),
+  sendSms: vi.fn(),
+  sendWebhook: vi.fn(),
+}))
+
+vi.mock('@ironscout/db', () => ({
+  prisma: mockPrisma,
+}))
+
+vi.mock('@ironscout/notifications', () => mockNotifications)
+
+vi.mock('../../config/logger', () => ({
+  logger: {
+    alerter: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    },
+  },
+}))
+
+import {
+  AlertDeliveryError,
+  MAX_FAILED_ROUNDS,
+  deliverAlert,
+  formatAlertText,
+  summarizeAttempts,
+  type AlertMessage,
+  type ChannelSender,
+} from '../delivery'
+
+const message: AlertMessage = {
+  alertId: 'alert_1',
+  userId: 'user_1',
+  watchlistItemId: 'wi_1',
+  productId: 'prod_1',
+  productName: 'Federal 9mm 115gr FMJ',
+  ruleType: 'PRICE_DROP',
+  reason: 'Price dropped from $20 to $15',
+  currentPrice: 14.5,
+  retailerName: 'Ammo Depot',
+  retailerUrl: 'https://ammodepot.example/p/1',
+  productUrl: 'https://ironscout.ai/products/prod_1',
+}
+
+const sentEmail: ChannelSender = async () => [{ channel: 'EMAIL', status: 'SENT' }]
+const failedEmail: ChannelSender = async () => [{ channel: 'EMAIL', status: 'FAILED', error: 'resend down' }]
+
+describe('deliverAlert', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.alert_deliveries.createMany.mockResolvedValue({ count: 0 })
+    mockPrisma.alert_deliveries.findFirst.mockResolvedValue(null)
+    mockPrisma.alert_deliveries.findMany.mockResolvedValue([{ claimKey: 'claim_1' }])
+    mockPrisma.user_push_subscriptions.findMany.mockResolvedValue([])
+    mockPrisma.user_webhooks.findMany.mockResolvedValue([])
+    mockPrisma.users.findUnique.mockResolvedValue({ smsPhoneNumber: null, smsOptInAt: null })
+  })
+
+  it('records one delivery row per attempt with the claim key', async () => {
+    mockPrisma.user_webhooks.findMany.mockResolvedValue([
+      { id: 'wh_1', url: 'https://discord.com/api/webhooks/1', secret: 's1' },
+    ])
+    mockNotifications.sendWebhook.mockResolvedValue({ success: true, statusCode: 204 })
+
+    const attempts = await deliverAlert(message, ['EMAIL', 'WEBHOOK'], 'claim_1', { EMAIL: sentEmail })
+
+    expect(attempts).toEqual([
+      { channel: 'EMAIL', status: 'SENT' },
+      { channel: 'WEBHOOK', status: 'SENT', targetId: 'wh_1' },
+    ])
+    const rows = mockPrisma.alert_deliveries.createMany.mock.calls[0][0].data
+    expect(rows).toHaveLength(2)
+    expect(rows[1]).toMatchObject({
+      alertId: 'alert_1',
+      watchlistItemId: 'wi_1',
+      ruleType: 'PRICE_DROP',
+      channel: 'WEBHOOK',
+      status: 'SENT',
+      claimKey: 'claim_1',
+      targetId: 'wh_1',
+    })
+  })
+
+  it('only uses the channels selected on the item', async () => {
+    const emailSender = vi.fn(sentEmail)
+
+    await deliverAlert(message, ['SMS'], 'claim_1', { EMAIL: emailSender })
+
+    expect(emailSender).not.toHaveBeenCalled()
+    expect(mockPrisma.users.findUnique).toHaveBeenCalled()
+  })
+
+  it('resolves on partial success so the claim is committed', async () => {
+    mockPrisma.users.findUnique.mockResolvedValue({
+      smsPhoneNumber: '+15551234567',
+      smsOptInAt: new Date(),
+      smsVerifiedAt: new Date(),
+    })
+    mockNotifications.sendSms.mockResolvedValue({ success: false, error: 'carrier rejected' })
+
+    const attempts = await deliverAlert(message, ['EMAIL', 'SMS'], 'claim_1', { EMAIL: sentEmail })
+
+    expect(summarizeAttempts(attempts)).toEqual({ EMAIL: 'SENT', SMS: 'FAILED' })
+  })
+
+  it('throws AlertDeliveryError when nothing was sent and a channel failed', async () => {
+    await expect(
+      deliverAlert(message, ['EMAIL', 'WEB_PUSH'], 'claim_1', { EMAIL: failedEmail })
+    ).rejects.toBeInstanceOf(AlertDeliveryError)
+
+    // Failures are still recorded before the claim is released
+    expect(mockPrisma.alert_deliveries.createMany).toHaveBeenCalled()
+  })
+
+  it('gives up after repeated failed rounds so the claim is committed', async () => {
+    const lastSentAt = new Date('2026-10-01T00:00:00Z')
+    mockPrisma.alert_deliveries.findFirst.mockResolvedValue({ createdAt: lastSentAt })
+    mockPrisma.alert_deliveries.findMany.mockResolvedValue(
+      Array.from({ length: MAX_FAILED_ROUNDS }, (_, i) => ({ claimKey: `claim_${i}` }))
+    )
+
+    const attempts = await deliverAlert(message, ['EMAIL'], 'claim_2', { EMAIL: failedEmail })
+
+    expect(summarizeAttempts(attempts)).toEqual({ EMAIL: 'FAILED' })
+    // Only failures since the alert last reached the user count, one per claim
+    expect(mockPrisma.alert_deliveries.findMany).toHaveBeenCalledWith({
+      where: { alertId: 'alert_1', status: 'FAILED', createdAt: { gt: lastSentAt } },
+      distinct: ['claimKey'],
+      select: { claimKey: true },
+    })
+  })
+
+  it('keeps retrying when the delivery history cannot be read', async () => {
+    mockPrisma.alert_deliveries.findMany.mockRejectedValue(new Error('db down'))
+
+    await expect(
+      deliverAlert(message, ['EMAIL'], 'claim_1', { EMAIL: failedEmail })
+    ).rejects.toBeInstanceOf(AlertDeliveryError)
+  })
+
+  it('resolves when every channel was skipped', async () => {
+    const attempts = await deliverAlert(message, ['WEB_PUSH', 'SMS', 'WEBHOOK'], 'claim_1')
+
+    expect(attempts.map((a) => a.status)).toEqual(['SKIPPED', 'SKIPPED', 'SKIPPED'])
+  })
+
+  it('turns a thrown sender error into a FAILED attempt', async () => {
+    const throwing: ChannelSender = async () => {
+      throw new Error('boom')
+    }
+
+    const attempts = await deliverAlert(message, ['EMAIL', 'WEBHOOK'], 'claim_1', {
+      EMAIL: throwing,
+      WEBHOOK: async () => [{ channel: 'WEBHOOK', status: 'SENT', targetId: 'wh_1' }],
+    })
+
+    expect(attempts[0]).toEqual({ channel: 'EMAIL', status: 'FAILED', error: 'boom' })
+  })
+
+  it('deletes push subscriptions the push service reports as expired', async () => {
+    mockPrisma.user_push_subscriptions.findMany.mockResolvedValue([
+      { id: 'sub_live', endpoint: 'https://fcm.googleapis.com/a', p256dh: 'k', auth: 'a' },
+      { id: 'sub_gone', endpoint: 'https://fcm.googleapis.com/b', p256dh: 'k', auth: 'a' },
+    ])
+    mockNotifications.sendWebPush
+      .mockResolvedValueOnce({ success: true, statusCode: 201 })
+      .mockResolvedValueOnce({ success: false, statusCode: 410, expired: true })
+
+    const attempts = await deliverAlert(message, ['WEB_PUSH'], 'claim_1')
+
+    expect(attempts.map((a) => a.status)).toEqual(['SENT', 'FAILED'])
+    expect(mockPrisma.user_push_subscriptions.delete).toHaveBeenCalledWith({ where: { id: 'sub_gone' } })
+    expect(mockNotifications.sendWebPush.mock.calls[0][1]).toEqual({
+      title: 'Price drop: Federal 9mm 115gr FMJ',
+      body: 'Now $14.50 at Ammo Depot',
+      url: 'https://ironscout.ai/products/prod_1',
+    })
+  })
+
+  it('skips SMS without an opted-in number', async () => {
+    mockPrisma.users.findUnique.mockResolvedValue({ smsPhoneNumber: '+15551234567', smsOptInAt: null })
+
+    const attempts = await deliverAlert(message, ['SMS'], 'claim_1')
+
+    expect(attempts).toEqual([{ channel: 'SMS', status: 'SKIPPED', error: 'No verified phone number' }])
+    expect(mockNotifications.sendSms).not.toHaveBeenCalled()
+  })
+
+  it('skips SMS to a number that was never verified', async () => {
+    mockPrisma.users.findUnique.mockResolvedValue({
+      smsPhoneNumber: '+15551234567',
+      smsOptInAt: new Date(),
+      smsVerifiedAt: null,
+    })
+
+    const attempts = await deliverAlert(message, ['SMS'], 'claim_1')
+
+    expect(attempts).toEqual([{ channel: 'SMS', status: 'SKIPPED', error: 'No verified phone number' }])
+    expect(mockNotifications.sendSms).not.toHaveBeenCalled()
+  })
+
+  it('does not fail the send when delivery rows cannot be written', async () => {
+    mockPrisma.alert_deliveries.createMany.mockRejectedValue(new Error('db down'))
+
+    await expect(deliverAlert(message, ['EMAIL'], 'claim_1', { EMAIL: sentEmail })).resolves.toHaveLength(1)
+  })
+})
+
+describe('formatAlertText', () => {
+  it('formats back in stock alerts', () => {
+    expect(formatAlertText({ ...message, ruleType: 'BACK_IN_STOCK' })).toEqual({
+      title: 'Back in stock: Federal 9mm 115gr FMJ',
+      body: 'Now $14.50 at Ammo Depot',
+    })
+  })
+
+  it('uses the target price reason as the body', () => {
+    const reason = 'Price is $0.270/rd incl. shipping at Ammo Depot (target $0.280/rd incl. shipping)'
+    expect(formatAlertText({ ...message, ruleType: 'TARGET_PRICE', reason })).toEqual({
+      title: 'Target price reached: Federal 9mm 115gr FMJ',
+      body: reason,
+    })
+  })
+
+  it('uses the saved search reason for new matches', () => {
+    const reason = 'New match for saved search "9mm": $14.00 ($0.280/rd) at Ammo Depot'
+    expect(formatAlertText({ ...message, ruleType: 'NEW_PRODUCT', reason })).toEqual({
+      title: 'New match: Federal 9mm 115gr FMJ',
+      body: reason,
+    })
+  })
+})
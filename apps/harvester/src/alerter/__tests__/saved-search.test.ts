@@ -0,0 +1,163 @@
+/**
+ * Saved Search (SEARCH intent) Evaluation Tests
+ *
+ * Which match transitions alert (NEW_PRODUCT vs price-ceiling TARGET_PRICE),
+ * baseline rows that never alert, and paused searches.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  products: {
+    findUnique: vi.fn(),
+  },
+  watchlist_items: {
+    findMany: vi.fn(),
+  },
+  watchlist_search_matches: {
+    findMany: vi.fn(),
+    createMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}))
+
+vi.mock('@ironscout/db', () => ({
+  prisma: mockPrisma,
+}))
+
+import { evaluateSavedSearches } from '../saved-search'
+import type { TargetPriceOffer } from '../target-price'
+
+const savedAt = new Date('2026-10-01T00:00:00Z')
+
+function search(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'search-1',
+    userId: 'user-1',
+    createdAt: savedAt,
+    notificationsEnabled: true,
+    querySnapshot: {
+      version: 1,
+      filters: { caliber: ['9mm'], bulletType: ['FMJ'], maxPricePerRound: 0.3 },
+    },
+    ...overrides,
+  }
+}
+
+function product(overrides: Record<string, unknown> = {}) {
+  return {
+    createdAt: new Date('2026-09-01T00:00:00Z'),
+    caliberNorm: '9mm',
+    brand: 'Federal',
+    bulletType: 'FMJ',
+    grainWeight: 115,
+    roundCount: 50,
+    ...overrides,
+  }
+}
+
+function offer(price: number): TargetPriceOffer {
+  return {
+    retailerId: 'ret_1',
+    retailerName: 'Ammo Depot',
+    url: 'https://ammodepot.example/p/1',
+    price,
+    shippingCost: null,
+    shippingRule: null,
+    observedAt: new Date('2026-10-19T12:00:00Z'),
+  }
+}
+
+describe('evaluateSavedSearches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.watchlist_items.findMany.mockResolvedValue([search()])
+    mockPrisma.watchlist_search_matches.findMany.mockResolvedValue([])
+    mockPrisma.watchlist_search_matches.createMany.mockResolvedValue({ count: 1 })
+    mockPrisma.watchlist_search_matches.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('fires NEW_PRODUCT for a product created after the search was saved', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product({ createdAt: new Date('2026-10-19T00:00:00Z') }))
+
+    const triggers = await evaluateSavedSearches('prod_1', [offer(14)])
+
+    expect(triggers).toEqual([
+      expect.objectContaining({
+        watchlistItemId: 'search-1',
+        ruleType: 'NEW_PRODUCT',
+        reason: 'New match for saved search "9mm": $14.00 ($0.280/rd) at Ammo Depot',
+      }),
+    ])
+  })
+
+  it('fires TARGET_PRICE when an older product drops under the ceiling', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product())
+
+    const triggers = await evaluateSavedSearches('prod_1', [offer(14)])
+
+    expect(triggers).toEqual([
+      expect.objectContaining({
+        ruleType: 'TARGET_PRICE',
+        reason: 'Now matches saved search "9mm": $14.00 ($0.280/rd) at Ammo Depot (max $0.300/rd)',
+      }),
+    ])
+  })
+
+  it('does not alert for products already in the baseline', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product())
+    mockPrisma.watchlist_search_matches.findMany.mockResolvedValue([
+      { id: 'match-1', watchlistItemId: 'search-1', isMatching: true },
+    ])
+
+    await expect(evaluateSavedSearches('prod_1', [offer(14)])).resolves.toEqual([])
+    expect(mockPrisma.watchlist_search_matches.createMany).not.toHaveBeenCalled()
+  })
+
+  it('marks a match as stopped when no offer meets the ceiling', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product())
+    mockPrisma.watchlist_search_matches.findMany.mockResolvedValue([
+      { id: 'match-1', watchlistItemId: 'search-1', isMatching: true },
+    ])
+
+    await expect(evaluateSavedSearches('prod_1', [offer(17.5)])).resolves.toEqual([])
+    expect(mockPrisma.watchlist_search_matches.updateMany).toHaveBeenCalledWith({
+      where: { id: 'match-1', isMatching: true },
+      data: { isMatching: false },
+    })
+  })
+
+  it('fires again when a stopped match starts matching', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product())
+    mockPrisma.watchlist_search_matches.findMany.mockResolvedValue([
+      { id: 'match-1', watchlistItemId: 'search-1', isMatching: false },
+    ])
+
+    const triggers = await evaluateSavedSearches('prod_1', [offer(17.5), offer(14)])
+
+    expect(triggers).toEqual([expect.objectContaining({ matchId: 'match-1', ruleType: 'TARGET_PRICE' })])
+    expect(triggers[0].offer.price).toBe(14)
+  })
+
+  it('skips searches whose attribute filters reject the product', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product({ bulletType: 'JHP' }))
+
+    await expect(evaluateSavedSearches('prod_1', [offer(14)])).resolves.toEqual([])
+    expect(mockPrisma.watchlist_search_matches.findMany).not.toHaveBeenCalled()
+  })
+
+  it('records state for paused searches without alerting', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product({ createdAt: new Date('2026-10-19T00:00:00Z') }))
+    mockPrisma.watchlist_items.findMany.mockResolvedValue([search({ notificationsEnabled: false })])
+
+    await expect(evaluateSavedSearches('prod_1', [offer(14)])).resolves.toEqual([])
+    expect(mockPrisma.watchlist_search_matches.createMany).toHaveBeenCalled()
+  })
+
+  it('leaves the alert to the worker that recorded the match first', async () => {
+    mockPrisma.products.findUnique.mockResolvedValue(product({ createdAt: new Date('2026-10-19T00:00:00Z') }))
+    mockPrisma.watchlist_search_matches.createMany.mockResolvedValue({ count: 0 })
+
+    await expect(evaluateSavedSearches('prod_1', [offer(14)])).resolves.toEqual([])
+  })
+})
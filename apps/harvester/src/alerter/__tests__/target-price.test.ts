@@ -0,0 +1,253 @@
+/**
+ * TARGET_PRICE Rule Tests
+ *
+ * Effective price math (per-round, shipping-inclusive), offer selection and
+ * de-duplication of stale observations from current_visible_prices.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  current_visible_prices: {
+    findMany: vi.fn(),
+  },
+  retailer_shipping_rules: {
+    findMany: vi.fn(),
+  },
+}))
+
+vi.mock('@ironscout/db', () => ({
+  prisma: mockPrisma,
+}))
+
+import type { ShippingRule } from '@ironscout/db/landed-cost.js'
+import {
+  describeTargetPriceMatch,
+  effectiveOfferPrice,
+  findTargetPriceMatch,
+  formatTargetPriceReason,
+  loadTargetPriceOffers,
+  type TargetPriceOffer,
+  type TargetPriceRule,
+} from '../target-price'
+
+function offer(overrides: Partial<TargetPriceOffer> = {}): TargetPriceOffer {
+  return {
+    retailerId: 'ret_1',
+    retailerName: 'Ammo Depot',
+    url: 'https://ammodepot.example/p/1',
+    price: 13.0,
+    shippingCost: 1.5,
+    shippingRule: null,
+    observedAt: new Date('2026-10-19T12:00:00Z'),
+    ...overrides,
+  }
+}
+
+const perRoundWithShipping: TargetPriceRule = {
+  targetPrice: 0.28,
+  basis: 'PER_ROUND',
+  includeShipping: true,
+}
+
+function shippingRule(overrides: Partial<ShippingRule> = {}): ShippingRule {
+  return {
+    retailerId: 'ret_1',
+    shippingType: 'FLAT',
+    flatRate: 9.99,
+    perUnitRate: null,
+    freeShippingMinimum: null,
+    stateSurcharges: {},
+    ...overrides,
+  }
+}
+
+describe('effectiveOfferPrice', () => {
+  it('returns the listing price for TOTAL targets', () => {
+    expect(effectiveOfferPrice(offer(), { basis: 'TOTAL', includeShipping: false }, 50)).toBe(13)
+  })
+
+  it('adds shipping before dividing by round count', () => {
+    expect(effectiveOfferPrice(offer(), perRoundWithShipping, 50)).toBeCloseTo(0.29)
+  })
+
+  it('returns null when shipping is required but unknown', () => {
+    expect(effectiveOfferPrice(offer({ shippingCost: null }), perRoundWithShipping, 50)).toBeNull()
+  })
+
+  it('uses the retailer shipping rule over the shipping observed on the offer', () => {
+    const withRule = offer({ shippingCost: 0, shippingRule: shippingRule() })
+
+    // $13.00 + $9.99 flat = $22.99
+    expect(effectiveOfferPrice(withRule, { basis: 'TOTAL', includeShipping: true }, 50)).toBeCloseTo(22.99)
+  })
+
+  it('waives rule shipping once the listing reaches the free-shipping minimum', () => {
+    const withRule = offer({ price: 100, shippingRule: shippingRule({ freeShippingMinimum: 99 }) })
+
+    expect(effectiveOfferPrice(withRule, { basis: 'TOTAL', includeShipping: true }, 50)).toBe(100)
+  })
+
+  it('adds the ship-to state surcharge', () => {
+    const withRule = offer({ shippingRule: shippingRule({ flatRate: 5, stateSurcharges: { AK: 15 } }) })
+
+    expect(
+      effectiveOfferPrice(withRule, { basis: 'TOTAL', includeShipping: true, destinationState: 'AK' }, 50)
+    ).toBeCloseTo(33)
+  })
+
+  it('returns null for PER_ROUND without a round count', () => {
+    expect(effectiveOfferPrice(offer(), { basis: 'PER_ROUND', includeShipping: false }, null)).toBeNull()
+  })
+})
+
+describe('findTargetPriceMatch', () => {
+  it('picks the cheapest qualifying offer', () => {
+    const offers = [
+      offer({ retailerId: 'ret_1', price: 13.0, shippingCost: 0 }),
+      offer({ retailerId: 'ret_2', retailerName: 'Lucky Gunner', price: 12.5, shippingCost: 0 }),
+    ]
+
+    const match = findTargetPriceMatch(perRoundWithShipping, offers, 50)
+
+    expect(match?.offer.retailerId).toBe('ret_2')
+    expect(match?.effectivePrice).toBeCloseTo(0.25)
+  })
+
+  it('matches at exactly the target', () => {
+    const match = findTargetPriceMatch(
+      { targetPrice: 14, basis: 'TOTAL', includeShipping: false },
+      [offer({ price: 14 })],
+      null
+    )
+
+    expect(match?.effectivePrice).toBe(14)
+  })
+
+  it('does not match when shipping pushes the offer over the target', () => {
+    // $13.00 alone is $0.26/rd, $14.50 with shipping is $0.29/rd
+    expect(findTargetPriceMatch(perRoundWithShipping, [offer()], 50)).toBeNull()
+    expect(findTargetPriceMatch({ ...perRoundWithShipping, includeShipping: false }, [offer()], 50)).not.toBeNull()
+  })
+})
+
+describe('formatTargetPriceReason', () => {
+  it('describes the basis and shipping inclusion', () => {
+    const match = { offer: offer({ shippingCost: 0 }), effectivePrice: 0.26, shipping: 0, freeShippingApplied: false }
+
+    expect(formatTargetPriceReason(perRoundWithShipping, match)).toBe(
+      'Price is $0.260/rd incl. shipping at Ammo Depot (target $0.280/rd incl. shipping)'
+    )
+  })
+})
+
+describe('describeTargetPriceMatch', () => {
+  it('returns the target, the matched price and the shipping it includes', () => {
+    const match = findTargetPriceMatch(
+      { targetPrice: 0.3, basis: 'PER_ROUND', includeShipping: true },
+      [offer({ price: 12, shippingRule: shippingRule({ flatRate: 2 }) })],
+      50
+    )
+
+    expect(describeTargetPriceMatch(perRoundWithShipping, match!)).toEqual({
+      target: '$0.280/rd incl. shipping',
+      matched: '$0.280/rd incl. shipping',
+      listingPrice: 12,
+      shipping: 2,
+      freeShippingApplied: false,
+    })
+  })
+})
+
+describe('loadTargetPriceOffers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.retailer_shipping_rules.findMany.mockResolvedValue([])
+  })
+
+  it('attaches the retailer shipping rule to each offer', async () => {
+    mockPrisma.current_visible_prices.findMany.mockResolvedValue([
+      {
+        inStock: true,
+        retailerId: 'ret_1',
+        retailerName: 'Ammo Depot',
+        url: 'https://ammodepot.example/p/1',
+        visiblePrice: { toString: () => '15.00' },
+        shippingCost: null,
+        observedAt: new Date('2026-10-19T12:00:00Z'),
+      },
+    ])
+    mockPrisma.retailer_shipping_rules.findMany.mockResolvedValue([
+      {
+        retailerId: 'ret_1',
+        shippingType: 'FREE',
+        flatRate: null,
+        perUnitRate: null,
+        freeShippingMinimum: null,
+        stateSurcharges: null,
+      },
+    ])
+
+    const [loaded] = await loadTargetPriceOffers('prod_1')
+
+    expect(loaded.shippingRule).toMatchObject({ retailerId: 'ret_1', shippingType: 'FREE' })
+    expect(effectiveOfferPrice(loaded, { basis: 'TOTAL', includeShipping: true }, null)).toBe(15)
+  })
+
+  it('keeps only the latest observation per listing', async () => {
+    mockPrisma.current_visible_prices.findMany.mockResolvedValue([
+      {
+        inStock: true,
+        retailerId: 'ret_1',
+        retailerName: 'Ammo Depot',
+        url: 'https://ammodepot.example/p/1',
+        visiblePrice: { toString: () => '15.00' },
+        shippingCost: null,
+        observedAt: new Date('2026-10-19T12:00:00Z'),
+      },
+      {
+        inStock: true,
+        retailerId: 'ret_1',
+        retailerName: 'Ammo Depot',
+        url: 'https://ammodepot.example/p/1',
+        visiblePrice: { toString: () => '11.00' },
+        shippingCost: { toString: () => '0' },
+        observedAt: new Date('2026-10-18T12:00:00Z'),
+      },
+    ])
+
+    const offers = await loadTargetPriceOffers('prod_1')
+
+    expect(offers).toEqual([
+      expect.objectContaining({ retailerId: 'ret_1', price: 15, shippingCost: null }),
+    ])
+    expect(mockPrisma.current_visible_prices.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { productId: 'prod_1' } })
+    )
+  })
+
+  it('drops listings whose latest observation is out of stock', async () => {
+    mockPrisma.current_visible_prices.findMany.mockResolvedValue([
+      {
+        inStock: false,
+        retailerId: 'ret_1',
+        retailerName: 'Ammo Depot',
+        url: 'https://ammodepot.example/p/1',
+        visiblePrice: { toString: () => '11.00' },
+        shippingCost: null,
+        observedAt: new Date('2026-10-19T12:00:00Z'),
+      },
+      {
+        inStock: true,
+        retailerId: 'ret_1',
+        retailerName: 'Ammo Depot',
+        url: 'https://ammodepot.example/p/1',
+        visiblePrice: { toString: () => '11.00' },
+        shippingCost: null,
+        observedAt: new Date('2026-10-18T12:00:00Z'),
+      },
+    ])
+
+    await expect(loadTargetPriceOffers('prod_1')).resolves.toEqual([])
+  })
+})
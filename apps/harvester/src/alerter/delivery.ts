@@ -0,0 +1,353 @@
+/**
+ * Alert Delivery Channels
+ *
+ * Fans a triggered alert out to the channels chosen on its watchlist item
+ * (watchlist_items.notificationChannels) and records one alert_deliveries row
+ * per attempt, keyed by the two-phase claimKey.
+ *
+ * Outcome contract with the claim/commit flow in ./index.ts:
+ * - At least one SENT attempt: resolves, caller commits the claim.
+ * - Nothing SENT and at least one FAILED: throws AlertDeliveryError, caller
+ *   releases the claim so the alert can re-fire. After MAX_FAILED_ROUNDS
+ *   failed rounds since the alert last reached the user it resolves instead,
+ *   so a dead webhook or bad phone number is not re-sent every cycle.
+ * - Everything SKIPPED (channel not configured for the user): resolves, same
+ *   as the email-only alerter did when Resend was not configured.
+ *
+ * EMAIL is supplied by the caller because the HTML templates live with the
+ * alerter; WEB_PUSH, SMS and WEBHOOK senders are defined here.
+ */
+
+import { prisma } from '@ironscout/db'
+import type {
+  AlertRuleType,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from '@ironscout/db/generated/prisma'
+import { sendSms, sendWebhook, sendWebPush } from '@ironscout/notifications'
+import { logger } from '../config/logger'
+
+const log = logger.alerter
+
+/**
+ * Failed delivery rounds (distinct claim keys) before an alert stops retrying
+ */
+export const MAX_FAILED_ROUNDS = 3
+
+export interface AlertMessage {
+  alertId: string
+  userId: string
+  watchlistItemId: string
+  productId: string
+  productName: string
+  ruleType: AlertRuleType
+  reason: string
+  currentPrice: number
+  retailerName: string
+  retailerUrl: string
+  productUrl: string
+  /** TARGET_PRICE only: the target and the price that met it */
+  target?: TargetPriceDetails
+}
+
+export interface TargetPriceDetails {
+  /** Target as set on the item, e.g. "$0.280/rd incl. shipping" */
+  target: string
+  /** Offer price on the same basis as the target */
+  matched: string
+  listingPrice: number
+  /** Shipping included in `matched`, null when the target excludes shipping */
+  shipping: number | null
+  freeShippingApplied: boolean
+}
+
+export interface ChannelAttempt {
+  channel: NotificationChannel
+  status: NotificationDeliveryStatus
+  /** Push subscription or webhook id for fan-out channels */
+  targetId?: string
+  error?: string
+}
+
+export type ChannelSender = (message: AlertMessage) => Promise<ChannelAttempt[]>
+
+export class AlertDeliveryError extends Error {
+  constructor(public readonly attempts: ChannelAttempt[]) {
+    super(
+      `All alert channels failed: ${attempts
+        .filter((a) => a.status === 'FAILED')
+        .map((a) => `${a.channel}${a.error ? ` (${a.error})` : ''}`)
+        .join(', ')}`
+    )
+    this.name = 'AlertDeliveryError'
+  }
+}
+
+/**
+ * Short title/body used by push, SMS and webhook channels
+ */
+export function formatAlertText(message: AlertMessage): { title: string; body: string } {
+  const price = `$${message.currentPrice.toFixed(2)}`
+  if (message.ruleType === 'BACK_IN_STOCK') {
+    return {
+      title: `Back in stock: ${message.productName}`,
+      body: `Now ${price} at ${message.retailerName}`,
+    }
+  }
+  if (message.ruleType === 'TARGET_PRICE') {
+    // Reason carries the per-round / shipping-inclusive price the target was met at
+    return {
+      title: `Target price reached: ${message.productName}`,
+      body: message.reason,
+    }
+  }
+  if (message.ruleType === 'NEW_PRODUCT') {
+    // Reason names the saved search and the matching offer
+    return {
+      title: `New match: ${message.productName}`,
+      body: message.reason,
+    }
+  }
+  return {
+    title: `Price drop: ${message.productName}`,
+    body: `Now ${price} at ${message.retailerName}`,
+  }
+}
+
+const sendWebPushAlert: ChannelSender = async (message) => {
+  const subscriptions = await prisma.user_push_subscriptions.findMany({
+    where: { userId: message.userId },
+  })
+  if (subscriptions.length === 0) {
+    return [{ channel: 'WEB_PUSH', status: 'SKIPPED', error: 'No push subscriptions' }]
+  }
+
+  const { title, body } = formatAlertText(message)
+  const attempts: ChannelAttempt[] = []
+
+  for (const subscription of subscriptions) {
+    const result = await sendWebPush(subscription, { title, body, url: message.productUrl })
+
+    if (result.success) {
+      await prisma.user_push_subscriptions.update({
+        where: { id: subscription.id },
+        data: { lastSuccessAt: new Date() },
+      })
+      attempts.push({ channel: 'WEB_PUSH', status: 'SENT', targetId: subscription.id })
+    } else if (result.expired) {
+      // Browser unsubscribed or the endpoint rotated; the next visit re-registers
+      await prisma.user_push_subscriptions.delete({ where: { id: subscription.id } })
+      attempts.push({ channel: 'WEB_PUSH', status: 'FAILED', targetId: subscription.id, error: 'Subscription expired' })
+    } else {
+      await prisma.user_push_subscriptions.update({
+        where: { id: subscription.id },
+        data: { lastFailureAt: new Date() },
+      })
+      attempts.push({ channel: 'WEB_PUSH', status: 'FAILED', targetId: subscription.id, error: result.error })
+    }
+  }
+
+  return attempts
+}
+
+const sendSmsAlert: ChannelSender = async (message) => {
+  const user = await prisma.users.findUnique({
+    where: { id: message.userId },
+    select: { smsPhoneNumber: true, smsOptInAt: true, smsVerifiedAt: true },
+  })
+  if (!user?.smsPhoneNumber || !user.smsOptInAt || !user.smsVerifiedAt) {
+    return [{ channel: 'SMS', status: 'SKIPPED', error: 'No verified phone number' }]
+  }
+
+  const { title, body } = formatAlertText(message)
+  const result = await sendSms(user.smsPhoneNumber, `IronScout: ${title}. ${body}. ${message.productUrl}`)
+
+  return [
+    result.success
+      ? { channel: 'SMS', status: 'SENT' }
+      : { channel: 'SMS', status: 'FAILED', error: result.error },
+  ]
+}
+
+const sendWebhookAlert: ChannelSender = async (message) => {
+  const webhooks = await prisma.user_webhooks.findMany({
+    where: { userId: message.userId, enabled: true },
+  })
+  if (webhooks.length === 0) {
+    return [{ channel: 'WEBHOOK', status: 'SKIPPED', error: 'No enabled webhooks' }]
+  }
+
+  const { title, body } = formatAlertText(message)
+  const attempts: ChannelAttempt[] = []
+
+  for (const webhook of webhooks) {
+    const result = await sendWebhook({
+      url: webhook.url,
+      secret: webhook.secret,
+      event: {
+        type: `alert.${message.ruleType.toLowerCase()}`,
+        content: `${title} - ${body}\n${message.productUrl}`,
+        data: {
+          alertId: message.alertId,
+          productId: message.productId,
+          productName: message.productName,
+          ruleType: message.ruleType,
+          price: message.currentPrice,
+          retailerName: message.retailerName,
+          retailerUrl: message.retailerUrl,
+          productUrl: message.productUrl,
+          reason: message.reason,
+          target: message.target,
+        },
+      },
+    })
+
+    await prisma.user_webhooks.update({
+      where: { id: webhook.id },
+      data: result.success
+        ? { lastDeliveredAt: new Date(), lastError: null }
+        : { lastError: result.error ?? 'Unknown error' },
+    })
+    attempts.push(
+      result.success
+        ? { channel: 'WEBHOOK', status: 'SENT', targetId: webhook.id }
+        : { channel: 'WEBHOOK', status: 'FAILED', targetId: webhook.id, error: result.error }
+    )
+  }
+
+  return attempts
+}
+
+const DEFAULT_SENDERS: Partial<Record<NotificationChannel, ChannelSender>> = {
+  WEB_PUSH: sendWebPushAlert,
+  SMS: sendSmsAlert,
+  WEBHOOK: sendWebhookAlert,
+}
+
+/**
+ * Deliver an alert to each selected channel and record the attempts
+ */
+export async function deliverAlert(
+  message: AlertMessage,
+  channels: NotificationChannel[],
+  claimKey: string,
+  senders: Partial<Record<NotificationChannel, ChannelSender>> = {}
+): Promise<ChannelAttempt[]> {
+  const attempts: ChannelAttempt[] = []
+
+  for (const channel of new Set(channels)) {
+    const sender = senders[channel] ?? DEFAULT_SENDERS[channel]
+    if (!sender) {
+      attempts.push({ channel, status: 'SKIPPED', error: 'No sender for channel' })
+      continue
+    }
+
+    try {
+      attempts.push(...(await sender(message)))
+    } catch (error) {
+      attempts.push({
+        channel,
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  try {
+    await prisma.alert_deliveries.createMany({
+      data: attempts.map((attempt) => ({
+        alertId: message.alertId,
+        userId: message.userId,
+        watchlistItemId: message.watchlistItemId,
+        ruleType: message.ruleType,
+        channel: attempt.channel,
+        status: attempt.status,
+        claimKey,
+        targetId: attempt.targetId ?? null,
+        error: attempt.error?.slice(0, 500) ?? null,
+      })),
+    })
+  } catch (error) {
+    // Status rows are bookkeeping; a write failure must not turn a sent alert into a retry
+    log.warn('ALERT_DELIVERY_RECORD_FAILED', {
+      alertId: message.alertId,
+      claimKey,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  log.info('ALERT_DELIVERED', {
+    alertId: message.alertId,
+    userId: message.userId,
+    claimKey,
+    channels: summarizeAttempts(attempts),
+  })
+
+  const anySent = attempts.some((a) => a.status === 'SENT')
+  const anyFailed = attempts.some((a) => a.status === 'FAILED')
+  if (!anySent && anyFailed) {
+    const failedRounds = await countFailedRounds(message.alertId)
+    if (failedRounds < MAX_FAILED_ROUNDS) {
+      throw new AlertDeliveryError(attempts)
+    }
+    // Resolve so the caller commits the claim; the alert re-arms on its normal cooldown
+    log.warn('ALERT_DELIVERY_GAVE_UP', {
+      alertId: message.alertId,
+      userId: message.userId,
+      claimKey,
+      failedRounds,
+      channels: summarizeAttempts(attempts),
+    })
+  }
+
+  return attempts
+}
+
+/**
+ * Failed rounds for an alert since its last successful delivery
+ * Each claim is one round, so rows are counted per distinct claimKey.
+ */
+async function countFailedRounds(alertId: string): Promise<number> {
+  try {
+    const lastSent = await prisma.alert_deliveries.findFirst({
+      where: { alertId, status: 'SENT' },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    })
+    const rounds = await prisma.alert_deliveries.findMany({
+      where: {
+        alertId,
+        status: 'FAILED',
+        ...(lastSent && { createdAt: { gt: lastSent.createdAt } }),
+      },
+      distinct: ['claimKey'],
+      select: { claimKey: true },
+    })
+    return rounds.length
+  } catch (error) {
+    // Without history, keep retrying rather than dropping the alert
+    log.warn('ALERT_DELIVERY_HISTORY_FAILED', {
+      alertId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return 0
+  }
+}
+
+/**
+ * Per-channel outcome for execution_logs metadata
+ * A channel counts as SENT if any of its targets received the alert.
+ */
+export function summarizeAttempts(
+  attempts: ChannelAttempt[]
+): Partial<Record<NotificationChannel, NotificationDeliveryStatus>> {
+  const rank: Record<NotificationDeliveryStatus, number> = { SKIPPED: 0, FAILED: 1, SENT: 2 }
+  const summary: Partial<Record<NotificationChannel, NotificationDeliveryStatus>> = {}
+  for (const attempt of attempts) {
+    const current = summary[attempt.channel]
+    if (!current || rank[attempt.status] > rank[current]) {
+      summary[attempt.channel] = attempt.status
+    }
+  }
+  return summary
+}
@@ -1,4 +1,5 @@
 import { Worker, Job, Queue } from 'bullmq'
+import { randomUUID } from 'crypto'
 import { prisma, isAlertProcessingEnabled, isEmailNotificationsEnabled } from '@ironscout/db'
 // Import visibility predicate directly to avoid circular import issues
 import { visibleRetailerPriceWhere } from '@ironscout/db/visibility.js'
@@ -7,6 +8,29 @@ import { createRedisClient } from '../config/redis'
 import { logger } from '../config/logger'
 import { AlertJobData } from '../config/queues'
 import { Resend } from 'resend'
+import type { NotificationChannel } from '@ironscout/db/generated/prisma'
+import {
+  deliverAlert,
+  summarizeAttempts,
+  type AlertMessage,
+  type ChannelAttempt,
+  type TargetPriceDetails,
+} from './delivery'
+import {
+  describeTargetPriceMatch,
+  findTargetPriceMatch,
+  formatTargetPriceReason,
+  loadTargetPriceOffers,
+  type TargetPriceOffer,
+  type TargetPriceRule,
+} from './target-price'
+import {
+  claimSearchMatchSlot,
+  commitSearchMatchSend,
+  evaluateSavedSearches,
+  releaseSearchMatchClaim,
+  type SavedSearchTrigger,
+} from './saved-search'
 
 const log = logger.alerter
 const redis = createRedisClient()
@@ -55,7 +79,7 @@ const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
 const delayedNotificationQueue = new Queue<{
   alertId: string
   watchlistItemId: string
-  ruleType: 'PRICE_DROP' | 'BACK_IN_STOCK'
+  ruleType: RuleType
   triggerReason: string
   executionId: string
   jobCreatedAt: string // ISO timestamp for idempotency guard
@@ -89,7 +113,7 @@ const COOLDOWN_HOURS = 168 // 7 days per alerts_policy_v1
  *   Clear claim fields (guarded by claimKey) so another worker can retry
  */
 
-type RuleType = 'PRICE_DROP' | 'BACK_IN_STOCK'
+type RuleType = 'PRICE_DROP' | 'BACK_IN_STOCK' | 'TARGET_PRICE'
 
 interface ClaimResult {
   claimed: boolean
@@ -154,6 +178,45 @@ async function claimNotificationSlot(
         return { claimed: false, reason: 'unknown' }
       }
 
+      return { claimed: true }
+    } else if (ruleType === 'TARGET_PRICE') {
+      const result = await prisma.watchlist_items.updateMany({
+        where: {
+          id: watchlistItemId,
+          OR: [
+            { lastTargetNotifiedAt: null },
+            { lastTargetNotifiedAt: { lt: cooldownThreshold } },
+          ],
+          AND: [
+            {
+              OR: [
+                { targetNotificationClaimKey: null },
+                { targetNotificationClaimedAt: { lt: staleClaimThreshold } },
+              ],
+            },
+          ],
+        },
+        data: {
+          targetNotificationClaimedAt: now,
+          targetNotificationClaimKey: claimKey,
+        },
+      })
+
+      if (result.count === 0) {
+        const item = await prisma.watchlist_items.findUnique({
+          where: { id: watchlistItemId },
+          select: { lastTargetNotifiedAt: true, targetNotificationClaimKey: true, targetNotificationClaimedAt: true },
+        })
+
+        if (item?.lastTargetNotifiedAt && item.lastTargetNotifiedAt >= cooldownThreshold) {
+          return { claimed: false, reason: 'in_cooldown' }
+        }
+        if (item?.targetNotificationClaimKey && item.targetNotificationClaimedAt && item.targetNotificationClaimedAt >= staleClaimThreshold) {
+          return { claimed: false, reason: 'claimed_by_another' }
+        }
+        return { claimed: false, reason: 'unknown' }
+      }
+
       return { claimed: true }
     } else {
       // BACK_IN_STOCK
@@ -228,6 +291,19 @@ async function commitNotificationSend(
         },
       })
       return result.count > 0
+    } else if (ruleType === 'TARGET_PRICE') {
+      const result = await prisma.watchlist_items.updateMany({
+        where: {
+          id: watchlistItemId,
+          targetNotificationClaimKey: claimKey,
+        },
+        data: {
+          lastTargetNotifiedAt: now,
+          targetNotificationClaimedAt: null,
+          targetNotificationClaimKey: null,
+        },
+      })
+      return result.count > 0
     } else {
       const result = await prisma.watchlist_items.updateMany({
         where: {
@@ -270,6 +346,17 @@ async function releaseNotificationClaim(
           priceNotificationClaimKey: null,
         },
       })
+    } else if (ruleType === 'TARGET_PRICE') {
+      await prisma.watchlist_items.updateMany({
+        where: {
+          id: watchlistItemId,
+          targetNotificationClaimKey: claimKey,
+        },
+        data: {
+          targetNotificationClaimedAt: null,
+          targetNotificationClaimKey: null,
+        },
+      })
     } else {
       await prisma.watchlist_items.updateMany({
         where: {
@@ -394,6 +481,7 @@ export const alerterWorker = new Worker<AlertJobData>(
               email: true,
               name: true,
               tier: true, // Include tier for delay calculation
+              shipToState: true, // Ship-to surcharges for shipping-inclusive targets
             }
           },
           products: true,
@@ -403,6 +491,7 @@ export const alerterWorker = new Worker<AlertJobData>(
 
       let triggeredCount = 0
       let delayedCount = 0
+      let targetPriceOffers: TargetPriceOffer[] | undefined
 
       for (const alert of alerts) {
         const watchlistItem = alert.watchlist_items
@@ -423,6 +512,11 @@ export const alerterWorker = new Worker<AlertJobData>(
           continue
         }
 
+        // SEARCH intent rows are driven by saved search match state below
+        if (watchlistItem.intentType === 'SEARCH') {
+          continue
+        }
+
         let shouldTrigger = false
         let triggerReason = ''
         const now = new Date()
@@ -475,6 +569,34 @@ export const alerterWorker = new Worker<AlertJobData>(
               triggerReason = 'Product is back in stock'
             }
             break
+
+          case 'TARGET_PRICE': {
+            if (watchlistItem.targetPrice === null) {
+              continue // No target set for this item
+            }
+            // Per spec: suppress alerts if delivered in last 7 days
+            if (watchlistItem.lastTargetNotifiedAt) {
+              const cooldownThreshold = new Date(now.getTime() - COOLDOWN_HOURS * 60 * 60 * 1000)
+              if (watchlistItem.lastTargetNotifiedAt > cooldownThreshold) {
+                log.debug('Target price alert in cooldown period, skipping', { alertId: alert.id })
+                continue
+              }
+            }
+            const rule: TargetPriceRule = {
+              targetPrice: parseFloat(watchlistItem.targetPrice.toString()),
+              basis: watchlistItem.targetPriceBasis,
+              includeShipping: watchlistItem.targetIncludeShipping,
+              destinationState: alert.users.shipToState,
+            }
+            // Offers are shared by every target on this product, load once per job
+            targetPriceOffers ??= await loadTargetPriceOffers(productId)
+            const match = findTargetPriceMatch(rule, targetPriceOffers, alert.products.roundCount)
+            if (match) {
+              shouldTrigger = true
+              triggerReason = formatTargetPriceReason(rule, match)
+            }
+            break
+          }
         }
 
         if (shouldTrigger) {
@@ -518,7 +640,7 @@ export const alerterWorker = new Worker<AlertJobData>(
               {
                 alertId: alert.id,
                 watchlistItemId: watchlistItem.id,
-                ruleType: alert.ruleType as 'PRICE_DROP' | 'BACK_IN_STOCK',
+                ruleType: alert.ruleType as RuleType,
                 triggerReason,
                 executionId,
                 jobCreatedAt: now.toISOString(),
@@ -600,7 +722,7 @@ export const alerterWorker = new Worker<AlertJobData>(
 
             // Phase 2: Send
             try {
-              await sendNotification(alert, triggerReason)
+              const attempts = await sendNotification(alert, triggerReason, claimKey)
 
               // Phase 3: Commit (atomic, guarded by claimKey)
               const committed = await commitNotificationSend(watchlistItem.id, ruleType, claimKey)
@@ -616,8 +738,10 @@ export const alerterWorker = new Worker<AlertJobData>(
                       alertId: alert.id,
                       userId: alert.userId,
                       productId: alert.productId,
+                      ruleType,
                       userTier,
                       reason: triggerReason,
+                      channels: summarizeAttempts(attempts),
                     },
                   },
                 })
@@ -658,6 +782,15 @@ export const alerterWorker = new Worker<AlertJobData>(
         }
       }
 
+      // SEARCH intent: saved searches this product or one of its offers starts matching
+      targetPriceOffers ??= await loadTargetPriceOffers(productId)
+      const searchTriggers = await evaluateSavedSearches(productId, targetPriceOffers)
+      for (const trigger of searchTriggers) {
+        if (await notifySavedSearchTrigger(trigger, productId, executionId)) {
+          triggeredCount++
+        }
+      }
+
       await prisma.execution_logs.create({
         data: {
           executionId,
@@ -696,7 +829,7 @@ export const alerterWorker = new Worker<AlertJobData>(
 export const delayedNotificationWorker = new Worker<{
   alertId: string
   watchlistItemId: string
-  ruleType: 'PRICE_DROP' | 'BACK_IN_STOCK'
+  ruleType: RuleType
   triggerReason: string
   executionId: string
   jobCreatedAt: string
@@ -786,7 +919,7 @@ export const delayedNotificationWorker = new Worker<{
 
       // Phase 2: Send
       try {
-        await sendNotification(alert, triggerReason)
+        const attempts = await sendNotification(alert, triggerReason, claimKey)
 
         // Phase 3: Commit (atomic, guarded by claimKey)
         const committed = await commitNotificationSend(watchlistItemId, ruleType, claimKey)
@@ -805,6 +938,7 @@ export const delayedNotificationWorker = new Worker<{
                 reason: triggerReason,
                 watchlistItemId,
                 ruleType,
+                channels: summarizeAttempts(attempts),
               },
             },
           })
@@ -857,108 +991,271 @@ export const delayedNotificationWorker = new Worker<{
   }
 )
 
-// Send notification to user
-// ADR-011: Uses ruleType instead of alertType
-async function sendNotification(alert: any, reason: string) {
-  // Check if email notifications are enabled via admin settings
-  const emailEnabled = await isEmailNotificationsEnabled()
-  if (!emailEnabled) {
-    log.info('Email notifications disabled via admin settings, skipping', {
-      alertId: alert.id,
+/**
+ * Send one saved search alert.
+ * The alert row (needed for alert_deliveries) is created lazily per (user, product, rule);
+ * cooldown and claim state live on the watchlist_search_matches row.
+ */
+async function notifySavedSearchTrigger(
+  trigger: SavedSearchTrigger,
+  productId: string,
+  executionId: string
+): Promise<boolean> {
+  const { userId, watchlistItemId, ruleType, reason } = trigger
+
+  const alert = await prisma.alerts.upsert({
+    where: { userId_productId_ruleType: { userId, productId, ruleType } },
+    create: {
+      id: randomUUID(),
+      userId,
+      productId,
+      watchlistItemId,
+      ruleType,
+      isEnabled: true,
+      updatedAt: new Date(),
+    },
+    update: {},
+    include: {
+      users: { select: { id: true, email: true, name: true, tier: true } },
+      products: true,
+      watchlist_items: true,
+    },
+  })
+
+  // A SKU item (or another saved search) already owns this rule for the product
+  if (alert.watchlistItemId !== watchlistItemId || !alert.isEnabled) {
+    log.debug('Saved search alert rule owned elsewhere, skipping', { alertId: alert.id, watchlistItemId })
+    return false
+  }
+
+  if (!(await reserveUserAlertSlot(userId))) {
+    await prisma.execution_logs.create({
+      data: {
+        executionId,
+        level: 'INFO',
+        event: 'ALERT_SUPPRESSED_RATE_LIMIT',
+        message: `Suppressed alert for user ${userId} (caps reached)`,
+        metadata: { alertId: alert.id, userId, productId, ruleType, watchlistItemId },
+      },
     })
-    return
+    return false
   }
 
+  const claimKey = `search-${trigger.matchId}-${Date.now()}`
+  if (!(await claimSearchMatchSlot(trigger.matchId, claimKey, COOLDOWN_HOURS, CLAIM_STALE_MS))) {
+    await prisma.execution_logs.create({
+      data: {
+        executionId,
+        level: 'INFO',
+        event: 'ALERT_CLAIM_FAILED',
+        message: `Saved search notification claim failed for user ${userId}`,
+        metadata: { alertId: alert.id, userId, productId, ruleType, watchlistItemId },
+      },
+    })
+    return false
+  }
+
+  try {
+    const attempts = await sendNotification(alert, reason, claimKey, trigger.offer)
+
+    if (!(await commitSearchMatchSend(trigger.matchId, claimKey))) {
+      log.warn('Commit failed - claim may have been stolen', { alertId: alert.id, claimKey })
+      return false
+    }
+
+    await prisma.execution_logs.create({
+      data: {
+        executionId,
+        level: 'INFO',
+        event: 'ALERT_NOTIFY',
+        message: `Saved search alert sent to user ${userId}: ${reason}`,
+        metadata: {
+          alertId: alert.id,
+          userId,
+          productId,
+          ruleType,
+          watchlistItemId,
+          reason,
+          channels: summarizeAttempts(attempts),
+        },
+      },
+    })
+    return true
+  } catch (notifyError) {
+    await releaseSearchMatchClaim(trigger.matchId, claimKey)
+
+    const message = notifyError instanceof Error ? notifyError.message : 'Unknown error'
+    log.error('Failed to send saved search notification', { alertId: alert.id, userId, error: message })
+
+    await prisma.execution_logs.create({
+      data: {
+        executionId,
+        level: 'ERROR',
+        event: 'ALERT_NOTIFY_FAILED',
+        message: `Failed to send notification to user ${userId}: ${message}`,
+        metadata: { alertId: alert.id, userId, productId, ruleType, reason, error: message },
+      },
+    })
+    return false
+  }
+}
+
+// Send notification to user on the watchlist item's channels
+// ADR-011: Uses ruleType instead of alertType
+// `offer` pins the message to a specific listing (saved search matches)
+// Throws AlertDeliveryError when no channel delivered (until the retry limit), so callers release the claim
+async function sendNotification(
+  alert: any,
+  reason: string,
+  claimKey: string,
+  offer?: TargetPriceOffer
+): Promise<ChannelAttempt[]> {
+  const channels: NotificationChannel[] = alert.watchlist_items?.notificationChannels?.length
+    ? alert.watchlist_items.notificationChannels
+    : ['EMAIL']
+
   log.info('Sending notification', {
     userId: alert.userId,
     productName: alert.products.name,
     ruleType: alert.ruleType,
     userTier: alert.users.tier,
+    channels,
     reason,
   })
 
-  try {
-    // Get the latest price for the product from a visible retailer
-    // ADR-005: Only show prices from ELIGIBLE + LISTED + ACTIVE relationships
-    const latestPrice = await prisma.prices.findFirst({
-      where: {
-        productId: alert.productId,
-        retailers: {
-          is: {
-            visibilityStatus: 'ELIGIBLE',
-            merchant_retailers: {
-              some: {
-                listingStatus: 'LISTED',
-                status: 'ACTIVE',
-              },
+  // Get the latest price for the product from a visible retailer
+  // ADR-005: Only show prices from ELIGIBLE + LISTED + ACTIVE relationships
+  const latestPrice = await prisma.prices.findFirst({
+    where: {
+      productId: alert.productId,
+      retailers: {
+        is: {
+          visibilityStatus: 'ELIGIBLE',
+          merchant_retailers: {
+            some: {
+              listingStatus: 'LISTED',
+              status: 'ACTIVE',
             },
           },
         },
       },
-      include: { retailers: true },
-      orderBy: { createdAt: 'desc' }
-    })
+    },
+    include: { retailers: true },
+    orderBy: { createdAt: 'desc' }
+  })
 
-    if (!latestPrice) {
-      log.warn('No price found for product', { productId: alert.productId })
-      return
+  if (!latestPrice) {
+    log.warn('No price found for product', { productId: alert.productId })
+    return []
+  }
+
+  const message: AlertMessage = {
+    alertId: alert.id,
+    userId: alert.userId,
+    watchlistItemId: alert.watchlistItemId,
+    productId: alert.productId,
+    productName: alert.products.name,
+    ruleType: alert.ruleType,
+    reason,
+    currentPrice: parseFloat(latestPrice.price.toString()),
+    retailerName: latestPrice.retailers.name,
+    retailerUrl: latestPrice.url,
+    productUrl: `${FRONTEND_URL}/products/${alert.productId}`,
+  }
+
+  // TARGET_PRICE: point at the offer that met the target rather than the latest price
+  const watchlistItem = alert.watchlist_items
+  if (alert.ruleType === 'TARGET_PRICE' && watchlistItem?.targetPrice != null) {
+    const rule: TargetPriceRule = {
+      targetPrice: parseFloat(watchlistItem.targetPrice.toString()),
+      basis: watchlistItem.targetPriceBasis,
+      includeShipping: watchlistItem.targetIncludeShipping,
+      destinationState: alert.users.shipToState ?? null,
     }
+    const match = findTargetPriceMatch(rule, await loadTargetPriceOffers(alert.productId), alert.products.roundCount)
+    if (match) {
+      message.currentPrice = match.offer.price
+      message.retailerName = match.offer.retailerName
+      message.retailerUrl = match.offer.url
+      message.reason = formatTargetPriceReason(rule, match)
+      message.target = describeTargetPriceMatch(rule, match)
+    }
+  }
 
-    const currentPrice = parseFloat(latestPrice.price.toString())
-    const productUrl = `${FRONTEND_URL}/products/${alert.productId}`
-
-    if (alert.ruleType === 'PRICE_DROP') {
-      const html = generatePriceDropEmailHTML({
-        userName: alert.users.name || 'there',
-        productName: alert.products.name,
-        productUrl,
-        productImageUrl: alert.products.imageUrl,
-        currentPrice,
-        retailerName: latestPrice.retailers.name,
-        retailerUrl: latestPrice.url,
-        userTier: alert.users.tier,
-      })
+  if (offer) {
+    message.currentPrice = offer.price
+    message.retailerName = offer.retailerName
+    message.retailerUrl = offer.url
+  }
 
-      if (resend) {
-        await resend.emails.send({
-          from: `IronScout.ai Alerts <${FROM_EMAIL}>`,
-          to: [alert.users.email],
-          subject: `🎉 Price Drop Alert: ${alert.products.name}`,
-          html
-        })
-        log.info('Price drop email sent', { userId: alert.userId })
-      } else {
-        log.debug('Email sending disabled (no RESEND_API_KEY)', { userId: alert.userId, type: 'price_drop' })
-      }
-    } else if (alert.ruleType === 'BACK_IN_STOCK') {
-      const html = generateBackInStockEmailHTML({
-        userName: alert.users.name || 'there',
-        productName: alert.products.name,
-        productUrl,
-        productImageUrl: alert.products.imageUrl,
-        currentPrice,
-        retailerName: latestPrice.retailers.name,
-        retailerUrl: latestPrice.url,
-        userTier: alert.users.tier,
-      })
+  return deliverAlert(message, channels, claimKey, {
+    EMAIL: (msg) => sendEmailNotification(alert, msg),
+  })
+}
 
-      if (resend) {
-        await resend.emails.send({
-          from: `IronScout.ai Alerts <${FROM_EMAIL}>`,
-          to: [alert.users.email],
-          subject: `✨ Back in Stock: ${alert.products.name}`,
-          html
-        })
-        log.info('Back in stock email sent', { userId: alert.userId })
-      } else {
-        log.debug('Email sending disabled (no RESEND_API_KEY)', { userId: alert.userId, type: 'back_in_stock' })
-      }
-    }
-  } catch (error) {
-    const err = error as Error
-    log.error('Failed to send email', { error: err.message })
-    // Don't throw - we don't want email failures to stop alert processing
+// EMAIL channel sender (Resend)
+async function sendEmailNotification(alert: any, message: AlertMessage): Promise<ChannelAttempt[]> {
+  // Check if email notifications are enabled via admin settings
+  const emailEnabled = await isEmailNotificationsEnabled()
+  if (!emailEnabled) {
+    log.info('Email notifications disabled via admin settings, skipping', {
+      alertId: alert.id,
+    })
+    return [{ channel: 'EMAIL', status: 'SKIPPED', error: 'Disabled by admin setting' }]
+  }
+
+  if (!resend) {
+    log.debug('Email sending disabled (no RESEND_API_KEY)', { userId: alert.userId, ruleType: alert.ruleType })
+    return [{ channel: 'EMAIL', status: 'SKIPPED', error: 'RESEND_API_KEY not configured' }]
   }
+
+  const templateData = {
+    userName: alert.users.name || 'there',
+    productName: message.productName,
+    productUrl: message.productUrl,
+    productImageUrl: alert.products.imageUrl,
+    currentPrice: message.currentPrice,
+    retailerName: message.retailerName,
+    retailerUrl: message.retailerUrl,
+    userTier: alert.users.tier,
+  }
+
+  const isBackInStock = alert.ruleType === 'BACK_IN_STOCK'
+  const isTargetPrice = alert.ruleType === 'TARGET_PRICE'
+  const isNewProduct = alert.ruleType === 'NEW_PRODUCT'
+  const { error } = await resend.emails.send({
+    from: `IronScout.ai Alerts <${FROM_EMAIL}>`,
+    to: [alert.users.email],
+    subject: isBackInStock
+      ? `✨ Back in Stock: ${message.productName}`
+      : isTargetPrice
+        ? `🎯 Target Price Reached: ${message.productName}`
+        : isNewProduct
+          ? `🆕 New Match for Your Saved Search: ${message.productName}`
+          : `🎉 Price Drop Alert: ${message.productName}`,
+    html: isBackInStock
+      ? generateBackInStockEmailHTML(templateData)
+      : isTargetPrice && message.target
+        ? generateTargetPriceEmailHTML({ ...templateData, target: message.target })
+        : generatePriceDropEmailHTML(templateData),
+  })
+
+  if (error) {
+    log.error('Failed to send email', { userId: alert.userId, error: error.message })
+    return [{ channel: 'EMAIL', status: 'FAILED', error: error.message }]
+  }
+
+  log.info(
+    isBackInStock
+      ? 'Back in stock email sent'
+      : isTargetPrice
+        ? 'Target price email sent'
+        : isNewProduct
+          ? 'New match email sent'
+          : 'Price drop email sent',
+    { userId: alert.userId }
+  )
+  return [{ channel: 'EMAIL', status: 'SENT' }]
 }
 
 function generatePriceDropEmailHTML(data: {
@@ -1040,6 +1337,95 @@ function generatePriceDropEmailHTML(data: {
   `
 }
 
+function generateTargetPriceEmailHTML(data: {
+  userName: string
+  productName: string
+  productUrl: string
+  productImageUrl?: string
+  currentPrice: number
+  retailerName: string
+  retailerUrl: string
+  userTier: string
+  target: TargetPriceDetails
+}): string {
+  const { target } = data
+  // How the matched price was reached: listing price plus the shipping it includes
+  const breakdown = target.shipping === null
+    ? `Listing price $${target.listingPrice.toFixed(2)}`
+    : target.freeShippingApplied
+      ? `Listing price $${target.listingPrice.toFixed(2)} with free shipping`
+      : `Listing price $${target.listingPrice.toFixed(2)} + $${target.shipping.toFixed(2)} shipping`
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Target Price Reached</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+        <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 20px 0;">
+          <tr>
+            <td align="center">
+              <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+                <tr>
+                  <td style="background: #1f2937; padding: 24px 32px; text-align: center;">
+                    <h1 style="margin: 0; color: #ffffff; font-size: 22px; font-weight: 700;">Target price reached: ${data.productName}</h1>
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding: 32px;">
+                    ${data.productImageUrl ? `
+                    <table width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px;">
+                      <tr>
+                        <td align="center">
+                          <img src="${data.productImageUrl}" alt="${data.productName}" style="max-width: 280px; height: auto; border-radius: 8px; border: 1px solid #e5e5e5;" />
+                        </td>
+                      </tr>
+                    </table>
+                    ` : ''}
+                    <h2 style="margin: 0 0 16px 0; color: #1a1a1a; font-size: 18px; font-weight: 600;">${data.productName}</h2>
+                    <table width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px;">
+                      <tr>
+                        <td style="padding: 16px; background-color: #f8f9fa; border-radius: 8px; border-left: 4px solid #10b981;">
+                          <p style="margin: 0 0 8px 0; color: #6b7280; font-size: 14px;">Price at ${data.retailerName}</p>
+                          <p style="margin: 0; color: #111827; font-size: 28px; font-weight: 700;">${target.matched}</p>
+                          <p style="margin: 8px 0 0 0; color: #6b7280; font-size: 14px;">${breakdown}</p>
+                          <p style="margin: 8px 0 0 0; color: #4b5563; font-size: 14px;">Your target: <strong>${target.target}</strong></p>
+                        </td>
+                      </tr>
+                    </table>
+                    <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 15px; line-height: 1.6;">
+                      This item is now at or below the target you set. Prices change often, so check the listing before you buy.
+                    </p>
+                    <table width="100%" cellpadding="0" cellspacing="0">
+                      <tr>
+                        <td align="center" style="padding: 16px 0;">
+                          <a href="${data.retailerUrl}" style="display: inline-block; padding: 14px 28px; background: #111827; color: #ffffff; text-decoration: none; border-radius: 6px; font-size: 16px; font-weight: 600;">View at ${data.retailerName}</a>
+                        </td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding: 24px 32px; background-color: #f8f9fa; border-top: 1px solid #e5e5e5;">
+                    <p style="margin: 0 0 12px 0; color: #6b7280; font-size: 13px; text-align: center;">This alert is based on your saved item.</p>
+                    <p style="margin: 0; color: #9ca3af; font-size: 12px; text-align: center;">
+                      <a href="${FRONTEND_URL}/dashboard/alerts" style="color: #4b5563; text-decoration: none;">Manage alerts</a> |
+                      <a href="${FRONTEND_URL}/dashboard/settings" style="color: #4b5563; text-decoration: none;">Notification settings</a>
+                    </p>
+                    <p style="margin: 12px 0 0 0; color: #9ca3af; font-size: 11px; text-align: center;">© ${new Date().getFullYear()} IronScout.ai</p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>
+  `
+}
+
 function generateBackInStockEmailHTML(data: {
   userName: string
   productName: string
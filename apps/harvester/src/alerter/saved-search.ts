@@ -0,0 +1,249 @@
+/**
+ * Saved Search (SEARCH intent) Evaluation
+ *
+ * Runs on every alert job for a product. For each active saved search whose
+ * attribute filters accept the product, the current offers are compared with
+ * the search's price filters and the per-(search, product) state in
+ * watchlist_search_matches:
+ *
+ * - No row, product created after the search was saved      -> NEW_PRODUCT
+ * - No row or isMatching=false, search has a price ceiling  -> TARGET_PRICE
+ * - Anything else only updates the row (no alert)
+ *
+ * Rows are seeded with the current matches when the search is saved (API), so
+ * products that already matched never alert. Transitions are written with
+ * conditional updates / skipDuplicates inserts, so only one worker owns each.
+ *
+ * Matching uses the shared predicates in @ironscout/db/saved-search.js, the
+ * same ones the API resolver uses for "current matches".
+ */
+
+import { randomUUID } from 'crypto'
+import { prisma } from '@ironscout/db'
+// Import saved search predicates directly to avoid circular import issues
+import {
+  hasSavedSearchPriceCeiling,
+  offerMatchesSavedSearch,
+  productMatchesSavedSearch,
+  type SavedSearchFilters,
+} from '@ironscout/db/saved-search.js'
+import type { TargetPriceOffer } from './target-price'
+
+export type SavedSearchRuleType = 'NEW_PRODUCT' | 'TARGET_PRICE'
+
+export interface SavedSearchTrigger {
+  watchlistItemId: string
+  userId: string
+  matchId: string
+  ruleType: SavedSearchRuleType
+  /** Cheapest offer that satisfies the search */
+  offer: TargetPriceOffer
+  reason: string
+}
+
+interface SavedSearchSnapshot {
+  searchText?: string
+  filters?: SavedSearchFilters
+}
+
+/**
+ * Evaluate all active saved searches against one product.
+ * Returns the alerts to send; match state is updated as a side effect.
+ */
+export async function evaluateSavedSearches(
+  productId: string,
+  offers: TargetPriceOffer[]
+): Promise<SavedSearchTrigger[]> {
+  const product = await prisma.products.findUnique({
+    where: { id: productId },
+    select: {
+      createdAt: true,
+      caliberNorm: true,
+      brand: true,
+      bulletType: true,
+      grainWeight: true,
+      roundCount: true,
+    },
+  })
+  if (!product) return []
+
+  // Paused searches still track state so resuming does not replay old matches
+  const searches = await prisma.watchlist_items.findMany({
+    where: { intentType: 'SEARCH', deletedAt: null },
+    select: {
+      id: true,
+      userId: true,
+      createdAt: true,
+      querySnapshot: true,
+      notificationsEnabled: true,
+    },
+  })
+
+  const candidates = searches.filter((search) =>
+    productMatchesSavedSearch(product, snapshotFilters(search.querySnapshot))
+  )
+  if (candidates.length === 0) return []
+
+  const rows = await prisma.watchlist_search_matches.findMany({
+    where: { productId, watchlistItemId: { in: candidates.map((c) => c.id) } },
+    select: { id: true, watchlistItemId: true, isMatching: true },
+  })
+  const rowsBySearch = new Map(rows.map((row) => [row.watchlistItemId, row]))
+
+  const now = new Date()
+  const triggers: SavedSearchTrigger[] = []
+
+  for (const search of candidates) {
+    const filters = snapshotFilters(search.querySnapshot)
+    const best = cheapestMatchingOffer(offers, product.roundCount, filters)
+    const row = rowsBySearch.get(search.id)
+
+    if (!best) {
+      if (row?.isMatching) {
+        await prisma.watchlist_search_matches.updateMany({
+          where: { id: row.id, isMatching: true },
+          data: { isMatching: false },
+        })
+      }
+      continue
+    }
+
+    let ruleType: SavedSearchRuleType | null = null
+    let matchId: string
+
+    if (!row) {
+      matchId = randomUUID()
+      const inserted = await prisma.watchlist_search_matches.createMany({
+        data: [{ id: matchId, watchlistItemId: search.id, productId, updatedAt: now }],
+        skipDuplicates: true,
+      })
+      if (inserted.count === 0) continue // Another worker recorded this match first
+
+      if (product.createdAt > search.createdAt) {
+        ruleType = 'NEW_PRODUCT'
+      } else if (hasSavedSearchPriceCeiling(filters)) {
+        ruleType = 'TARGET_PRICE'
+      }
+    } else if (!row.isMatching) {
+      matchId = row.id
+      const updated = await prisma.watchlist_search_matches.updateMany({
+        where: { id: row.id, isMatching: false },
+        data: { isMatching: true, lastMatchedAt: now },
+      })
+      if (updated.count === 0) continue
+      if (hasSavedSearchPriceCeiling(filters)) {
+        ruleType = 'TARGET_PRICE'
+      }
+    } else {
+      continue // Still matching, already known
+    }
+
+    if (ruleType && search.notificationsEnabled) {
+      triggers.push({
+        watchlistItemId: search.id,
+        userId: search.userId,
+        matchId,
+        ruleType,
+        offer: best,
+        reason: formatSavedSearchReason(ruleType, best, product.roundCount, search.querySnapshot),
+      })
+    }
+  }
+
+  return triggers
+}
+
+function snapshotFilters(querySnapshot: unknown): SavedSearchFilters {
+  return (querySnapshot as SavedSearchSnapshot | null)?.filters ?? {}
+}
+
+function cheapestMatchingOffer(
+  offers: TargetPriceOffer[],
+  roundCount: number | null,
+  filters: SavedSearchFilters
+): TargetPriceOffer | null {
+  let best: TargetPriceOffer | null = null
+  for (const offer of offers) {
+    if (!offerMatchesSavedSearch({ price: offer.price, inStock: true }, roundCount, filters)) continue
+    if (!best || offer.price < best.price) best = offer
+  }
+  return best
+}
+
+export function formatSavedSearchReason(
+  ruleType: SavedSearchRuleType,
+  offer: TargetPriceOffer,
+  roundCount: number | null,
+  querySnapshot: unknown
+): string {
+  const filters = snapshotFilters(querySnapshot)
+  const label = (querySnapshot as SavedSearchSnapshot | null)?.searchText || filters.caliber?.join(', ') || 'your search'
+  const perRound = roundCount ? ` ($${(offer.price / roundCount).toFixed(3)}/rd)` : ''
+  const price = `$${offer.price.toFixed(2)}${perRound} at ${offer.retailerName}`
+
+  if (ruleType === 'NEW_PRODUCT') {
+    return `New match for saved search "${label}": ${price}`
+  }
+  const ceiling = filters.maxPricePerRound != null
+    ? `$${filters.maxPricePerRound.toFixed(3)}/rd`
+    : `$${filters.priceRange!.max!.toFixed(2)}`
+  return `Now matches saved search "${label}": ${price} (max ${ceiling})`
+}
+
+// =============================================================================
+// Two-phase claim/commit on watchlist_search_matches
+// Same protocol as the watchlist_items claim fields, scoped to (search, product)
+// =============================================================================
+
+export async function claimSearchMatchSlot(
+  matchId: string,
+  claimKey: string,
+  cooldownHours: number,
+  claimStaleMs: number
+): Promise<boolean> {
+  const now = new Date()
+  const result = await prisma.watchlist_search_matches.updateMany({
+    where: {
+      id: matchId,
+      OR: [
+        { lastNotifiedAt: null },
+        { lastNotifiedAt: { lt: new Date(now.getTime() - cooldownHours * 60 * 60 * 1000) } },
+      ],
+      AND: [
+        {
+          OR: [
+            { notificationClaimKey: null },
+            { notificationClaimedAt: { lt: new Date(now.getTime() - claimStaleMs) } },
+          ],
+        },
+      ],
+    },
+    data: {
+      notificationClaimedAt: now,
+      notificationClaimKey: claimKey,
+    },
+  })
+  return result.count > 0
+}
+
+export async function commitSearchMatchSend(matchId: string, claimKey: string): Promise<boolean> {
+  const result = await prisma.watchlist_search_matches.updateMany({
+    where: { id: matchId, notificationClaimKey: claimKey },
+    data: {
+      lastNotifiedAt: new Date(),
+      notificationClaimedAt: null,
+      notificationClaimKey: null,
+    },
+  })
+  return result.count > 0
+}
+
+export async function releaseSearchMatchClaim(matchId: string, claimKey: string): Promise<void> {
+  await prisma.watchlist_search_matches.updateMany({
+    where: { id: matchId, notificationClaimKey: claimKey },
+    data: {
+      notificationClaimedAt: null,
+      notificationClaimKey: null,
+    },
+  })
+}
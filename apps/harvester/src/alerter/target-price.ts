@@ -0,0 +1,179 @@
+/**
+ * TARGET_PRICE Rule Evaluation
+ *
+ * A target is an absolute threshold set on the watchlist item:
+ * - TOTAL: price of one listing (e.g. $14.00 per box)
+ * - PER_ROUND: listing price divided by products.roundCount (e.g. $0.28/rd)
+ *
+ * With targetIncludeShipping the landed cost of one listing is compared
+ * before the per-round division: the retailer's shipping rule (FREE, FLAT,
+ * PER_UNIT, free-shipping minimum, ship-to state surcharge) when it prices
+ * shipping, otherwise the shipping observed on the offer. Offers with unknown
+ * shipping cannot prove they meet a shipping-inclusive target and are ignored
+ * (alerts_policy_v1: if in doubt, do not send).
+ *
+ * Offers come from current_visible_prices (ADR-015), so corrections and
+ * retailer visibility are already applied.
+ */
+
+import { prisma } from '@ironscout/db'
+import { calculateLandedCost, loadShippingRules, type ShippingRule } from '@ironscout/db/landed-cost.js'
+import type { TargetPriceBasis } from '@ironscout/db/generated/prisma'
+import type { TargetPriceDetails } from './delivery'
+
+export interface TargetPriceRule {
+  targetPrice: number
+  basis: TargetPriceBasis
+  includeShipping: boolean
+  /** Owner's ship-to state (users.shipToState), for retailer state surcharges */
+  destinationState?: string | null
+}
+
+export interface TargetPriceOffer {
+  retailerId: string
+  retailerName: string
+  url: string
+  price: number
+  shippingCost: number | null
+  /** The retailer's retailer_shipping_rules row, null when it has none */
+  shippingRule: ShippingRule | null
+  observedAt: Date
+}
+
+export interface TargetPriceMatch {
+  offer: TargetPriceOffer
+  /** Price compared against the target (per round when basis is PER_ROUND) */
+  effectivePrice: number
+  /** Shipping included in effectivePrice, null when the target excludes shipping */
+  shipping: number | null
+  /** The listing alone reached a free-shipping minimum */
+  freeShippingApplied: boolean
+}
+
+type OfferPricing = Omit<TargetPriceMatch, 'offer'>
+
+/**
+ * Load current in-stock offers for a product, keeping the latest observation per listing
+ */
+export async function loadTargetPriceOffers(productId: string): Promise<TargetPriceOffer[]> {
+  const rows = await prisma.current_visible_prices.findMany({
+    where: { productId },
+    select: {
+      inStock: true,
+      retailerId: true,
+      retailerName: true,
+      url: true,
+      visiblePrice: true,
+      shippingCost: true,
+      observedAt: true,
+    },
+    orderBy: { observedAt: 'desc' },
+  })
+
+  const shippingRules = await loadShippingRules(prisma, rows.map((row) => row.retailerId))
+
+  const seen = new Set<string>()
+  const offers: TargetPriceOffer[] = []
+  for (const row of rows) {
+    const key = `${row.retailerId}|${row.url}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    // An out-of-stock latest observation hides older in-stock rows for the same listing
+    if (!row.inStock) continue
+    offers.push({
+      retailerId: row.retailerId,
+      retailerName: row.retailerName,
+      url: row.url,
+      price: parseFloat(row.visiblePrice.toString()),
+      shippingCost: row.shippingCost === null ? null : parseFloat(row.shippingCost.toString()),
+      shippingRule: shippingRules.get(row.retailerId) ?? null,
+      observedAt: row.observedAt,
+    })
+  }
+  return offers
+}
+
+/**
+ * Effective price of one offer under a rule, or null when it cannot be computed
+ */
+export function effectiveOfferPrice(
+  offer: TargetPriceOffer,
+  rule: Pick<TargetPriceRule, 'basis' | 'includeShipping' | 'destinationState'>,
+  roundCount: number | null
+): number | null {
+  return priceOffer(offer, rule, roundCount)?.effectivePrice ?? null
+}
+
+function priceOffer(
+  offer: TargetPriceOffer,
+  rule: Pick<TargetPriceRule, 'basis' | 'includeShipping' | 'destinationState'>,
+  roundCount: number | null
+): OfferPricing | null {
+  let total = offer.price
+  let shipping: number | null = null
+  let freeShippingApplied = false
+  if (rule.includeShipping) {
+    const landed = calculateLandedCost({
+      offer: { price: offer.price, shippingCost: offer.shippingCost },
+      rule: offer.shippingRule,
+      destinationState: rule.destinationState ?? null,
+    })
+    if (landed.total === null) return null
+    total = landed.total
+    shipping = landed.shipping
+    freeShippingApplied = landed.freeShippingApplied
+  }
+
+  if (rule.basis === 'PER_ROUND') {
+    if (!roundCount || roundCount <= 0) return null
+    return { effectivePrice: total / roundCount, shipping, freeShippingApplied }
+  }
+  return { effectivePrice: total, shipping, freeShippingApplied }
+}
+
+/**
+ * Cheapest offer at or below the target, or null when none qualifies
+ */
+export function findTargetPriceMatch(
+  rule: TargetPriceRule,
+  offers: TargetPriceOffer[],
+  roundCount: number | null
+): TargetPriceMatch | null {
+  let best: TargetPriceMatch | null = null
+  for (const offer of offers) {
+    const pricing = priceOffer(offer, rule, roundCount)
+    if (pricing === null || pricing.effectivePrice > rule.targetPrice) continue
+    if (!best || pricing.effectivePrice < best.effectivePrice) {
+      best = { offer, ...pricing }
+    }
+  }
+  return best
+}
+
+/**
+ * Human-readable price under a rule, e.g. "$0.27/rd incl. shipping"
+ */
+export function formatTargetPrice(
+  price: number,
+  rule: Pick<TargetPriceRule, 'basis' | 'includeShipping'>
+): string {
+  const amount = rule.basis === 'PER_ROUND' ? `$${price.toFixed(3)}/rd` : `$${price.toFixed(2)}`
+  return rule.includeShipping ? `${amount} incl. shipping` : amount
+}
+
+export function formatTargetPriceReason(rule: TargetPriceRule, match: TargetPriceMatch): string {
+  return `Price is ${formatTargetPrice(match.effectivePrice, rule)} at ${match.offer.retailerName} (target ${formatTargetPrice(rule.targetPrice, rule)})`
+}
+
+/**
+ * Target and matched price for the alert templates
+ */
+export function describeTargetPriceMatch(rule: TargetPriceRule, match: TargetPriceMatch): TargetPriceDetails {
+  return {
+    target: formatTargetPrice(rule.targetPrice, rule),
+    matched: formatTargetPrice(match.effectivePrice, rule),
+    listingPrice: match.offer.price,
+    shipping: match.shipping,
+    freeShippingApplied: match.freeShippingApplied,
+  }
+}
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * CLI to run the product resolver in shadow mode
+ *
+ * Re-resolves source products with the checked-out resolver build
+ * (RESOLVER_VERSION / DICTIONARY_VERSION) without touching products or
+ * product_links, and records each decision in resolver_shadow_decisions.
+ * Review the diff report in admin under Resolver Shadow Runs.
+ *
+ * Usage:
+ *   pnpm --filter harvester resolver:shadow --sample 5000
+ *   pnpm --filter harvester resolver:shadow --source <sourceId>
+ *   pnpm --filter harvester resolver:shadow --source <sourceId> --sample 500 --triggered-by alice
+ */
+
+import 'dotenv/config'
+import { prisma } from '@ironscout/db'
+import { DICTIONARY_VERSION, RESOLVER_VERSION } from '../resolver/resolver'
+import { runShadowResolution } from '../resolver/shadow'
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  let sourceId: string | undefined
+  let sampleSize: number | undefined
+  let triggeredBy: string | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--source' && args[i + 1]) {
+      sourceId = args[i + 1]
+      i++
+    } else if (args[i] === '--sample' && args[i + 1]) {
+      sampleSize = parseInt(args[i + 1], 10)
+      i++
+    } else if (args[i] === '--triggered-by' && args[i + 1]) {
+      triggeredBy = args[i + 1]
+      i++
+    }
+  }
+
+  if (sampleSize !== undefined && (!Number.isInteger(sampleSize) || sampleSize <= 0)) {
+    console.error('✗ --sample must be a positive integer')
+    process.exit(1)
+  }
+  if (!sourceId && !sampleSize) {
+    console.error('✗ Pass --source <id>, --sample <n>, or both')
+    process.exit(1)
+  }
+
+  try {
+    console.log(`Shadow run with resolver ${RESOLVER_VERSION}, dictionary ${DICTIONARY_VERSION}`)
+    console.log(`  Scope: ${sourceId ? `source ${sourceId}` : 'all sources'}${sampleSize ? `, sample ${sampleSize}` : ''}`)
+
+    const summary = await runShadowResolution({ sourceId, sampleSize, triggeredBy })
+
+    console.log(`✓ Shadow run ${summary.runId} complete`)
+    console.log(`  Resolved: ${summary.totalCount}`)
+    console.log(`  Changed: ${summary.changedCount}`)
+    console.log(`  Errors: ${summary.errorCount}`)
+    for (const [changeType, count] of Object.entries(summary.byChangeType)) {
+      console.log(`  ${changeType}: ${count}`)
+    }
+
+    await prisma.$disconnect()
+    process.exit(0)
+  } catch (error) {
+    console.error('✗ Shadow run failed:', error)
+    await prisma.$disconnect()
+    process.exit(1)
+  }
+}
+
+main()
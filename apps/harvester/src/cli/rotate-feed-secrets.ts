@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+/**
+ * CLI to re-encrypt feed credentials under the current key version
+ *
+ * Re-encrypts affiliate and retailer feed secrets with
+ * CREDENTIAL_ENCRYPTION_KEY_B64 / CREDENTIAL_ENCRYPTION_KEY_VERSION, and
+ * encrypts any legacy plaintext retailer feed passwords. Keys being retired
+ * must still be listed in CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64 so existing
+ * payloads can be decrypted. See context/reference/env.md for the procedure.
+ *
+ * Usage:
+ *   pnpm --filter harvester secrets:rotate --dry-run
+ *   pnpm --filter harvester secrets:rotate
+ */
+
+import 'dotenv/config'
+import { prisma } from '@ironscout/db'
+import { validateCredentialKey } from '@ironscout/crypto'
+import { rotateFeedSecrets } from '../ops/feed-secret-rotation'
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run')
+
+  try {
+    validateCredentialKey()
+  } catch (error) {
+    console.error('✗ Credential key configuration is invalid:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+
+  try {
+    const summary = await rotateFeedSecrets({ dryRun })
+
+    console.log(`${dryRun ? 'Dry run: ' : ''}feed secrets on key version ${summary.keyVersion}`)
+    for (const [label, counts] of [['Affiliate feeds', summary.affiliate], ['Retailer feeds', summary.retailer]] as const) {
+      console.log(`  ${label}: ${counts.scanned} scanned, ${counts.rotated} re-encrypted, ${counts.encrypted} plaintext encrypted, ${counts.skipped} skipped`)
+    }
+    for (const error of summary.errors) {
+      console.error(`  ✗ ${error.table} ${error.feedId}: ${error.message}`)
+    }
+
+    await prisma.$disconnect()
+    if (summary.errors.length > 0) {
+      console.error(`✗ ${summary.errors.length} feed secret(s) could not be rotated`)
+      process.exit(1)
+    }
+    console.log('✓ Rotation complete')
+    process.exit(0)
+  } catch (error) {
+    console.error('✗ Rotation failed:', error)
+    await prisma.$disconnect()
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+/**
+ * CLI to train the logistic regression scoring model from review decisions
+ *
+ * Training data: product_links with matchType = MANUAL. The evidence keeps the
+ * resolver's normalized input and scored candidates; the product the reviewer
+ * linked is a positive example, every other candidate is a negative.
+ *
+ * Writes the model JSON for review; commit it to ship the new model.
+ *
+ * Usage:
+ *   pnpm --filter harvester train:scoring
+ *   pnpm --filter harvester train:scoring --since 2026-01-01 --version lr-2026-10-19
+ *   pnpm --filter harvester train:scoring --dry-run
+ */
+
+import 'dotenv/config'
+import { createHash } from 'crypto'
+import { writeFileSync } from 'fs'
+import path from 'path'
+import { prisma } from '@ironscout/db'
+import { extractScoringFeatures, type CandidateProduct } from '../resolver/scoring'
+import {
+  trainLogisticModel,
+  evaluateLogisticModel,
+  type TrainingExample,
+} from '../resolver/scoring/logistic-training'
+import type { ResolverEvidence } from '../resolver/types'
+
+const PAGE_SIZE = 1000
+/** Share of review items held out for evaluation (by sourceProductId hash) */
+const HOLDOUT_PERCENT = 20
+const DEFAULT_OUT = path.resolve(__dirname, '../resolver/scoring/models/logistic.json')
+
+function isHoldout(sourceProductId: string): boolean {
+  const bucket = createHash('sha256').update(sourceProductId).digest().readUInt16BE(0) % 100
+  return bucket < HOLDOUT_PERCENT
+}
+
+async function loadExamples(since?: Date): Promise<{ train: TrainingExample[]; holdout: TrainingExample[]; items: number }> {
+  const train: TrainingExample[] = []
+  const holdout: TrainingExample[] = []
+  let items = 0
+  let cursor: string | undefined
+
+  for (;;) {
+    const links = await prisma.product_links.findMany({
+      where: {
+        matchType: 'MANUAL',
+        productId: { not: null },
+        ...(since ? { resolvedAt: { gte: since } } : {}),
+      },
+      select: { id: true, sourceProductId: true, productId: true, status: true, evidence: true },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    })
+    if (links.length === 0) break
+    cursor = links[links.length - 1].id
+
+    // Products referenced by this page: linked products and resolver candidates
+    const productIds = new Set<string>()
+    for (const link of links) {
+      const evidence = link.evidence as unknown as ResolverEvidence | null
+      if (!evidence?.inputNormalized) continue
+      if (link.productId) productIds.add(link.productId)
+      for (const candidate of evidence.candidates ?? []) productIds.add(candidate.productId)
+    }
+
+    const products = await prisma.products.findMany({
+      where: { id: { in: [...productIds] } },
+      select: {
+        id: true,
+        canonicalKey: true,
+        brandNorm: true,
+        caliberNorm: true,
+        roundCount: true,
+        grainWeight: true,
+        name: true,
+      },
+    })
+    const productsById = new Map<string, CandidateProduct>(products.map((p) => [p.id, p]))
+
+    for (const link of links) {
+      const evidence = link.evidence as unknown as ResolverEvidence | null
+      if (!evidence?.inputNormalized || !link.productId) continue
+
+      const examples: TrainingExample[] = []
+
+      // CREATED links point at a product made by the reviewer, not a candidate
+      const linked = productsById.get(link.productId)
+      if (link.status === 'MATCHED' && linked) {
+        examples.push({ features: extractScoringFeatures(evidence.inputNormalized, linked), label: 1 })
+      }
+
+      for (const candidate of evidence.candidates ?? []) {
+        if (candidate.productId === link.productId) continue
+        const product = productsById.get(candidate.productId)
+        if (!product) continue
+        examples.push({ features: extractScoringFeatures(evidence.inputNormalized, product), label: 0 })
+      }
+
+      if (examples.length === 0) continue
+      items++
+      ;(isHoldout(link.sourceProductId) ? holdout : train).push(...examples)
+    }
+  }
+
+  return { train, holdout, items }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  let since: Date | undefined
+  let version = `lr-${new Date().toISOString().slice(0, 10)}`
+  let out = DEFAULT_OUT
+  let dryRun = false
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--since' && args[i + 1]) {
+      since = new Date(args[i + 1])
+      i++
+    } else if (args[i] === '--version' && args[i + 1]) {
+      version = args[i + 1]
+      i++
+    } else if (args[i] === '--out' && args[i + 1]) {
+      out = path.resolve(args[i + 1])
+      i++
+    } else if (args[i] === '--dry-run') {
+      dryRun = true
+    }
+  }
+
+  if (since && Number.isNaN(since.getTime())) {
+    console.error('✗ Invalid --since date')
+    process.exit(1)
+  }
+
+  try {
+    console.log(`Loading MANUAL review decisions${since ? ` since ${since.toISOString()}` : ''}...`)
+    const { train, holdout, items } = await loadExamples(since)
+    console.log(`  Review items: ${items}`)
+    console.log(`  Training examples: ${train.length} (${train.filter((e) => e.label === 1).length} positive)`)
+    console.log(`  Holdout examples: ${holdout.length} (${holdout.filter((e) => e.label === 1).length} positive)`)
+
+    const model = trainLogisticModel(train, version)
+    const trainEval = evaluateLogisticModel(model, train)
+    const holdoutEval = evaluateLogisticModel(model, holdout)
+
+    console.log(`✓ Trained model ${model.version}`)
+    console.log(`  Bias: ${model.bias.toFixed(4)}`)
+    for (const [feature, weight] of Object.entries(model.weights)) {
+      console.log(`  ${feature}: ${weight.toFixed(4)}`)
+    }
+    console.log(`  Train: logLoss=${trainEval.logLoss.toFixed(4)} accuracy=${(trainEval.accuracy * 100).toFixed(1)}%`)
+    if (holdout.length > 0) {
+      console.log(`  Holdout: logLoss=${holdoutEval.logLoss.toFixed(4)} accuracy=${(holdoutEval.accuracy * 100).toFixed(1)}%`)
+    }
+
+    if (dryRun) {
+      console.log('Dry run - model not written')
+    } else {
+      writeFileSync(out, JSON.stringify(model, null, 2) + '\n')
+      console.log(`  Written to ${out}`)
+      console.log(`  Review and commit the file, then set sources to LOGISTIC (or shadow) in admin`)
+    }
+
+    await prisma.$disconnect()
+    process.exit(0)
+  } catch (error) {
+    console.error('✗ Training failed:', error)
+    await prisma.$disconnect()
+    process.exit(1)
+  }
+}
+
+main()
@@ -18,12 +18,15 @@ export const logger = {
   redis: rootLogger.child('redis'),
   database: rootLogger.child('database'),
   alerter: rootLogger.child('alerter'),
+  crawl: rootLogger.child('crawl'),
   merchant: rootLogger.child('merchant'),
   affiliate: rootLogger.child('affiliate'),
   resolver: rootLogger.child('resolver'),
   embedding: rootLogger.child('embedding'),
+  suggestions: rootLogger.child('suggestions'),
   quarantine: rootLogger.child('quarantine'),
   currentprice: rootLogger.child('currentprice'),
+  pricehistory: rootLogger.child('pricehistory'),
 }
 
 // Export root logger for custom child creation
@@ -7,6 +7,8 @@ import { rootLogger } from './logger'
 // Queue names
 export const QUEUE_NAMES = {
   ALERT: 'alert',
+  // Crawl queue (HTML / JS_RENDERED / RSS / JSON sources; fed by POST /api/harvester/trigger)
+  CRAWL: 'crawl',
   // Retailer Portal queues
   RETAILER_FEED_INGEST: 'retailer-feed-ingest',
   // Affiliate Feed queues
@@ -16,10 +18,14 @@ export const QUEUE_NAMES = {
   PRODUCT_RESOLVE: 'product-resolve',
   // Embedding Generation queue
   EMBEDDING_GENERATE: 'embedding-generate',
+  // Search Suggestion Index refresh queue
+  SUGGESTION_INDEX_REFRESH: 'suggestion-index-refresh',
   // Quarantine Reprocess queue (Admin-triggered bulk reprocessing)
   QUARANTINE_REPROCESS: 'quarantine-reprocess',
   // ADR-015: Current Price Recompute queue
   CURRENT_PRICE_RECOMPUTE: 'current-price-recompute',
+  // Price History Rollup queue (daily price-per-round statistics)
+  PRICE_HISTORY_ROLLUP: 'price-history-rollup',
 } as const
 
 // Job data interfaces
@@ -78,13 +84,16 @@ export async function initQueueSettings(): Promise<void> {
       retentionCount: 100,
       queues: {
         alert: true,
+        crawl: true,
         'retailer-feed-ingest': true,
         'affiliate-feed': true,
         'affiliate-feed-scheduler': true,
         'product-resolve': true,
         'embedding-generate': true,
+        'suggestion-index-refresh': true,
         'quarantine-reprocess': true,
         'current-price-recompute': true,
+        'price-history-rollup': true,
       },
     }
   }
@@ -99,6 +108,25 @@ export const alertQueue = new Queue<AlertJobData>(QUEUE_NAMES.ALERT, {
   defaultJobOptions: getJobOptions('alert'),
 })
 
+// ============================================================================
+// CRAWL QUEUE
+// ============================================================================
+
+/**
+ * Crawl job data
+ * The execution row is created by the enqueuer (PENDING); the worker moves it
+ * through RUNNING to SUCCESS/FAILED.
+ */
+export interface CrawlJobData {
+  sourceId: string
+  executionId: string
+}
+
+export const crawlQueue = new Queue<CrawlJobData>(QUEUE_NAMES.CRAWL, {
+  connection: redisConnection,
+  defaultJobOptions: getJobOptions('crawl'),
+})
+
 // ============================================================================
 // RETAILER PORTAL QUEUES
 // ============================================================================
@@ -107,11 +135,12 @@ export interface RetailerFeedIngestJobData {
   retailerId: string
   feedId: string
   feedRunId: string
-  accessType: 'URL' | 'AUTH_URL' | 'FTP' | 'SFTP' | 'UPLOAD'
+  accessType: 'URL' | 'AUTH_URL' | 'FTP' | 'SFTP' | 'UPLOAD' | 'PUSH'
   formatType: 'GENERIC' | 'AMMOSEEK_V1' | 'GUNENGINE_V2' | 'IMPACT'
   url?: string
-  username?: string
-  password?: string
+  // Credentials are loaded from retailer_feeds at fetch time, never queued
+  // UPLOAD feeds: upload to ingest (latest complete upload when omitted)
+  uploadId?: string
   // Admin override: bypass subscription check
   adminOverride?: boolean
   adminId?: string // For audit logging
@@ -418,6 +447,83 @@ export async function enqueueEmbeddingGenerate(
   }
 }
 
+// ============================================================================
+// SEARCH SUGGESTION INDEX QUEUE
+// ============================================================================
+
+/**
+ * Search Suggestion Index refresh job data
+ * Rebuilds the autocomplete index from the catalog after resolver runs
+ */
+export interface SuggestionIndexRefreshJobData {
+  trigger: 'RESOLVE' | 'STARTUP' | 'MANUAL'
+}
+
+/** Resolver-triggered refreshes are batched into windows of this length */
+export const SUGGESTION_INDEX_REFRESH_WINDOW_MS = 5 * 60_000
+
+/**
+ * Search Suggestion Index queue
+ * - JobId format: SUGGEST_<windowStart> (one rebuild per window)
+ * - Retry: max 3 attempts with exponential backoff
+ */
+export const suggestionIndexRefreshQueue = new Queue<SuggestionIndexRefreshJobData>(
+  QUEUE_NAMES.SUGGESTION_INDEX_REFRESH,
+  {
+    connection: redisConnection,
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      ...getJobOptions('suggestion-index-refresh'),
+    },
+  }
+)
+
+/**
+ * Enqueue a suggestion index rebuild
+ *
+ * The index is rebuilt from the whole catalog, so every resolver run in a
+ * window shares one job (jobId = SUGGEST_<windowStart>), delayed to the end
+ * of the window so it sees the window's products. Completed jobs are
+ * retained for history, which is why the jobId is time-bucketed rather than fixed.
+ *
+ * @returns true if enqueued, false if deduplicated
+ */
+export async function enqueueSuggestionIndexRefresh(
+  trigger: SuggestionIndexRefreshJobData['trigger']
+): Promise<boolean> {
+  const now = Date.now()
+  const windowStart = now - (now % SUGGESTION_INDEX_REFRESH_WINDOW_MS)
+  // Startup and manual refreshes run now; they must not be swallowed by a resolver job
+  const jobId = trigger === 'RESOLVE' ? `SUGGEST_${windowStart}` : `SUGGEST_${trigger}_${now}`
+
+  try {
+    await suggestionIndexRefreshQueue.add(
+      'REFRESH_SUGGESTION_INDEX',
+      { trigger },
+      {
+        jobId,
+        delay: trigger === 'RESOLVE' ? windowStart + SUGGESTION_INDEX_REFRESH_WINDOW_MS - now : 0,
+      }
+    )
+    return true
+  } catch (err: any) {
+    // Job with same ID already exists - this is expected deduplication
+    if (err?.message?.includes('Job already exists')) {
+      return false
+    }
+    rootLogger.error(
+      '[enqueueSuggestionIndexRefresh] Failed to enqueue suggestion index refresh',
+      { trigger },
+      err
+    )
+    return false
+  }
+}
+
 // ============================================================================
 // QUARANTINE REPROCESS QUEUE
 // ============================================================================
@@ -592,9 +698,65 @@ export async function enqueueCurrentPriceRecompute(
   }
 }
 
+// ============================================================================
+// PRICE HISTORY ROLLUP QUEUE
+// ============================================================================
+
+/**
+ * Price History Rollup job data
+ * Rolls visible prices up into price_history_daily
+ */
+export interface PriceHistoryRollupJobData {
+  trigger: 'SCHEDULED' | 'MANUAL'
+  /**
+   * First UTC day (YYYY-MM-DD) to rebuild. Omitted: continue from the latest
+   * rolled-up day (re-rolling the lookback window for late prices)
+   */
+  fromDay?: string
+  /** Who triggered the rollup (admin user ID or 'scheduler') */
+  triggeredBy?: string
+}
+
+/**
+ * Price History Rollup queue
+ * - Scheduled hourly by the harvester scheduler instance
+ * - Retry: max 3 attempts with exponential backoff
+ */
+export const priceHistoryRollupQueue = new Queue<PriceHistoryRollupJobData>(
+  QUEUE_NAMES.PRICE_HISTORY_ROLLUP,
+  {
+    connection: redisConnection,
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 30_000,
+      },
+      ...getJobOptions('price-history-rollup'),
+    },
+  }
+)
+
+/**
+ * Enqueue a price history rollup
+ *
+ * Rebuilds from `fromDay` when given (e.g. after corrections change past
+ * prices); otherwise an incremental rollup.
+ *
+ * @returns the job ID
+ */
+export async function enqueuePriceHistoryRollup(
+  data: PriceHistoryRollupJobData
+): Promise<string> {
+  const jobId = `ROLLUP_${data.trigger}_${Date.now()}`
+  await priceHistoryRollupQueue.add('ROLLUP', data, { jobId })
+  return jobId
+}
+
 // Export all queues
 export const queues = {
   alert: alertQueue,
+  crawl: crawlQueue,
   // Retailer queues
   retailerFeedIngest: retailerFeedIngestQueue,
   // Affiliate queues
@@ -604,9 +766,13 @@ export const queues = {
   productResolve: productResolveQueue,
   // Embedding Generation queue
   embeddingGenerate: embeddingGenerateQueue,
+  // Search Suggestion Index queue
+  suggestionIndexRefresh: suggestionIndexRefreshQueue,
   // Quarantine Reprocess queue
   quarantineReprocess: quarantineReprocessQueue,
   // Current Price Recompute queue (ADR-015)
   currentPriceRecompute: currentPriceRecomputeQueue,
+  // Price History Rollup queue
+  priceHistoryRollup: priceHistoryRollupQueue,
 }
 
@@ -0,0 +1,282 @@
+/**
+ * Tests for the source crawler
+ *
+ * Crawls recorded pages served by a local HTTP server with the real HTTP
+ * fetcher and robots policy. Writes and execution logs are captured by mocks;
+ * the rate limiter records delays instead of sleeping.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { crawlSource, type CrawlDependencies } from '../crawler'
+import { HttpPageFetcher } from '../fetcher'
+import { RobotsPolicy } from '../robots'
+import { createLocalRateLimiter, effectiveDelayMs } from '../rate-limiter'
+import type { CrawledOffer } from '../types'
+import { startSiteServer, type SiteServer } from './fixtures/site-server'
+
+let server: SiteServer
+let written: CrawledOffer[][]
+let delays: Array<{ host: string; minDelayMs: number }>
+
+function createDeps(overrides: Partial<CrawlDependencies> = {}): CrawlDependencies {
+  const limiter = createLocalRateLimiter(() => 0, async () => {})
+  return {
+    fetcher: new HttpPageFetcher(),
+    robots: new RobotsPolicy(),
+    rateLimiter: {
+      acquire: async (host, minDelayMs) => {
+        delays.push({ host, minDelayMs })
+        await limiter.acquire(host, minDelayMs)
+      },
+    },
+    writeOffers: vi.fn(async (offers: CrawledOffer[]) => {
+      written.push(offers)
+      return {
+        sourceProductsCreated: offers.length,
+        sourceProductsUpdated: 0,
+        pricesWritten: offers.length,
+        resolverEnqueued: 0,
+      }
+    }),
+    log: vi.fn(async () => {}),
+    ...overrides,
+  }
+}
+
+beforeEach(async () => {
+  written = []
+  delays = []
+  server = await startSiteServer({
+    '/robots.txt': { file: 'robots.txt' },
+    '/shop/9mm': { file: 'shop-page-1.html' },
+    '/shop/9mm?page=2': { file: 'shop-page-2.html' },
+    '/api/products?limit=2': { file: 'api-products-1.json' },
+    '/api/products?limit=2&cursor=c2Vl-2': { file: 'api-products-2.json' },
+    '/feeds/deals.xml': { file: 'deals-feed.xml' },
+    '/rifle': { file: 'listing.html' },
+  })
+})
+
+afterEach(async () => {
+  await server.close()
+})
+
+describe('crawlSource', () => {
+  it('follows rel="next" across HTML pages and writes each page', async () => {
+    const deps = createDeps()
+
+    const summary = await crawlSource(
+      { url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: null },
+      deps
+    )
+
+    expect(summary).toEqual({
+      pagesFetched: 2,
+      offersFound: 4,
+      offersSkipped: 1,
+      sourceProductsCreated: 4,
+      sourceProductsUpdated: 0,
+      pricesWritten: 4,
+      resolverEnqueued: 0,
+      stopReason: 'COMPLETE',
+    })
+    expect(written.map(page => page.length)).toEqual([3, 1])
+    expect(written[0][0].url).toBe(`${server.origin}/products/ae9dp`)
+
+    // robots.txt is fetched once; every page request identifies the crawler
+    const paths = server.requests.map(r => r.path)
+    expect(paths).toEqual(['/robots.txt', '/shop/9mm', '/shop/9mm?page=2'])
+    expect(server.requests.every(r => /^IronScout\/1\.0/.test(String(r.headers['user-agent'])))).toBe(true)
+
+    // Crawl-delay: 5 applies to every request to the host
+    expect(delays).toEqual([
+      { host: new URL(server.origin).host, minDelayMs: effectiveDelayMs(5) },
+      { host: new URL(server.origin).host, minDelayMs: effectiveDelayMs(5) },
+    ])
+    expect(deps.log).toHaveBeenCalledWith(
+      'INFO',
+      'CRAWL_PAGE_PROCESSED',
+      'Extracted 3 offers',
+      expect.objectContaining({ pageIndex: 0, offers: 3 })
+    )
+  })
+
+  it('follows a JSON cursor until it runs out', async () => {
+    const summary = await crawlSource(
+      {
+        url: `${server.origin}/api/products?limit=2`,
+        type: 'JSON',
+        paginationConfig: { nextPath: 'pagination.next_cursor', cursorParam: 'cursor' },
+      },
+      createDeps()
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 2, offersFound: 3, stopReason: 'COMPLETE' })
+    expect(written.flat().map(o => o.title)).toEqual([
+      'Fiocchi 12ga 2-3/4" 00 Buck 9 Pellet 10 Rounds',
+      'Remington UMC .45 ACP 230gr FMJ 100 Rounds',
+      'Sellier & Bellot 7.62x39 124gr FMJ 20 Rounds',
+    ])
+  })
+
+  it('crawls a single RSS feed', async () => {
+    const summary = await crawlSource(
+      { url: `${server.origin}/feeds/deals.xml`, type: 'RSS', paginationConfig: null },
+      createDeps()
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 1, offersFound: 2, offersSkipped: 1, stopReason: 'COMPLETE' })
+  })
+
+  it('stops at maxPages', async () => {
+    const deps = createDeps()
+    const summary = await crawlSource(
+      { url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: { maxPages: 1 } },
+      deps
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 1, stopReason: 'MAX_PAGES' })
+    expect(server.requests.map(r => r.path)).not.toContain('/shop/9mm?page=2')
+    expect(deps.log).toHaveBeenCalledWith('WARN', 'CRAWL_MAX_PAGES', expect.any(String), expect.any(Object))
+  })
+
+  it('stops when pagination loops back to a crawled page', async () => {
+    server.routes['/shop/9mm?page=2'] = {
+      body: '<html><head><link rel="next" href="/shop/9mm"></head><body></body></html>',
+    }
+
+    const summary = await crawlSource(
+      { url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: null },
+      createDeps()
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 2, stopReason: 'LOOP_DETECTED' })
+  })
+
+  it('refuses a source whose first page is disallowed by robots.txt', async () => {
+    server.routes['/members/deals'] = { file: 'shop-page-1.html' }
+
+    await expect(
+      crawlSource({ url: `${server.origin}/members/deals`, type: 'HTML', paginationConfig: null }, createDeps())
+    ).rejects.toMatchObject({ code: 'ROBOTS_DISALLOWED' })
+    expect(server.requests.map(r => r.path)).toEqual(['/robots.txt'])
+  })
+
+  it('keeps earlier pages when pagination leads into a disallowed path', async () => {
+    server.routes['/shop/9mm?page=2'] = {
+      body: '<html><head><link rel="next" href="/members/page-3"></head><body></body></html>',
+    }
+
+    const deps = createDeps()
+    const summary = await crawlSource(
+      { url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: null },
+      deps
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 2, offersFound: 3, stopReason: 'ROBOTS_DISALLOWED' })
+    expect(server.requests.map(r => r.path)).not.toContain('/members/page-3')
+    expect(deps.log).toHaveBeenCalledWith(
+      'ERROR',
+      'CRAWL_PAGE_FAILED',
+      'Disallowed by robots.txt',
+      expect.objectContaining({ code: 'ROBOTS_DISALLOWED', pageIndex: 2 })
+    )
+  })
+
+  it('fails closed when robots.txt errors', async () => {
+    server.routes['/robots.txt'] = { status: 500 }
+
+    await expect(
+      crawlSource({ url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: null }, createDeps())
+    ).rejects.toThrow('robots.txt unavailable (fail closed)')
+  })
+
+  it('fails the crawl when the first page cannot be fetched', async () => {
+    await expect(
+      crawlSource({ url: `${server.origin}/shop/missing`, type: 'HTML', paginationConfig: null }, createDeps())
+    ).rejects.toMatchObject({ code: 'FETCH_FAILED' })
+  })
+
+  it('ends pagination on a later page failure without failing the crawl', async () => {
+    server.routes['/shop/9mm?page=2'] = { status: 503 }
+
+    const summary = await crawlSource(
+      { url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: null },
+      createDeps()
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 1, offersFound: 3, stopReason: 'PAGE_FAILED' })
+  })
+
+  it('reports unparseable pages as PARSE_FAILED', async () => {
+    server.routes['/api/broken'] = { body: '{"data": [', contentType: 'application/json' }
+
+    await expect(
+      crawlSource({ url: `${server.origin}/api/broken`, type: 'JSON', paginationConfig: null }, createDeps())
+    ).rejects.toMatchObject({ code: 'PARSE_FAILED' })
+  })
+
+  it("uses the source's extraction rules and their nextPage selector", async () => {
+    server.routes['/rifle?pg=2'] = {
+      body: '<div class="card"><h3 class="card-title"><a href="/item/wolf">Wolf .223 55gr 20 Rounds</a></h3><span class="amt">$7.25</span></div>',
+    }
+    const extractionRules = {
+      selectorType: 'CSS',
+      item: '.card',
+      fields: {
+        title: '.card-title a',
+        url: { selector: '.card-title a', attribute: 'href' },
+        price: '.amt',
+        inStock: { selector: '.card-stock', inStockPattern: 'ships' },
+        sku: { attribute: 'data-product-id' },
+        roundCount: '.card-rounds',
+      },
+      nextPage: { selector: 'a.pager-next', attribute: 'href' },
+    }
+
+    const summary = await crawlSource(
+      { url: `${server.origin}/rifle`, type: 'HTML', paginationConfig: null, extractionRules },
+      createDeps()
+    )
+
+    expect(summary).toMatchObject({ pagesFetched: 2, offersFound: 3, stopReason: 'COMPLETE' })
+    expect(written[0]).toEqual([
+      {
+        title: 'Hornady Black 5.56 NATO 62gr FMJ',
+        url: `${server.origin}/item/hrn-8090`,
+        price: 12.49,
+        currency: 'USD',
+        inStock: true,
+        sku: 'HRN-8090',
+        roundCount: 20,
+      },
+      expect.objectContaining({ sku: 'PMC-223A', price: 9.99, inStock: false }),
+    ])
+    expect(written[1]).toEqual([expect.objectContaining({ title: 'Wolf .223 55gr 20 Rounds', inStock: false })])
+  })
+
+  it('rejects invalid extraction rules before fetching', async () => {
+    await expect(
+      crawlSource(
+        {
+          url: `${server.origin}/rifle`,
+          type: 'HTML',
+          paginationConfig: null,
+          extractionRules: { selectorType: 'CSS', item: '.card', fields: { title: 'a' } },
+        },
+        createDeps()
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIG', message: 'Invalid extraction rules: fields.price is required' })
+    expect(server.requests).toHaveLength(0)
+  })
+
+  it('rejects feed source types and invalid pagination configs before fetching', async () => {
+    await expect(
+      crawlSource({ url: `${server.origin}/feed.csv`, type: 'FEED_CSV', paginationConfig: null }, createDeps())
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_SOURCE_TYPE' })
+    await expect(
+      crawlSource({ url: `${server.origin}/shop/9mm`, type: 'HTML', paginationConfig: 'next' }, createDeps())
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIG' })
+    expect(server.requests).toHaveLength(0)
+  })
+})
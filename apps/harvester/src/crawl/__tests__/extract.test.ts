@@ -0,0 +1,263 @@
+/**
+ * Tests for crawl offer extraction
+ *
+ * Runs the extractors over recorded pages (JSON-LD, microdata, RSS, JSON API)
+ * and covers pagination link discovery and pagination config validation.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { extractOffers, findNextPageUrl, parseAvailability, parsePrice } from '../extract'
+import { parsePaginationConfig, CrawlError, CRAWL_MAX_PAGES } from '../types'
+import type { FetchedPage } from '../fetcher'
+import { readPage } from './fixtures/site-server'
+
+const BASE = 'https://shop.example.com'
+
+function page(file: string, path: string): FetchedPage {
+  return { url: `${BASE}${path}`, status: 200, contentType: '', body: readPage(file) }
+}
+
+describe('parsePrice', () => {
+  it('parses numbers and formatted text', () => {
+    expect(parsePrice(18.99)).toBe(18.99)
+    expect(parsePrice('$1,024.00')).toBe(1024)
+    expect(parsePrice('19.99 USD')).toBe(19.99)
+    expect(parsePrice('.99')).toBe(0.99)
+  })
+
+  it('rejects missing, zero and non-numeric prices', () => {
+    expect(parsePrice(undefined)).toBeNull()
+    expect(parsePrice(0)).toBeNull()
+    expect(parsePrice('Call for price')).toBeNull()
+    expect(parsePrice(Number.NaN)).toBeNull()
+  })
+})
+
+describe('parseAvailability', () => {
+  it('recognizes schema.org and feed availability values', () => {
+    expect(parseAvailability('https://schema.org/InStock')).toBe(true)
+    expect(parseAvailability('http://schema.org/LimitedAvailability')).toBe(true)
+    expect(parseAvailability('in stock')).toBe(true)
+    expect(parseAvailability('in_stock')).toBe(true)
+    expect(parseAvailability(true)).toBe(true)
+    expect(parseAvailability(3)).toBe(true)
+  })
+
+  it('treats out-of-stock, missing and unknown values as out of stock', () => {
+    expect(parseAvailability('https://schema.org/OutOfStock')).toBe(false)
+    expect(parseAvailability('PreOrder')).toBe(false)
+    expect(parseAvailability(undefined)).toBe(false)
+    expect(parseAvailability(0)).toBe(false)
+  })
+})
+
+describe('extractOffers - HTML JSON-LD', () => {
+  const config = parsePaginationConfig(null, 'HTML')
+
+  it('extracts products from an ItemList, splitting AggregateOffer into its offers', () => {
+    const { offers, skipped } = extractOffers('HTML', page('shop-page-1.html', '/shop/9mm'), config)
+
+    expect(skipped).toBe(0)
+    expect(offers).toHaveLength(3)
+    expect(offers[0]).toEqual({
+      title: 'Federal American Eagle 9mm Luger 115 Grain FMJ 50 Rounds',
+      url: `${BASE}/products/ae9dp`,
+      price: 18.99,
+      currency: 'USD',
+      inStock: true,
+      sku: 'AE9DP',
+      upc: '029465064498',
+      brand: 'Federal',
+      imageUrl: 'https://cdn.example.com/img/ae9dp.jpg',
+      description: undefined,
+    })
+    expect(offers.slice(1).map(o => [o.sku, o.url, o.price, o.inStock])).toEqual([
+      ['USA9MMVP-1', `${BASE}/products/usa9mmvp`, 34.5, true],
+      ['USA9MMVP-5', `${BASE}/products/usa9mmvp?case=1`, 169, false],
+    ])
+  })
+
+  it('reads @graph products and skips products without a price', () => {
+    const { offers, skipped } = extractOffers('HTML', page('shop-page-2.html', '/shop/9mm?page=2'), config)
+
+    expect(skipped).toBe(1)
+    expect(offers).toHaveLength(1)
+    expect(offers[0]).toMatchObject({
+      title: 'Speer Gold Dot 9mm 124gr JHP 20 Rounds',
+      sku: '23618GD',
+      price: 1024,
+      currency: 'USD',
+      inStock: false,
+    })
+  })
+})
+
+describe('extractOffers - HTML microdata', () => {
+  it('reads product and nested offer properties without picking up review names', () => {
+    const { offers, skipped } = extractOffers(
+      'HTML',
+      page('microdata.html', '/p/hornady-90080'),
+      parsePaginationConfig(null, 'HTML')
+    )
+
+    expect(skipped).toBe(0)
+    expect(offers).toEqual([
+      {
+        title: 'Hornady Critical Defense .380 ACP 90gr FTX 25 Rounds',
+        url: `${BASE}/p/hornady-90080`,
+        price: 27.49,
+        currency: 'USD',
+        inStock: true,
+        sku: '90080',
+        upc: '090255900809',
+        brand: 'Hornady',
+        imageUrl: `${BASE}/img/90080.jpg`,
+        description: undefined,
+      },
+    ])
+  })
+})
+
+describe('extractOffers - RSS', () => {
+  it('reads Google Merchant fields, prefers sale price and falls back to a price in the title', () => {
+    const { offers, skipped } = extractOffers(
+      'RSS',
+      page('deals-feed.xml', '/feeds/deals.xml'),
+      parsePaginationConfig(null, 'RSS')
+    )
+
+    expect(skipped).toBe(1)
+    expect(offers).toHaveLength(2)
+    expect(offers[0]).toMatchObject({
+      title: 'CCI Blazer Brass 9mm 124gr FMJ 50 Rounds',
+      url: `${BASE}/products/5201`,
+      price: 19.99,
+      currency: 'USD',
+      inStock: true,
+      sku: '5201',
+      upc: '076683052010',
+      brand: 'CCI',
+    })
+    expect(offers[1]).toMatchObject({
+      url: `${BASE}/products/223a`,
+      price: 11.49,
+      inStock: false,
+      description: 'Limited quantities',
+    })
+  })
+
+  it('reads Atom entries', () => {
+    const atom = `<?xml version="1.0"?>
+      <feed xmlns="http://www.w3.org/2005/Atom" xmlns:g="http://base.google.com/ns/1.0">
+        <entry>
+          <title>Federal 9mm 115gr 50 Rounds</title>
+          <link rel="alternate" href="/products/fed-9"/>
+          <g:price>17.49 USD</g:price>
+          <g:availability>in_stock</g:availability>
+        </entry>
+      </feed>`
+    const { offers } = extractOffers(
+      'RSS',
+      { url: `${BASE}/atom.xml`, status: 200, contentType: '', body: atom },
+      parsePaginationConfig(null, 'RSS')
+    )
+
+    expect(offers).toEqual([
+      expect.objectContaining({ url: `${BASE}/products/fed-9`, price: 17.49, inStock: true }),
+    ])
+  })
+})
+
+describe('extractOffers - JSON', () => {
+  it('auto-detects the item array and maps common field names', () => {
+    const { offers, skipped } = extractOffers(
+      'JSON',
+      page('api-products-1.json', '/api/products'),
+      parsePaginationConfig({ nextPath: 'pagination.next_cursor', cursorParam: 'cursor' }, 'JSON')
+    )
+
+    expect(skipped).toBe(0)
+    expect(offers).toEqual([
+      expect.objectContaining({
+        url: `${BASE}/p/fiocchi-12ga-00buck`,
+        price: 9.99,
+        currency: 'USD',
+        inStock: true,
+        sku: '12FCBK00',
+        upc: '762344700105',
+        roundCount: 10,
+      }),
+      expect.objectContaining({
+        title: 'Remington UMC .45 ACP 230gr FMJ 100 Rounds',
+        price: 54,
+        inStock: false,
+      }),
+    ])
+  })
+
+  it('reads items from an explicit itemsPath', () => {
+    const body = JSON.stringify({ meta: {}, results: { list: [{ name: 'Item', url: '/x', price: 5 }] } })
+    const { offers } = extractOffers(
+      'JSON',
+      { url: `${BASE}/api`, status: 200, contentType: 'application/json', body },
+      parsePaginationConfig({ itemsPath: 'results.list' }, 'JSON')
+    )
+
+    expect(offers).toEqual([expect.objectContaining({ title: 'Item', url: `${BASE}/x`, price: 5 })])
+  })
+})
+
+describe('findNextPageUrl', () => {
+  it('follows rel="next" on HTML pages and stops without one', () => {
+    const config = parsePaginationConfig(null, 'HTML')
+
+    expect(findNextPageUrl('HTML', page('shop-page-1.html', '/shop/9mm'), config, `${BASE}/shop/9mm`, 0, 3)).toBe(
+      `${BASE}/shop/9mm?page=2`
+    )
+    expect(
+      findNextPageUrl('HTML', page('shop-page-2.html', '/shop/9mm?page=2'), config, `${BASE}/shop/9mm`, 1, 1)
+    ).toBeNull()
+  })
+
+  it('increments the page parameter until a page has no offers', () => {
+    const config = parsePaginationConfig({ type: 'PAGE_PARAM', pageParam: 'p', startPage: 1 }, 'HTML')
+    const current = page('shop-page-1.html', '/shop?p=2')
+
+    expect(findNextPageUrl('HTML', current, config, `${BASE}/shop?sort=price`, 1, 3)).toBe(
+      `${BASE}/shop?sort=price&p=3`
+    )
+    expect(findNextPageUrl('HTML', current, config, `${BASE}/shop?sort=price`, 1, 0)).toBeNull()
+  })
+
+  it('sets the JSON cursor on the source URL and stops at a null cursor', () => {
+    const config = parsePaginationConfig({ nextPath: 'pagination.next_cursor', cursorParam: 'cursor' }, 'JSON')
+
+    expect(
+      findNextPageUrl('JSON', page('api-products-1.json', '/api/products'), config, `${BASE}/api/products?limit=2`, 0, 2)
+    ).toBe(`${BASE}/api/products?limit=2&cursor=c2Vl-2`)
+    expect(
+      findNextPageUrl('JSON', page('api-products-2.json', '/api/products'), config, `${BASE}/api/products`, 1, 1)
+    ).toBeNull()
+  })
+})
+
+describe('parsePaginationConfig', () => {
+  it('defaults to rel="next" for HTML and a single page for feeds', () => {
+    expect(parsePaginationConfig(null, 'HTML')).toMatchObject({ type: 'NEXT_LINK', maxPages: CRAWL_MAX_PAGES })
+    expect(parsePaginationConfig(undefined, 'RSS').type).toBe('NONE')
+    expect(parsePaginationConfig({ nextPath: 'next' }, 'JSON').type).toBe('JSON_NEXT')
+  })
+
+  it('clamps maxPages to the global ceiling', () => {
+    expect(parsePaginationConfig({ maxPages: 0 }, 'HTML').maxPages).toBe(1)
+    expect(parsePaginationConfig({ maxPages: 10_000 }, 'HTML').maxPages).toBe(CRAWL_MAX_PAGES)
+  })
+
+  it('rejects malformed configs', () => {
+    expect(() => parsePaginationConfig([], 'HTML')).toThrow(CrawlError)
+    expect(() => parsePaginationConfig({ type: 'INFINITE_SCROLL' }, 'HTML')).toThrow(/Unknown pagination type/)
+    expect(() => parsePaginationConfig({ type: 'JSON_NEXT' }, 'JSON')).toThrow(/requires paginationConfig.nextPath/)
+    expect(() => parsePaginationConfig({ maxPages: -1 }, 'HTML')).toThrow(/non-negative integer/)
+    expect(() => parsePaginationConfig({ pageParam: '' }, 'HTML')).toThrow(/non-empty string/)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Local HTTP stand-in for a retailer site
+ *
+ * Serves recorded pages from ./pages by path (including query string) on
+ * 127.0.0.1 and records every request, so crawler tests exercise real HTTP
+ * fetching, robots.txt loading and pagination without network access.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+export interface SiteRoute {
+  /** File under ./pages */
+  file?: string
+  /** Inline body (used when `file` is not set) */
+  body?: string
+  status?: number
+  contentType?: string
+}
+
+export interface RecordedSiteRequest {
+  path: string
+  headers: IncomingHttpHeaders
+}
+
+export interface SiteServer {
+  origin: string
+  /** Routes keyed by path + query, e.g. "/shop/9mm?page=2"; mutable by tests */
+  routes: Record<string, SiteRoute>
+  requests: RecordedSiteRequest[]
+  close(): Promise<void>
+}
+
+const PAGES_DIR = join(__dirname, 'pages')
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  xml: 'application/rss+xml; charset=utf-8',
+  json: 'application/json',
+  txt: 'text/plain',
+}
+
+export function readPage(file: string): string {
+  return readFileSync(join(PAGES_DIR, file), 'utf8')
+}
+
+export async function startSiteServer(routes: Record<string, SiteRoute> = {}): Promise<SiteServer> {
+  const requests: RecordedSiteRequest[] = []
+
+  const server: Server = createServer((req, res) => {
+    const path = req.url ?? '/'
+    requests.push({ path, headers: req.headers })
+
+    const route = routes[path]
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' })
+      res.end('Not Found')
+      return
+    }
+
+    const status = route.status ?? 200
+    const extension = route.file?.split('.').pop() ?? 'html'
+    const body = route.file ? readPage(route.file) : route.body ?? ''
+    res.writeHead(status, { 'Content-Type': route.contentType ?? CONTENT_TYPES[extension] ?? 'text/plain' })
+    res.end(body)
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    routes,
+    requests,
+    close: () =>
+      new Promise((resolve, reject) => {
+        // fetch keeps connections alive; drop them so close() resolves
+        server.closeAllConnections()
+        server.close((err) => (err ? reject(err) : resolve()))
+      }),
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for robots.txt parsing and the per-origin robots policy
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { parseRobotsTxt, RobotsPolicy, loadRobotsTxt } from '../robots'
+import { effectiveDelayMs, createLocalRateLimiter, CRAWL_MIN_DELAY_MS, MAX_CRAWL_DELAY_MS } from '../rate-limiter'
+import { readPage, startSiteServer, type SiteServer } from './fixtures/site-server'
+
+describe('parseRobotsTxt', () => {
+  const rules = parseRobotsTxt(readPage('robots.txt'))
+
+  it('uses the IronScout group over the wildcard group', () => {
+    expect(rules.isAllowed('/shop/9mm')).toBe(true)
+    expect(parseRobotsTxt(readPage('robots.txt'), 'otherbot').isAllowed('/shop/9mm')).toBe(false)
+  })
+
+  it('applies the longest matching rule with wildcards and end anchors', () => {
+    expect(rules.isAllowed('/members/')).toBe(false)
+    expect(rules.isAllowed('/members/orders')).toBe(false)
+    expect(rules.isAllowed('/members/public')).toBe(true)
+    expect(rules.isAllowed('/members/public/deals')).toBe(false)
+    expect(rules.isAllowed('/shop/9mm?sort=price')).toBe(false)
+    expect(rules.isAllowed('/shop/9mm?page=2')).toBe(true)
+  })
+
+  it('reads Crawl-delay from the matched group', () => {
+    expect(rules.crawlDelaySeconds).toBe(5)
+  })
+
+  it('lets Allow win a tie and allows everything for an empty file', () => {
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /deals\nAllow: /deals')
+    expect(tie.isAllowed('/deals')).toBe(true)
+    expect(parseRobotsTxt('').isAllowed('/anything')).toBe(true)
+    expect(parseRobotsTxt('User-agent: *\nDisallow:').isAllowed('/anything')).toBe(true)
+  })
+})
+
+describe('RobotsPolicy', () => {
+  let server: SiteServer
+
+  beforeAll(async () => {
+    server = await startSiteServer({ '/robots.txt': { file: 'robots.txt' } })
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  it('loads robots.txt over HTTP with the crawler user agent and caches it per origin', async () => {
+    const policy = new RobotsPolicy()
+
+    await expect(policy.check(`${server.origin}/shop/9mm`)).resolves.toEqual({
+      allowed: true,
+      reason: undefined,
+      crawlDelaySeconds: 5,
+    })
+    await expect(policy.check(`${server.origin}/members/orders`)).resolves.toMatchObject({
+      allowed: false,
+      reason: 'DISALLOWED',
+    })
+
+    const robotsRequests = server.requests.filter(r => r.path === '/robots.txt')
+    expect(robotsRequests).toHaveLength(1)
+    expect(robotsRequests[0].headers['user-agent']).toMatch(/^IronScout\/1\.0/)
+  })
+
+  it('allows everything when robots.txt is missing (4xx)', async () => {
+    const policy = new RobotsPolicy(async () => ({ status: 404, body: '' }))
+    await expect(policy.check('https://shop.example.com/anything')).resolves.toMatchObject({ allowed: true })
+  })
+
+  it('fails closed while robots.txt is unavailable and retries after the short TTL', async () => {
+    let now = 0
+    const loader = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce({ status: 503, body: '' })
+      .mockResolvedValue({ status: 200, body: 'User-agent: *\nAllow: /' })
+    const policy = new RobotsPolicy(loader, () => now)
+
+    await expect(policy.check('https://shop.example.com/a')).resolves.toMatchObject({
+      allowed: false,
+      reason: 'UNAVAILABLE',
+    })
+    await expect(policy.check('https://shop.example.com/b')).resolves.toMatchObject({ allowed: false })
+    expect(loader).toHaveBeenCalledTimes(1)
+
+    now += 11 * 60 * 1000
+    await expect(policy.check('https://shop.example.com/b')).resolves.toMatchObject({ reason: 'UNAVAILABLE' })
+    now += 11 * 60 * 1000
+    await expect(policy.check('https://shop.example.com/b')).resolves.toMatchObject({ allowed: true })
+    expect(loader).toHaveBeenCalledTimes(3)
+  })
+
+  it('reports the robots.txt status from the HTTP loader', async () => {
+    await expect(loadRobotsTxt(`${server.origin}/robots.txt`)).resolves.toMatchObject({ status: 200 })
+    await expect(loadRobotsTxt(`${server.origin}/nope/robots.txt`)).resolves.toEqual({ status: 404, body: '' })
+  })
+})
+
+describe('rate limiting', () => {
+  it('raises the default delay to Crawl-delay, capped at the maximum', () => {
+    expect(effectiveDelayMs(null)).toBe(CRAWL_MIN_DELAY_MS)
+    expect(effectiveDelayMs(0)).toBe(CRAWL_MIN_DELAY_MS)
+    expect(effectiveDelayMs(5)).toBe(Math.max(CRAWL_MIN_DELAY_MS, 5000))
+    expect(effectiveDelayMs(3600)).toBe(MAX_CRAWL_DELAY_MS)
+  })
+
+  it('spaces requests per host and leaves other hosts alone', async () => {
+    let now = 1_000
+    const waits: number[] = []
+    const limiter = createLocalRateLimiter(
+      () => now,
+      async (ms) => {
+        waits.push(ms)
+      }
+    )
+
+    await limiter.acquire('shop.example.com', 2000)
+    await limiter.acquire('SHOP.example.com', 2000)
+    await limiter.acquire('other.example.com', 2000)
+    now += 500
+    await limiter.acquire('shop.example.com', 2000)
+
+    expect(waits).toEqual([2000, 3500])
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Tests for crawled offer writes
+ *
+ * - Identity: SKU first, URL hash otherwise; last duplicate on a page wins
+ * - Existing source products are updated, new ones created with identifiers
+ * - Prices carry SCRAPE provenance and are only appended on change/heartbeat
+ * - Unmatched products go to the resolver
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@ironscout/db'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    source_products: { findMany: vi.fn(), createMany: vi.fn(), update: vi.fn() },
+    source_product_identifiers: { createMany: vi.fn() },
+    prices: { createMany: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('../../config/queues', () => ({
+  enqueueProductResolve: vi.fn().mockResolvedValue(true),
+}))
+
+vi.mock('../../resolver', () => ({
+  RESOLVER_VERSION: 'test-resolver',
+}))
+
+// Import after mocks
+import { enqueueProductResolve } from '../../config/queues'
+import { writeCrawledOffers, crawlIdentityKey, shouldWritePrice } from '../writer'
+import { computeUrlHash } from '../../affiliate/parser'
+import type { ProductMatcher } from '../../affiliate/product-matcher'
+import type { CrawledOffer } from '../types'
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+
+function offer(overrides: Partial<CrawledOffer> = {}): CrawledOffer {
+  return {
+    title: 'Federal American Eagle 9mm 115gr FMJ 50 Rounds',
+    url: 'https://shop.example.com/products/ae9dp',
+    price: 18.99,
+    currency: 'USD',
+    inStock: true,
+    sku: 'AE9DP',
+    ...overrides,
+  }
+}
+
+function createMatcher(results: Array<{ sourceProductId: string; productId: string | null; needsResolver: boolean }>) {
+  const batchMatchByUpc = vi.fn(async (items: Array<{ id: string }>) =>
+    items.map(item => {
+      const result = results.find(r => r.sourceProductId === item.id)
+      return {
+        sourceProductId: item.id,
+        productId: result?.productId ?? null,
+        linkWritten: !!result?.productId,
+        needsResolver: result?.needsResolver ?? true,
+      }
+    })
+  )
+  return { batchMatchByUpc } as unknown as ProductMatcher
+}
+
+describe('crawlIdentityKey', () => {
+  it('prefers SKU and falls back to the URL hash', () => {
+    expect(crawlIdentityKey(offer())).toBe('SKU:AE9DP')
+    expect(crawlIdentityKey(offer({ sku: '  ' }))).toBe(`URL_HASH:${computeUrlHash(offer().url)}`)
+  })
+})
+
+describe('shouldWritePrice', () => {
+  const last = { sourceProductId: 'sp-1', price: 18.99, inStock: true, observedAt: new Date(NOW.getTime() - 60_000) }
+
+  it('writes the first observation and any price or stock change', () => {
+    expect(shouldWritePrice(offer(), undefined, NOW)).toBe(true)
+    expect(shouldWritePrice(offer({ price: 17.99 }), last, NOW)).toBe(true)
+    expect(shouldWritePrice(offer({ inStock: false }), last, NOW)).toBe(true)
+  })
+
+  it('skips unchanged observations until the heartbeat is due', () => {
+    expect(shouldWritePrice(offer(), last, NOW)).toBe(false)
+    expect(shouldWritePrice(offer(), { ...last, observedAt: new Date(NOW.getTime() - 25 * 3600_000) }, NOW)).toBe(true)
+  })
+})
+
+describe('writeCrawledOffers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.source_products.findMany).mockResolvedValue([{ id: 'sp-existing', identityKey: 'SKU:AE9DP' }] as never)
+    vi.mocked(prisma.source_products.update).mockImplementation(((args: unknown) => args) as never)
+    vi.mocked(prisma.$transaction).mockResolvedValue([] as never)
+    vi.mocked(prisma.prices.createMany).mockImplementation((async (args: { data: unknown[] }) => ({
+      count: args.data.length,
+    })) as never)
+    // sp-existing last seen at the same price and stock an hour ago
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([
+      { sourceProductId: 'sp-existing', price: 18.99, inStock: true, observedAt: new Date(NOW.getTime() - 3600_000) },
+    ] as never)
+  })
+
+  it('upserts source products, appends changed prices with SCRAPE provenance and queues the resolver', async () => {
+    const matcher = createMatcher([{ sourceProductId: 'sp-existing', productId: 'prod-1', needsResolver: false }])
+    const newOffer = offer({ sku: undefined, url: 'https://shop.example.com/products/blazer', upc: '076683052010', price: 21.5 })
+
+    const result = await writeCrawledOffers(
+      { sourceId: 'source-1', retailerId: 'retailer-1', executionId: 'exec-1', matcher, now: NOW },
+      [offer({ price: 99 }), offer(), newOffer]
+    )
+
+    expect(result).toEqual({
+      sourceProductsCreated: 1,
+      sourceProductsUpdated: 1,
+      pricesWritten: 1,
+      resolverEnqueued: 1,
+    })
+
+    // The later AE9DP duplicate wins, so its unchanged price is not rewritten
+    const created = vi.mocked(prisma.source_products.createMany).mock.calls[0][0]!.data as Array<Record<string, unknown>>
+    expect(created).toHaveLength(1)
+    expect(created[0]).toMatchObject({
+      sourceId: 'source-1',
+      identityKey: `URL_HASH:${computeUrlHash(newOffer.url)}`,
+      createdByRunId: 'exec-1',
+      lastUpdatedByRunId: 'exec-1',
+      caliber: '9mm',
+    })
+    const newId = created[0].id as string
+
+    expect(prisma.source_products.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'sp-existing' } })
+    )
+
+    const identifiers = vi.mocked(prisma.source_product_identifiers.createMany).mock.calls[0][0]!
+    expect(identifiers.skipDuplicates).toBe(true)
+    expect((identifiers.data as Array<{ sourceProductId: string; idType: string }>).filter(i => i.sourceProductId === newId).map(i => i.idType)).toEqual([
+      'UPC',
+      'URL_HASH',
+      'URL',
+    ])
+
+    expect(enqueueProductResolve).toHaveBeenCalledTimes(1)
+    expect(enqueueProductResolve).toHaveBeenCalledWith(newId, 'INGEST', 'test-resolver', {
+      sourceId: 'source-1',
+      identityKey: `URL_HASH:${computeUrlHash(newOffer.url)}`,
+    })
+
+    expect(prisma.prices.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          sourceProductId: newId,
+          productId: null,
+          retailerId: 'retailer-1',
+          sourceId: 'source-1',
+          price: 21.5,
+          inStock: true,
+          observedAt: NOW,
+          ingestionRunType: 'SCRAPE',
+          ingestionRunId: 'exec-1',
+        }),
+      ],
+    })
+  })
+
+  it('does nothing for an empty page', async () => {
+    const result = await writeCrawledOffers(
+      { sourceId: 'source-1', retailerId: 'retailer-1', executionId: 'exec-1', matcher: createMatcher([]), now: NOW },
+      []
+    )
+
+    expect(result.pricesWritten).toBe(0)
+    expect(prisma.source_products.findMany).not.toHaveBeenCalled()
+  })
+})
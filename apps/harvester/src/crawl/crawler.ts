@@ -0,0 +1,175 @@
+/**
+ * Source Crawler
+ *
+ * Walks a source's pages: robots.txt check → per-host rate limit → fetch →
+ * extract offers → write → next page per the pagination config (or the
+ * extraction rules' nextPage selector when set).
+ *
+ * Failure on the first page fails the execution. Failure on a later page
+ * stops pagination and keeps what was written (the execution still
+ * succeeds, with the failure in the execution log).
+ *
+ * Dependencies are injected so tests can run against a local HTTP server
+ * without Redis or Postgres.
+ */
+
+import type { SourceType } from '@ironscout/db'
+import { validateExtractionRules } from '@ironscout/db/extraction-rules.js'
+import type { PageFetcher, FetchedPage } from './fetcher'
+import type { RobotsPolicy } from './robots'
+import { effectiveDelayMs, type HostRateLimiter } from './rate-limiter'
+import { extractOffers, findNextPageUrl } from './extract'
+import type { CrawlWriteResult } from './writer'
+import {
+  CRAWLABLE_SOURCE_TYPES,
+  CrawlError,
+  parsePaginationConfig,
+  type CrawledOffer,
+} from './types'
+
+export type CrawlLogLevel = 'INFO' | 'WARN' | 'ERROR'
+
+export interface CrawlDependencies {
+  fetcher: PageFetcher
+  robots: RobotsPolicy
+  rateLimiter: HostRateLimiter
+  writeOffers(offers: CrawledOffer[]): Promise<CrawlWriteResult>
+  /** Execution log sink (execution_logs in the worker) */
+  log(level: CrawlLogLevel, event: string, message: string, metadata?: Record<string, unknown>): Promise<void>
+}
+
+export interface CrawlSourceInput {
+  url: string
+  type: SourceType
+  paginationConfig: unknown
+  /** sources.extractionRules; null uses the generic extractor */
+  extractionRules?: unknown
+}
+
+export type CrawlStopReason = 'COMPLETE' | 'MAX_PAGES' | 'ROBOTS_DISALLOWED' | 'PAGE_FAILED' | 'LOOP_DETECTED'
+
+export interface CrawlSummary extends CrawlWriteResult {
+  pagesFetched: number
+  offersFound: number
+  offersSkipped: number
+  stopReason: CrawlStopReason
+}
+
+/**
+ * Crawl one source
+ *
+ * @throws CrawlError when the source cannot be crawled at all (config, type,
+ *   robots or first-page failure)
+ */
+export async function crawlSource(source: CrawlSourceInput, deps: CrawlDependencies): Promise<CrawlSummary> {
+  if (!CRAWLABLE_SOURCE_TYPES.includes(source.type)) {
+    throw new CrawlError(`Source type ${source.type} is not crawlable`, 'UNSUPPORTED_SOURCE_TYPE')
+  }
+  const config = parsePaginationConfig(source.paginationConfig, source.type)
+  const { rules, errors } = validateExtractionRules(source.extractionRules ?? null, source.type)
+  if (errors.length > 0) {
+    throw new CrawlError(`Invalid extraction rules: ${errors.join('; ')}`, 'INVALID_CONFIG', { errors })
+  }
+
+  const summary: CrawlSummary = {
+    pagesFetched: 0,
+    offersFound: 0,
+    offersSkipped: 0,
+    sourceProductsCreated: 0,
+    sourceProductsUpdated: 0,
+    pricesWritten: 0,
+    resolverEnqueued: 0,
+    stopReason: 'COMPLETE',
+  }
+
+  const visited = new Set<string>()
+  let url: string | null = source.url
+  let pageIndex = 0
+
+  // A later page failing ends pagination; the first page failing ends the crawl
+  const pageFailed = async (error: CrawlError, pageUrl: string): Promise<void> => {
+    await deps.log('ERROR', 'CRAWL_PAGE_FAILED', error.message, { url: pageUrl, code: error.code, pageIndex })
+    if (pageIndex === 0) throw error
+    summary.stopReason = error.code === 'ROBOTS_DISALLOWED' ? 'ROBOTS_DISALLOWED' : 'PAGE_FAILED'
+  }
+
+  while (url) {
+    visited.add(url)
+
+    const robots = await deps.robots.check(url)
+    if (!robots.allowed) {
+      await pageFailed(
+        new CrawlError(
+          robots.reason === 'UNAVAILABLE' ? 'robots.txt unavailable (fail closed)' : 'Disallowed by robots.txt',
+          'ROBOTS_DISALLOWED',
+          { url }
+        ),
+        url
+      )
+      break
+    }
+
+    await deps.rateLimiter.acquire(new URL(url).host, effectiveDelayMs(robots.crawlDelaySeconds))
+
+    let page: FetchedPage
+    let extraction
+    try {
+      page = await deps.fetcher.fetch(url)
+      try {
+        extraction = extractOffers(source.type, page, config, rules)
+      } catch (err) {
+        throw new CrawlError(`Could not parse page: ${err instanceof Error ? err.message : String(err)}`, 'PARSE_FAILED')
+      }
+    } catch (err) {
+      const error = err instanceof CrawlError ? err : new CrawlError(String(err), 'FETCH_FAILED')
+      await pageFailed(error, url)
+      break
+    }
+
+    summary.pagesFetched++
+    summary.offersFound += extraction.offers.length
+    summary.offersSkipped += extraction.skipped
+
+    if (extraction.offers.length > 0) {
+      const written = await deps.writeOffers(extraction.offers)
+      summary.sourceProductsCreated += written.sourceProductsCreated
+      summary.sourceProductsUpdated += written.sourceProductsUpdated
+      summary.pricesWritten += written.pricesWritten
+      summary.resolverEnqueued += written.resolverEnqueued
+    }
+
+    await deps.log('INFO', 'CRAWL_PAGE_PROCESSED', `Extracted ${extraction.offers.length} offers`, {
+      url: page.url,
+      pageIndex,
+      offers: extraction.offers.length,
+      skipped: extraction.skipped,
+    })
+
+    let next: string | null
+    try {
+      next =
+        extraction.nextPageUrl !== undefined
+          ? extraction.nextPageUrl
+          : findNextPageUrl(source.type, page, config, source.url, pageIndex, extraction.offers.length)
+    } catch {
+      next = null
+    }
+    if (!next) break
+
+    if (visited.has(next)) {
+      summary.stopReason = 'LOOP_DETECTED'
+      await deps.log('WARN', 'CRAWL_PAGINATION_LOOP', 'Next page was already crawled', { url: next })
+      break
+    }
+    if (pageIndex + 1 >= config.maxPages) {
+      summary.stopReason = 'MAX_PAGES'
+      await deps.log('WARN', 'CRAWL_MAX_PAGES', `Stopped at ${config.maxPages} pages`, { nextUrl: next })
+      break
+    }
+
+    url = next
+    pageIndex++
+  }
+
+  return summary
+}
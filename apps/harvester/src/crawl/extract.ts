@@ -0,0 +1,456 @@
+/**
+ * Offer Extraction
+ *
+ * Deterministic extraction of offers from crawled pages:
+ * - HTML / JS_RENDERED: schema.org Product/Offer JSON-LD, then microdata
+ * - RSS: RSS 2.0 items and Atom entries (Google Merchant `g:` fields)
+ * - JSON: records at `itemsPath` (or the first array of objects), with
+ *   common field names
+ *
+ * Sources with extraction rules (sources.extractionRules) use those
+ * selectors instead; see @ironscout/db/extraction-rules.js.
+ *
+ * Records without a title, a positive price or a URL are skipped and counted.
+ * Availability that is missing or unrecognized counts as out of stock
+ * (ADR-009: fail closed rather than claim stock we did not see).
+ */
+
+import * as cheerio from 'cheerio'
+import { XMLParser } from 'fast-xml-parser'
+import type { SourceType } from '@ironscout/db'
+import {
+  applyExtractionRules,
+  parseAvailability,
+  parsePrice,
+  type ExtractionRules,
+} from '@ironscout/db/extraction-rules.js'
+import type { CrawledOffer, CrawlPaginationConfig } from './types'
+import type { FetchedPage } from './fetcher'
+
+export { parseAvailability, parsePrice }
+
+export interface ExtractionResult {
+  offers: CrawledOffer[]
+  /** Records found but missing a title, price or URL */
+  skipped: number
+  /** Set when extraction rules define nextPage (null: last page) */
+  nextPageUrl?: string | null
+}
+
+type JsonRecord = Record<string, unknown>
+
+// ============================================================================
+// VALUE HELPERS
+// ============================================================================
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value)
+  if (typeof value !== 'string') return undefined
+  const trimmed = value.replace(/\s+/g, ' ').trim()
+  return trimmed === '' ? undefined : trimmed
+}
+
+function parseCurrency(value: unknown, fallback = 'USD'): string {
+  const code = text(value)?.toUpperCase()
+  return code && /^[A-Z]{3}$/.test(code) ? code : fallback
+}
+
+function resolveUrl(value: unknown, baseUrl: string): string | undefined {
+  const raw = text(value)
+  if (!raw) return undefined
+  try {
+    return new URL(raw, baseUrl).toString()
+  } catch {
+    return undefined
+  }
+}
+
+function brandName(value: unknown): string | undefined {
+  if (isRecord(value)) return text(value.name)
+  return text(asArray(value)[0])
+}
+
+function imageUrl(value: unknown, baseUrl: string): string | undefined {
+  const first = asArray(value)[0]
+  return resolveUrl(isRecord(first) ? first.url ?? first.contentUrl : first, baseUrl)
+}
+
+function positiveInt(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseInt(value, 10) : value
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : undefined
+}
+
+function firstOf(record: JsonRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null && record[key] !== '') return record[key]
+  }
+  return undefined
+}
+
+/**
+ * Read a dot path ("data.products", "items.0.offers") from parsed JSON
+ */
+export function getPath(value: unknown, path: string): unknown {
+  let current = value
+  for (const segment of path.split('.').filter(Boolean)) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)]
+    } else if (isRecord(current)) {
+      current = current[segment]
+    } else {
+      return undefined
+    }
+  }
+  return current
+}
+
+function pushOffer(
+  result: ExtractionResult,
+  offer: Partial<Omit<CrawledOffer, 'price'>> & { price: number | null }
+): void {
+  if (!offer.title || !offer.url || offer.price === null) {
+    result.skipped++
+    return
+  }
+  result.offers.push({
+    ...offer,
+    title: offer.title,
+    url: offer.url,
+    price: offer.price,
+    currency: offer.currency ?? 'USD',
+    inStock: offer.inStock ?? false,
+  })
+}
+
+// ============================================================================
+// HTML: JSON-LD
+// ============================================================================
+
+function isProductNode(node: JsonRecord): boolean {
+  return asArray(node['@type'] as string | string[]).some(t => typeof t === 'string' && t.toLowerCase() === 'product')
+}
+
+/**
+ * Collect Product nodes from JSON-LD, descending into arrays, @graph and
+ * ItemList elements
+ */
+function collectProductNodes(value: unknown, out: JsonRecord[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectProductNodes(item, out)
+    return
+  }
+  if (!isRecord(value)) return
+
+  if (isProductNode(value)) {
+    out.push(value)
+    return
+  }
+  if (value['@graph']) collectProductNodes(value['@graph'], out)
+  if (value.itemListElement) collectProductNodes(value.itemListElement, out)
+  if (value.item) collectProductNodes(value.item, out)
+}
+
+function productNodeOffers(product: JsonRecord, pageUrl: string, result: ExtractionResult): void {
+  const base = {
+    title: text(product.name),
+    url: resolveUrl(product.url, pageUrl) ?? pageUrl,
+    sku: text(product.sku ?? product.mpn),
+    upc: text(firstOf(product, ['gtin12', 'gtin13', 'gtin', 'gtin14', 'gtin8'])),
+    brand: brandName(product.brand),
+    imageUrl: imageUrl(product.image, pageUrl),
+    description: text(product.description),
+  }
+
+  // AggregateOffer carries lowPrice and may nest individual offers
+  const offers = asArray(product.offers as unknown).flatMap(offer =>
+    isRecord(offer) && offer.offers ? [offer, ...asArray(offer.offers as unknown)] : [offer]
+  ).filter(isRecord)
+
+  const priced = offers.filter(offer => parsePrice(offer.price ?? offer.lowPrice) !== null)
+  if (priced.length === 0) {
+    pushOffer(result, { ...base, price: null })
+    return
+  }
+
+  // Nested offers replace their AggregateOffer when present
+  const individual = priced.filter(offer => offer.price !== undefined)
+  for (const offer of individual.length > 0 ? individual : priced) {
+    pushOffer(result, {
+      ...base,
+      url: resolveUrl(offer.url, pageUrl) ?? base.url,
+      sku: text(offer.sku) ?? base.sku,
+      upc: text(firstOf(offer, ['gtin12', 'gtin13', 'gtin'])) ?? base.upc,
+      price: parsePrice(offer.price ?? offer.lowPrice),
+      currency: parseCurrency(offer.priceCurrency),
+      inStock: parseAvailability(offer.availability),
+    })
+  }
+}
+
+function extractJsonLd($: cheerio.CheerioAPI, pageUrl: string, result: ExtractionResult): void {
+  const nodes: JsonRecord[] = []
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      collectProductNodes(JSON.parse($(el).text()), nodes)
+    } catch {
+      // Malformed JSON-LD blocks are common; ignore and keep going
+    }
+  })
+  for (const node of nodes) productNodeOffers(node, pageUrl, result)
+}
+
+// ============================================================================
+// HTML: MICRODATA
+// ============================================================================
+
+function extractMicrodata($: cheerio.CheerioAPI, pageUrl: string, result: ExtractionResult): void {
+  $('[itemscope][itemtype*="schema.org/Product"]').each((_, product) => {
+    // Value of an itemprop owned by `scope` (not by a nested itemscope)
+    const ownProps = (scope: typeof product, name: string) =>
+      $(scope)
+        .find(`[itemprop~="${name}"]`)
+        .filter((_, el) => $(el).parent().closest('[itemscope]').get(0) === scope)
+    const value = (scope: typeof product, name: string) => {
+      const node = ownProps(scope, name).first()
+      if (node.length === 0) return undefined
+      return text(node.attr('content') ?? node.attr('href') ?? node.attr('src') ?? node.attr('value') ?? node.text())
+    }
+
+    const prop = (name: string) => value(product, name)
+    const base = {
+      title: prop('name'),
+      url: resolveUrl(prop('url'), pageUrl) ?? pageUrl,
+      sku: prop('sku'),
+      upc: prop('gtin12') ?? prop('gtin13') ?? prop('gtin'),
+      brand: prop('brand'),
+      imageUrl: resolveUrl(prop('image'), pageUrl),
+      description: prop('description'),
+    }
+
+    const offers = ownProps(product, 'offers').toArray()
+    if (offers.length === 0) {
+      pushOffer(result, { ...base, price: parsePrice(prop('price')), inStock: parseAvailability(prop('availability')) })
+      return
+    }
+
+    for (const offer of offers) {
+      pushOffer(result, {
+        ...base,
+        url: resolveUrl(value(offer, 'url'), pageUrl) ?? base.url,
+        price: parsePrice(value(offer, 'price') ?? value(offer, 'lowPrice')),
+        currency: parseCurrency(value(offer, 'priceCurrency')),
+        inStock: parseAvailability(value(offer, 'availability')),
+      })
+    }
+  })
+}
+
+function extractHtmlOffers(page: FetchedPage): ExtractionResult {
+  const $ = cheerio.load(page.body)
+  const result: ExtractionResult = { offers: [], skipped: 0 }
+
+  extractJsonLd($, page.url, result)
+  // Microdata only when the page has no JSON-LD products (avoids double counting)
+  if (result.offers.length === 0 && result.skipped === 0) {
+    extractMicrodata($, page.url, result)
+  }
+  return result
+}
+
+// ============================================================================
+// RSS / ATOM
+// ============================================================================
+
+function extractRssOffers(page: FetchedPage): ExtractionResult {
+  // Keep tag values as text: GTINs and SKUs lose leading zeros as numbers
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', parseTagValue: false })
+  const doc = parser.parse(page.body) as JsonRecord
+  const result: ExtractionResult = { offers: [], skipped: 0 }
+
+  const channel = getPath(doc, 'rss.channel')
+  const items = [
+    ...asArray(isRecord(channel) ? (channel.item as unknown) : undefined),
+    ...asArray(getPath(doc, 'feed.entry')),
+  ].filter(isRecord)
+
+  for (const item of items) {
+    const links = asArray(item.link as unknown)
+    const link = links.map(l => (isRecord(l) ? l['@_href'] : l)).find(l => typeof l === 'string')
+    const title = text(item.title ?? item['g:title'])
+    const description = text(item.description ?? item.summary ?? item['g:description'])
+    const priceText = text(item['g:sale_price']) ?? text(item['g:price'])
+    const availability = item['g:availability']
+
+    pushOffer(result, {
+      title,
+      url: resolveUrl(item['g:link'] ?? link, page.url),
+      price: parsePrice(priceText) ?? parsePrice(title?.match(/\$\s?[\d,]*\.?\d+/)?.[0] ?? null),
+      currency: parseCurrency(priceText?.split(' ')[1]),
+      inStock: parseAvailability(availability),
+      sku: text(item['g:id'] ?? item['g:mpn']),
+      upc: text(item['g:gtin']),
+      brand: text(item['g:brand']),
+      imageUrl: resolveUrl(item['g:image_link'], page.url),
+      description,
+    })
+  }
+  return result
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+const JSON_ITEM_CONTAINERS = ['products', 'items', 'data', 'results', 'offers']
+
+function findJsonItems(data: unknown, itemsPath?: string): JsonRecord[] {
+  if (itemsPath) return asArray(getPath(data, itemsPath)).filter(isRecord)
+  if (Array.isArray(data)) return data.filter(isRecord)
+  if (!isRecord(data)) return []
+
+  for (const key of JSON_ITEM_CONTAINERS) {
+    const value = data[key]
+    if (Array.isArray(value)) return value.filter(isRecord)
+    if (isRecord(value)) {
+      const nested = findJsonItems(value)
+      if (nested.length > 0) return nested
+    }
+  }
+  const firstArray = Object.values(data).find(v => Array.isArray(v) && v.some(isRecord))
+  return asArray(firstArray as unknown[]).filter(isRecord)
+}
+
+function extractJsonOffers(page: FetchedPage, config: CrawlPaginationConfig): ExtractionResult {
+  const result: ExtractionResult = { offers: [], skipped: 0 }
+
+  for (const record of findJsonItems(JSON.parse(page.body), config.itemsPath)) {
+    const priceField = firstOf(record, ['salePrice', 'sale_price', 'price', 'currentPrice', 'regularPrice'])
+    const price = isRecord(priceField) ? priceField.amount ?? priceField.value : priceField
+    const currency = isRecord(priceField) ? priceField.currency : firstOf(record, ['currency', 'priceCurrency'])
+    const stock = firstOf(record, ['inStock', 'in_stock', 'available', 'availability', 'stock', 'quantity'])
+
+    pushOffer(result, {
+      title: text(firstOf(record, ['title', 'name', 'productName'])),
+      url: resolveUrl(firstOf(record, ['url', 'link', 'productUrl', 'href']), page.url),
+      price: parsePrice(price),
+      currency: parseCurrency(currency),
+      inStock: parseAvailability(stock),
+      sku: text(firstOf(record, ['sku', 'mpn'])),
+      upc: text(firstOf(record, ['upc', 'gtin', 'gtin12', 'gtin13', 'ean'])),
+      brand: brandName(firstOf(record, ['brand', 'manufacturer'])),
+      imageUrl: imageUrl(firstOf(record, ['imageUrl', 'image_url', 'image', 'images']), page.url),
+      description: text(record.description),
+      roundCount: positiveInt(firstOf(record, ['roundCount', 'round_count', 'rounds', 'roundsPerBox'])),
+    })
+  }
+  return result
+}
+
+// ============================================================================
+// EXTRACTION RULES
+// ============================================================================
+
+function extractRuleOffers(sourceType: SourceType, page: FetchedPage, rules: ExtractionRules): ExtractionResult {
+  const { records, nextPage } = applyExtractionRules(rules, page.body, {
+    pageUrl: page.url,
+    xml: sourceType === 'RSS',
+  })
+  const result: ExtractionResult = { offers: [], skipped: 0 }
+
+  for (const record of records) {
+    pushOffer(result, {
+      title: record.title ?? undefined,
+      url: record.url ?? undefined,
+      price: record.price,
+      currency: record.currency,
+      inStock: record.inStock,
+      sku: record.sku ?? undefined,
+      upc: record.upc ?? undefined,
+      roundCount: record.roundCount ?? undefined,
+    })
+  }
+  if (rules.nextPage) result.nextPageUrl = nextPage
+  return result
+}
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+/**
+ * Extract offers from a fetched page: the source's extraction rules when set,
+ * otherwise the generic extractor for the source type
+ */
+export function extractOffers(
+  sourceType: SourceType,
+  page: FetchedPage,
+  config: CrawlPaginationConfig,
+  rules: ExtractionRules | null = null
+): ExtractionResult {
+  if (rules) return extractRuleOffers(sourceType, page, rules)
+
+  switch (sourceType) {
+    case 'HTML':
+    case 'JS_RENDERED':
+      return extractHtmlOffers(page)
+    case 'RSS':
+      return extractRssOffers(page)
+    case 'JSON':
+      return extractJsonOffers(page, config)
+    default:
+      return { offers: [], skipped: 0 }
+  }
+}
+
+/**
+ * URL of the next page, or null when pagination ends
+ *
+ * @param sourceUrl - The source's first page (base for PAGE_PARAM and cursors)
+ * @param pageIndex - Zero-based index of `page` within this crawl
+ * @param offersOnPage - Offers extracted from `page` (PAGE_PARAM stops at zero)
+ */
+export function findNextPageUrl(
+  sourceType: SourceType,
+  page: FetchedPage,
+  config: CrawlPaginationConfig,
+  sourceUrl: string,
+  pageIndex: number,
+  offersOnPage: number
+): string | null {
+  switch (config.type) {
+    case 'NEXT_LINK': {
+      if (sourceType !== 'HTML' && sourceType !== 'JS_RENDERED') return null
+      const $ = cheerio.load(page.body)
+      const href = $(config.nextSelector).toArray().map(el => $(el).attr('href')).find(Boolean)
+      return resolveUrl(href, page.url) ?? null
+    }
+
+    case 'PAGE_PARAM': {
+      if (offersOnPage === 0) return null
+      const next = new URL(sourceUrl)
+      next.searchParams.set(config.pageParam, String(config.startPage + pageIndex + 1))
+      return next.toString()
+    }
+
+    case 'JSON_NEXT': {
+      if (sourceType !== 'JSON' || !config.nextPath) return null
+      const value = text(getPath(JSON.parse(page.body), config.nextPath))
+      if (!value) return null
+      if (config.cursorParam) {
+        const next = new URL(sourceUrl)
+        next.searchParams.set(config.cursorParam, value)
+        return next.toString()
+      }
+      return resolveUrl(value, page.url) ?? null
+    }
+
+    default:
+      return null
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Crawl Page Fetchers
+ *
+ * HTTP fetcher for HTML, RSS and JSON sources and a headless-browser fetcher
+ * for JS_RENDERED sources. Both identify as IronScout (USER_AGENT) and cap
+ * response size and time. Policy (robots.txt, rate limits) is applied by the
+ * crawler before calling fetch().
+ */
+
+import type { Browser } from 'puppeteer'
+import { CrawlError } from './types'
+
+export const CRAWL_USER_AGENT = process.env.USER_AGENT || 'IronScout/1.0 (+https://www.ironscout.ai)'
+
+const HTTP_TIMEOUT_MS = Number(process.env.HTTP_TIMEOUT_MS ?? 30000)
+const MAX_PAGE_BYTES = 10 * 1024 * 1024 // 10 MB
+
+export interface FetchedPage {
+  /** Final URL after redirects (base for relative links) */
+  url: string
+  status: number
+  contentType: string
+  body: string
+}
+
+export interface PageFetcher {
+  fetch(url: string): Promise<FetchedPage>
+  close(): Promise<void>
+}
+
+/**
+ * Plain HTTP fetcher (global fetch). Non-2xx responses throw FETCH_FAILED.
+ */
+export class HttpPageFetcher implements PageFetcher {
+  async fetch(url: string): Promise<FetchedPage> {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: {
+          'User-Agent': CRAWL_USER_AGENT,
+          Accept: 'text/html,application/xhtml+xml,application/rss+xml,application/xml,application/json;q=0.9,*/*;q=0.8',
+        },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      })
+    } catch (err) {
+      throw new CrawlError(
+        `HTTP request failed: ${err instanceof Error ? err.message : String(err)}`,
+        'FETCH_FAILED',
+        { url }
+      )
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new CrawlError(`HTTP ${response.status} for ${url}`, 'FETCH_FAILED', { url, status: response.status })
+    }
+
+    const declaredLength = Number(response.headers.get('content-length') ?? 0)
+    if (declaredLength > MAX_PAGE_BYTES) {
+      await response.body?.cancel()
+      throw new CrawlError(`Response too large (${declaredLength} bytes)`, 'FETCH_FAILED', { url })
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer())
+    if (buffer.length > MAX_PAGE_BYTES) {
+      throw new CrawlError(`Response too large (${buffer.length} bytes)`, 'FETCH_FAILED', { url })
+    }
+
+    return {
+      url: response.url || url,
+      status: response.status,
+      contentType: response.headers.get('content-type') ?? '',
+      body: buffer.toString('utf8'),
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Headless Chrome fetcher for JS_RENDERED sources. The browser is launched on
+ * first use and shared across the execution's pages; close() shuts it down.
+ * Puppeteer is loaded lazily so other source types never pay for it.
+ */
+export class RenderedPageFetcher implements PageFetcher {
+  private browser: Browser | null = null
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser) return this.browser
+
+    let puppeteer: typeof import('puppeteer')
+    try {
+      puppeteer = await import('puppeteer')
+    } catch (err) {
+      throw new CrawlError(
+        `JS_RENDERED sources require puppeteer: ${err instanceof Error ? err.message : String(err)}`,
+        'RENDERER_UNAVAILABLE'
+      )
+    }
+
+    this.browser = await puppeteer.default.launch({ headless: true, args: ['--no-sandbox'] })
+    return this.browser
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const browser = await this.getBrowser()
+    const page = await browser.newPage()
+    try {
+      await page.setUserAgent(CRAWL_USER_AGENT)
+      let response
+      try {
+        response = await page.goto(url, { waitUntil: 'networkidle2', timeout: HTTP_TIMEOUT_MS })
+      } catch (err) {
+        throw new CrawlError(
+          `Render failed: ${err instanceof Error ? err.message : String(err)}`,
+          'FETCH_FAILED',
+          { url }
+        )
+      }
+
+      const status = response?.status() ?? 0
+      if (status < 200 || status >= 300) {
+        throw new CrawlError(`HTTP ${status} for ${url}`, 'FETCH_FAILED', { url, status })
+      }
+
+      return {
+        url: page.url(),
+        status,
+        contentType: 'text/html',
+        body: await page.content(),
+      }
+    } finally {
+      await page.close().catch(() => {})
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.browser) {
+      await this.browser.close().catch(() => {})
+      this.browser = null
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Crawl Module
+ *
+ * Crawls HTML, JS_RENDERED, RSS and JSON sources from the `crawl` queue and
+ * writes source_products / prices with SCRAPE provenance. Exports worker,
+ * crawler and extraction.
+ */
+
+export {
+  startCrawlWorker,
+  stopCrawlWorker,
+  getCrawlWorkerMetrics,
+} from './worker'
+
+export { crawlSource } from './crawler'
+export { extractOffers, findNextPageUrl } from './extract'
+export { parsePaginationConfig, CrawlError } from './types'
+
+export type { CrawlSummary, CrawlDependencies } from './crawler'
+export type { CrawledOffer, CrawlPaginationConfig } from './types'
@@ -0,0 +1,72 @@
+/**
+ * Per-Host Crawl Rate Limiter
+ *
+ * Spaces requests to the same host by at least `minDelayMs`. The Redis
+ * implementation reserves the next slot atomically so every harvester
+ * instance shares one budget per host; the local implementation is for tests
+ * and one-off scripts.
+ */
+
+import type { Redis } from 'ioredis'
+
+/** Default spacing between requests to one host (robots Crawl-delay can raise it) */
+export const CRAWL_MIN_DELAY_MS = Number(process.env.CRAWL_MIN_DELAY_MS ?? 2000)
+
+/** Upper bound honored for robots.txt Crawl-delay */
+export const MAX_CRAWL_DELAY_MS = 60_000
+
+const KEY_PREFIX = 'crawl:ratelimit:'
+
+export interface HostRateLimiter {
+  /** Resolve when a request to `host` may be sent */
+  acquire(host: string, minDelayMs: number): Promise<void>
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * Delay for a host: the default, raised to the robots.txt Crawl-delay (capped)
+ */
+export function effectiveDelayMs(crawlDelaySeconds: number | null): number {
+  if (crawlDelaySeconds === null) return CRAWL_MIN_DELAY_MS
+  return Math.max(CRAWL_MIN_DELAY_MS, Math.min(crawlDelaySeconds * 1000, MAX_CRAWL_DELAY_MS))
+}
+
+// Reserve the next free slot for a host and push the following one out by
+// the delay. Returns the reserved slot (epoch ms).
+const RESERVE_SLOT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local delay = tonumber(ARGV[2])
+local nextAt = tonumber(redis.call('GET', KEYS[1]) or '0')
+local slot = math.max(now, nextAt)
+redis.call('SET', KEYS[1], slot + delay, 'PX', slot - now + delay + 1000)
+return slot
+`
+
+export function createRedisRateLimiter(redis: Redis): HostRateLimiter {
+  return {
+    async acquire(host, minDelayMs) {
+      const now = Date.now()
+      const slot = Number(
+        await redis.eval(RESERVE_SLOT_SCRIPT, 1, `${KEY_PREFIX}${host.toLowerCase()}`, now, minDelayMs)
+      )
+      if (slot > now) await sleep(slot - now)
+    },
+  }
+}
+
+export function createLocalRateLimiter(
+  now: () => number = Date.now,
+  wait: (ms: number) => Promise<void> = sleep
+): HostRateLimiter {
+  const nextAt = new Map<string, number>()
+  return {
+    async acquire(host, minDelayMs) {
+      const key = host.toLowerCase()
+      const current = now()
+      const slot = Math.max(current, nextAt.get(key) ?? 0)
+      nextAt.set(key, slot + minDelayMs)
+      if (slot > current) await wait(slot - current)
+    },
+  }
+}
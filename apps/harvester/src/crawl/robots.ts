@@ -0,0 +1,184 @@
+/**
+ * robots.txt Policy
+ *
+ * Parses robots.txt and answers "may IronScout fetch this URL?" per origin.
+ *
+ * Rules:
+ * - The most specific matching group wins: `User-agent: IronScout`, else `*`
+ * - Longest matching Allow/Disallow pattern wins; Allow wins ties
+ * - `*` and `$` wildcards are supported
+ * - 4xx robots.txt (e.g. 404) means no restrictions
+ * - 5xx or network failure fails closed (ADR-009) until the short retry TTL
+ * - Parsed files are cached for 24 hours per origin
+ */
+
+import { CRAWL_USER_AGENT } from './fetcher'
+
+export const ROBOTS_AGENT_TOKEN = 'ironscout'
+
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const ROBOTS_UNAVAILABLE_TTL_MS = 10 * 60 * 1000
+const ROBOTS_TIMEOUT_MS = 10000
+
+interface RobotsRule {
+  allow: boolean
+  pattern: string
+  regex: RegExp
+}
+
+export interface RobotsRules {
+  /** Seconds from Crawl-delay in the matched group, if any */
+  crawlDelaySeconds: number | null
+  isAllowed(pathWithQuery: string): boolean
+}
+
+export interface RobotsDecision {
+  allowed: boolean
+  /** DISALLOWED by a rule, or robots.txt UNAVAILABLE (fail closed) */
+  reason?: 'DISALLOWED' | 'UNAVAILABLE'
+  crawlDelaySeconds: number | null
+}
+
+export type RobotsTxtLoader = (robotsUrl: string) => Promise<{ status: number; body: string }>
+
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Parse robots.txt for one agent token (lowercase, e.g. "ironscout")
+ */
+export function parseRobotsTxt(content: string, agentToken: string = ROBOTS_AGENT_TOKEN): RobotsRules {
+  interface Group { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }
+  const groups: Group[] = []
+  let current: Group | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (!current) continue
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything; it adds no rule
+      if (value === '') continue
+      current.rules.push({ allow: field === 'allow', pattern: value, regex: patternToRegex(value) })
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value)
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay
+    }
+  }
+
+  const specific = groups.filter(g => g.agents.some(a => a !== '*' && agentToken.includes(a)))
+  const matched = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'))
+  const rules = matched.flatMap(g => g.rules)
+  const crawlDelays = matched.map(g => g.crawlDelay).filter((d): d is number => d !== null)
+
+  return {
+    crawlDelaySeconds: crawlDelays.length > 0 ? Math.max(...crawlDelays) : null,
+    isAllowed(pathWithQuery: string) {
+      let best: RobotsRule | null = null
+      for (const rule of rules) {
+        if (!rule.regex.test(pathWithQuery)) continue
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule
+        }
+      }
+      return best ? best.allow : true
+    },
+  }
+}
+
+/**
+ * Fetch robots.txt over HTTP with the crawler's User-Agent
+ */
+export const loadRobotsTxt: RobotsTxtLoader = async (robotsUrl) => {
+  const response = await fetch(robotsUrl, {
+    headers: { 'User-Agent': CRAWL_USER_AGENT },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+  })
+  return { status: response.status, body: response.ok ? await response.text() : '' }
+}
+
+/**
+ * Per-origin robots.txt cache and decision point
+ */
+export class RobotsPolicy {
+  private cache = new Map<string, { rules: RobotsRules | null; expiresAt: number }>()
+
+  constructor(
+    private readonly loader: RobotsTxtLoader = loadRobotsTxt,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async check(url: string): Promise<RobotsDecision> {
+    const parsed = new URL(url)
+    const rules = await this.getRules(parsed.origin)
+
+    if (!rules) {
+      return { allowed: false, reason: 'UNAVAILABLE', crawlDelaySeconds: null }
+    }
+
+    const allowed = rules.isAllowed(parsed.pathname + parsed.search)
+    return {
+      allowed,
+      reason: allowed ? undefined : 'DISALLOWED',
+      crawlDelaySeconds: rules.crawlDelaySeconds,
+    }
+  }
+
+  /**
+   * Rules for an origin; null while robots.txt is unavailable
+   */
+  private async getRules(origin: string): Promise<RobotsRules | null> {
+    const cached = this.cache.get(origin)
+    if (cached && cached.expiresAt > this.now()) return cached.rules
+
+    let rules: RobotsRules | null
+    try {
+      const { status, body } = await this.loader(`${origin}/robots.txt`)
+      if (status >= 200 && status < 300) {
+        rules = parseRobotsTxt(body)
+      } else if (status >= 400 && status < 500) {
+        rules = parseRobotsTxt('')
+      } else {
+        rules = null
+      }
+    } catch {
+      rules = null
+    }
+
+    this.cache.set(origin, {
+      rules,
+      expiresAt: this.now() + (rules ? ROBOTS_CACHE_TTL_MS : ROBOTS_UNAVAILABLE_TTL_MS),
+    })
+    return rules
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Crawl Types
+ *
+ * Shapes shared by the crawl worker: the pagination config stored on
+ * sources.paginationConfig, the offers extracted from crawled pages, and the
+ * typed crawl error.
+ */
+
+import type { SourceType } from '@ironscout/db'
+
+// ============================================================================
+// OFFERS
+// ============================================================================
+
+/**
+ * One offer extracted from a crawled page (JSON-LD, microdata, RSS item or
+ * JSON record). URLs are absolute; price is in `currency` units.
+ */
+export interface CrawledOffer {
+  title: string
+  url: string
+  price: number
+  currency: string
+  inStock: boolean
+  sku?: string
+  upc?: string
+  brand?: string
+  imageUrl?: string
+  description?: string
+  /** Explicit round count from the page; otherwise derived from the title */
+  roundCount?: number
+}
+
+// ============================================================================
+// PAGINATION CONFIG (sources.paginationConfig)
+// ============================================================================
+
+/**
+ * How the crawler finds the next page:
+ * - NONE: only the source URL
+ * - NEXT_LINK: follow the href of `nextSelector` (default rel="next")
+ * - PAGE_PARAM: increment a query parameter until a page yields no offers
+ * - JSON_NEXT: follow the URL (or cursor) at `nextPath` in a JSON response
+ */
+export type CrawlPaginationType = 'NONE' | 'NEXT_LINK' | 'PAGE_PARAM' | 'JSON_NEXT'
+
+export interface CrawlPaginationConfig {
+  type: CrawlPaginationType
+  /** NEXT_LINK: CSS selector for the next-page link */
+  nextSelector: string
+  /** PAGE_PARAM: query parameter carrying the page number */
+  pageParam: string
+  /** PAGE_PARAM: number of the source URL's page */
+  startPage: number
+  /** Hard cap on pages fetched per execution */
+  maxPages: number
+  /** JSON: dot path to the offer array (auto-detected when unset) */
+  itemsPath?: string
+  /** JSON_NEXT: dot path to the next page URL or cursor */
+  nextPath?: string
+  /** JSON_NEXT: when nextPath holds a cursor, the query parameter to set it on */
+  cursorParam?: string
+}
+
+export const DEFAULT_NEXT_SELECTOR = 'link[rel="next"], a[rel="next"]'
+
+/** Default and ceiling for pages per execution */
+export const CRAWL_MAX_PAGES = Number(process.env.CRAWL_MAX_PAGES ?? 20)
+
+const PAGINATION_TYPES: CrawlPaginationType[] = ['NONE', 'NEXT_LINK', 'PAGE_PARAM', 'JSON_NEXT']
+
+/** Source types the crawl worker handles (feed types go through affiliate/merchant ingest) */
+export const CRAWLABLE_SOURCE_TYPES: SourceType[] = ['HTML', 'JS_RENDERED', 'RSS', 'JSON']
+
+/**
+ * Validate sources.paginationConfig and fill defaults for the source type.
+ * Null means "defaults": follow rel="next" on HTML pages, single page otherwise.
+ *
+ * @throws CrawlError INVALID_CONFIG when the stored config is malformed
+ */
+export function parsePaginationConfig(raw: unknown, sourceType: SourceType): CrawlPaginationConfig {
+  const config = raw ?? {}
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new CrawlError('paginationConfig must be an object', 'INVALID_CONFIG')
+  }
+  const input = config as Record<string, unknown>
+
+  const optionalString = (key: string): string | undefined => {
+    const value = input[key]
+    if (value === undefined || value === null) return undefined
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new CrawlError(`paginationConfig.${key} must be a non-empty string`, 'INVALID_CONFIG')
+    }
+    return value.trim()
+  }
+  const optionalNonNegativeInt = (key: string): number | undefined => {
+    const value = input[key]
+    if (value === undefined || value === null) return undefined
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new CrawlError(`paginationConfig.${key} must be a non-negative integer`, 'INVALID_CONFIG')
+    }
+    return value
+  }
+
+  const nextPath = optionalString('nextPath')
+  const isPageSource = sourceType === 'HTML' || sourceType === 'JS_RENDERED'
+  const defaultType: CrawlPaginationType = nextPath ? 'JSON_NEXT' : isPageSource ? 'NEXT_LINK' : 'NONE'
+
+  const type = (optionalString('type') ?? defaultType) as CrawlPaginationType
+  if (!PAGINATION_TYPES.includes(type)) {
+    throw new CrawlError(`Unknown pagination type "${type}"`, 'INVALID_CONFIG')
+  }
+  if (type === 'JSON_NEXT' && !nextPath) {
+    throw new CrawlError('JSON_NEXT pagination requires paginationConfig.nextPath', 'INVALID_CONFIG')
+  }
+
+  return {
+    type,
+    nextSelector: optionalString('nextSelector') ?? DEFAULT_NEXT_SELECTOR,
+    pageParam: optionalString('pageParam') ?? 'page',
+    startPage: optionalNonNegativeInt('startPage') ?? 1,
+    maxPages: Math.min(Math.max(optionalNonNegativeInt('maxPages') ?? CRAWL_MAX_PAGES, 1), CRAWL_MAX_PAGES),
+    itemsPath: optionalString('itemsPath'),
+    nextPath,
+    cursorParam: optionalString('cursorParam'),
+  }
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type CrawlErrorCode =
+  | 'INVALID_CONFIG'
+  | 'UNSUPPORTED_SOURCE_TYPE'
+  | 'ROBOTS_DISALLOWED'
+  | 'FETCH_FAILED'
+  | 'PARSE_FAILED'
+  | 'RENDERER_UNAVAILABLE'
+
+/**
+ * Typed error for crawl executions; `code` is recorded on the execution log
+ */
+export class CrawlError extends Error {
+  readonly code: CrawlErrorCode
+  readonly details?: Record<string, unknown>
+
+  constructor(message: string, code: CrawlErrorCode, details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'CrawlError'
+    this.code = code
+    this.details = details
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Crawl BullMQ Worker
+ *
+ * Consumes the `crawl` queue (POST /api/harvester/trigger creates a PENDING
+ * execution and enqueues { sourceId, executionId }). Each job crawls one
+ * source and records the run on `executions` / `execution_logs`.
+ *
+ * Per-host rate limits are shared across harvester instances through Redis;
+ * robots.txt is cached per process for 24 hours.
+ */
+
+import { Worker, Job } from 'bullmq'
+import type { Redis } from 'ioredis'
+import { prisma, type LogLevel } from '@ironscout/db'
+import { redisConnection, createRedisClient } from '../config/redis'
+import { QUEUE_NAMES, CrawlJobData } from '../config/queues'
+import { logger } from '../config/logger'
+import { ProductMatcher } from '../affiliate/product-matcher'
+import { crawlSource } from './crawler'
+import { HttpPageFetcher, RenderedPageFetcher } from './fetcher'
+import { RobotsPolicy } from './robots'
+import { createRedisRateLimiter } from './rate-limiter'
+import { writeCrawledOffers } from './writer'
+import { CrawlError } from './types'
+
+const log = logger.crawl
+
+const CRAWL_WORKER_CONCURRENCY = Number(process.env.CRAWL_WORKER_CONCURRENCY ?? 2)
+
+// Metrics
+let processedCount = 0
+let errorCount = 0
+let lastProcessedAt: Date | null = null
+
+let redis: Redis | null = null
+const robotsPolicy = new RobotsPolicy()
+
+/**
+ * Crawl Worker instance
+ * Created lazily by startCrawlWorker()
+ */
+export let crawlWorker: Worker<CrawlJobData> | null = null
+
+/**
+ * Append an execution log row. Logging must never fail the crawl.
+ */
+async function recordExecutionLog(
+  executionId: string,
+  level: LogLevel,
+  event: string,
+  message: string,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  try {
+    await prisma.execution_logs.create({
+      data: { executionId, level, event, message, metadata: metadata as object | undefined },
+    })
+  } catch (error) {
+    log.warn('CRAWL_EXECUTION_LOG_FAILED', {
+      event_name: 'CRAWL_EXECUTION_LOG_FAILED',
+      executionId,
+      event,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Process a single crawl job
+ */
+async function processCrawlJob(job: Job<CrawlJobData>): Promise<void> {
+  const { executionId } = job.data
+  const startTime = Date.now()
+
+  const execution = await prisma.executions.findUnique({
+    where: { id: executionId },
+    include: { sources: true },
+  })
+
+  if (!execution) {
+    log.warn('CRAWL_EXECUTION_NOT_FOUND', { event_name: 'CRAWL_EXECUTION_NOT_FOUND', jobId: job.id, executionId })
+    return
+  }
+  // Finished executions are not re-run (duplicate job or retry after failure)
+  if (execution.status === 'SUCCESS' || execution.status === 'FAILED') {
+    log.debug('CRAWL_EXECUTION_ALREADY_FINISHED', { executionId, status: execution.status })
+    return
+  }
+
+  const source = execution.sources
+  const sourceLog = log.child({ executionId, sourceId: source.id })
+
+  if (!source.enabled) {
+    await prisma.executions.update({
+      where: { id: executionId },
+      data: { status: 'FAILED', completedAt: new Date(), errorMessage: 'Source is disabled' },
+    })
+    await recordExecutionLog(executionId, 'WARN', 'CRAWL_SKIPPED_DISABLED', 'Source is disabled')
+    return
+  }
+
+  await prisma.executions.update({
+    where: { id: executionId },
+    data: {
+      status: 'RUNNING',
+      startedAt: new Date(startTime),
+      extractionRulesVersionId: source.extractionRulesVersionId,
+    },
+  })
+  await recordExecutionLog(executionId, 'INFO', 'CRAWL_START', `Crawling ${source.url}`, {
+    sourceType: source.type,
+    extractionRulesVersionId: source.extractionRulesVersionId,
+  })
+  sourceLog.info('CRAWL_START', { event_name: 'CRAWL_START', sourceType: source.type, url: source.url })
+
+  const fetcher = source.type === 'JS_RENDERED' ? new RenderedPageFetcher() : new HttpPageFetcher()
+  const matcher = new ProductMatcher()
+
+  try {
+    const summary = await crawlSource(source, {
+      fetcher,
+      robots: robotsPolicy,
+      rateLimiter: createRedisRateLimiter(redis!),
+      writeOffers: offers =>
+        writeCrawledOffers(
+          { sourceId: source.id, retailerId: source.retailerId, executionId, matcher },
+          offers
+        ),
+      log: (level, event, message, metadata) => recordExecutionLog(executionId, level, event, message, metadata),
+    })
+
+    const completedAt = new Date()
+    await prisma.executions.update({
+      where: { id: executionId },
+      data: {
+        status: 'SUCCESS',
+        completedAt,
+        duration: completedAt.getTime() - startTime,
+        itemsFound: summary.offersFound,
+        itemsUpserted: summary.sourceProductsCreated + summary.sourceProductsUpdated,
+      },
+    })
+    await prisma.sources.update({ where: { id: source.id }, data: { lastRunAt: completedAt } })
+    await recordExecutionLog(executionId, 'INFO', 'CRAWL_COMPLETE', `Crawled ${summary.pagesFetched} pages`, {
+      ...summary,
+    })
+
+    sourceLog.info('CRAWL_COMPLETED', {
+      event_name: 'CRAWL_COMPLETED',
+      durationMs: completedAt.getTime() - startTime,
+      ...summary,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const completedAt = new Date()
+    await prisma.executions.update({
+      where: { id: executionId },
+      data: {
+        status: 'FAILED',
+        completedAt,
+        duration: completedAt.getTime() - startTime,
+        errorMessage: message,
+      },
+    })
+    await recordExecutionLog(executionId, 'ERROR', 'CRAWL_FAILED', message, {
+      code: error instanceof CrawlError ? error.code : undefined,
+    })
+    throw error
+  } finally {
+    await fetcher.close()
+  }
+}
+
+/**
+ * Start the Crawl worker
+ */
+export async function startCrawlWorker(): Promise<Worker<CrawlJobData>> {
+  log.info('CRAWL_WORKER_START', {
+    event_name: 'CRAWL_WORKER_START',
+    queueName: QUEUE_NAMES.CRAWL,
+    concurrency: CRAWL_WORKER_CONCURRENCY,
+  })
+
+  redis = createRedisClient()
+
+  crawlWorker = new Worker<CrawlJobData>(
+    QUEUE_NAMES.CRAWL,
+    async (job: Job<CrawlJobData>) => {
+      return processCrawlJob(job)
+    },
+    {
+      connection: redisConnection,
+      concurrency: CRAWL_WORKER_CONCURRENCY,
+    }
+  )
+
+  crawlWorker.on('completed', () => {
+    processedCount++
+    lastProcessedAt = new Date()
+  })
+
+  crawlWorker.on('failed', (job: Job<CrawlJobData> | undefined, error: Error) => {
+    errorCount++
+    log.error(
+      'CRAWL_FAILED',
+      {
+        event_name: 'CRAWL_FAILED',
+        jobId: job?.id,
+        sourceId: job?.data?.sourceId,
+        executionId: job?.data?.executionId,
+        errorCode: error instanceof CrawlError ? error.code : undefined,
+        errorMessage: error.message,
+        errorCount,
+      },
+      error
+    )
+  })
+
+  crawlWorker.on('error', (error: Error) => {
+    log.warn('CRAWL_WORKER_ERROR', {
+      event_name: 'CRAWL_WORKER_ERROR',
+      errorMessage: error.message,
+    })
+  })
+
+  return crawlWorker
+}
+
+/**
+ * Stop the Crawl worker gracefully
+ */
+export async function stopCrawlWorker(): Promise<void> {
+  if (crawlWorker) {
+    log.info('CRAWL_WORKER_STOPPING', {
+      event_name: 'CRAWL_WORKER_STOPPING',
+      processedCount,
+      errorCount,
+    })
+    await crawlWorker.close()
+    crawlWorker = null
+  }
+  if (redis) {
+    await redis.quit()
+    redis = null
+  }
+}
+
+/**
+ * Get worker metrics
+ */
+export function getCrawlWorkerMetrics() {
+  return {
+    processedCount,
+    errorCount,
+    lastProcessedAt,
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Crawl Offer Writer
+ *
+ * Writes one page of crawled offers through the unified ingestion pattern:
+ * source_products (+ identifiers) → UPC match or resolver → prices with
+ * SCRAPE provenance (ADR-015: ingestionRunType SCRAPE, ingestionRunId =
+ * execution id).
+ *
+ * Identity: SKU > URL hash, namespaced the same way as affiliate feeds
+ * ("SKU:abc", "URL_HASH:<sha256>"). Duplicate identities on a page: last wins.
+ *
+ * Prices are append-only and written only when price or stock changed, or the
+ * last observation is older than PRICE_HEARTBEAT_HOURS.
+ */
+
+import { prisma } from '@ironscout/db'
+import { createId } from '@paralleldrive/cuid2'
+import { computeUrlHash, normalizeUrl } from '../affiliate/parser'
+import type { ProductMatcher } from '../affiliate/product-matcher'
+import { enqueueProductResolve } from '../config/queues'
+import { RESOLVER_VERSION } from '../resolver'
+import { extractCaliber, extractGrainWeight, extractRoundCount } from '../utils/ammo-utils'
+import type { CrawledOffer } from './types'
+
+const HEARTBEAT_HOURS = Number(process.env.PRICE_HEARTBEAT_HOURS ?? 24)
+const HEARTBEAT_MS = HEARTBEAT_HOURS * 60 * 60 * 1000
+
+export interface CrawlWriteContext {
+  sourceId: string
+  retailerId: string
+  executionId: string
+  /** Run-local UPC matcher (one per execution) */
+  matcher: ProductMatcher
+  now?: Date
+}
+
+export interface CrawlWriteResult {
+  sourceProductsCreated: number
+  sourceProductsUpdated: number
+  pricesWritten: number
+  resolverEnqueued: number
+}
+
+interface LastPrice {
+  sourceProductId: string
+  price: number
+  inStock: boolean
+  observedAt: Date
+}
+
+/**
+ * Canonical identity key for a crawled offer
+ */
+export function crawlIdentityKey(offer: CrawledOffer): string {
+  const sku = offer.sku?.trim()
+  return sku ? `SKU:${sku}` : `URL_HASH:${computeUrlHash(offer.url)}`
+}
+
+function identifiersFor(offer: CrawledOffer, sourceProductId: string) {
+  const sku = offer.sku?.trim()
+  const upc = offer.upc?.trim()
+  const urlHash = computeUrlHash(offer.url)
+
+  // Empty-string namespace (not null) so the unique constraint applies
+  return [
+    ...(sku
+      ? [{ sourceProductId, idType: 'SKU' as const, idValue: sku, namespace: '', isCanonical: true, normalizedValue: sku.toUpperCase() }]
+      : []),
+    ...(upc
+      ? [{ sourceProductId, idType: 'UPC' as const, idValue: upc, namespace: '', isCanonical: false, normalizedValue: upc.replace(/^0+/, '') }]
+      : []),
+    { sourceProductId, idType: 'URL_HASH' as const, idValue: urlHash, namespace: '', isCanonical: !sku, normalizedValue: urlHash },
+    { sourceProductId, idType: 'URL' as const, idValue: offer.url, namespace: '', isCanonical: false, normalizedValue: normalizeUrl(offer.url) },
+  ]
+}
+
+/**
+ * Decide whether a new observation should be appended
+ */
+export function shouldWritePrice(offer: CrawledOffer, last: LastPrice | undefined, now: Date): boolean {
+  if (!last) return true
+  if (Math.abs(last.price - offer.price) >= 0.005) return true
+  if (last.inStock !== offer.inStock) return true
+  return now.getTime() - last.observedAt.getTime() >= HEARTBEAT_MS
+}
+
+export async function writeCrawledOffers(
+  context: CrawlWriteContext,
+  offers: CrawledOffer[]
+): Promise<CrawlWriteResult> {
+  const now = context.now ?? new Date()
+  const result: CrawlWriteResult = {
+    sourceProductsCreated: 0,
+    sourceProductsUpdated: 0,
+    pricesWritten: 0,
+    resolverEnqueued: 0,
+  }
+
+  const byIdentity = new Map<string, CrawledOffer>()
+  for (const offer of offers) byIdentity.set(crawlIdentityKey(offer), offer)
+  if (byIdentity.size === 0) return result
+
+  // ── source_products ──────────────────────────────────────────────────────
+  const existing = await prisma.source_products.findMany({
+    where: { sourceId: context.sourceId, identityKey: { in: [...byIdentity.keys()] } },
+    select: { id: true, identityKey: true },
+  })
+  const existingIdByKey = new Map(existing.map(sp => [sp.identityKey!, sp.id]))
+
+  const written: Array<{ id: string; identityKey: string; offer: CrawledOffer }> = []
+  const creates = []
+  const updates = []
+
+  for (const [identityKey, offer] of byIdentity) {
+    const fields = {
+      title: offer.title,
+      url: offer.url,
+      imageUrl: offer.imageUrl ?? null,
+      brand: offer.brand ?? null,
+      description: offer.description ?? null,
+      caliber: extractCaliber(offer.title),
+      grainWeight: extractGrainWeight(offer.title),
+      roundCount: offer.roundCount ?? extractRoundCount(offer.title),
+      normalizedUrl: normalizeUrl(offer.url),
+      lastUpdatedByRunId: context.executionId,
+    }
+
+    const existingId = existingIdByKey.get(identityKey)
+    if (existingId) {
+      updates.push(prisma.source_products.update({ where: { id: existingId }, data: fields }))
+      written.push({ id: existingId, identityKey, offer })
+    } else {
+      const id = createId()
+      creates.push({
+        id,
+        sourceId: context.sourceId,
+        identityKey,
+        createdByRunId: context.executionId,
+        ...fields,
+      })
+      written.push({ id, identityKey, offer })
+    }
+  }
+
+  if (creates.length > 0) {
+    await prisma.source_products.createMany({ data: creates })
+  }
+  if (updates.length > 0) {
+    await prisma.$transaction(updates)
+  }
+  result.sourceProductsCreated = creates.length
+  result.sourceProductsUpdated = updates.length
+
+  await prisma.source_product_identifiers.createMany({
+    data: written.flatMap(w => identifiersFor(w.offer, w.id)),
+    skipDuplicates: true,
+  })
+
+  // ── Canonical product: UPC match, otherwise resolver ─────────────────────
+  const matches = await context.matcher.batchMatchByUpc(
+    written.map(w => ({ id: w.id, upc: w.offer.upc ?? null }))
+  )
+  const matchBySourceProduct = new Map(matches.map(m => [m.sourceProductId, m]))
+
+  const needsResolver = written.filter(w => matchBySourceProduct.get(w.id)?.needsResolver)
+  const enqueued = await Promise.all(
+    needsResolver.map(w =>
+      enqueueProductResolve(w.id, 'INGEST', RESOLVER_VERSION, {
+        sourceId: context.sourceId,
+        identityKey: w.identityKey,
+      })
+    )
+  )
+  result.resolverEnqueued = enqueued.filter(Boolean).length
+
+  // ── prices (append-only, SCRAPE provenance) ──────────────────────────────
+  const sourceProductIds = written.map(w => w.id)
+  const lastPrices = await prisma.$queryRaw<LastPrice[]>`
+    SELECT DISTINCT ON ("sourceProductId")
+      "sourceProductId",
+      "price"::float8 AS price,
+      "inStock",
+      "observedAt"
+    FROM prices
+    WHERE "sourceProductId" = ANY(${sourceProductIds}::text[])
+    ORDER BY "sourceProductId", "observedAt" DESC
+  `
+  const lastBySourceProduct = new Map(lastPrices.map(p => [p.sourceProductId, p]))
+
+  const pricesToWrite = written
+    .filter(w => shouldWritePrice(w.offer, lastBySourceProduct.get(w.id), now))
+    .map(w => ({
+      sourceProductId: w.id,
+      productId: matchBySourceProduct.get(w.id)?.productId ?? null,
+      retailerId: context.retailerId,
+      sourceId: context.sourceId,
+      price: w.offer.price,
+      currency: w.offer.currency,
+      url: w.offer.url,
+      inStock: w.offer.inStock,
+      createdAt: now,
+      observedAt: now,
+      ingestionRunType: 'SCRAPE' as const,
+      ingestionRunId: context.executionId,
+    }))
+
+  if (pricesToWrite.length > 0) {
+    const { count } = await prisma.prices.createMany({ data: pricesToWrite })
+    result.pricesWritten = count
+  }
+
+  return result
+}
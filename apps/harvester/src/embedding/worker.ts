@@ -2,7 +2,9 @@
  * Embedding Generation BullMQ Worker
  *
  * Processes GENERATE_EMBEDDING jobs from the embedding-generate queue.
- * Generates vector embeddings for products using OpenAI's embedding API.
+ * Generates vector embeddings for products with the configured embedding
+ * provider (EMBEDDING_PROVIDER: openai, local or none) and records the model
+ * that produced each embedding in products.embeddingModel.
  *
  * Triggered:
  * - After successful product resolution (when AUTO_EMBEDDING_ENABLED)
@@ -13,18 +15,19 @@
 import { Worker, Job } from 'bullmq'
 import OpenAI from 'openai'
 import { prisma, buildProductText } from '@ironscout/db'
+// Import embedding-provider directly to avoid circular import issues
+import { createEmbeddingProvider } from '@ironscout/db/embedding-provider.js'
 import { redisConnection } from '../config/redis'
 import { QUEUE_NAMES, EmbeddingGenerateJobData } from '../config/queues'
 import { logger } from '../config/logger'
 
 const log = logger.embedding
 
-// Embedding model configuration (match API embedding-service.ts)
-const EMBEDDING_MODEL = 'text-embedding-3-small' // 1536 dimensions, $0.02/1M tokens
-
-// Initialize OpenAI client only if API key is configured
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null
+// Same provider selection as the API embedding-service.ts (openai with a key,
+// local ONNX model otherwise); null when EMBEDDING_PROVIDER=none
+const provider = createEmbeddingProvider({
+  createOpenAIClient: (apiKey) => new OpenAI({ apiKey }),
+})
 
 // Metrics
 let processedCount = 0
@@ -38,22 +41,6 @@ let lastProcessedAt: Date | null = null
  */
 export let embeddingWorker: Worker<EmbeddingGenerateJobData> | null = null
 
-/**
- * Generate embedding for text using OpenAI
- */
-async function generateEmbedding(text: string): Promise<number[]> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized (OPENAI_API_KEY not set)')
-  }
-
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text,
-  })
-
-  return response.data[0].embedding
-}
-
 /**
  * Process a single embedding generation job
  */
@@ -70,10 +57,10 @@ async function processEmbeddingJob(job: Job<EmbeddingGenerateJobData>): Promise<
     affiliateFeedRunId,
   })
 
-  // Check if OpenAI is configured
-  if (!openai) {
-    log.warn('EMBEDDING_SKIPPED_NO_API_KEY', {
-      event_name: 'EMBEDDING_SKIPPED_NO_API_KEY',
+  // Check if an embedding provider is configured
+  if (!provider) {
+    log.warn('EMBEDDING_SKIPPED_NO_PROVIDER', {
+      event_name: 'EMBEDDING_SKIPPED_NO_PROVIDER',
       jobId: job.id,
       productId,
     })
@@ -110,13 +97,14 @@ async function processEmbeddingJob(job: Job<EmbeddingGenerateJobData>): Promise<
   // Build product text for embedding
   const text = buildProductText(product)
 
-  // Generate embedding via OpenAI
-  const embedding = await generateEmbedding(text)
+  // Generate embedding via the configured provider
+  const [embedding] = await provider.embed([text])
 
   // Update product with embedding using raw SQL (Prisma doesn't support vector type natively)
   await prisma.$executeRaw`
     UPDATE products
     SET embedding = ${JSON.stringify(embedding)}::vector,
+        "embeddingModel" = ${provider.modelId},
         "lastEmbeddedAt" = NOW(),
         "updatedAt" = NOW()
     WHERE id = ${productId}
@@ -130,6 +118,7 @@ async function processEmbeddingJob(job: Job<EmbeddingGenerateJobData>): Promise<
     productId,
     trigger,
     durationMs,
+    embeddingModel: provider.modelId,
     embeddingDimensions: embedding.length,
   })
 }
@@ -143,10 +132,10 @@ export async function startEmbeddingWorker(options?: {
   // Lower concurrency for OpenAI API rate limits
   const concurrency = options?.concurrency ?? 3
 
-  if (!OPENAI_API_KEY) {
-    log.warn('EMBEDDING_WORKER_NO_API_KEY', {
-      event_name: 'EMBEDDING_WORKER_NO_API_KEY',
-      message: 'OPENAI_API_KEY not set - embedding worker will skip all jobs',
+  if (!provider) {
+    log.warn('EMBEDDING_WORKER_NO_PROVIDER', {
+      event_name: 'EMBEDDING_WORKER_NO_PROVIDER',
+      message: 'No embedding provider configured - embedding worker will skip all jobs',
     })
   }
 
@@ -154,7 +143,8 @@ export async function startEmbeddingWorker(options?: {
     event_name: 'EMBEDDING_WORKER_START',
     concurrency,
     queueName: QUEUE_NAMES.EMBEDDING_GENERATE,
-    openaiConfigured: !!OPENAI_API_KEY,
+    embeddingProvider: provider?.name ?? null,
+    embeddingModel: provider?.modelId ?? null,
   })
 
   embeddingWorker = new Worker<EmbeddingGenerateJobData>(
@@ -227,6 +217,7 @@ export function getEmbeddingWorkerMetrics() {
     errorCount,
     skippedCount,
     lastProcessedAt,
-    openaiConfigured: !!OPENAI_API_KEY,
+    embeddingProvider: provider?.name ?? null,
+    embeddingModel: provider?.modelId ?? null,
   }
 }
@@ -0,0 +1,82 @@
+/**
+ * Tests for retailer feed credential loading
+ *
+ * Encrypted passwords are decrypted with the feed AAD; a legacy plaintext
+ * password is only used while no credential key is configured.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import crypto from 'crypto'
+import { buildFeedCredentialAAD, clearKeyCache, encryptSecret } from '@ironscout/crypto'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    retailer_feeds: { findUnique: vi.fn() },
+  },
+}))
+
+vi.mock('../../config/logger', () => ({
+  logger: { merchant: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } },
+}))
+
+import { prisma } from '@ironscout/db'
+import { loadRetailerFeedCredentials } from '../feed-credentials'
+
+function useKey(key: string | undefined) {
+  clearKeyCache()
+  if (key) {
+    process.env.CREDENTIAL_ENCRYPTION_KEY_B64 = key
+    process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION = '1'
+  } else {
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_B64
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION
+  }
+}
+
+describe('loadRetailerFeedCredentials', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    useKey(crypto.randomBytes(32).toString('base64'))
+  })
+
+  afterEach(() => {
+    useKey(undefined)
+  })
+
+  it('decrypts the encrypted password', async () => {
+    vi.mocked(prisma.retailer_feeds.findUnique).mockResolvedValue({
+      id: 'rf-1',
+      username: 'user',
+      password: null,
+      secretCiphertext: new Uint8Array(encryptSecret('secret', buildFeedCredentialAAD('rf-1', 1))),
+      secretVersion: 1,
+    } as never)
+
+    await expect(loadRetailerFeedCredentials('rf-1')).resolves.toEqual({ username: 'user', password: 'secret' })
+  })
+
+  it('refuses a plaintext password once a key is configured', async () => {
+    vi.mocked(prisma.retailer_feeds.findUnique).mockResolvedValue({
+      id: 'rf-2',
+      username: 'user',
+      password: 'legacy-pass',
+      secretCiphertext: null,
+      secretVersion: 1,
+    } as never)
+
+    await expect(loadRetailerFeedCredentials('rf-2')).rejects.toThrow('unencrypted password')
+  })
+
+  it('uses a plaintext password when no key is configured', async () => {
+    useKey(undefined)
+    vi.mocked(prisma.retailer_feeds.findUnique).mockResolvedValue({
+      id: 'rf-2',
+      username: 'user',
+      password: 'legacy-pass',
+      secretCiphertext: null,
+      secretVersion: 1,
+    } as never)
+
+    await expect(loadRetailerFeedCredentials('rf-2')).resolves.toEqual({ username: 'user', password: 'legacy-pass' })
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Feed Upload Tests
+ *
+ * Loading uploaded feed files (upload selection, streamed size and checksum checks)
+ * and retention cleanup, against real local storage in a temp directory.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createHash } from 'crypto'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Readable } from 'stream'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    retailer_feed_uploads: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('../../config/logger', () => ({
+  logger: {
+    merchant: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  },
+}))
+
+import { prisma } from '@ironscout/db'
+import { createLocalFeedUploadStorage, FEED_UPLOAD_CHUNK_BYTES } from '@ironscout/db/feed-upload-storage.js'
+import { loadFeedUpload, cleanupFeedUploads } from '../feed-uploads'
+
+const mockUploads = vi.mocked(prisma.retailer_feed_uploads)
+
+const CSV = 'upc,title,price,in_stock,url\n029465064498,Federal 9mm 115gr FMJ 50rd,18.99,true,https://shop.example/p/1\n'
+
+let root: string
+let storage: ReturnType<typeof createLocalFeedUploadStorage>
+
+async function readText(stream: Readable): Promise<string> {
+  let text = ''
+  for await (const chunk of stream) text += chunk.toString()
+  return text
+}
+
+function uploadRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'up-1',
+    feedId: 'feed-1',
+    retailerId: 'ret-1',
+    filename: 'inventory.csv',
+    sizeBytes: Buffer.byteLength(CSV),
+    sha256: createHash('sha256').update(CSV).digest('hex'),
+    storageKey: 'ret-1/up-1',
+    status: 'COMPLETE',
+    completedAt: new Date('2026-10-18T12:00:00Z'),
+    ...overrides,
+  } as never
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks()
+  root = await mkdtemp(join(tmpdir(), 'feed-uploads-'))
+  storage = createLocalFeedUploadStorage(root)
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+describe('loadFeedUpload', () => {
+  it('reads the requested upload and verifies its checksum', async () => {
+    await storage.putChunk('ret-1/up-1', 0, Buffer.from(CSV))
+    mockUploads.findFirst.mockResolvedValue(uploadRow())
+
+    const loaded = await loadFeedUpload('feed-1', 'up-1', storage)
+
+    expect(loaded).toMatchObject({
+      uploadId: 'up-1',
+      filename: 'inventory.csv',
+      sizeBytes: Buffer.byteLength(CSV),
+      contentHash: createHash('sha256').update(CSV).digest('hex'),
+    })
+    expect(await readText(loaded.stream)).toBe(CSV)
+    expect(mockUploads.findFirst).toHaveBeenCalledWith({ where: { id: 'up-1', feedId: 'feed-1' } })
+  })
+
+  it('streams multi-chunk uploads in order', async () => {
+    const big = 'x'.repeat(FEED_UPLOAD_CHUNK_BYTES) + CSV
+    await storage.putChunk('ret-1/up-1', 1, Buffer.from(CSV))
+    await storage.putChunk('ret-1/up-1', 0, Buffer.from('x'.repeat(FEED_UPLOAD_CHUNK_BYTES)))
+    mockUploads.findFirst.mockResolvedValue(uploadRow({ sizeBytes: big.length, sha256: null }))
+
+    const loaded = await loadFeedUpload('feed-1', 'up-1', storage)
+    const content = await readText(loaded.stream)
+
+    expect(content.length).toBe(big.length)
+    expect(content.endsWith(CSV)).toBe(true)
+    // Without a recorded checksum the upload id identifies the content
+    expect(loaded.contentHash).toBe('up-1')
+  })
+
+  it('falls back to the most recent completed upload', async () => {
+    await storage.putChunk('ret-1/up-1', 0, Buffer.from(CSV))
+    mockUploads.findFirst.mockResolvedValue(uploadRow())
+
+    await loadFeedUpload('feed-1', undefined, storage)
+
+    expect(mockUploads.findFirst).toHaveBeenCalledWith({
+      where: { feedId: 'feed-1', completedAt: { not: null } },
+      orderBy: { completedAt: 'desc' },
+    })
+  })
+
+  it('rejects missing, incomplete and expired uploads', async () => {
+    mockUploads.findFirst.mockResolvedValueOnce(null)
+    await expect(loadFeedUpload('feed-1', undefined, storage)).rejects.toThrow('No uploaded feed file found')
+
+    mockUploads.findFirst.mockResolvedValueOnce(uploadRow({ status: 'UPLOADING' }))
+    await expect(loadFeedUpload('feed-1', 'up-1', storage)).rejects.toThrow('Upload of inventory.csv is not complete')
+
+    mockUploads.findFirst.mockResolvedValueOnce(uploadRow({ status: 'EXPIRED' }))
+    await expect(loadFeedUpload('feed-1', 'up-1', storage)).rejects.toThrow('has expired; upload it again')
+  })
+
+  it('fails the stream when the stored file does not match the upload record', async () => {
+    await storage.putChunk('ret-1/up-1', 0, Buffer.from(CSV.replace('18.99', '81.99')))
+    mockUploads.findFirst.mockResolvedValue(uploadRow())
+
+    const tampered = await loadFeedUpload('feed-1', 'up-1', storage)
+    await expect(readText(tampered.stream)).rejects.toThrow('failed checksum verification')
+
+    mockUploads.findFirst.mockResolvedValue(uploadRow({ sizeBytes: 10 }))
+    const resized = await loadFeedUpload('feed-1', 'up-1', storage)
+    await expect(readText(resized.stream)).rejects.toThrow(/bytes, expected 10/)
+  })
+})
+
+describe('cleanupFeedUploads', () => {
+  const now = new Date('2026-10-19T03:45:00Z')
+
+  it('deletes expired and abandoned uploads and marks them EXPIRED', async () => {
+    await storage.putChunk('ret-1/old', 0, Buffer.from(CSV))
+    await storage.putChunk('ret-1/partial', 0, Buffer.from('upc,'))
+    mockUploads.findMany
+      .mockResolvedValueOnce([
+        { id: 'old', storageKey: 'ret-1/old', status: 'COMPLETE' },
+        { id: 'partial', storageKey: 'ret-1/partial', status: 'UPLOADING' },
+      ] as never)
+      .mockResolvedValueOnce([])
+
+    const result = await cleanupFeedUploads(now, storage)
+
+    expect(result).toEqual({ expired: 2, failed: 0 })
+    expect(await readdir(join(root, 'ret-1'))).toEqual([])
+    expect(mockUploads.update).toHaveBeenCalledWith({ where: { id: 'old' }, data: { status: 'EXPIRED', expiredAt: now } })
+    expect(mockUploads.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: { notIn: [] },
+          OR: [
+            { status: 'COMPLETE', completedAt: { lt: new Date('2026-09-19T03:45:00Z') } },
+            { status: 'UPLOADING', createdAt: { lt: new Date('2026-10-18T03:45:00Z') } },
+          ],
+        },
+      })
+    )
+  })
+
+  it('leaves uploads whose files could not be deleted for the next run', async () => {
+    const failing = { ...storage, deleteUpload: vi.fn().mockRejectedValue(new Error('AccessDenied')) }
+    mockUploads.findMany
+      .mockResolvedValueOnce([{ id: 'old', storageKey: 'ret-1/old', status: 'COMPLETE' }] as never)
+      .mockResolvedValueOnce([])
+
+    const result = await cleanupFeedUploads(now, failing)
+
+    expect(result).toEqual({ expired: 0, failed: 1 })
+    expect(mockUploads.update).not.toHaveBeenCalled()
+    expect(mockUploads.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ id: { notIn: ['old'] } }) })
+    )
+  })
+})
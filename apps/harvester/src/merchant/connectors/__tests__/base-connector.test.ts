@@ -6,12 +6,15 @@
  */
 
 import { describe, it, expect } from 'vitest'
+import { Readable } from 'stream'
 import {
   detectContentFormat,
   parseCSV,
   parseJSON,
   parseXML,
   parseContent,
+  readContentRows,
+  sampleStream,
   extractString,
   extractNumber,
   extractBoolean,
@@ -267,6 +270,67 @@ describe('parseContent', () => {
   })
 })
 
+// ============================================================================
+// STREAMED CONTENT
+// ============================================================================
+
+/** Byte stream of `text` split into `size`-byte chunks */
+function chunkedStream(text: string, size: number): Readable {
+  const bytes = Buffer.from(text)
+  const chunks: Buffer[] = []
+  for (let i = 0; i < bytes.length; i += size) chunks.push(bytes.subarray(i, i + size))
+  return Readable.from(chunks, { objectMode: false })
+}
+
+async function collectRows(content: Readable | string): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = []
+  for await (const row of readContentRows(content)) rows.push(row)
+  return rows
+}
+
+describe('sampleStream', () => {
+  it('returns the sample and replays it ahead of the rest', async () => {
+    const text = 'upc,title\n029465064498,Café Ammo\n'
+    // Cut the sample inside the two-byte "é"
+    const sampleBytes = Buffer.from(text).indexOf(0xc3) + 1
+
+    const { sample, stream } = await sampleStream(chunkedStream(text, 4), sampleBytes)
+
+    expect(sample).toBe('upc,title\n029465064498,Caf')
+    let replayed = ''
+    for await (const chunk of stream) replayed += chunk.toString()
+    expect(replayed).toBe(text)
+  })
+})
+
+describe('readContentRows', () => {
+  it('parses a streamed CSV the same as text', async () => {
+    const csv = loadCsvFixture('generic-valid.csv')
+
+    expect(await collectRows(chunkedStream(csv, 7))).toEqual(parseCSV(csv))
+  })
+
+  it('parses streamed JSON and XML from their text', async () => {
+    const json = loadJsonFixture('generic-valid.json')
+    const xml = loadXmlFixture('generic-valid.xml')
+
+    expect(await collectRows(chunkedStream(json, 64))).toEqual(parseJSON(json))
+    expect(await collectRows(chunkedStream(xml, 64))).toEqual(parseXML(xml))
+  })
+
+  it('surfaces errors from the source stream', async () => {
+    const failing = Readable.from(
+      (async function* () {
+        yield Buffer.from('upc,title\n029465064498,Federal\n')
+        throw new Error('checksum mismatch')
+      })(),
+      { objectMode: false }
+    )
+
+    await expect(collectRows(failing)).rejects.toThrow('checksum mismatch')
+  })
+})
+
 // ============================================================================
 // VALUE EXTRACTION - STRING
 // ============================================================================
@@ -5,12 +5,17 @@
  * shared across all format-specific connectors.
  */
 
+import { parse as csvParseStream } from 'csv-parse'
 import { parse as csvParse } from 'csv-parse/sync'
 import { XMLParser } from 'fast-xml-parser'
+import { Readable, pipeline } from 'stream'
+import { StringDecoder } from 'string_decoder'
 import type { FeedFormatType } from '@ironscout/db'
+import { classifyFeedRecord, validateUPC } from '@ironscout/db/retailer-inventory.js'
 import {
   ERROR_CODES,
   type FeedConnector,
+  type FeedContent,
   type FeedParseResult,
   type ParsedFeedRecord,
   type ParsedRecordResult,
@@ -42,14 +47,16 @@ export function detectContentFormat(content: string): ContentFormat {
 // CONTENT PARSING
 // ============================================================================
 
-export function parseCSV(content: string): Record<string, unknown>[] {
-  return csvParse(content, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true,
-    relax_column_count: true,
-    relax_quotes: true,
-  })
+const CSV_OPTIONS = {
+  columns: true,
+  skip_empty_lines: true,
+  trim: true,
+  relax_column_count: true,
+  relax_quotes: true,
+} as const
+
+export function parseCSV(content: string, delimiter?: string): Record<string, unknown>[] {
+  return csvParse(content, { ...CSV_OPTIONS, delimiter })
 }
 
 export function parseJSON(content: string): Record<string, unknown>[] {
@@ -114,6 +121,101 @@ export function parseContent(content: string): Record<string, unknown>[] {
   }
 }
 
+// ============================================================================
+// STREAMED CONTENT
+// ============================================================================
+
+/** Bytes read from the start of a stream to detect its format and connector */
+export const CONTENT_SAMPLE_BYTES = 64 * 1024
+
+/**
+ * Read the start of a stream without losing it
+ *
+ * @returns The sample as text, and a stream that yields the sampled bytes
+ * again followed by the rest of the source
+ */
+export async function sampleStream(
+  source: Readable,
+  sampleBytes = CONTENT_SAMPLE_BYTES
+): Promise<{ sample: string; stream: Readable }> {
+  const iterator = source[Symbol.asyncIterator]()
+  const head: Buffer[] = []
+  let headBytes = 0
+  let ended = false
+
+  while (headBytes < sampleBytes) {
+    const next = await iterator.next()
+    if (next.done) {
+      ended = true
+      break
+    }
+    const chunk = Buffer.from(next.value)
+    head.push(chunk)
+    headBytes += chunk.length
+  }
+
+  // StringDecoder drops a multi-byte character cut off at the sample boundary
+  const sample = new StringDecoder('utf8').write(Buffer.concat(head).subarray(0, sampleBytes))
+  const stream = Readable.from(
+    (async function* () {
+      try {
+        yield* head
+        if (ended) return
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value
+        }
+      } finally {
+        await iterator.return?.()
+      }
+    })(),
+    { objectMode: false }
+  )
+
+  return { sample, stream }
+}
+
+/**
+ * Read a whole stream as text, for formats without a streaming parser
+ */
+export async function readStreamText(stream: Readable): Promise<string> {
+  const decoder = new StringDecoder('utf8')
+  let text = ''
+  for await (const chunk of stream) {
+    text += decoder.write(chunk)
+  }
+  return text + decoder.end()
+}
+
+/**
+ * Parse CSV rows from a stream one at a time, with the same options as parseCSV.
+ * Errors from the source stream surface from the iteration.
+ */
+export function streamCSV(stream: Readable, delimiter?: string): AsyncIterable<Record<string, unknown>> {
+  // The callback is required by pipeline; errors reach the consumer through the parser
+  return pipeline(stream, csvParseStream({ ...CSV_OPTIONS, delimiter }), () => {})
+}
+
+/**
+ * Iterate raw rows of feed content. Streams are sampled to detect the format:
+ * CSV is then parsed row by row, while JSON and XML are read as text first.
+ */
+export async function* readContentRows(content: FeedContent): AsyncGenerator<Record<string, unknown>> {
+  if (typeof content === 'string') {
+    yield* parseContent(content)
+    return
+  }
+
+  const { sample, stream } = await sampleStream(content)
+  const format = detectContentFormat(sample)
+  if (format === 'csv') {
+    yield* streamCSV(stream)
+    return
+  }
+
+  const text = await readStreamText(stream)
+  yield* format === 'json' ? parseJSON(text) : parseXML(text)
+}
+
 // ============================================================================
 // VALUE EXTRACTION UTILITIES
 // ============================================================================
@@ -214,24 +316,8 @@ export function extractBoolean(
   return defaultValue
 }
 
-/**
- * Validate and normalize UPC
- * Returns null if invalid, normalized UPC string if valid
- */
-export function validateUPC(upc: string | undefined): string | null {
-  if (!upc) return null
-
-  // Remove common prefixes and clean
-  let cleaned = upc.replace(/^(UPC:|GTIN:)/i, '').trim()
-  cleaned = cleaned.replace(/[^0-9]/g, '')
-
-  // Valid UPC lengths: 8 (UPC-E), 12 (UPC-A), 13 (EAN-13), 14 (GTIN-14)
-  if (cleaned.length >= 8 && cleaned.length <= 14) {
-    return cleaned
-  }
-
-  return null
-}
+// UPC validation and record lanes are shared with the inventory push API
+export { validateUPC }
 
 // ============================================================================
 // BASE CONNECTOR CLASS
@@ -253,9 +339,9 @@ export abstract class BaseConnector implements FeedConnector {
     index: number
   ): { record: ParsedFeedRecord; errors: FieldError[]; coercions: FieldCoercion[] }
 
-  async parse(content: string): Promise<FeedParseResult> {
+  async parse(content: FeedContent): Promise<FeedParseResult> {
     const startTime = Date.now()
-    const rows = parseContent(content)
+    const rows = readContentRows(content)
 
     const parsedRecords: ParsedRecordResult[] = []
     const errorCodes: Record<string, number> = {}
@@ -264,42 +350,16 @@ export abstract class BaseConnector implements FeedConnector {
     let quarantineCount = 0
     let rejectCount = 0
 
-    for (let i = 0; i < rows.length; i++) {
+    let totalRows = 0
+    for await (const row of rows) {
+      const i = totalRows++
       try {
-        const { record, errors, coercions } = this.mapRow(rows[i], i)
-
-        // Determine indexability
-        const hasValidUPC = !!record.upc
-        const hasRequiredFields = !!record.title && record.price > 0
-
-        let isIndexable = hasValidUPC && hasRequiredFields
-
-        // Add UPC error if missing
-        if (!hasValidUPC) {
-          errors.push({
-            field: 'upc',
-            code: ERROR_CODES.MISSING_UPC,
-            message: 'Missing or invalid UPC - record will be quarantined',
-            rawValue: record.rawRow['upc'] || record.rawRow['UPC'],
-          })
-        }
+        const { record, errors, coercions } = this.mapRow(row, i)
 
-        // Add required field errors
-        if (!record.title) {
-          errors.push({
-            field: 'title',
-            code: ERROR_CODES.MISSING_TITLE,
-            message: 'Missing product title',
-          })
-        }
-        if (!record.price || record.price <= 0) {
-          errors.push({
-            field: 'price',
-            code: ERROR_CODES.INVALID_PRICE,
-            message: 'Missing or invalid price',
-            rawValue: record.rawRow['price'] || record.rawRow['Price'],
-          })
-        }
+        // Determine indexability and add UPC / required field errors
+        const classification = classifyFeedRecord(record)
+        const isIndexable = classification.isIndexable
+        errors.push(...classification.errors)
 
         // Count error codes
         for (const error of errors) {
@@ -307,9 +367,9 @@ export abstract class BaseConnector implements FeedConnector {
         }
 
         // Categorize record
-        if (isIndexable) {
+        if (classification.lane === 'INDEXABLE') {
           indexableCount++
-        } else if (hasRequiredFields && !hasValidUPC) {
+        } else if (classification.lane === 'QUARANTINE') {
           // Has data but missing UPC -> quarantine
           quarantineCount++
         } else {
@@ -333,7 +393,7 @@ export abstract class BaseConnector implements FeedConnector {
             title: '',
             price: 0,
             inStock: false,
-            rawRow: rows[i],
+            rawRow: row,
             rowIndex: i,
           },
           errors: [{
@@ -349,7 +409,7 @@ export abstract class BaseConnector implements FeedConnector {
 
     return {
       formatType: this.formatType,
-      totalRows: rows.length,
+      totalRows,
       parsedRecords,
       indexableCount,
       quarantineCount,
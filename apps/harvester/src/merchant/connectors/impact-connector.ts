@@ -17,11 +17,15 @@ import {
   extractNumber,
   extractBoolean,
   validateUPC,
+  detectContentFormat,
   parseCSV,
   parseJSON,
   parseXML,
+  readStreamText,
+  sampleStream,
+  streamCSV,
 } from './base-connector'
-import type { ParsedFeedRecord, FieldError, FieldCoercion } from './types'
+import type { FeedContent, ParsedFeedRecord, FieldError, FieldCoercion } from './types'
 
 // ============================================================================
 // IMPACT-SPECIFIC FIELD MAPPINGS
@@ -113,9 +117,9 @@ export class ImpactConnector extends BaseConnector {
   /**
    * Override parse to handle Impact-specific content detection
    */
-  async parse(content: string): ReturnType<BaseConnector['parse']> {
+  async parse(content: FeedContent): ReturnType<BaseConnector['parse']> {
     const startTime = Date.now()
-    const rows = this.parseImpactContent(content)
+    const rows = this.readImpactRows(content)
 
     const parsedRecords: import('./types').ParsedRecordResult[] = []
     const errorCodes: Record<string, number> = {}
@@ -124,9 +128,11 @@ export class ImpactConnector extends BaseConnector {
     let quarantineCount = 0
     let rejectCount = 0
 
-    for (let i = 0; i < rows.length; i++) {
+    let totalRows = 0
+    for await (const row of rows) {
+      const i = totalRows++
       try {
-        const { record, errors, coercions } = this.mapRow(rows[i], i)
+        const { record, errors, coercions } = this.mapRow(row, i)
 
         const hasValidUPC = !!record.upc
         const hasRequiredFields = !!record.title && record.price > 0
@@ -137,7 +143,7 @@ export class ImpactConnector extends BaseConnector {
             field: 'upc',
             code: 'MISSING_UPC',
             message: 'Missing or invalid GTIN/UPC - record will be quarantined',
-            rawValue: rows[i]['Gtin'] || rows[i]['gtin'] || rows[i]['UPC'],
+            rawValue: row['Gtin'] || row['gtin'] || row['UPC'],
           })
         }
 
@@ -154,7 +160,7 @@ export class ImpactConnector extends BaseConnector {
             field: 'price',
             code: 'INVALID_PRICE',
             message: 'Missing or invalid price',
-            rawValue: rows[i]['CurrentPrice'] || rows[i]['Price'],
+            rawValue: row['CurrentPrice'] || row['Price'],
           })
         }
 
@@ -185,7 +191,7 @@ export class ImpactConnector extends BaseConnector {
             title: '',
             price: 0,
             inStock: false,
-            rawRow: rows[i],
+            rawRow: row,
             rowIndex: i,
           },
           errors: [{
@@ -201,7 +207,7 @@ export class ImpactConnector extends BaseConnector {
 
     return {
       formatType: this.formatType,
-      totalRows: rows.length,
+      totalRows,
       parsedRecords,
       indexableCount,
       quarantineCount,
@@ -211,6 +217,33 @@ export class ImpactConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Iterate Impact rows; streamed CSV/TSV is parsed row by row
+   */
+  private async *readImpactRows(content: FeedContent): AsyncGenerator<Record<string, unknown>> {
+    if (typeof content === 'string') {
+      yield* this.parseImpactContent(content)
+      return
+    }
+
+    const { sample, stream } = await sampleStream(content)
+    if (detectContentFormat(sample) !== 'csv') {
+      yield* this.parseImpactContent(await readStreamText(stream))
+      return
+    }
+    yield* streamCSV(stream, this.isTabDelimited(sample) ? '\t' : undefined)
+  }
+
+  /**
+   * Whether the header line uses tabs rather than commas
+   */
+  private isTabDelimited(content: string): boolean {
+    const firstLine = content.trim().split('\n')[0] || ''
+    const tabCount = (firstLine.match(/\t/g) || []).length
+    const commaCount = (firstLine.match(/,/g) || []).length
+    return tabCount > commaCount
+  }
+
   /**
    * Parse Impact content with format auto-detection
    */
@@ -230,25 +263,7 @@ export class ImpactConnector extends BaseConnector {
     }
 
     // CSV or TSV - detect delimiter
-    const firstLine = trimmed.split('\n')[0] || ''
-    const tabCount = (firstLine.match(/\t/g) || []).length
-    const commaCount = (firstLine.match(/,/g) || []).length
-
-    if (tabCount > commaCount) {
-      // TSV - use csv-parse with tab delimiter
-      const { parse: csvParse } = require('csv-parse/sync')
-      return csvParse(content, {
-        columns: true,
-        skip_empty_lines: true,
-        delimiter: '\t',
-        relax_column_count: true,
-        relax_quotes: true,
-        trim: true,
-      })
-    }
-
-    // Default to CSV
-    return parseCSV(content)
+    return parseCSV(content, this.isTabDelimited(trimmed) ? '\t' : undefined)
   }
 
   protected mapRow(
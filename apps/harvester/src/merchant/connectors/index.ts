@@ -28,6 +28,8 @@ export {
   parseJSON,
   parseXML,
   parseContent,
+  readContentRows,
+  sampleStream,
   validateUPC,
 } from './base-connector'
 
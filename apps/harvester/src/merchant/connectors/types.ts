@@ -5,6 +5,7 @@
  * dealer product feeds in various formats.
  */
 
+import type { Readable } from 'stream'
 import type { FeedFormatType } from '@ironscout/db'
 
 // ============================================================================
@@ -107,6 +108,12 @@ export interface FeedParseResult {
 // CONNECTOR INTERFACE
 // ============================================================================
 
+/**
+ * Raw feed content: text, or a byte stream (uploaded files are streamed from
+ * storage rather than read into memory)
+ */
+export type FeedContent = string | Readable
+
 /**
  * Feed Connector Interface
  *
@@ -126,17 +133,17 @@ export interface FeedConnector {
 
   /**
    * Detect if this connector can handle the given content
-   * @param content Raw feed content
+   * @param content Raw feed content, or a sample from the start of a streamed feed
    * @returns true if this connector can parse the content
    */
   canHandle(content: string): boolean
 
   /**
    * Parse raw feed content into structured records
-   * @param content Raw feed content (CSV, JSON, XML)
+   * @param content Raw feed content (CSV, JSON, XML), as text or a byte stream
    * @returns Parsed feed result with records and validation info
    */
-  parse(content: string): Promise<FeedParseResult>
+  parse(content: FeedContent): Promise<FeedParseResult>
 
   /**
    * Get the expected column/field mapping for this format
@@ -0,0 +1,64 @@
+/**
+ * Retailer Feed Credentials
+ *
+ * Feed passwords are encrypted in retailer_feeds.secretCiphertext with
+ * @ironscout/crypto, bound to the feed through
+ * buildFeedCredentialAAD(feed.id, feed.secretVersion). They are loaded here at
+ * fetch time rather than carried in job data, so plaintext never sits in Redis.
+ *
+ * Feeds created before encryption may still have a plaintext `password`. The
+ * worker encrypts those at startup; once a credential key is configured a
+ * plaintext password is refused rather than used. Without a key (local dev)
+ * it is used with a warning.
+ */
+
+import { prisma } from '@ironscout/db'
+import { buildFeedCredentialAAD, decryptSecret, validateCredentialKey } from '@ironscout/crypto'
+import { logger } from '../config/logger'
+
+const log = logger.merchant
+
+export interface RetailerFeedCredentials {
+  username?: string
+  password?: string
+}
+
+/**
+ * Whether CREDENTIAL_ENCRYPTION_KEY_B64 (and its version settings) are valid
+ */
+export function isCredentialKeyConfigured(): boolean {
+  try {
+    validateCredentialKey()
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function loadRetailerFeedCredentials(feedId: string): Promise<RetailerFeedCredentials> {
+  const feed = await prisma.retailer_feeds.findUnique({
+    where: { id: feedId },
+    select: { id: true, username: true, password: true, secretCiphertext: true, secretVersion: true },
+  })
+
+  if (!feed) {
+    throw new Error(`Feed ${feedId} not found`)
+  }
+
+  let password: string | undefined
+  if (feed.secretCiphertext) {
+    password = decryptSecret(
+      Buffer.from(feed.secretCiphertext),
+      buildFeedCredentialAAD(feed.id, feed.secretVersion)
+    )
+  } else if (feed.password) {
+    if (isCredentialKeyConfigured()) {
+      log.error('FEED_PASSWORD_NOT_ENCRYPTED', { feedId, hint: 'Restart the worker or run secrets:rotate to encrypt it' })
+      throw new Error(`Feed ${feedId} has an unencrypted password; refusing to use it`)
+    }
+    log.warn('FEED_PASSWORD_NOT_ENCRYPTED', { feedId, hint: 'Set CREDENTIAL_ENCRYPTION_KEY_B64 and run secrets:rotate' })
+    password = feed.password
+  }
+
+  return { username: feed.username || undefined, password }
+}
@@ -20,6 +20,9 @@ import { generateSkuHash, generateContentHash } from './sku-hash'
 import {
   getConnector,
   detectConnector,
+  sampleStream,
+  type FeedConnector,
+  type FeedContent,
   type FeedParseResult,
   type ParsedRecordResult,
   ERROR_CODES,
@@ -35,6 +38,8 @@ import {
   sendSubscriptionExpiryNotification,
 } from './subscription'
 import { fetchFeedViaFtp } from './ftp-fetcher'
+import { loadFeedUpload } from './feed-uploads'
+import { loadRetailerFeedCredentials } from './feed-credentials'
 import { logger } from '../config/logger'
 import { createRunFileLogger, type RunFileLogger } from '../config/run-file-logger'
 import { emitIngestRunSummary } from '../config/ingest-summary'
@@ -131,15 +136,54 @@ async function sendFeedNotifications(
 // FEED FETCHING
 // ============================================================================
 
+interface FetchedFeed {
+  /** Fetched text, or a stream for uploaded files */
+  content: FeedContent
+  contentBytes: number
+  /** Change detection key (sha256 of the content for fetched feeds) */
+  contentHash: string
+  /** UPLOAD feeds: the upload that was read */
+  uploadId?: string
+}
+
+function fetchedText(content: string): FetchedFeed {
+  return {
+    content,
+    contentBytes: content.length,
+    contentHash: createHash('sha256').update(content).digest('hex'),
+  }
+}
+
 async function fetchFeed(
-  url: string,
+  feedId: string,
+  url: string | undefined,
   accessType: string,
   username?: string,
-  password?: string
-): Promise<string> {
+  password?: string,
+  uploadId?: string
+): Promise<FetchedFeed> {
+  // Handle files uploaded through the merchant portal
+  if (accessType === 'UPLOAD') {
+    const upload = await loadFeedUpload(feedId, uploadId)
+    return {
+      content: upload.stream,
+      contentBytes: upload.sizeBytes,
+      contentHash: upload.contentHash,
+      uploadId: upload.uploadId,
+    }
+  }
+
+  if (accessType === 'PUSH') {
+    throw new Error('Push feeds receive records through the inventory API; there is nothing to fetch')
+  }
+
+  if (!url) {
+    throw new Error('Feed URL is required')
+  }
+
   // Handle FTP/SFTP access types
   if (accessType === 'FTP' || accessType === 'SFTP') {
-    return fetchFeedViaFtp(url, accessType, username, password)
+    return fetchedText(await fetchFeedViaFtp(url, accessType, username, password))
   }
 
   // Handle HTTP/HTTPS access types
@@ -156,7 +200,7 @@ async function fetchFeed(
     throw new Error(`Feed fetch failed: ${response.status} ${response.statusText}`)
   }
 
-  return response.text()
+  return fetchedText(await response.text())
 }
 
 // ============================================================================
@@ -189,7 +233,7 @@ function generateMatchKey(title: string, sku?: string): string {
 // ============================================================================
 
 export async function processFeedIngest(job: Job<RetailerFeedIngestJobData>) {
-  const { retailerId, feedId, feedRunId, accessType, formatType, url, username, password, adminOverride, adminId } = job.data
+  const { retailerId, feedId, feedRunId, accessType, formatType, url, uploadId, adminOverride, adminId } = job.data
 
   const startTime = Date.now()
   const jobStartedAt = new Date().toISOString()
@@ -320,10 +364,6 @@ export async function processFeedIngest(job: Job<RetailerFeedIngestJobData>) {
     })
 
     // Fetch feed content
-    if (!url) {
-      throw new Error('Feed URL is required')
-    }
-
     const fetchStart = Date.now()
     log.debug('FETCH_START', {
       feedId,
@@ -333,7 +373,11 @@ export async function processFeedIngest(job: Job<RetailerFeedIngestJobData>) {
       accessType,
       urlHost: url ? new URL(url).host : null,
     })
-    const content = await fetchFeed(url, accessType, username, password)
+    const { username, password } = ['AUTH_URL', 'FTP', 'SFTP'].includes(accessType)
+      ? await loadRetailerFeedCredentials(feedId)
+      : {}
+    const fetched = await fetchFeed(feedId, url, accessType, username, password, uploadId)
+    let content = fetched.content
     const fetchDurationMs = Date.now() - fetchStart
     log.info('FETCH_OK', {
       feedId,
@@ -341,15 +385,24 @@ export async function processFeedIngest(job: Job<RetailerFeedIngestJobData>) {
       merchantId,
       merchantName,
       durationMs: fetchDurationMs,
-      contentBytes: content.length,
+      contentBytes: fetched.contentBytes,
+      uploadId: fetched.uploadId,
     })
     runFileLogger.info('Fetch complete', {
       durationMs: fetchDurationMs,
-      contentBytes: content.length,
+      contentBytes: fetched.contentBytes,
+      uploadId: fetched.uploadId,
     })
 
-    // Calculate content hash for change detection
-    const contentHash = createHash('sha256').update(content).digest('hex')
+    // Record which uploaded file this run ingested
+    if (fetched.uploadId) {
+      await prisma.retailer_feed_runs.update({
+        where: { id: feedRunId },
+        data: { uploadId: fetched.uploadId },
+      })
+    }
+
+    const contentHash = fetched.contentHash
 
     // Check if content has changed
     const feed = await prisma.retailer_feeds.findUnique({
@@ -390,11 +443,18 @@ export async function processFeedIngest(job: Job<RetailerFeedIngestJobData>) {
       return { skipped: true, reason: 'no_changes' }
     }
 
-    // Get the appropriate connector
-    const connector =
-      formatType === 'GENERIC'
-        ? detectConnector(content)
-        : getConnector(formatType as FeedFormatType)
+    // Get the appropriate connector; streamed uploads are detected from a
+    // sample of their first bytes
+    let connector: FeedConnector
+    if (formatType !== 'GENERIC') {
+      connector = getConnector(formatType as FeedFormatType)
+    } else if (typeof content === 'string') {
+      connector = detectConnector(content)
+    } else {
+      const sampled = await sampleStream(content)
+      content = sampled.stream
+      connector = detectConnector(sampled.sample)
+    }
 
     log.debug('CONNECTOR_SELECTED', {
       feedId,
@@ -413,7 +473,7 @@ export async function processFeedIngest(job: Job<RetailerFeedIngestJobData>) {
       merchantId,
       merchantName,
       connectorName: connector.name,
-      contentBytes: content.length,
+      contentBytes: fetched.contentBytes,
     })
     parseResult = await connector.parse(content)
     const parseDurationMs = Date.now() - parseStart
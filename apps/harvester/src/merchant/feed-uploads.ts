@@ -0,0 +1,169 @@
+/**
+ * Retailer Feed Uploads
+ *
+ * Reads files merchants uploaded through the portal for UPLOAD feeds, and
+ * enforces upload retention. Storage is shared with the merchant portal via
+ * @ironscout/db/feed-upload-storage.js.
+ *
+ * Retention (daily, from the retailer scheduler):
+ * - COMPLETE uploads older than FEED_UPLOAD_RETENTION_DAYS (default 30)
+ * - UPLOADING uploads abandoned for more than a day
+ * have their files deleted and are marked EXPIRED. Rows are kept so feed
+ * runs still show which upload they ingested.
+ */
+
+import { createHash } from 'crypto'
+import { Readable } from 'stream'
+import { prisma } from '@ironscout/db'
+import {
+  chunkCountFor,
+  createFeedUploadStorage,
+  resolveFeedUploadLimits,
+  type FeedUploadStorage,
+} from '@ironscout/db/feed-upload-storage.js'
+import { logger } from '../config/logger'
+
+const log = logger.merchant
+
+const ABANDONED_UPLOAD_MS = 24 * 60 * 60 * 1000
+
+// Max uploads expired per cleanup batch
+const CLEANUP_BATCH_SIZE = 100
+
+let storage: FeedUploadStorage | null = null
+
+function getStorage(): FeedUploadStorage {
+  storage ??= createFeedUploadStorage()
+  return storage
+}
+
+export interface LoadedFeedUpload {
+  uploadId: string
+  filename: string
+  sizeBytes: number
+  /**
+   * Identifies the file contents for change detection: the sha256 recorded at
+   * upload time, or the upload id when none was given (a complete upload never
+   * changes)
+   */
+  contentHash: string
+  /** File contents, streamed from storage one chunk at a time */
+  stream: Readable
+}
+
+/**
+ * Load an uploaded feed file. Without an uploadId (scheduled or manual
+ * refresh), the feed's most recent complete upload is used.
+ *
+ * The file is not read here: `stream` verifies the size/checksum recorded at
+ * upload time as it is consumed, and fails at the end on a mismatch.
+ *
+ * @throws when there is no usable upload
+ */
+export async function loadFeedUpload(
+  feedId: string,
+  uploadId?: string,
+  uploadStorage: FeedUploadStorage = getStorage()
+): Promise<LoadedFeedUpload> {
+  const upload = uploadId
+    ? await prisma.retailer_feed_uploads.findFirst({ where: { id: uploadId, feedId } })
+    : await prisma.retailer_feed_uploads.findFirst({
+        where: { feedId, completedAt: { not: null } },
+        orderBy: { completedAt: 'desc' },
+      })
+
+  if (!upload) {
+    throw new Error('No uploaded feed file found; upload a file first')
+  }
+  if (upload.status === 'EXPIRED') {
+    throw new Error(`Uploaded file ${upload.filename} has expired; upload it again`)
+  }
+  if (upload.status !== 'COMPLETE') {
+    throw new Error(`Upload of ${upload.filename} is not complete`)
+  }
+
+  const source = uploadStorage.readUpload(upload.storageKey, chunkCountFor(upload.sizeBytes))
+  const { filename, sizeBytes, sha256 } = upload
+
+  const stream = Readable.from(
+    (async function* () {
+      const hash = createHash('sha256')
+      let bytes = 0
+      for await (const chunk of source) {
+        bytes += chunk.length
+        hash.update(chunk)
+        yield chunk
+      }
+
+      if (bytes !== sizeBytes) {
+        throw new Error(`Uploaded file ${filename} is ${bytes} bytes, expected ${sizeBytes}`)
+      }
+      if (sha256 && hash.digest('hex') !== sha256) {
+        throw new Error(`Uploaded file ${filename} failed checksum verification`)
+      }
+    })(),
+    { objectMode: false }
+  )
+
+  return { uploadId: upload.id, filename, sizeBytes, contentHash: sha256 ?? upload.id, stream }
+}
+
+/**
+ * Delete upload files past retention and abandoned partial uploads.
+ */
+export async function cleanupFeedUploads(
+  now: Date = new Date(),
+  uploadStorage: FeedUploadStorage = getStorage()
+): Promise<{ expired: number; failed: number }> {
+  const { retentionDays } = resolveFeedUploadLimits()
+  const retentionCutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+  const abandonedCutoff = new Date(now.getTime() - ABANDONED_UPLOAD_MS)
+
+  let expired = 0
+  let failed = 0
+  const failedIds: string[] = []
+
+  for (;;) {
+    const uploads = await prisma.retailer_feed_uploads.findMany({
+      where: {
+        id: { notIn: failedIds },
+        OR: [
+          { status: 'COMPLETE', completedAt: { lt: retentionCutoff } },
+          { status: 'UPLOADING', createdAt: { lt: abandonedCutoff } },
+        ],
+      },
+      select: { id: true, storageKey: true, status: true },
+      take: CLEANUP_BATCH_SIZE,
+    })
+    if (uploads.length === 0) break
+
+    for (const upload of uploads) {
+      try {
+        await uploadStorage.deleteUpload(upload.storageKey)
+        await prisma.retailer_feed_uploads.update({
+          where: { id: upload.id },
+          data: { status: 'EXPIRED', expiredAt: now },
+        })
+        expired++
+      } catch (error) {
+        // Leave the row as-is so the next cleanup retries it
+        failed++
+        failedIds.push(upload.id)
+        log.warn('FEED_UPLOAD_CLEANUP_FAILED', {
+          uploadId: upload.id,
+          status: upload.status,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  log.info('FEED_UPLOAD_CLEANUP', {
+    expired,
+    failed,
+    retentionDays,
+    retentionCutoff: retentionCutoff.toISOString(),
+  })
+
+  return { expired, failed }
+}
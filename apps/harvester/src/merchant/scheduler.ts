@@ -3,6 +3,7 @@
  *
  * Schedules recurring retailer portal jobs:
  * - Feed ingestion (hourly by default, per-feed schedule)
+ * - Feed upload retention cleanup (daily)
  *
  * Features:
  * - Uses BullMQ repeatable jobs (inherently idempotent across replicas)
@@ -31,6 +32,7 @@ import {
   QUEUE_NAMES,
 } from '../config/queues'
 import { logger } from '../config/logger'
+import { cleanupFeedUploads } from './feed-uploads'
 
 const log = logger.merchant
 
@@ -104,6 +106,7 @@ export async function scheduleRetailerFeeds(): Promise<number> {
         },
       },
       status: { not: 'FAILED' }, // Don't auto-retry failed feeds
+      accessType: { notIn: ['UPLOAD', 'PUSH'] }, // Uploaded and pushed records arrive on their own, nothing to poll
     },
     include: {
       retailers: {
@@ -196,8 +199,6 @@ export async function scheduleRetailerFeeds(): Promise<number> {
           accessType: feed.accessType,
           formatType: feed.formatType,
           url: feed.url || undefined,
-          username: feed.username || undefined,
-          password: feed.password || undefined,
         },
         {
           attempts: 3,
@@ -291,6 +292,10 @@ export async function scheduleImmediateFeedIngest(
     throw new Error('Feed not found')
   }
 
+  if (feed.accessType === 'PUSH') {
+    throw new Error('Push feeds receive records through the inventory API and cannot be run')
+  }
+
   // Check if any associated merchant is active
   const activeMerchant = feed.retailers.merchant_retailers.find(
     (mr) => mr.merchants.status === 'ACTIVE'
@@ -330,8 +335,6 @@ export async function scheduleImmediateFeedIngest(
       accessType: feed.accessType,
       formatType: feed.formatType,
       url: feed.url || undefined,
-      username: feed.username || undefined,
-      password: feed.password || undefined,
       // Admin override fields
       adminOverride,
       adminId,
@@ -461,7 +464,7 @@ async function withRetry<T>(
 const RETAILER_SCHEDULER_QUEUE = 'retailer-scheduler'
 
 export interface RetailerSchedulerJobData {
-  type: 'feeds' | 'benchmarks'
+  type: 'feeds' | 'benchmarks' | 'uploads'
 }
 
 // Create the scheduler queue
@@ -497,6 +500,8 @@ export async function startRetailerScheduler(): Promise<void> {
             label: 'Benchmark scheduling',
             maxAttempts: 3,
           })
+        } else if (type === 'uploads') {
+          await cleanupFeedUploads()
         }
       } catch (error) {
         log.error('Scheduling error', { type, error: error instanceof Error ? error.message : String(error) }, error instanceof Error ? error : undefined)
@@ -547,6 +552,18 @@ export async function startRetailerScheduler(): Promise<void> {
     }
   )
 
+  // Add repeatable job for feed upload retention (daily, 03:45 UTC)
+  await retailerSchedulerQueue.add(
+    'cleanup-uploads',
+    { type: 'uploads' },
+    {
+      repeat: {
+        pattern: '45 3 * * *',
+      },
+      jobId: 'repeatable-upload-cleanup', // Stable ID for deduplication
+    }
+  )
+
   // Run initial scheduling after startup delay
   setTimeout(async () => {
     try {
@@ -568,6 +585,7 @@ export async function startRetailerScheduler(): Promise<void> {
   log.info('Started with repeatable jobs', {
     feedSchedule: 'every 5 minutes',
     benchmarkSchedule: 'every 2 hours',
+    uploadCleanupSchedule: '03:45 UTC daily',
   })
 }
 
@@ -0,0 +1,179 @@
+/**
+ * Tests for feed secret rotation
+ *
+ * Runs the rotation against mocked feed rows with real encryption, moving
+ * payloads from key version 1 to 2 and encrypting legacy plaintext passwords.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import crypto from 'crypto'
+import {
+  buildFeedCredentialAAD,
+  clearKeyCache,
+  decryptSecret,
+  encryptSecret,
+  getSecretKeyVersion,
+} from '@ironscout/crypto'
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    affiliate_feeds: { findMany: vi.fn(), updateMany: vi.fn() },
+    retailer_feeds: { findMany: vi.fn(), updateMany: vi.fn(), update: vi.fn() },
+  },
+}))
+
+vi.mock('../../config/logger', () => ({
+  logger: { worker: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } },
+}))
+
+import { prisma } from '@ironscout/db'
+import { encryptPlaintextFeedPasswords, rotateFeedSecrets } from '../feed-secret-rotation'
+
+const oldKey = crypto.randomBytes(32).toString('base64')
+const newKey = crypto.randomBytes(32).toString('base64')
+
+function useKey(key: string, version: number, previous?: string) {
+  clearKeyCache()
+  process.env.CREDENTIAL_ENCRYPTION_KEY_B64 = key
+  process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION = String(version)
+  if (previous) {
+    process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64 = previous
+  } else {
+    delete process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64
+  }
+}
+
+function updatedCiphertext(mock: unknown): Buffer {
+  const call = vi.mocked(mock as (...args: unknown[]) => unknown).mock.calls[0][0] as {
+    data: { secretCiphertext: Uint8Array }
+  }
+  return Buffer.from(call.data.secretCiphertext)
+}
+
+describe('rotateFeedSecrets', () => {
+  let affiliateSecret: Uint8Array
+  let retailerSecret: Uint8Array
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    useKey(oldKey, 1)
+    affiliateSecret = new Uint8Array(encryptSecret('affiliate-pass'))
+    retailerSecret = new Uint8Array(encryptSecret('retailer-pass', buildFeedCredentialAAD('rf-1', 1)))
+    useKey(newKey, 2, `1:${oldKey}`)
+
+    vi.mocked(prisma.affiliate_feeds.findMany).mockResolvedValue([
+      { id: 'af-1', secretCiphertext: affiliateSecret, secretKeyId: null },
+    ] as never)
+    vi.mocked(prisma.retailer_feeds.findMany).mockResolvedValue([
+      { id: 'rf-1', secretCiphertext: retailerSecret, secretVersion: 1, password: null },
+      { id: 'rf-2', secretCiphertext: null, secretVersion: 1, password: 'legacy-pass' },
+    ] as never)
+    vi.mocked(prisma.affiliate_feeds.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(prisma.retailer_feeds.updateMany).mockResolvedValue({ count: 1 })
+  })
+
+  afterEach(() => {
+    clearKeyCache()
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_B64
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION
+    delete process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64
+  })
+
+  it('re-encrypts secrets under the current key version', async () => {
+    const summary = await rotateFeedSecrets()
+
+    expect(summary.keyVersion).toBe(2)
+    expect(summary.affiliate).toEqual({ scanned: 1, rotated: 1, encrypted: 0, skipped: 0 })
+    expect(summary.retailer).toEqual({ scanned: 2, rotated: 1, encrypted: 1, skipped: 0 })
+    expect(summary.errors).toEqual([])
+
+    const affiliate = updatedCiphertext(prisma.affiliate_feeds.updateMany)
+    expect(getSecretKeyVersion(affiliate)).toBe(2)
+    expect(decryptSecret(affiliate)).toBe('affiliate-pass')
+
+    // Guarded on the ciphertext that was read
+    expect(prisma.affiliate_feeds.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'af-1', secretCiphertext: affiliateSecret } })
+    )
+  })
+
+  it('encrypts legacy plaintext passwords and clears them', async () => {
+    await rotateFeedSecrets()
+
+    const calls = vi.mocked(prisma.retailer_feeds.updateMany).mock.calls
+    const legacy = calls.find(([args]) => args.where?.id === 'rf-2')![0]
+    expect(legacy.where).toEqual({ id: 'rf-2', secretCiphertext: null, password: 'legacy-pass' })
+    expect(legacy.data).toMatchObject({ password: null })
+
+    // Retired key is no longer needed to read it
+    useKey(newKey, 2)
+    const ciphertext = Buffer.from(legacy.data.secretCiphertext as Uint8Array)
+    expect(decryptSecret(ciphertext, buildFeedCredentialAAD('rf-2', 1))).toBe('legacy-pass')
+  })
+
+  it('skips secrets already on the current key', async () => {
+    vi.mocked(prisma.affiliate_feeds.findMany).mockResolvedValue([
+      { id: 'af-2', secretCiphertext: new Uint8Array(encryptSecret('current')), secretKeyId: null },
+    ] as never)
+    vi.mocked(prisma.retailer_feeds.findMany).mockResolvedValue([])
+
+    const summary = await rotateFeedSecrets()
+
+    expect(summary.affiliate).toMatchObject({ rotated: 0, skipped: 1 })
+    expect(prisma.affiliate_feeds.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('writes nothing in dry-run mode', async () => {
+    const summary = await rotateFeedSecrets({ dryRun: true })
+
+    expect(summary.affiliate.rotated).toBe(1)
+    expect(summary.retailer).toMatchObject({ rotated: 1, encrypted: 1 })
+    expect(prisma.affiliate_feeds.updateMany).not.toHaveBeenCalled()
+    expect(prisma.retailer_feeds.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('reports secrets it cannot decrypt without stopping', async () => {
+    // Old key removed before rotating
+    useKey(newKey, 2)
+
+    const summary = await rotateFeedSecrets()
+
+    expect(summary.errors.map((e) => e.feedId)).toEqual(['af-1', 'rf-1'])
+    expect(summary.retailer.encrypted).toBe(1)
+  })
+})
+
+describe('encryptPlaintextFeedPasswords', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    useKey(newKey, 2)
+    vi.mocked(prisma.retailer_feeds.findMany).mockResolvedValue([
+      { id: 'rf-2', secretVersion: 1, password: 'legacy-pass' },
+      { id: 'rf-3', secretVersion: 1, password: 'raced-pass' },
+    ] as never)
+    vi.mocked(prisma.retailer_feeds.updateMany)
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+  })
+
+  afterEach(() => {
+    clearKeyCache()
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_B64
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION
+  })
+
+  it('encrypts only feeds that still have a plaintext password', async () => {
+    const counts = await encryptPlaintextFeedPasswords()
+
+    expect(counts).toEqual({ scanned: 2, rotated: 0, encrypted: 1, skipped: 1 })
+    expect(prisma.retailer_feeds.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { secretCiphertext: null, password: { not: null } } })
+    )
+    expect(prisma.affiliate_feeds.findMany).not.toHaveBeenCalled()
+
+    const [args] = vi.mocked(prisma.retailer_feeds.updateMany).mock.calls[0]
+    expect(args.data).toMatchObject({ password: null })
+    const ciphertext = Buffer.from(args.data.secretCiphertext as Uint8Array)
+    expect(decryptSecret(ciphertext, buildFeedCredentialAAD('rf-2', 1))).toBe('legacy-pass')
+  })
+})
@@ -33,13 +33,16 @@ import { rootLogger } from '../config/logger'
 import { flushLogs } from '@ironscout/logger'
 import {
   alertQueue,
+  crawlQueue,
   retailerFeedIngestQueue,
   affiliateFeedQueue,
   affiliateFeedSchedulerQueue,
   productResolveQueue,
   embeddingGenerateQueue,
+  suggestionIndexRefreshQueue,
   quarantineReprocessQueue,
   currentPriceRecomputeQueue,
+  priceHistoryRollupQueue,
 } from '../config/queues'
 
 const log = rootLogger.child('bullboard')
@@ -103,6 +106,8 @@ createBullBoard({
   queues: [
     // Alert queue
     new BullMQAdapter(alertQueue),
+    // Crawl queue
+    new BullMQAdapter(crawlQueue),
     // Retailer portal queues
     new BullMQAdapter(retailerFeedIngestQueue),
     // Affiliate feed queues
@@ -112,10 +117,14 @@ createBullBoard({
     new BullMQAdapter(productResolveQueue),
     // Embedding Generation queue
     new BullMQAdapter(embeddingGenerateQueue),
+    // Search Suggestion Index queue
+    new BullMQAdapter(suggestionIndexRefreshQueue),
     // Quarantine Reprocess queue
     new BullMQAdapter(quarantineReprocessQueue),
     // Current Price Recompute queue (ADR-015)
     new BullMQAdapter(currentPriceRecomputeQueue),
+    // Price History Rollup queue
+    new BullMQAdapter(priceHistoryRollupQueue),
   ],
   serverAdapter,
 })
@@ -161,12 +170,15 @@ const server = app.listen(config.port, () => {
     url: `http://localhost:${config.port}${config.basePath}`,
     queues: [
       'alert',
+      'crawl',
       'retailer-feed-ingest',
       'affiliate-feed', 'affiliate-feed-scheduler',
       'product-resolve',
       'embedding-generate',
+      'suggestion-index-refresh',
       'quarantine-reprocess',
       'current-price-recompute',
+      'price-history-rollup',
     ],
     warning: 'DO NOT EXPOSE TO PUBLIC INTERNET',
   })
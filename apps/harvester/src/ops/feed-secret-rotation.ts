@@ -0,0 +1,203 @@
+/**
+ * Feed Secret Rotation
+ *
+ * Re-encrypts every stored feed credential (affiliate_feeds and retailer_feeds)
+ * under the current CREDENTIAL_ENCRYPTION_KEY_VERSION. Payloads already on the
+ * current key are left alone, so the rotation can be re-run safely.
+ *
+ * Retailer feeds that still have a legacy plaintext `password` are encrypted
+ * into secretCiphertext and the plaintext column is cleared. The worker also
+ * does this on its own at startup (encryptPlaintextFeedPasswords), so a deploy
+ * never leaves plaintext behind waiting for a manual rotation.
+ *
+ * Each update is guarded on the ciphertext it read, so a credential edited
+ * while the rotation runs is skipped rather than overwritten.
+ */
+
+import { prisma } from '@ironscout/db'
+import {
+  buildFeedCredentialAAD,
+  encryptSecret,
+  getCredentialKeyVersion,
+  getSecretKeyVersion,
+  reencryptSecret,
+} from '@ironscout/crypto'
+import { logger } from '../config/logger'
+
+const log = logger.worker
+
+export interface FeedSecretRotationOptions {
+  /** Count what would change without writing */
+  dryRun?: boolean
+}
+
+export interface FeedSecretRotationCounts {
+  scanned: number
+  rotated: number
+  /** Legacy plaintext passwords encrypted (retailer feeds only) */
+  encrypted: number
+  /** Already on the current key, or changed while rotating */
+  skipped: number
+}
+
+export interface FeedSecretRotationSummary {
+  keyVersion: number
+  dryRun: boolean
+  affiliate: FeedSecretRotationCounts
+  retailer: FeedSecretRotationCounts
+  errors: Array<{ table: 'affiliate_feeds' | 'retailer_feeds'; feedId: string; message: string }>
+}
+
+function emptyCounts(): FeedSecretRotationCounts {
+  return { scanned: 0, rotated: 0, encrypted: 0, skipped: 0 }
+}
+
+function toBytes(buf: Buffer): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(buf) as Uint8Array<ArrayBuffer>
+}
+
+export async function rotateFeedSecrets(
+  options: FeedSecretRotationOptions = {}
+): Promise<FeedSecretRotationSummary> {
+  const dryRun = options.dryRun ?? false
+  const keyVersion = getCredentialKeyVersion()
+  const summary: FeedSecretRotationSummary = {
+    keyVersion,
+    dryRun,
+    affiliate: emptyCounts(),
+    retailer: emptyCounts(),
+    errors: [],
+  }
+
+  const affiliateFeeds = await prisma.affiliate_feeds.findMany({
+    where: { secretCiphertext: { not: null } },
+    select: { id: true, secretCiphertext: true, secretKeyId: true },
+  })
+
+  for (const feed of affiliateFeeds) {
+    summary.affiliate.scanned++
+    try {
+      const current = Buffer.from(feed.secretCiphertext!)
+      if (getSecretKeyVersion(current) === keyVersion) {
+        summary.affiliate.skipped++
+        continue
+      }
+
+      const rotated = reencryptSecret(current, feed.secretKeyId || undefined)
+      if (!dryRun) {
+        const { count } = await prisma.affiliate_feeds.updateMany({
+          where: { id: feed.id, secretCiphertext: feed.secretCiphertext },
+          data: { secretCiphertext: toBytes(rotated) },
+        })
+        if (count === 0) {
+          summary.affiliate.skipped++
+          continue
+        }
+      }
+      summary.affiliate.rotated++
+    } catch (error) {
+      summary.errors.push({ table: 'affiliate_feeds', feedId: feed.id, message: errorMessage(error) })
+    }
+  }
+
+  const retailerFeeds = await prisma.retailer_feeds.findMany({
+    where: { OR: [{ secretCiphertext: { not: null } }, { password: { not: null } }] },
+    select: { id: true, secretCiphertext: true, secretVersion: true, password: true },
+  })
+
+  for (const feed of retailerFeeds) {
+    summary.retailer.scanned++
+    const aad = buildFeedCredentialAAD(feed.id, feed.secretVersion)
+    try {
+      if (!feed.secretCiphertext) {
+        if (!dryRun && !(await encryptPlaintextPassword(feed.id, feed.password!, aad))) {
+          summary.retailer.skipped++
+          continue
+        }
+        summary.retailer.encrypted++
+        continue
+      }
+
+      const current = Buffer.from(feed.secretCiphertext)
+      if (getSecretKeyVersion(current) === keyVersion) {
+        if (feed.password && !dryRun) {
+          // Plaintext left behind next to an encrypted password
+          await prisma.retailer_feeds.update({ where: { id: feed.id }, data: { password: null } })
+        }
+        summary.retailer.skipped++
+        continue
+      }
+
+      const rotated = reencryptSecret(current, aad)
+      if (!dryRun) {
+        const { count } = await prisma.retailer_feeds.updateMany({
+          where: { id: feed.id, secretCiphertext: feed.secretCiphertext },
+          data: { secretCiphertext: toBytes(rotated), password: null },
+        })
+        if (count === 0) {
+          summary.retailer.skipped++
+          continue
+        }
+      }
+      summary.retailer.rotated++
+    } catch (error) {
+      summary.errors.push({ table: 'retailer_feeds', feedId: feed.id, message: errorMessage(error) })
+    }
+  }
+
+  log.info('FEED_SECRETS_ROTATED', {
+    keyVersion,
+    dryRun,
+    affiliate: summary.affiliate,
+    retailer: summary.retailer,
+    errorCount: summary.errors.length,
+  })
+
+  return summary
+}
+
+/**
+ * Encrypt a legacy plaintext password and clear the column. Returns false
+ * when the feed changed since it was read.
+ */
+async function encryptPlaintextPassword(feedId: string, password: string, aad: string): Promise<boolean> {
+  const { count } = await prisma.retailer_feeds.updateMany({
+    where: { id: feedId, secretCiphertext: null, password },
+    data: { secretCiphertext: toBytes(encryptSecret(password, aad)), password: null },
+  })
+  return count > 0
+}
+
+/**
+ * Encrypt every legacy plaintext retailer feed password under the current
+ * key. Unlike rotateFeedSecrets it leaves existing ciphertext alone, so it is
+ * cheap enough to run on every worker startup.
+ */
+export async function encryptPlaintextFeedPasswords(): Promise<FeedSecretRotationCounts> {
+  const counts = emptyCounts()
+
+  const feeds = await prisma.retailer_feeds.findMany({
+    where: { secretCiphertext: null, password: { not: null } },
+    select: { id: true, secretVersion: true, password: true },
+  })
+
+  for (const feed of feeds) {
+    counts.scanned++
+    const aad = buildFeedCredentialAAD(feed.id, feed.secretVersion)
+    if (await encryptPlaintextPassword(feed.id, feed.password!, aad)) {
+      counts.encrypted++
+    } else {
+      counts.skipped++
+    }
+  }
+
+  if (counts.scanned > 0) {
+    log.info('FEED_PLAINTEXT_PASSWORDS_ENCRYPTED', { ...counts })
+  }
+
+  return counts
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,198 @@
+/**
+ * Tests for CJ and Rakuten network feed parsers
+ *
+ * Covers native layouts (CJ legacy + shopping feeds, Rakuten merchandiser
+ * pipe + XML), streaming in the configured format, and unwrapping of network
+ * click links to canonical URLs.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PassThrough, Readable } from 'stream'
+import { CJParser, unwrapCJClickUrl } from '../cj'
+import { RakutenParser, unwrapRakutenClickUrl } from '../rakuten'
+
+describe('CJParser', () => {
+  const parser = new CJParser()
+
+  it('parses legacy product catalog CSV columns', async () => {
+    const csv = `PROGRAMNAME,NAME,SKU,MANUFACTURER,UPC,CURRENCY,SALEPRICE,PRICE,BUYURL,IMAGEURL,ADVERTISERCATEGORY,INSTOCK
+Ammo Depot,Federal HST 9mm 124gr JHP 50rd,FED-P9HST1S,Federal,029465088569,USD,24.99,29.99,https://www.jdoqocy.com/click-100-200?url=https%3A%2F%2Fammodepot.com%2Fp%2Ffed-hst,https://ammodepot.com/img/hst.jpg,Handgun Ammo,yes`
+
+    const [product] = await parser.parse(csv)
+
+    expect(product.retailer).toBe('Ammo Depot')
+    expect(product.name).toBe('Federal HST 9mm 124gr JHP 50rd')
+    expect(product.sku).toBe('FED-P9HST1S')
+    expect(product.upc).toBe('029465088569')
+    expect(product.price).toBe(24.99)
+    expect(product.originalPrice).toBe(29.99)
+    expect(product.inStock).toBe(true)
+    expect(product.url).toBe('https://ammodepot.com/p/fed-hst')
+    expect(product.catalogItemId).toBeUndefined()
+    expect(product.rawData?.clickUrl).toContain('jdoqocy.com')
+  })
+
+  it('parses shopping feed TSV with network item id and currency suffix', async () => {
+    const tsv = [
+      'id\ttitle\tlink\tprice\tsale_price\tavailability\tbrand\tgtin\tprogram_name',
+      'CJ-998877\tWinchester 5.56 55gr FMJ 1000rd\thttps://shop.example.com/win-556\t449.99 USD\t\tout_of_stock\tWinchester\t020892223292\tShop Example',
+    ].join('\n')
+
+    const [product] = await parser.parse(tsv)
+
+    expect(product.catalogItemId).toBe('CJ-998877')
+    expect(product.price).toBe(449.99)
+    expect(product.originalPrice).toBeUndefined()
+    expect(product.currency).toBe('USD')
+    expect(product.inStock).toBe(false)
+    expect(product.url).toBe('https://shop.example.com/win-556')
+  })
+
+  it('parses Google Merchant style XML', async () => {
+    const xml = `<?xml version="1.0"?>
+<rss xmlns:g="http://base.google.com/ns/1.0"><channel>
+  <item>
+    <g:id>00123</g:id>
+    <title>CCI Blazer Brass 9mm 115gr FMJ</title>
+    <link>https://www.anrdoezrs.net/links/1234/type/dlg/https://retailer.example.com/cci-9mm</link>
+    <g:price>15.99 USD</g:price>
+    <g:availability>in stock</g:availability>
+  </item>
+</channel></rss>`
+
+    const [product] = await parser.parse(xml)
+
+    expect(product.catalogItemId).toBe('00123')
+    expect(product.name).toBe('CCI Blazer Brass 9mm 115gr FMJ')
+    expect(product.url).toBe('https://retailer.example.com/cci-9mm')
+    expect(product.price).toBe(15.99)
+  })
+
+  it('streams pipe-delimited catalogs configured as CSV', async () => {
+    const content = 'PROGRAMNAME|NAME|PRICE|BUYURL\nAmmo Depot|Federal 9mm, 115gr|18.99|https://ammodepot.com/p/fed-9mm\n'
+    // One byte per chunk: records and the header sniff must survive any split
+    const input = Readable.from(content.split('').map((c) => Buffer.from(c)), { objectMode: false })
+
+    const products = []
+    for await (const product of parser.parseStream(input, 'CSV')) products.push(product)
+
+    expect(products).toHaveLength(1)
+    expect(products[0].name).toBe('Federal 9mm, 115gr')
+    expect(products[0].price).toBe(18.99)
+  })
+
+  it('yields XML products before the stream ends', async () => {
+    const input = new PassThrough()
+    const products = parser.parseStream(input, 'XML')
+
+    input.write('<cj-product-catalog><product><NAME>Federal 9mm</NAME><PRICE>18.99</PRICE>')
+    input.write('<BUYURL>https://ammodepot.com/p/fed-9mm</BUYURL></product><product>')
+    const first = await products.next()
+
+    expect(first.value).toMatchObject({ name: 'Federal 9mm', price: 18.99 })
+    input.end('</product></cj-product-catalog>')
+  })
+
+  it('rejects formats CJ does not publish', async () => {
+    const products = parser.parseStream(Readable.from(['{"id":"1"}\n']), 'NDJSON')
+
+    await expect(products.next()).rejects.toThrow('Unsupported CJ feed format: NDJSON')
+  })
+
+  describe('unwrapCJClickUrl', () => {
+    it('returns non-CJ URLs unchanged', () => {
+      expect(unwrapCJClickUrl('https://retailer.example.com/p/1')).toBe('https://retailer.example.com/p/1')
+    })
+
+    it('returns empty string for CJ links without a deep-link target', () => {
+      expect(unwrapCJClickUrl('https://www.kqzyfj.com/click-100-200')).toBe('')
+    })
+  })
+})
+
+describe('RakutenParser', () => {
+  const parser = new RakutenParser()
+
+  const merchandiserRow = (overrides: Partial<Record<number, string>> = {}, extra: string[] = []) => {
+    const cols = new Array(28).fill('')
+    cols[0] = '555001'
+    cols[1] = 'Hornady Critical Defense 9mm 115gr FTX 25rd'
+    cols[2] = 'HRN-90250'
+    cols[3] = 'Ammunition'
+    cols[4] = 'Handgun'
+    cols[5] = 'https://click.linksynergy.com/link?id=abc&offerid=1.2&type=15&murl=https%3A%2F%2Fgunshop.example.com%2Fhornady-cd-9mm'
+    cols[12] = '21.99'
+    cols[13] = '25.99'
+    cols[16] = 'Hornady'
+    cols[22] = 'in-stock'
+    cols[23] = '090255902500'
+    cols[25] = 'USD'
+    for (const [i, value] of Object.entries(overrides)) cols[Number(i)] = value as string
+    return [...cols, ...extra].join('|')
+  }
+
+  it('parses pipe-delimited merchandiser file with HDR/TRL framing', async () => {
+    const content = ['HDR|38605|Gun Shop Example|2026-01-10/02:00:00', merchandiserRow(), 'TRL|1'].join('\n')
+
+    const products = await parser.parse(content)
+
+    expect(products).toHaveLength(1)
+    const [product] = products
+    expect(product.retailer).toBe('Gun Shop Example')
+    expect(product.catalogItemId).toBe('555001')
+    expect(product.sku).toBe('HRN-90250')
+    expect(product.price).toBe(21.99)
+    expect(product.originalPrice).toBe(25.99)
+    expect(product.upc).toBe('090255902500')
+    expect(product.category).toBe('Ammunition > Handgun')
+    expect(product.url).toBe('https://gunshop.example.com/hornady-cd-9mm')
+    expect(product.inStock).toBe(true)
+  })
+
+  it('preserves the delta modification flag', async () => {
+    const content = ['HDR|38605|Gun Shop Example|2026-01-10', merchandiserRow({ 22: 'out-of-stock' }, ['', 'D']), 'TRL|1'].join('\n')
+
+    const [product] = await parser.parse(content)
+
+    expect(product.inStock).toBe(false)
+    expect(product.rawData?.modification).toBe('D')
+  })
+
+  it('parses merchandiser XML', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<merchandiser>
+  <header><merchantId>38605</merchantId><merchantName>Gun Shop Example</merchantName></header>
+  <product product_id="555002" name="Speer Gold Dot 45 ACP 230gr" sku_number="SPR-23966" manufacturer_name="Speer">
+    <category><primary>Ammunition</primary></category>
+    <URL><product>https://click.linksynergy.com/link?id=abc&amp;murl=https%3A%2F%2Fgunshop.example.com%2Fspeer-45</product></URL>
+    <price currency="USD"><sale begin_date="2026-01-01" end_date="2026-01-31">27.49</sale><retail>31.99</retail></price>
+    <shipping><availability>in-stock</availability></shipping>
+    <upc>076683239660</upc>
+  </product>
+  <trailer><numberOfProducts>1</numberOfProducts></trailer>
+</merchandiser>`
+
+    const [product] = await parser.parse(xml)
+
+    expect(product.catalogItemId).toBe('555002')
+    expect(product.retailer).toBe('Gun Shop Example')
+    expect(product.brand).toBe('Speer')
+    expect(product.price).toBe(27.49)
+    expect(product.originalPrice).toBe(31.99)
+    expect(product.saleEndsAt).toBe('2026-01-31')
+    expect(product.upc).toBe('076683239660')
+    expect(product.url).toBe('https://gunshop.example.com/speer-45')
+  })
+
+  it('honours the configured format instead of sniffing content', async () => {
+    const content = ['HDR|38605|Gun Shop Example|2026-01-10', merchandiserRow(), 'TRL|1'].join('\n')
+
+    await expect(parser.parseStream(Readable.from([content]), 'TSV').next())
+      .rejects.toThrow('Unsupported Rakuten feed format: TSV')
+  })
+
+  it('unwrapRakutenClickUrl leaves links without murl unchanged', () => {
+    const url = 'https://click.linksynergy.com/fs-bin/click?id=abc&offerid=1'
+    expect(unwrapRakutenClickUrl(url)).toBe(url)
+  })
+})
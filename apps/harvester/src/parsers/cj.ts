@@ -0,0 +1,277 @@
+import { Readable } from 'stream'
+import { parse as parseCSVStream } from 'csv-parse'
+import type { FeedFormat } from '@ironscout/db'
+import { StreamingFeedParser, ParsedProduct } from './index'
+import { peekFirstLine, streamXmlElements } from './stream'
+
+/** Product element names across CJ XML layouts (catalog, RSS, Atom) */
+const CJ_XML_PRODUCT_ELEMENTS = new Set(['product', 'item', 'entry'])
+
+/**
+ * Parser for CJ Affiliate (Commission Junction) product catalog feeds
+ * Supports CSV (comma or pipe-delimited), TSV and XML formats, read as a
+ * stream in the feed's configured format
+ *
+ * CJ publishes two catalog layouts:
+ * - Legacy Product Catalog: uppercase columns (PROGRAMNAME, NAME, SKU, UPC,
+ *   SALEPRICE, PRICE, RETAILPRICE, BUYURL, IMAGEURL, INSTOCK, ...)
+ * - Shopping feed (Google Merchant style): id, title, link, image_link,
+ *   availability, price, sale_price, brand, gtin, mpn, ad_id, catalog_id, ...
+ *
+ * BUYURL / click URLs are CJ tracking links (anrdoezrs.net, jdoqocy.com, ...).
+ * Product URLs are stored canonical, so the merchant URL is unwrapped from the
+ * click link and the tracking template on the Source is applied at click time.
+ *
+ * @see https://developers.cj.com/docs/product-feeds
+ */
+export class CJParser implements StreamingFeedParser {
+  async parse(content: string): Promise<ParsedProduct[]> {
+    const products: ParsedProduct[] = []
+    for await (const product of this.parseStream(Readable.from([content]), this.detectFormat(content))) {
+      products.push(product)
+    }
+    return products
+  }
+
+  async *parseStream(input: Readable, format: FeedFormat): AsyncGenerator<ParsedProduct> {
+    switch (format) {
+      case 'CSV': {
+        // CJ exports both comma and pipe-delimited catalogs as "CSV"
+        const { firstLine, stream } = await peekFirstLine(input)
+        const pipeCount = (firstLine.match(/\|/g) || []).length
+        const commaCount = (firstLine.match(/,/g) || []).length
+        yield* this.streamDelimited(stream, pipeCount > commaCount ? '|' : ',')
+        return
+      }
+      case 'TSV':
+        yield* this.streamDelimited(input, '\t')
+        return
+      case 'XML':
+        yield* this.streamXML(input)
+        return
+      default:
+        throw new Error(`Unsupported CJ feed format: ${format}`)
+    }
+  }
+
+  /**
+   * Detect the format of in-memory content
+   * Checks for XML, otherwise TSV when the header has more tabs than commas
+   */
+  private detectFormat(content: string): FeedFormat {
+    const trimmed = content.trim()
+    if (trimmed.startsWith('<')) return 'XML'
+
+    const firstLine = trimmed.split('\n')[0] || ''
+    const tabCount = (firstLine.match(/\t/g) || []).length
+    const pipeCount = (firstLine.match(/\|/g) || []).length
+    const commaCount = (firstLine.match(/,/g) || []).length
+
+    if (tabCount > commaCount && tabCount >= pipeCount) return 'TSV'
+    return 'CSV'
+  }
+
+  private async *streamDelimited(input: Readable, delimiter: ',' | '\t' | '|'): AsyncGenerator<ParsedProduct> {
+    const parser = parseCSVStream({
+      columns: true,
+      skip_empty_lines: true,
+      delimiter,
+      relax_column_count: true,
+      relax_quotes: true,
+      trim: true,
+      bom: true,
+    })
+    input.on('error', (err) => parser.destroy(err))
+    input.pipe(parser)
+
+    for await (const record of parser) {
+      yield this.mapRecord(record as Record<string, string>)
+    }
+  }
+
+  /**
+   * Stream XML products
+   * CJ XML structures: <cj-product-catalog><product>...</product></cj-product-catalog>
+   * or Google Merchant style <rss><channel><item>...</item></channel></rss>
+   */
+  private async *streamXML(input: Readable): AsyncGenerator<ParsedProduct> {
+    // Strip g: namespace prefix from Google Merchant style feeds
+    for await (const { node } of streamXmlElements(input, CJ_XML_PRODUCT_ELEMENTS, { removeNSPrefix: true })) {
+      yield this.mapRecord(flattenXmlRecord(node))
+    }
+  }
+
+  /**
+   * Map a raw record to ParsedProduct using CJ field names from both layouts
+   */
+  private mapRecord(record: Record<string, string>): ParsedProduct {
+    const getValue = (...keys: string[]): string | undefined => {
+      for (const key of keys) {
+        const lowerKey = key.toLowerCase()
+        for (const recordKey of Object.keys(record)) {
+          if (recordKey.toLowerCase() === lowerKey && record[recordKey] !== undefined && record[recordKey] !== '') {
+            return String(record[recordKey])
+          }
+        }
+      }
+      return undefined
+    }
+
+    // Shopping feed prices are "24.99 USD"; legacy prices are bare numbers
+    const parseMoney = (...keys: string[]): number | undefined => {
+      const value = getValue(...keys)
+      if (!value) return undefined
+      const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''))
+      return isNaN(parsed) ? undefined : parsed
+    }
+
+    const salePrice = parseMoney('SALEPRICE', 'sale_price', 'salePrice')
+    const listPrice = parseMoney('PRICE', 'price')
+    const retailPrice = parseMoney('RETAILPRICE', 'retail_price')
+    const price = salePrice ?? listPrice ?? 0
+    // Original price only meaningful when the selling price is discounted
+    const originalPrice = salePrice !== undefined ? (listPrice ?? retailPrice) : retailPrice
+
+    const clickUrl = getValue('BUYURL', 'buy_url', 'link', 'url')
+    const merchantUrl = getValue('link', 'product_url', 'PRODUCTURL')
+    const url = unwrapCJClickUrl(merchantUrl ?? clickUrl ?? '') || clickUrl || ''
+
+    const stockAvailabilityText = getValue('INSTOCK', 'availability', 'in_stock')
+    // Shopping feeds carry the sale window as "start/end" (ISO-8601 interval)
+    const effectiveDate = getValue('sale_price_effective_date')
+
+    return {
+      retailer: getValue('PROGRAMNAME', 'program_name', 'advertiser_name', 'advertiserName') || '',
+      name: getValue('NAME', 'title') || '',
+      price,
+      inStock: parseStockStatus(stockAvailabilityText),
+      url,
+
+      upc: getValue('UPC', 'gtin', 'ISBN', 'EAN'),
+      sku: getValue('SKU', 'mpn', 'MANUFACTURERID', 'item_group_id'),
+      category: getValue('ADVERTISERCATEGORY', 'product_type', 'THIRDPARTYCATEGORY', 'google_product_category'),
+      brand: getValue('MANUFACTURER', 'brand'),
+      imageUrl: getValue('IMAGEURL', 'image_link', 'imageLink'),
+      description: getValue('DESCRIPTION', 'description'),
+
+      // Shopping feed `id` is CJ's stable catalog item identifier;
+      // legacy catalogs have no network-level ID (SKU identity is used instead)
+      catalogItemId: getValue('id', 'catalog_item_id', 'CATALOGITEMID'),
+      originalPrice: originalPrice !== undefined && originalPrice > price ? originalPrice : undefined,
+      currency: getValue('CURRENCY', 'currency') || parseCurrencySuffix(getValue('price', 'PRICE')) || 'USD',
+      stockAvailabilityText,
+      condition: getValue('CONDITION', 'condition'),
+      labels: getValue('KEYWORDS', 'custom_label_0'),
+      saleStartsAt: getValue('STARTDATE') ?? effectiveDate?.split('/')[0],
+      saleEndsAt: getValue('ENDDATE') ?? effectiveDate?.split('/')[1],
+
+      rawData: this.extractRawData(record, clickUrl),
+    }
+  }
+
+  /**
+   * Preserve CJ program metadata for debugging/auditing
+   */
+  private extractRawData(record: Record<string, string>, clickUrl: string | undefined): Record<string, unknown> {
+    const rawData: Record<string, unknown> = {}
+    const keys = ['CATALOGNAME', 'catalog_id', 'ad_id', 'advertiser_id', 'PROGRAMURL', 'LASTUPDATED', 'STANDARDSHIPPINGCOST']
+
+    for (const key of Object.keys(record)) {
+      if (keys.some((k) => k.toLowerCase() === key.toLowerCase()) && record[key] !== '') {
+        rawData[key] = record[key]
+      }
+    }
+    if (clickUrl) rawData.clickUrl = clickUrl
+
+    return rawData
+  }
+}
+
+/**
+ * Known CJ click-tracking domains
+ */
+const CJ_CLICK_HOSTS = [
+  'anrdoezrs.net', 'jdoqocy.com', 'kqzyfj.com', 'tkqlhce.com', 'dpbolvw.net',
+  'qksrv.net', 'emjcd.com', 'ftjcfx.com', 'lduhtrp.net', 'tqlkg.com',
+  'awltovhc.com', 'yceml.net', 'apmebf.com', 'afcyhf.com',
+]
+
+/**
+ * Extract the merchant product URL from a CJ click/deep link.
+ *
+ * Handles:
+ * - https://www.jdoqocy.com/click-123-456?url=https%3A%2F%2Fretailer.com%2Fp%2F1
+ * - https://www.anrdoezrs.net/links/123/type/dlg/https://retailer.com/p/1
+ *
+ * Non-CJ URLs are returned unchanged. Returns '' when a CJ link carries no
+ * deep-link target (caller falls back to the click URL).
+ */
+export function unwrapCJClickUrl(url: string): string {
+  if (!url) return ''
+  try {
+    const parsed = new URL(url)
+    const host = parsed.hostname.toLowerCase()
+    if (!CJ_CLICK_HOSTS.some((h) => host === h || host.endsWith(`.${h}`))) {
+      return url
+    }
+
+    const target = parsed.searchParams.get('url')
+    if (target) return target
+
+    const dlgMatch = url.match(/\/type\/dlg\/(?:sid\/[^/]+\/)?(https?:\/\/.+)$/i)
+    if (dlgMatch) return dlgMatch[1]
+
+    return ''
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Flatten a parsed XML product element to a string record
+ * Nested price objects ({ '#text': '24.99', '@_currency': 'USD' }) collapse to their text
+ */
+function flattenXmlRecord(product: Record<string, unknown>): Record<string, string> {
+  const record: Record<string, string> = {}
+  for (const [key, value] of Object.entries(product)) {
+    if (value === undefined || value === null) continue
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      const text = (value as Record<string, unknown>)['#text']
+      if (text !== undefined) record[key] = String(text)
+      continue
+    }
+    record[key] = Array.isArray(value) ? String(value[0]) : String(value)
+  }
+  return record
+}
+
+/**
+ * Extract the ISO currency suffix from a shopping feed price ("24.99 USD")
+ */
+function parseCurrencySuffix(value: string | undefined): string | undefined {
+  const match = value?.match(/\b([A-Z]{3})\s*$/)
+  return match ? match[1] : undefined
+}
+
+/**
+ * Parse stock status from CJ INSTOCK (yes/no) or Google availability values
+ */
+function parseStockStatus(value: string | undefined): boolean {
+  if (!value) return true // CJ omits INSTOCK for most programs - assume available
+  const normalized = value.toLowerCase().trim().replace(/[_-]/g, ' ')
+
+  if (
+    normalized === 'no' ||
+    normalized === 'n' ||
+    normalized === 'false' ||
+    normalized === '0' ||
+    normalized === 'out of stock' ||
+    normalized === 'discontinued' ||
+    normalized === 'preorder' ||
+    normalized === 'backorder'
+  ) {
+    return false
+  }
+
+  return true
+}
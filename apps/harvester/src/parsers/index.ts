@@ -1,5 +1,8 @@
 // Base parser interface for affiliate feeds
 
+import type { Readable } from 'stream'
+import type { FeedFormat } from '@ironscout/db'
+
 /**
  * Core parsed product fields - common across all affiliate networks
  */
@@ -67,6 +70,16 @@ export interface FeedParser {
   parse(content: string): Promise<ParsedProduct[]>
 }
 
+/**
+ * Parser that decodes a feed stream one record at a time, in the feed's
+ * configured format, so large catalogs are never held in memory
+ */
+export interface StreamingFeedParser extends FeedParser {
+  parseStream(input: Readable, format: FeedFormat): AsyncGenerator<ParsedProduct>
+}
+
 export { ImpactParser } from './impact'
 export { AvantLinkParser } from './avantlink'
 export { ShareASaleParser } from './shareasale'
+export { CJParser } from './cj'
+export { RakutenParser } from './rakuten'
@@ -0,0 +1,278 @@
+import { Readable } from 'stream'
+import { parse as parseCSVStream } from 'csv-parse'
+import type { FeedFormat } from '@ironscout/db'
+import { StreamingFeedParser, ParsedProduct } from './index'
+import { streamXmlElements } from './stream'
+
+/**
+ * Positional columns of the LinkShare Merchandiser pipe-delimited file.
+ * Data rows have no header line; the file is framed by HDR and TRL records:
+ *
+ *   HDR|<merchant id>|<merchant name>|<created on>
+ *   <product id>|<product name>|<sku>|...
+ *   TRL|<row count>
+ */
+const MERCHANDISER_COLUMNS = [
+  'product_id',
+  'product_name',
+  'sku_number',
+  'primary_category',
+  'secondary_category',
+  'product_url',
+  'product_image_url',
+  'buy_url',
+  'short_description',
+  'long_description',
+  'discount',
+  'discount_type',
+  'sale_price',
+  'retail_price',
+  'begin_date',
+  'end_date',
+  'brand',
+  'shipping',
+  'keywords',
+  'manufacturer_part_number',
+  'manufacturer_name',
+  'shipping_information',
+  'availability',
+  'upc',
+  'class_id',
+  'currency',
+  'm1',
+  'pixel',
+] as const
+
+/** Top-level merchandiser XML elements read by the parser */
+const MERCHANDISER_XML_ELEMENTS = new Set(['header', 'product'])
+
+/**
+ * Parser for Rakuten Advertising (LinkShare) Merchandiser feeds
+ * Supports the pipe-delimited merchandiser file (feed format CSV) and the
+ * merchandiser XML format, read as a stream
+ *
+ * Product and Buy URLs are click.linksynergy.com links with the merchant URL in
+ * the `murl` parameter. Product URLs are stored canonical, so the merchant URL
+ * is unwrapped here and the Source tracking template is applied at click time.
+ *
+ * Delta merchandiser files append a modification flag (I/U/D) after the
+ * positional columns; it is preserved in rawData.modification.
+ *
+ * @see https://pubhelp.rakutenadvertising.com - Product Catalog (Merchandiser) documentation
+ */
+export class RakutenParser implements StreamingFeedParser {
+  async parse(content: string): Promise<ParsedProduct[]> {
+    const format: FeedFormat = content.trim().startsWith('<') ? 'XML' : 'CSV'
+    const products: ParsedProduct[] = []
+    for await (const product of this.parseStream(Readable.from([content]), format)) {
+      products.push(product)
+    }
+    return products
+  }
+
+  async *parseStream(input: Readable, format: FeedFormat): AsyncGenerator<ParsedProduct> {
+    switch (format) {
+      case 'CSV':
+        yield* this.streamPipe(input)
+        return
+      case 'XML':
+        yield* this.streamXML(input)
+        return
+      default:
+        throw new Error(`Unsupported Rakuten feed format: ${format}. Merchandiser files are CSV (pipe-delimited) or XML.`)
+    }
+  }
+
+  /**
+   * Stream pipe-delimited merchandiser rows
+   * Skips HDR/TRL framing records and maps positional columns by name
+   */
+  private async *streamPipe(input: Readable): AsyncGenerator<ParsedProduct> {
+    const parser = parseCSVStream({
+      columns: false,
+      skip_empty_lines: true,
+      delimiter: '|',
+      relax_column_count: true,
+      // Merchandiser files are unquoted; descriptions may contain stray quotes
+      quote: false,
+      trim: true,
+      bom: true,
+    })
+    input.on('error', (err) => parser.destroy(err))
+    input.pipe(parser)
+
+    let merchantName = ''
+
+    for await (const row of parser as AsyncIterable<string[]>) {
+      const recordType = row[0]?.toUpperCase()
+      if (recordType === 'HDR') {
+        merchantName = row[2] ?? ''
+        continue
+      }
+      if (recordType === 'TRL') continue
+
+      const record: Record<string, string> = {}
+      MERCHANDISER_COLUMNS.forEach((column, i) => {
+        record[column] = row[i] ?? ''
+      })
+      // Anything past the fixed columns is attributes, with the modification
+      // flag last on delta files
+      const extra = row.slice(MERCHANDISER_COLUMNS.length)
+      const lastExtra = extra[extra.length - 1]
+      if (lastExtra && /^[IUD]$/i.test(lastExtra)) {
+        record.modification = lastExtra.toUpperCase()
+      }
+
+      yield this.mapRecord(record, merchantName)
+    }
+  }
+
+  /**
+   * Stream merchandiser XML products
+   * Structure: <merchandiser><header/><product product_id="" name="" ...>...</product><trailer/></merchandiser>
+   */
+  private async *streamXML(input: Readable): AsyncGenerator<ParsedProduct> {
+    let merchantName = ''
+
+    for await (const { name, node } of streamXmlElements(input, MERCHANDISER_XML_ELEMENTS)) {
+      if (name === 'header') {
+        merchantName = text(node.merchantName)
+        continue
+      }
+
+      const product = node as Record<string, any>
+      const record: Record<string, string> = {
+        product_id: text(product['@_product_id']),
+        product_name: text(product['@_name']),
+        sku_number: text(product['@_sku_number']),
+        manufacturer_name: text(product['@_manufacturer_name']),
+        manufacturer_part_number: text(product['@_part_number']),
+        primary_category: text(product.category?.primary),
+        secondary_category: text(product.category?.secondary),
+        product_url: text(product.URL?.product),
+        product_image_url: text(product.URL?.productImage),
+        buy_url: text(product.URL?.buy),
+        short_description: text(product.description?.short),
+        long_description: text(product.description?.long),
+        sale_price: text(product.price?.sale),
+        retail_price: text(product.price?.retail),
+        begin_date: text(product.price?.sale?.['@_begin_date']),
+        end_date: text(product.price?.sale?.['@_end_date']),
+        currency: text(product.price?.['@_currency']),
+        brand: text(product.brand),
+        shipping: text(product.shipping?.cost?.amount),
+        shipping_information: text(product.shipping?.information),
+        availability: text(product.shipping?.availability),
+        keywords: text(product.keywords),
+        upc: text(product.upc),
+        m1: text(product.m1),
+        pixel: text(product.pixel),
+        modification: text(product.modification ?? product['@_modification']),
+      }
+      yield this.mapRecord(record, merchantName)
+    }
+  }
+
+  private mapRecord(record: Record<string, string>, merchantName: string): ParsedProduct {
+    const parseMoney = (value: string | undefined): number | undefined => {
+      if (!value) return undefined
+      const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''))
+      return isNaN(parsed) ? undefined : parsed
+    }
+
+    const salePrice = parseMoney(record.sale_price)
+    const retailPrice = parseMoney(record.retail_price)
+    const price = salePrice ?? retailPrice ?? 0
+
+    const clickUrl = record.product_url || record.buy_url || ''
+    const url = unwrapRakutenClickUrl(clickUrl)
+
+    const rawData: Record<string, unknown> = {}
+    if (clickUrl && clickUrl !== url) rawData.clickUrl = clickUrl
+    if (record.class_id) rawData.classId = record.class_id
+    if (record.shipping) rawData.shipping = record.shipping
+    if (record.modification) rawData.modification = record.modification
+
+    return {
+      retailer: merchantName,
+      name: record.product_name || '',
+      price,
+      inStock: parseAvailability(record.availability),
+      url,
+
+      upc: record.upc || undefined,
+      sku: record.sku_number || record.manufacturer_part_number || undefined,
+      category: [record.primary_category, record.secondary_category].filter(Boolean).join(' > ') || undefined,
+      brand: record.brand || record.manufacturer_name || undefined,
+      imageUrl: record.product_image_url || undefined,
+      description: record.long_description || record.short_description || undefined,
+
+      // Rakuten product_id is the network's stable item identifier
+      catalogItemId: record.product_id || undefined,
+      originalPrice: retailPrice !== undefined && retailPrice > price ? retailPrice : undefined,
+      currency: record.currency || 'USD',
+      stockAvailabilityText: record.availability || undefined,
+      labels: record.keywords || undefined,
+      saleStartsAt: record.begin_date || undefined,
+      saleEndsAt: record.end_date || undefined,
+
+      rawData,
+    }
+  }
+}
+
+/**
+ * Extract the merchant product URL from a Rakuten (LinkShare) click link.
+ *
+ * https://click.linksynergy.com/link?id=abc&offerid=123&type=15&murl=https%3A%2F%2Fretailer.com%2Fp%2F1
+ * -> https://retailer.com/p/1
+ *
+ * Non-LinkShare URLs, or links without a `murl` target, are returned unchanged.
+ */
+export function unwrapRakutenClickUrl(url: string): string {
+  if (!url) return ''
+  try {
+    const parsed = new URL(url)
+    if (!parsed.hostname.toLowerCase().endsWith('linksynergy.com')) {
+      return url
+    }
+    return parsed.searchParams.get('murl') || url
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Coerce a parsed XML node (string, number or { '#text' }) to a trimmed string
+ */
+function text(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'object') {
+    const inner = (value as Record<string, unknown>)['#text']
+    return inner === undefined ? '' : String(inner).trim()
+  }
+  return String(value).trim()
+}
+
+/**
+ * Parse merchandiser availability ("in-stock", "out-of-stock", "yes", "no", ...)
+ */
+function parseAvailability(value: string | undefined): boolean {
+  if (!value) return true // Availability is optional in the merchandiser spec
+  const normalized = value.toLowerCase().trim().replace(/[_-]/g, ' ')
+
+  if (
+    normalized === 'out of stock' ||
+    normalized === 'no' ||
+    normalized === 'n' ||
+    normalized === 'false' ||
+    normalized === '0' ||
+    normalized === 'discontinued' ||
+    normalized === 'preorder' ||
+    normalized === 'backorder'
+  ) {
+    return false
+  }
+
+  return true
+}
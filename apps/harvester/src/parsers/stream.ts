@@ -0,0 +1,128 @@
+/**
+ * Streaming helpers for network parsers
+ *
+ * Network catalogs can run to millions of rows, so parseStream implementations
+ * decode one record at a time instead of materializing the document.
+ */
+
+import { Readable } from 'stream'
+import { StringDecoder } from 'string_decoder'
+import { SaxesParser } from 'saxes'
+
+/** An XML element read by streamXmlElements */
+export interface XmlElement {
+  name: string
+  node: Record<string, unknown>
+}
+
+/** Give up looking for the header line after this many characters */
+const MAX_FIRST_LINE_CHARS = 1024 * 1024
+
+/**
+ * Read the first line of a stream without consuming it.
+ * Returns the line (BOM stripped) and a stream that replays everything read.
+ */
+export async function peekFirstLine(input: Readable): Promise<{ firstLine: string; stream: Readable }> {
+  const iterator = input[Symbol.asyncIterator]()
+  const head: Buffer[] = []
+  let text = ''
+
+  while (!text.includes('\n') && text.length < MAX_FIRST_LINE_CHARS) {
+    const { value, done } = await iterator.next()
+    if (done) break
+    const chunk = typeof value === 'string' ? Buffer.from(value) : (value as Buffer)
+    head.push(chunk)
+    text += chunk.toString('utf8')
+  }
+
+  const stream = Readable.from(
+    (async function* () {
+      yield* head
+      for (;;) {
+        const { value, done } = await iterator.next()
+        if (done) return
+        yield value as Buffer
+      }
+    })(),
+    { objectMode: false }
+  )
+
+  return { firstLine: text.replace(/^\uFEFF/, '').split(/\r?\n/)[0], stream }
+}
+
+/**
+ * Stream selected XML elements one at a time.
+ *
+ * Elements named in `elementNames` (outside another selected element) are
+ * emitted as plain objects shaped like fast-xml-parser output with
+ * parseTagValue off: attributes as '@_name', text-only children as strings,
+ * '#text' for text alongside attributes or children, repeated children as arrays.
+ */
+export async function* streamXmlElements(
+  input: Readable,
+  elementNames: ReadonlySet<string>,
+  options: { removeNSPrefix?: boolean } = {}
+): AsyncGenerator<XmlElement> {
+  const parser = new SaxesParser()
+  const decoder = new StringDecoder('utf8')
+  const pending: XmlElement[] = []
+  const stack: Array<{ name: string; node: Record<string, unknown>; text: string; isLeaf: boolean }> = []
+
+  const toName = (name: string) => (options.removeNSPrefix ? name.slice(name.indexOf(':') + 1) : name)
+
+  parser.on('opentag', (tag) => {
+    const name = toName(tag.name)
+    if (stack.length === 0 && !elementNames.has(name)) return
+
+    const node: Record<string, unknown> = {}
+    for (const [attr, value] of Object.entries(tag.attributes as Record<string, string>)) {
+      if (options.removeNSPrefix && (attr === 'xmlns' || attr.startsWith('xmlns:'))) continue
+      node[`@_${toName(attr)}`] = value
+    }
+    if (stack.length > 0) stack[stack.length - 1].isLeaf = false
+    stack.push({ name, node, text: '', isLeaf: Object.keys(node).length === 0 })
+  })
+  parser.on('text', (value) => {
+    if (stack.length > 0) stack[stack.length - 1].text += value
+  })
+  parser.on('cdata', (value) => {
+    if (stack.length > 0) stack[stack.length - 1].text += value
+  })
+  parser.on('closetag', () => {
+    const frame = stack.pop()
+    if (!frame) return
+
+    const text = frame.text.trim()
+    if (text) frame.node['#text'] = text
+
+    const parent = stack[stack.length - 1]
+    if (!parent) {
+      pending.push({ name: frame.name, node: frame.node })
+      return
+    }
+
+    const value = frame.isLeaf ? text : frame.node
+    const existing = parent.node[frame.name]
+    if (existing === undefined) {
+      parent.node[frame.name] = value
+    } else if (Array.isArray(existing)) {
+      existing.push(value)
+    } else {
+      parent.node[frame.name] = [existing, value]
+    }
+  })
+
+  let first = true
+  for await (const chunk of input) {
+    let decoded = typeof chunk === 'string' ? chunk : decoder.write(chunk as Buffer)
+    if (first) {
+      decoded = decoded.replace(/^\uFEFF/, '')
+      first = false
+    }
+    parser.write(decoded)
+    while (pending.length > 0) yield pending.shift()!
+  }
+  parser.write(decoder.end())
+  parser.close()
+  while (pending.length > 0) yield pending.shift()!
+}
@@ -0,0 +1,90 @@
+/**
+ * Price History Rollup Tests
+ *
+ * Incremental window selection and day chunking. The aggregation SQL
+ * (percentile_cont over visible prices) runs against Postgres and is not
+ * exercised here.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findFirst, transaction, executeRawUnsafe } = vi.hoisted(() => ({
+  findFirst: vi.fn(),
+  transaction: vi.fn(),
+  executeRawUnsafe: vi.fn(),
+}))
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    price_history_daily: { findFirst },
+    $transaction: transaction,
+    $executeRawUnsafe: executeRawUnsafe,
+  },
+}))
+
+vi.mock('../../config/logger', () => ({
+  logger: { pricehistory: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } },
+}))
+
+import {
+  incrementalStartDay,
+  rollupPriceHistory,
+  startOfUtcDay,
+  PRICE_HISTORY_BACKFILL_DAYS,
+  PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS,
+} from '../rollup'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+const now = new Date('2026-10-19T15:30:00Z')
+
+describe('incrementalStartDay', () => {
+  it('backfills when nothing has been rolled up', () => {
+    const start = incrementalStartDay(null, now)
+
+    expect(start.getTime()).toBe(day('2026-10-19').getTime() - PRICE_HISTORY_BACKFILL_DAYS * 86_400_000)
+  })
+
+  it('re-rolls the lookback window before the latest day', () => {
+    const start = incrementalStartDay(day('2026-10-19'), now)
+
+    expect(start.getTime()).toBe(day('2026-10-19').getTime() - PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS * 86_400_000)
+  })
+
+  it('never starts after today', () => {
+    expect(incrementalStartDay(day('2026-12-01'), now).getTime()).toBeLessThanOrEqual(startOfUtcDay(now).getTime())
+  })
+})
+
+describe('rollupPriceHistory', () => {
+  beforeEach(() => {
+    findFirst.mockReset()
+    executeRawUnsafe.mockReset().mockReturnValue('stmt')
+    transaction.mockReset().mockResolvedValue([3, 5])
+  })
+
+  it('rebuilds from the given day through today in 7-day chunks', async () => {
+    const result = await rollupPriceHistory({ fromDay: day('2026-10-01'), now })
+
+    // Oct 1-7, 8-14, 15-19
+    expect(result).toMatchObject({ fromDay: '2026-10-01', toDay: '2026-10-19', chunks: 3, rowsWritten: 15 })
+    expect(findFirst).not.toHaveBeenCalled()
+
+    const ranges = executeRawUnsafe.mock.calls
+      .filter(([sql]) => sql.startsWith('DELETE'))
+      .map(([, start, end]) => [start.toISOString().slice(0, 10), end.toISOString().slice(0, 10)])
+    expect(ranges).toEqual([
+      ['2026-10-01', '2026-10-08'],
+      ['2026-10-08', '2026-10-15'],
+      ['2026-10-15', '2026-10-20'],
+    ])
+  })
+
+  it('continues from the latest rolled-up day', async () => {
+    findFirst.mockResolvedValue({ day: day('2026-10-19') })
+
+    const result = await rollupPriceHistory({ now })
+
+    expect(result.chunks).toBe(1)
+    expect(result.fromDay).toBe('2026-10-17')
+  })
+})
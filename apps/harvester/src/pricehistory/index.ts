@@ -0,0 +1,26 @@
+/**
+ * Price History Rollup Module
+ *
+ * Maintains the price_history_daily aggregate table (daily price-per-round
+ * percentiles per product and caliber). Exports worker, scheduler and rollup.
+ */
+
+export {
+  startPriceHistoryRollupWorker,
+  stopPriceHistoryRollupWorker,
+  getPriceHistoryRollupWorkerMetrics,
+} from './worker'
+
+export {
+  startPriceHistoryScheduler,
+  stopPriceHistoryScheduler,
+  triggerPriceHistoryRollup,
+} from './scheduler'
+
+export {
+  rollupPriceHistory,
+  incrementalStartDay,
+  startOfUtcDay,
+} from './rollup'
+
+export type { PriceHistoryRollupResult } from './rollup'
@@ -0,0 +1,255 @@
+/**
+ * Price History Rollup
+ *
+ * Maintains price_history_daily: per UTC day, the min / p10 / median / p90 /
+ * max price per round for each product and each caliber, from visible prices.
+ *
+ * Visibility matches current_visible_prices (ADR-015):
+ * - Retailer visibility (ELIGIBLE + listing status)
+ * - Ignored runs excluded
+ * - IGNORE corrections excluded, MULTIPLIER corrections applied
+ *
+ * Prices reach products through product_links (Spec v1.2). Products without
+ * a roundCount have no price per round and are skipped.
+ *
+ * Incremental: each run rebuilds from the latest rolled-up day minus
+ * PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS (late-arriving observations) through
+ * today, one chunk of days per transaction. An empty table is backfilled
+ * PRICE_HISTORY_BACKFILL_DAYS.
+ */
+
+import { prisma } from '@ironscout/db'
+import { logger } from '../config/logger'
+
+const log = logger.pricehistory
+
+/** Days before the latest rolled-up day that each run rebuilds */
+export const PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS = parseInt(
+  process.env.PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS || '2',
+  10
+)
+
+/** Days backfilled when price_history_daily is empty */
+export const PRICE_HISTORY_BACKFILL_DAYS = parseInt(process.env.PRICE_HISTORY_BACKFILL_DAYS || '365', 10)
+
+// Days per delete + insert transaction (bounds statement size)
+const CHUNK_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PriceHistoryRollupResult {
+  /** First rebuilt day (YYYY-MM-DD) */
+  fromDay: string
+  /** Last rebuilt day (YYYY-MM-DD) */
+  toDay: string
+  chunks: number
+  rowsWritten: number
+  durationMs: number
+}
+
+/**
+ * Midnight UTC of the given time
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * First day an incremental rollup rebuilds
+ *
+ * @param latestDay - latest day in price_history_daily, null when empty
+ */
+export function incrementalStartDay(latestDay: Date | null, now: Date): Date {
+  const today = startOfUtcDay(now)
+  if (!latestDay) {
+    return new Date(today.getTime() - PRICE_HISTORY_BACKFILL_DAYS * DAY_MS)
+  }
+  const start = new Date(startOfUtcDay(latestDay).getTime() - PRICE_HISTORY_ROLLUP_LOOKBACK_DAYS * DAY_MS)
+  return start > today ? today : start
+}
+
+const formatDay = (day: Date) => day.toISOString().split('T')[0]
+
+/**
+ * Roll up visible prices into price_history_daily
+ *
+ * @param options.fromDay - rebuild from this day instead of incrementally
+ * @param options.now - current time (tests)
+ */
+export async function rollupPriceHistory(
+  options: { fromDay?: Date; now?: Date } = {}
+): Promise<PriceHistoryRollupResult> {
+  const startTime = Date.now()
+  const now = options.now ?? new Date()
+  const today = startOfUtcDay(now)
+
+  let fromDay: Date
+  if (options.fromDay) {
+    fromDay = startOfUtcDay(options.fromDay)
+  } else {
+    const latest = await prisma.price_history_daily.findFirst({
+      orderBy: { day: 'desc' },
+      select: { day: true },
+    })
+    fromDay = incrementalStartDay(latest?.day ?? null, now)
+  }
+
+  log.info('PRICE_HISTORY_ROLLUP_START', {
+    event_name: 'PRICE_HISTORY_ROLLUP_START',
+    fromDay: formatDay(fromDay),
+    toDay: formatDay(today),
+    incremental: !options.fromDay,
+  })
+
+  let chunks = 0
+  let rowsWritten = 0
+  for (let chunkStart = fromDay; chunkStart <= today; chunkStart = new Date(chunkStart.getTime() + CHUNK_DAYS * DAY_MS)) {
+    const chunkEnd = new Date(Math.min(chunkStart.getTime() + CHUNK_DAYS * DAY_MS, today.getTime() + DAY_MS))
+    rowsWritten += await rollupRange(chunkStart, chunkEnd)
+    chunks++
+  }
+
+  const result = {
+    fromDay: formatDay(fromDay),
+    toDay: formatDay(today),
+    chunks,
+    rowsWritten,
+    durationMs: Date.now() - startTime,
+  }
+
+  log.info('PRICE_HISTORY_ROLLUP_COMPLETE', {
+    event_name: 'PRICE_HISTORY_ROLLUP_COMPLETE',
+    ...result,
+  })
+
+  return result
+}
+
+/**
+ * Rebuild the rows for days in [start, end). Delete and insert share a
+ * transaction so readers never see a half-built day.
+ */
+async function rollupRange(start: Date, end: Date): Promise<number> {
+  const [, inserted] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(
+      `DELETE FROM price_history_daily WHERE day >= $1::date AND day < $2::date`,
+      start,
+      end
+    ),
+    prisma.$executeRawUnsafe(
+      `
+      WITH retailer_visibility AS (
+        -- ADR-005: Retailer visibility predicate
+        SELECT r.id AS "retailerId"
+        FROM retailers r
+        WHERE r."visibilityStatus" = 'ELIGIBLE'
+          AND (
+            NOT EXISTS (
+              SELECT 1 FROM merchant_retailers mr
+              WHERE mr."retailerId" = r.id AND mr.status = 'ACTIVE'
+            )
+            OR EXISTS (
+              SELECT 1 FROM merchant_retailers mr
+              WHERE mr."retailerId" = r.id
+                AND mr.status = 'ACTIVE'
+                AND mr."listingStatus" = 'LISTED'
+            )
+          )
+      ),
+      ignored_runs AS (
+        -- ADR-015: Runs marked as ignored
+        SELECT id FROM affiliate_feed_runs WHERE "ignoredAt" IS NOT NULL
+        UNION ALL
+        SELECT id FROM retailer_feed_runs WHERE "ignoredAt" IS NOT NULL
+        UNION ALL
+        SELECT id FROM executions WHERE "ignoredAt" IS NOT NULL
+      ),
+      active_corrections AS (
+        SELECT pc.action, pc."scopeType", pc."scopeId", pc."startTs", pc."endTs", pc.value
+        FROM price_corrections pc
+        WHERE pc."revokedAt" IS NULL
+          AND pc."startTs" < $2
+          AND pc."endTs" > $1
+      ),
+      observations AS (
+        SELECT
+          pl."productId",
+          p.caliber,
+          pr."retailerId",
+          pr."observedAt"::date AS day,
+          -- ADR-015 precedence: PRODUCT > RETAILER > MERCHANT > SOURCE > FEED_RUN
+          pr.price * COALESCE(
+            (SELECT ac.value FROM active_corrections ac
+             WHERE ac.action = 'MULTIPLIER' AND ac."scopeType" = 'PRODUCT' AND ac."scopeId" = pr."productId"
+               AND pr."observedAt" >= ac."startTs" AND pr."observedAt" < ac."endTs" LIMIT 1),
+            (SELECT ac.value FROM active_corrections ac
+             WHERE ac.action = 'MULTIPLIER' AND ac."scopeType" = 'RETAILER' AND ac."scopeId" = pr."retailerId"
+               AND pr."observedAt" >= ac."startTs" AND pr."observedAt" < ac."endTs" LIMIT 1),
+            (SELECT ac.value FROM active_corrections ac
+             WHERE ac.action = 'MULTIPLIER' AND ac."scopeType" = 'MERCHANT' AND ac."scopeId" = pr."merchantId"
+               AND pr."observedAt" >= ac."startTs" AND pr."observedAt" < ac."endTs" LIMIT 1),
+            (SELECT ac.value FROM active_corrections ac
+             WHERE ac.action = 'MULTIPLIER' AND ac."scopeType" = 'SOURCE' AND ac."scopeId" = pr."sourceId"
+               AND pr."observedAt" >= ac."startTs" AND pr."observedAt" < ac."endTs" LIMIT 1),
+            (SELECT ac.value FROM active_corrections ac
+             WHERE ac.action = 'MULTIPLIER' AND ac."scopeType" = 'FEED_RUN' AND ac."scopeId" = pr."ingestionRunId"
+               AND pr."observedAt" >= ac."startTs" AND pr."observedAt" < ac."endTs" LIMIT 1),
+            1
+          ) / p."roundCount" AS ppr
+        FROM prices pr
+        INNER JOIN retailer_visibility rv ON rv."retailerId" = pr."retailerId"
+        INNER JOIN product_links pl
+          ON pl."sourceProductId" = pr."sourceProductId"
+          AND pl.status IN ('MATCHED', 'CREATED')
+        INNER JOIN products p ON p.id = pl."productId"
+        WHERE pr."observedAt" >= $1
+          AND pr."observedAt" < $2
+          AND p."roundCount" > 0
+          AND (pr."affiliateFeedRunId" IS NULL OR pr."affiliateFeedRunId" NOT IN (SELECT id FROM ignored_runs))
+          AND (pr."ingestionRunId" IS NULL OR pr."ingestionRunId" NOT IN (SELECT id FROM ignored_runs))
+          AND NOT EXISTS (
+            SELECT 1 FROM active_corrections ac
+            WHERE ac.action = 'IGNORE'
+              AND pr."observedAt" >= ac."startTs" AND pr."observedAt" < ac."endTs"
+              AND (
+                (ac."scopeType" = 'PRODUCT' AND ac."scopeId" = pr."productId")
+                OR (ac."scopeType" = 'RETAILER' AND ac."scopeId" = pr."retailerId")
+                OR (ac."scopeType" = 'MERCHANT' AND ac."scopeId" = pr."merchantId")
+                OR (ac."scopeType" = 'SOURCE' AND ac."scopeId" = pr."sourceId")
+                OR (ac."scopeType" = 'FEED_RUN' AND ac."scopeId" = pr."ingestionRunId")
+              )
+          )
+      ),
+      scoped AS (
+        SELECT 'PRODUCT'::"PriceHistoryScope" AS "scopeType", "productId" AS "scopeKey", day, "retailerId", ppr
+        FROM observations
+        UNION ALL
+        SELECT 'CALIBER'::"PriceHistoryScope", caliber, day, "retailerId", ppr
+        FROM observations
+        WHERE caliber IS NOT NULL
+      )
+      INSERT INTO price_history_daily (
+        "scopeType", "scopeKey", day,
+        "minPpr", "p10Ppr", "medianPpr", "p90Ppr", "maxPpr",
+        "sampleCount", "retailerCount", "computedAt"
+      )
+      SELECT
+        "scopeType", "scopeKey", day,
+        round(min(ppr), 4),
+        round(percentile_cont(0.1) WITHIN GROUP (ORDER BY ppr)::numeric, 4),
+        round(percentile_cont(0.5) WITHIN GROUP (ORDER BY ppr)::numeric, 4),
+        round(percentile_cont(0.9) WITHIN GROUP (ORDER BY ppr)::numeric, 4),
+        round(max(ppr), 4),
+        count(*)::int,
+        count(DISTINCT "retailerId")::int,
+        NOW()
+      FROM scoped
+      GROUP BY "scopeType", "scopeKey", day
+      `,
+      start,
+      end
+    ),
+  ])
+
+  return inserted
+}
@@ -0,0 +1,106 @@
+/**
+ * Price History Rollup Scheduler
+ *
+ * Runs the incremental price history rollup on a BullMQ repeatable job
+ * (same pattern as the current price scheduler).
+ *
+ * Per ADR-001: Only one scheduler instance should run.
+ */
+
+import {
+  PriceHistoryRollupJobData,
+  priceHistoryRollupQueue,
+  enqueuePriceHistoryRollup,
+} from '../config/queues'
+import { logger } from '../config/logger'
+
+const log = logger.pricehistory
+
+// Schedule: hourly, off the current price recompute's 5-minute marks
+const ROLLUP_CRON = process.env.PRICE_HISTORY_ROLLUP_CRON || '17 * * * *'
+
+let isEnabled = false
+
+/**
+ * Start the Price History Rollup scheduler
+ *
+ * IMPORTANT (ADR-001): Only one scheduler instance should run.
+ */
+export function startPriceHistoryScheduler(): void {
+  if (isEnabled) {
+    log.warn('PRICE_HISTORY_SCHEDULER_ALREADY_RUNNING', {
+      event_name: 'PRICE_HISTORY_SCHEDULER_ALREADY_RUNNING',
+    })
+    return
+  }
+
+  log.info('PRICE_HISTORY_SCHEDULER_START', {
+    event_name: 'PRICE_HISTORY_SCHEDULER_START',
+    cronPattern: ROLLUP_CRON,
+  })
+
+  setupRepeatableJob()
+  isEnabled = true
+}
+
+/**
+ * Set up the repeatable scheduler job
+ */
+async function setupRepeatableJob(): Promise<void> {
+  try {
+    // Remove any existing repeatable jobs first (the cron may have changed)
+    const repeatableJobs = await priceHistoryRollupQueue.getRepeatableJobs()
+    for (const job of repeatableJobs) {
+      if (job.name === 'SCHEDULED_ROLLUP') {
+        await priceHistoryRollupQueue.removeRepeatableByKey(job.key)
+      }
+    }
+
+    await priceHistoryRollupQueue.add(
+      'SCHEDULED_ROLLUP',
+      {
+        trigger: 'SCHEDULED',
+        triggeredBy: 'scheduler',
+      } satisfies PriceHistoryRollupJobData,
+      {
+        repeat: {
+          pattern: ROLLUP_CRON,
+        },
+        jobId: 'price-history-scheduled-rollup',
+      }
+    )
+  } catch (error) {
+    log.error(
+      'PRICE_HISTORY_SCHEDULER_SETUP_FAILED',
+      {
+        event_name: 'PRICE_HISTORY_SCHEDULER_SETUP_FAILED',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+      error instanceof Error ? error : new Error(String(error))
+    )
+  }
+}
+
+/**
+ * Stop the Price History Rollup scheduler
+ */
+export function stopPriceHistoryScheduler(): void {
+  if (isEnabled) {
+    log.info('PRICE_HISTORY_SCHEDULER_STOP', {
+      event_name: 'PRICE_HISTORY_SCHEDULER_STOP',
+    })
+    // Repeatable jobs are managed by BullMQ - they'll be cleaned up on next start
+    isEnabled = false
+  }
+}
+
+/**
+ * Manually trigger a rollup, optionally rebuilding from a given day
+ */
+export async function triggerPriceHistoryRollup(fromDay?: string, triggeredBy?: string): Promise<string> {
+  return enqueuePriceHistoryRollup({
+    trigger: 'MANUAL',
+    fromDay,
+    triggeredBy: triggeredBy ?? 'manual',
+  })
+}
@@ -0,0 +1,136 @@
+/**
+ * Price History Rollup BullMQ Worker
+ *
+ * Processes ROLLUP jobs from the price-history-rollup queue, keeping
+ * price_history_daily current for the price analytics API.
+ *
+ * Triggered:
+ * - Scheduled hourly (scheduler instance only, see scheduler.ts)
+ * - Manually, optionally rebuilding from a given day
+ */
+
+import { Worker, Job } from 'bullmq'
+import { redisConnection } from '../config/redis'
+import { QUEUE_NAMES, PriceHistoryRollupJobData } from '../config/queues'
+import { logger } from '../config/logger'
+import { rollupPriceHistory } from './rollup'
+
+const log = logger.pricehistory
+
+// Metrics
+let processedCount = 0
+let errorCount = 0
+let lastProcessedAt: Date | null = null
+let lastRolledUpDay: string | null = null
+
+/**
+ * Price History Rollup Worker instance
+ * Created lazily by startPriceHistoryRollupWorker()
+ */
+export let priceHistoryRollupWorker: Worker<PriceHistoryRollupJobData> | null = null
+
+/**
+ * Process a single rollup job
+ */
+async function processRollupJob(job: Job<PriceHistoryRollupJobData>): Promise<void> {
+  const { trigger, fromDay, triggeredBy } = job.data
+
+  log.info('PRICE_HISTORY_ROLLUP_JOB_START', {
+    event_name: 'PRICE_HISTORY_ROLLUP_JOB_START',
+    jobId: job.id,
+    trigger,
+    fromDay,
+    triggeredBy,
+  })
+
+  const result = await rollupPriceHistory({
+    fromDay: fromDay ? new Date(`${fromDay}T00:00:00Z`) : undefined,
+  })
+  lastRolledUpDay = result.toDay
+
+  log.info('PRICE_HISTORY_ROLLUP_JOB_COMPLETED', {
+    event_name: 'PRICE_HISTORY_ROLLUP_JOB_COMPLETED',
+    jobId: job.id,
+    trigger,
+    ...result,
+  })
+}
+
+/**
+ * Start the Price History Rollup worker
+ */
+export async function startPriceHistoryRollupWorker(): Promise<Worker<PriceHistoryRollupJobData>> {
+  log.info('PRICE_HISTORY_ROLLUP_WORKER_START', {
+    event_name: 'PRICE_HISTORY_ROLLUP_WORKER_START',
+    queueName: QUEUE_NAMES.PRICE_HISTORY_ROLLUP,
+  })
+
+  // Concurrency 1: overlapping rollups would rebuild the same days
+  priceHistoryRollupWorker = new Worker<PriceHistoryRollupJobData>(
+    QUEUE_NAMES.PRICE_HISTORY_ROLLUP,
+    async (job: Job<PriceHistoryRollupJobData>) => {
+      return processRollupJob(job)
+    },
+    {
+      connection: redisConnection,
+      concurrency: 1,
+    }
+  )
+
+  priceHistoryRollupWorker.on('completed', () => {
+    processedCount++
+    lastProcessedAt = new Date()
+  })
+
+  priceHistoryRollupWorker.on('failed', (job: Job<PriceHistoryRollupJobData> | undefined, error: Error) => {
+    errorCount++
+    log.error(
+      'PRICE_HISTORY_ROLLUP_JOB_FAILED',
+      {
+        event_name: 'PRICE_HISTORY_ROLLUP_JOB_FAILED',
+        jobId: job?.id,
+        trigger: job?.data?.trigger,
+        fromDay: job?.data?.fromDay,
+        errorMessage: error.message,
+        errorCount,
+      },
+      error
+    )
+  })
+
+  priceHistoryRollupWorker.on('error', (error: Error) => {
+    log.warn('PRICE_HISTORY_ROLLUP_WORKER_ERROR', {
+      event_name: 'PRICE_HISTORY_ROLLUP_WORKER_ERROR',
+      errorMessage: error.message,
+    })
+  })
+
+  return priceHistoryRollupWorker
+}
+
+/**
+ * Stop the Price History Rollup worker gracefully
+ */
+export async function stopPriceHistoryRollupWorker(): Promise<void> {
+  if (priceHistoryRollupWorker) {
+    log.info('PRICE_HISTORY_ROLLUP_WORKER_STOPPING', {
+      event_name: 'PRICE_HISTORY_ROLLUP_WORKER_STOPPING',
+      processedCount,
+      errorCount,
+    })
+    await priceHistoryRollupWorker.close()
+    priceHistoryRollupWorker = null
+  }
+}
+
+/**
+ * Get worker metrics
+ */
+export function getPriceHistoryRollupWorkerMetrics() {
+  return {
+    processedCount,
+    errorCount,
+    lastProcessedAt,
+    lastRolledUpDay,
+  }
+}
@@ -66,6 +66,8 @@ export interface MockTrustConfig {
   sourceId: string
   upcTrusted: boolean
   version: number
+  scoringStrategy?: 'WEIGHTED_EXACT' | 'LOGISTIC'
+  shadowScoringStrategy?: 'WEIGHTED_EXACT' | 'LOGISTIC' | null
 }
 
 export interface MockProductAlias {
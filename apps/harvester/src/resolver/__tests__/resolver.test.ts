@@ -84,7 +84,9 @@ vi.mock('../../config/logger', () => ({
 }))
 
 // Import after mocks are set up
-import { resolveSourceProduct, RESOLVER_VERSION, clearTrustConfigCache } from '../resolver'
+import { resolveSourceProduct, RESOLVER_VERSION, clearTrustConfigCache, SHADOW_PRODUCT_ID_PREFIX } from '../resolver'
+import { LogisticRegressionStrategy } from '../scoring'
+import { logger } from '../../config/logger'
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Test Helpers
@@ -936,6 +938,142 @@ describe('B. Matching Logic', () => {
       assertRulesFired(result, ['ALIAS_RESOLVED'])
     })
   })
+
+  describe('B16. Scoring strategy selection', () => {
+    // Incomplete identity (no packCount) forces fuzzy scoring
+    function setupFuzzyMatch(trustOverrides: Partial<MockTrustConfig>) {
+      const sourceProduct = createSourceProduct({ brand: 'Federal Premium' })
+      const bestMatch = createProduct({
+        id: 'best_match',
+        brandNorm: 'federal premium',
+        caliberNorm: '9mm',
+        roundCount: 50,
+        grainWeight: 124,
+      })
+      const poorMatch = createProduct({
+        id: 'poor_match',
+        brandNorm: 'federal premium',
+        caliberNorm: '9mm',
+        roundCount: 20,
+        grainWeight: 115,
+      })
+
+      setupMocks({
+        sourceProduct,
+        trustConfig: createTrustConfig({ sourceId: sourceProduct.sourceId, upcTrusted: false, ...trustOverrides }),
+        existingProducts: [bestMatch, poorMatch],
+      })
+
+      return sourceProduct
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('records the default strategy in evidence', async () => {
+      const sourceProduct = setupFuzzyMatch({})
+
+      const result = await resolveSourceProduct(sourceProduct.id, 'INGEST')
+
+      assertMatched(result, 'best_match')
+      expect(result.evidence.scoring).toEqual({ name: 'weighted-exact-match', version: '1.2.0' })
+    })
+
+    it('uses the LOGISTIC strategy and records its model version', async () => {
+      const sourceProduct = setupFuzzyMatch({ scoringStrategy: 'LOGISTIC' })
+
+      const result = await resolveSourceProduct(sourceProduct.id, 'INGEST')
+
+      assertMatched(result, 'best_match')
+      expect(result.evidence.scoring).toEqual({
+        name: 'logistic-regression',
+        version: '1.0.0',
+        modelVersion: LogisticRegressionStrategy.modelVersion,
+      })
+    })
+
+    it('logs shadow disagreements without changing the link', async () => {
+      const sourceProduct = setupFuzzyMatch({ shadowScoringStrategy: 'LOGISTIC' })
+      vi.spyOn(LogisticRegressionStrategy, 'score').mockImplementation((_input, candidate) => ({
+        total: candidate.id === 'poor_match' ? 0.95 : 0.1,
+        componentScores: {},
+        matchDetails: { brandMatch: true, caliberMatch: true, packMatch: false, grainMatch: false, titleSimilarity: 0 },
+      }))
+
+      const result = await resolveSourceProduct(sourceProduct.id, 'INGEST')
+
+      assertMatched(result, 'best_match')
+      expect(result.evidence.scoring?.name).toBe('weighted-exact-match')
+      expect(logger.resolver.info).toHaveBeenCalledWith(
+        'FINGERPRINT_SHADOW_DISAGREEMENT',
+        expect.objectContaining({
+          active: expect.objectContaining({ productId: 'best_match' }),
+          shadow: expect.objectContaining({ productId: 'poor_match' }),
+        })
+      )
+    })
+
+    it('keeps resolving when the shadow strategy throws', async () => {
+      const sourceProduct = setupFuzzyMatch({ shadowScoringStrategy: 'LOGISTIC' })
+      vi.spyOn(LogisticRegressionStrategy, 'score').mockImplementation(() => {
+        throw new Error('bad model')
+      })
+
+      const result = await resolveSourceProduct(sourceProduct.id, 'INGEST')
+
+      assertMatched(result, 'best_match')
+      expect(logger.resolver.warn).toHaveBeenCalledWith(
+        'FINGERPRINT_SHADOW_FAILED',
+        expect.objectContaining({ error: 'bad model' })
+      )
+    })
+  })
+
+  describe('B17. Shadow mode', () => {
+    it('returns a placeholder instead of creating a product', async () => {
+      const { sourceProduct, trustConfig } = GOLDEN_SCENARIOS.upcCreate()
+      setupMocks({ sourceProduct, trustConfig, existingProducts: [] })
+
+      const result = await resolveSourceProduct(sourceProduct.id, 'SHADOW', undefined, { shadow: true })
+
+      assertCreated(result)
+      expect(result.productId).toBe(`${SHADOW_PRODUCT_ID_PREFIX}UPC:999888777666`)
+      expect(result.createdProduct?.canonicalKey).toBe('UPC:999888777666')
+      expect(mockPrisma.products.create).not.toHaveBeenCalled()
+    })
+
+    it('re-resolves even when inputHash is unchanged', async () => {
+      const sourceProduct = createSourceProduct({ title: 'Federal 9mm 124gr JHP', brand: 'Federal' })
+      sourceProduct.source_product_identifiers = [createUpcIdentifier(sourceProduct.id, '012345678901')]
+      const trustConfig = createTrustConfig({ sourceId: sourceProduct.sourceId, upcTrusted: true })
+      const existingProducts = [createProduct({ id: 'existing_product_id', canonicalKey: 'UPC:012345678901' })]
+
+      setupMocks({ sourceProduct: { ...sourceProduct, product_links: null }, trustConfig, existingProducts })
+      const firstResult = await resolveSourceProduct(sourceProduct.id, 'INGEST')
+
+      sourceProduct.product_links = createProductLink({
+        sourceProductId: sourceProduct.id,
+        productId: 'existing_product_id',
+        matchType: 'UPC',
+        status: 'MATCHED',
+        evidence: {
+          dictionaryVersion: '1.0.0',
+          trustConfigVersion: trustConfig.version,
+          inputNormalized: firstResult.evidence.inputNormalized,
+          inputHash: firstResult.evidence.inputHash,
+          rulesFired: ['UPC_MATCHED'],
+        },
+      })
+      setupMocks({ sourceProduct, trustConfig, existingProducts })
+
+      const result = await resolveSourceProduct(sourceProduct.id, 'SHADOW', undefined, { shadow: true })
+
+      expect(result.skipped).toBe(false)
+      expect(result.evidence.rulesFired).not.toContain('SKIP_SAME_INPUT')
+      assertMatched(result, 'existing_product_id')
+    })
+  })
 })
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,197 @@
+/**
+ * Resolver Shadow Run Tests
+ *
+ * Classification of shadow decisions against live links, and the run loop
+ * with mocked prisma and resolver.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+  product_links: {
+    findMany: vi.fn(),
+  },
+  resolver_shadow_runs: {
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  resolver_shadow_decisions: {
+    createMany: vi.fn(),
+  },
+}))
+
+const mockResolve = vi.hoisted(() => vi.fn())
+
+vi.mock('@ironscout/db', () => ({
+  prisma: mockPrisma,
+}))
+
+vi.mock('../../config/logger', () => ({
+  logger: {
+    resolver: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('../resolver', () => ({
+  resolveSourceProduct: mockResolve,
+  RESOLVER_VERSION: '1.2.0',
+  DICTIONARY_VERSION: '1.0.0',
+  SHADOW_PRODUCT_ID_PREFIX: 'shadow:',
+}))
+
+import { classifyShadowDecision, runShadowResolution, type LiveLink, type ShadowDecision } from '../shadow'
+
+const matchedLink: LiveLink = {
+  productId: 'prod_1',
+  status: 'MATCHED',
+  reasonCode: null,
+  confidence: 0.95,
+  resolverVersion: '1.2.0',
+}
+
+const reviewLink: LiveLink = {
+  productId: null,
+  status: 'NEEDS_REVIEW',
+  reasonCode: 'AMBIGUOUS_FINGERPRINT',
+  confidence: 0.6,
+  resolverVersion: '1.2.0',
+}
+
+function decision(overrides: Partial<ShadowDecision> = {}): ShadowDecision {
+  return {
+    productId: 'prod_1',
+    status: 'MATCHED',
+    reasonCode: null,
+    confidence: 0.95,
+    createdCanonicalKey: null,
+    ...overrides,
+  }
+}
+
+function result(overrides: Record<string, unknown> = {}) {
+  return {
+    productId: 'prod_1',
+    matchType: 'UPC',
+    status: 'MATCHED',
+    reasonCode: null,
+    confidence: 0.95,
+    resolverVersion: '1.2.0',
+    evidence: { rulesFired: ['UPC_MATCHED'] },
+    skipped: false,
+    ...overrides,
+  }
+}
+
+describe('classifyShadowDecision', () => {
+  it('is UNCHANGED for the same product and confidence', () => {
+    expect(classifyShadowDecision(matchedLink, decision({ confidence: 0.95004 }))).toBe('UNCHANGED')
+  })
+
+  it('flags confidence shifts on the same product', () => {
+    expect(classifyShadowDecision(matchedLink, decision({ confidence: 0.9 }))).toBe('CONFIDENCE_SHIFT')
+  })
+
+  it('flags links that move to another product', () => {
+    expect(classifyShadowDecision(matchedLink, decision({ productId: 'prod_2' }))).toBe('RELINKED')
+  })
+
+  it('flags links that would create a new product', () => {
+    expect(
+      classifyShadowDecision(matchedLink, decision({ productId: null, status: 'CREATED', createdCanonicalKey: 'UPC:1' }))
+    ).toBe('NEW_PRODUCT')
+  })
+
+  it('flags linked rows that would need review', () => {
+    expect(
+      classifyShadowDecision(matchedLink, decision({ productId: null, status: 'NEEDS_REVIEW', reasonCode: 'AMBIGUOUS_FINGERPRINT' }))
+    ).toBe('NEW_REVIEW')
+  })
+
+  it('distinguishes review rows that leave review from reason changes', () => {
+    expect(classifyShadowDecision(reviewLink, decision())).toBe('LEFT_REVIEW')
+    expect(
+      classifyShadowDecision(reviewLink, decision({ productId: null, status: 'NEEDS_REVIEW', reasonCode: 'INSUFFICIENT_DATA' }))
+    ).toBe('REASON_CHANGED')
+    expect(
+      classifyShadowDecision(reviewLink, decision({ productId: null, status: 'NEEDS_REVIEW', reasonCode: 'AMBIGUOUS_FINGERPRINT' }))
+    ).toBe('UNCHANGED')
+  })
+
+  it('reports NEW_LINK without a live link and ERROR before anything else', () => {
+    expect(classifyShadowDecision(null, decision())).toBe('NEW_LINK')
+    expect(classifyShadowDecision(null, decision({ status: 'ERROR' }))).toBe('ERROR')
+  })
+})
+
+describe('runShadowResolution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.resolver_shadow_runs.create.mockResolvedValue({ id: 'run_1' })
+    mockPrisma.$queryRaw.mockResolvedValue([
+      { id: 'sp_1', sourceId: 'src_1' },
+      { id: 'sp_2', sourceId: 'src_1' },
+      { id: 'sp_3', sourceId: 'src_2' },
+    ])
+    mockPrisma.product_links.findMany.mockResolvedValue([
+      { sourceProductId: 'sp_1', productId: 'prod_1', status: 'MATCHED', reasonCode: null, confidence: 0.95, resolverVersion: '1.1.0' },
+      { sourceProductId: 'sp_2', productId: 'prod_2', status: 'MATCHED', reasonCode: null, confidence: 0.95, resolverVersion: '1.1.0' },
+    ])
+  })
+
+  it('requires a source or a sample size', async () => {
+    await expect(runShadowResolution({})).rejects.toThrow('needs a sourceId or a sampleSize')
+    expect(mockPrisma.resolver_shadow_runs.create).not.toHaveBeenCalled()
+  })
+
+  it('resolves in shadow mode and stores decisions with change types', async () => {
+    mockResolve.mockImplementation(async (id: string) => {
+      if (id === 'sp_1') return result()
+      if (id === 'sp_2') {
+        return result({ productId: 'shadow:UPC:2', status: 'CREATED', createdProduct: { id: 'shadow:UPC:2', canonicalKey: 'UPC:2' } })
+      }
+      throw new Error('db down')
+    })
+
+    const summary = await runShadowResolution({ sampleSize: 3, triggeredBy: 'tester' })
+
+    expect(mockResolve).toHaveBeenCalledWith('sp_1', 'SHADOW', undefined, { shadow: true })
+    expect(summary).toEqual({
+      runId: 'run_1',
+      totalCount: 3,
+      changedCount: 1,
+      errorCount: 1,
+      byChangeType: { UNCHANGED: 1, NEW_PRODUCT: 1, ERROR: 1 },
+    })
+
+    const rows = mockPrisma.resolver_shadow_decisions.createMany.mock.calls[0][0].data
+    expect(rows[1]).toMatchObject({
+      sourceProductId: 'sp_2',
+      currentProductId: 'prod_2',
+      productId: null,
+      createdCanonicalKey: 'UPC:2',
+      changeType: 'NEW_PRODUCT',
+    })
+    expect(rows[2]).toMatchObject({ sourceId: 'src_2', status: 'ERROR', reasonCode: 'SYSTEM_ERROR', changeType: 'ERROR' })
+
+    expect(mockPrisma.resolver_shadow_runs.update).toHaveBeenLastCalledWith({
+      where: { id: 'run_1' },
+      data: { status: 'COMPLETED', finishedAt: expect.any(Date) },
+    })
+  })
+
+  it('marks the run FAILED when selection fails', async () => {
+    mockPrisma.$queryRaw.mockRejectedValue(new Error('timeout'))
+
+    await expect(runShadowResolution({ sourceId: 'src_1' })).rejects.toThrow('timeout')
+    expect(mockPrisma.resolver_shadow_runs.update).toHaveBeenCalledWith({
+      where: { id: 'run_1' },
+      data: { status: 'FAILED', errorMessage: 'timeout', finishedAt: expect.any(Date) },
+    })
+  })
+})
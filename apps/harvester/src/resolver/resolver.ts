@@ -20,8 +20,10 @@ import {
   NormalizedInput,
   ResolverCandidate,
   SourceTrustConfig,
+  ResolveOptions,
   DEFAULT_RESOLVER_CONFIG,
   type ScoringStrategy,
+  type ScoringStrategyInfo,
   type CandidateProduct,
 } from './types'
 import { logger } from '../config/logger'
@@ -35,7 +37,7 @@ import {
   extractShotSize,
   extractSlugWeight,
 } from '../utils/ammo-utils'
-import { DEFAULT_SCORING_STRATEGY } from './scoring'
+import { DEFAULT_SCORING_STRATEGY, getScoringStrategy } from './scoring'
 import { normalizeBrandString } from './brand-normalization'
 import { brandAliasCache, recordAliasApplication } from './brand-alias-cache'
 import { recordMatchPath, recordMissingFields, type MissingFieldLabel } from './metrics'
@@ -46,12 +48,15 @@ const log = logger.resolver
 export const RESOLVER_VERSION = '1.2.0'
 
 // Dictionary version - bump on normalization dictionary changes
-const DICTIONARY_VERSION = '1.0.0'
+export const DICTIONARY_VERSION = '1.0.0'
 
 // Identity key version - bump on identity key format changes
 // This allows coexistence of products created with different identity key algorithms
 export const IDENTITY_KEY_VERSION = 'v1'
 
+// Placeholder productId prefix for products a shadow run would create
+export const SHADOW_PRODUCT_ID_PREFIX = 'shadow:'
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Trust Config Cache
 // Per-source config rarely changes; caching reduces DB queries ~99% in batch runs
@@ -120,8 +125,9 @@ function createResolverLog(sourceProductId: string, trigger: string, affiliateFe
  */
 export async function resolveSourceProduct(
   sourceProductId: string,
-  trigger: 'INGEST' | 'RECONCILE' | 'MANUAL',
-  affiliateFeedRunId?: string
+  trigger: 'INGEST' | 'RECONCILE' | 'MANUAL' | 'SHADOW',
+  affiliateFeedRunId?: string,
+  options: ResolveOptions = {}
 ): Promise<ResolverResult> {
   const startTime = Date.now()
   const config = DEFAULT_RESOLVER_CONFIG
@@ -132,6 +138,7 @@ export async function resolveSourceProduct(
   rlog.info('RESOLVER_START', {
     resolverVersion: RESOLVER_VERSION,
     dictionaryVersion: DICTIONARY_VERSION,
+    shadow: options.shadow ?? false,
     config: {
       maxCandidates: config.maxCandidates,
       topKCandidates: config.topKCandidates,
@@ -274,7 +281,7 @@ export async function resolveSourceProduct(
   if (brandAliasApplied) {
     rulesFired.push('BRAND_ALIAS_APPLIED')
     // Record for daily tracking (fire-and-forget, non-blocking)
-    if (brandAliasId) {
+    if (brandAliasId && !options.shadow) {
       recordAliasApplication(prisma, brandAliasId).catch(() => {
         // Ignore errors - non-critical
       })
@@ -309,7 +316,7 @@ export async function resolveSourceProduct(
 
   // Check if we can skip (same inputHash = same result)
   const existingEvidence = existingLink?.evidence as unknown as ResolverEvidence | null
-  if (existingLink && existingEvidence?.inputHash === inputHash) {
+  if (!options.shadow && existingLink && existingEvidence?.inputHash === inputHash) {
     rulesFired.push('SKIP_SAME_INPUT')
     rlog.info('SKIP_SAME_INPUT', {
       phase: 'decision',
@@ -375,7 +382,8 @@ export async function resolveSourceProduct(
       existingLink,
       rulesFired,
       sourceKind,
-      rlog
+      rlog,
+      options
     )
 
     if (upcResult) {
@@ -489,7 +497,9 @@ export async function resolveSourceProduct(
     config,
     rulesFired,
     sourceKind,
-    rlog
+    rlog,
+    getScoringStrategy(trustConfig.scoringStrategy),
+    options
   )
 
   rlog.info('RESOLVER_END', {
@@ -562,6 +572,8 @@ async function loadTrustConfig(
       sourceId,
       upcTrusted: false,
       version: 0, // Indicates default/missing
+      scoringStrategy: 'WEIGHTED_EXACT',
+      shadowScoringStrategy: null,
     }
   } else {
     rlog.debug('TRUST_CONFIG_FOUND', {
@@ -569,6 +581,8 @@ async function loadTrustConfig(
       sourceId,
       upcTrusted: config.upcTrusted,
       version: config.version,
+      scoringStrategy: config.scoringStrategy,
+      shadowScoringStrategy: config.shadowScoringStrategy,
       updatedAt: config.updatedAt?.toISOString(),
       cacheMiss: !cached,
       cacheExpired: !!cached,
@@ -577,6 +591,8 @@ async function loadTrustConfig(
       sourceId: config.sourceId,
       upcTrusted: config.upcTrusted,
       version: config.version,
+      scoringStrategy: config.scoringStrategy ?? 'WEIGHTED_EXACT',
+      shadowScoringStrategy: config.shadowScoringStrategy ?? null,
     }
   }
 
@@ -834,7 +850,8 @@ async function attemptUpcMatch(
   existingLink: any,
   rulesFired: string[],
   sourceKind: import('@ironscout/db/generated/prisma').SourceKind | null,
-  rlog: ReturnType<typeof createResolverLog>
+  rlog: ReturnType<typeof createResolverLog>,
+  options: ResolveOptions
 ): Promise<ResolverResult | null> {
   const canonicalKey = `UPC:${upcNorm}`
 
@@ -865,7 +882,7 @@ async function attemptUpcMatch(
     })
 
     try {
-      product = await prisma.products.create({
+      product = await createCanonicalProduct(options, {
         data: {
           canonicalKey,
           upcNorm,
@@ -1010,7 +1027,8 @@ async function attemptFingerprintMatch(
   rulesFired: string[],
   sourceKind: import('@ironscout/db/generated/prisma').SourceKind | null,
   rlog: ReturnType<typeof createResolverLog>,
-  scoringStrategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY
+  scoringStrategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY,
+  options: ResolveOptions = {}
 ): Promise<ResolverResult> {
   // ============================================================================
   // IDENTITY-KEY FIRST: Direct lookup when all identity fields are present
@@ -1122,7 +1140,7 @@ async function attemptFingerprintMatch(
     let isCreated = false
 
     try {
-      product = await prisma.products.create({
+      product = await createCanonicalProduct(options, {
         data: {
           canonicalKey: identityKey,
           name: normalized.title,
@@ -1297,7 +1315,7 @@ async function attemptFingerprintMatch(
     let isCreated = false
 
     try {
-      product = await prisma.products.create({
+      product = await createCanonicalProduct(options, {
         data: {
           canonicalKey: identityKey,
           name: normalized.title,
@@ -1465,18 +1483,9 @@ async function attemptFingerprintMatch(
   }
 
   // Score candidates using the scoring strategy
-  const scoredCandidates: ResolverCandidate[] = candidates.map(product => {
-    const candidateProduct: CandidateProduct = {
-      id: product.id,
-      canonicalKey: product.canonicalKey,
-      brandNorm: product.brandNorm,
-      caliberNorm: product.caliberNorm,
-      roundCount: product.roundCount,
-      grainWeight: product.grainWeight,
-      name: product.name,
-    }
-
-    const result = scoringStrategy.score(normalized, candidateProduct)
+  const candidateProducts = candidates.map(toCandidateProduct)
+  const scoredCandidates: ResolverCandidate[] = candidates.map((product, i) => {
+    const result = scoringStrategy.score(normalized, candidateProducts[i])
 
     rlog.debug('FINGERPRINT_SCORE_COMPUTED', {
       phase: 'fingerprint_match',
@@ -1537,6 +1546,25 @@ async function attemptFingerprintMatch(
   const inAmbiguousZone = bestScore >= config.ambiguityLow && bestScore < config.ambiguityHigh
   const insufficientGap = scoreGap < config.ambiguityGap
   const isAmbiguous = inAmbiguousZone || insufficientGap
+  const scoringInfo = describeScoringStrategy(scoringStrategy)
+
+  // Shadow mode: compare against a second strategy without affecting the decision
+  if (trustConfig.shadowScoringStrategy && scoredCandidates.length > 0) {
+    compareShadowScoring(
+      getScoringStrategy(trustConfig.shadowScoringStrategy),
+      scoringStrategy,
+      normalized,
+      candidateProducts,
+      {
+        productId: isAmbiguous ? null : scoredCandidates[0].productId,
+        bestScore,
+        scoreGap,
+        isAmbiguous,
+      },
+      config,
+      rlog
+    )
+  }
 
   // No candidates found - create new product if we have sufficient data
   if (scoredCandidates.length === 0) {
@@ -1646,7 +1674,7 @@ async function attemptFingerprintMatch(
     let isCreated = false
 
     try {
-      product = await prisma.products.create({
+      product = await createCanonicalProduct(options, {
         data: {
           canonicalKey,
           name: normalized.title,
@@ -1782,7 +1810,8 @@ async function attemptFingerprintMatch(
       rulesFired,
       [],
       sourceKind,
-      topK
+      topK,
+      scoringInfo
     )
   }
 
@@ -1856,6 +1885,7 @@ async function attemptFingerprintMatch(
       inputHash,
       rulesFired,
       candidates: topK,
+      scoring: scoringInfo,
       previousDecision: isRelink ? {
         productId: existingLink.productId,
         matchType: existingLink.matchType,
@@ -1871,6 +1901,125 @@ async function attemptFingerprintMatch(
   }
 }
 
+/**
+ * Create a canonical product
+ * Shadow mode writes nothing and returns an unsaved placeholder whose id is
+ * SHADOW_PRODUCT_ID_PREFIX + canonicalKey, so callers report CREATED unchanged.
+ */
+async function createCanonicalProduct(
+  options: ResolveOptions,
+  args: { data: Prisma.productsCreateInput }
+): Promise<Awaited<ReturnType<typeof prisma.products.create>>> {
+  if (options.shadow) {
+    return {
+      ...args.data,
+      id: `${SHADOW_PRODUCT_ID_PREFIX}${args.data.canonicalKey}`,
+    } as unknown as Awaited<ReturnType<typeof prisma.products.create>>
+  }
+  return prisma.products.create(args)
+}
+
+/**
+ * Map a products row to the scoring interface
+ */
+function toCandidateProduct(product: {
+  id: string
+  canonicalKey: string | null
+  brandNorm: string | null
+  caliberNorm: string | null
+  roundCount: number | null
+  grainWeight: number | null
+  name: string
+}): CandidateProduct {
+  return {
+    id: product.id,
+    canonicalKey: product.canonicalKey,
+    brandNorm: product.brandNorm,
+    caliberNorm: product.caliberNorm,
+    roundCount: product.roundCount,
+    grainWeight: product.grainWeight,
+    name: product.name,
+  }
+}
+
+/**
+ * Strategy identity for evidence and logs
+ */
+function describeScoringStrategy(strategy: ScoringStrategy): ScoringStrategyInfo {
+  return strategy.modelVersion
+    ? { name: strategy.name, version: strategy.version, modelVersion: strategy.modelVersion }
+    : { name: strategy.name, version: strategy.version }
+}
+
+/**
+ * Fingerprint decision summary compared in shadow mode
+ * productId is null when the ambiguity rule sends the item to review
+ */
+interface FingerprintDecision {
+  productId: string | null
+  bestScore: number
+  scoreGap: number
+  isAmbiguous: boolean
+}
+
+/**
+ * Score candidates with the shadow strategy and log when its decision differs
+ * from the active strategy's. Never changes the link; shadow failures are
+ * logged and swallowed so they cannot fail resolution.
+ */
+function compareShadowScoring(
+  shadowStrategy: ScoringStrategy,
+  activeStrategy: ScoringStrategy,
+  normalized: NormalizedInput,
+  candidates: CandidateProduct[],
+  active: FingerprintDecision,
+  config: typeof DEFAULT_RESOLVER_CONFIG,
+  rlog: ReturnType<typeof createResolverLog>
+): void {
+  if (shadowStrategy === activeStrategy) return
+
+  try {
+    const scores = candidates
+      .map(candidate => ({
+        productId: candidate.id,
+        score: shadowStrategy.score(normalized, candidate).total,
+      }))
+      .sort((a, b) => b.score - a.score)
+
+    const bestScore = scores[0]?.score ?? 0
+    const scoreGap = bestScore - (scores[1]?.score ?? 0)
+    const isAmbiguous =
+      (bestScore >= config.ambiguityLow && bestScore < config.ambiguityHigh) || scoreGap < config.ambiguityGap
+    const shadow: FingerprintDecision = {
+      productId: isAmbiguous ? null : scores[0].productId,
+      bestScore,
+      scoreGap,
+      isAmbiguous,
+    }
+
+    const meta = {
+      phase: 'fingerprint_shadow',
+      activeStrategy: describeScoringStrategy(activeStrategy),
+      shadowStrategy: describeScoringStrategy(shadowStrategy),
+      active,
+      shadow,
+      candidateCount: candidates.length,
+    }
+
+    if (shadow.productId === active.productId) {
+      rlog.debug('FINGERPRINT_SHADOW_AGREED', meta)
+    } else {
+      rlog.info('FINGERPRINT_SHADOW_DISAGREEMENT', meta)
+    }
+  } catch (error) {
+    rlog.warn('FINGERPRINT_SHADOW_FAILED', {
+      phase: 'fingerprint_shadow',
+      shadowStrategy: describeScoringStrategy(shadowStrategy),
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
 /**
  * Resolve product through alias chain
  * Per Spec v1.2 §0.1: Transitive, max depth 10
@@ -2048,7 +2197,8 @@ function createNeedsReviewResult(
   rulesFired: string[],
   normalizationErrors: string[],
   sourceKind: import('@ironscout/db/generated/prisma').SourceKind | null,
-  candidates?: ResolverCandidate[]
+  candidates?: ResolverCandidate[],
+  scoring?: ScoringStrategyInfo
 ): ResolverResult {
   return {
     productId: null,
@@ -2064,6 +2214,7 @@ function createNeedsReviewResult(
       inputHash,
       rulesFired,
       candidates,
+      scoring,
       normalizationErrors: normalizationErrors.length > 0 ? normalizationErrors : undefined,
     },
     sourceKind,
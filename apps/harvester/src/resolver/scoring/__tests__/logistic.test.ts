@@ -0,0 +1,189 @@
+/**
+ * Unit tests for Logistic Regression Scoring Strategy and offline training
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  LogisticRegressionStrategy,
+  createLogisticRegressionStrategy,
+  extractScoringFeatures,
+  SCORING_FEATURES,
+  type LogisticModel,
+} from '../logistic'
+import {
+  trainLogisticModel,
+  evaluateLogisticModel,
+  type TrainingExample,
+} from '../logistic-training'
+import { getScoringStrategy, WeightedExactMatchStrategy } from '..'
+import type { NormalizedInput, CandidateProduct } from '../../types'
+
+const baseInput: NormalizedInput = {
+  title: 'Federal Premium 9mm 124gr JHP',
+  titleNorm: 'federal premium 9mm 124gr jhp',
+  brand: 'Federal',
+  brandNorm: 'federal',
+  caliber: '9mm',
+  caliberNorm: '9mm',
+  packCount: 50,
+  grain: 124,
+  url: 'https://example.com/product/1',
+}
+
+const perfectCandidate: CandidateProduct = {
+  id: 'prod_1',
+  canonicalKey: 'FP:federal:9mm:124:50',
+  brandNorm: 'federal',
+  caliberNorm: '9mm',
+  roundCount: 50,
+  grainWeight: 124,
+  name: 'Federal Premium 9mm 124gr JHP',
+}
+
+const wrongPackCandidate: CandidateProduct = {
+  ...perfectCandidate,
+  id: 'prod_2',
+  roundCount: 1000,
+  grainWeight: 115,
+  name: 'Federal 9mm 115gr FMJ 1000rd Case',
+}
+
+function model(overrides: Partial<LogisticModel> = {}): LogisticModel {
+  return {
+    version: 'test-1',
+    trainedAt: null,
+    trainingExamples: 0,
+    bias: -2,
+    weights: {
+      brand: 1,
+      caliber: 1,
+      pack: 1,
+      grain: 1,
+      titleTfidf: 1,
+      titleJaccard: 0,
+      titleLevenshtein: 0,
+    },
+    ...overrides,
+  }
+}
+
+describe('LogisticRegressionStrategy', () => {
+  it('has name, version and the bundled model version', () => {
+    expect(LogisticRegressionStrategy.name).toBe('logistic-regression')
+    expect(LogisticRegressionStrategy.version).toBe('1.0.0')
+    expect(LogisticRegressionStrategy.modelVersion).toBe('seed-1')
+  })
+
+  it('returns a probability with per-feature contributions', () => {
+    const result = LogisticRegressionStrategy.score(baseInput, perfectCandidate)
+
+    expect(result.total).toBeGreaterThan(0.7)
+    expect(result.total).toBeLessThan(1)
+    expect(Object.keys(result.componentScores).sort()).toEqual(['bias', ...SCORING_FEATURES].sort())
+    expect(result.matchDetails).toMatchObject({
+      brandMatch: true,
+      caliberMatch: true,
+      packMatch: true,
+      grainMatch: true,
+    })
+  })
+
+  it('ranks candidates in the same order as weighted exact match', () => {
+    const logistic = [perfectCandidate, wrongPackCandidate].map(
+      (c) => LogisticRegressionStrategy.score(baseInput, c).total
+    )
+    const weighted = [perfectCandidate, wrongPackCandidate].map(
+      (c) => WeightedExactMatchStrategy.score(baseInput, c).total
+    )
+
+    expect(logistic[0]).toBeGreaterThan(logistic[1])
+    expect(weighted[0]).toBeGreaterThan(weighted[1])
+  })
+
+  it('is 0.5 when the log-odds are zero', () => {
+    const strategy = createLogisticRegressionStrategy(model({ bias: 0, weights: { ...model().weights, brand: 0, caliber: 0, pack: 0, grain: 0, titleTfidf: 0 } }))
+
+    expect(strategy.score(baseInput, perfectCandidate).total).toBe(0.5)
+  })
+
+  it('rejects a model with a missing weight', () => {
+    const broken = model()
+    delete (broken.weights as Partial<LogisticModel['weights']>).titleJaccard
+
+    expect(() => createLogisticRegressionStrategy(broken)).toThrow('missing weight for titleJaccard')
+  })
+
+  it('rejects a model without a version', () => {
+    expect(() => createLogisticRegressionStrategy(model({ version: '' }))).toThrow('must have a version')
+  })
+})
+
+describe('extractScoringFeatures', () => {
+  it('produces 0/1 match flags and bounded title similarities', () => {
+    const features = extractScoringFeatures(baseInput, wrongPackCandidate)
+
+    expect(features.brand).toBe(1)
+    expect(features.pack).toBe(0)
+    expect(features.grain).toBe(0)
+    for (const feature of ['titleTfidf', 'titleJaccard', 'titleLevenshtein'] as const) {
+      expect(features[feature]).toBeGreaterThanOrEqual(0)
+      expect(features[feature]).toBeLessThan(1)
+    }
+  })
+})
+
+describe('trainLogisticModel', () => {
+  // Positives match on pack and grain; negatives differ on one or both
+  function examples(): TrainingExample[] {
+    const base = { brand: 1, caliber: 1, titleTfidf: 0.5, titleJaccard: 0.4, titleLevenshtein: 0.5 }
+    const data: TrainingExample[] = []
+    for (let i = 0; i < 10; i++) {
+      data.push({ features: { ...base, pack: 1, grain: 1, titleTfidf: 0.8 }, label: 1 })
+      data.push({ features: { ...base, pack: 0, grain: 1 }, label: 0 })
+      data.push({ features: { ...base, pack: 1, grain: 0 }, label: 0 })
+      data.push({ features: { ...base, pack: 0, grain: 0 }, label: 0 })
+    }
+    return data
+  }
+
+  it('learns positive weights for discriminating features', () => {
+    const trained = trainLogisticModel(examples(), 'lr-test')
+
+    expect(trained.version).toBe('lr-test')
+    expect(trained.trainingExamples).toBe(40)
+    expect(trained.weights.pack).toBeGreaterThan(0)
+    expect(trained.weights.grain).toBeGreaterThan(0)
+
+    const evaluation = evaluateLogisticModel(trained, examples())
+    expect(evaluation.accuracy).toBe(1)
+    expect(evaluation.positives).toBe(10)
+  })
+
+  it('produces a model the strategy accepts', () => {
+    const trained = trainLogisticModel(examples(), 'lr-test')
+
+    expect(() => createLogisticRegressionStrategy(trained)).not.toThrow()
+  })
+
+  it('is deterministic for the same examples', () => {
+    const a = trainLogisticModel(examples(), 'lr-test')
+    const b = trainLogisticModel(examples(), 'lr-test')
+
+    expect(a.weights).toEqual(b.weights)
+    expect(a.bias).toBe(b.bias)
+  })
+
+  it('requires both classes', () => {
+    const positivesOnly = examples().filter((e) => e.label === 1)
+
+    expect(() => trainLogisticModel(positivesOnly, 'lr-test')).toThrow('needs both classes')
+  })
+})
+
+describe('getScoringStrategy', () => {
+  it('maps configured strategies and defaults to weighted exact match', () => {
+    expect(getScoringStrategy('LOGISTIC')).toBe(LogisticRegressionStrategy)
+    expect(getScoringStrategy('WEIGHTED_EXACT')).toBe(WeightedExactMatchStrategy)
+    expect(getScoringStrategy(null)).toBe(WeightedExactMatchStrategy)
+  })
+})
@@ -2,10 +2,22 @@
  * Scoring Strategy Registry
  *
  * Export all scoring strategies and provide a default.
- * New strategies can be added here and selected via configuration.
+ * Strategies are selected per source via source_trust_config.scoringStrategy.
  */
 
+import type { ResolverScoringStrategy } from '@ironscout/db/generated/prisma'
+import type { ScoringStrategy } from '../types'
+
 export { WeightedExactMatchStrategy, createWeightedExactMatchStrategy } from './weighted-exact'
+export {
+  LogisticRegressionStrategy,
+  createLogisticRegressionStrategy,
+  extractScoringFeatures,
+  SCORING_FEATURES,
+  type LogisticModel,
+  type ScoringFeature,
+  type ScoringFeatures,
+} from './logistic'
 export {
   tfidfCosineSimilarity,
   jaccardSimilarity,
@@ -21,9 +33,23 @@ export type { ScoringStrategy, ScoringResult, CandidateProduct } from '../types'
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { WeightedExactMatchStrategy } from './weighted-exact'
+import { LogisticRegressionStrategy } from './logistic'
 
 /**
  * Default scoring strategy used by the resolver
  * Currently: Weighted exact match with fixed weights
  */
 export const DEFAULT_SCORING_STRATEGY = WeightedExactMatchStrategy
+
+const SCORING_STRATEGIES: Record<ResolverScoringStrategy, ScoringStrategy> = {
+  WEIGHTED_EXACT: WeightedExactMatchStrategy,
+  LOGISTIC: LogisticRegressionStrategy,
+}
+
+/**
+ * Look up the strategy configured for a source
+ * Falls back to the default for unknown values (e.g. config written by a newer build)
+ */
+export function getScoringStrategy(kind: ResolverScoringStrategy | null | undefined): ScoringStrategy {
+  return (kind && SCORING_STRATEGIES[kind]) || DEFAULT_SCORING_STRATEGY
+}
@@ -0,0 +1,129 @@
+/**
+ * Offline training for the logistic regression scoring strategy
+ *
+ * Pure functions: the CLI (cli/train-scoring-model.ts) loads labeled pairs
+ * from product_links and writes the resulting model JSON.
+ *
+ * Full-batch gradient descent with L2 regularization (bias not regularized).
+ * Deterministic for a given example order, so retraining on the same data
+ * yields the same model.
+ */
+
+import {
+  SCORING_FEATURES,
+  logisticLogit,
+  sigmoid,
+  type LogisticModel,
+  type ScoringFeatures,
+} from './logistic'
+
+/**
+ * One labeled input/candidate pair
+ * label 1 = reviewer linked the input to this candidate
+ */
+export interface TrainingExample {
+  features: ScoringFeatures
+  label: 0 | 1
+}
+
+export interface TrainingOptions {
+  epochs: number
+  learningRate: number
+  l2: number
+  /**
+   * Weight classes equally. Review decisions yield one positive and several
+   * negatives per item; without balancing, scores skew low against the
+   * resolver's fixed ambiguity thresholds.
+   */
+  balanceClasses: boolean
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  epochs: 2000,
+  learningRate: 0.5,
+  l2: 0.001,
+  balanceClasses: true,
+}
+
+export interface ModelEvaluation {
+  examples: number
+  positives: number
+  logLoss: number
+  /** Share of examples classified correctly at p >= 0.5 */
+  accuracy: number
+}
+
+function zeroFeatures(): ScoringFeatures {
+  return Object.fromEntries(SCORING_FEATURES.map((f) => [f, 0])) as ScoringFeatures
+}
+
+/**
+ * Train a model from labeled examples
+ * Requires at least one positive and one negative example
+ */
+export function trainLogisticModel(
+  examples: TrainingExample[],
+  version: string,
+  options: TrainingOptions = DEFAULT_TRAINING_OPTIONS
+): LogisticModel {
+  const positives = examples.filter((e) => e.label === 1).length
+  const negatives = examples.length - positives
+  if (positives === 0 || negatives === 0) {
+    throw new Error(`Training needs both classes, got ${positives} positive and ${negatives} negative examples`)
+  }
+
+  const positiveWeight = options.balanceClasses ? examples.length / (2 * positives) : 1
+  const negativeWeight = options.balanceClasses ? examples.length / (2 * negatives) : 1
+
+  const model: LogisticModel = {
+    version,
+    trainedAt: new Date().toISOString(),
+    trainingExamples: examples.length,
+    bias: 0,
+    weights: zeroFeatures(),
+  }
+
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    let biasGradient = 0
+    const gradients = zeroFeatures()
+
+    for (const example of examples) {
+      const weight = example.label === 1 ? positiveWeight : negativeWeight
+      const error = (sigmoid(logisticLogit(model, example.features)) - example.label) * weight
+      biasGradient += error
+      for (const feature of SCORING_FEATURES) {
+        gradients[feature] += error * example.features[feature]
+      }
+    }
+
+    model.bias -= (options.learningRate * biasGradient) / examples.length
+    for (const feature of SCORING_FEATURES) {
+      const gradient = gradients[feature] / examples.length + options.l2 * model.weights[feature]
+      model.weights[feature] -= options.learningRate * gradient
+    }
+  }
+
+  return model
+}
+
+/**
+ * Log-loss and accuracy of a model on held-out examples
+ */
+export function evaluateLogisticModel(model: LogisticModel, examples: TrainingExample[]): ModelEvaluation {
+  let logLoss = 0
+  let correct = 0
+
+  for (const example of examples) {
+    // Clamp to keep log() finite for confident mistakes
+    const p = Math.min(Math.max(sigmoid(logisticLogit(model, example.features)), 1e-12), 1 - 1e-12)
+    logLoss -= example.label === 1 ? Math.log(p) : Math.log(1 - p)
+    if ((p >= 0.5 ? 1 : 0) === example.label) correct++
+  }
+
+  return {
+    examples: examples.length,
+    positives: examples.filter((e) => e.label === 1).length,
+    logLoss: examples.length > 0 ? logLoss / examples.length : 0,
+    accuracy: examples.length > 0 ? correct / examples.length : 0,
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Logistic Regression Scoring Strategy
+ *
+ * Scores candidates as P(same product) = sigmoid(bias + Σ weight × feature),
+ * with weights learned offline from MANUAL review-queue decisions
+ * (see logistic-training.ts and cli/train-scoring-model.ts).
+ *
+ * Features reuse the weighted-exact match flags and add the Jaccard and
+ * Levenshtein title signals, so the model can learn how much each one matters.
+ */
+
+import type { ScoringStrategy, ScoringResult, NormalizedInput, CandidateProduct } from '../types'
+import {
+  tokenize,
+  tfidfCosineSimilarityWithTokens,
+  jaccardSimilarity,
+  levenshteinSimilarity,
+} from './text-similarity'
+import bundledModel from './models/logistic.json'
+
+/**
+ * Features fed to the model, in a fixed order
+ */
+export const SCORING_FEATURES = [
+  'brand',
+  'caliber',
+  'pack',
+  'grain',
+  'titleTfidf',
+  'titleJaccard',
+  'titleLevenshtein',
+] as const
+
+export type ScoringFeature = (typeof SCORING_FEATURES)[number]
+
+export type ScoringFeatures = Record<ScoringFeature, number>
+
+/**
+ * Trained model, stored as JSON under scoring/models/
+ */
+export interface LogisticModel {
+  version: string
+  description?: string
+  /** ISO timestamp, null for hand-set models */
+  trainedAt: string | null
+  trainingExamples: number
+  bias: number
+  weights: ScoringFeatures
+}
+
+/**
+ * Extract model features for one input/candidate pair
+ *
+ * Match flags are 0/1; title similarities are in [0, 1].
+ * Pass pre-tokenized input when scoring many candidates.
+ */
+export function extractScoringFeatures(
+  input: NormalizedInput,
+  candidate: CandidateProduct,
+  inputTokens?: string[]
+): ScoringFeatures {
+  const inputTitle = input.titleNorm ?? input.title ?? ''
+  const candidateTitle = candidate.name ?? ''
+
+  return {
+    brand: input.brandNorm === candidate.brandNorm ? 1 : 0,
+    caliber: input.caliberNorm === candidate.caliberNorm ? 1 : 0,
+    pack: input.packCount === candidate.roundCount ? 1 : 0,
+    grain: input.grain === candidate.grainWeight ? 1 : 0,
+    titleTfidf: tfidfCosineSimilarityWithTokens(inputTokens ?? tokenize(inputTitle), candidateTitle),
+    titleJaccard: jaccardSimilarity(inputTitle, candidateTitle),
+    titleLevenshtein: levenshteinSimilarity(inputTitle, candidateTitle),
+  }
+}
+
+/**
+ * Linear predictor (log-odds) for a feature vector
+ */
+export function logisticLogit(model: LogisticModel, features: ScoringFeatures): number {
+  let logit = model.bias
+  for (const feature of SCORING_FEATURES) {
+    logit += model.weights[feature] * features[feature]
+  }
+  return logit
+}
+
+export function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x))
+}
+
+/**
+ * Validate a model loaded from JSON
+ * Throws on missing or non-finite weights so a bad file fails at startup
+ */
+export function validateLogisticModel(model: LogisticModel): void {
+  if (!model.version) {
+    throw new Error('Logistic model must have a version')
+  }
+  if (!Number.isFinite(model.bias)) {
+    throw new Error(`Logistic model ${model.version} has invalid bias`)
+  }
+  for (const feature of SCORING_FEATURES) {
+    if (!Number.isFinite(model.weights?.[feature])) {
+      throw new Error(`Logistic model ${model.version} is missing weight for ${feature}`)
+    }
+  }
+}
+
+/**
+ * Create a logistic regression strategy for a trained model
+ *
+ * Performance: Caches input title tokens across calls, like the weighted
+ * exact strategy.
+ */
+export function createLogisticRegressionStrategy(
+  model: LogisticModel,
+  version: string = '1.0.0'
+): ScoringStrategy {
+  validateLogisticModel(model)
+
+  let cachedInputTitle: string | null = null
+  let cachedInputTokens: string[] = []
+
+  return {
+    name: 'logistic-regression',
+    version,
+    modelVersion: model.version,
+
+    score(input: NormalizedInput, candidate: CandidateProduct): ScoringResult {
+      const inputTitle = input.titleNorm ?? input.title ?? ''
+      if (inputTitle !== cachedInputTitle) {
+        cachedInputTokens = tokenize(inputTitle)
+        cachedInputTitle = inputTitle
+      }
+
+      const features = extractScoringFeatures(input, candidate, cachedInputTokens)
+
+      // Per-feature contributions to the log-odds, for auditability
+      const componentScores: Record<string, number> = { bias: model.bias }
+      for (const feature of SCORING_FEATURES) {
+        componentScores[feature] = model.weights[feature] * features[feature]
+      }
+
+      return {
+        total: sigmoid(logisticLogit(model, features)),
+        componentScores,
+        matchDetails: {
+          brandMatch: features.brand === 1,
+          caliberMatch: features.caliber === 1,
+          packMatch: features.pack === 1,
+          grainMatch: features.grain === 1,
+          titleSimilarity: features.titleTfidf,
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Default strategy instance using the bundled model
+ */
+export const LogisticRegressionStrategy = createLogisticRegressionStrategy(bundledModel as LogisticModel)
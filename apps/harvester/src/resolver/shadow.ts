@@ -0,0 +1,307 @@
+/**
+ * Resolver Shadow Runs
+ *
+ * Re-resolves existing source products with the checked-out resolver build in
+ * shadow mode (no product or link writes) and stores each decision next to the
+ * live link in resolver_shadow_decisions. The admin diff report
+ * (Resolver Shadow Runs) aggregates them by change type, source and reason code.
+ *
+ * Use before deploying a RESOLVER_VERSION or DICTIONARY_VERSION bump to see how
+ * many links would move. MANUAL links are excluded: they are never overridden.
+ *
+ * Limitation: decisions are independent, so two source products that would
+ * create the same new canonical product both report NEW_PRODUCT.
+ */
+
+import { prisma } from '@ironscout/db'
+import type {
+  ProductLinkReasonCode,
+  ProductLinkStatus,
+  ResolverShadowChangeType,
+} from '@ironscout/db/generated/prisma'
+import { logger } from '../config/logger'
+import { resolveSourceProduct, RESOLVER_VERSION, DICTIONARY_VERSION, SHADOW_PRODUCT_ID_PREFIX } from './resolver'
+import type { ResolverResult } from './types'
+
+const log = logger.resolver
+
+/** Decisions written per createMany */
+const DEFAULT_BATCH_SIZE = 100
+
+/** Confidence changes smaller than this are rounding noise (Decimal(5,4)) */
+const CONFIDENCE_EPSILON = 0.0001
+
+/** Live statuses without a usable link */
+const UNLINKED_STATUSES: ReadonlySet<ProductLinkStatus> = new Set([
+  'NEEDS_REVIEW',
+  'UNMATCHED',
+  'SKIPPED',
+  'ERROR',
+])
+
+export interface ShadowRunOptions {
+  /** Limit to one source */
+  sourceId?: string
+  /** Random sample size; omit to re-resolve every eligible source product in scope */
+  sampleSize?: number
+  triggeredBy?: string
+  batchSize?: number
+}
+
+export interface ShadowRunSummary {
+  runId: string
+  totalCount: number
+  changedCount: number
+  errorCount: number
+  byChangeType: Partial<Record<ResolverShadowChangeType, number>>
+}
+
+/**
+ * Live link fields compared against the shadow decision
+ */
+export interface LiveLink {
+  productId: string | null
+  status: ProductLinkStatus
+  reasonCode: ProductLinkReasonCode | null
+  confidence: number
+  resolverVersion: string
+}
+
+/**
+ * Shadow decision fields used for classification
+ */
+export interface ShadowDecision {
+  productId: string | null
+  status: ProductLinkStatus
+  reasonCode: ProductLinkReasonCode | null
+  confidence: number
+  /** Set when the decision would create a new canonical product */
+  createdCanonicalKey: string | null
+}
+
+/**
+ * Classify how a shadow decision differs from the live link
+ */
+export function classifyShadowDecision(
+  current: LiveLink | null,
+  decision: ShadowDecision
+): ResolverShadowChangeType {
+  if (decision.status === 'ERROR') return 'ERROR'
+  if (!current) return 'NEW_LINK'
+
+  const wasUnlinked = UNLINKED_STATUSES.has(current.status)
+  const isUnlinked = UNLINKED_STATUSES.has(decision.status)
+
+  if (wasUnlinked && isUnlinked) {
+    return current.reasonCode === decision.reasonCode ? 'UNCHANGED' : 'REASON_CHANGED'
+  }
+  if (wasUnlinked) return 'LEFT_REVIEW'
+  if (isUnlinked) return 'NEW_REVIEW'
+
+  if (decision.createdCanonicalKey) return 'NEW_PRODUCT'
+  if (decision.productId !== current.productId) return 'RELINKED'
+  if (Math.abs(decision.confidence - current.confidence) >= CONFIDENCE_EPSILON) return 'CONFIDENCE_SHIFT'
+  return 'UNCHANGED'
+}
+
+/**
+ * Map a shadow ResolverResult to the stored decision
+ * Placeholder ids for would-be-created products become createdCanonicalKey
+ */
+export function toShadowDecision(result: ResolverResult): ShadowDecision {
+  const isPlaceholder = result.productId?.startsWith(SHADOW_PRODUCT_ID_PREFIX) ?? false
+  return {
+    productId: isPlaceholder ? null : result.productId,
+    status: result.status,
+    reasonCode: result.reasonCode,
+    confidence: result.confidence,
+    createdCanonicalKey: isPlaceholder
+      ? result.createdProduct?.canonicalKey ?? result.productId!.slice(SHADOW_PRODUCT_ID_PREFIX.length)
+      : null,
+  }
+}
+
+/**
+ * Pick source products to re-resolve (MANUAL links excluded)
+ */
+async function selectSourceProducts(
+  options: ShadowRunOptions
+): Promise<Array<{ id: string; sourceId: string }>> {
+  const sourceId = options.sourceId ?? null
+
+  if (options.sampleSize) {
+    return prisma.$queryRaw<Array<{ id: string; sourceId: string }>>`
+      SELECT sp.id, sp."sourceId"
+      FROM source_products sp
+      LEFT JOIN product_links pl ON pl."sourceProductId" = sp.id
+      WHERE (pl."matchType" IS NULL OR pl."matchType" <> 'MANUAL')
+        AND (${sourceId}::text IS NULL OR sp."sourceId" = ${sourceId})
+      ORDER BY random()
+      LIMIT ${options.sampleSize}
+    `
+  }
+
+  return prisma.$queryRaw<Array<{ id: string; sourceId: string }>>`
+    SELECT sp.id, sp."sourceId"
+    FROM source_products sp
+    LEFT JOIN product_links pl ON pl."sourceProductId" = sp.id
+    WHERE (pl."matchType" IS NULL OR pl."matchType" <> 'MANUAL')
+      AND (${sourceId}::text IS NULL OR sp."sourceId" = ${sourceId})
+    ORDER BY sp.id
+  `
+}
+
+/**
+ * Run a shadow resolution and persist its decisions
+ * Requires a source or a sample size so a full-catalog run is never accidental.
+ */
+export async function runShadowResolution(options: ShadowRunOptions): Promise<ShadowRunSummary> {
+  if (!options.sourceId && !options.sampleSize) {
+    throw new Error('Shadow run needs a sourceId or a sampleSize')
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  const run = await prisma.resolver_shadow_runs.create({
+    data: {
+      resolverVersion: RESOLVER_VERSION,
+      dictionaryVersion: DICTIONARY_VERSION,
+      sourceId: options.sourceId ?? null,
+      sampleSize: options.sampleSize ?? null,
+      triggeredBy: options.triggeredBy ?? null,
+    },
+  })
+
+  const summary: ShadowRunSummary = {
+    runId: run.id,
+    totalCount: 0,
+    changedCount: 0,
+    errorCount: 0,
+    byChangeType: {},
+  }
+
+  log.info('SHADOW_RUN_START', {
+    runId: run.id,
+    resolverVersion: RESOLVER_VERSION,
+    dictionaryVersion: DICTIONARY_VERSION,
+    sourceId: options.sourceId,
+    sampleSize: options.sampleSize,
+  })
+
+  try {
+    const targets = await selectSourceProducts(options)
+
+    for (let i = 0; i < targets.length; i += batchSize) {
+      const batch = targets.slice(i, i + batchSize)
+      const links = await prisma.product_links.findMany({
+        where: { sourceProductId: { in: batch.map((t) => t.id) } },
+        select: {
+          sourceProductId: true,
+          productId: true,
+          status: true,
+          reasonCode: true,
+          confidence: true,
+          resolverVersion: true,
+        },
+      })
+      const linksBySourceProduct = new Map(links.map((l) => [l.sourceProductId, l]))
+
+      const rows = []
+      for (const target of batch) {
+        const link = linksBySourceProduct.get(target.id)
+        const current: LiveLink | null = link
+          ? {
+              productId: link.productId,
+              status: link.status,
+              reasonCode: link.reasonCode,
+              confidence: Number(link.confidence),
+              resolverVersion: link.resolverVersion,
+            }
+          : null
+
+        let decision: ShadowDecision
+        let matchType: ResolverResult['matchType']
+        let rulesFired: string[]
+        try {
+          const result = await resolveSourceProduct(target.id, 'SHADOW', undefined, { shadow: true })
+          decision = toShadowDecision(result)
+          matchType = result.matchType
+          rulesFired = result.evidence?.rulesFired ?? []
+        } catch (error) {
+          // System errors would be retried by the live worker; record them, keep going
+          log.warn('SHADOW_RESOLVE_FAILED', {
+            runId: run.id,
+            sourceProductId: target.id,
+            error: error instanceof Error ? error.message : String(error),
+          })
+          decision = {
+            productId: null,
+            status: 'ERROR',
+            reasonCode: 'SYSTEM_ERROR',
+            confidence: 0,
+            createdCanonicalKey: null,
+          }
+          matchType = 'ERROR'
+          rulesFired = []
+        }
+
+        const changeType = classifyShadowDecision(current, decision)
+        summary.totalCount++
+        summary.byChangeType[changeType] = (summary.byChangeType[changeType] ?? 0) + 1
+        if (changeType === 'ERROR') summary.errorCount++
+        else if (changeType !== 'UNCHANGED') summary.changedCount++
+
+        rows.push({
+          runId: run.id,
+          sourceProductId: target.id,
+          sourceId: target.sourceId,
+          currentProductId: current?.productId ?? null,
+          currentStatus: current?.status ?? null,
+          currentReasonCode: current?.reasonCode ?? null,
+          currentConfidence: current?.confidence ?? null,
+          currentResolverVersion: current?.resolverVersion ?? null,
+          productId: decision.productId,
+          createdCanonicalKey: decision.createdCanonicalKey,
+          matchType,
+          status: decision.status,
+          reasonCode: decision.reasonCode,
+          confidence: decision.confidence,
+          rulesFired,
+          changeType,
+          confidenceDelta: current ? decision.confidence - current.confidence : null,
+        })
+      }
+
+      await prisma.resolver_shadow_decisions.createMany({ data: rows, skipDuplicates: true })
+      await prisma.resolver_shadow_runs.update({
+        where: { id: run.id },
+        data: {
+          totalCount: summary.totalCount,
+          changedCount: summary.changedCount,
+          errorCount: summary.errorCount,
+        },
+      })
+
+      log.debug('SHADOW_RUN_PROGRESS', {
+        runId: run.id,
+        processed: summary.totalCount,
+        total: targets.length,
+      })
+    }
+
+    await prisma.resolver_shadow_runs.update({
+      where: { id: run.id },
+      data: { status: 'COMPLETED', finishedAt: new Date() },
+    })
+
+    log.info('SHADOW_RUN_COMPLETE', { ...summary })
+    return summary
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await prisma.resolver_shadow_runs.update({
+      where: { id: run.id },
+      data: { status: 'FAILED', errorMessage: message, finishedAt: new Date() },
+    })
+    log.error('SHADOW_RUN_FAILED', { runId: run.id, processed: summary.totalCount }, error)
+    throw error
+  }
+}
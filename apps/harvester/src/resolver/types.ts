@@ -8,6 +8,7 @@ import type {
   ProductLinkMatchType,
   ProductLinkStatus,
   ProductLinkReasonCode,
+  ResolverScoringStrategy,
   SourceKind,
 } from '@ironscout/db/generated/prisma'
 
@@ -98,6 +99,9 @@ export interface ResolverEvidence {
   candidates?: ResolverCandidate[]
   normalizationErrors?: string[]
 
+  // Scoring strategy that ranked the candidates (fingerprint scoring only)
+  scoring?: ScoringStrategyInfo
+
   // Relink info (if applicable)
   previousDecision?: PreviousDecision
 
@@ -149,6 +153,18 @@ export interface ResolverResult {
   relinkBlocked: boolean
 }
 
+/**
+ * Options for a single resolver invocation
+ */
+export interface ResolveOptions {
+  /**
+   * Shadow mode: evaluate without side effects. Products are not created
+   * (CREATED results carry a placeholder id) and SKIP_SAME_INPUT is bypassed
+   * so unchanged inputs are still decided by the current build.
+   */
+  shadow?: boolean
+}
+
 /**
  * Trust configuration for a source
  * Per Spec v1.2 §0.1: Loaded from source_trust_config
@@ -157,6 +173,9 @@ export interface SourceTrustConfig {
   sourceId: string
   upcTrusted: boolean
   version: number
+  scoringStrategy: ResolverScoringStrategy
+  /** Scored alongside for comparison only; never changes the link */
+  shadowScoringStrategy: ResolverScoringStrategy | null
 }
 
 /**
@@ -219,6 +238,8 @@ export interface ScoringStrategy {
   readonly name: string
   /** Strategy version for auditing */
   readonly version: string
+  /** Version of the trained model, for learned strategies */
+  readonly modelVersion?: string
 
   /**
    * Score a candidate product against normalized input
@@ -229,6 +250,15 @@ export interface ScoringStrategy {
   score(input: NormalizedInput, candidate: CandidateProduct): ScoringResult
 }
 
+/**
+ * Strategy identity recorded in evidence
+ */
+export interface ScoringStrategyInfo {
+  name: string
+  version: string
+  modelVersion?: string
+}
+
 /**
  * Resolver configuration (runtime)
  */
@@ -20,6 +20,7 @@ import {
   ProductResolveJobData,
   productResolveQueue,
   enqueueEmbeddingGenerate,
+  enqueueSuggestionIndexRefresh,
 } from '../config/queues'
 import { resolveSourceProduct, RESOLVER_VERSION } from './resolver'
 import { brandAliasCache } from './brand-alias-cache'
@@ -461,6 +462,19 @@ async function processResolveJob(
       }
     }
 
+    // New products change the autocomplete vocabulary; refreshes are batched
+    // per window, so this is one Redis call per resolved product at most
+    if (result.status === 'CREATED' && !result.skipped) {
+      const enqueued = await enqueueSuggestionIndexRefresh('RESOLVE')
+      if (enqueued) {
+        log.debug('SUGGESTION_INDEX_REFRESH_ENQUEUED', {
+          event_name: 'SUGGESTION_INDEX_REFRESH_ENQUEUED',
+          productId: result.productId,
+          sourceProductId,
+        })
+      }
+    }
+
     return result
   } catch (error: any) {
     // Record failure metrics for system errors
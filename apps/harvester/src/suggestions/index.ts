@@ -0,0 +1,16 @@
+/**
+ * Search Suggestion Index Module
+ *
+ * Builds the search autocomplete index from catalog data and publishes it
+ * to Redis for the API. Exports the refresh worker and the refresh itself.
+ */
+
+export {
+  startSuggestionIndexWorker,
+  stopSuggestionIndexWorker,
+  getSuggestionIndexWorkerMetrics,
+} from './worker'
+
+export { refreshSuggestionIndex } from './refresh'
+
+export type { SuggestionIndexRefreshResult } from './refresh'
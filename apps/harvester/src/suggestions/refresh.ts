@@ -0,0 +1,65 @@
+/**
+ * Search Suggestion Index Refresh
+ *
+ * Rebuilds the autocomplete index from active products, ACTIVE brand
+ * aliases and the caliber taxonomy, then publishes it to Redis for the API.
+ * The index is written before its version key, so the API never reads a
+ * version whose index is missing.
+ */
+
+import { prisma, getCaliberTaxonomy } from '@ironscout/db'
+import { BrandAliasStatus } from '@ironscout/db/generated/prisma'
+// Import search-suggestions directly to avoid circular import issues
+import {
+  buildSuggestionIndex,
+  SUGGESTION_INDEX_KEY,
+  SUGGESTION_INDEX_VERSION_KEY,
+} from '@ironscout/db/search-suggestions.js'
+import type { Redis } from 'ioredis'
+
+export interface SuggestionIndexRefreshResult {
+  version: string
+  productCount: number
+  entryCount: number
+  /** Serialized index size */
+  bytes: number
+}
+
+/**
+ * Rebuild the suggestion index and publish it to Redis
+ */
+export async function refreshSuggestionIndex(redis: Redis): Promise<SuggestionIndexRefreshResult> {
+  const [products, brandAliases] = await Promise.all([
+    prisma.products.findMany({
+      where: { isActiveSku: true },
+      select: {
+        name: true,
+        brand: true,
+        caliber: true,
+        grainWeight: true,
+        bulletType: true,
+      },
+    }),
+    prisma.brand_aliases.findMany({
+      where: { status: BrandAliasStatus.ACTIVE },
+      select: { aliasName: true, canonicalName: true },
+    }),
+  ])
+
+  const index = buildSuggestionIndex({
+    products,
+    brandAliases,
+    taxonomy: getCaliberTaxonomy(),
+  })
+
+  const payload = JSON.stringify(index)
+  await redis.set(SUGGESTION_INDEX_KEY, payload)
+  await redis.set(SUGGESTION_INDEX_VERSION_KEY, index.version)
+
+  return {
+    version: index.version,
+    productCount: products.length,
+    entryCount: index.entries.length,
+    bytes: Buffer.byteLength(payload),
+  }
+}
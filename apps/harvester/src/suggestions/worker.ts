@@ -0,0 +1,150 @@
+/**
+ * Search Suggestion Index BullMQ Worker
+ *
+ * Processes REFRESH_SUGGESTION_INDEX jobs from the suggestion-index-refresh
+ * queue. Each job rebuilds the whole autocomplete index (see refresh.ts).
+ *
+ * Triggered:
+ * - After the resolver creates products (batched per refresh window)
+ * - At harvester startup, so a fresh Redis gets an index
+ * - Manually (trigger MANUAL)
+ */
+
+import { Worker, Job } from 'bullmq'
+import type { Redis } from 'ioredis'
+import { redisConnection, createRedisClient } from '../config/redis'
+import { QUEUE_NAMES, SuggestionIndexRefreshJobData } from '../config/queues'
+import { logger } from '../config/logger'
+import { refreshSuggestionIndex } from './refresh'
+
+const log = logger.suggestions
+
+// Metrics
+let processedCount = 0
+let errorCount = 0
+let lastProcessedAt: Date | null = null
+let lastIndexVersion: string | null = null
+let lastEntryCount = 0
+
+/**
+ * Redis client for publishing the index
+ * Created by startSuggestionIndexWorker()
+ */
+let redis: Redis | null = null
+
+/**
+ * Suggestion Index Worker instance
+ * Created lazily by startSuggestionIndexWorker()
+ */
+export let suggestionIndexWorker: Worker<SuggestionIndexRefreshJobData> | null = null
+
+/**
+ * Process a single suggestion index refresh job
+ */
+async function processSuggestionIndexJob(job: Job<SuggestionIndexRefreshJobData>): Promise<void> {
+  const { trigger } = job.data
+  const startTime = Date.now()
+
+  log.debug('SUGGESTION_INDEX_REFRESH_START', {
+    event_name: 'SUGGESTION_INDEX_REFRESH_START',
+    jobId: job.id,
+    trigger,
+  })
+
+  const result = await refreshSuggestionIndex(redis!)
+  lastIndexVersion = result.version
+  lastEntryCount = result.entryCount
+
+  log.info('SUGGESTION_INDEX_REFRESH_COMPLETED', {
+    event_name: 'SUGGESTION_INDEX_REFRESH_COMPLETED',
+    jobId: job.id,
+    trigger,
+    durationMs: Date.now() - startTime,
+    ...result,
+  })
+}
+
+/**
+ * Start the Search Suggestion Index worker
+ */
+export async function startSuggestionIndexWorker(): Promise<Worker<SuggestionIndexRefreshJobData>> {
+  log.info('SUGGESTION_INDEX_WORKER_START', {
+    event_name: 'SUGGESTION_INDEX_WORKER_START',
+    queueName: QUEUE_NAMES.SUGGESTION_INDEX_REFRESH,
+  })
+
+  redis = createRedisClient()
+
+  // Concurrency 1: rebuilds are whole-catalog and the last write wins
+  suggestionIndexWorker = new Worker<SuggestionIndexRefreshJobData>(
+    QUEUE_NAMES.SUGGESTION_INDEX_REFRESH,
+    async (job: Job<SuggestionIndexRefreshJobData>) => {
+      return processSuggestionIndexJob(job)
+    },
+    {
+      connection: redisConnection,
+      concurrency: 1,
+    }
+  )
+
+  suggestionIndexWorker.on('completed', () => {
+    processedCount++
+    lastProcessedAt = new Date()
+  })
+
+  suggestionIndexWorker.on('failed', (job: Job<SuggestionIndexRefreshJobData> | undefined, error: Error) => {
+    errorCount++
+    log.error(
+      'SUGGESTION_INDEX_REFRESH_FAILED',
+      {
+        event_name: 'SUGGESTION_INDEX_REFRESH_FAILED',
+        jobId: job?.id,
+        trigger: job?.data?.trigger,
+        errorMessage: error.message,
+        errorCount,
+      },
+      error
+    )
+  })
+
+  suggestionIndexWorker.on('error', (error: Error) => {
+    log.warn('SUGGESTION_INDEX_WORKER_ERROR', {
+      event_name: 'SUGGESTION_INDEX_WORKER_ERROR',
+      errorMessage: error.message,
+    })
+  })
+
+  return suggestionIndexWorker
+}
+
+/**
+ * Stop the Search Suggestion Index worker gracefully
+ */
+export async function stopSuggestionIndexWorker(): Promise<void> {
+  if (suggestionIndexWorker) {
+    log.info('SUGGESTION_INDEX_WORKER_STOPPING', {
+      event_name: 'SUGGESTION_INDEX_WORKER_STOPPING',
+      processedCount,
+      errorCount,
+    })
+    await suggestionIndexWorker.close()
+    suggestionIndexWorker = null
+  }
+  if (redis) {
+    await redis.quit()
+    redis = null
+  }
+}
+
+/**
+ * Get worker metrics
+ */
+export function getSuggestionIndexWorkerMetrics() {
+  return {
+    processedCount,
+    errorCount,
+    lastProcessedAt,
+    lastIndexVersion,
+    lastEntryCount,
+  }
+}
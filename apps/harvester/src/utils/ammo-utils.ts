@@ -1,4 +1,6 @@
 import crypto from 'crypto'
+// Import caliber taxonomy directly to avoid circular import issues
+import { getCaliberTaxonomy } from '@ironscout/db/caliber-taxonomy.js'
 
 /**
  * Ammunition Normalization Utilities
@@ -11,65 +13,8 @@ import crypto from 'crypto'
 // CALIBER NORMALIZATION
 // ============================================================================
 
-interface CaliberPattern {
-  pattern: RegExp
-  normalized: string
-  aliases?: string[]
-}
-
-const CALIBER_PATTERNS: CaliberPattern[] = [
-  // Pistol calibers
-  { pattern: /\b9\s?mm|9x19|9\s?luger\b/i, normalized: '9mm' },
-  { pattern: /(?:^|\s|\W)\.?\s?45\s?acp\b|45\s?acp\b/i, normalized: '.45 ACP' },
-  { pattern: /(?:^|\s|\W)\.?\s?40\s?s&w\b|40\s?s&w\b/i, normalized: '.40 S&W' },
-  { pattern: /(?:^|\s|\W)\.?\s?38\s?special\b|38\s?spl\b/i, normalized: '.38 Special' },
-  { pattern: /(?:^|\s|\W)\.?\s?357\s?mag\b|357\s?magnum\b/i, normalized: '.357 Magnum' },
-  { pattern: /(?:^|\s|\W)\.?\s?357\s?sig\b|357\s?sig\b/i, normalized: '.357 SIG' },
-  { pattern: /\b10\s?mm|10mm\s?auto\b/i, normalized: '10mm Auto' },
-  { pattern: /(?:^|\s|\W)\.?\s?380\s?acp\b|380\s?auto\b/i, normalized: '.380 ACP' },
-  { pattern: /(?:^|\s|\W)\.?\s?32\s?acp\b|32\s?auto\b/i, normalized: '.32 ACP' },
-  { pattern: /(?:^|\s|\W)\.?\s?25\s?acp\b|25\s?auto\b/i, normalized: '.25 ACP' },
-
-  // Rimfire calibers
-  { pattern: /(?:^|\s|\W)\.?\s?22\s?lr\b|22\s?long\s?rifle\b/i, normalized: '.22 LR' },
-  { pattern: /(?:^|\s|\W)\.?\s?22\s?wmr\b|22\s?win(?:chester)?\s?mag(?:num)?\b|22\s?magnum\b/i, normalized: '.22 WMR' },
-  { pattern: /(?:^|\s|\W)\.?\s?22\s?short\b/i, normalized: '.22 Short' },
-  { pattern: /(?:^|\s|\W)\.?\s?17\s?hmr\b|17\s?hornady\s?mag(?:num)?\b/i, normalized: '.17 HMR' },
-  { pattern: /(?:^|\s|\W)\.?\s?17\s?wsm\b|17\s?win(?:chester)?\s?super\s?mag\b/i, normalized: '.17 WSM' },
-  { pattern: /(?:^|\s|\W)\.?\s?22\s?hornet\b/i, normalized: '.22 Hornet' },
-
-  // Rifle calibers - 5.56/.223
-  { pattern: /\b5\.56(?:\s?mm)?(?:\s?nato)?\b|5\.56x45(?:mm)?\b/i, normalized: '5.56 NATO' },
-  { pattern: /(?:^|\s|\W)\.?\s?223\s?rem(?:ington)?\b/i, normalized: '.223 Remington' },
-
-  // Rifle calibers - 7.62
-  { pattern: /\b7\.62x39(?:mm)?\b/i, normalized: '7.62x39mm' },
-  { pattern: /\b7\.62\s?nato|7\.62x51|(?:^|\s|\W)\.?\s?308\s?win(?:chester)?\b/i, normalized: '.308 Winchester' },
-  { pattern: /\b7\.62x54r\b/i, normalized: '7.62x54R' },
-
-  // Rifle calibers - .30
-  { pattern: /(?:^|\s|\W)\.?\s?30-06\b|30-06\s?springfield\b/i, normalized: '.30-06 Springfield' },
-  { pattern: /(?:^|\s|\W)\.?\s?30\s?carbine\b|30\s?carbine\b/i, normalized: '.30 Carbine' },
-
-  // .300 variants (need context from name)
-  { pattern: /(?:^|\s|\W)\.?\s?300\s?(?:aac\s*)?blk\b|300\s?(?:aac\s*)?blackout\b/i, normalized: '.300 Blackout' },
-  { pattern: /(?:^|\s|\W)\.?\s?300\s?win\s?mag\b|300\s?winchester\s?mag\b/i, normalized: '.300 Winchester Magnum' },
-  { pattern: /(?:^|\s|\W)\.?\s?300\s?wby\b|300\s?weatherby\b/i, normalized: '.300 Weatherby' },
-
-  // Other rifle calibers
-  { pattern: /\b6\.5\s?creedmoor|6\.5\s?cm\b/i, normalized: '6.5 Creedmoor' },
-  { pattern: /\b6\.5\s?grendel\b/i, normalized: '6.5 Grendel' },
-  { pattern: /(?:^|\s|\W)\.?\s?270\s?win(?:chester)?\b/i, normalized: '.270 Winchester' },
-  { pattern: /(?:^|\s|\W)\.?\s?243\s?win(?:chester)?\b/i, normalized: '.243 Winchester' },
-  { pattern: /(?:^|\s|\W)\.?\s?50\s?bmg\b|50\s?bmg\b/i, normalized: '.50 BMG' },
-
-  // Shotgun gauges
-  { pattern: /\b12\s?ga|12\s?gauge\b/i, normalized: '12 Gauge' },
-  { pattern: /\b20\s?ga|20\s?gauge\b/i, normalized: '20 Gauge' },
-  { pattern: /\b16\s?ga|16\s?gauge\b/i, normalized: '16 Gauge' },
-  { pattern: /\b28\s?ga|28\s?gauge\b/i, normalized: '28 Gauge' },
-  { pattern: /\b\.410\s?bore|410\s?bore\b/i, normalized: '.410 Bore' },
-]
+// Title patterns, precedence and canonical names come from the shared caliber
+// taxonomy (@ironscout/db/caliber-taxonomy.js), refreshed by the worker.
 
 export function extractCaliber(productName: string): string | null {
   return normalizeCaliberString(productName)
@@ -77,15 +22,7 @@ export function extractCaliber(productName: string): string | null {
 
 export function normalizeCaliberString(value: string): string | null {
   if (!value) return null
-  const name = value.toLowerCase()
-
-  for (const { pattern, normalized } of CALIBER_PATTERNS) {
-    if (pattern.test(name)) {
-      return normalized
-    }
-  }
-
-  return null
+  return getCaliberTaxonomy().extract(value)
 }
 
 // ============================================================================
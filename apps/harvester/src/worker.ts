@@ -21,9 +21,10 @@ import {
   getHarvesterLogLevel,
   getHarvesterLogLevelOptional,
 } from '@ironscout/db'
+import { startCaliberTaxonomyRefresh } from '@ironscout/db/caliber-taxonomy.js'
 import { setLogLevel, type LogLevel, flushLogs } from '@ironscout/logger'
 import { warmupRedis } from './config/redis'
-import { initQueueSettings } from './config/queues'
+import { initQueueSettings, enqueueSuggestionIndexRefresh } from './config/queues'
 import { logger } from './config/logger'
 import { alerterWorker, delayedNotificationWorker } from './alerter'
 
@@ -31,6 +32,8 @@ import { alerterWorker, delayedNotificationWorker } from './alerter'
 import { retailerFeedIngestWorker } from './merchant/feed-ingest'
 // Note: sku-match, benchmark, insight workers removed for v1 (benchmark subsystem removed)
 import { startRetailerScheduler, stopRetailerScheduler } from './merchant/scheduler'
+import { isCredentialKeyConfigured } from './merchant/feed-credentials'
+import { encryptPlaintextFeedPasswords } from './ops/feed-secret-rotation'
 
 // Affiliate Feed Workers
 import { createAffiliateFeedWorker, createAffiliateFeedScheduler } from './affiliate'
@@ -49,6 +52,12 @@ import {
   stopEmbeddingWorker,
 } from './embedding/worker'
 
+// Search Suggestion Index Worker
+import {
+  startSuggestionIndexWorker,
+  stopSuggestionIndexWorker,
+} from './suggestions'
+
 // Quarantine Reprocess Worker
 import {
   startQuarantineReprocessWorker,
@@ -63,6 +72,17 @@ import {
   stopCurrentPriceScheduler,
 } from './currentprice'
 
+// Price History Rollup Worker
+import {
+  startPriceHistoryRollupWorker,
+  stopPriceHistoryRollupWorker,
+  startPriceHistoryScheduler,
+  stopPriceHistoryScheduler,
+} from './pricehistory'
+
+// Crawl Worker (HTML, JS_RENDERED, RSS, JSON sources)
+import { startCrawlWorker, stopCrawlWorker } from './crawl'
+
 import type { Worker } from 'bullmq'
 
 // Create affiliate workers (lazy initialization)
@@ -75,12 +95,21 @@ let resolverWorker: Worker | null = null
 // Embedding generation worker (lazy initialization)
 let embeddingWorker: Worker | null = null
 
+// Search suggestion index worker (lazy initialization)
+let suggestionIndexWorker: Worker | null = null
+
 // Quarantine reprocess worker (lazy initialization)
 let quarantineReprocessWorker: Worker | null = null
 
 // Current price recompute worker (ADR-015, lazy initialization)
 let currentPriceRecomputeWorker: Worker | null = null
 
+// Price history rollup worker (lazy initialization)
+let priceHistoryRollupWorker: Worker | null = null
+
+// Crawl worker (lazy initialization)
+let crawlWorker: Worker | null = null
+
 /**
  * Scheduler enabled flags (set during startup from database/env)
  *
@@ -98,6 +127,9 @@ const dbLog = logger.database
 
 // Log level polling interval handle
 let logLevelPollInterval: NodeJS.Timeout | null = null
+
+// Caliber taxonomy refresh (title extraction reads the shared taxonomy)
+let stopCaliberTaxonomyRefresh: (() => void) | null = null
 const LOG_LEVEL_POLL_MS = 30_000 // Check every 30 seconds
 
 /**
@@ -194,8 +226,11 @@ log.info('Starting IronScout.ai Harvester Workers', {
     'alerter',
     'resolver',
     'embedding',
+    'suggestion-index',
     'quarantine-reprocess',
     'current-price-recompute',
+    'price-history-rollup',
+    'crawl',
   ],
   retailerWorkers: [
     'feed-ingest',
@@ -227,6 +262,23 @@ async function startup() {
   // Initialize queue history settings from database
   await initQueueSettings()
 
+  // Encrypt legacy plaintext feed passwords; feed ingest refuses them once a key is set
+  if (isCredentialKeyConfigured()) {
+    try {
+      await encryptPlaintextFeedPasswords()
+    } catch (error) {
+      log.error('Failed to encrypt plaintext feed passwords', {}, error as Error)
+    }
+  } else {
+    log.warn('Credential key not configured - plaintext feed passwords are not encrypted')
+  }
+
+  // Load the published caliber taxonomy before any extraction runs (built-in until then)
+  stopCaliberTaxonomyRefresh = await startCaliberTaxonomyRefresh(prisma, {
+    onRefresh: (taxonomy) => log.info('Caliber taxonomy loaded', { version: taxonomy.version }),
+    onError: (error) => log.warn('Caliber taxonomy refresh failed', { error: error instanceof Error ? error.message : String(error) }),
+  })
+
   // Check scheduler settings from database (with env var fallback)
   harvesterSchedulerEnabled = await isHarvesterSchedulerEnabled()
   affiliateSchedulerEnabled = await isAffiliateSchedulerEnabled()
@@ -253,6 +305,12 @@ async function startup() {
   log.info('Starting embedding generation worker')
   embeddingWorker = await startEmbeddingWorker({ concurrency: 3 })
 
+  // Start search suggestion index worker and rebuild the index once, so a
+  // fresh Redis has autocomplete before the next resolver run
+  log.info('Starting search suggestion index worker')
+  suggestionIndexWorker = await startSuggestionIndexWorker()
+  await enqueueSuggestionIndexRefresh('STARTUP')
+
   // Start quarantine reprocess worker (always on - processes admin-triggered reprocessing)
   log.info('Starting quarantine reprocess worker')
   quarantineReprocessWorker = await startQuarantineReprocessWorker({ concurrency: 10 })
@@ -261,6 +319,14 @@ async function startup() {
   log.info('Starting current price recompute worker')
   currentPriceRecomputeWorker = await startCurrentPriceRecomputeWorker({ concurrency: 5 })
 
+  // Start price history rollup worker (always on - processes scheduled and manual rollups)
+  log.info('Starting price history rollup worker')
+  priceHistoryRollupWorker = await startPriceHistoryRollupWorker()
+
+  // Start crawl worker (always on - processes executions from POST /api/harvester/trigger)
+  log.info('Starting crawl worker')
+  crawlWorker = await startCrawlWorker()
+
   // Start stuck PROCESSING sweeper (recovers jobs that crash mid-processing)
   log.info('Starting product resolver sweeper')
   startProcessingSweeper()
@@ -274,6 +340,9 @@ async function startup() {
     // Per ADR-001: Only one scheduler instance should run
     log.info('Starting current price recompute scheduler')
     startCurrentPriceScheduler()
+
+    log.info('Starting price history rollup scheduler')
+    startPriceHistoryScheduler()
   }
 
   // Start affiliate feed scheduler only if enabled
@@ -303,8 +372,9 @@ const shutdown = async (signal: string) => {
   log.info('Starting graceful shutdown', { signal })
 
   try {
-    // 0. Stop log level polling
+    // 0. Stop log level polling and caliber taxonomy refresh
     stopLogLevelPolling()
+    stopCaliberTaxonomyRefresh?.()
 
     // 1. Stop scheduling new jobs (if scheduler was enabled)
     if (harvesterSchedulerEnabled) {
@@ -313,6 +383,9 @@ const shutdown = async (signal: string) => {
 
       log.info('Stopping current price recompute scheduler')
       stopCurrentPriceScheduler()
+
+      log.info('Stopping price history rollup scheduler')
+      stopPriceHistoryScheduler()
     }
 
     // 2. Close workers (waits for current jobs to complete)
@@ -332,10 +405,16 @@ const shutdown = async (signal: string) => {
       })(),
       // Embedding generation worker
       stopEmbeddingWorker(),
+      // Search suggestion index worker
+      stopSuggestionIndexWorker(),
       // Quarantine reprocess worker
       stopQuarantineReprocessWorker(),
       // Current price recompute worker (ADR-015)
       stopCurrentPriceRecomputeWorker(),
+      // Price history rollup worker
+      stopPriceHistoryRollupWorker(),
+      // Crawl worker
+      stopCrawlWorker(),
     ])
     log.info('All workers closed')
 
@@ -14,7 +14,7 @@ interface FeedFormData {
 }
 
 interface FeedConfigFormProps {
-  initialData?: FeedFormData & { id?: string };
+  initialData?: FeedFormData & { id?: string; hasPassword?: boolean };
   onSuccess?: () => void;
 }
 
@@ -23,8 +23,8 @@ const ACCESS_TYPE_OPTIONS: { value: FeedAccessType; label: string; description:
   { value: 'AUTH_URL', label: 'Authenticated URL', description: 'URL requiring Basic Auth credentials' },
   { value: 'FTP', label: 'FTP', description: 'FTP server with credentials' },
   { value: 'SFTP', label: 'SFTP', description: 'Secure FTP server with credentials' },
-  // TODO: Manual upload feature - implement file upload handler
-  // { value: 'UPLOAD', label: 'Manual Upload', description: 'Upload CSV/XML files manually' },
+  { value: 'UPLOAD', label: 'Manual Upload', description: 'Upload CSV/XML/JSON files from this page' },
+  { value: 'PUSH', label: 'API Push', description: 'Send inventory updates from your systems with an API key' },
 ];
 
 const FORMAT_TYPE_OPTIONS: { value: FeedFormatType; label: string; description: string }[] = [
@@ -59,6 +59,11 @@ export function FeedConfigForm({ initialData, onSuccess }: FeedConfigFormProps)
   });
 
   const needsAuth = ['AUTH_URL', 'FTP', 'SFTP'].includes(formData.accessType);
+  // Uploaded feeds have no remote source and are ingested when a file arrives
+  const isUpload = formData.accessType === 'UPLOAD';
+  // Push feeds receive records through the inventory API
+  const isPush = formData.accessType === 'PUSH';
+  const hasNoSource = isUpload || isPush;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -112,6 +117,7 @@ export function FeedConfigForm({ initialData, onSuccess }: FeedConfigFormProps)
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
+          url: hasNoSource ? null : formData.url,
           id: initialData?.id,
         }),
       });
@@ -213,26 +219,28 @@ export function FeedConfigForm({ initialData, onSuccess }: FeedConfigFormProps)
       </div>
 
       {/* URL */}
-      <div>
-        <label htmlFor="url" className="block text-sm font-medium text-gray-700">
-          Feed URL
-        </label>
-        <input
-          type="url"
-          id="url"
-          name="url"
-          required
-          value={formData.url}
-          onChange={handleChange}
-          data-testid="feed-url-input"
-          placeholder={
-            formData.accessType === 'FTP' || formData.accessType === 'SFTP'
-              ? 'ftp://example.com/feeds/products.csv'
-              : 'https://example.com/feed.csv'
-          }
-          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
-        />
-      </div>
+      {!hasNoSource && (
+        <div>
+          <label htmlFor="url" className="block text-sm font-medium text-gray-700">
+            Feed URL
+          </label>
+          <input
+            type="url"
+            id="url"
+            name="url"
+            required
+            value={formData.url}
+            onChange={handleChange}
+            data-testid="feed-url-input"
+            placeholder={
+              formData.accessType === 'FTP' || formData.accessType === 'SFTP'
+                ? 'ftp://example.com/feeds/products.csv'
+                : 'https://example.com/feed.csv'
+            }
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+          />
+        </div>
+      )}
 
       {/* Auth Fields */}
       {needsAuth && (
@@ -260,34 +268,53 @@ export function FeedConfigForm({ initialData, onSuccess }: FeedConfigFormProps)
               name="password"
               value={formData.password}
               onChange={handleChange}
+              placeholder={initialData?.hasPassword ? '••••••••' : undefined}
               className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
             />
+            {initialData?.hasPassword && (
+              <p className="mt-1 text-xs text-gray-500">Leave blank to keep the saved password.</p>
+            )}
           </div>
         </div>
       )}
 
       {/* Schedule */}
-      <div>
-        <label htmlFor="scheduleMinutes" className="block text-sm font-medium text-gray-700">
-          Update Schedule
-        </label>
-        <select
-          id="scheduleMinutes"
-          name="scheduleMinutes"
-          value={formData.scheduleMinutes}
-          onChange={handleChange}
-          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
-        >
-          {SCHEDULE_OPTIONS.map((option) => (
-            <option key={option.value} value={option.value}>
-              {option.label}
-            </option>
-          ))}
-        </select>
-        <p className="mt-1 text-xs text-gray-500">
-          How often we should fetch your product feed
+      {!hasNoSource && (
+        <div>
+          <label htmlFor="scheduleMinutes" className="block text-sm font-medium text-gray-700">
+            Update Schedule
+          </label>
+          <select
+            id="scheduleMinutes"
+            name="scheduleMinutes"
+            value={formData.scheduleMinutes}
+            onChange={handleChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+          >
+            {SCHEDULE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            How often we should fetch your product feed
+          </p>
+        </div>
+      )}
+
+      {isUpload && (
+        <p className="text-sm text-gray-500">
+          Save the feed, then upload your file below. Each upload is imported right away.
         </p>
-      </div>
+      )}
+
+      {isPush && (
+        <p className="text-sm text-gray-500">
+          Save the feed, then create an API key under Settings &rarr; API Keys and POST batches
+          of records to <code>/api/v1/inventory</code>.
+        </p>
+      )}
 
       {/* Test Result */}
       {testResult && (
@@ -300,15 +327,17 @@ export function FeedConfigForm({ initialData, onSuccess }: FeedConfigFormProps)
 
       {/* Actions */}
       <div className="flex items-center justify-between pt-4 border-t">
-        <button
-          type="button"
-          onClick={handleTest}
-          disabled={isTesting || !formData.url}
-          data-testid="feed-test-connection"
-          className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isTesting ? 'Testing...' : 'Test Connection'}
-        </button>
+        {hasNoSource ? <span /> : (
+          <button
+            type="button"
+            onClick={handleTest}
+            disabled={isTesting || !formData.url}
+            data-testid="feed-test-connection"
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isTesting ? 'Testing...' : 'Test Connection'}
+          </button>
+        )}
 
         <button
           type="submit"
@@ -16,9 +16,11 @@ interface FeedStatusActionsProps {
   feedId: string;
   enabled: boolean;
   status: FeedStatus;
+  /** Push feeds have nothing to fetch, so they can't be run on demand */
+  canRunNow?: boolean;
 }
 
-export function FeedStatusActions({ feedId, enabled, status }: FeedStatusActionsProps) {
+export function FeedStatusActions({ feedId, enabled, status, canRunNow = true }: FeedStatusActionsProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -92,14 +94,16 @@ export function FeedStatusActions({ feedId, enabled, status }: FeedStatusActions
               {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Pause className="h-4 w-4" />}
               Pause
             </button>
-            <button
-              onClick={handleRunNow}
-              disabled={isLoading}
-              className="inline-flex items-center gap-1 rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
-            >
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-              Run Now
-            </button>
+            {canRunNow && (
+              <button
+                onClick={handleRunNow}
+                disabled={isLoading}
+                className="inline-flex items-center gap-1 rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                Run Now
+              </button>
+            )}
           </>
         )}
 
@@ -0,0 +1,237 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Upload, Loader2, CheckCircle, XCircle, FileText } from 'lucide-react';
+
+interface FeedUpload {
+  id: string;
+  filename: string;
+  sizeBytes: number;
+  status: 'UPLOADING' | 'COMPLETE' | 'EXPIRED';
+  createdAt: Date;
+}
+
+interface FeedUploadPanelProps {
+  recentUploads: FeedUpload[];
+  maxBytes: number;
+}
+
+const ACCEPTED_EXTENSIONS = '.csv,.tsv,.txt,.xml,.json';
+const CHUNK_ATTEMPTS = 3;
+
+const uploadStatusLabel = {
+  UPLOADING: 'Incomplete',
+  COMPLETE: 'Imported',
+  EXPIRED: 'Expired',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function FeedUploadPanel({ recentUploads, maxBytes }: FeedUploadPanelProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<{ filename: string; percent: number } | null>(null);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const putChunk = async (uploadId: string, index: number, chunk: Blob) => {
+    let lastError = 'Chunk upload failed';
+    for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+      try {
+        const res = await fetch(`/api/feed/upload/${uploadId}?index=${index}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: chunk,
+        });
+        if (res.ok) return;
+        lastError = await readError(res, lastError);
+        // Client errors will not succeed on retry
+        if (res.status < 500) break;
+      } catch {
+        lastError = 'Network error while uploading';
+      }
+    }
+    throw new Error(lastError);
+  };
+
+  const uploadFile = async (file: File) => {
+    setResult(null);
+
+    if (file.size === 0) {
+      setResult({ success: false, message: 'The selected file is empty' });
+      return;
+    }
+    if (file.size > maxBytes) {
+      setResult({ success: false, message: `File is too large (max ${formatBytes(maxBytes)})` });
+      return;
+    }
+
+    setProgress({ filename: file.name, percent: 0 });
+
+    try {
+      const startRes = await fetch('/api/feed/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filename: file.name,
+          sizeBytes: file.size,
+          contentType: file.type || null,
+          sha256: await sha256Hex(file),
+        }),
+      });
+      if (!startRes.ok) {
+        throw new Error(await readError(startRes, 'Failed to start upload'));
+      }
+
+      const { upload } = await startRes.json() as {
+        upload: { id: string; chunkBytes: number; chunkCount: number };
+      };
+
+      for (let index = 0; index < upload.chunkCount; index++) {
+        const start = index * upload.chunkBytes;
+        await putChunk(upload.id, index, file.slice(start, start + upload.chunkBytes));
+        setProgress({ filename: file.name, percent: Math.round(((index + 1) / upload.chunkCount) * 100) });
+      }
+
+      const completeRes = await fetch(`/api/feed/upload/${upload.id}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!completeRes.ok) {
+        throw new Error(await readError(completeRes, 'Failed to finish upload'));
+      }
+
+      setResult({ success: true, message: `${file.name} uploaded. Your catalog will update shortly.` });
+      router.refresh();
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Upload failed',
+      });
+    } finally {
+      setProgress(null);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !progress) void uploadFile(file);
+  };
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) void uploadFile(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        data-testid="feed-upload-dropzone"
+        className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 text-center ${
+          isDragging ? 'border-gray-900 bg-gray-50' : 'border-gray-300'
+        }`}
+      >
+        {progress ? (
+          <div className="w-full max-w-sm">
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-700">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Uploading {progress.filename}... {progress.percent}%
+            </div>
+            <div className="mt-3 h-2 w-full rounded-full bg-gray-200">
+              <div
+                className="h-2 rounded-full bg-gray-900 transition-all"
+                style={{ width: `${progress.percent}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <>
+            <Upload className="h-8 w-8 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-700">
+              Drag your feed file here, or{' '}
+              <button
+                type="button"
+                onClick={() => inputRef.current?.click()}
+                className="font-medium text-gray-900 underline"
+              >
+                browse
+              </button>
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              CSV, TSV, XML or JSON up to {formatBytes(maxBytes)}
+            </p>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS}
+          onChange={handleSelect}
+          data-testid="feed-upload-input"
+          className="sr-only"
+        />
+      </div>
+
+      {result && (
+        <div className={`flex items-center gap-2 rounded-md p-4 ${result.success ? 'bg-green-50' : 'bg-red-50'}`}>
+          {result.success ? (
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          ) : (
+            <XCircle className="h-4 w-4 text-red-600" />
+          )}
+          <p className={`text-sm ${result.success ? 'text-green-700' : 'text-red-700'}`}>
+            {result.message}
+          </p>
+        </div>
+      )}
+
+      {recentUploads.length > 0 && (
+        <ul className="divide-y divide-gray-200" data-testid="feed-upload-history">
+          {recentUploads.map((upload) => (
+            <li key={upload.id} className="flex items-center justify-between py-2 text-sm">
+              <span className="flex items-center gap-2 text-gray-900">
+                <FileText className="h-4 w-4 text-gray-400" />
+                {upload.filename}
+                <span className="text-gray-500">({formatBytes(upload.sizeBytes)})</span>
+              </span>
+              <span className="text-gray-500">
+                {uploadStatusLabel[upload.status]} &middot; {new Date(upload.createdAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -9,12 +9,16 @@ import {
   XCircle,
   Clock,
   RefreshCw,
+  Upload,
   AlertOctagon,
   PauseCircle,
 } from 'lucide-react';
 import { FeedConfigForm } from './feed-config-form';
 import { FeedRunsTable } from './feed-runs-table';
 import { FeedStatusActions } from './feed-status-actions';
+import { FeedUploadPanel } from './feed-upload-panel';
+import { getFeedUploadMaxBytes } from '@/lib/feed-uploads';
+import { maskFeedSecrets } from '@/lib/feed-credentials';
 
 export default async function FeedPage() {
   const session = await getSession();
@@ -28,11 +32,11 @@ export default async function FeedPage() {
 
   let feed: {
     id: string;
-    accessType: 'URL' | 'AUTH_URL' | 'FTP' | 'SFTP' | 'UPLOAD';
+    accessType: 'URL' | 'AUTH_URL' | 'FTP' | 'SFTP' | 'UPLOAD' | 'PUSH';
     formatType: 'GENERIC' | 'AMMOSEEK_V1' | 'GUNENGINE_V2' | 'IMPACT';
     url: string | null;
     username: string | null;
-    password: string | null;
+    hasCredentials: boolean;
     scheduleMinutes: number;
     status: 'PENDING' | 'HEALTHY' | 'WARNING' | 'FAILED';
     enabled: boolean;
@@ -50,6 +54,13 @@ export default async function FeedPage() {
     rejectedCount: number;
   }> = [];
   let quarantineCount = 0;
+  let recentUploads: Array<{
+    id: string;
+    filename: string;
+    sizeBytes: number;
+    status: 'UPLOADING' | 'COMPLETE' | 'EXPIRED';
+    createdAt: Date;
+  }> = [];
 
   if (isE2E) {
     feed = {
@@ -58,7 +69,7 @@ export default async function FeedPage() {
       formatType: 'AMMOSEEK_V1',
       url: 'https://e2e.example/feed.csv',
       username: null,
-      password: null,
+      hasCredentials: false,
       scheduleMinutes: 60,
       status: 'HEALTHY',
       enabled: true,
@@ -104,9 +115,18 @@ export default async function FeedPage() {
       }) : Promise.resolve(0),
     ]);
 
-    feed = feedRow;
+    feed = feedRow && maskFeedSecrets(feedRow);
     recentRuns = runRows;
     quarantineCount = quarantine;
+
+    if (feed?.accessType === 'UPLOAD') {
+      recentUploads = await prisma.retailer_feed_uploads.findMany({
+        where: { feedId: feed.id },
+        orderBy: { createdAt: 'desc' },
+        take: 5,
+        select: { id: true, filename: true, sizeBytes: true, status: true, createdAt: true },
+      });
+    }
   }
 
   // Status configuration matching affiliate feeds pattern
@@ -146,7 +166,12 @@ export default async function FeedPage() {
         </div>
 
         {feed && (
-          <FeedStatusActions feedId={feed.id} enabled={feed.enabled} status={feed.status} />
+          <FeedStatusActions
+            feedId={feed.id}
+            enabled={feed.enabled}
+            status={feed.status}
+            canRunNow={feed.accessType !== 'PUSH'}
+          />
         )}
       </div>
 
@@ -216,13 +241,28 @@ export default async function FeedPage() {
               formatType: feed.formatType,
               url: feed.url || '',
               username: feed.username || '',
-              password: '', // Don't expose password
+              password: '', // Never sent back; hasPassword drives the placeholder
+              hasPassword: feed.hasCredentials,
               scheduleMinutes: feed.scheduleMinutes,
             } : undefined}
           />
         </div>
       </div>
 
+      {/* File Upload */}
+      {feed?.accessType === 'UPLOAD' && (
+        <div className="rounded-lg bg-white shadow">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-base font-semibold leading-6 text-gray-900 mb-4 flex items-center gap-2">
+              <Upload className="h-5 w-5 text-gray-400" />
+              Upload Feed File
+            </h3>
+
+            <FeedUploadPanel recentUploads={recentUploads} maxBytes={getFeedUploadMaxBytes()} />
+          </div>
+        </div>
+      )}
+
       {/* Recent Runs */}
       {recentRuns.length > 0 && (
         <div className="rounded-lg bg-white shadow">
@@ -0,0 +1,105 @@
+'use server';
+
+import { prisma } from '@ironscout/db';
+import { revalidatePath } from 'next/cache';
+import { getSession, canEditSettings, canManageTeam } from '@/lib/auth';
+import { generateApiKey, listPushableRetailers } from '@/lib/api-keys';
+import { loggers } from '@/lib/logger';
+
+export async function createApiKey(name: string) {
+  const session = await getSession();
+
+  if (!session || session.type !== 'merchant') {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  if (!canEditSettings(session)) {
+    return { success: false, error: 'You do not have permission to create API keys' };
+  }
+
+  const trimmedName = name.trim();
+  if (!trimmedName || trimmedName.length > 100) {
+    return { success: false, error: 'Name must be between 1 and 100 characters' };
+  }
+
+  try {
+    // The key can push for the retailers its creator can push for today
+    const retailers = await listPushableRetailers(session);
+    if (retailers.length === 0) {
+      return { success: false, error: 'You need editor access to a retailer to create an API key' };
+    }
+
+    const { key, keyPrefix, keyHash } = generateApiKey();
+
+    await prisma.merchant_api_keys.create({
+      data: {
+        merchantId: session.merchantId,
+        merchantUserId: session.merchantUserId,
+        name: trimmedName,
+        keyPrefix,
+        keyHash,
+        merchant_api_key_retailers: {
+          create: retailers.map(r => ({ merchantRetailerId: r.merchantRetailerId })),
+        },
+      },
+    });
+
+    loggers.settings.info('API key created', {
+      merchantId: session.merchantId,
+      merchantUserId: session.merchantUserId,
+      keyPrefix,
+      retailerIds: retailers.map(r => r.retailerId),
+    });
+
+    revalidatePath('/settings/api-keys');
+
+    // The full key is only ever returned here
+    return { success: true, key };
+  } catch (error) {
+    loggers.settings.error('Failed to create API key', {}, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to create API key' };
+  }
+}
+
+export async function revokeApiKey(apiKeyId: string) {
+  const session = await getSession();
+
+  if (!session || session.type !== 'merchant') {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const apiKey = await prisma.merchant_api_keys.findFirst({
+      where: { id: apiKeyId, merchantId: session.merchantId },
+    });
+
+    if (!apiKey) {
+      return { success: false, error: 'API key not found' };
+    }
+
+    // Users revoke their own keys; owners and admins can revoke any key
+    if (apiKey.merchantUserId !== session.merchantUserId && !canManageTeam(session)) {
+      return { success: false, error: 'You do not have permission to revoke this API key' };
+    }
+
+    if (!apiKey.revokedAt) {
+      await prisma.merchant_api_keys.update({
+        where: { id: apiKey.id },
+        data: { revokedAt: new Date() },
+      });
+
+      loggers.settings.info('API key revoked', {
+        merchantId: session.merchantId,
+        merchantUserId: session.merchantUserId,
+        keyPrefix: apiKey.keyPrefix,
+      });
+    }
+
+    revalidatePath('/settings/api-keys');
+
+    return { success: true };
+  } catch (error) {
+    loggers.settings.error('Failed to revoke API key', {}, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to revoke API key' };
+  }
+}
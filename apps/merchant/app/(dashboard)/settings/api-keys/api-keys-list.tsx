@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Trash2, Loader2, KeyRound, Copy, Check } from 'lucide-react';
+import { createApiKey, revokeApiKey } from './actions';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  /** Names of the retailers the key can push for */
+  retailers: string[];
+  canRevoke: boolean;
+}
+
+interface ApiKeysListProps {
+  apiKeys: ApiKey[];
+  canCreate: boolean;
+}
+
+export function ApiKeysList({ apiKeys, canCreate }: ApiKeysListProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setNewKey(null);
+
+    const result = await createApiKey(name);
+
+    if (result.success && result.key) {
+      setNewKey(result.key);
+      setCopied(false);
+      setName('');
+      router.refresh();
+    } else {
+      setError(result.error || 'Failed to create API key');
+    }
+    setIsLoading(false);
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Integrations using this key will stop working.`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const result = await revokeApiKey(apiKey.id);
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error || 'Failed to revoke API key');
+    }
+    setIsLoading(false);
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Your API Keys</h2>
+
+        {canCreate && (
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Key name, e.g. POS sync"
+              maxLength={100}
+              required
+              className="block w-full max-w-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Create Key
+            </button>
+          </form>
+        )}
+
+        {newKey && (
+          <div className="rounded-md bg-green-50 p-4" data-testid="api-key-created">
+            <p className="text-sm font-medium text-green-800">
+              Copy your new key now. It will not be shown again.
+            </p>
+            <div className="mt-2 flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-2 py-1 text-sm text-gray-900">
+                {newKey}
+              </code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="p-1.5 text-green-700 hover:text-green-900 rounded"
+                title="Copy key"
+              >
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No API keys yet
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200" data-testid="api-keys-list">
+            {apiKeys.map((apiKey) => (
+              <li key={apiKey.id} className="flex items-center justify-between py-3">
+                <div className="flex items-start gap-3">
+                  <KeyRound className={`h-5 w-5 mt-0.5 ${apiKey.revokedAt ? 'text-gray-300' : 'text-gray-400'}`} />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className={`font-medium ${apiKey.revokedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        {apiKey.name}
+                      </span>
+                      <code className="text-xs text-gray-500">{apiKey.keyPrefix}&hellip;</code>
+                      {apiKey.revokedAt && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                          Revoked
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Created by {apiKey.createdBy} on {new Date(apiKey.createdAt).toLocaleDateString()}
+                      {' '}&middot;{' '}
+                      {apiKey.lastUsedAt
+                        ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                        : 'Never used'}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Retailers: {apiKey.retailers.length > 0 ? apiKey.retailers.join(', ') : 'None'}
+                    </p>
+                  </div>
+                </div>
+                {apiKey.canRevoke && !apiKey.revokedAt && (
+                  <button
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={isLoading}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded"
+                    title="Revoke key"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
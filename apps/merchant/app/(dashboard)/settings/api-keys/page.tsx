@@ -0,0 +1,79 @@
+import { getSession, canEditSettings, canManageTeam } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { prisma } from '@ironscout/db';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { ApiKeysList } from './api-keys-list';
+
+export default async function ApiKeysPage() {
+  const session = await getSession();
+
+  if (!session || session.type !== 'merchant') {
+    redirect('/login');
+  }
+
+  // Owners and admins see every key on the account; others see their own
+  const canManageAll = canManageTeam(session);
+
+  const apiKeys = await prisma.merchant_api_keys.findMany({
+    where: {
+      merchantId: session.merchantId,
+      ...(canManageAll ? {} : { merchantUserId: session.merchantUserId }),
+    },
+    include: {
+      merchant_users: { select: { name: true } },
+      merchant_api_key_retailers: {
+        select: { merchant_retailers: { select: { retailers: { select: { name: true } } } } },
+      },
+    },
+    orderBy: [
+      { revokedAt: { sort: 'desc', nulls: 'first' } },
+      { createdAt: 'desc' },
+    ],
+  });
+
+  // Serialize keys to plain objects for client component
+  const keys = apiKeys.map(apiKey => ({
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    createdBy: apiKey.merchant_users?.name ?? 'Removed user',
+    createdAt: apiKey.createdAt.toISOString(),
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    retailers: apiKey.merchant_api_key_retailers.map(r => r.merchant_retailers.retailers.name),
+    canRevoke: canManageAll || apiKey.merchantUserId === session.merchantUserId,
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Back link */}
+      <Link
+        href="/settings"
+        className="inline-flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Settings
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Push inventory updates to IronScout from your own systems
+        </p>
+      </div>
+
+      {/* Info Banner */}
+      <div className="rounded-lg bg-blue-50 p-4">
+        <p className="text-sm text-blue-700">
+          <strong>Note:</strong> A key can push inventory for the retailers you can edit when you create
+          it, and keeps that access if you later leave the account. Send it as <code>Authorization: Bearer &lt;key&gt;</code> with
+          POST requests to <code>/api/v1/inventory</code>.
+        </p>
+      </div>
+
+      <ApiKeysList apiKeys={keys} canCreate={canEditSettings(session)} />
+    </div>
+  );
+}
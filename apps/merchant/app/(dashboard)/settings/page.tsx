@@ -1,7 +1,7 @@
 import { getSession } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@ironscout/db';
-import { Settings, User, Code, Bell, Truck, Users, CreditCard } from 'lucide-react';
+import { Settings, User, Code, Bell, Truck, Users, CreditCard, KeyRound } from 'lucide-react';
 import Link from 'next/link';
 
 export default async function SettingsPage() {
@@ -16,11 +16,22 @@ export default async function SettingsPage() {
     include: {
       merchant_notification_prefs: true,
       _count: {
-        select: { merchant_contacts: { where: { isActive: true } } },
+        select: {
+          merchant_contacts: { where: { isActive: true } },
+          merchant_api_keys: { where: { revokedAt: null } },
+        },
       },
     },
   });
 
+  // Shipping is configured per retailer (retailer_shipping_rules)
+  const shippingRuleCount = await prisma.retailer_shipping_rules.count({
+    where: {
+      shippingType: { not: 'UNKNOWN' },
+      retailers: { merchant_retailers: { some: { merchantId: session.merchantId, status: 'ACTIVE' } } },
+    },
+  });
+
   if (!merchant) {
     redirect('/login');
   }
@@ -61,7 +72,7 @@ export default async function SettingsPage() {
       description: 'Configure your shipping rates for accurate price comparisons',
       icon: Truck,
       href: '/settings/shipping',
-      status: merchant.shippingType === 'UNKNOWN' ? 'Not Set' : 'Complete',
+      status: shippingRuleCount > 0 ? 'Complete' : 'Not Set',
     },
     {
       title: 'Pixel Setup',
@@ -70,6 +81,13 @@ export default async function SettingsPage() {
       href: '/settings/pixel',
       status: merchant.pixelEnabled ? 'Active' : 'Not Set',
     },
+    {
+      title: 'API Keys',
+      description: 'Push inventory updates from your own systems',
+      icon: KeyRound,
+      href: '/settings/api-keys',
+      status: merchant._count.merchant_api_keys > 0 ? 'Active' : 'Not Set',
+    },
     {
       title: 'Notifications',
       description: 'Configure email alerts and weekly reports',
@@ -0,0 +1,73 @@
+'use server';
+
+import { prisma } from '@ironscout/db';
+import type { ShippingType } from '@ironscout/db/generated/prisma';
+import { validateShippingRuleInput } from '@ironscout/db/landed-cost.js';
+import { revalidatePath } from 'next/cache';
+import { getSession, requireRetailerContext, requireRetailerPermission, RetailerContextError } from '@/lib/auth';
+import { loggers } from '@/lib/logger';
+
+export interface ShippingRuleData {
+  shippingType: ShippingType;
+  flatRate: number | null;
+  perUnitRate: number | null;
+  freeShippingMinimum: number | null;
+  stateSurcharges: Record<string, number>;
+  notes: string | null;
+}
+
+/**
+ * Create or replace the shipping rule for one of the merchant's retailers.
+ * Used to compute delivered prices in consumer search and price check.
+ */
+export async function updateShippingRule(retailerId: string, data: ShippingRuleData) {
+  const session = await getSession();
+
+  if (!session || session.type !== 'merchant') {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const errors = validateShippingRuleInput(data);
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('; ') };
+  }
+
+  try {
+    // Verify the retailer belongs to this merchant and the user may edit it
+    const retailerContext = await requireRetailerContext(session, retailerId);
+    requireRetailerPermission(retailerContext, 'ADMIN', 'edit shipping rules');
+
+    const ruleData = {
+      shippingType: data.shippingType,
+      flatRate: data.flatRate,
+      perUnitRate: data.perUnitRate,
+      freeShippingMinimum: data.freeShippingMinimum,
+      stateSurcharges: data.stateSurcharges,
+      notes: data.notes?.trim() || null,
+      updatedBy: session.email,
+    };
+
+    await prisma.retailer_shipping_rules.upsert({
+      where: { retailerId: retailerContext.retailerId },
+      create: { retailerId: retailerContext.retailerId, ...ruleData },
+      update: ruleData,
+    });
+
+    loggers.settings.info('Shipping rule updated', {
+      merchantId: session.merchantId,
+      retailerId: retailerContext.retailerId,
+      shippingType: data.shippingType,
+    });
+
+    revalidatePath('/settings/shipping');
+    revalidatePath('/settings');
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof RetailerContextError) {
+      return { success: false, error: error.message };
+    }
+    loggers.settings.error('Failed to update shipping rule', {}, error instanceof Error ? error : new Error(String(error)));
+    return { success: false, error: 'Failed to update shipping rule' };
+  }
+}
@@ -0,0 +1,109 @@
+import { getSession } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { prisma } from '@ironscout/db';
+import { toShippingRule } from '@ironscout/db/landed-cost.js';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { ShippingRuleForm } from './shipping-rule-form';
+
+export default async function ShippingSettingsPage() {
+  const session = await getSession();
+
+  if (!session || session.type !== 'merchant') {
+    redirect('/login');
+  }
+
+  const isMerchantAdmin = session.role === 'OWNER' || session.role === 'ADMIN';
+
+  // Active retailers this user can see; non-admins only see assigned retailers
+  const merchantRetailers = await prisma.merchant_retailers.findMany({
+    where: {
+      merchantId: session.merchantId,
+      status: 'ACTIVE',
+      ...(isMerchantAdmin
+        ? {}
+        : { merchant_user_retailers: { some: { merchantUserId: session.merchantUserId } } }),
+    },
+    include: {
+      retailers: {
+        select: { id: true, name: true, shipping_rule: true },
+      },
+      merchant_user_retailers: {
+        where: { merchantUserId: session.merchantUserId },
+        select: { role: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // Serialize rules to plain objects for client component
+  const retailers = merchantRetailers.map((link) => {
+    const rule = link.retailers.shipping_rule;
+    return {
+      id: link.retailers.id,
+      name: link.retailers.name,
+      canManage: isMerchantAdmin || link.merchant_user_retailers[0]?.role === 'ADMIN',
+      rule: rule
+        ? {
+            ...toShippingRule(rule),
+            notes: rule.notes,
+            updatedAt: rule.updatedAt.toISOString(),
+          }
+        : null,
+    };
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Back link */}
+      <Link
+        href="/settings"
+        className="inline-flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Settings
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Shipping</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Configure your shipping rates for accurate price comparisons
+        </p>
+      </div>
+
+      {/* Info Banner */}
+      <div className="rounded-lg bg-blue-50 p-4">
+        <p className="text-sm text-blue-700">
+          <strong>Note:</strong> Shoppers can compare offers on delivered price (item + shipping).
+          Without a rate here we use the shipping listed in your feed, and offers with unknown
+          shipping rank after offers with known delivered prices.
+        </p>
+      </div>
+
+      {retailers.length === 0 ? (
+        <div className="rounded-lg bg-white p-6 text-sm text-gray-500 shadow">
+          No active retailers are linked to your account.
+        </div>
+      ) : (
+        retailers.map((retailer) => (
+          <ShippingRuleForm
+            key={retailer.id}
+            retailerId={retailer.id}
+            retailerName={retailer.name}
+            rule={retailer.rule}
+            canManage={retailer.canManage}
+          />
+        ))
+      )}
+
+      {retailers.some((retailer) => !retailer.canManage) && (
+        <div className="rounded-lg bg-yellow-50 p-4">
+          <p className="text-sm text-yellow-700">
+            Only account owners, admins and retailer admins can change shipping rates.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
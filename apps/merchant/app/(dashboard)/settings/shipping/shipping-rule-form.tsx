@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Check } from 'lucide-react';
+import type { ShippingType } from '@ironscout/db/generated/prisma';
+import { updateShippingRule } from './actions';
+
+export interface ShippingRuleValues {
+  shippingType: ShippingType;
+  flatRate: number | null;
+  perUnitRate: number | null;
+  freeShippingMinimum: number | null;
+  stateSurcharges: Record<string, number>;
+  notes: string | null;
+  updatedAt: string;
+}
+
+interface ShippingRuleFormProps {
+  retailerId: string;
+  retailerName: string;
+  rule: ShippingRuleValues | null;
+  canManage: boolean;
+}
+
+const SHIPPING_TYPE_OPTIONS: { value: ShippingType; label: string; description: string }[] = [
+  { value: 'FREE', label: 'Free shipping', description: 'Every order ships free' },
+  { value: 'FLAT', label: 'Flat rate', description: 'One rate per order, regardless of quantity' },
+  { value: 'PER_UNIT', label: 'Per box/case', description: 'Rate multiplied by the number of boxes or cases' },
+  { value: 'CALCULATED', label: 'Calculated at checkout', description: 'We use the shipping listed in your feed' },
+  { value: 'UNKNOWN', label: 'Not set', description: 'We use the shipping listed in your feed' },
+];
+
+function toInput(value: number | null): string {
+  return value === null ? '' : String(value);
+}
+
+function parseAmount(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function formatSurcharges(surcharges: Record<string, number>): string {
+  return Object.entries(surcharges)
+    .map(([state, amount]) => `${state}=${amount}`)
+    .join(', ');
+}
+
+/**
+ * Parse "AK=15, HI=12.5" into { AK: 15, HI: 12.5 }. Returns null if malformed.
+ */
+function parseSurcharges(value: string): Record<string, number> | null {
+  const result: Record<string, number> = {};
+  for (const part of value.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [state, amount] = part.split('=').map((p) => p.trim());
+    if (!state || amount === undefined || amount === '') {
+      return null;
+    }
+    result[state.toUpperCase()] = Number(amount);
+  }
+  return result;
+}
+
+export function ShippingRuleForm({ retailerId, retailerName, rule, canManage }: ShippingRuleFormProps) {
+  const router = useRouter();
+  const [shippingType, setShippingType] = useState<ShippingType>(rule?.shippingType ?? 'UNKNOWN');
+  const [flatRate, setFlatRate] = useState(toInput(rule?.flatRate ?? null));
+  const [perUnitRate, setPerUnitRate] = useState(toInput(rule?.perUnitRate ?? null));
+  const [freeShippingMinimum, setFreeShippingMinimum] = useState(toInput(rule?.freeShippingMinimum ?? null));
+  const [surcharges, setSurcharges] = useState(formatSurcharges(rule?.stateSurcharges ?? {}));
+  const [notes, setNotes] = useState(rule?.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    const stateSurcharges = parseSurcharges(surcharges);
+    if (!stateSurcharges) {
+      setError('State surcharges must look like "AK=15, HI=15"');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await updateShippingRule(retailerId, {
+        shippingType,
+        flatRate: shippingType === 'FLAT' ? parseAmount(flatRate) : null,
+        perUnitRate: shippingType === 'PER_UNIT' ? parseAmount(perUnitRate) : null,
+        freeShippingMinimum: parseAmount(freeShippingMinimum),
+        stateSurcharges,
+        notes: notes || null,
+      });
+
+      if (result.success) {
+        setSaved(true);
+        router.refresh();
+      } else {
+        setError(result.error || 'Failed to save shipping rules');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName =
+    'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2 disabled:bg-gray-50';
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg bg-white shadow">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">{retailerName}</h3>
+          {rule && (
+            <span className="text-sm text-gray-500">
+              Last updated {new Date(rule.updatedAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+
+        <fieldset disabled={!canManage || isSaving} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Shipping method</label>
+            <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {SHIPPING_TYPE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex cursor-pointer items-start gap-3 rounded-md border p-3 ${
+                    shippingType === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name={`shippingType-${retailerId}`}
+                    value={option.value}
+                    checked={shippingType === option.value}
+                    onChange={() => setShippingType(option.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            {shippingType === 'FLAT' && (
+              <div>
+                <label htmlFor={`flatRate-${retailerId}`} className="block text-sm font-medium text-gray-700">
+                  Rate per order ($)
+                </label>
+                <input
+                  id={`flatRate-${retailerId}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={flatRate}
+                  onChange={(e) => setFlatRate(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            )}
+
+            {shippingType === 'PER_UNIT' && (
+              <div>
+                <label htmlFor={`perUnitRate-${retailerId}`} className="block text-sm font-medium text-gray-700">
+                  Rate per box/case ($)
+                </label>
+                <input
+                  id={`perUnitRate-${retailerId}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={perUnitRate}
+                  onChange={(e) => setPerUnitRate(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor={`freeShippingMinimum-${retailerId}`} className="block text-sm font-medium text-gray-700">
+                Free shipping over ($)
+              </label>
+              <input
+                id={`freeShippingMinimum-${retailerId}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={freeShippingMinimum}
+                onChange={(e) => setFreeShippingMinimum(e.target.value)}
+                placeholder="None"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor={`stateSurcharges-${retailerId}`} className="block text-sm font-medium text-gray-700">
+                State surcharges ($)
+              </label>
+              <input
+                id={`stateSurcharges-${retailerId}`}
+                type="text"
+                value={surcharges}
+                onChange={(e) => setSurcharges(e.target.value)}
+                placeholder="AK=15, HI=15"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor={`notes-${retailerId}`} className="block text-sm font-medium text-gray-700">
+              Notes
+            </label>
+            <textarea
+              id={`notes-${retailerId}`}
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Orders ship within 2 business days"
+              className={inputClassName}
+            />
+          </div>
+        </fieldset>
+
+        {canManage && (
+          <div className="flex items-center justify-end gap-3">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {saved && !error && (
+              <p className="inline-flex items-center gap-1 text-sm text-green-600">
+                <Check className="h-4 w-4" />
+                Saved
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+    </form>
+  );
+}
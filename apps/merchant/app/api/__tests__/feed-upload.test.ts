@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => {
+  class MockRetailerContextError extends Error {
+    public readonly code: string
+    public readonly statusCode: number
+
+    constructor(code: string, message: string, statusCode: number) {
+      super(message)
+      this.code = code
+      this.statusCode = statusCode
+    }
+  }
+
+  return {
+    MockRetailerContextError,
+    putChunk: vi.fn(),
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/auth', () => ({
+  getSession: vi.fn(),
+  requireRetailerContext: vi.fn(),
+  requireRetailerPermission: vi.fn(),
+  RetailerContextError: mocks.MockRetailerContextError,
+}))
+
+vi.mock('@ironscout/db', () => ({
+  prisma: {
+    retailer_feed_uploads: {
+      findFirst: mocks.findFirst,
+      updateMany: mocks.updateMany,
+    },
+  },
+}))
+
+vi.mock('@/lib/feed-uploads', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/feed-uploads')>()),
+  getFeedUploadStorage: () => ({ backend: 'local', putChunk: mocks.putChunk }),
+}))
+
+import { PUT } from '../feed/upload/[id]/route'
+import { getSession, requireRetailerContext } from '@/lib/auth'
+import { FEED_UPLOAD_CHUNK_BYTES } from '@/lib/feed-uploads'
+
+const params = Promise.resolve({ id: 'up-1' })
+
+function chunkRequest(index: number, bytes: number) {
+  return new Request(`http://localhost/api/feed/upload/up-1?index=${index}`, {
+    method: 'PUT',
+    body: new Uint8Array(bytes),
+  })
+}
+
+function uploadRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'up-1',
+    retailerId: 'ret-1',
+    storageKey: 'ret-1/up-1',
+    sizeBytes: FEED_UPLOAD_CHUNK_BYTES + 100,
+    receivedChunks: 0,
+    receivedBytes: 0,
+    status: 'UPLOADING',
+    ...overrides,
+  }
+}
+
+describe('merchant api/feed/upload/[id] route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getSession).mockResolvedValue({ type: 'merchant', merchantId: 'm-1', merchantUserId: 'u-1' } as never)
+    vi.mocked(requireRetailerContext).mockResolvedValue({ retailerId: 'ret-1', userRole: 'EDITOR' } as never)
+  })
+
+  it('returns 401 when session is missing', async () => {
+    vi.mocked(getSession).mockResolvedValue(null)
+
+    const response = await PUT(chunkRequest(0, 10), { params })
+
+    expect(response.status).toBe(401)
+  })
+
+  it('stores the next chunk and advances the upload', async () => {
+    mocks.findFirst.mockResolvedValue(uploadRow({ receivedChunks: 1, receivedBytes: FEED_UPLOAD_CHUNK_BYTES }))
+
+    const response = await PUT(chunkRequest(1, 100), { params })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, receivedChunks: 2 })
+    expect(mocks.findFirst).toHaveBeenCalledWith({ where: { id: 'up-1', retailerId: 'ret-1' } })
+    expect(mocks.putChunk).toHaveBeenCalledWith('ret-1/up-1', 1, expect.any(Uint8Array))
+    expect(mocks.updateMany).toHaveBeenCalledWith({
+      where: { id: 'up-1', receivedChunks: 1 },
+      data: { receivedChunks: 2, receivedBytes: { increment: 100 } },
+    })
+  })
+
+  it('overwrites an already received chunk without advancing', async () => {
+    mocks.findFirst.mockResolvedValue(uploadRow({ receivedChunks: 1, receivedBytes: FEED_UPLOAD_CHUNK_BYTES }))
+
+    const response = await PUT(chunkRequest(0, FEED_UPLOAD_CHUNK_BYTES), { params })
+
+    expect(response.status).toBe(200)
+    expect(mocks.putChunk).toHaveBeenCalled()
+    expect(mocks.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('rejects chunks that skip ahead or have the wrong size', async () => {
+    mocks.findFirst.mockResolvedValue(uploadRow())
+
+    const skipped = await PUT(chunkRequest(1, 100), { params })
+    expect(skipped.status).toBe(409)
+    expect(await skipped.json()).toMatchObject({ receivedChunks: 0 })
+
+    const short = await PUT(chunkRequest(0, 100), { params })
+    expect(short.status).toBe(400)
+
+    expect(mocks.putChunk).not.toHaveBeenCalled()
+  })
+
+  it('returns 404 for uploads of another retailer and 409 once complete', async () => {
+    mocks.findFirst.mockResolvedValueOnce(null)
+    expect((await PUT(chunkRequest(0, 10), { params })).status).toBe(404)
+
+    mocks.findFirst.mockResolvedValueOnce(uploadRow({ status: 'COMPLETE' }))
+    expect((await PUT(chunkRequest(0, 10), { params })).status).toBe(409)
+  })
+})
@@ -0,0 +1,377 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => {
+  class MockRetailerContextError extends Error {
+    public readonly code: string
+    public readonly statusCode: number
+
+    constructor(code: string, message: string, statusCode: number) {
+      super(message)
+      this.code = code
+      this.statusCode = statusCode
+    }
+  }
+
+  return {
+    MockRetailerContextError,
+    authenticateApiKey: vi.fn(),
+    apiKeyFindUnique: vi.fn(),
+    apiKeyUpdateMany: vi.fn(),
+    keyRetailersFindMany: vi.fn(),
+    feedFindFirst: vi.fn(),
+    feedUpdate: vi.fn(),
+    runCreate: vi.fn(),
+    runUpdate: vi.fn(),
+    skuUpsert: vi.fn(),
+    priceFindFirst: vi.fn(),
+    priceCreate: vi.fn(),
+    quarantineUpsert: vi.fn(),
+    sourceUpsert: vi.fn(),
+    retailerFindUnique: vi.fn(),
+    sourceProductFindFirst: vi.fn(),
+    sourceProductCreate: vi.fn(),
+    sourceProductUpdate: vi.fn(),
+    identifierUpsert: vi.fn(),
+    transaction: vi.fn(),
+    queryRaw: vi.fn(),
+    queueAddBulk: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/auth', () => ({
+  RetailerContextError: mocks.MockRetailerContextError,
+}))
+
+vi.mock('@/lib/api-keys', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api-keys')>()),
+  authenticateApiKey: mocks.authenticateApiKey,
+}))
+
+vi.mock('bullmq', () => ({
+  Queue: class {
+    addBulk = mocks.queueAddBulk
+  },
+}))
+
+vi.mock('@ironscout/db', () => {
+  const prisma = {
+    merchant_api_keys: { findUnique: mocks.apiKeyFindUnique, updateMany: mocks.apiKeyUpdateMany },
+    merchant_api_key_retailers: { findMany: mocks.keyRetailersFindMany },
+    retailers: { findUnique: mocks.retailerFindUnique },
+    sources: { upsert: mocks.sourceUpsert },
+    retailer_feeds: { findFirst: mocks.feedFindFirst, update: mocks.feedUpdate },
+    retailer_feed_runs: { create: mocks.runCreate, update: mocks.runUpdate },
+    retailer_skus: { upsert: mocks.skuUpsert },
+    source_products: {
+      findFirst: mocks.sourceProductFindFirst,
+      create: mocks.sourceProductCreate,
+      update: mocks.sourceProductUpdate,
+    },
+    source_product_identifiers: { upsert: mocks.identifierUpsert },
+    prices: { findFirst: mocks.priceFindFirst, create: mocks.priceCreate },
+    quarantined_records: { upsert: mocks.quarantineUpsert },
+    $transaction: mocks.transaction,
+    $queryRaw: mocks.queryRaw,
+  }
+  // Interactive transactions run against the same mocks
+  mocks.transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma))
+  return { Prisma: {}, prisma }
+})
+
+import { POST } from '../v1/inventory/route'
+import { INVENTORY_PUSH_MAX_RECORDS } from '@/lib/inventory-push'
+
+function pushRequest(body: unknown) {
+  return new Request('http://localhost/api/v1/inventory', {
+    method: 'POST',
+    headers: { authorization: 'Bearer isp_test', 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+function keyRetailer(retailerId: string, name: string, status = 'ACTIVE') {
+  return { merchant_retailers: { retailerId, status, retailers: { name } } }
+}
+
+const validRecord = {
+  upc: '012345678905',
+  title: '9mm 115gr FMJ',
+  price: 14.99,
+  inStock: true,
+  productUrl: 'https://shop.example/9mm',
+}
+
+describe('merchant api/v1/inventory route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.authenticateApiKey.mockResolvedValue({
+      apiKeyId: 'key-1',
+      merchantId: 'm-1',
+      merchantStatus: 'ACTIVE',
+      createdByUserId: 'u-1',
+    })
+    mocks.keyRetailersFindMany.mockResolvedValue([keyRetailer('ret-1', 'Ammo Depot')])
+    mocks.sourceUpsert.mockResolvedValue({ id: 'src-push' })
+    mocks.sourceProductFindFirst.mockResolvedValue(null)
+    mocks.sourceProductCreate.mockResolvedValue({ id: 'sp-1' })
+    mocks.queryRaw.mockResolvedValue([{ status: 'PENDING' }])
+    mocks.feedFindFirst.mockResolvedValue({ id: 'feed-1', accessType: 'PUSH', enabled: true })
+    mocks.runCreate.mockResolvedValue({ id: 'run-1' })
+    mocks.skuUpsert.mockResolvedValue({ id: 'sku-1' })
+    mocks.priceFindFirst.mockResolvedValue(null)
+    mocks.quarantineUpsert.mockResolvedValue({ id: 'q-1' })
+  })
+
+  it('returns 401 without a valid API key', async () => {
+    mocks.authenticateApiKey.mockResolvedValue(null)
+
+    const response = await POST(pushRequest({ records: [validRecord] }))
+
+    expect(response.status).toBe(401)
+    expect(mocks.runCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects a push to a sibling retailer outside the key scope', async () => {
+    // ret-2 belongs to the same merchant but was not in the creator's scope
+    const response = await POST(pushRequest({ retailerId: 'ret-2', records: [validRecord] }))
+
+    expect(response.status).toBe(403)
+    expect((await response.json()).code).toBe('USER_NOT_AUTHORIZED')
+    expect(mocks.keyRetailersFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { apiKeyId: 'key-1' } })
+    )
+    expect(mocks.runCreate).not.toHaveBeenCalled()
+  })
+
+  it('allows any retailer in the key scope', async () => {
+    mocks.keyRetailersFindMany.mockResolvedValue([
+      keyRetailer('ret-1', 'Ammo Depot'),
+      keyRetailer('ret-2', 'Range Supply'),
+    ])
+
+    const response = await POST(pushRequest({ retailerId: 'ret-2', records: [validRecord] }))
+
+    expect(response.status).toBe(200)
+    expect(mocks.runCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ retailerId: 'ret-2' }),
+    })
+  })
+
+  it('rejects a scoped retailer whose relationship is no longer active', async () => {
+    mocks.keyRetailersFindMany.mockResolvedValue([keyRetailer('ret-1', 'Ammo Depot', 'SUSPENDED')])
+
+    const response = await POST(pushRequest({ retailerId: 'ret-1', records: [validRecord] }))
+
+    expect(response.status).toBe(403)
+    expect((await response.json()).code).toBe('RETAILER_NOT_ACTIVE')
+  })
+
+  it('requires a retailerId when the key covers several retailers', async () => {
+    mocks.keyRetailersFindMany.mockResolvedValue([
+      keyRetailer('ret-1', 'Ammo Depot'),
+      keyRetailer('ret-2', 'Range Supply'),
+    ])
+
+    const response = await POST(pushRequest({ records: [validRecord] }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).code).toBe('MULTIPLE_RETAILERS')
+  })
+
+  it('rejects batches over the record limit', async () => {
+    const records = Array.from({ length: INVENTORY_PUSH_MAX_RECORDS + 1 }, () => validRecord)
+
+    const response = await POST(pushRequest({ records }))
+
+    expect(response.status).toBe(413)
+  })
+
+  it('returns per-record results and records the run', async () => {
+    const response = await POST(pushRequest({
+      records: [
+        validRecord,
+        { title: 'No UPC box', price: 20, inStock: false },
+        { title: 'Free ammo', price: 0, inStock: true },
+        { title: 'Bad row', price: 'cheap', inStock: true },
+      ],
+    }))
+
+    expect(response.status).toBe(200)
+    const data = await response.json()
+    expect(data.runId).toBe('run-1')
+    expect(data.summary).toEqual({ received: 4, accepted: 1, quarantined: 1, rejected: 2 })
+    expect(data.results.map((r: { status: string }) => r.status)).toEqual([
+      'ACCEPTED',
+      'QUARANTINED',
+      'REJECTED',
+      'REJECTED',
+    ])
+    expect(data.results[0].retailerSkuId).toBe('sku-1')
+    expect(data.results[1].errors[0].code).toBe('MISSING_UPC')
+    expect(data.results[2].errors.map((e: { code: string }) => e.code)).toContain('INVALID_PRICE')
+    expect(data.results[3].errors[0]).toMatchObject({ field: 'price', code: 'MALFORMED_ROW' })
+
+    expect(mocks.runCreate).toHaveBeenCalledWith({
+      data: { retailerId: 'ret-1', feedId: 'feed-1', apiKeyId: 'key-1', status: 'RUNNING' },
+    })
+    expect(mocks.transaction).toHaveBeenCalledTimes(1)
+    expect(mocks.priceCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        retailerSkuId: 'sku-1',
+        sourceId: 'src-push',
+        sourceProductId: 'sp-1',
+        price: 14.99,
+        ingestionRunType: 'RETAILER_FEED',
+        ingestionRunId: 'run-1',
+      }),
+    })
+    expect(mocks.runUpdate).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({ status: 'WARNING', indexedCount: 1, quarantinedCount: 1, rejectedCount: 2 }),
+    })
+  })
+
+  it('queues accepted records for the resolver as source products', async () => {
+    const response = await POST(pushRequest({ records: [validRecord] }))
+
+    expect(response.status).toBe(200)
+    expect(mocks.sourceProductCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        sourceId: 'src-push',
+        identityKey: 'upc:012345678905',
+        title: '9mm 115gr FMJ',
+        createdByRunId: 'run-1',
+      }),
+      select: { id: true },
+    })
+    expect(mocks.identifierUpsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({ sourceProductId: 'sp-1', idType: 'UPC', isCanonical: true }),
+    }))
+    expect(mocks.queueAddBulk).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: 'RESOLVE_SOURCE_PRODUCT',
+        data: expect.objectContaining({ sourceProductId: 'sp-1', trigger: 'INGEST', affiliateFeedRunId: 'run-1' }),
+        opts: expect.objectContaining({ jobId: 'RESOLVE_SOURCE_PRODUCT_sp-1' }),
+      }),
+    ])
+  })
+
+  it('does not re-queue source products the resolver already has', async () => {
+    mocks.sourceProductFindFirst.mockResolvedValue({ id: 'sp-1' })
+    mocks.sourceProductUpdate.mockResolvedValue({ id: 'sp-1' })
+    mocks.queryRaw.mockResolvedValue([{ status: 'COMPLETED' }])
+
+    const response = await POST(pushRequest({ records: [validRecord] }))
+
+    expect(response.status).toBe(200)
+    expect(mocks.sourceProductCreate).not.toHaveBeenCalled()
+    expect(mocks.queueAddBulk).not.toHaveBeenCalled()
+  })
+
+  it('reports a record as rejected when its transaction fails', async () => {
+    mocks.priceCreate.mockRejectedValueOnce(new Error('deadlock'))
+
+    const response = await POST(pushRequest({ records: [validRecord] }))
+
+    expect(response.status).toBe(200)
+    const data = await response.json()
+    expect(data.results[0]).toMatchObject({ status: 'REJECTED', errors: [{ code: 'PARSE_ERROR' }] })
+    expect(mocks.queueAddBulk).not.toHaveBeenCalled()
+  })
+
+  it('prices records at their sale price, as the feed connectors do', async () => {
+    const response = await POST(pushRequest({ records: [{ ...validRecord, salePrice: 12.49, quantity: 40 }] }))
+
+    expect(response.status).toBe(200)
+    expect(mocks.priceCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ price: 12.49 }),
+    })
+  })
+
+  it('upserts the retailer push source on its unique key', async () => {
+    await POST(pushRequest({ records: [validRecord] }))
+
+    expect(mocks.sourceUpsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { pushRetailerId: 'ret-1' },
+      create: expect.objectContaining({ retailerId: 'ret-1', pushRetailerId: 'ret-1', enabled: false }),
+      update: {},
+    }))
+  })
+
+  it('does not touch the schedule of polled feeds', async () => {
+    mocks.feedFindFirst.mockResolvedValue({ id: 'feed-1', accessType: 'URL', enabled: true })
+
+    const response = await POST(pushRequest({ records: [validRecord] }))
+
+    expect(response.status).toBe(200)
+    expect(mocks.feedUpdate).not.toHaveBeenCalled()
+  })
+})
+
+describe('authenticateApiKey', () => {
+  const key = `isp_${'a'.repeat(64)}`
+
+  function keyRequest() {
+    return new Request('http://localhost/api/v1/inventory', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${key}` },
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('acts for the merchant and keeps the creator for audit', async () => {
+    const { authenticateApiKey } = await vi.importActual<typeof import('@/lib/api-keys')>('@/lib/api-keys')
+    mocks.apiKeyFindUnique.mockResolvedValue({
+      id: 'key-1',
+      merchantId: 'm-1',
+      merchantUserId: null,
+      revokedAt: null,
+      lastUsedAt: null,
+      merchants: { status: 'ACTIVE' },
+    })
+
+    const principal = await authenticateApiKey(keyRequest())
+
+    expect(principal).toEqual({
+      apiKeyId: 'key-1',
+      merchantId: 'm-1',
+      merchantStatus: 'ACTIVE',
+      createdByUserId: null,
+    })
+    expect(mocks.apiKeyUpdateMany).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips the lastUsedAt write when the key was used recently', async () => {
+    const { authenticateApiKey } = await vi.importActual<typeof import('@/lib/api-keys')>('@/lib/api-keys')
+    mocks.apiKeyFindUnique.mockResolvedValue({
+      id: 'key-1',
+      merchantId: 'm-1',
+      merchantUserId: 'u-1',
+      revokedAt: null,
+      lastUsedAt: new Date(Date.now() - 60_000),
+      merchants: { status: 'ACTIVE' },
+    })
+
+    const principal = await authenticateApiKey(keyRequest())
+
+    expect(principal?.apiKeyId).toBe('key-1')
+    expect(mocks.apiKeyUpdateMany).not.toHaveBeenCalled()
+  })
+
+  it('rejects revoked keys', async () => {
+    const { authenticateApiKey } = await vi.importActual<typeof import('@/lib/api-keys')>('@/lib/api-keys')
+    mocks.apiKeyFindUnique.mockResolvedValue({
+      id: 'key-1',
+      merchantId: 'm-1',
+      merchantUserId: 'u-1',
+      revokedAt: new Date(),
+      lastUsedAt: null,
+      merchants: { status: 'ACTIVE' },
+    })
+
+    expect(await authenticateApiKey(keyRequest())).toBeNull()
+  })
+})
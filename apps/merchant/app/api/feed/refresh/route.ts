@@ -2,39 +2,12 @@ import { NextResponse } from 'next/server';
 import { getSession, requireRetailerContext, RetailerContextError } from '@/lib/auth';
 import { prisma } from '@ironscout/db';
 import { logger } from '@/lib/logger';
+import { getFeedIngestQueue } from '@/lib/feed-ingest-queue';
 import { z } from 'zod';
 
 // Force dynamic rendering - this route uses cookies for auth
 export const dynamic = 'force-dynamic';
 
-// Lazy-load Redis and BullMQ to avoid connection during build
-let retailerFeedIngestQueue: import('bullmq').Queue | null = null;
-
-async function getQueue() {
-  if (!retailerFeedIngestQueue) {
-    logger.debug('Initializing BullMQ queue connection');
-    const { Queue } = await import('bullmq');
-
-    const redisHost = process.env.REDIS_HOST || 'localhost';
-    const redisPort = parseInt(process.env.REDIS_PORT || '6379', 10);
-    const redisPassword = process.env.REDIS_PASSWORD || undefined;
-
-    logger.debug('Connecting to Redis', { host: redisHost, port: redisPort, passwordSet: !!redisPassword });
-
-    retailerFeedIngestQueue = new Queue('retailer-feed-ingest', {
-      connection: {
-        host: redisHost,
-        port: redisPort,
-        password: redisPassword,
-        maxRetriesPerRequest: null,
-      },
-    });
-
-    logger.info('BullMQ queue initialized');
-  }
-  return retailerFeedIngestQueue;
-}
-
 const refreshSchema = z.object({
   feedId: z.string().min(1),
   retailerId: z.string().optional(), // Optional: for multi-retailer merchants
@@ -100,6 +73,13 @@ export async function POST(request: Request) {
 
     reqLogger.debug('Feed found', { feedId, accessType: feed.accessType });
 
+    if (feed.accessType === 'PUSH') {
+      return NextResponse.json(
+        { error: 'Push feeds update when you send records to the inventory API' },
+        { status: 400 }
+      );
+    }
+
     // Check merchant status
     const merchant = await prisma.merchants.findUnique({
       where: { id: merchantId },
@@ -153,7 +133,7 @@ export async function POST(request: Request) {
 
     // Queue the feed ingestion job
     reqLogger.debug('Queueing feed ingestion job');
-    const queue = await getQueue();
+    const queue = await getFeedIngestQueue();
 
     await queue.add(
       'ingest-manual',
@@ -164,8 +144,6 @@ export async function POST(request: Request) {
         accessType: feed.accessType,
         formatType: feed.formatType,
         url: feed.url || undefined,
-        username: feed.username || undefined,
-        password: feed.password || undefined,
       },
       {
         attempts: 3,
@@ -3,6 +3,7 @@ import { getSession, requireRetailerContext, requireRetailerPermission, Retailer
 import { prisma } from '@ironscout/db';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { encryptFeedPassword, maskFeedSecrets } from '@/lib/feed-credentials';
 
 // Force dynamic rendering - this route uses cookies for auth
 export const dynamic = 'force-dynamic';
@@ -26,7 +27,7 @@ function getE2eFeed() {
     formatType: 'AMMOSEEK_V1',
     url: 'https://e2e.example/feed.csv',
     username: null,
-    password: null,
+    hasCredentials: false,
     scheduleMinutes: 60,
     status: 'HEALTHY',
     enabled: true,
@@ -36,7 +37,7 @@ function getE2eFeed() {
 const feedSchema = z.object({
   id: z.string().optional(),
   retailerId: z.string().optional(), // Optional: for multi-retailer merchants
-  accessType: z.enum(['URL', 'AUTH_URL', 'FTP', 'SFTP', 'UPLOAD']),
+  accessType: z.enum(['URL', 'AUTH_URL', 'FTP', 'SFTP', 'UPLOAD', 'PUSH']),
   formatType: z.enum(['GENERIC', 'AMMOSEEK_V1', 'GUNENGINE_V2', 'IMPACT']).optional().default('GENERIC'),
   url: z.string().url().optional().nullable(),
   username: z.string().optional().nullable(),
@@ -81,7 +82,7 @@ export async function GET(request: Request) {
       found: !!feed
     });
 
-    return NextResponse.json({ feed, retailerContext });
+    return NextResponse.json({ feed: feed && maskFeedSecrets(feed), retailerContext });
   } catch (error) {
     if (error instanceof RetailerContextError) {
       reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
@@ -165,18 +166,27 @@ export async function POST(request: Request) {
       scheduleMinutes
     });
 
-    // Create feed
-    const feed = await prisma.retailer_feeds.create({
-      data: {
-        retailerId,
-        accessType,
-        formatType,
-        url: url || null,
-        username: username || null,
-        password: password || null, // TODO: Encrypt at app layer
-        scheduleMinutes,
-        status: 'PENDING',
-      },
+    // The password is bound to the generated feed id, so it is encrypted
+    // after the row exists, in the same transaction
+    const feed = await prisma.$transaction(async (tx) => {
+      const created = await tx.retailer_feeds.create({
+        data: {
+          retailerId,
+          accessType,
+          formatType,
+          url: url || null,
+          username: username || null,
+          scheduleMinutes,
+          status: 'PENDING',
+        },
+      });
+
+      if (!password) return created;
+
+      return tx.retailer_feeds.update({
+        where: { id: created.id },
+        data: { secretCiphertext: encryptFeedPassword(created.id, created.secretVersion, password) },
+      });
     });
 
     reqLogger.info('Feed created successfully', {
@@ -186,7 +196,7 @@ export async function POST(request: Request) {
       formatType
     });
 
-    return NextResponse.json({ success: true, feed, retailerContext });
+    return NextResponse.json({ success: true, feed: maskFeedSecrets(feed), retailerContext });
   } catch (error) {
     if (error instanceof RetailerContextError) {
       reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
@@ -286,14 +296,19 @@ export async function PUT(request: Request) {
         url: url || null,
         username: username || null,
         // Only update password if provided (non-empty)
-        ...(password ? { password } : {}),
+        ...(password
+          ? {
+              secretCiphertext: encryptFeedPassword(id, existingFeed.secretVersion, password),
+              password: null,
+            }
+          : {}),
         scheduleMinutes,
       },
     });
 
     reqLogger.info('Feed updated successfully', { feedId: feed.id });
 
-    return NextResponse.json({ success: true, feed, retailerContext });
+    return NextResponse.json({ success: true, feed: maskFeedSecrets(feed), retailerContext });
   } catch (error) {
     if (error instanceof RetailerContextError) {
       reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
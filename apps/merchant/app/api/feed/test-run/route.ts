@@ -3,6 +3,7 @@ import { getSession, requireRetailerContext, RetailerContextError } from '@/lib/
 import { prisma } from '@ironscout/db';
 import type { FeedFormatType } from '@ironscout/db';
 import { logger } from '@/lib/logger';
+import { decryptFeedPassword } from '@/lib/feed-credentials';
 import { z } from 'zod';
 
 // Force dynamic rendering - this route uses cookies for auth
@@ -63,8 +64,9 @@ export async function POST(request: Request) {
     try {
       const headers: Record<string, string> = {};
 
-      if (feed.accessType === 'AUTH_URL' && feed.username && feed.password) {
-        const auth = Buffer.from(`${feed.username}:${feed.password}`).toString('base64');
+      const password = feed.accessType === 'AUTH_URL' ? decryptFeedPassword(feed) : null;
+      if (feed.accessType === 'AUTH_URL' && feed.username && password) {
+        const auth = Buffer.from(`${feed.username}:${password}`).toString('base64');
         headers['Authorization'] = `Basic ${auth}`;
       }
 
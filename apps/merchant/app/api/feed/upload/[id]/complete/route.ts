@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import { getSession, requireRetailerContext, requireRetailerPermission, RetailerContextError } from '@/lib/auth';
+import { prisma } from '@ironscout/db';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { getFeedIngestQueue } from '@/lib/feed-ingest-queue';
+import { chunkCountFor } from '@/lib/feed-uploads';
+
+// Force dynamic rendering - this route uses cookies for auth
+export const dynamic = 'force-dynamic';
+
+const completeSchema = z.object({
+  retailerId: z.string().optional(), // Optional: for multi-retailer merchants
+});
+
+/**
+ * Finish an upload and queue it for ingestion.
+ * The harvester runs the feed's connector, quarantine and run recording
+ * against the uploaded file.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const requestId = crypto.randomUUID().slice(0, 8);
+  const reqLogger = logger.child({ requestId, endpoint: '/api/feed/upload/[id]/complete', uploadId: id });
+
+  reqLogger.info('Feed upload complete request received');
+
+  try {
+    const session = await getSession();
+
+    if (!session || session.type !== 'merchant') {
+      reqLogger.warn('Unauthorized feed upload completion');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown = {};
+    try {
+      body = await request.json();
+    } catch {
+      // Empty body is fine
+    }
+
+    const validation = completeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    // Resolve retailer context (supports multi-retailer merchants)
+    const retailerContext = await requireRetailerContext(session, validation.data.retailerId);
+    const { retailerId } = retailerContext;
+    requireRetailerPermission(retailerContext, 'EDITOR', 'upload feed files');
+
+    const upload = await prisma.retailer_feed_uploads.findFirst({
+      where: { id, retailerId },
+      include: {
+        retailer_feeds: {
+          select: { id: true, accessType: true, formatType: true },
+        },
+      },
+    });
+
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    if (upload.status !== 'UPLOADING') {
+      return NextResponse.json({ error: 'Upload is already complete' }, { status: 409 });
+    }
+
+    const chunkCount = chunkCountFor(upload.sizeBytes);
+    if (upload.receivedChunks < chunkCount || upload.receivedBytes !== upload.sizeBytes) {
+      reqLogger.warn('Feed upload incomplete', {
+        receivedChunks: upload.receivedChunks,
+        chunkCount,
+        receivedBytes: upload.receivedBytes,
+        sizeBytes: upload.sizeBytes,
+      });
+      return NextResponse.json(
+        { error: `Upload is incomplete (${upload.receivedChunks} of ${chunkCount} chunks received)` },
+        { status: 409 }
+      );
+    }
+
+    // Check merchant status
+    const merchant = await prisma.merchants.findUnique({
+      where: { id: session.merchantId },
+    });
+
+    if (!merchant || merchant.status !== 'ACTIVE') {
+      reqLogger.warn('Feed upload ingest denied - merchant not active', {
+        merchantId: session.merchantId,
+        status: merchant?.status,
+      });
+      return NextResponse.json(
+        { error: 'Your account must be active to ingest feeds' },
+        { status: 403 }
+      );
+    }
+
+    const feed = upload.retailer_feeds;
+
+    const [, run] = await prisma.$transaction([
+      prisma.retailer_feed_uploads.update({
+        where: { id },
+        data: { status: 'COMPLETE', completedAt: new Date() },
+      }),
+      prisma.retailer_feed_runs.create({
+        data: {
+          retailerId,
+          feedId: feed.id,
+          uploadId: id,
+          status: 'PENDING',
+        },
+      }),
+    ]);
+
+    const queue = await getFeedIngestQueue();
+    await queue.add(
+      'ingest-upload',
+      {
+        retailerId,
+        feedId: feed.id,
+        feedRunId: run.id,
+        accessType: feed.accessType,
+        formatType: feed.formatType,
+        uploadId: id,
+      },
+      {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 10000 },
+        priority: 1, // High priority for merchant-initiated runs
+      }
+    );
+
+    reqLogger.info('Feed upload queued for ingestion', {
+      feedId: feed.id,
+      runId: run.id,
+      sizeBytes: upload.sizeBytes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      runId: run.id,
+      message: 'Upload received. Your catalog will update shortly.',
+      retailerContext,
+    });
+  } catch (error) {
+    if (error instanceof RetailerContextError) {
+      reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+    reqLogger.error('Failed to complete feed upload', {}, error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { getSession, requireRetailerContext, requireRetailerPermission, RetailerContextError } from '@/lib/auth';
+import { prisma } from '@ironscout/db';
+import { logger } from '@/lib/logger';
+import { chunkCountFor, expectedChunkBytes, getFeedUploadStorage } from '@/lib/feed-uploads';
+
+// Force dynamic rendering - this route uses cookies for auth
+export const dynamic = 'force-dynamic';
+
+/**
+ * Upload one chunk: PUT /api/feed/upload/:id?index=N with the raw bytes.
+ *
+ * Chunks are sequential. Re-sending an already received chunk overwrites it
+ * (safe retry after a dropped response); skipping ahead is rejected.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const requestId = crypto.randomUUID().slice(0, 8);
+  const reqLogger = logger.child({ requestId, endpoint: '/api/feed/upload/[id]', method: 'PUT', uploadId: id });
+
+  try {
+    const session = await getSession();
+
+    if (!session || session.type !== 'merchant') {
+      reqLogger.warn('Unauthorized feed upload chunk');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const index = Number(url.searchParams.get('index'));
+    if (!Number.isInteger(index) || index < 0) {
+      return NextResponse.json({ error: 'Chunk index is required' }, { status: 400 });
+    }
+
+    // Resolve retailer context (supports multi-retailer merchants)
+    const inputRetailerId = url.searchParams.get('retailerId') || undefined;
+    const retailerContext = await requireRetailerContext(session, inputRetailerId);
+    const { retailerId } = retailerContext;
+    requireRetailerPermission(retailerContext, 'EDITOR', 'upload feed files');
+
+    // Verify ownership - upload must belong to the resolved retailer
+    const upload = await prisma.retailer_feed_uploads.findFirst({
+      where: { id, retailerId },
+    });
+
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    if (upload.status !== 'UPLOADING') {
+      return NextResponse.json({ error: 'Upload is no longer accepting chunks' }, { status: 409 });
+    }
+
+    if (index >= chunkCountFor(upload.sizeBytes)) {
+      return NextResponse.json({ error: 'Chunk index is out of range' }, { status: 400 });
+    }
+
+    if (index > upload.receivedChunks) {
+      return NextResponse.json(
+        { error: `Expected chunk ${upload.receivedChunks}`, receivedChunks: upload.receivedChunks },
+        { status: 409 }
+      );
+    }
+
+    const data = new Uint8Array(await request.arrayBuffer());
+    const expectedBytes = expectedChunkBytes(upload.sizeBytes, index);
+    if (data.byteLength !== expectedBytes) {
+      reqLogger.warn('Feed upload chunk size mismatch', { index, bytes: data.byteLength, expectedBytes });
+      return NextResponse.json(
+        { error: `Chunk ${index} must be ${expectedBytes} bytes, got ${data.byteLength}` },
+        { status: 400 }
+      );
+    }
+
+    await getFeedUploadStorage().putChunk(upload.storageKey, index, data);
+
+    // Advance only if no concurrent request already did
+    if (index === upload.receivedChunks) {
+      await prisma.retailer_feed_uploads.updateMany({
+        where: { id, receivedChunks: index },
+        data: {
+          receivedChunks: index + 1,
+          receivedBytes: { increment: data.byteLength },
+        },
+      });
+    }
+
+    reqLogger.debug('Feed upload chunk stored', { index, bytes: data.byteLength });
+
+    return NextResponse.json({ success: true, receivedChunks: Math.max(upload.receivedChunks, index + 1) });
+  } catch (error) {
+    if (error instanceof RetailerContextError) {
+      reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+    reqLogger.error('Failed to store feed upload chunk', {}, error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { getSession, requireRetailerContext, requireRetailerPermission, RetailerContextError } from '@/lib/auth';
+import { prisma } from '@ironscout/db';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import {
+  FEED_UPLOAD_CHUNK_BYTES,
+  FEED_UPLOAD_EXTENSIONS,
+  buildFeedUploadKey,
+  chunkCountFor,
+  getFeedUploadMaxBytes,
+  hasAllowedFeedExtension,
+} from '@/lib/feed-uploads';
+
+// Force dynamic rendering - this route uses cookies for auth
+export const dynamic = 'force-dynamic';
+
+const startUploadSchema = z.object({
+  retailerId: z.string().optional(), // Optional: for multi-retailer merchants
+  filename: z.string().trim().min(1).max(255),
+  sizeBytes: z.number().int().positive(),
+  contentType: z.string().max(255).optional().nullable(),
+  sha256: z.string().regex(/^[a-f0-9]{64}$/, 'sha256 must be a hex digest').optional().nullable(),
+});
+
+/**
+ * Start a chunked feed file upload.
+ * The client then PUTs each chunk to /api/feed/upload/:id?index=N and
+ * POSTs /api/feed/upload/:id/complete to queue ingestion.
+ */
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  const reqLogger = logger.child({ requestId, endpoint: '/api/feed/upload', method: 'POST' });
+
+  reqLogger.info('Feed upload start request received');
+
+  try {
+    const session = await getSession();
+
+    if (!session || session.type !== 'merchant') {
+      reqLogger.warn('Unauthorized feed upload attempt');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      reqLogger.warn('Failed to parse request body');
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const validation = startUploadSchema.safeParse(body);
+    if (!validation.success) {
+      const errors = validation.error.issues.map(e => e.message);
+      reqLogger.warn('Feed upload validation failed', { errors });
+      return NextResponse.json({ error: errors[0] }, { status: 400 });
+    }
+
+    const { retailerId: inputRetailerId, filename, sizeBytes, contentType, sha256 } = validation.data;
+
+    if (!hasAllowedFeedExtension(filename)) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Upload a ${FEED_UPLOAD_EXTENSIONS.join(', ')} file.` },
+        { status: 400 }
+      );
+    }
+
+    const maxBytes = getFeedUploadMaxBytes();
+    if (sizeBytes > maxBytes) {
+      reqLogger.warn('Feed upload too large', { sizeBytes, maxBytes });
+      return NextResponse.json(
+        { error: `File is too large (max ${Math.floor(maxBytes / (1024 * 1024))} MB)` },
+        { status: 413 }
+      );
+    }
+
+    // Resolve retailer context (supports multi-retailer merchants)
+    const retailerContext = await requireRetailerContext(session, inputRetailerId);
+    const { retailerId } = retailerContext;
+
+    // Uploading replaces the catalog, same as editing the feed
+    requireRetailerPermission(retailerContext, 'EDITOR', 'upload feed files');
+
+    const feed = await prisma.retailer_feeds.findFirst({
+      where: { retailerId },
+      select: { id: true, accessType: true },
+    });
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    if (feed.accessType !== 'UPLOAD') {
+      return NextResponse.json(
+        { error: 'Switch the feed connection type to Manual Upload before uploading files' },
+        { status: 400 }
+      );
+    }
+
+    const id = crypto.randomUUID();
+    const upload = await prisma.retailer_feed_uploads.create({
+      data: {
+        id,
+        feedId: feed.id,
+        retailerId,
+        filename,
+        contentType: contentType || null,
+        sizeBytes,
+        sha256: sha256 || null,
+        storageKey: buildFeedUploadKey(retailerId, id),
+        uploadedBy: session.merchantUserId,
+      },
+    });
+
+    reqLogger.info('Feed upload started', {
+      uploadId: upload.id,
+      feedId: feed.id,
+      retailerId,
+      sizeBytes,
+    });
+
+    return NextResponse.json({
+      upload: {
+        id: upload.id,
+        chunkBytes: FEED_UPLOAD_CHUNK_BYTES,
+        chunkCount: chunkCountFor(sizeBytes),
+      },
+    });
+  } catch (error) {
+    if (error instanceof RetailerContextError) {
+      reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+    reqLogger.error('Failed to start feed upload', {}, error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
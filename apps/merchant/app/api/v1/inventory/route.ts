@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { RetailerContextError } from '@/lib/auth';
+import { authenticateApiKey, resolveApiKeyRetailer } from '@/lib/api-keys';
+import { INVENTORY_PUSH_MAX_RECORDS, pushInventory } from '@/lib/inventory-push';
+import { prisma } from '@ironscout/db';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+
+// Force dynamic rendering - this route reads auth headers
+export const dynamic = 'force-dynamic';
+
+const pushSchema = z.object({
+  retailerId: z.string().optional(), // Required when the merchant has several retailers
+  // Records are validated one by one so a bad record doesn't fail the batch
+  records: z.array(z.unknown()).min(1, 'At least one record is required'),
+});
+
+/**
+ * Push inventory records for a retailer.
+ * Authenticated with a merchant API key (Authorization: Bearer or X-API-Key),
+ * which can push for any of the merchant's active retailers.
+ * Returns a per-record result: ACCEPTED, QUARANTINED or REJECTED.
+ */
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  const reqLogger = logger.child({ requestId, endpoint: '/api/v1/inventory', method: 'POST' });
+
+  try {
+    const principal = await authenticateApiKey(request);
+
+    if (!principal) {
+      reqLogger.warn('Unauthorized inventory push attempt');
+      return NextResponse.json({ error: 'Invalid or missing API key' }, { status: 401 });
+    }
+
+    const { apiKeyId, merchantId } = principal;
+
+    if (principal.merchantStatus !== 'ACTIVE') {
+      reqLogger.warn('Inventory push denied - merchant not active', {
+        merchantId,
+        status: principal.merchantStatus,
+      });
+      return NextResponse.json(
+        { error: 'Your account must be active to push inventory' },
+        { status: 403 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      reqLogger.warn('Failed to parse request body');
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const validation = pushSchema.safeParse(body);
+    if (!validation.success) {
+      const errors = validation.error.issues.map(e => e.message);
+      reqLogger.warn('Inventory push validation failed', { errors });
+      return NextResponse.json({ error: errors[0] }, { status: 400 });
+    }
+
+    const { retailerId: inputRetailerId, records } = validation.data;
+
+    if (records.length > INVENTORY_PUSH_MAX_RECORDS) {
+      reqLogger.warn('Inventory push batch too large', { count: records.length });
+      return NextResponse.json(
+        { error: `Batches are limited to ${INVENTORY_PUSH_MAX_RECORDS} records` },
+        { status: 413 }
+      );
+    }
+
+    const retailerId = await resolveApiKeyRetailer(principal, inputRetailerId);
+
+    const feed = await prisma.retailer_feeds.findFirst({
+      where: { retailerId },
+      select: { id: true, accessType: true, enabled: true },
+    });
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Set up a feed for this retailer before pushing inventory' },
+        { status: 409 }
+      );
+    }
+
+    if (!feed.enabled) {
+      return NextResponse.json(
+        { error: 'The feed for this retailer is paused' },
+        { status: 409 }
+      );
+    }
+
+    const result = await pushInventory(
+      { retailerId, feedId: feed.id, feedAccessType: feed.accessType, apiKeyId },
+      records
+    );
+
+    reqLogger.info('Inventory push completed', {
+      merchantId,
+      retailerId,
+      feedId: feed.id,
+      runId: result.runId,
+      ...result.summary,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof RetailerContextError) {
+      reqLogger.warn('Retailer context error', { code: error.code, message: error.message });
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+    reqLogger.error('Failed to push inventory', {}, error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
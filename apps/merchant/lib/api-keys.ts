@@ -0,0 +1,212 @@
+/**
+ * Merchant API Keys
+ *
+ * Keys authenticate the inventory push API. A key acts for the merchant and
+ * is scoped to explicit retailers (merchant_api_key_retailers): the ones its
+ * creator could push for when it was created, per merchant_user_retailers.
+ * The scope is stored on the key, so it keeps working when its creator
+ * leaves; the creator is recorded for audit only. A key stops working when
+ * it is revoked.
+ *
+ * Only the SHA-256 of a key is stored; the key is shown once at creation.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '@ironscout/db';
+import type { MerchantStatus } from '@ironscout/db';
+import { canManageTeam, RetailerContextError } from './auth';
+import type { MerchantSession } from './auth';
+
+const API_KEY_PREFIX = 'isp_';
+
+/** Characters of the key kept in plaintext so users can tell keys apart */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/** lastUsedAt is a hint for the portal; write it at most this often per key */
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface GeneratedApiKey {
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+}
+
+export interface ApiKeyPrincipal {
+  apiKeyId: string;
+  merchantId: string;
+  merchantStatus: MerchantStatus;
+  /** User who created the key (audit only; null once the user is removed) */
+  createdByUserId: string | null;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('hex')}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Read a key from `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ */
+export function readApiKey(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Resolve the request's API key to the merchant it acts for.
+ * Returns null for missing, unknown or revoked keys.
+ */
+export async function authenticateApiKey(request: Request): Promise<ApiKeyPrincipal | null> {
+  const key = readApiKey(request);
+  if (!key || !key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await prisma.merchant_api_keys.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: {
+      merchants: { select: { status: true } },
+    },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  // Conditional write so a burst of requests updates the row once
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS);
+  if (!apiKey.lastUsedAt || apiKey.lastUsedAt < staleBefore) {
+    await prisma.merchant_api_keys.updateMany({
+      where: {
+        id: apiKey.id,
+        OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: staleBefore } }],
+      },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    apiKeyId: apiKey.id,
+    merchantId: apiKey.merchantId,
+    merchantStatus: apiKey.merchants.status,
+    createdByUserId: apiKey.merchantUserId,
+  };
+}
+
+export interface PushableRetailer {
+  merchantRetailerId: string;
+  retailerId: string;
+  retailerName: string;
+}
+
+/**
+ * Retailers a user can push inventory for, and so the scope of a key they
+ * create: every ACTIVE retailer for owners and admins, otherwise the ACTIVE
+ * retailers they hold EDITOR or ADMIN on via merchant_user_retailers.
+ */
+export async function listPushableRetailers(session: MerchantSession): Promise<PushableRetailer[]> {
+  const linkedRetailers = await prisma.merchant_retailers.findMany({
+    where: {
+      merchantId: session.merchantId,
+      status: 'ACTIVE',
+      ...(canManageTeam(session)
+        ? {}
+        : {
+          merchant_user_retailers: {
+            some: { merchantUserId: session.merchantUserId, role: { in: ['EDITOR', 'ADMIN'] } },
+          },
+        }),
+    },
+    include: {
+      retailers: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return linkedRetailers.map(r => ({
+    merchantRetailerId: r.id,
+    retailerId: r.retailerId,
+    retailerName: r.retailers.name,
+  }));
+}
+
+/**
+ * Resolve the retailer a key pushes for.
+ *
+ * Only retailers in the key's scope are allowed, and their merchant_retailers
+ * link must still be ACTIVE. Without inputRetailerId the key must cover
+ * exactly one active retailer.
+ *
+ * @throws RetailerContextError with the same codes as requireRetailerContext
+ */
+export async function resolveApiKeyRetailer(
+  principal: ApiKeyPrincipal,
+  inputRetailerId?: string
+): Promise<string> {
+  const scope = await prisma.merchant_api_key_retailers.findMany({
+    where: { apiKeyId: principal.apiKeyId },
+    include: {
+      merchant_retailers: {
+        include: { retailers: { select: { name: true } } },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const scopedRetailers = scope.map(s => s.merchant_retailers);
+
+  if (inputRetailerId) {
+    const relationship = scopedRetailers.find(r => r.retailerId === inputRetailerId);
+
+    if (!relationship) {
+      throw new RetailerContextError(
+        'USER_NOT_AUTHORIZED',
+        'This API key cannot push inventory for this retailer',
+        403
+      );
+    }
+
+    if (relationship.status !== 'ACTIVE') {
+      throw new RetailerContextError(
+        'RETAILER_NOT_ACTIVE',
+        `Retailer relationship is ${relationship.status.toLowerCase()}`,
+        403
+      );
+    }
+
+    return relationship.retailerId;
+  }
+
+  const activeRetailers = scopedRetailers.filter(r => r.status === 'ACTIVE');
+
+  if (activeRetailers.length === 0) {
+    throw new RetailerContextError(
+      'NO_RETAILERS',
+      'This API key has no active retailers',
+      403
+    );
+  }
+
+  if (activeRetailers.length > 1) {
+    const retailerNames = activeRetailers.map(r => r.retailers.name).join(', ');
+    throw new RetailerContextError(
+      'MULTIPLE_RETAILERS',
+      `Multiple retailers linked. Please specify retailerId. Available: ${retailerNames}`,
+      400
+    );
+  }
+
+  return activeRetailers[0].retailerId;
+}
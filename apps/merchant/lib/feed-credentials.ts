@@ -0,0 +1,34 @@
+/**
+ * Retailer Feed Credentials
+ *
+ * Feed passwords are stored in retailer_feeds.secretCiphertext, encrypted with
+ * @ironscout/crypto and bound to the feed id and secretVersion through the AAD.
+ * Feed rows returned to the browser go through maskFeedSecrets.
+ */
+
+import { buildFeedCredentialAAD, decryptSecret, encryptSecret } from '@ironscout/crypto';
+
+export { maskFeedSecrets } from '@ironscout/crypto';
+
+interface StoredFeedSecret {
+  id: string;
+  secretCiphertext: Uint8Array | null;
+  secretVersion: number;
+  /** Legacy plaintext column, cleared by `secrets:rotate` */
+  password?: string | null;
+}
+
+export function encryptFeedPassword(feedId: string, secretVersion: number, password: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(encryptSecret(password, buildFeedCredentialAAD(feedId, secretVersion))) as Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Decrypt a feed's stored password. Returns null when none is set.
+ */
+export function decryptFeedPassword(feed: StoredFeedSecret): string | null {
+  if (!feed.secretCiphertext) {
+    // Not yet migrated by secrets:rotate
+    return feed.password || null;
+  }
+  return decryptSecret(Buffer.from(feed.secretCiphertext), buildFeedCredentialAAD(feed.id, feed.secretVersion));
+}
@@ -0,0 +1,33 @@
+import type { Queue } from 'bullmq';
+import { logger } from '@/lib/logger';
+
+// Lazy-load Redis and BullMQ to avoid connection during build
+let retailerFeedIngestQueue: Queue | null = null;
+
+/**
+ * Harvester retailer feed ingest queue (shared by manual refresh and uploads)
+ */
+export async function getFeedIngestQueue(): Promise<Queue> {
+  if (!retailerFeedIngestQueue) {
+    logger.debug('Initializing BullMQ queue connection');
+    const { Queue } = await import('bullmq');
+
+    const redisHost = process.env.REDIS_HOST || 'localhost';
+    const redisPort = parseInt(process.env.REDIS_PORT || '6379', 10);
+    const redisPassword = process.env.REDIS_PASSWORD || undefined;
+
+    logger.debug('Connecting to Redis', { host: redisHost, port: redisPort, passwordSet: !!redisPassword });
+
+    retailerFeedIngestQueue = new Queue('retailer-feed-ingest', {
+      connection: {
+        host: redisHost,
+        port: redisPort,
+        password: redisPassword,
+        maxRetriesPerRequest: null,
+      },
+    });
+
+    logger.info('BullMQ queue initialized');
+  }
+  return retailerFeedIngestQueue;
+}
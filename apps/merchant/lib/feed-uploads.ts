@@ -0,0 +1,33 @@
+/**
+ * Feed Uploads
+ *
+ * Storage and limits for files merchants upload for UPLOAD feeds. The
+ * harvester reads the same storage when it ingests the upload.
+ */
+
+import {
+  createFeedUploadStorage,
+  resolveFeedUploadLimits,
+  type FeedUploadStorage,
+} from '@ironscout/db/feed-upload-storage.js';
+
+export { FEED_UPLOAD_CHUNK_BYTES, chunkCountFor, expectedChunkBytes, buildFeedUploadKey } from '@ironscout/db/feed-upload-storage.js';
+
+/** File types the feed connectors can parse */
+export const FEED_UPLOAD_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xml', '.json'];
+
+let storage: FeedUploadStorage | null = null;
+
+export function getFeedUploadStorage(): FeedUploadStorage {
+  storage ??= createFeedUploadStorage();
+  return storage;
+}
+
+export function getFeedUploadMaxBytes(): number {
+  return resolveFeedUploadLimits().maxBytes;
+}
+
+export function hasAllowedFeedExtension(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return FEED_UPLOAD_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
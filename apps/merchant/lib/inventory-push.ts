@@ -0,0 +1,517 @@
+/**
+ * Inventory Push
+ *
+ * Applies batches of records pushed through the inventory API. Records use
+ * the harvester's ParsedFeedRecord shape and go through the same lanes as a
+ * polled feed (shared rules in @ironscout/db/retailer-inventory.js):
+ * - ACCEPTED: valid UPC, title and price -> retailer_skus + source_products + prices
+ * - QUARANTINED: title and price but no valid UPC -> quarantined_records
+ * - REJECTED: missing title/price or not a valid record
+ *
+ * Each batch is recorded as a retailer_feed_runs row so prices carry run
+ * provenance (ADR-015 ignore/correction semantics apply to pushes too).
+ * Unlike a polled run, a batch never deactivates SKUs it does not mention.
+ *
+ * Accepted records are also written as source_products under the retailer's
+ * push source (a disabled, never-crawled sources row) and queued for the
+ * product resolver, which only consumes source_products. Each record's
+ * writes commit together in one transaction.
+ */
+
+import { prisma, Prisma } from '@ironscout/db';
+import {
+  classifyFeedRecord,
+  generateContentHash,
+  generateSkuHash,
+  validateUPC,
+} from '@ironscout/db/retailer-inventory.js';
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import { loggers } from './logger';
+import { enqueueProductResolve, type ProductResolveTarget } from './product-resolve-queue';
+
+const log = loggers.feeds;
+
+/** Largest batch accepted per request */
+export const INVENTORY_PUSH_MAX_RECORDS = 500;
+
+/** Marks a retailer's push source; not a fetchable URL */
+const PUSH_SOURCE_URL = 'push://inventory-api';
+
+/** ParsedFeedRecord fields a client may send (rawRow/rowIndex are derived) */
+export const pushRecordSchema = z.object({
+  upc: z.string().max(64).nullish(),
+  sku: z.string().max(255).nullish(),
+  title: z.string().max(500),
+  description: z.string().max(10000).nullish(),
+  brand: z.string().max(255).nullish(),
+  price: z.number().finite(),
+  salePrice: z.number().finite().nullish(),
+  caliber: z.string().max(100).nullish(),
+  grainWeight: z.number().positive().nullish(),
+  caseType: z.string().max(100).nullish(),
+  bulletType: z.string().max(100).nullish(),
+  roundCount: z.number().int().positive().nullish(),
+  inStock: z.boolean(),
+  quantity: z.number().int().nonnegative().nullish(),
+  productUrl: z.string().url().max(2048).nullish(),
+  imageUrl: z.string().url().max(2048).nullish(),
+});
+
+export type PushRecordInput = z.infer<typeof pushRecordSchema>;
+
+export type PushRecordStatus = 'ACCEPTED' | 'QUARANTINED' | 'REJECTED';
+
+export interface PushRecordError {
+  field: string;
+  code: string;
+  message: string;
+}
+
+export interface PushRecordResult {
+  index: number;
+  status: PushRecordStatus;
+  retailerSkuId?: string;
+  quarantineId?: string;
+  errors: PushRecordError[];
+}
+
+export interface InventoryPushResult {
+  runId: string;
+  summary: { received: number; accepted: number; quarantined: number; rejected: number };
+  results: PushRecordResult[];
+}
+
+interface PushTarget {
+  retailerId: string;
+  feedId: string;
+  feedAccessType: string;
+  apiKeyId: string;
+}
+
+/** A validated record, mirroring the harvester's ParsedFeedRecord */
+interface PushedRecord {
+  upc?: string;
+  sku?: string;
+  title: string;
+  description?: string;
+  brand?: string;
+  price: number;
+  salePrice?: number;
+  caliber?: string;
+  grainWeight?: number;
+  caseType?: string;
+  bulletType?: string;
+  roundCount?: number;
+  inStock: boolean;
+  quantity?: number;
+  productUrl?: string;
+  imageUrl?: string;
+  rawRow: Record<string, unknown>;
+}
+
+function text(value: string | null | undefined): string | undefined {
+  return value?.trim() || undefined;
+}
+
+function toPushedRecord(input: PushRecordInput, raw: Record<string, unknown>): PushedRecord {
+  // As in the feed connectors, a positive sale price is the price offered
+  const salePrice = input.salePrice && input.salePrice > 0 ? input.salePrice : undefined;
+
+  return {
+    upc: validateUPC(text(input.upc)) || undefined,
+    sku: text(input.sku),
+    title: input.title.trim(),
+    description: text(input.description),
+    brand: text(input.brand),
+    price: salePrice ?? input.price,
+    salePrice,
+    caliber: text(input.caliber),
+    grainWeight: input.grainWeight ?? undefined,
+    caseType: text(input.caseType),
+    bulletType: text(input.bulletType),
+    roundCount: input.roundCount ?? undefined,
+    inStock: input.inStock,
+    quantity: input.quantity ?? undefined,
+    productUrl: text(input.productUrl),
+    imageUrl: text(input.imageUrl),
+    rawRow: raw,
+  };
+}
+
+/**
+ * Same key the harvester uses to de-duplicate quarantined feed rows
+ */
+function generateMatchKey(title: string, sku?: string): string {
+  return createHash('sha256')
+    .update([title.toLowerCase().trim(), sku || ''].join('|'))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+/**
+ * Find or create the sources row that pushed source_products belong to.
+ * sources.pushRetailerId is unique, so concurrent first pushes share one row.
+ * It is disabled so crawl triggers skip it.
+ */
+async function getPushSourceId(retailerId: string): Promise<string> {
+  const retailer = await prisma.retailers.findUnique({
+    where: { id: retailerId },
+    select: { name: true },
+  });
+
+  const source = await prisma.sources.upsert({
+    where: { pushRetailerId: retailerId },
+    create: {
+      name: `${retailer?.name ?? retailerId} (inventory push)`,
+      url: PUSH_SOURCE_URL,
+      type: 'FEED_JSON',
+      sourceKind: 'DIRECT',
+      enabled: false,
+      retailerId,
+      pushRetailerId: retailerId,
+    },
+    update: {},
+    select: { id: true },
+  });
+  return source.id;
+}
+
+async function writeIndexableRecord(
+  target: PushTarget,
+  runId: string,
+  sourceId: string,
+  record: PushedRecord & { upc: string }
+): Promise<{ retailerSkuId: string; resolve: ProductResolveTarget }> {
+  const { retailerId, feedId } = target;
+  const skuHash = generateSkuHash(record.title, record.upc, record.sku);
+  const contentHash = generateContentHash(record);
+  const identityKey = `upc:${record.upc}`;
+
+  return prisma.$transaction(async (tx) => {
+    const retailerSku = await tx.retailer_skus.upsert({
+      where: {
+        retailerId_retailerSkuHash: { retailerId, retailerSkuHash: skuHash },
+      },
+      create: {
+        retailerId,
+        feedId,
+        feedRunId: runId,
+        retailerSkuHash: skuHash,
+        contentHash,
+        rawTitle: record.title,
+        rawDescription: record.description,
+        rawPrice: record.price,
+        rawUpc: record.upc,
+        rawSku: record.sku,
+        rawCaliber: record.caliber,
+        rawGrain: record.grainWeight ? String(record.grainWeight) : undefined,
+        rawCase: record.caseType,
+        rawBulletType: record.bulletType,
+        rawBrand: record.brand,
+        rawPackSize: record.roundCount,
+        rawInStock: record.inStock,
+        rawUrl: record.productUrl,
+        rawImageUrl: record.imageUrl,
+        isActive: true,
+        lastSeenAt: new Date(),
+      },
+      update: {
+        feedRunId: runId,
+        contentHash,
+        rawPrice: record.price,
+        rawInStock: record.inStock,
+        rawDescription: record.description,
+        rawImageUrl: record.imageUrl,
+        isActive: true,
+        lastSeenAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    // Resolver input: one source product per UPC under the push source
+    const sourceProductFields = {
+      title: record.title,
+      url: record.productUrl || '',
+      imageUrl: record.imageUrl,
+      brand: record.brand,
+      description: record.description,
+      caliber: record.caliber,
+      grainWeight: record.grainWeight ? Math.round(record.grainWeight) : undefined,
+      roundCount: record.roundCount,
+      lastUpdatedByRunId: runId,
+    };
+
+    const existingSourceProduct = await tx.source_products.findFirst({
+      where: { sourceId, identityKey },
+      select: { id: true },
+    });
+
+    const sourceProduct = existingSourceProduct
+      ? await tx.source_products.update({
+        where: { id: existingSourceProduct.id },
+        data: sourceProductFields,
+        select: { id: true },
+      })
+      : await tx.source_products.create({
+        data: { ...sourceProductFields, sourceId, identityKey, createdByRunId: runId },
+        select: { id: true },
+      });
+
+    const identifiers = [
+      { idType: 'UPC' as const, idValue: record.upc, isCanonical: true, normalizedValue: record.upc.replace(/^0+/, '') },
+      ...(record.sku
+        ? [{ idType: 'SKU' as const, idValue: record.sku, isCanonical: false, normalizedValue: record.sku.toUpperCase() }]
+        : []),
+    ];
+    for (const identifier of identifiers) {
+      await tx.source_product_identifiers.upsert({
+        where: {
+          source_product_identifiers_unique: {
+            sourceProductId: sourceProduct.id,
+            idType: identifier.idType,
+            idValue: identifier.idValue,
+            namespace: '',
+          },
+        },
+        create: { ...identifier, sourceProductId: sourceProduct.id, namespace: '' },
+        update: {},
+      });
+    }
+
+    // Append-only price history: only write when price or stock changed
+    const lastPrice = await tx.prices.findFirst({
+      where: { retailerSkuId: retailerSku.id },
+      orderBy: { observedAt: 'desc' },
+      select: { price: true, inStock: true },
+    });
+
+    const shouldWritePrice = !lastPrice ||
+      parseFloat(lastPrice.price.toString()) !== record.price ||
+      lastPrice.inStock !== record.inStock;
+
+    if (shouldWritePrice) {
+      await tx.prices.create({
+        data: {
+          retailerId,
+          retailerSkuId: retailerSku.id,
+          sourceId,
+          sourceProductId: sourceProduct.id,
+          price: record.price,
+          inStock: record.inStock,
+          url: record.productUrl || '',
+          observedAt: new Date(),
+          ingestionRunType: 'RETAILER_FEED',
+          ingestionRunId: runId,
+        },
+      });
+    }
+
+    return {
+      retailerSkuId: retailerSku.id,
+      resolve: { sourceProductId: sourceProduct.id, sourceId, identityKey },
+    };
+  });
+}
+
+async function writeQuarantineRecord(
+  target: PushTarget,
+  runId: string,
+  record: PushedRecord,
+  errors: PushRecordError[]
+): Promise<string> {
+  const { retailerId, feedId } = target;
+  const parsedFields = {
+    title: record.title,
+    price: record.price,
+    sku: record.sku,
+    brand: record.brand,
+    caliber: record.caliber,
+    inStock: record.inStock,
+  };
+
+  const quarantined = await prisma.quarantined_records.upsert({
+    where: {
+      feedId_matchKey: { feedId, matchKey: generateMatchKey(record.title, record.sku) },
+    },
+    create: {
+      feedType: 'RETAILER',
+      retailerId,
+      feedId,
+      runId,
+      matchKey: generateMatchKey(record.title, record.sku),
+      rawData: record.rawRow as Prisma.InputJsonValue,
+      parsedFields,
+      blockingErrors: errors as unknown as Prisma.InputJsonValue,
+      status: 'QUARANTINED',
+    },
+    update: {
+      runId,
+      rawData: record.rawRow as Prisma.InputJsonValue,
+      parsedFields,
+      blockingErrors: errors as unknown as Prisma.InputJsonValue,
+      // Don't update status if already RESOLVED
+      updatedAt: new Date(),
+    },
+  });
+
+  return quarantined.id;
+}
+
+async function applyRecord(
+  target: PushTarget,
+  runId: string,
+  sourceId: string,
+  raw: unknown,
+  index: number,
+  resolveTargets: ProductResolveTarget[]
+): Promise<PushRecordResult> {
+  const parsed = pushRecordSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      index,
+      status: 'REJECTED',
+      errors: parsed.error.issues.map((issue) => ({
+        field: issue.path.join('.') || '_row',
+        code: 'MALFORMED_ROW',
+        message: issue.message,
+      })),
+    };
+  }
+
+  const record = toPushedRecord(parsed.data, raw as Record<string, unknown>);
+  const classification = classifyFeedRecord(record);
+  const errors = classification.errors.map(({ field, code, message }) => ({ field, code, message }));
+
+  // INDEXABLE implies a valid UPC
+  if (classification.lane === 'INDEXABLE' && record.upc) {
+    const { retailerSkuId, resolve } = await writeIndexableRecord(
+      target, runId, sourceId, { ...record, upc: record.upc }
+    );
+    resolveTargets.push(resolve);
+    return { index, status: 'ACCEPTED', retailerSkuId, errors };
+  }
+
+  if (classification.lane === 'QUARANTINE') {
+    const quarantineId = await writeQuarantineRecord(target, runId, record, errors);
+    return { index, status: 'QUARANTINED', quarantineId, errors };
+  }
+
+  return { index, status: 'REJECTED', errors };
+}
+
+/**
+ * Apply a batch of pushed records to a retailer's feed and record the run.
+ */
+export async function pushInventory(target: PushTarget, records: unknown[]): Promise<InventoryPushResult> {
+  const startTime = Date.now();
+  const sourceId = await getPushSourceId(target.retailerId);
+
+  const run = await prisma.retailer_feed_runs.create({
+    data: {
+      retailerId: target.retailerId,
+      feedId: target.feedId,
+      apiKeyId: target.apiKeyId,
+      status: 'RUNNING',
+    },
+  });
+
+  const results: PushRecordResult[] = [];
+  const resolveTargets: ProductResolveTarget[] = [];
+  for (let index = 0; index < records.length; index++) {
+    try {
+      results.push(await applyRecord(target, run.id, sourceId, records[index], index, resolveTargets));
+    } catch (error) {
+      log.error('Failed to store pushed record', { runId: run.id, index }, error);
+      results.push({
+        index,
+        status: 'REJECTED',
+        errors: [{ field: '_row', code: 'PARSE_ERROR', message: 'Failed to store record' }],
+      });
+    }
+  }
+
+  const summary = {
+    received: records.length,
+    accepted: results.filter((r) => r.status === 'ACCEPTED').length,
+    quarantined: results.filter((r) => r.status === 'QUARANTINED').length,
+    rejected: results.filter((r) => r.status === 'REJECTED').length,
+  };
+
+  const errorCodes: Record<string, number> = {};
+  for (const result of results) {
+    for (const error of result.errors) {
+      errorCodes[error.code] = (errorCodes[error.code] || 0) + 1;
+    }
+  }
+  const primaryErrorCode = Object.entries(errorCodes)
+    .sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+  const rejected = results
+    .filter((r) => r.status === 'REJECTED')
+    .map((r) => ({ row: r.index + 1, error: r.errors[0]?.message, code: r.errors[0]?.code }));
+
+  const status = summary.accepted + summary.quarantined === 0
+    ? 'FAILURE'
+    : summary.quarantined + summary.rejected > 0 ? 'WARNING' : 'SUCCESS';
+
+  const completedAt = new Date();
+  await prisma.retailer_feed_runs.update({
+    where: { id: run.id },
+    data: {
+      status,
+      completedAt,
+      duration: Date.now() - startTime,
+      rowCount: summary.received,
+      indexedCount: summary.accepted,
+      quarantinedCount: summary.quarantined,
+      rejectedCount: summary.rejected,
+      primaryErrorCode,
+      errorCodes,
+      errors: rejected.length > 0 ? rejected.slice(0, 100) : undefined,
+    },
+  });
+
+  // Push-only feeds take their health from batches. Polled feeds keep the
+  // health and lastRunAt of their scheduled runs, which drive scheduling.
+  if (target.feedAccessType === 'PUSH') {
+    const rejectRatio = summary.rejected / summary.received;
+    const quarantineRatio = summary.accepted + summary.quarantined > 0
+      ? summary.quarantined / (summary.accepted + summary.quarantined)
+      : 0;
+    const feedStatus = rejectRatio > 0.5
+      ? 'FAILED'
+      : quarantineRatio > 0.3 || rejectRatio > 0.1 ? 'WARNING' : 'HEALTHY';
+
+    await prisma.retailer_feeds.update({
+      where: { id: target.feedId },
+      data: {
+        lastRunAt: completedAt,
+        lastSuccessAt: feedStatus !== 'FAILED' ? completedAt : undefined,
+        lastFailureAt: feedStatus === 'FAILED' ? completedAt : undefined,
+        lastError: feedStatus === 'FAILED' ? `High rejection rate: ${(rejectRatio * 100).toFixed(1)}%` : null,
+        primaryErrorCode: feedStatus === 'HEALTHY' ? null : primaryErrorCode,
+        status: feedStatus,
+      },
+    });
+  }
+
+  // Records are already stored; a queue failure only delays resolution
+  let resolverQueued = 0;
+  try {
+    resolverQueued = await enqueueProductResolve(resolveTargets, run.id);
+  } catch (error) {
+    log.error('Failed to queue pushed records for the resolver', { runId: run.id, count: resolveTargets.length }, error);
+  }
+
+  log.info('Inventory push applied', {
+    runId: run.id,
+    retailerId: target.retailerId,
+    feedId: target.feedId,
+    apiKeyId: target.apiKeyId,
+    status,
+    resolverQueued,
+    ...summary,
+  });
+
+  return { runId: run.id, summary, results };
+}
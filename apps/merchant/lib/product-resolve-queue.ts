@@ -0,0 +1,115 @@
+import type { Queue } from 'bullmq';
+import { prisma } from '@ironscout/db';
+import { logger } from '@/lib/logger';
+
+// Should match the harvester's RESOLVER_VERSION
+const RESOLVER_VERSION = '1.2.0';
+
+// Must match the harvester's ProductResolveJobData
+interface ProductResolveJobData {
+  sourceProductId: string;
+  trigger: 'INGEST' | 'RECONCILE' | 'MANUAL';
+  resolverVersion: string;
+  /** Originating run, for log correlation only */
+  affiliateFeedRunId?: string;
+}
+
+export interface ProductResolveTarget {
+  sourceProductId: string;
+  sourceId: string;
+  identityKey: string;
+}
+
+// Lazy-load Redis and BullMQ to avoid connection during build
+let productResolveQueue: Queue<ProductResolveJobData> | null = null;
+
+/**
+ * Harvester product resolver queue
+ */
+async function getProductResolveQueue(): Promise<Queue<ProductResolveJobData>> {
+  if (!productResolveQueue) {
+    const { Queue } = await import('bullmq');
+
+    productResolveQueue = new Queue<ProductResolveJobData>('product-resolve', {
+      connection: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379', 10),
+        password: process.env.REDIS_PASSWORD || undefined,
+        maxRetriesPerRequest: null,
+      },
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 1000 },
+      },
+    });
+  }
+  return productResolveQueue;
+}
+
+/**
+ * Queue source products for the resolver, deduplicated the same way as the
+ * harvester's enqueueProductResolve: a product_resolve_requests row per
+ * sourceId:identityKey, and a job only when that row is (again) PENDING.
+ * A FAILED request is retried; PENDING, PROCESSING and COMPLETED are left alone.
+ *
+ * @param runId - Feed run that produced the source products (log correlation)
+ * @returns Number of jobs enqueued
+ */
+export async function enqueueProductResolve(
+  targets: ProductResolveTarget[],
+  runId: string
+): Promise<number> {
+  const jobs = [];
+
+  for (const { sourceProductId, sourceId, identityKey } of targets) {
+    const [request] = await prisma.$queryRaw<Array<{ status: string }>>`
+      INSERT INTO "product_resolve_requests" (
+        "id", "idempotencyKey", "sourceProductId", "sourceId",
+        "status", "attempts", "createdAt", "updatedAt"
+      )
+      VALUES (
+        gen_random_uuid()::text,
+        ${`${sourceId}:${identityKey}`},
+        ${sourceProductId},
+        ${sourceId},
+        'PENDING'::"ProductResolveRequestStatus",
+        0,
+        NOW(),
+        NOW()
+      )
+      ON CONFLICT ("idempotencyKey") DO UPDATE
+      SET
+        "status" = CASE
+          WHEN "product_resolve_requests"."status" = 'FAILED' THEN 'PENDING'::"ProductResolveRequestStatus"
+          ELSE "product_resolve_requests"."status"
+        END,
+        "updatedAt" = NOW()
+      RETURNING "status"::text
+    `;
+
+    if (request?.status === 'PENDING') {
+      jobs.push({
+        name: 'RESOLVE_SOURCE_PRODUCT',
+        data: {
+          sourceProductId,
+          trigger: 'INGEST' as const,
+          resolverVersion: RESOLVER_VERSION,
+          affiliateFeedRunId: runId,
+        },
+        opts: {
+          // BullMQ doesn't allow colons in job IDs
+          jobId: `RESOLVE_SOURCE_PRODUCT_${sourceProductId}`,
+          delay: 10_000,
+        },
+      });
+    }
+  }
+
+  if (jobs.length > 0) {
+    const queue = await getProductResolveQueue();
+    await queue.addBulk(jobs);
+    logger.debug('Queued product resolve jobs', { runId, count: jobs.length });
+  }
+
+  return jobs.length;
+}
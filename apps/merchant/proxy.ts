@@ -23,6 +23,7 @@ const publicPaths = [
   '/reset-password',
   '/forgot-password',
   '/api/auth',
+  '/api/v1', // Inventory push API authenticates with API keys
 ];
 
 export default async function proxy(request: NextRequest) {
@@ -1,7 +1,8 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useState, Suspense } from 'react'
 import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
 import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -23,21 +24,26 @@ interface Execution {
   source: {
     name: string
   }
+  extraction_rules_version?: {
+    version: number
+  } | null
   _count: {
     logs: number
   }
 }
 
-export default function ExecutionsPage() {
+function ExecutionsContent() {
+  const searchParams = useSearchParams()
   const [executions, setExecutions] = useState<Execution[]>([])
   const [loading, setLoading] = useState(true)
   const [statusFilter, setStatusFilter] = useState<string>('')
+  const [rulesVersionFilter, setRulesVersionFilter] = useState<string>(searchParams.get('extractionRulesVersionId') || '')
   const [page, setPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
 
   useEffect(() => {
     fetchExecutions()
-  }, [page, statusFilter])
+  }, [page, statusFilter, rulesVersionFilter])
 
   async function fetchExecutions() {
     setLoading(true)
@@ -48,6 +54,7 @@ export default function ExecutionsPage() {
         limit: '20',
       })
       if (statusFilter) params.append('status', statusFilter)
+      if (rulesVersionFilter) params.append('extractionRulesVersionId', rulesVersionFilter)
 
       const response = await fetch(`${apiUrl}/api/executions?${params}`)
       const data = await response.json()
@@ -103,6 +110,19 @@ export default function ExecutionsPage() {
             <option value="FAILED">Failed</option>
           </select>
         </div>
+
+        {rulesVersionFilter && (
+          <div className="mt-4 flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Filtered by extraction rules version:</span>
+            <Badge className="bg-purple-100 text-purple-800">{rulesVersionFilter}</Badge>
+            <button
+              onClick={() => { setRulesVersionFilter(''); setPage(1) }}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Clear
+            </button>
+          </div>
+        )}
       </Card>
 
       {/* Executions Table */}
@@ -150,6 +170,9 @@ export default function ExecutionsPage() {
                   <tr key={execution.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">{execution.source.name}</div>
+                      {execution.extraction_rules_version && (
+                        <div className="text-xs text-gray-500">Rules v{execution.extraction_rules_version.version}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <Badge className={getStatusBadge(execution.status)}>
@@ -209,3 +232,20 @@ export default function ExecutionsPage() {
     </div>
   )
 }
+
+export default function ExecutionsPage() {
+  return (
+    <Suspense fallback={
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Executions</h1>
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-20 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    }>
+      <ExecutionsContent />
+    </Suspense>
+  )
+}
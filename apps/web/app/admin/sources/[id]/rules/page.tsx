@@ -0,0 +1,632 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { createLogger } from '@/lib/logger'
+import { env } from '@/lib/env'
+
+const logger = createLogger('app:admin:source-rules')
+
+const PREVIEW_DEBOUNCE_MS = 400
+
+type SelectorType = 'CSS' | 'XPATH' | 'JSONPATH'
+
+interface FieldRule {
+  selector?: string
+  attribute?: string
+  pattern?: string
+  inStockPattern?: string
+}
+
+interface ExtractionRules {
+  selectorType: SelectorType
+  item: string
+  fields: Record<string, FieldRule>
+  nextPage?: FieldRule
+  currency: string
+}
+
+interface RuleVersion {
+  id: string
+  version: number
+  summary: string
+  createdAt: string
+  createdBy: string
+  isActive: boolean
+  rules: ExtractionRules | null
+  executions: {
+    total: number
+    success: number
+    failed: number
+    lastStartedAt: string | null
+  }
+}
+
+interface SourceRules {
+  sourceId: string
+  sourceType: string
+  sourceUrl: string
+  activeVersionId: string | null
+  rules: ExtractionRules | null
+  versions: RuleVersion[]
+}
+
+interface PreviewRecord {
+  title: string | null
+  url: string | null
+  price: number | null
+  currency: string
+  inStock: boolean
+  upc: string | null
+  sku: string | null
+  roundCount: number | null
+  missing: string[]
+}
+
+type Preview =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'ok'; records: PreviewRecord[]; nextPage: string | null }
+  | { status: 'error'; errors: string[] }
+
+const FIELDS: Array<{ key: string; label: string; required?: boolean }> = [
+  { key: 'title', label: 'Title', required: true },
+  { key: 'price', label: 'Price', required: true },
+  { key: 'url', label: 'Product URL' },
+  { key: 'inStock', label: 'Stock' },
+  { key: 'upc', label: 'UPC' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'roundCount', label: 'Round count' },
+]
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function emptyRules(sourceType: string): ExtractionRules {
+  return {
+    selectorType: sourceType === 'JSON' ? 'JSONPATH' : 'CSS',
+    item: '',
+    fields: {},
+    currency: 'USD',
+  }
+}
+
+/** Drop blank inputs so the API only sees what the admin filled in */
+function compactRule(rule: FieldRule | undefined): FieldRule | undefined {
+  if (!rule) return undefined
+  const compact: FieldRule = {}
+  for (const [key, value] of Object.entries(rule) as Array<[keyof FieldRule, string | undefined]>) {
+    if (value && value.trim()) compact[key] = value.trim()
+  }
+  return Object.keys(compact).length > 0 ? compact : undefined
+}
+
+function toPayload(rules: ExtractionRules) {
+  const fields: Record<string, FieldRule> = {}
+  for (const { key } of FIELDS) {
+    const rule = compactRule(rules.fields[key])
+    if (rule) fields[key] = rule
+  }
+  return {
+    selectorType: rules.selectorType,
+    item: rules.item.trim(),
+    fields,
+    nextPage: compactRule(rules.nextPage),
+    currency: rules.currency.trim() || 'USD',
+  }
+}
+
+export default function SourceRulesPage() {
+  const params = useParams<{ id: string }>()
+  const sourceId = params.id
+
+  const [data, setData] = useState<SourceRules | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rules, setRules] = useState<ExtractionRules>(emptyRules('HTML'))
+  const [sample, setSample] = useState('')
+  const [pageUrl, setPageUrl] = useState('')
+  const [summary, setSummary] = useState('')
+  const [preview, setPreview] = useState<Preview>({ status: 'idle' })
+  const [saveErrors, setSaveErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchRules()
+  }, [sourceId])
+
+  async function fetchRules() {
+    try {
+      const apiUrl = env.NEXT_PUBLIC_API_URL
+      const response = await fetch(`${apiUrl}/api/sources/${sourceId}/extraction-rules`)
+      if (!response.ok) {
+        setData(null)
+        return
+      }
+      const body: SourceRules = await response.json()
+      setData(body)
+      setRules(body.rules ?? emptyRules(body.sourceType))
+      setPageUrl(current => current || body.sourceUrl)
+    } catch (error) {
+      logger.error('Error fetching extraction rules', { sourceId }, error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const payload = useMemo(() => toPayload(rules), [rules])
+
+  // Live preview: re-run the rules against the pasted sample as they change
+  useEffect(() => {
+    if (!data || !sample.trim()) {
+      setPreview({ status: 'idle' })
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setPreview({ status: 'loading' })
+      try {
+        const apiUrl = env.NEXT_PUBLIC_API_URL
+        const response = await fetch(`${apiUrl}/api/sources/extraction-rules/preview`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sourceType: data.sourceType,
+            rules: payload,
+            sample,
+            pageUrl: pageUrl || undefined,
+          }),
+          signal: controller.signal,
+        })
+        const body = await response.json()
+        if (response.ok) {
+          setPreview({ status: 'ok', records: body.records, nextPage: body.nextPage })
+        } else {
+          setPreview({ status: 'error', errors: formatErrors(body) })
+        }
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return
+        logger.error('Error previewing extraction rules', { sourceId }, error)
+        setPreview({ status: 'error', errors: ['Preview request failed'] })
+      }
+    }, PREVIEW_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [data, payload, sample, pageUrl])
+
+  async function saveRules(clear = false) {
+    if (!summary.trim()) {
+      setSaveErrors(['Describe the change before saving'])
+      return
+    }
+    if (clear && !confirm('Remove the extraction rules? The crawler will fall back to generic extraction.')) return
+
+    setSaving(true)
+    setSaveErrors([])
+    try {
+      const apiUrl = env.NEXT_PUBLIC_API_URL
+      const response = await fetch(`${apiUrl}/api/sources/${sourceId}/extraction-rules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: clear ? null : payload, summary: summary.trim() }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        setSaveErrors(formatErrors(body))
+        return
+      }
+      setData(body)
+      setRules(body.rules ?? emptyRules(body.sourceType))
+      setSummary('')
+    } catch (error) {
+      logger.error('Error saving extraction rules', { sourceId }, error)
+      setSaveErrors(['Failed to save extraction rules'])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function rollback(version: number) {
+    if (!confirm(`Roll back to version ${version}? Future crawls will use its rules.`)) return
+
+    try {
+      const apiUrl = env.NEXT_PUBLIC_API_URL
+      const response = await fetch(`${apiUrl}/api/sources/${sourceId}/extraction-rules/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        alert(`Error: ${formatErrors(body).join('\n')}`)
+        return
+      }
+      setData(body)
+      setRules(body.rules ?? emptyRules(body.sourceType))
+    } catch (error) {
+      logger.error('Error rolling back extraction rules', { sourceId, version }, error)
+      alert('Failed to roll back extraction rules')
+    }
+  }
+
+  function updateField(key: string, patch: Partial<FieldRule>) {
+    setRules(current => ({
+      ...current,
+      fields: { ...current.fields, [key]: { ...current.fields[key], ...patch } },
+    }))
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Extraction Rules</h1>
+        <div className="animate-pulse space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-32 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <Card className="p-12 text-center">
+        <p className="text-gray-600">Source not found.</p>
+        <Link href="/admin/sources" className="mt-4 inline-block text-blue-600 hover:text-blue-700">
+          Back to sources
+        </Link>
+      </Card>
+    )
+  }
+
+  const activeVersion = data.versions.find(v => v.isActive)
+  const selectorTypes: SelectorType[] = data.sourceType === 'JSON' ? ['JSONPATH'] : ['CSS', 'XPATH']
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <Link href="/admin/sources" className="text-sm text-blue-600 hover:text-blue-700">
+            &larr; Sources
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Extraction Rules</h1>
+          <div className="flex items-center space-x-2 mt-1">
+            <Badge className="bg-blue-100 text-blue-800">{data.sourceType}</Badge>
+            <span className="text-sm text-gray-600">{data.sourceUrl}</span>
+          </div>
+        </div>
+        <Badge className={activeVersion ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+          {activeVersion ? `Active: v${activeVersion.version}` : 'Generic extraction'}
+        </Badge>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Rules */}
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Rules</h2>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Selector type</label>
+              <select
+                value={rules.selectorType}
+                onChange={(e) => setRules({ ...rules, selectorType: e.target.value as SelectorType })}
+                className={inputClass}
+              >
+                {selectorTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Item selector</label>
+              <input
+                type="text"
+                value={rules.item}
+                onChange={(e) => setRules({ ...rules, item: e.target.value })}
+                className={inputClass}
+                placeholder={rules.selectorType === 'JSONPATH' ? '$.data.products[*]' : 'li.product'}
+              />
+            </div>
+          </div>
+
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="pb-2 pr-2">Field</th>
+                <th className="pb-2 pr-2">Selector</th>
+                {rules.selectorType !== 'JSONPATH' && <th className="pb-2 pr-2">Attribute</th>}
+                <th className="pb-2">Pattern</th>
+              </tr>
+            </thead>
+            <tbody>
+              {FIELDS.map(({ key, label, required }) => (
+                <tr key={key}>
+                  <td className="py-1 pr-2 whitespace-nowrap text-gray-700">
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      value={rules.fields[key]?.selector ?? ''}
+                      onChange={(e) => updateField(key, { selector: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  {rules.selectorType !== 'JSONPATH' && (
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={rules.fields[key]?.attribute ?? ''}
+                        onChange={(e) => updateField(key, { attribute: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                  )}
+                  <td className="py-1">
+                    <input
+                      type="text"
+                      value={(key === 'inStock' ? rules.fields[key]?.inStockPattern : rules.fields[key]?.pattern) ?? ''}
+                      onChange={(e) =>
+                        updateField(key, key === 'inStock' ? { inStockPattern: e.target.value } : { pattern: e.target.value })
+                      }
+                      className={inputClass}
+                      placeholder={key === 'inStock' ? 'in stock when matched' : ''}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Next page selector</label>
+              <input
+                type="text"
+                value={rules.nextPage?.selector ?? ''}
+                onChange={(e) => setRules({ ...rules, nextPage: { ...rules.nextPage, selector: e.target.value } })}
+                className={inputClass}
+                placeholder="Optional; otherwise the pagination config applies"
+              />
+            </div>
+            {rules.selectorType !== 'JSONPATH' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Attribute</label>
+                <input
+                  type="text"
+                  value={rules.nextPage?.attribute ?? ''}
+                  onChange={(e) => setRules({ ...rules, nextPage: { ...rules.nextPage, attribute: e.target.value } })}
+                  className={inputClass}
+                  placeholder="href"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <input
+                type="text"
+                value={rules.currency}
+                onChange={(e) => setRules({ ...rules, currency: e.target.value.toUpperCase() })}
+                className={inputClass}
+                maxLength={3}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Change summary</label>
+              <input
+                type="text"
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                className={inputClass}
+                placeholder="e.g. Read sale price instead of list price"
+              />
+            </div>
+          </div>
+
+          {saveErrors.length > 0 && (
+            <ul className="text-sm text-red-700 list-disc pl-5">
+              {saveErrors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex space-x-2">
+            <Button onClick={() => saveRules()} disabled={saving} className="bg-green-600 hover:bg-green-700">
+              {saving ? 'Saving...' : 'Save as New Version'}
+            </Button>
+            {data.rules && (
+              <Button onClick={() => saveRules(true)} disabled={saving} className="bg-gray-600 hover:bg-gray-700">
+                Remove Rules
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {/* Sample */}
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Sample Page</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Page URL</label>
+            <input
+              type="url"
+              value={pageUrl}
+              onChange={(e) => setPageUrl(e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Relative links in the sample resolve against this URL.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Paste the page {data.sourceType === 'JSON' ? 'response' : 'source'}
+            </label>
+            <textarea
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              rows={18}
+              className={inputClass}
+              spellCheck={false}
+            />
+          </div>
+        </Card>
+      </div>
+
+      {/* Preview */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Preview</h2>
+          {preview.status === 'ok' && (
+            <span className="text-sm text-gray-600">
+              {preview.records.length} records
+              {' · '}
+              {preview.records.filter(r => r.missing.length === 0).length} complete
+            </span>
+          )}
+        </div>
+
+        {preview.status === 'idle' && <p className="text-sm text-gray-600">Paste a sample page to preview extracted records.</p>}
+        {preview.status === 'loading' && <p className="text-sm text-gray-600">Extracting...</p>}
+        {preview.status === 'error' && (
+          <ul className="text-sm text-red-700 list-disc pl-5">
+            {preview.errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+        {preview.status === 'ok' && (
+          <>
+            <p className="text-sm text-gray-600">
+              Next page: {preview.nextPage ? <span className="font-mono">{preview.nextPage}</span> : 'none'}
+            </p>
+            {preview.records.length === 0 ? (
+              <p className="text-sm text-gray-600">The item selector matched nothing.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Title', 'Price', 'Stock', 'UPC', 'SKU', 'Rounds', 'URL'].map(heading => (
+                        <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {preview.records.map((record, i) => (
+                      <tr key={i} className={record.missing.length > 0 ? 'bg-red-50' : ''}>
+                        <PreviewCell value={record.title} missing={record.missing.includes('title')} />
+                        <PreviewCell
+                          value={record.price === null ? null : `${record.price.toFixed(2)} ${record.currency}`}
+                          missing={record.missing.includes('price')}
+                        />
+                        <td className="px-3 py-2">
+                          <Badge className={record.inStock ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                            {record.inStock ? 'In stock' : 'Out'}
+                          </Badge>
+                        </td>
+                        <PreviewCell value={record.upc} />
+                        <PreviewCell value={record.sku} />
+                        <PreviewCell value={record.roundCount === null ? null : String(record.roundCount)} />
+                        <PreviewCell value={record.url} missing={record.missing.includes('url')} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+
+      {/* History */}
+      <Card className="overflow-hidden">
+        <div className="p-6 pb-0">
+          <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+        </div>
+        {data.versions.length === 0 ? (
+          <p className="p-6 text-sm text-gray-600">No versions saved yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Version', 'Summary', 'Saved', 'Executions', ''].map(heading => (
+                    <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.versions.map(version => (
+                  <tr key={version.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="font-medium text-gray-900">v{version.version}</span>
+                      {version.isActive && <Badge className="ml-2 bg-green-100 text-green-800">Active</Badge>}
+                      {!version.rules && <Badge className="ml-2 bg-gray-100 text-gray-800">Generic</Badge>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-900">{version.summary}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-600">
+                      <div>{new Date(version.createdAt).toLocaleString()}</div>
+                      <div className="text-xs">{version.createdBy}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {version.executions.total === 0 ? (
+                        <span className="text-gray-500">None</span>
+                      ) : (
+                        <Link
+                          href={`/admin/executions?extractionRulesVersionId=${version.id}`}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          {version.executions.total} runs ({version.executions.success} ok, {version.executions.failed} failed)
+                        </Link>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {!version.isActive && (
+                        <Button onClick={() => rollback(version.version)} className="bg-yellow-600 hover:bg-yellow-700 text-sm">
+                          Roll Back
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+function PreviewCell({ value, missing = false }: { value: string | null; missing?: boolean }) {
+  return (
+    <td className={`px-3 py-2 max-w-xs truncate ${missing ? 'text-red-700 font-medium' : 'text-gray-900'}`} title={value ?? undefined}>
+      {value ?? (missing ? 'missing' : '-')}
+    </td>
+  )
+}
+
+function formatErrors(body: { error?: string; details?: unknown }): string[] {
+  if (Array.isArray(body.details)) {
+    return body.details.map(detail =>
+      typeof detail === 'string' ? detail : `${(detail.path ?? []).join('.')}: ${detail.message}`
+    )
+  }
+  return [body.error ?? 'Request failed']
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -162,6 +163,9 @@ export default function SourcesPage() {
                   >
                     Run Now
                   </Button>
+                  <Link href={`/admin/sources/${source.id}/rules`}>
+                    <Button className="bg-gray-600 hover:bg-gray-700">Rules</Button>
+                  </Link>
                   <Button
                     onClick={() => toggleSource(source.id)}
                     className={source.enabled ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-green-600 hover:bg-green-700'}
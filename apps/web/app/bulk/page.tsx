@@ -0,0 +1,273 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { ArrowLeft, AlertCircle, Loader2, PackageSearch } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { BulkPlanCard } from '@/components/results'
+import {
+  optimizeBulkPurchase,
+  getShipToState,
+  CALIBERS,
+  type BulkOptimizationResult,
+  type CaliberValue,
+} from '@/lib/api'
+
+/**
+ * Bulk Purchase Planner
+ *
+ * "I need N rounds of caliber X for purpose Y": shows the cheapest ways to
+ * buy the rounds across current in-stock offers, split across at most K
+ * retailers, with per-retailer subtotals and shipping.
+ */
+
+const PURPOSES = ['Target', 'Defense', 'Hunting', 'Competition', 'Training']
+const ANY_PURPOSE = 'any'
+const MAX_RETAILER_OPTIONS = [1, 2, 3, 4]
+
+export default function BulkPlannerPage() {
+  const { data: session } = useSession()
+  const token = session?.accessToken
+
+  const [caliber, setCaliber] = useState<CaliberValue | ''>('')
+  const [rounds, setRounds] = useState('1000')
+  const [purpose, setPurpose] = useState(ANY_PURPOSE)
+  const [maxRetailers, setMaxRetailers] = useState('2')
+  const [shipTo, setShipTo] = useState('')
+
+  const [result, setResult] = useState<BulkOptimizationResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from the ship-to state saved in settings
+  useEffect(() => {
+    if (!token) return
+    getShipToState(token)
+      .then(({ state }) => {
+        if (state) setShipTo((current) => current || state)
+      })
+      .catch(() => {})
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!caliber) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const roundCount = parseInt(rounds)
+      if (isNaN(roundCount) || roundCount <= 0) {
+        throw new Error('Please enter how many rounds you need')
+      }
+
+      const response = await optimizeBulkPurchase(
+        {
+          caliber,
+          rounds: roundCount,
+          purpose: purpose === ANY_PURPOSE ? undefined : purpose,
+          maxRetailers: parseInt(maxRetailers),
+          shipTo: shipTo.trim() || undefined,
+        },
+        token
+      )
+
+      setResult(response)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build purchase plans')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-40">
+        <div className="container flex items-center h-14 px-4">
+          <Link href="/search" className="flex items-center gap-2 mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/logo-dark.svg"
+              alt="IronScout"
+              width={20}
+              height={20}
+              className="flex-shrink-0"
+            />
+            <span className="font-semibold">Bulk Planner</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container max-w-2xl mx-auto px-4 py-6 space-y-6">
+        <div>
+          <h1 className="text-xl font-semibold">Plan a bulk purchase</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Tell us how many rounds you need. We combine in-stock offers, box sizes and each
+            retailer&apos;s shipping to find the lowest delivered total.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="caliber">Caliber *</Label>
+            <Select value={caliber} onValueChange={(v) => setCaliber(v as CaliberValue)}>
+              <SelectTrigger id="caliber">
+                <SelectValue placeholder="Select caliber" />
+              </SelectTrigger>
+              <SelectContent>
+                {CALIBERS.map((c) => (
+                  <SelectItem key={c.value} value={c.value}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rounds">Rounds needed *</Label>
+            <Input
+              id="rounds"
+              type="number"
+              min="1"
+              max="20000"
+              step="1"
+              value={rounds}
+              onChange={(e) => setRounds(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="purpose">Purpose</Label>
+            <Select value={purpose} onValueChange={setPurpose}>
+              <SelectTrigger id="purpose">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_PURPOSE}>Any purpose</SelectItem>
+                {PURPOSES.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="maxRetailers">Split across up to</Label>
+            <Select value={maxRetailers} onValueChange={setMaxRetailers}>
+              <SelectTrigger id="maxRetailers">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_RETAILER_OPTIONS.map((k) => (
+                  <SelectItem key={k} value={String(k)}>
+                    {k === 1 ? '1 retailer' : `${k} retailers`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shipTo">Ship to state (optional)</Label>
+            <Input
+              id="shipTo"
+              placeholder="e.g., TX"
+              maxLength={2}
+              value={shipTo}
+              onChange={(e) => setShipTo(e.target.value.toUpperCase())}
+            />
+          </div>
+
+          <div className="flex items-end">
+            <Button type="submit" className="w-full" disabled={!caliber || isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Planning...
+                </>
+              ) : (
+                'Find plans'
+              )}
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {result && <BulkPlanResults result={result} />}
+      </main>
+    </div>
+  )
+}
+
+function BulkPlanResults({ result }: { result: BulkOptimizationResult }) {
+  const unknownShipping = result.excludedRetailers.filter((r) => r.reason === 'UNKNOWN_SHIPPING')
+  const restricted = result.excludedRetailers.filter((r) => r.reason === 'SHIPPING_RESTRICTED')
+
+  if (result.plans.length === 0) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <PackageSearch className="h-10 w-10 mx-auto text-muted-foreground" />
+        <p className="font-medium">No plans found</p>
+        <p className="text-sm text-muted-foreground">
+          No in-stock offers with known box sizes and shipping match this request.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {result.plans.length} {result.plans.length === 1 ? 'plan' : 'plans'} for{' '}
+        {result.rounds.toLocaleString()} rounds, lowest delivered total first
+        {result.shipTo && ` (shipping to ${result.shipTo})`}.
+      </p>
+
+      {result.plans.map((plan, index) => (
+        <BulkPlanCard key={index} plan={plan} rank={index + 1} />
+      ))}
+
+      {unknownShipping.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not included because shipping is unknown:{' '}
+          {unknownShipping.map((r) => r.retailerName).join(', ')}
+        </p>
+      )}
+
+      {restricted.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not included because they can&apos;t ship to {result.shipTo}:{' '}
+          {restricted.map((r) => r.retailerName).join(', ')}
+        </p>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Prices and stock change often. Check the final total at each retailer before buying.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { Metadata } from 'next'
+import { AlertsManager } from '@/components/dashboard/alerts-manager'
+
+export const metadata: Metadata = {
+  title: 'Alerts',
+}
+
+export default function AlertsPage() {
+  return (
+    <div className="p-6 lg:p-8">
+      <div className="mb-6">
+        <h1 className="text-xl md:text-2xl font-semibold">Alerts</h1>
+      </div>
+
+      <AlertsManager />
+    </div>
+  )
+}
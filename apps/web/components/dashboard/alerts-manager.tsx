@@ -1,210 +1,136 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
-import { useSession } from 'next-auth/react'
+import { useMemo, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
-import { Bell, ExternalLink, Trash2, Edit2, Check, X, Filter } from 'lucide-react'
-import { getUserAlerts, updateAlert, deleteAlert, AuthError, type Alert as AlertType } from '@/lib/api'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bell, ExternalLink, Edit2, Check, X, Filter, Target } from 'lucide-react'
+import { useSavedItems } from '@/hooks/use-saved-items'
+import type { SavedItem, TargetPriceBasis } from '@/lib/api'
 import { ProductImage } from '@/components/products/product-image'
 import { toast } from 'sonner'
 import { createLogger } from '@/lib/logger'
-import { refreshSessionToken, showSessionExpiredToast } from '@/hooks/use-session-refresh'
 
 const logger = createLogger('components:alerts-manager')
 
-export function AlertsManager() {
-  const { data: session, status } = useSession()
-  const [alerts, setAlerts] = useState<AlertType[]>([])
-  const [filteredAlerts, setFilteredAlerts] = useState<AlertType[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [editingId, setEditingId] = useState<string | null>(null)
-  const [editPrice, setEditPrice] = useState<string>('')
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'triggered'>('all')
-
-  const token = session?.accessToken
-
-  // Helper to get a valid token, refreshing if needed
-  const getValidToken = useCallback(async (): Promise<string | null> => {
-    if (token) return token
-    const refreshed = await refreshSessionToken()
-    if (!refreshed) {
-      showSessionExpiredToast()
-      return null
-    }
-    return refreshed
-  }, [token])
+type FilterStatus = 'all' | 'targeted' | 'at-target'
 
-  useEffect(() => {
-    if (status === 'loading') return
-    if (status === 'unauthenticated') {
-      setLoading(false)
-      return
-    }
-    if (token) {
-      fetchAlerts()
-    } else {
-      // Authenticated but no token - try to get one
-      getValidToken().then((t) => {
-        if (t) fetchAlerts()
-        else setLoading(false)
-      })
-    }
-  }, [token, status])
-
-  useEffect(() => {
-    filterAlerts()
-  }, [alerts, filterStatus])
-
-  const fetchAlerts = async () => {
-    const authToken = await getValidToken()
-    if (!authToken) {
-      setLoading(false)
-      return
-    }
+interface TargetDraft {
+  price: string
+  basis: TargetPriceBasis
+  includeShipping: boolean
+}
 
-    try {
-      setLoading(true)
-      const data = await getUserAlerts(authToken, false)
-      setAlerts(data)
-      setError(null)
-    } catch (err) {
-      if (err instanceof AuthError) {
-        // Try refresh once
-        const newToken = await refreshSessionToken()
-        if (newToken) {
-          try {
-            const data = await getUserAlerts(newToken, false)
-            setAlerts(data)
-            setError(null)
-            return
-          } catch {
-            // Retry failed
-          }
-        }
-        showSessionExpiredToast()
-        return
-      }
-      setError('Failed to load alerts')
-      logger.error('Failed to load alerts', {}, err)
-    } finally {
-      setLoading(false)
-    }
+/**
+ * Current price in the target's basis. Shipping is not known client-side,
+ * so shipping-inclusive targets compare against the item price alone.
+ */
+function currentPriceForBasis(item: SavedItem, basis: TargetPriceBasis): number | null {
+  if (item.price === null) return null
+  if (basis === 'PER_ROUND') {
+    return item.roundCount ? item.price / item.roundCount : null
   }
+  return item.price
+}
 
-  const filterAlerts = () => {
-    let filtered = alerts
+function formatBasisPrice(price: number | null, basis: TargetPriceBasis): string {
+  if (price === null) return 'N/A'
+  return basis === 'PER_ROUND' ? `$${price.toFixed(3)}/rd` : `$${price.toFixed(2)}`
+}
 
-    if (filterStatus === 'active') {
-      filtered = alerts.filter(a => a.isActive && !isTriggered(a))
-    } else if (filterStatus === 'triggered') {
-      filtered = alerts.filter(a => isTriggered(a))
-    }
+/**
+ * Target price alerts for saved items.
+ *
+ * A target fires a TARGET_PRICE alert when the best in-stock offer is at or
+ * below it, per box or per round, optionally including shipping. Targets are
+ * stored on the saved item and share its pause toggle and delivery channels.
+ */
+export function AlertsManager() {
+  const { items, loading, error, updatePrefs, refetch } = useSavedItems()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<TargetDraft | null>(null)
+  const [filterStatus, setFilterStatus] = useState<FilterStatus>('all')
+
+  const isAtTarget = (item: SavedItem) => {
+    if (item.targetPrice === null || !item.inStock) return false
+    const current = currentPriceForBasis(item, item.targetPriceBasis)
+    return current !== null && current <= item.targetPrice
+  }
 
-    setFilteredAlerts(filtered)
+  const filteredItems = useMemo(() => {
+    if (filterStatus === 'targeted') return items.filter((i) => i.targetPrice !== null)
+    if (filterStatus === 'at-target') return items.filter(isAtTarget)
+    return items
+  }, [items, filterStatus])
+
+  const startEdit = (item: SavedItem) => {
+    const basis = item.targetPrice === null && item.roundCount ? 'PER_ROUND' : item.targetPriceBasis
+    setEditingId(item.id)
+    setDraft({
+      price: item.targetPrice?.toString() ?? '',
+      basis,
+      includeShipping: item.targetIncludeShipping,
+    })
   }
 
-  const isTriggered = (alert: AlertType) => {
-    if (!alert.product.currentPrice || !alert.targetPrice) return false
-    return alert.product.currentPrice <= alert.targetPrice
+  const cancelEdit = () => {
+    setEditingId(null)
+    setDraft(null)
   }
 
-  const handleDelete = async (alertId: string) => {
-    const authToken = await getValidToken()
-    if (!authToken) return
-    if (!confirm('Are you sure you want to delete this alert?')) return
+  const saveEdit = async (item: SavedItem) => {
+    if (!draft) return
+
+    const newPrice = parseFloat(draft.price)
+    if (isNaN(newPrice) || newPrice <= 0) {
+      toast.error('Please enter a valid price')
+      return
+    }
 
     try {
-      await deleteAlert(alertId, authToken)
-      setAlerts(alerts.filter(a => a.id !== alertId))
-      toast.success('Alert deleted')
+      const updated = await updatePrefs(item.productId, {
+        targetPrice: newPrice,
+        targetPriceBasis: draft.basis,
+        targetIncludeShipping: draft.includeShipping,
+      })
+      if (!updated) return
+      cancelEdit()
+      toast.success('Target price updated')
     } catch (err) {
-      if (err instanceof AuthError) {
-        showSessionExpiredToast()
-        return
-      }
-      logger.error('Failed to delete alert', {}, err)
-      toast.error('Failed to delete alert')
+      logger.error('Failed to update target price', {}, err)
+      toast.error(err instanceof Error ? err.message : 'Failed to update target price')
     }
   }
 
-  const handleToggleActive = async (alert: AlertType) => {
-    const authToken = await getValidToken()
-    if (!authToken) return
-
+  const handleClearTarget = async (item: SavedItem) => {
     try {
-      await updateAlert(alert.id, { isActive: !alert.isActive }, authToken)
-      setAlerts(alerts.map(a =>
-        a.id === alert.id ? { ...a, isActive: !a.isActive } : a
-      ))
-      toast.success(alert.isActive ? 'Alert paused' : 'Alert activated')
+      await updatePrefs(item.productId, { targetPrice: null })
+      toast.success('Target price removed')
     } catch (err) {
-      if (err instanceof AuthError) {
-        showSessionExpiredToast()
-        return
-      }
-      logger.error('Failed to toggle alert', {}, err)
-      toast.error('Failed to update alert')
+      logger.error('Failed to clear target price', {}, err)
+      toast.error('Failed to remove target price')
     }
   }
 
-  const startEdit = (alert: AlertType) => {
-    setEditingId(alert.id)
-    setEditPrice(alert.targetPrice?.toString() || '')
-  }
-
-  const cancelEdit = () => {
-    setEditingId(null)
-    setEditPrice('')
-  }
-
-  const saveEdit = async (alertId: string) => {
-    const authToken = await getValidToken()
-    if (!authToken) return
-
+  const handleToggleActive = async (item: SavedItem) => {
     try {
-      const newPrice = parseFloat(editPrice)
-      if (isNaN(newPrice) || newPrice <= 0) {
-        toast.error('Please enter a valid price')
-        return
-      }
-
-      await updateAlert(alertId, { targetPrice: newPrice }, authToken)
-      setAlerts(alerts.map(a =>
-        a.id === alertId ? { ...a, targetPrice: newPrice } : a
-      ))
-      setEditingId(null)
-      setEditPrice('')
-      toast.success('Target price updated')
+      await updatePrefs(item.productId, { notificationsEnabled: !item.notificationsEnabled })
+      toast.success(item.notificationsEnabled ? 'Alerts paused' : 'Alerts resumed')
     } catch (err) {
-      if (err instanceof AuthError) {
-        showSessionExpiredToast()
-        return
-      }
-      logger.error('Failed to update alert', {}, err)
-      toast.error('Failed to update alert')
+      logger.error('Failed to toggle alerts', {}, err)
+      toast.error('Failed to update alerts')
     }
   }
 
-  const getAlertStatus = (alert: AlertType) => {
-    if (!alert.isActive) return { label: 'Paused', variant: 'secondary' as const }
-    if (isTriggered(alert)) return { label: 'Triggered', variant: 'default' as const }
-    return { label: 'Active', variant: 'outline' as const }
-  }
-
-  if (!session) {
-    return (
-      <Card>
-        <CardContent className="py-12">
-          <p className="text-center text-muted-foreground">
-            Please sign in to view your alerts
-          </p>
-        </CardContent>
-      </Card>
-    )
+  const getAlertStatus = (item: SavedItem) => {
+    if (!item.notificationsEnabled) return { label: 'Paused', variant: 'secondary' as const }
+    if (isAtTarget(item)) return { label: 'At target', variant: 'default' as const }
+    if (item.targetPrice !== null) return { label: 'Watching', variant: 'outline' as const }
+    return { label: 'No target', variant: 'outline' as const }
   }
 
   if (loading) {
@@ -222,7 +148,7 @@ export function AlertsManager() {
       <Card>
         <CardContent className="py-12">
           <p className="text-center text-destructive">{error}</p>
-          <Button onClick={fetchAlerts} className="mx-auto mt-4 block">
+          <Button onClick={refetch} className="mx-auto mt-4 block">
             Retry
           </Button>
         </CardContent>
@@ -232,35 +158,23 @@ export function AlertsManager() {
 
   return (
     <div className="space-y-6">
-      {/* Stats & Filters */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
           <CardContent className="pt-6">
-            <div className="text-2xl font-bold">{alerts.length}</div>
-            <p className="text-xs text-muted-foreground">Total Alerts</p>
+            <div className="text-2xl font-bold">{items.filter((i) => i.targetPrice !== null).length}</div>
+            <p className="text-xs text-muted-foreground">Target Prices</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="pt-6">
-            <div className="text-2xl font-bold">
-              {alerts.filter(a => a.isActive).length}
-            </div>
-            <p className="text-xs text-muted-foreground">Active</p>
+            <div className="text-2xl font-bold text-green-600">{items.filter(isAtTarget).length}</div>
+            <p className="text-xs text-muted-foreground">At Target</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="pt-6">
-            <div className="text-2xl font-bold text-green-600">
-              {alerts.filter(isTriggered).length}
-            </div>
-            <p className="text-xs text-muted-foreground">Triggered</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-6">
-            <div className="text-2xl font-bold">
-              {alerts.filter(a => !a.isActive).length}
-            </div>
+            <div className="text-2xl font-bold">{items.filter((i) => !i.notificationsEnabled).length}</div>
             <p className="text-xs text-muted-foreground">Paused</p>
           </CardContent>
         </Card>
@@ -278,17 +192,17 @@ export function AlertsManager() {
         </Button>
         <Button
           size="sm"
-          variant={filterStatus === 'active' ? 'default' : 'outline'}
-          onClick={() => setFilterStatus('active')}
+          variant={filterStatus === 'targeted' ? 'default' : 'outline'}
+          onClick={() => setFilterStatus('targeted')}
         >
-          Active
+          With target
         </Button>
         <Button
           size="sm"
-          variant={filterStatus === 'triggered' ? 'default' : 'outline'}
-          onClick={() => setFilterStatus('triggered')}
+          variant={filterStatus === 'at-target' ? 'default' : 'outline'}
+          onClick={() => setFilterStatus('at-target')}
         >
-          Triggered
+          At target
         </Button>
       </div>
 
@@ -298,13 +212,13 @@ export function AlertsManager() {
           <CardTitle>Your Alerts</CardTitle>
         </CardHeader>
         <CardContent>
-          {filteredAlerts.length === 0 ? (
+          {filteredItems.length === 0 ? (
             <div className="text-center py-12">
               <Bell className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-muted-foreground">
                 {filterStatus === 'all'
-                  ? 'No alerts yet. Search for products and create alerts to track prices.'
-                  : `No ${filterStatus} alerts found.`}
+                  ? 'No saved items yet. Save products to set target prices.'
+                  : 'No matching alerts found.'}
               </p>
               <Button className="mt-4" asChild>
                 <a href="/search">Browse Products</a>
@@ -312,22 +226,23 @@ export function AlertsManager() {
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredAlerts.map((alert) => {
-                const status = getAlertStatus(alert)
-                const isEditing = editingId === alert.id
+              {filteredItems.map((item) => {
+                const status = getAlertStatus(item)
+                const isEditing = editingId === item.id && draft !== null
+                const basis = isEditing ? draft.basis : item.targetPriceBasis
 
                 return (
                   <div
-                    key={alert.id}
+                    key={item.id}
                     className="flex flex-col md:flex-row items-start md:items-center gap-4 p-4 border rounded-lg hover:bg-accent/50 transition-colors"
                   >
                     {/* Product Image */}
                     <div className="w-20 h-20 relative flex-shrink-0 rounded overflow-hidden bg-gray-100">
                       <ProductImage
-                        imageUrl={alert.product.imageUrl}
-                        caliber={alert.product.caliber}
-                        brand={alert.product.brand}
-                        alt={alert.product.name}
+                        imageUrl={item.imageUrl}
+                        caliber={item.caliber}
+                        brand={item.brand}
+                        alt={item.name}
                         fill
                       />
                     </div>
@@ -335,66 +250,93 @@ export function AlertsManager() {
                     {/* Product Info */}
                     <div className="flex-1 min-w-0">
                       <div className="flex items-start gap-2 mb-2">
-                        <h3 className="font-medium line-clamp-2 flex-1">
-                          {alert.product.name}
-                        </h3>
+                        <h3 className="font-medium line-clamp-2 flex-1">{item.name}</h3>
                         <Badge variant={status.variant}>{status.label}</Badge>
                       </div>
 
-                      <div className="space-y-1 text-sm">
+                      <div className="space-y-2 text-sm">
                         <div className="flex items-center gap-4 flex-wrap">
                           <span className="text-muted-foreground">
-                            Current: <span className="font-semibold text-foreground">
-                              ${alert.product.currentPrice?.toFixed(2) || 'N/A'}
+                            Current:{' '}
+                            <span className="font-semibold text-foreground">
+                              {formatBasisPrice(currentPriceForBasis(item, basis), basis)}
                             </span>
                           </span>
 
-                          {isEditing ? (
+                          {!isEditing && (
+                            <span className="text-muted-foreground">
+                              Target:{' '}
+                              <span className="font-semibold text-foreground">
+                                {formatBasisPrice(item.targetPrice, item.targetPriceBasis)}
+                              </span>
+                              {item.targetPrice !== null && item.targetIncludeShipping && ' incl. shipping'}
+                            </span>
+                          )}
+                        </div>
+
+                        {isEditing && (
+                          <div className="flex items-center gap-3 flex-wrap">
                             <div className="flex items-center gap-2">
-                              <span className="text-muted-foreground">Target:</span>
+                              <span className="text-muted-foreground">Target $</span>
                               <Input
                                 type="number"
-                                step="0.01"
-                                value={editPrice}
-                                onChange={(e) => setEditPrice(e.target.value)}
+                                step={draft.basis === 'PER_ROUND' ? '0.001' : '0.01'}
+                                min="0"
+                                value={draft.price}
+                                onChange={(e) => setDraft({ ...draft, price: e.target.value })}
                                 className="w-24 h-7 text-sm"
                                 autoFocus
                               />
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="h-7 w-7 p-0"
-                                onClick={() => saveEdit(alert.id)}
-                              >
-                                <Check className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="h-7 w-7 p-0"
-                                onClick={cancelEdit}
-                              >
-                                <X className="h-4 w-4" />
-                              </Button>
                             </div>
-                          ) : (
-                            <span className="text-muted-foreground">
-                              Target: <span className="font-semibold text-foreground">
-                                ${alert.targetPrice?.toFixed(2) || 'N/A'}
-                              </span>
-                            </span>
-                          )}
-                        </div>
-
-                        {alert.product.retailer && (
-                          <p className="text-muted-foreground">
-                            Retailer: {alert.product.retailer.name}
-                          </p>
+                            <Select
+                              value={draft.basis}
+                              onValueChange={(value) => setDraft({ ...draft, basis: value as TargetPriceBasis })}
+                            >
+                              <SelectTrigger className="w-32 h-7 text-sm">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="PER_ROUND" disabled={!item.roundCount}>
+                                  per round
+                                </SelectItem>
+                                <SelectItem value="TOTAL">per box</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                id={`target-shipping-${item.id}`}
+                                checked={draft.includeShipping}
+                                onCheckedChange={(checked) => setDraft({ ...draft, includeShipping: checked })}
+                              />
+                              <Label htmlFor={`target-shipping-${item.id}`} className="text-sm">
+                                Include shipping
+                              </Label>
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0"
+                              onClick={() => saveEdit(item)}
+                              title="Save target"
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0"
+                              onClick={cancelEdit}
+                              title="Cancel"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
                         )}
 
                         <p className="text-xs text-muted-foreground">
-                          Type: {alert.alertType.replace('_', ' ')} •{' '}
-                          {alert.product.inStock ? 'In Stock' : 'Out of Stock'}
+                          {item.inStock ? 'In Stock' : 'Out of Stock'}
+                          {item.roundCount ? ` • ${item.roundCount} rounds` : ''}
+                          {isEditing && draft.includeShipping && ' • Offers with unknown shipping are ignored'}
                         </p>
                       </div>
                     </div>
@@ -404,42 +346,39 @@ export function AlertsManager() {
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => handleToggleActive(alert)}
-                        title={alert.isActive ? 'Pause alert' : 'Activate alert'}
+                        onClick={() => handleToggleActive(item)}
+                        title={item.notificationsEnabled ? 'Pause alerts' : 'Resume alerts'}
                       >
-                        {alert.isActive ? 'Pause' : 'Activate'}
+                        {item.notificationsEnabled ? 'Pause' : 'Resume'}
                       </Button>
 
                       {!isEditing && (
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => startEdit(alert)}
-                          title="Edit target price"
+                          onClick={() => startEdit(item)}
+                          title={item.targetPrice === null ? 'Set target price' : 'Edit target price'}
                         >
-                          <Edit2 className="h-4 w-4" />
+                          {item.targetPrice === null ? <Target className="h-4 w-4" /> : <Edit2 className="h-4 w-4" />}
                         </Button>
                       )}
 
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        asChild
-                        title="View product"
-                      >
-                        <a href={`/products/${alert.productId}`}>
+                      <Button size="sm" variant="outline" asChild title="View product">
+                        <a href={`/products/${item.productId}`}>
                           <ExternalLink className="h-4 w-4" />
                         </a>
                       </Button>
 
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleDelete(alert.id)}
-                        title="Delete alert"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {item.targetPrice !== null && !isEditing && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleClearTarget(item)}
+                          title="Remove target price"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 )
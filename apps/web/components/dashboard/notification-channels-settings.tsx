@@ -0,0 +1,246 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { BellRing, MessageSquare, Webhook, Trash2, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from '@/components/pwa'
+import {
+  getNotificationChannels,
+  updateSmsPhoneNumber,
+  verifySmsPhoneNumber,
+  createNotificationWebhook,
+  deleteNotificationWebhook,
+  type NotificationChannelsResponse,
+} from '@/lib/api'
+import { createLogger } from '@/lib/logger'
+
+const logger = createLogger('components:notification-channels-settings')
+
+/**
+ * Alert destinations beyond email (browser push, SMS, webhooks).
+ * Each saved item picks which of these channels it uses.
+ */
+export function NotificationChannelsSettings() {
+  const { data: session } = useSession()
+  const token = session?.accessToken
+  const [channels, setChannels] = useState<NotificationChannelsResponse | null>(null)
+  const [pushActive, setPushActive] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [phoneNumber, setPhoneNumber] = useState('')
+  const [smsCode, setSmsCode] = useState('')
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [webhookName, setWebhookName] = useState('')
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    if (!token) return
+    try {
+      const data = await getNotificationChannels(token)
+      setChannels(data)
+      setPhoneNumber(data.sms.pendingPhoneNumber ?? data.sms.phoneNumber ?? '')
+      setPushActive(!!(await getPushSubscription()))
+    } catch (error) {
+      logger.error('Failed to load notification channels', {}, error)
+    }
+  }, [token])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      logger.error('Notification channel update failed', { key }, error)
+      toast.error(error instanceof Error ? error.message : 'Update failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleTogglePush = () =>
+    run('push', async () => {
+      if (!token || !channels?.webPush.publicKey) return
+      if (pushActive) {
+        await disablePush(token)
+        toast.success('Browser notifications turned off')
+      } else {
+        await enablePush(token, channels.webPush.publicKey)
+        toast.success('Browser notifications turned on')
+      }
+      await load()
+    })
+
+  const handleSavePhone = () =>
+    run('sms', async () => {
+      if (!token) return
+      setChannels(await updateSmsPhoneNumber(token, phoneNumber.trim() || null))
+      setSmsCode('')
+      toast.success(phoneNumber.trim() ? 'Verification code sent' : 'Phone number removed')
+    })
+
+  const handleVerifyPhone = () =>
+    run('sms-verify', async () => {
+      if (!token) return
+      setChannels(await verifySmsPhoneNumber(token, smsCode.trim()))
+      setSmsCode('')
+      toast.success('Phone number verified')
+    })
+
+  const handleAddWebhook = () =>
+    run('webhook', async () => {
+      if (!token) return
+      const created = await createNotificationWebhook(token, {
+        url: webhookUrl.trim(),
+        name: webhookName.trim() || undefined,
+      })
+      setNewSecret(created.secret)
+      setWebhookUrl('')
+      setWebhookName('')
+      await load()
+    })
+
+  const handleDeleteWebhook = (id: string) =>
+    run(`webhook-${id}`, async () => {
+      if (!token) return
+      await deleteNotificationWebhook(token, id)
+      await load()
+    })
+
+  if (!channels) {
+    return null
+  }
+
+  const pushAvailable = isPushSupported() && !!channels.webPush.publicKey
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Alert Channels
+        </CardTitle>
+        <CardDescription>
+          Set up where alerts can be sent, then pick channels for each saved item
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Browser push */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="font-medium">Browser Notifications</div>
+            <div className="text-sm text-muted-foreground">
+              {pushAvailable
+                ? `Enabled on ${channels.webPush.subscriptionCount} device${channels.webPush.subscriptionCount === 1 ? '' : 's'}`
+                : 'Not available in this browser'}
+            </div>
+          </div>
+          <Button
+            variant={pushActive ? 'outline' : 'default'}
+            onClick={handleTogglePush}
+            disabled={!pushAvailable || busy === 'push'}
+          >
+            {busy === 'push' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {pushActive ? 'Turn off here' : 'Turn on here'}
+          </Button>
+        </div>
+
+        {/* SMS */}
+        <div className="pt-4 border-t space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <MessageSquare className="h-4 w-4" />
+            Text Messages
+            {channels.sms.verifiedAt && <Badge variant="outline">Active</Badge>}
+            {channels.sms.pendingPhoneNumber && <Badge variant="secondary">Awaiting code</Badge>}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="tel"
+              placeholder="+15551234567"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+            />
+            <Button variant="outline" onClick={handleSavePhone} disabled={busy === 'sms'}>
+              {phoneNumber.trim() ? 'Send code' : 'Remove'}
+            </Button>
+          </div>
+          {channels.sms.pendingPhoneNumber && (
+            <div className="flex gap-2">
+              <Input
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                placeholder="6-digit code"
+                value={smsCode}
+                onChange={(e) => setSmsCode(e.target.value)}
+              />
+              <Button onClick={handleVerifyPhone} disabled={busy === 'sms-verify' || smsCode.trim().length !== 6}>
+                Verify
+              </Button>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            We text a code to confirm the number. Once verified you agree to receive alert texts. Message and data
+            rates may apply.
+          </p>
+        </div>
+
+        {/* Webhooks */}
+        <div className="pt-4 border-t space-y-3">
+          <div className="flex items-center gap-2 font-medium">
+            <Webhook className="h-4 w-4" />
+            Webhooks
+          </div>
+          {channels.webhooks.map((webhook) => (
+            <div key={webhook.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="truncate">{webhook.name || webhook.url}</div>
+                {webhook.lastError && (
+                  <div className="text-xs text-red-600 truncate">Last error: {webhook.lastError}</div>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDeleteWebhook(webhook.id)}
+                disabled={busy === `webhook-${webhook.id}`}
+                title="Delete webhook"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Name (optional)"
+              value={webhookName}
+              onChange={(e) => setWebhookName(e.target.value)}
+              className="sm:w-40"
+            />
+            <Input
+              type="url"
+              placeholder="https://discord.com/api/webhooks/..."
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+            />
+            <Button variant="outline" onClick={handleAddWebhook} disabled={!webhookUrl.trim() || busy === 'webhook'}>
+              Add
+            </Button>
+          </div>
+          {newSecret && (
+            <p className="text-xs text-muted-foreground break-all">
+              Signing secret (shown once): <code>{newSecret}</code>
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -17,7 +17,7 @@ import { Label } from '@/components/ui/label'
 import { useSavedItems } from '@/hooks/use-saved-items'
 import { ProductImage } from '@/components/products/product-image'
 import { toast } from 'sonner'
-import type { SavedItem } from '@/lib/api'
+import type { NotificationChannel, SavedItem } from '@/lib/api'
 import { createLogger } from '@/lib/logger'
 
 const logger = createLogger('components:saved-items-manager')
@@ -64,6 +64,22 @@ export function SavedItemsManager() {
     }
   }
 
+  const handleToggleChannel = async (item: SavedItem, channel: NotificationChannel, enabled: boolean) => {
+    const current = item.notificationChannels ?? ['EMAIL']
+    const next = enabled ? [...current, channel] : current.filter((c) => c !== channel)
+    if (next.length === 0) {
+      toast.error('Keep at least one channel, or pause notifications instead')
+      return
+    }
+
+    try {
+      await updatePrefs(item.productId, { notificationChannels: next })
+    } catch (err) {
+      logger.error('Failed to update notification channels', { channel }, err)
+      toast.error('Failed to update channels')
+    }
+  }
+
   if (loading) {
     return (
       <Card>
@@ -113,6 +129,7 @@ export function SavedItemsManager() {
                   key={item.id}
                   item={item}
                   onUpdatePref={(field, value) => handleUpdateNotificationPref(item, field, value)}
+                  onToggleChannel={(channel, enabled) => handleToggleChannel(item, channel, enabled)}
                   onRemove={() => handleRemove(item.productId, item.name)}
                 />
               ))}
@@ -131,14 +148,25 @@ interface SavedItemRowProps {
     field: 'notificationsEnabled' | 'priceDropEnabled' | 'backInStockEnabled',
     value: boolean
   ) => void
+  onToggleChannel: (channel: NotificationChannel, enabled: boolean) => void
   onRemove: () => void
 }
 
+const CHANNEL_OPTIONS: Array<{ channel: NotificationChannel; label: string }> = [
+  { channel: 'EMAIL', label: 'Email' },
+  { channel: 'WEB_PUSH', label: 'Browser' },
+  { channel: 'SMS', label: 'Text message' },
+  { channel: 'WEBHOOK', label: 'Webhooks' },
+]
+
 function SavedItemRow({
   item,
   onUpdatePref,
+  onToggleChannel,
   onRemove,
 }: SavedItemRowProps) {
+  const channels = item.notificationChannels ?? ['EMAIL']
+
   return (
     <div className="border rounded-lg">
       {/* Main row */}
@@ -259,6 +287,27 @@ function SavedItemRow({
                   </div>
                 </div>
 
+                {/* Delivery channels (destinations are set up in Settings) */}
+                <div className="border-t pt-3 space-y-3">
+                  <h5 className="text-xs font-medium text-muted-foreground">Send via</h5>
+                  {CHANNEL_OPTIONS.map(({ channel, label }) => (
+                    <div key={channel} className="flex items-center justify-between">
+                      <Label
+                        htmlFor={`notif-channel-${channel}-${item.id}`}
+                        className={`text-sm ${!item.notificationsEnabled ? 'text-muted-foreground' : ''}`}
+                      >
+                        {label}
+                      </Label>
+                      <Switch
+                        id={`notif-channel-${channel}-${item.id}`}
+                        checked={channels.includes(channel)}
+                        onCheckedChange={(checked) => onToggleChannel(channel, checked)}
+                        disabled={!item.notificationsEnabled}
+                      />
+                    </div>
+                  ))}
+                </div>
+
                 <p className="text-xs text-muted-foreground pt-2">
                   {item.notificationsEnabled
                     ? 'Notifications enabled for this item'
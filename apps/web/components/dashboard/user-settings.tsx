@@ -7,13 +7,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
-import { User, Mail, Bell, LogOut, Trash2, Shield, AlertTriangle, Clock, XCircle, Loader2 } from 'lucide-react'
+import { User, Mail, Bell, LogOut, Trash2, Shield, AlertTriangle, Clock, XCircle, Loader2, Truck } from 'lucide-react'
 import Image from 'next/image'
+import { toast } from 'sonner'
 import { createLogger } from '@/lib/logger'
+import { NotificationChannelsSettings } from './notification-channels-settings'
 import {
   checkDeletionEligibility,
   requestAccountDeletion,
   cancelAccountDeletion,
+  getShipToState,
+  updateShipToState,
   type DeletionEligibility,
 } from '@/lib/api'
 
@@ -28,6 +32,11 @@ export function UserSettings() {
   const [backInStockAlerts, setBackInStockAlerts] = useState(true)
   const [weeklyDigest, setWeeklyDigest] = useState(false)
 
+  // Ship-to state
+  const [shipToState, setShipToState] = useState('')
+  const [savedShipToState, setSavedShipToState] = useState<string | null>(null)
+  const [shipToSaving, setShipToSaving] = useState(false)
+
   // Deletion state
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [deleteConfirmation, setDeleteConfirmation] = useState('')
@@ -49,6 +58,37 @@ export function UserSettings() {
     }
   }, [searchParams])
 
+  // Load ship-to state
+  useEffect(() => {
+    const token = session?.accessToken
+    if (!token) return
+
+    getShipToState(token)
+      .then(({ state }) => {
+        setSavedShipToState(state)
+        setShipToState(state ?? '')
+      })
+      .catch((error) => logger.error('Failed to load ship-to state', {}, error))
+  }, [session?.accessToken])
+
+  const handleSaveShipTo = async () => {
+    const token = session?.accessToken
+    if (!token) return
+
+    setShipToSaving(true)
+    try {
+      const { state } = await updateShipToState(token, shipToState.trim() || null)
+      setSavedShipToState(state)
+      setShipToState(state ?? '')
+      toast.success(state ? `Shipping to ${state}` : 'Ship-to state removed')
+    } catch (error) {
+      logger.error('Failed to update ship-to state', {}, error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update ship-to state')
+    } finally {
+      setShipToSaving(false)
+    }
+  }
+
   // Fetch deletion eligibility when dialog opens
   useEffect(() => {
     if (showDeleteDialog && !deletionEligibility) {
@@ -159,6 +199,46 @@ export function UserSettings() {
         </CardContent>
       </Card>
 
+      {/* Shipping */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Shipping
+          </CardTitle>
+          <CardDescription>
+            Some states restrict ammunition shipping. We hide offers that can&apos;t ship to you
+            and note FFL or background check requirements.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="space-y-1 flex-1 max-w-[12rem]">
+              <label htmlFor="ship-to-state" className="font-medium text-sm">
+                Ship-to state
+              </label>
+              <Input
+                id="ship-to-state"
+                placeholder="e.g., TX"
+                maxLength={2}
+                value={shipToState}
+                onChange={(e) => setShipToState(e.target.value.toUpperCase())}
+              />
+            </div>
+            <Button
+              onClick={handleSaveShipTo}
+              disabled={shipToSaving || shipToState.trim() === (savedShipToState ?? '')}
+            >
+              {shipToSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave blank to see every offer regardless of shipping restrictions.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Notification Preferences */}
       <Card>
         <CardHeader>
@@ -254,6 +334,8 @@ export function UserSettings() {
         </CardContent>
       </Card>
 
+      <NotificationChannelsSettings />
+
       {/* Privacy & Security */}
       <Card>
         <CardHeader>
@@ -6,7 +6,7 @@ import { useState } from 'react'
 import { useSession, signIn, signOut } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
-import { Menu, X, User, Bookmark, Settings, LayoutDashboard, ChevronDown, Search, LogOut, DollarSign } from 'lucide-react'
+import { Menu, X, User, Bookmark, Settings, LayoutDashboard, ChevronDown, Search, LogOut, DollarSign, Package } from 'lucide-react'
 import { BRAND_NAME } from '@/lib/brand'
 
 export function Header() {
@@ -38,6 +38,9 @@ export function Header() {
             <Link href="/price-check" className="text-sm font-medium hover:text-primary transition-colors">
               Price Check
             </Link>
+            <Link href="/bulk" className="text-sm font-medium hover:text-primary transition-colors">
+              Bulk Planner
+            </Link>
             <a
               href="https://www.ironscout.ai/retailers"
               className="text-sm font-medium hover:text-primary transition-colors"
@@ -153,6 +156,14 @@ export function Header() {
                 <DollarSign className="h-4 w-4 mr-2" />
                 Price Check
               </Link>
+              <Link
+                href="/bulk"
+                className="flex items-center text-sm font-medium hover:text-primary transition-colors"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <Package className="h-4 w-4 mr-2" />
+                Bulk Planner
+              </Link>
               <a
                 href="https://www.ironscout.ai/retailers"
                 className="text-sm font-medium hover:text-primary transition-colors"
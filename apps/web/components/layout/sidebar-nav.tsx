@@ -8,12 +8,14 @@ import {
   LayoutDashboard,
   Search,
   Bookmark,
+  Bell,
   Settings,
   Menu,
   X,
   LogOut,
   Crosshair,
   ScanLine,
+  Package,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useState } from 'react'
@@ -31,6 +33,11 @@ const navItems = [
     href: '/search',
     icon: Search,
   },
+  {
+    title: 'Bulk Planner',
+    href: '/bulk',
+    icon: Package,
+  },
   {
     title: 'My Loadout',
     href: '/dashboard',
@@ -42,6 +49,11 @@ const navItems = [
     href: '/dashboard/saved',
     icon: Bookmark,
   },
+  {
+    title: 'Alerts',
+    href: '/dashboard/alerts',
+    icon: Bell,
+  },
   {
     title: 'Gun Locker',
     href: '/dashboard/gun-locker',
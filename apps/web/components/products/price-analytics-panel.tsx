@@ -0,0 +1,247 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { createLogger } from '@/lib/logger'
+import { getProductPriceAnalytics, type ProductPriceAnalytics, type SeasonalityBucket } from '@/lib/api'
+
+const logger = createLogger('price-analytics-panel')
+
+interface PriceAnalyticsPanelProps {
+  productId: string
+}
+
+const MEDIAN_COLOR = '#3b82f6'
+const BAND_COLOR = '#93c5fd'
+const RANGE_OPTIONS = [
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' },
+]
+
+const VOLATILITY_LABELS = {
+  LOW: 'Stable',
+  MODERATE: 'Moderate',
+  HIGH: 'Volatile',
+}
+
+const formatPpr = (value: number) => `$${value.toFixed(3)}`
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+function SeasonalityRow({ title, buckets }: { title: string; buckets: SeasonalityBucket[] }) {
+  const observed = buckets.filter(b => b.relativeToAverage !== null)
+  if (observed.length < 2) return null
+
+  return (
+    <div>
+      <div className="text-sm font-medium mb-2">{title}</div>
+      <div className="grid grid-cols-7 md:grid-cols-12 gap-1">
+        {observed.map(bucket => (
+          <div key={bucket.index} className="text-center p-2 bg-muted rounded">
+            <div className="text-xs text-muted-foreground">{bucket.label}</div>
+            <div className={`text-xs font-medium ${
+              bucket.relativeToAverage! < 0 ? 'text-green-600' : bucket.relativeToAverage! > 0 ? 'text-red-600' : ''
+            }`}>
+              {bucket.relativeToAverage! > 0 ? '+' : ''}{bucket.relativeToAverage!.toFixed(1)}%
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function PriceAnalyticsPanel({ productId }: PriceAnalyticsPanelProps) {
+  const [data, setData] = useState<ProductPriceAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [days, setDays] = useState(90)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchAnalytics = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const analytics = await getProductPriceAnalytics(productId, days)
+        if (!cancelled) setData(analytics)
+      } catch (err) {
+        if (!cancelled) setError('Failed to load price analytics')
+        logger.error('Price analytics error', {}, err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchAnalytics()
+    return () => {
+      cancelled = true
+    }
+  }, [productId, days])
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Price Per Round Analytics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-pulse text-muted-foreground">Loading price analytics...</div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error || !data || data.series.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Price Per Round Analytics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            {error || 'Not enough price history to analyze yet'}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Area takes a [low, high] tuple to draw the p10-p90 band
+  const chartData = data.series.map(point => ({
+    date: formatDay(point.date),
+    median: point.medianPricePerRound,
+    band: [point.p10PricePerRound, point.p90PricePerRound],
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle>Price Per Round Analytics</CardTitle>
+            <CardDescription>
+              Daily median with the 10th-90th percentile range over the last {data.days} days
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {RANGE_OPTIONS.map(option => (
+              <Button
+                key={option.days}
+                variant={days === option.days ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setDays(option.days)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div className="text-center p-3 bg-muted rounded-lg">
+            <div className="text-sm text-muted-foreground">All-Time Low</div>
+            <div className="text-lg font-bold text-green-600">
+              {data.allTimeLow ? formatPpr(data.allTimeLow.pricePerRound) : 'N/A'}
+            </div>
+            {data.allTimeLow && (
+              <div className="text-xs text-muted-foreground">{formatDay(data.allTimeLow.date)}</div>
+            )}
+          </div>
+          <div className="text-center p-3 bg-muted rounded-lg">
+            <div className="text-sm text-muted-foreground">Latest Median</div>
+            <div className="text-lg font-bold">
+              {formatPpr(data.series[data.series.length - 1].medianPricePerRound)}
+            </div>
+          </div>
+          <div className="text-center p-3 bg-muted rounded-lg">
+            <div className="text-sm text-muted-foreground">Volatility</div>
+            <div className="text-lg font-bold">
+              {data.volatility ? VOLATILITY_LABELS[data.volatility.level] : 'N/A'}
+            </div>
+            {data.volatility && (
+              <div className="text-xs text-muted-foreground">{data.volatility.score.toFixed(1)}% daily swing</div>
+            )}
+          </div>
+        </div>
+
+        <div className="h-72 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={chartData}
+              margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: number) => `$${value.toFixed(2)}`}
+                domain={['auto', 'auto']}
+              />
+              <Tooltip
+                formatter={(value, name) => [
+                  Array.isArray(value)
+                    ? `${formatPpr(Number(value[0]))} - ${formatPpr(Number(value[1]))}`
+                    : formatPpr(Number(value)),
+                  name === 'band' ? 'p10 - p90' : 'Median',
+                ]}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--popover))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '6px'
+                }}
+              />
+              <Area
+                type="monotone"
+                dataKey="band"
+                stroke="none"
+                fill={BAND_COLOR}
+                fillOpacity={0.4}
+              />
+              <Line
+                type="monotone"
+                dataKey="median"
+                stroke={MEDIAN_COLOR}
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {data.seasonality.dayOfWeek && (
+          <SeasonalityRow title="By Day of Week" buckets={data.seasonality.dayOfWeek} />
+        )}
+        <SeasonalityRow title="By Month" buckets={data.seasonality.month} />
+
+        <p className="text-xs text-muted-foreground">
+          Based on {data.seasonality.observedDays} days of observed prices. Past patterns do not predict future prices.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
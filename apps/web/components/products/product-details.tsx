@@ -10,6 +10,7 @@ import { Bookmark, ExternalLink, TrendingDown, Store, Package } from 'lucide-rea
 import type { Product } from '@/lib/api'
 import { CreateAlertDialog } from './create-alert-dialog'
 import { PriceHistoryChart } from './price-history-chart'
+import { PriceAnalyticsPanel } from './price-analytics-panel'
 
 interface ProductDetailsProps {
   product: Product
@@ -241,6 +242,9 @@ export function ProductDetails({ product }: ProductDetailsProps) {
       {/* Price History Chart */}
       <PriceHistoryChart productId={product.id} />
 
+      {/* Price Per Round Analytics */}
+      <PriceAnalyticsPanel productId={product.id} />
+
       <CreateAlertDialog
         product={product}
         open={showSaveDialog}
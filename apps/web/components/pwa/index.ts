@@ -1 +1,2 @@
 export { PWAInstallPrompt } from './install-prompt'
+export { isPushSupported, getPushSubscription, enablePush, disablePush } from './push-notifications'
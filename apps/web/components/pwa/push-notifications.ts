@@ -0,0 +1,73 @@
+'use client'
+
+import { registerPushSubscription, unregisterPushSubscription } from '@/lib/api'
+
+/**
+ * Browser push helpers for WEB_PUSH alerts.
+ *
+ * The service worker registered by lib/service-worker.tsx (public/sw.js)
+ * renders incoming `{ title, body, url }` payloads.
+ */
+
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  )
+}
+
+/**
+ * Current subscription for this browser, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration()
+  return (await registration?.pushManager.getSubscription()) ?? null
+}
+
+/**
+ * Ask for permission, subscribe this browser and register it with the API
+ */
+export async function enablePush(token: string, vapidPublicKey: string): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser')
+  }
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted')
+  }
+
+  const registration = await navigator.serviceWorker.ready
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(vapidPublicKey),
+    }))
+
+  await registerPushSubscription(token, subscription.toJSON())
+}
+
+/**
+ * Unsubscribe this browser and remove it from the API
+ */
+export async function disablePush(token: string): Promise<void> {
+  const subscription = await getPushSubscription()
+  if (!subscription) return
+
+  await unregisterPushSubscription(token, subscription.endpoint)
+  await subscription.unsubscribe()
+}
+
+function base64UrlToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(base64)
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i)
+  }
+  return bytes
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useCallback } from 'react'
+import { ArrowUpRight, Truck } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { trackAffiliateClick } from '@/lib/analytics'
+import type { BulkPlan, BulkPlanLine, BulkRetailerOrder } from '@/lib/api'
+import { formatPrice, formatPricePerRound, formatShippingRestriction } from './types'
+
+export interface BulkPlanCardProps {
+  plan: BulkPlan
+  /** 1-based position in the plan list */
+  rank: number
+}
+
+/**
+ * BulkPlanCard - One fulfilment plan from the bulk optimizer
+ *
+ * Shows the plan total and delivered price per round, then a subtotal,
+ * shipping and total for each retailer order. No recommendation language.
+ */
+export function BulkPlanCard({ plan, rank }: BulkPlanCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">
+              Plan {rank}
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                {plan.retailerCount === 1 ? '1 retailer' : `${plan.retailerCount} retailers`}
+              </span>
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              {plan.rounds.toLocaleString()} rounds
+              {plan.surplusRounds > 0 && ` (${plan.surplusRounds.toLocaleString()} extra)`}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-lg font-semibold">{formatPrice(plan.total)}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatPricePerRound(plan.pricePerRound)} delivered
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {plan.retailers.map((order) => (
+          <RetailerOrder key={order.retailerId} order={order} />
+        ))}
+        <div className="flex justify-between border-t pt-3 text-sm">
+          <span className="text-muted-foreground">
+            Items {formatPrice(plan.subtotal)} + shipping {formatPrice(plan.shipping)}
+          </span>
+          <span className="font-medium">{formatPrice(plan.total)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function RetailerOrder({ order }: { order: BulkRetailerOrder }) {
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-sm">{order.retailerName}</span>
+        <span className="text-sm">{formatPrice(order.total)}</span>
+      </div>
+
+      <div className="space-y-1">
+        {order.lines.map((line) => (
+          <PlanLine key={line.offerId} line={line} retailerName={order.retailerName} />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>Subtotal {formatPrice(order.subtotal)}</span>
+        <span className="inline-flex items-center gap-1">
+          <Truck className="h-3 w-3" />
+          {order.shipping === 0 ? 'Free shipping' : `Shipping ${formatPrice(order.shipping)}`}
+        </span>
+        {order.freeShippingApplied && <Badge variant="secondary">Free shipping minimum met</Badge>}
+        {order.shippingSource === 'OFFER' && <span>Shipping as listed by retailer</span>}
+        <span>{formatPricePerRound(order.pricePerRound)}</span>
+      </div>
+
+      {order.shippingRestriction && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          {formatShippingRestriction(order.shippingRestriction)}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function PlanLine({ line, retailerName }: { line: BulkPlanLine; retailerName: string }) {
+  const handleViewClick = useCallback(() => {
+    trackAffiliateClick(line.productId, retailerName, line.pricePerRound, 'bulk_plan')
+    window.open(line.url, '_blank', 'noopener,noreferrer')
+  }, [line, retailerName])
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <p className="truncate">
+          {line.quantity} × {line.productName}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {line.roundCount} rds @ {formatPrice(line.price)} · {formatPricePerRound(line.pricePerRound)}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <span>{formatPrice(line.lineTotal)}</span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleViewClick}>
+          <ArrowUpRight className="h-4 w-4" />
+          <span className="sr-only">View at {retailerName}</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -37,6 +37,7 @@ export type {
 export {
   formatShippingInfo,
   formatShippingInfoShort,
+  formatShippingRestriction,
   formatPrice,
   formatPricePerRound,
   sortRetailers,
@@ -56,3 +57,7 @@ export { RetailerPanel } from './retailer-panel'
 
 // Search results grid v2
 export { SearchResultsGridV2, SearchResultsGridV2Skeleton } from './search-results-grid-v2'
+
+// Bulk optimizer plan (per-retailer subtotals)
+export { BulkPlanCard } from './bulk-plan-card'
+export type { BulkPlanCardProps } from './bulk-plan-card'
@@ -13,7 +13,7 @@ import {
 import { trackTrackToggle } from '@/lib/analytics'
 import { toast } from 'sonner'
 import type { ResultCardV2Props } from './types'
-import { formatPrice } from './types'
+import { formatPrice, formatShippingRestriction } from './types'
 
 /**
  * Get casing badge style - Brass gets warm accent, Steel gets neutral
@@ -73,6 +73,16 @@ export function ResultCardV2({
     const maxPrice = Math.max(...prices)
     const anyInStock = retailers.some((r) => r.inStock)
 
+    // Ship-to state restrictions: name the reason when every restricted retailer shares it
+    const restricted = retailers.filter((r) => r.shippingRestriction)
+    const reasons = new Set(restricted.map((r) => r.shippingRestriction))
+    const restrictionNote =
+      restricted.length === 0
+        ? null
+        : reasons.size === 1 && restricted.length === retailers.length
+          ? formatShippingRestriction(restricted[0].shippingRestriction!)
+          : `Shipping restrictions for ${restricted.length} of ${retailers.length}`
+
     return {
       bestPrice: minPrice,
       minPrice,
@@ -80,6 +90,7 @@ export function ResultCardV2({
       hasRange: maxPrice - minPrice > 0.001, // More than $0.001 difference
       retailerCount: retailers.length,
       anyInStock,
+      restrictionNote,
     }
   }, [retailers])
 
@@ -151,7 +162,8 @@ export function ResultCardV2({
     )
   }
 
-  const { bestPrice, minPrice, maxPrice, hasRange, retailerCount, anyInStock } = priceSummary
+  const { bestPrice, minPrice, maxPrice, hasRange, retailerCount, anyInStock, restrictionNote } =
+    priceSummary
 
   return (
     <Card
@@ -192,6 +204,13 @@ export function ResultCardV2({
               {formatPrice(minPrice)} – {formatPrice(maxPrice)}
             </p>
           )}
+
+          {/* Ship-to state restriction (details in the retailer panel) */}
+          {restrictionNote && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+              {restrictionNote}
+            </p>
+          )}
         </div>
 
         {/* Footer: Retailer count + compare hint */}
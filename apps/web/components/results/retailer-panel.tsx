@@ -28,6 +28,7 @@ import type {
 } from './types'
 import {
   formatShippingInfo,
+  formatShippingRestriction,
   formatPrice,
   sortRetailers,
   RETAILER_SORT_OPTIONS,
@@ -250,6 +251,9 @@ function RetailerRow({ retailer, productId, roundCount }: RetailerRowProps) {
   }, [productId, retailer])
 
   const shippingText = formatShippingInfo(retailer.shippingInfo)
+  const restrictionText = retailer.shippingRestriction
+    ? formatShippingRestriction(retailer.shippingRestriction)
+    : null
 
   return (
     <div
@@ -295,6 +299,13 @@ function RetailerRow({ retailer, productId, roundCount }: RetailerRowProps) {
               </>
             )}
           </div>
+
+          {/* Ship-to state restriction */}
+          {restrictionText && (
+            <p className="mt-1 text-sm text-amber-600 dark:text-amber-400">
+              {restrictionText}
+            </p>
+          )}
         </div>
 
         {/* View button */}
@@ -43,6 +43,7 @@ function transformToRetailers(product: Product): RetailerPrice[] {
       inStock: price.inStock,
       shippingInfo,
       url: price.url,
+      shippingRestriction: price.shippingRestriction ?? null,
     }
   })
 }
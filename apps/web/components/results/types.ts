@@ -4,6 +4,8 @@
  * Per search-results-ux-spec.md
  */
 
+import type { ShippingRestrictionReason } from '@/lib/api'
+
 // ============================================
 // Shipping Info
 // ============================================
@@ -60,6 +62,26 @@ export function formatShippingInfoShort(info: ShippingInfo): string | null {
   }
 }
 
+// ============================================
+// Shipping Restrictions
+// ============================================
+
+/**
+ * Format a ship-to state restriction for display
+ */
+export function formatShippingRestriction(reason: ShippingRestrictionReason): string {
+  switch (reason) {
+    case 'NO_SHIP':
+      return "Doesn't ship to your state"
+    case 'IN_PERSON_PICKUP':
+      return 'In-person pickup only in your state'
+    case 'FFL_REQUIRED':
+      return 'Ships to an FFL in your state'
+    case 'BACKGROUND_CHECK':
+      return 'Background check required in your state'
+  }
+}
+
 // ============================================
 // Retailer Price
 // ============================================
@@ -76,6 +98,8 @@ export interface RetailerPrice {
   shippingInfo: ShippingInfo
   url: string
   lastUpdated?: string // ISO date string
+  /** Ship-to state restriction, absent when none applies */
+  shippingRestriction?: ShippingRestrictionReason | null
 }
 
 // ============================================
@@ -2,13 +2,16 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { useSearchParams } from 'next/navigation'
-import { Search, Sparkles, X, Loader2, SlidersHorizontal, ChevronDown, RotateCcw } from 'lucide-react'
+import { Search, Sparkles, X, Loader2, SlidersHorizontal, ChevronDown, RotateCcw, BookmarkPlus } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
-import { getSearchSuggestions } from '@/lib/api'
+import { getSearchSuggestionItems, saveSearch, AuthError, type SaveSearchInput, type SearchSuggestion, type SearchSuggestionKind } from '@/lib/api'
 import { PremiumFilters } from '@/components/premium'
 import { cn } from '@/lib/utils'
 import { useSearchLoading } from './search-loading-context'
 import { createLogger } from '@/lib/logger'
+import { refreshSessionToken, showSessionExpiredToast } from '@/hooks/use-session-refresh'
 
 const logger = createLogger('unified-search')
 
@@ -52,6 +55,19 @@ const EXAMPLE_CHIPS = [
   { label: '5.56 NATO', query: '5.56 NATO M855 bulk' },
 ]
 
+// Autocomplete suggestions shown while typing
+const MAX_SUGGESTIONS = 8
+const SUGGESTIONS_LIST_ID = 'search-suggestions'
+
+const SUGGESTION_KIND_LABELS: Record<SearchSuggestionKind, string | null> = {
+  BRAND: 'Brand',
+  CALIBER: 'Caliber',
+  PRODUCT_LINE: 'Product line',
+  BULLET_TYPE: 'Bullet type',
+  PRODUCT: 'Product',
+  QUERY: null,
+}
+
 // Popular searches for social proof
 const TRENDING_SEARCHES = [
   '9mm bulk',
@@ -72,11 +88,15 @@ interface UnifiedSearchProps {
 export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
   const searchParams = useSearchParams()
   const { isSearching, navigateWithLoading } = useSearchLoading()
+  const { data: session } = useSession()
+  const isE2E = process.env.NEXT_PUBLIC_E2E_TEST_MODE === 'true'
 
   // Search state
   const [query, setQuery] = useState(initialQuery)
-  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
   const [showSuggestions, setShowSuggestions] = useState(false)
+  // Keyboard-highlighted suggestion (-1 = none, Enter searches the typed query)
+  const [activeSuggestion, setActiveSuggestion] = useState(-1)
   const [placeholderIndex, setPlaceholderIndex] = useState(0)
   const inputRef = useRef<HTMLInputElement>(null)
   const suggestionsRef = useRef<HTMLDivElement>(null)
@@ -85,6 +105,10 @@ export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
   const [filtersOpen, setFiltersOpen] = useState(false)
   const [performanceFiltersOpen, setPerformanceFiltersOpen] = useState(false)
 
+  // Saved search state
+  const [maxPricePerRound, setMaxPricePerRound] = useState('')
+  const [isSavingSearch, setIsSavingSearch] = useState(false)
+
   // Rotate placeholder text
   useEffect(() => {
     const interval = setInterval(() => {
@@ -159,23 +183,70 @@ export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
 
   // Fetch suggestions on input change
   useEffect(() => {
+    setActiveSuggestion(-1)
     if (query.length < 2) {
       setSuggestions([])
       return
     }
 
+    // Ignore responses for queries the user has already typed past
+    let cancelled = false
     const timeoutId = setTimeout(async () => {
       try {
-        const results = await getSearchSuggestions(query)
-        setSuggestions(results.slice(0, 5))
+        const results = await getSearchSuggestionItems(query, MAX_SUGGESTIONS)
+        if (!cancelled) {
+          setSuggestions(results)
+          setActiveSuggestion(-1)
+        }
       } catch (error) {
         logger.error('Failed to fetch suggestions', {}, error)
       }
-    }, 200)
+    }, 150)
 
-    return () => clearTimeout(timeoutId)
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
   }, [query])
 
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    setQuery(suggestion.text)
+    setActiveSuggestion(-1)
+    handleSearch(suggestion.text)
+  }
+
+  // Arrow keys move through suggestions, Enter picks the highlighted one,
+  // Escape closes the list
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const listOpen = showSuggestions && suggestions.length > 0
+
+    switch (e.key) {
+      case 'ArrowDown':
+        if (suggestions.length === 0) return
+        e.preventDefault()
+        setShowSuggestions(true)
+        setActiveSuggestion((prev) => (listOpen ? (prev + 1) % suggestions.length : 0))
+        break
+      case 'ArrowUp':
+        if (!listOpen) return
+        e.preventDefault()
+        setActiveSuggestion((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1))
+        break
+      case 'Enter':
+        if (listOpen && activeSuggestion >= 0) {
+          e.preventDefault()
+          selectSuggestion(suggestions[activeSuggestion])
+        }
+        break
+      case 'Escape':
+        if (!listOpen) return
+        e.preventDefault()
+        setShowSuggestions(false)
+        setActiveSuggestion(-1)
+        break
+    }
+  }
+
   // Close suggestions on click outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -264,6 +335,62 @@ export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
     applyFilters(newFilters)
   }
 
+  // Save the current query + filters as a SEARCH watchlist item.
+  // New products and offers that start matching it trigger alerts.
+  const handleSaveSearch = async () => {
+    if (!filters.caliber) return
+
+    let token: string | null = isE2E ? 'e2e-token' : session?.accessToken ?? null
+    if (!token) {
+      token = await refreshSessionToken()
+      if (!token) {
+        showSessionExpiredToast()
+        return
+      }
+    }
+
+    const bulletType = searchParams.get('bulletType')
+    const lensId = searchParams.get('lens')
+    const perRound = parseFloat(maxPricePerRound)
+    const input: SaveSearchInput = {
+      searchText: searchParams.get('q') || undefined,
+      filters: {
+        caliber: [filters.caliber],
+        ...(bulletType && { bulletType: [bulletType] }),
+        ...((filters.minGrain || filters.maxGrain) && {
+          grainRange: {
+            ...(filters.minGrain && { min: Number(filters.minGrain) }),
+            ...(filters.maxGrain && { max: Number(filters.maxGrain) }),
+          },
+        }),
+        ...((filters.minPrice || filters.maxPrice) && {
+          priceRange: {
+            ...(filters.minPrice && { min: Number(filters.minPrice) }),
+            ...(filters.maxPrice && { max: Number(filters.maxPrice) }),
+          },
+        }),
+        ...(perRound > 0 && { maxPricePerRound: perRound }),
+      },
+      sortBy: searchParams.get('sortBy') || undefined,
+      lensId: lensId || undefined,
+    }
+
+    setIsSavingSearch(true)
+    try {
+      await saveSearch(token, input)
+      toast.success('Search saved. We\'ll alert you when new matches appear.')
+    } catch (error) {
+      if (error instanceof AuthError) {
+        showSessionExpiredToast()
+        return
+      }
+      logger.error('Failed to save search', {}, error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save search')
+    } finally {
+      setIsSavingSearch(false)
+    }
+  }
+
   return (
     <div className="w-full">
       {/* Hero Search Bar - Tactical Console Style */}
@@ -292,8 +419,17 @@ export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
                 setShowSuggestions(true)
               }}
               onFocus={() => setShowSuggestions(true)}
+              onKeyDown={handleQueryKeyDown}
               placeholder={ROTATING_PLACEHOLDERS[placeholderIndex]}
               data-testid="search-input"
+              role="combobox"
+              autoComplete="off"
+              aria-autocomplete="list"
+              aria-expanded={showSuggestions && suggestions.length > 0}
+              aria-controls={SUGGESTIONS_LIST_ID}
+              aria-activedescendant={
+                showSuggestions && activeSuggestion >= 0 ? `${SUGGESTIONS_LIST_ID}-${activeSuggestion}` : undefined
+              }
               className="w-full pl-24 sm:pl-28 pr-36 py-5 text-lg bg-transparent border-2 border-border rounded-2xl focus:outline-none focus:border-primary/50 placeholder:text-muted-foreground/60 transition-all shadow-lg hover:shadow-xl dark:shadow-primary/5"
             />
 
@@ -339,22 +475,37 @@ export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
           {showSuggestions && suggestions.length > 0 && (
             <div
               ref={suggestionsRef}
+              id={SUGGESTIONS_LIST_ID}
+              role="listbox"
               className="absolute z-10 w-full mt-2 bg-background rounded-xl shadow-lg border border-border overflow-hidden"
             >
-              {suggestions.map((suggestion, index) => (
-                <button
-                  key={index}
-                  type="button"
-                  onClick={() => {
-                    setQuery(suggestion)
-                    handleSearch(suggestion)
-                  }}
-                  className="w-full px-4 py-3 text-left hover:bg-muted flex items-center gap-3 transition-colors"
-                >
-                  <Search className="h-4 w-4 text-muted-foreground" />
-                  <span>{suggestion}</span>
-                </button>
-              ))}
+              {suggestions.map((suggestion, index) => {
+                const kindLabel = suggestion.detail ?? SUGGESTION_KIND_LABELS[suggestion.kind]
+                return (
+                  <button
+                    key={`${suggestion.kind}-${suggestion.text}`}
+                    id={`${SUGGESTIONS_LIST_ID}-${index}`}
+                    type="button"
+                    role="option"
+                    tabIndex={-1}
+                    aria-selected={index === activeSuggestion}
+                    // Keep focus in the input so typing continues after a hover
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveSuggestion(index)}
+                    onClick={() => selectSuggestion(suggestion)}
+                    className={cn(
+                      "w-full px-4 py-3 text-left hover:bg-muted flex items-center gap-3 transition-colors",
+                      index === activeSuggestion && "bg-muted"
+                    )}
+                  >
+                    <Search className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{suggestion.text}</span>
+                    {kindLabel && (
+                      <span className="text-xs text-muted-foreground">{kindLabel}</span>
+                    )}
+                  </button>
+                )
+              })}
             </div>
           )}
         </form>
@@ -602,6 +753,40 @@ export function UnifiedSearch({ initialQuery = '' }: UnifiedSearchProps) {
               </div>
             </div>
           </details>
+
+          {/* Save Search - requires a caliber */}
+          {filters.caliber && (
+            <div className="mt-3 pt-3 border-t border-border/50 flex flex-wrap items-center justify-end gap-2">
+              <label htmlFor="max-price-per-round" className="text-xs text-muted-foreground">
+                Alert under $/rd
+              </label>
+              <input
+                id="max-price-per-round"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Any"
+                value={maxPricePerRound}
+                onChange={(e) => setMaxPricePerRound(e.target.value)}
+                className="w-20 px-2 py-1.5 text-xs border rounded-lg bg-background focus:border-primary transition-colors"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleSaveSearch}
+                disabled={isSavingSearch}
+                data-testid="save-search"
+              >
+                {isSavingSearch ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                ) : (
+                  <BookmarkPlus className="h-3.5 w-3.5 mr-1.5" />
+                )}
+                Save search
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
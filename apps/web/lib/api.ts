@@ -229,6 +229,12 @@ export type PerformanceBadge =
   | 'frangible'
   | 'lead-free'
 
+/**
+ * Why an offer cannot ship normally to the user's ship-to state.
+ * NO_SHIP and IN_PERSON_PICKUP mean it cannot be delivered at all.
+ */
+export type ShippingRestrictionReason = 'NO_SHIP' | 'IN_PERSON_PICKUP' | 'FFL_REQUIRED' | 'BACKGROUND_CHECK'
+
 export interface Price {
   id: string
   price: number
@@ -236,6 +242,8 @@ export interface Price {
   url: string
   inStock: boolean
   retailer: Retailer
+  /** Present when a ship-to state is known; null when the offer ships normally */
+  shippingRestriction?: ShippingRestrictionReason | null
 }
 
 export interface Retailer {
@@ -433,6 +441,54 @@ export async function getProductPriceHistory(productId: string): Promise<PriceHi
   return response.json()
 }
 
+// Price Analytics (daily percentiles rolled up by the harvester)
+export interface DailyPriceStats {
+  date: string
+  minPricePerRound: number
+  p10PricePerRound: number
+  medianPricePerRound: number
+  p90PricePerRound: number
+  maxPricePerRound: number
+  sampleCount: number
+  retailerCount: number
+}
+
+export interface SeasonalityBucket {
+  index: number
+  label: string
+  /** Percent vs. average (negative = cheaper); null without data */
+  relativeToAverage: number | null
+  days: number
+}
+
+export interface PriceAnalytics {
+  scope: { type: 'PRODUCT' | 'CALIBER'; key: string }
+  days: number
+  series: DailyPriceStats[]
+  allTimeLow: { pricePerRound: number; date: string } | null
+  volatility: { score: number; level: 'LOW' | 'MODERATE' | 'HIGH'; observedDays: number } | null
+  seasonality: {
+    dayOfWeek: SeasonalityBucket[] | null
+    month: SeasonalityBucket[]
+    observedDays: number
+  }
+  computedAt: string | null
+}
+
+export interface ProductPriceAnalytics extends PriceAnalytics {
+  product: { id: string; name: string; caliber: string | null; roundCount: number | null }
+}
+
+export async function getProductPriceAnalytics(productId: string, days: number = 90): Promise<ProductPriceAnalytics> {
+  const params = new URLSearchParams({ days: days.toString() })
+  const response = await fetch(`${API_BASE_URL}/api/products/${productId}/price-analytics?${params}`)
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to fetch price analytics')
+  }
+  return response.json()
+}
+
 // ============================================
 // AI-Powered Semantic Search
 // ============================================
@@ -530,6 +586,9 @@ export interface AISearchResponse {
     vectorSearchUsed: boolean
     processingTimeMs: number
     userTier?: 'FREE' | 'PREMIUM'
+    /** Ship-to state used for shipping restrictions */
+    shipTo?: string
+    restrictedOffers?: 'HIDE' | 'FLAG'
     premiumFeaturesUsed?: string[]
   }
   _meta?: {
@@ -701,6 +760,32 @@ export async function getSearchSuggestions(query: string): Promise<string[]> {
   return data.suggestions || []
 }
 
+export type SearchSuggestionKind = 'BRAND' | 'CALIBER' | 'PRODUCT_LINE' | 'BULLET_TYPE' | 'PRODUCT' | 'QUERY'
+
+export interface SearchSuggestion {
+  text: string
+  kind: SearchSuggestionKind
+  /** Secondary label, e.g. "Jacketed Hollow Point" for JHP */
+  detail?: string
+}
+
+/**
+ * Get typed autocomplete suggestions (catalog completions with their kind)
+ */
+export async function getSearchSuggestionItems(query: string, limit?: number): Promise<SearchSuggestion[]> {
+  const params = new URLSearchParams({ q: query })
+  if (limit) params.set('limit', String(limit))
+
+  const response = await fetch(`${API_BASE_URL}/api/search/suggestions?${params.toString()}`)
+
+  if (!response.ok) {
+    return []
+  }
+
+  const data = await response.json()
+  return data.items || []
+}
+
 /**
  * Get available Premium filters
  */
@@ -1036,15 +1121,23 @@ export async function deleteWatchlistCollection(id: string, token: string): Prom
 // Saved Items API (ADR-011 - replaces watchlist/alerts)
 // ============================================
 
+/**
+ * Alert delivery channel, chosen per saved item
+ */
+export type NotificationChannel = 'EMAIL' | 'WEB_PUSH' | 'SMS' | 'WEBHOOK'
+
 /**
  * Saved item with product info and notification preferences
  */
+export type TargetPriceBasis = 'TOTAL' | 'PER_ROUND'
+
 export interface SavedItem {
   id: string
   productId: string
   name: string
   brand: string
   caliber: string
+  roundCount: number | null
   price: number | null
   inStock: boolean
   imageUrl: string | null
@@ -1057,6 +1150,12 @@ export interface SavedItem {
   minDropPercent: number
   minDropAmount: number
   stockAlertCooldownHours: number
+  notificationChannels: NotificationChannel[]
+
+  // Target price rule (null = no target)
+  targetPrice: number | null
+  targetPriceBasis: TargetPriceBasis
+  targetIncludeShipping: boolean
 }
 
 export interface SavedItemsResponse {
@@ -1086,6 +1185,11 @@ export interface UpdateSavedItemPrefs {
   minDropPercent?: number
   minDropAmount?: number
   stockAlertCooldownHours?: number
+  notificationChannels?: NotificationChannel[]
+  /** null clears the target */
+  targetPrice?: number | null
+  targetPriceBasis?: TargetPriceBasis
+  targetIncludeShipping?: boolean
 }
 
 const E2E_SAVED_ITEMS_LIMIT = 10
@@ -1096,6 +1200,7 @@ let e2eSavedItems: SavedItem[] = [
     name: 'E2E 9mm FMJ 115gr (50 rd)',
     brand: 'E2E Ammo',
     caliber: '9mm',
+    roundCount: 50,
     price: 14.99,
     inStock: true,
     imageUrl: null,
@@ -1106,6 +1211,10 @@ let e2eSavedItems: SavedItem[] = [
     minDropPercent: 5,
     minDropAmount: 5,
     stockAlertCooldownHours: 24,
+    notificationChannels: ['EMAIL'],
+    targetPrice: null,
+    targetPriceBasis: 'TOTAL',
+    targetIncludeShipping: false,
   },
 ]
 
@@ -1167,6 +1276,7 @@ export async function saveItem(token: string, productId: string): Promise<SaveIt
       name: 'E2E Saved Item',
       brand: 'E2E Ammo',
       caliber: '9mm',
+      roundCount: 50,
       price: 14.99,
       inStock: true,
       imageUrl: null,
@@ -1177,6 +1287,10 @@ export async function saveItem(token: string, productId: string): Promise<SaveIt
       minDropPercent: 5,
       minDropAmount: 5,
       stockAlertCooldownHours: 24,
+      notificationChannels: ['EMAIL'],
+      targetPrice: null,
+      targetPriceBasis: 'TOTAL',
+      targetIncludeShipping: false,
     }
 
     e2eSavedItems = [newItem, ...e2eSavedItems]
@@ -1302,6 +1416,255 @@ export async function getSavedItem(token: string, productId: string): Promise<Sa
   return response.json()
 }
 
+// ============================================
+// Saved Searches API
+// ============================================
+
+export interface SavedSearchFilters {
+  caliber: string[]
+  brand?: string[]
+  bulletType?: string[]
+  grainRange?: { min?: number; max?: number }
+  /** Box (listing) price range */
+  priceRange?: { min?: number; max?: number }
+  maxPricePerRound?: number
+}
+
+export interface SavedSearchQuery {
+  version: 1
+  searchText?: string
+  filters: SavedSearchFilters
+  sortBy?: string
+  lensId?: string
+}
+
+export interface SavedSearch {
+  id: string
+  query: SavedSearchQuery
+  matchCount: number
+  savedAt: string
+  notificationsEnabled: boolean
+  notificationChannels: NotificationChannel[]
+}
+
+export type SaveSearchInput = Omit<SavedSearchQuery, 'version'>
+
+/**
+ * Get the user's saved searches with current match counts
+ */
+export async function getSavedSearches(token: string): Promise<SavedSearch[]> {
+  const response = await fetch(`${API_BASE_URL}/api/saved-searches`, {
+    headers: buildAuthHeaders(token),
+  })
+
+  await handleAuthResponse(response, 'Failed to fetch saved searches')
+
+  const data = await response.json()
+  return data.searches
+}
+
+/**
+ * Save a search (idempotent for identical filters)
+ */
+export async function saveSearch(token: string, input: SaveSearchInput): Promise<SavedSearch> {
+  const response = await fetch(`${API_BASE_URL}/api/saved-searches`, {
+    method: 'POST',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify(input),
+  })
+
+  if (response.status === 401) {
+    throw new AuthError()
+  }
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to save search')
+  }
+
+  return response.json()
+}
+
+/**
+ * Update notification preferences for a saved search
+ */
+export async function updateSavedSearch(
+  token: string,
+  id: string,
+  prefs: { notificationsEnabled?: boolean; notificationChannels?: NotificationChannel[] }
+): Promise<SavedSearch> {
+  const response = await fetch(`${API_BASE_URL}/api/saved-searches/${id}`, {
+    method: 'PATCH',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify(prefs),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to update saved search')
+  }
+
+  return response.json()
+}
+
+/**
+ * Delete a saved search
+ */
+export async function deleteSavedSearch(token: string, id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/saved-searches/${id}`, {
+    method: 'DELETE',
+    headers: buildAuthHeaders(token),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to remove saved search')
+  }
+}
+
+// ============================================
+// Notification Channels API
+// ============================================
+
+export interface NotificationWebhook {
+  id: string
+  name: string | null
+  url: string
+  enabled: boolean
+  createdAt: string
+  lastDeliveredAt: string | null
+  lastError: string | null
+}
+
+export interface NotificationChannelsResponse {
+  webPush: {
+    publicKey: string | null
+    subscriptionCount: number
+  }
+  sms: {
+    /** Verified number alerts are sent to */
+    phoneNumber: string | null
+    optedInAt: string | null
+    verifiedAt: string | null
+    /** Number waiting for its verification code */
+    pendingPhoneNumber: string | null
+  }
+  webhooks: NotificationWebhook[]
+}
+
+/**
+ * Get the user's push, SMS and webhook alert destinations
+ */
+export async function getNotificationChannels(token: string): Promise<NotificationChannelsResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels`, {
+    headers: buildAuthHeaders(token),
+  })
+
+  await handleAuthResponse(response, 'Failed to fetch notification channels')
+  return response.json()
+}
+
+/**
+ * Register this browser's push subscription
+ */
+export async function registerPushSubscription(
+  token: string,
+  subscription: PushSubscriptionJSON
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels/push-subscriptions`, {
+    method: 'POST',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify({ endpoint: subscription.endpoint, keys: subscription.keys }),
+  })
+
+  await handleAuthResponse(response, 'Failed to enable push notifications')
+}
+
+/**
+ * Remove this browser's push subscription
+ */
+export async function unregisterPushSubscription(token: string, endpoint: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels/push-subscriptions`, {
+    method: 'DELETE',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify({ endpoint }),
+  })
+
+  await handleAuthResponse(response, 'Failed to disable push notifications')
+}
+
+/**
+ * Set (or clear with null) the SMS phone number. A new number is texted a
+ * verification code and stays pending until verifySmsPhoneNumber.
+ */
+export async function updateSmsPhoneNumber(
+  token: string,
+  phoneNumber: string | null
+): Promise<NotificationChannelsResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels/sms`, {
+    method: phoneNumber ? 'PUT' : 'DELETE',
+    headers: buildAuthHeaders(token),
+    body: phoneNumber ? JSON.stringify({ phoneNumber }) : undefined,
+  })
+
+  if ([400, 429, 502, 503].includes(response.status)) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Invalid phone number')
+  }
+  await handleAuthResponse(response, 'Failed to update SMS settings')
+  return response.json()
+}
+
+/**
+ * Confirm the pending SMS phone number with the texted code
+ */
+export async function verifySmsPhoneNumber(token: string, code: string): Promise<NotificationChannelsResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels/sms/verify`, {
+    method: 'POST',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify({ code }),
+  })
+
+  if (response.status === 400 || response.status === 429) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Invalid verification code')
+  }
+  await handleAuthResponse(response, 'Failed to verify phone number')
+  return response.json()
+}
+
+/**
+ * Create a webhook. The signing secret is only returned here.
+ */
+export async function createNotificationWebhook(
+  token: string,
+  input: { url: string; name?: string }
+): Promise<NotificationWebhook & { secret: string }> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels/webhooks`, {
+    method: 'POST',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify(input),
+  })
+
+  if (response.status === 400) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Invalid webhook')
+  }
+  await handleAuthResponse(response, 'Failed to create webhook')
+  return response.json()
+}
+
+/**
+ * Delete a webhook
+ */
+export async function deleteNotificationWebhook(token: string, id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/notification-channels/webhooks/${id}`, {
+    method: 'DELETE',
+    headers: buildAuthHeaders(token),
+  })
+
+  await handleAuthResponse(response, 'Failed to delete webhook')
+}
+
 // ============================================
 // Gun Locker API
 // ============================================
@@ -1860,6 +2223,151 @@ export async function checkPrice(params: PriceCheckParams, token?: string): Prom
   return response.json()
 }
 
+// ============================================
+// Bulk Optimizer API
+// ============================================
+
+export interface BulkPlanLine {
+  offerId: string
+  productId: string
+  productName: string
+  brand: string | null
+  url: string
+  price: number
+  roundCount: number
+  /** Listings (boxes/cases) to buy */
+  quantity: number
+  rounds: number
+  lineTotal: number
+  pricePerRound: number
+}
+
+export interface BulkRetailerOrder {
+  retailerId: string
+  retailerName: string
+  lines: BulkPlanLine[]
+  rounds: number
+  subtotal: number
+  shipping: number
+  shippingSource: 'RULE' | 'OFFER' | 'UNKNOWN'
+  freeShippingApplied: boolean
+  total: number
+  pricePerRound: number
+  /** Conditional restriction for the ship-to state (e.g. FFL_REQUIRED) */
+  shippingRestriction: ShippingRestrictionReason | null
+}
+
+export interface BulkPlan {
+  retailerCount: number
+  rounds: number
+  surplusRounds: number
+  subtotal: number
+  shipping: number
+  total: number
+  pricePerRound: number
+  retailers: BulkRetailerOrder[]
+}
+
+export interface BulkOptimizationResult {
+  caliber: CaliberValue
+  purpose: string | null
+  rounds: number
+  maxRetailers: number
+  shipTo: string | null
+  /** Cheapest first */
+  plans: BulkPlan[]
+  offersConsidered: number
+  excludedRetailers: Array<{
+    retailerId: string
+    retailerName: string
+    reason: 'UNKNOWN_SHIPPING' | 'SHIPPING_RESTRICTED'
+  }>
+}
+
+export interface BulkOptimizerParams {
+  caliber: CaliberValue
+  rounds: number
+  purpose?: string
+  maxRetailers?: number
+  shipTo?: string
+}
+
+/**
+ * Cheapest fulfilment plans for N rounds of a caliber, split across at most
+ * maxRetailers retailers
+ */
+export async function optimizeBulkPurchase(
+  params: BulkOptimizerParams,
+  token?: string
+): Promise<BulkOptimizationResult> {
+  if (isE2E) {
+    const boxes = Math.ceil(params.rounds / 50)
+    const subtotal = Math.round(boxes * 14.5 * 100) / 100
+    return {
+      caliber: params.caliber,
+      purpose: params.purpose ?? null,
+      rounds: params.rounds,
+      maxRetailers: params.maxRetailers ?? 2,
+      shipTo: params.shipTo ?? null,
+      plans: [
+        {
+          retailerCount: 1,
+          rounds: boxes * 50,
+          surplusRounds: boxes * 50 - params.rounds,
+          subtotal,
+          shipping: 0,
+          total: subtotal,
+          pricePerRound: 0.29,
+          retailers: [
+            {
+              retailerId: 'e2e-retailer',
+              retailerName: 'E2E Ammo',
+              lines: [
+                {
+                  offerId: 'e2e-offer',
+                  productId: 'e2e-product',
+                  productName: 'E2E 115gr FMJ',
+                  brand: 'E2E',
+                  url: 'https://example.com/e2e',
+                  price: 14.5,
+                  roundCount: 50,
+                  quantity: boxes,
+                  rounds: boxes * 50,
+                  lineTotal: subtotal,
+                  pricePerRound: 0.29,
+                },
+              ],
+              rounds: boxes * 50,
+              subtotal,
+              shipping: 0,
+              shippingSource: 'RULE',
+              freeShippingApplied: true,
+              total: subtotal,
+              pricePerRound: 0.29,
+              shippingRestriction: null,
+            },
+          ],
+        },
+      ],
+      offersConsidered: 1,
+      excludedRetailers: [],
+    }
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/bulk-optimizer`, {
+    method: 'POST',
+    headers: token ? buildAuthHeaders(token) : { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to build purchase plans')
+  }
+
+  return response.json()
+}
+
 // ============================================
 // UPC Lookup API
 // ============================================
@@ -2007,3 +2515,44 @@ export async function cancelAccountDeletion(token: string): Promise<{ message: s
   await handleAuthResponse(response, 'Failed to cancel account deletion')
   return response.json()
 }
+
+// ============================================
+// Ship-to State API
+// ============================================
+
+/**
+ * Get the user's ship-to state (used to hide offers that cannot ship to them)
+ */
+export async function getShipToState(token: string): Promise<{ state: string | null }> {
+  if (isE2E) {
+    return { state: null }
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/users/me/ship-to`, {
+    headers: buildAuthHeaders(token),
+  })
+
+  await handleAuthResponse(response, 'Failed to fetch ship-to state')
+  return response.json()
+}
+
+/**
+ * Set the user's ship-to state, or clear it with null
+ */
+export async function updateShipToState(
+  token: string,
+  state: string | null
+): Promise<{ state: string | null }> {
+  if (isE2E) {
+    return { state }
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/users/me/ship-to`, {
+    method: 'PUT',
+    headers: buildAuthHeaders(token),
+    body: JSON.stringify({ state }),
+  })
+
+  await handleAuthResponse(response, 'Failed to update ship-to state')
+  return response.json()
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { maskFeedSecrets } from '../mask'
+
+describe('maskFeedSecrets', () => {
+  it('drops the ciphertext and reports that credentials are set', () => {
+    const masked = maskFeedSecrets({ id: 'f1', username: 'user', secretCiphertext: new Uint8Array([2, 0, 1]) })
+
+    expect(masked).toEqual({ id: 'f1', username: 'user', hasCredentials: true })
+  })
+
+  it('drops legacy plaintext passwords', () => {
+    const masked = maskFeedSecrets({ id: 'f1', secretCiphertext: null, password: 'hunter2' })
+
+    expect(masked).toEqual({ id: 'f1', hasCredentials: true })
+    expect(JSON.stringify(masked)).not.toContain('hunter2')
+  })
+
+  it('reports missing credentials', () => {
+    expect(maskFeedSecrets({ id: 'f1', secretCiphertext: null, password: null }).hasCredentials).toBe(false)
+  })
+})
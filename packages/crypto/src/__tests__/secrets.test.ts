@@ -4,8 +4,13 @@ import {
   loadCredentialKey,
   validateCredentialKey,
   clearKeyCache,
+  getCredentialKeyVersion,
+  getSecretKeyVersion,
   encryptSecret,
   decryptSecret,
+  reencryptSecret,
+  encryptJsonSecret,
+  decryptJsonSecret,
   buildFeedCredentialAAD,
 } from '../secrets'
 
@@ -22,6 +27,8 @@ describe('secrets', () => {
   afterEach(() => {
     clearKeyCache()
     delete process.env.CREDENTIAL_ENCRYPTION_KEY_B64
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION
+    delete process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64
   })
 
   describe('loadCredentialKey', () => {
@@ -162,6 +169,79 @@ describe('secrets', () => {
     })
   })
 
+  describe('encryptJsonSecret / decryptJsonSecret', () => {
+    it('round-trips structured credentials', () => {
+      const credentials = { token: 'abc123', headers: { 'X-Api-Key': 'k-1' } }
+      const ciphertext = encryptJsonSecret(credentials, 'feed:f1:v1')
+
+      expect(decryptJsonSecret(ciphertext, 'feed:f1:v1')).toEqual(credentials)
+    })
+
+    it('throws when the plaintext is not JSON', () => {
+      const ciphertext = encryptSecret('plain-password')
+
+      expect(() => decryptJsonSecret(ciphertext)).toThrow('not valid JSON')
+    })
+  })
+
+  describe('key versions', () => {
+    const NEW_KEY_B64 = crypto.randomBytes(32).toString('base64')
+
+    function rotateToVersion2() {
+      clearKeyCache()
+      process.env.CREDENTIAL_ENCRYPTION_KEY_B64 = NEW_KEY_B64
+      process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION = '2'
+      process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64 = `1:${TEST_KEY_B64}`
+    }
+
+    it('defaults to key version 1 and records it in the payload', () => {
+      expect(getCredentialKeyVersion()).toBe(1)
+      expect(getSecretKeyVersion(encryptSecret('secret'))).toBe(1)
+    })
+
+    it('reads version 1 payloads as key version 1', () => {
+      const iv = crypto.randomBytes(12)
+      const cipher = crypto.createCipheriv('aes-256-gcm', TEST_KEY, iv)
+      const ciphertext = Buffer.concat([cipher.update('legacy', 'utf8'), cipher.final()])
+      const legacy = Buffer.concat([Buffer.from([1]), iv, cipher.getAuthTag(), ciphertext])
+
+      expect(getSecretKeyVersion(legacy)).toBe(1)
+      expect(decryptSecret(legacy)).toBe('legacy')
+    })
+
+    it('decrypts secrets under a retired key after rotation', () => {
+      const old = encryptSecret('rotate-me', 'feed:f1:v1')
+      rotateToVersion2()
+
+      expect(decryptSecret(old, 'feed:f1:v1')).toBe('rotate-me')
+      expect(getSecretKeyVersion(encryptSecret('new'))).toBe(2)
+    })
+
+    it('re-encrypts under the current key version', () => {
+      const old = encryptSecret('rotate-me', 'feed:f1:v1')
+      rotateToVersion2()
+
+      const rotated = reencryptSecret(old, 'feed:f1:v1')
+      expect(getSecretKeyVersion(rotated)).toBe(2)
+
+      // Still readable once the retired key is removed
+      delete process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64
+      clearKeyCache()
+      expect(decryptSecret(rotated, 'feed:f1:v1')).toBe('rotate-me')
+      expect(() => decryptSecret(old, 'feed:f1:v1')).toThrow('No credential key configured for key version 1')
+    })
+
+    it('rejects malformed key version settings', () => {
+      process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION = 'two'
+      expect(() => validateCredentialKey()).toThrow('CREDENTIAL_ENCRYPTION_KEY_VERSION')
+
+      clearKeyCache()
+      process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION = '2'
+      process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64 = TEST_KEY_B64
+      expect(() => validateCredentialKey()).toThrow('<version>:<base64 key>')
+    })
+  })
+
   describe('buildFeedCredentialAAD', () => {
     it('builds correct AAD string', () => {
       const aad = buildFeedCredentialAAD('feed123', 1)
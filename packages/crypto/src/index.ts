@@ -2,14 +2,23 @@
  * @ironscout/crypto
  *
  * Cryptographic utilities for IronScout.
- * Currently provides credential encryption for affiliate feeds.
+ * Currently provides credential encryption for affiliate and retailer feeds
+ * (plain passwords and JSON-encoded HTTP credentials) with versioned keys,
+ * and masking of stored feed secrets before they reach a UI.
  */
 
 export {
   loadCredentialKey,
   validateCredentialKey,
   clearKeyCache,
+  getCredentialKeyVersion,
+  getSecretKeyVersion,
   encryptSecret,
   decryptSecret,
+  reencryptSecret,
+  encryptJsonSecret,
+  decryptJsonSecret,
   buildFeedCredentialAAD,
 } from './secrets'
+
+export { maskFeedSecrets, type FeedSecretColumns } from './mask'
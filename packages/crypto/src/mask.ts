@@ -0,0 +1,27 @@
+/**
+ * Secret Masking
+ *
+ * Feed rows returned to the merchant and admin UIs drop their stored
+ * credentials (ciphertext and any legacy plaintext password) and report
+ * only whether one is set.
+ */
+
+type FeedSecretFields = 'secretCiphertext' | 'password'
+
+export interface FeedSecretColumns {
+  secretCiphertext: Uint8Array | null
+  password?: string | null
+}
+
+/**
+ * Remove stored credentials from a feed row before it leaves the server.
+ *
+ * @param feed - affiliate_feeds or retailer_feeds row
+ * @returns The row without secrets, plus hasCredentials
+ */
+export function maskFeedSecrets<T extends FeedSecretColumns>(
+  feed: T
+): Omit<T, FeedSecretFields> & { hasCredentials: boolean } {
+  const { secretCiphertext, password, ...rest } = feed
+  return { ...rest, hasCredentials: !!secretCiphertext || !!password }
+}
@@ -1,18 +1,25 @@
 /**
  * Credential Encryption Utility
  *
- * AES-256-GCM encryption for sensitive credentials (affiliate feed passwords, etc.)
+ * AES-256-GCM encryption for sensitive credentials (affiliate and retailer feed passwords, etc.)
  *
- * Key storage: CREDENTIAL_ENCRYPTION_KEY_B64 environment variable
- * Format: Base64-encoded 32-byte key
+ * Key storage:
+ * - CREDENTIAL_ENCRYPTION_KEY_B64: Base64-encoded 32-byte key used for new secrets
+ * - CREDENTIAL_ENCRYPTION_KEY_VERSION: Version number of that key (default 1)
+ * - CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64: Retired keys still accepted for
+ *   decryption during a rotation, as comma-separated "<version>:<base64 key>"
  *
- * Ciphertext payload format:
+ * Ciphertext payload format (version 2):
  * | Offset | Length  | Field                           |
  * |--------|---------|----------------------------------|
- * | 0      | 1 byte  | Version (currently 1)            |
- * | 1      | 12 bytes| IV (random, generated per encrypt)|
- * | 13     | 16 bytes| Auth Tag (from GCM)              |
- * | 29     | N bytes | Ciphertext                       |
+ * | 0      | 1 byte  | Format version (2)               |
+ * | 1      | 2 bytes | Key version (uint16 big-endian)  |
+ * | 3      | 12 bytes| IV (random, generated per encrypt)|
+ * | 15     | 16 bytes| Auth Tag (from GCM)              |
+ * | 31     | N bytes | Ciphertext                       |
+ *
+ * Version 1 payloads (no key version field, IV at offset 1) are still
+ * decrypted and are treated as encrypted with key version 1.
  *
  * Associated Data (AAD): Optional context string to prevent copy-paste attacks
  * Example: "feed:{feedId}:v{secretVersion}"
@@ -20,11 +27,23 @@
 
 import crypto from 'crypto'
 
-const VERSION = 1
+const VERSION = 2
+const LEGACY_VERSION = 1
 const IV_LEN = 12
 const TAG_LEN = 16
+const KEY_VERSION_LEN = 2
 
 let cachedKey: Buffer | null = null
+let cachedKeyVersion: number | null = null
+let cachedPreviousKeys: Map<number, Buffer> | null = null
+
+function decodeKey(keyB64: string, name: string): Buffer {
+  const key = Buffer.from(keyB64, 'base64')
+  if (key.length !== 32) {
+    throw new Error(`${name} must decode to exactly 32 bytes (got ${key.length})`)
+  }
+  return key
+}
 
 /**
  * Load and validate the encryption key from environment variable.
@@ -42,14 +61,70 @@ export function loadCredentialKey(): Buffer {
     throw new Error('Missing CREDENTIAL_ENCRYPTION_KEY_B64 environment variable')
   }
 
-  const key = Buffer.from(keyB64, 'base64')
-  if (key.length !== 32) {
-    throw new Error(
-      `CREDENTIAL_ENCRYPTION_KEY_B64 must decode to exactly 32 bytes (got ${key.length})`
-    )
+  cachedKey = decodeKey(keyB64, 'CREDENTIAL_ENCRYPTION_KEY_B64')
+  return cachedKey
+}
+
+/**
+ * Version of the key returned by loadCredentialKey (CREDENTIAL_ENCRYPTION_KEY_VERSION).
+ * New secrets are encrypted under this version.
+ *
+ * @throws Error if the version is not an integer between 1 and 65535
+ */
+export function getCredentialKeyVersion(): number {
+  if (cachedKeyVersion !== null) {
+    return cachedKeyVersion
+  }
+
+  const raw = process.env.CREDENTIAL_ENCRYPTION_KEY_VERSION
+  const version = raw ? Number(raw) : 1
+  if (!Number.isInteger(version) || version < 1 || version > 0xffff) {
+    throw new Error(`CREDENTIAL_ENCRYPTION_KEY_VERSION must be an integer between 1 and 65535 (got ${raw})`)
+  }
+
+  cachedKeyVersion = version
+  return version
+}
+
+/**
+ * Load retired keys from CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64.
+ *
+ * @throws Error if an entry is malformed
+ */
+function loadPreviousKeys(): Map<number, Buffer> {
+  if (cachedPreviousKeys) {
+    return cachedPreviousKeys
+  }
+
+  const keys = new Map<number, Buffer>()
+  const raw = process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64
+  for (const entry of (raw || '').split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':')
+    const version = Number(entry.slice(0, separator))
+    if (separator < 1 || !Number.isInteger(version) || version < 1 || version > 0xffff) {
+      throw new Error('CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64 entries must look like "<version>:<base64 key>"')
+    }
+    keys.set(version, decodeKey(entry.slice(separator + 1), `CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64 key version ${version}`))
+  }
+
+  cachedPreviousKeys = keys
+  return keys
+}
+
+/**
+ * Find the key for a key version: the current key or a retired one.
+ *
+ * @throws Error if no key is configured for that version
+ */
+function keyForVersion(keyVersion: number): Buffer {
+  if (keyVersion === getCredentialKeyVersion()) {
+    return loadCredentialKey()
   }
 
-  cachedKey = key
+  const key = loadPreviousKeys().get(keyVersion)
+  if (!key) {
+    throw new Error(`No credential key configured for key version ${keyVersion}`)
+  }
   return key
 }
 
@@ -61,6 +136,8 @@ export function loadCredentialKey(): Buffer {
  */
 export function validateCredentialKey(): void {
   loadCredentialKey()
+  getCredentialKeyVersion()
+  loadPreviousKeys()
 }
 
 /**
@@ -68,6 +145,8 @@ export function validateCredentialKey(): void {
  */
 export function clearKeyCache(): void {
   cachedKey = null
+  cachedKeyVersion = null
+  cachedPreviousKeys = null
 }
 
 /**
@@ -75,10 +154,12 @@ export function clearKeyCache(): void {
  *
  * @param plaintext - The string to encrypt
  * @param aad - Optional associated data for authentication (e.g., "feed:{feedId}:v{version}")
- * @returns Buffer containing version + IV + tag + ciphertext
+ * @returns Buffer containing version + key version + IV + tag + ciphertext
  */
 export function encryptSecret(plaintext: string, aad?: string): Buffer {
   const key = loadCredentialKey()
+  const keyVersion = Buffer.alloc(KEY_VERSION_LEN)
+  keyVersion.writeUInt16BE(getCredentialKeyVersion())
   const iv = crypto.randomBytes(IV_LEN)
 
   const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
@@ -94,6 +175,7 @@ export function encryptSecret(plaintext: string, aad?: string): Buffer {
 
   return Buffer.concat([
     Buffer.from([VERSION]),
+    keyVersion,
     iv,
     tag,
     ciphertext,
@@ -101,31 +183,62 @@ export function encryptSecret(plaintext: string, aad?: string): Buffer {
 }
 
 /**
- * Decrypt a ciphertext payload encrypted with encryptSecret.
+ * Read a payload's format version and key version and locate its fields.
  *
- * @param payload - Buffer containing version + IV + tag + ciphertext
- * @param aad - Optional associated data (must match what was used during encryption)
- * @returns Decrypted plaintext string
- * @throws Error if decryption fails or payload is malformed
+ * @throws Error if the payload is malformed
  */
-export function decryptSecret(payload: Buffer, aad?: string): string {
-  const minLength = 1 + IV_LEN + TAG_LEN
+function parsePayload(payload: Buffer): { keyVersion: number; body: Buffer } {
+  if (payload.length < 1) {
+    throw new Error('Ciphertext payload too short (got 0 bytes)')
+  }
+
+  const version = payload.readUInt8(0)
+  if (version !== VERSION && version !== LEGACY_VERSION) {
+    throw new Error(`Unsupported secret version ${version} (expected ${LEGACY_VERSION} or ${VERSION})`)
+  }
+
+  const headerLen = version === VERSION ? 1 + KEY_VERSION_LEN : 1
+  const minLength = headerLen + IV_LEN + TAG_LEN
   if (payload.length < minLength) {
     throw new Error(
       `Ciphertext payload too short (got ${payload.length} bytes, need at least ${minLength})`
     )
   }
 
-  const version = payload.readUInt8(0)
-  if (version !== VERSION) {
-    throw new Error(`Unsupported secret version ${version} (expected ${VERSION})`)
+  return {
+    keyVersion: version === VERSION ? payload.readUInt16BE(1) : 1,
+    body: payload.subarray(headerLen),
   }
+}
 
-  const iv = payload.subarray(1, 1 + IV_LEN)
-  const tag = payload.subarray(1 + IV_LEN, 1 + IV_LEN + TAG_LEN)
-  const ciphertext = payload.subarray(1 + IV_LEN + TAG_LEN)
+/**
+ * Key version a payload was encrypted under.
+ *
+ * @param payload - Buffer produced by encryptSecret
+ * @throws Error if the payload is malformed
+ */
+export function getSecretKeyVersion(payload: Buffer): number {
+  return parsePayload(payload).keyVersion
+}
 
-  const key = loadCredentialKey()
+/**
+ * Decrypt a ciphertext payload encrypted with encryptSecret.
+ * Payloads under a retired key version are decrypted with that key when it
+ * is listed in CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS_B64.
+ *
+ * @param payload - Buffer containing version + key version + IV + tag + ciphertext
+ * @param aad - Optional associated data (must match what was used during encryption)
+ * @returns Decrypted plaintext string
+ * @throws Error if decryption fails or payload is malformed
+ */
+export function decryptSecret(payload: Buffer, aad?: string): string {
+  const { keyVersion, body } = parsePayload(payload)
+
+  const iv = body.subarray(0, IV_LEN)
+  const tag = body.subarray(IV_LEN, IV_LEN + TAG_LEN)
+  const ciphertext = body.subarray(IV_LEN + TAG_LEN)
+
+  const key = keyForVersion(keyVersion)
   const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv)
   if (aad) {
     decipher.setAAD(Buffer.from(aad, 'utf8'))
@@ -141,9 +254,50 @@ export function decryptSecret(payload: Buffer, aad?: string): string {
 }
 
 /**
- * Build the AAD string for affiliate feed credentials.
+ * Re-encrypt a payload under the current key version, keeping its AAD.
+ * Used by key rotation; works for plain and JSON secrets alike.
+ *
+ * @param payload - Buffer produced by encryptSecret
+ * @param aad - Associated data the payload was encrypted with
+ * @returns Buffer encrypted under the current key version
+ * @throws Error if the payload cannot be decrypted
+ */
+export function reencryptSecret(payload: Buffer, aad?: string): Buffer {
+  return encryptSecret(decryptSecret(payload, aad), aad)
+}
+
+/**
+ * Encrypt a structured secret (e.g. HTTP feed credentials) as JSON.
+ *
+ * @param value - JSON-serializable value to encrypt
+ * @param aad - Optional associated data for authentication
+ * @returns Buffer in the same payload format as encryptSecret
+ */
+export function encryptJsonSecret<T>(value: T, aad?: string): Buffer {
+  return encryptSecret(JSON.stringify(value), aad)
+}
+
+/**
+ * Decrypt a payload produced by encryptJsonSecret.
+ *
+ * @param payload - Buffer produced by encryptJsonSecret
+ * @param aad - Optional associated data (must match what was used during encryption)
+ * @returns Parsed value
+ * @throws Error if decryption fails or the plaintext is not valid JSON
+ */
+export function decryptJsonSecret<T>(payload: Buffer, aad?: string): T {
+  const plaintext = decryptSecret(payload, aad)
+  try {
+    return JSON.parse(plaintext) as T
+  } catch {
+    throw new Error('Decrypted secret is not valid JSON')
+  }
+}
+
+/**
+ * Build the AAD string for feed credentials.
  *
- * @param feedId - The affiliate feed ID
+ * @param feedId - The affiliate or retailer feed ID
  * @param secretVersion - The secret version number
  * @returns AAD string in format "feed:{feedId}:v{secretVersion}"
  */
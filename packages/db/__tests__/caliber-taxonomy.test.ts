@@ -0,0 +1,106 @@
+/**
+ * Caliber Taxonomy Tests
+ *
+ * Family roll-up, free-text detection and validation of the built-in
+ * taxonomy (the same data the migration seeds).
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  BUILTIN_CALIBERS,
+  CaliberTaxonomy,
+  validateCaliberEntries,
+  type CaliberEntry,
+} from '../caliber-taxonomy.js'
+
+const taxonomy = new CaliberTaxonomy(BUILTIN_CALIBERS)
+
+function entry(overrides: Partial<CaliberEntry>): CaliberEntry {
+  return {
+    name: '5.7x28mm',
+    label: '5.7x28mm',
+    category: 'HANDGUN',
+    parentName: null,
+    aliases: [],
+    titlePatterns: [],
+    platforms: [],
+    grainRanges: null,
+    gunLocker: false,
+    sortOrder: 1000,
+    ...overrides,
+  }
+}
+
+describe('CaliberTaxonomy', () => {
+  it('built-in entries are valid', () => {
+    expect(validateCaliberEntries(BUILTIN_CALIBERS)).toEqual([])
+  })
+
+  it('rolls children up to their Gun Locker family', () => {
+    expect(taxonomy.toGunLockerValue('5.56 NATO')).toBe('.223/5.56')
+    expect(taxonomy.toGunLockerValue('223 rem')).toBe('.223/5.56')
+    expect(taxonomy.toGunLockerValue('12 Gauge')).toBe('12ga')
+    expect(taxonomy.toGunLockerValue('9MM LUGER')).toBe('9mm')
+    expect(taxonomy.toGunLockerValue('5.45x39mm')).toBeNull()
+  })
+
+  it('matches the whole family for price queries', () => {
+    expect(taxonomy.matchingStrings('.223/5.56')).toEqual(
+      expect.arrayContaining(['.223/5.56', '5.56 nato', '.223 remington', '5.56x45mm'])
+    )
+    expect(taxonomy.variations('.223')).toEqual(['.223/5.56', '.223 Remington', '5.56 NATO'])
+  })
+
+  it('extracts product calibers in pattern order', () => {
+    expect(taxonomy.extract('Federal 5.56x45mm 55gr FMJ')).toBe('5.56 NATO')
+    expect(taxonomy.extract('Winchester 12 ga 00 Buck')).toBe('12 Gauge')
+    expect(taxonomy.extract('Hornady .357 SIG 147gr')).toBe('.357 SIG')
+    expect(taxonomy.extract('Gift card')).toBeNull()
+  })
+
+  it('detects calibers and platforms in free text', () => {
+    expect(taxonomy.detect('cheap .40 s&w range ammo')?.name).toBe('.40 S&W')
+    expect(taxonomy.platformCalibers('ammo for my glock 19')).toEqual(['9mm'])
+    expect(taxonomy.grainRanges('5.56 NATO')).toEqual({ light: [55], medium: [62, 64], heavy: [69, 77] })
+  })
+
+  it('picks up new entries without code changes', () => {
+    const extended = new CaliberTaxonomy([
+      ...BUILTIN_CALIBERS,
+      entry({ aliases: ['5.7x28', '5.7 fn'], titlePatterns: ['\\b5\\.7\\s?x\\s?28'], platforms: ['five-seven'] }),
+    ])
+
+    expect(extended.extract('FN 5.7x28mm 40gr V-Max')).toBe('5.7x28mm')
+    expect(extended.find('5.7 FN')?.name).toBe('5.7x28mm')
+    expect(extended.platformCalibers('fn five-seven ammo')).toEqual(['5.7x28mm'])
+  })
+})
+
+describe('validateCaliberEntries', () => {
+  it('rejects duplicate aliases, unknown parents and cycles', () => {
+    const errors = validateCaliberEntries([
+      entry({ name: 'A', parentName: 'B', aliases: ['shared'] }),
+      entry({ name: 'B', parentName: 'A', aliases: ['shared'] }),
+      entry({ name: 'C', parentName: 'Missing' }),
+    ])
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        'Alias "shared" is used by both A and B',
+        'Parent "Missing" of C does not exist',
+        'Parent chain of A contains a cycle',
+      ])
+    )
+  })
+
+  it('rejects invalid title patterns and grain ranges', () => {
+    const errors = validateCaliberEntries([
+      entry({ titlePatterns: ['(unclosed'], grainRanges: { light: [-1], medium: [], heavy: [] } }),
+    ])
+
+    expect(errors).toEqual([
+      'Invalid title pattern for 5.7x28mm: (unclosed',
+      'Grain ranges for 5.7x28mm must be positive numbers',
+    ])
+  })
+})
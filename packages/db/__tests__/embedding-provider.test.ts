@@ -0,0 +1,156 @@
+/**
+ * Embedding Provider Tests
+ *
+ * Provider selection, the local sentence-transformer provider (against a fake
+ * transformers module; the real model is not downloaded in tests) and the
+ * hashed n-gram test stub.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createEmbeddingProvider,
+  createHashedNgramEmbeddingProvider,
+  createLocalEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  hashedNgramEmbedding,
+  resolveEmbeddingProviderName,
+  tokenizeForEmbedding,
+  HASHED_NGRAM_EMBEDDING_DIMENSIONS,
+  HASHED_NGRAM_EMBEDDING_MODEL,
+  LOCAL_EMBEDDING_MODEL,
+} from '../embedding-provider.js'
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return dot / Math.sqrt(na * nb)
+}
+
+/** Fake @huggingface/transformers: one [length, batch index] vector per text */
+function fakeTransformers() {
+  const extract = vi.fn(async (texts: string[]) => ({
+    tolist: () => texts.map((text, i) => [text.length, i]),
+  }))
+  const module = {
+    env: { cacheDir: null as string | null, localModelPath: '/models-default', allowRemoteModels: true },
+    pipeline: vi.fn(async () => extract),
+  }
+  return { module, extract, loadTransformers: vi.fn(async () => module) }
+}
+
+describe('resolveEmbeddingProviderName', () => {
+  it('defaults to openai with an API key and the local model without one', () => {
+    expect(resolveEmbeddingProviderName({ OPENAI_API_KEY: 'sk-test' })).toBe('openai')
+    expect(resolveEmbeddingProviderName({})).toBe('local')
+  })
+
+  it('honors EMBEDDING_PROVIDER and ignores unknown values', () => {
+    expect(resolveEmbeddingProviderName({ EMBEDDING_PROVIDER: 'Local', OPENAI_API_KEY: 'sk-test' })).toBe('local')
+    expect(resolveEmbeddingProviderName({ EMBEDDING_PROVIDER: 'none' })).toBe('none')
+    expect(resolveEmbeddingProviderName({ EMBEDDING_PROVIDER: 'onnx' })).toBe('local')
+  })
+
+  it('does not offer the hashed n-gram stub', () => {
+    expect(resolveEmbeddingProviderName({ EMBEDDING_PROVIDER: 'hashed-ngram' })).toBe('local')
+  })
+})
+
+describe('createEmbeddingProvider', () => {
+  it('returns null when turned off or openai has no key', () => {
+    expect(createEmbeddingProvider({ env: { EMBEDDING_PROVIDER: 'none' } })).toBeNull()
+    expect(createEmbeddingProvider({ env: { EMBEDDING_PROVIDER: 'openai' }, createOpenAIClient: vi.fn() })).toBeNull()
+  })
+
+  it('builds the local provider from the environment without loading the model', () => {
+    const { loadTransformers } = fakeTransformers()
+    const provider = createEmbeddingProvider({
+      env: { EMBEDDING_MODEL_CACHE_DIR: '/models', EMBEDDING_LOCAL_MODEL: 'org/other-model', EMBEDDING_LOCAL_DIMENSIONS: '768' },
+      loadTransformers,
+    })
+
+    expect(provider).toMatchObject({ name: 'local', modelId: 'org/other-model', dimensions: 768 })
+    expect(loadTransformers).not.toHaveBeenCalled()
+    expect(createEmbeddingProvider({ env: {}, loadTransformers })).toMatchObject({ modelId: LOCAL_EMBEDDING_MODEL })
+  })
+
+  it('batches OpenAI requests and keeps input order', async () => {
+    const create = vi.fn(async ({ input }: { input: string[] }) => ({
+      data: input.map((text) => ({ embedding: [text.length] })),
+    }))
+    const provider = createOpenAIEmbeddingProvider({ embeddings: { create } })
+
+    const texts = Array.from({ length: 150 }, (_, i) => 'x'.repeat(i + 1))
+    const embeddings = await provider.embed(texts)
+
+    expect(create).toHaveBeenCalledTimes(2)
+    expect(embeddings.map((e) => e[0])).toEqual(texts.map((t) => t.length))
+  })
+})
+
+describe('createLocalEmbeddingProvider', () => {
+  it('loads the model once from the configured cache and mean-pools in batches', async () => {
+    const { module, extract, loadTransformers } = fakeTransformers()
+    const provider = createLocalEmbeddingProvider({ cacheDir: '/models', allowDownload: false, loadTransformers })
+
+    const texts = Array.from({ length: 40 }, (_, i) => 'x'.repeat(i + 1))
+    const embeddings = await provider.embed(texts)
+    await provider.embed(['9mm'])
+
+    expect(loadTransformers).toHaveBeenCalledTimes(1)
+    expect(module.pipeline).toHaveBeenCalledWith('feature-extraction', LOCAL_EMBEDDING_MODEL, { dtype: 'fp32' })
+    expect(module.env).toEqual({ cacheDir: '/models', localModelPath: '/models', allowRemoteModels: false })
+    expect(extract).toHaveBeenCalledWith(texts.slice(0, 32), { pooling: 'mean', normalize: true })
+    expect(extract).toHaveBeenCalledTimes(3)
+    expect(embeddings.map((e) => e[0])).toEqual(texts.map((t) => t.length))
+  })
+
+  it('retries a failed model load on the next call', async () => {
+    const { module, loadTransformers } = fakeTransformers()
+    const extract = await module.pipeline()
+    module.pipeline.mockRejectedValueOnce(new Error('file not found'))
+    const provider = createLocalEmbeddingProvider({ cacheDir: '/models', allowDownload: false, loadTransformers })
+
+    await expect(provider.embed(['9mm'])).rejects.toThrow(/downloads disabled; expected in \/models.*file not found/)
+    await expect(provider.embed(['9mm'])).resolves.toEqual([[3, 0]])
+    expect(extract).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('hashedNgramEmbedding (test stub)', () => {
+  it('builds a provider with the stub model id', async () => {
+    const provider = createHashedNgramEmbeddingProvider()
+
+    expect(provider).toMatchObject({ name: 'hashed-ngram', modelId: HASHED_NGRAM_EMBEDDING_MODEL })
+    const [embedding] = await provider.embed(['9mm 115gr FMJ'])
+    expect(embedding).toHaveLength(HASHED_NGRAM_EMBEDDING_DIMENSIONS)
+  })
+
+  it('tokenizes calibers without losing the decimal point', () => {
+    expect(tokenizeForEmbedding('Federal .223 Rem / 5.56x45mm, 55gr FMJ!')).toEqual([
+      'federal', '223', 'rem', '5.56x45mm', '55gr', 'fmj',
+    ])
+  })
+
+  it('is deterministic and unit length', () => {
+    const a = hashedNgramEmbedding('Hornady Critical Defense 9mm 115gr FTX')
+    const b = hashedNgramEmbedding('Hornady Critical Defense 9mm 115gr FTX')
+
+    expect(a).toEqual(b)
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 4)
+    expect(hashedNgramEmbedding('').every((v) => v === 0)).toBe(true)
+  })
+
+  it('places texts sharing words and fragments closer than unrelated ones', () => {
+    const query = hashedNgramEmbedding('9mm hollow point for self defense')
+    const related = hashedNgramEmbedding('Speer Gold Dot 9mm Luger 124gr JHP hollowpoint. Purpose: Defense')
+    const unrelated = hashedNgramEmbedding('Winchester 12 gauge 00 buckshot 9 pellet')
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+})
@@ -48,6 +48,60 @@ describe('@ironscout/db exports', () => {
     expect(mod).toBeDefined()
   })
 
+  it('saved-search export resolves', async () => {
+    const mod = await import('@ironscout/db/saved-search.js')
+    expect(mod).toHaveProperty('savedSearchProductWhere')
+    expect(mod).toHaveProperty('offerMatchesSavedSearch')
+  })
+
+  it('caliber-taxonomy export resolves', async () => {
+    const mod = await import('@ironscout/db/caliber-taxonomy.js')
+    expect(mod).toHaveProperty('getCaliberTaxonomy')
+    expect(mod).toHaveProperty('startCaliberTaxonomyRefresh')
+  })
+
+  it('landed-cost export resolves', async () => {
+    const mod = await import('@ironscout/db/landed-cost.js')
+    expect(mod).toHaveProperty('calculateLandedCost')
+    expect(mod).toHaveProperty('loadShippingRules')
+  })
+
+  it('shipping-restrictions export resolves', async () => {
+    const mod = await import('@ironscout/db/shipping-restrictions.js')
+    expect(mod).toHaveProperty('loadShippingRestrictions')
+    expect(mod).toHaveProperty('isBlockingRestriction')
+  })
+
+  it('embedding-provider export resolves', async () => {
+    const mod = await import('@ironscout/db/embedding-provider.js')
+    expect(mod).toHaveProperty('createEmbeddingProvider')
+    expect(mod).toHaveProperty('hashedNgramEmbedding')
+  })
+
+  it('search-suggestions export resolves', async () => {
+    const mod = await import('@ironscout/db/search-suggestions.js')
+    expect(mod).toHaveProperty('buildSuggestionIndex')
+    expect(mod).toHaveProperty('createSuggestionMatcher')
+  })
+
+  it('extraction-rules export resolves', async () => {
+    const mod = await import('@ironscout/db/extraction-rules.js')
+    expect(mod).toHaveProperty('validateExtractionRules')
+    expect(mod).toHaveProperty('applyExtractionRules')
+  })
+
+  it('feed-upload-storage export resolves', async () => {
+    const mod = await import('@ironscout/db/feed-upload-storage.js')
+    expect(mod).toHaveProperty('createFeedUploadStorage')
+    expect(mod).toHaveProperty('FEED_UPLOAD_CHUNK_BYTES')
+  })
+
+  it('retailer-inventory export resolves', async () => {
+    const mod = await import('@ironscout/db/retailer-inventory.js')
+    expect(mod).toHaveProperty('classifyFeedRecord')
+    expect(mod).toHaveProperty('generateSkuHash')
+  })
+
   it('package.json exports are correctly configured', async () => {
     const pkgPath = resolve(__dirname, '../package.json')
     const pkg = await import(pkgPath, { with: { type: 'json' } })
@@ -0,0 +1,289 @@
+/**
+ * Extraction Rules Tests
+ *
+ * Validation, the XPath and JSONPath subsets, and record assembly for CSS,
+ * XPath and JSONPath rule sets.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyExtractionRules,
+  parseJsonPath,
+  parseXPath,
+  validateExtractionRules,
+  type ExtractionRules,
+} from '../extraction-rules.js'
+
+const PAGE_URL = 'https://shop.example.com/c/9mm?page=1'
+
+const LISTING_HTML = `
+<html><body>
+  <ul class="grid">
+    <li class="product" data-sku="AE9DP">
+      <a class="name" href="/p/ae9dp">Federal American Eagle 9mm 115gr FMJ</a>
+      <span class="price"><del>$21.99</del> <b>$18.99</b></span>
+      <span class="stock">In Stock</span>
+      <span class="meta">UPC: 029465064498 | 50 Rounds</span>
+    </li>
+    <li class="product" data-sku="USA9">
+      <a class="name" href="https://shop.example.com/p/usa9">Winchester White Box 9mm</a>
+      <span class="price"><b>$1,149.00</b></span>
+      <span class="stock">Sold Out</span>
+      <span class="meta">Case of 1,000 rds</span>
+    </li>
+    <li class="product">
+      <a class="name" href="/p/gift">Gift Card</a>
+    </li>
+  </ul>
+  <nav><a class="next" href="?page=2">Next</a></nav>
+</body></html>
+`
+
+function valid(raw: unknown, sourceType?: 'HTML' | 'JSON' | 'RSS'): ExtractionRules {
+  const { rules, errors } = validateExtractionRules(raw, sourceType)
+  expect(errors).toEqual([])
+  return rules!
+}
+
+describe('validateExtractionRules', () => {
+  it('normalizes string shorthands and defaults the currency', () => {
+    const rules = valid(
+      { selectorType: 'CSS', item: ' li.product ', fields: { title: 'a.name', price: { selector: '.price b' } } },
+      'HTML'
+    )
+
+    expect(rules).toEqual({
+      selectorType: 'CSS',
+      item: 'li.product',
+      fields: { title: { selector: 'a.name' }, price: { selector: '.price b' } },
+      currency: 'USD',
+    })
+  })
+
+  it('treats null as "no rules"', () => {
+    expect(validateExtractionRules(null, 'HTML')).toEqual({ rules: null, errors: [] })
+  })
+
+  it('reports every problem at once', () => {
+    const { rules, errors } = validateExtractionRules(
+      {
+        selectorType: 'CSS',
+        item: 'li[[',
+        fields: { title: 'a', caliber: '.cal', price: { pattern: '(' } },
+        currency: 'dollars',
+      },
+      'HTML'
+    )
+
+    expect(rules).toBeNull()
+    expect(errors).toEqual([
+      expect.stringMatching(/^item: invalid CSS selector/),
+      'fields.caliber is not a supported field',
+      'fields.price needs a selector or an attribute',
+      'currency must be a 3-letter code',
+    ])
+  })
+
+  it('requires title and price and matches the selector type to the source type', () => {
+    expect(validateExtractionRules({ selectorType: 'CSS', item: 'li', fields: {} }, 'HTML').errors).toEqual([
+      'fields.title is required',
+      'fields.price is required',
+    ])
+    expect(
+      validateExtractionRules({ selectorType: 'CSS', item: 'li', fields: { title: 'a', price: 'b' } }, 'JSON').errors
+    ).toEqual(['JSON sources use JSONPATH rules'])
+    expect(
+      validateExtractionRules({ selectorType: 'JSONPATH', item: '$.items', fields: { title: '$.t', price: '$.p' } }, 'RSS')
+        .errors
+    ).toEqual(['RSS sources use CSS or XPATH rules'])
+    expect(validateExtractionRules({ selectorType: 'REGEX' }, 'HTML').errors).toEqual([
+      'selectorType must be one of CSS, XPATH, JSONPATH',
+    ])
+  })
+
+  it('rejects XPath and JSONPath outside the supported subset', () => {
+    const { errors } = validateExtractionRules(
+      { selectorType: 'XPATH', item: '//li[position() > 1]', fields: { title: 'a/@href/..', price: 'span' } },
+      'HTML'
+    )
+    expect(errors).toEqual([
+      'item: unsupported XPath predicate "[position() > 1]"',
+      'fields.title.selector: @attribute and text() must be the last XPath step',
+    ])
+    expect(() => parseJsonPath('data.items')).toThrow('JSONPath must start with "$"')
+    expect(() => parseJsonPath('$.items[?(@.price)]')).toThrow(/unsupported JSONPath segment/)
+  })
+})
+
+describe('applyExtractionRules - CSS', () => {
+  const rules = valid({
+    selectorType: 'CSS',
+    item: 'li.product',
+    fields: {
+      title: 'a.name',
+      url: { selector: 'a.name', attribute: 'href' },
+      price: '.price b',
+      inStock: { selector: '.stock', inStockPattern: 'in stock' },
+      upc: { selector: '.meta', pattern: 'UPC:\\s*(\\d{12})' },
+      sku: { attribute: 'data-sku' },
+      roundCount: { selector: '.meta', pattern: '([\\d,]+)\\s*(?:rounds|rds)' },
+    },
+    nextPage: { selector: 'a.next', attribute: 'href' },
+  })
+
+  it('extracts each item and reports records missing required values', () => {
+    const { records, nextPage } = applyExtractionRules(rules, LISTING_HTML, { pageUrl: PAGE_URL })
+
+    expect(records).toEqual([
+      {
+        title: 'Federal American Eagle 9mm 115gr FMJ',
+        url: 'https://shop.example.com/p/ae9dp',
+        price: 18.99,
+        currency: 'USD',
+        inStock: true,
+        upc: '029465064498',
+        sku: 'AE9DP',
+        roundCount: 50,
+        missing: [],
+      },
+      {
+        title: 'Winchester White Box 9mm',
+        url: 'https://shop.example.com/p/usa9',
+        price: 1149,
+        currency: 'USD',
+        inStock: false,
+        upc: null,
+        sku: 'USA9',
+        roundCount: 1000,
+        missing: [],
+      },
+      expect.objectContaining({ title: 'Gift Card', price: null, sku: null, missing: ['price'] }),
+    ])
+    expect(nextPage).toBe('https://shop.example.com/c/9mm?page=2')
+  })
+
+  it('uses the page URL when there is no url rule', () => {
+    const { records } = applyExtractionRules(
+      valid({ selectorType: 'CSS', item: 'li.product', fields: { title: 'a.name', price: '.price b' } }),
+      LISTING_HTML,
+      { pageUrl: PAGE_URL }
+    )
+    expect(records[0].url).toBe(PAGE_URL)
+  })
+
+  it('reads namespaced RSS elements in XML mode', () => {
+    const rss = `<?xml version="1.0"?>
+      <rss xmlns:g="http://base.google.com/ns/1.0"><channel>
+        <item><title>CCI Blazer 9mm</title><link>https://shop.example.com/p/5201</link><g:price>19.99 USD</g:price></item>
+      </channel></rss>`
+    const { records } = applyExtractionRules(
+      valid({ selectorType: 'CSS', item: 'item', fields: { title: 'title', url: 'link', price: 'g\\:price' } }, 'RSS'),
+      rss,
+      { pageUrl: PAGE_URL, xml: true }
+    )
+    expect(records).toEqual([
+      expect.objectContaining({ title: 'CCI Blazer 9mm', url: 'https://shop.example.com/p/5201', price: 19.99 }),
+    ])
+  })
+})
+
+describe('applyExtractionRules - XPath', () => {
+  it('supports descendant steps, attribute and text() results and predicates', () => {
+    const rules = valid({
+      selectorType: 'XPATH',
+      item: "//ul[@class='grid']/li[@data-sku]",
+      fields: {
+        title: "a[contains(@class, 'name')]",
+        url: 'a/@href',
+        price: ".//span[starts-with(@class, 'pri')]/b/text()",
+        inStock: "span[@class='stock']",
+        sku: { attribute: 'data-sku' },
+      },
+      nextPage: "//nav/a[text()='Next']/@href",
+    })
+
+    const { records, nextPage } = applyExtractionRules(rules, LISTING_HTML, { pageUrl: PAGE_URL })
+
+    expect(records.map(r => [r.sku, r.title, r.url, r.price, r.inStock])).toEqual([
+      ['AE9DP', 'Federal American Eagle 9mm 115gr FMJ', 'https://shop.example.com/p/ae9dp', 18.99, true],
+      ['USA9', 'Winchester White Box 9mm', 'https://shop.example.com/p/usa9', 1149, false],
+    ])
+    expect(nextPage).toBe('https://shop.example.com/c/9mm?page=2')
+  })
+
+  it('supports positional predicates and parent steps', () => {
+    const base = { selectorType: 'XPATH', fields: { title: 'a', price: 'span/b' } }
+
+    expect(applyExtractionRules(valid({ ...base, item: '//li[2]' }), LISTING_HTML, { pageUrl: PAGE_URL }).records.map(r => r.title)).toEqual([
+      'Winchester White Box 9mm',
+    ])
+    expect(applyExtractionRules(valid({ ...base, item: '//li[last()]' }), LISTING_HTML, { pageUrl: PAGE_URL }).records.map(r => r.title)).toEqual([
+      'Gift Card',
+    ])
+    expect(
+      applyExtractionRules(valid({ ...base, item: "//span[@class='stock']/.." }), LISTING_HTML, { pageUrl: PAGE_URL }).records
+    ).toHaveLength(2)
+  })
+
+  it('parses absolute and relative paths', () => {
+    expect(parseXPath('/html/body').steps.map(s => [s.axis, s.test])).toEqual([
+      ['child', 'html'],
+      ['child', 'body'],
+    ])
+    expect(parseXPath('.//a/@href').steps.map(s => [s.axis, s.test])).toEqual([
+      ['child', '.'],
+      ['descendant', 'a'],
+      ['child', '@href'],
+    ])
+  })
+})
+
+describe('applyExtractionRules - JSONPath', () => {
+  const body = JSON.stringify({
+    data: {
+      products: [
+        { name: 'Fiocchi 12ga 00 Buck', link: '/p/fiocchi', pricing: { sale: '9.99' }, stock: { available: true }, codes: { upc: '762344700105' }, rounds: 10 },
+        { name: 'Remington UMC .45 ACP', link: '/p/umc45', pricing: { sale: 54 }, stock: { available: false } },
+      ],
+    },
+    links: { next: '/api/products?cursor=abc' },
+  })
+
+  it('extracts records from the item array', () => {
+    const rules = valid(
+      {
+        selectorType: 'JSONPATH',
+        item: '$.data.products[*]',
+        fields: {
+          title: '$.name',
+          url: '$.link',
+          price: '$.pricing.sale',
+          inStock: '$.stock.available',
+          upc: "$['codes']['upc']",
+          roundCount: '$.rounds',
+        },
+        nextPage: '$.links.next',
+      },
+      'JSON'
+    )
+
+    const { records, nextPage } = applyExtractionRules(rules, body, { pageUrl: 'https://shop.example.com/api/products' })
+
+    expect(records).toEqual([
+      expect.objectContaining({ title: 'Fiocchi 12ga 00 Buck', url: 'https://shop.example.com/p/fiocchi', price: 9.99, inStock: true, upc: '762344700105', roundCount: 10 }),
+      expect.objectContaining({ title: 'Remington UMC .45 ACP', price: 54, inStock: false, upc: null, roundCount: null }),
+    ])
+    expect(nextPage).toBe('https://shop.example.com/api/products?cursor=abc')
+  })
+
+  it('accepts an array path and recursive descent', () => {
+    const rules = valid({ selectorType: 'JSONPATH', item: '$..products', fields: { title: '$.name', price: '$..sale' } }, 'JSON')
+
+    expect(applyExtractionRules(rules, body, { pageUrl: PAGE_URL }).records.map(r => r.price)).toEqual([9.99, 54])
+  })
+
+  it('throws on a body that is not JSON', () => {
+    const rules = valid({ selectorType: 'JSONPATH', item: '$.items', fields: { title: '$.t', price: '$.p' } }, 'JSON')
+    expect(() => applyExtractionRules(rules, '<html>', { pageUrl: PAGE_URL })).toThrow(SyntaxError)
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Feed Upload Storage Tests
+ *
+ * Chunk arithmetic, the local backend against a temp directory, and the S3
+ * backend against a recording client.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Readable } from 'node:stream'
+import {
+  FEED_UPLOAD_CHUNK_BYTES,
+  buildFeedUploadKey,
+  chunkCountFor,
+  createFeedUploadStorage,
+  createLocalFeedUploadStorage,
+  createS3FeedUploadStorage,
+  expectedChunkBytes,
+  resolveFeedUploadLimits,
+} from '../feed-upload-storage.js'
+
+/** Chunks yielded by an upload stream */
+async function readChunks(stream: Readable): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of stream) chunks.push(chunk.toString())
+  return chunks
+}
+
+describe('chunk arithmetic', () => {
+  it('splits files into fixed-size chunks with a shorter last chunk', () => {
+    const size = FEED_UPLOAD_CHUNK_BYTES * 2 + 10
+
+    expect(chunkCountFor(size)).toBe(3)
+    expect([0, 1, 2, 3].map(i => expectedChunkBytes(size, i))).toEqual([
+      FEED_UPLOAD_CHUNK_BYTES,
+      FEED_UPLOAD_CHUNK_BYTES,
+      10,
+      0,
+    ])
+    expect(chunkCountFor(FEED_UPLOAD_CHUNK_BYTES)).toBe(1)
+    expect(chunkCountFor(0)).toBe(1)
+  })
+
+  it('reads limits from the environment', () => {
+    expect(resolveFeedUploadLimits({})).toEqual({ maxBytes: 100 * 1024 * 1024, retentionDays: 30 })
+    expect(resolveFeedUploadLimits({ FEED_UPLOAD_MAX_BYTES: '1024', FEED_UPLOAD_RETENTION_DAYS: '7' })).toEqual({
+      maxBytes: 1024,
+      retentionDays: 7,
+    })
+  })
+
+  it('only builds keys from plain ids', () => {
+    expect(buildFeedUploadKey('ret_1', 'cm0abc')).toBe('ret_1/cm0abc')
+    expect(() => buildFeedUploadKey('..', 'x')).toThrow('Invalid feed upload storage key')
+    expect(() => buildFeedUploadKey('ret', 'a/../../etc')).toThrow('Invalid feed upload storage key')
+  })
+})
+
+describe('local backend', () => {
+  let root: string
+
+  afterEach(async () => {
+    if (root) await rm(root, { recursive: true, force: true })
+  })
+
+  it('writes, overwrites, reads and deletes chunks', async () => {
+    root = await mkdtemp(join(tmpdir(), 'feed-uploads-'))
+    const storage = createLocalFeedUploadStorage(root)
+
+    await storage.putChunk('ret-1/up-1', 0, Buffer.from('upc,title\n'))
+    await storage.putChunk('ret-1/up-1', 1, Buffer.from('stale'))
+    await storage.putChunk('ret-1/up-1', 1, Buffer.from('029465064498,Federal 9mm\n'))
+
+    expect(await readChunks(storage.readUpload('ret-1/up-1', 2))).toEqual(['upc,title\n', '029465064498,Federal 9mm\n'])
+    expect(await readdir(join(root, 'ret-1', 'up-1'))).toEqual(['00000', '00001'])
+
+    await storage.deleteUpload('ret-1/up-1')
+    await storage.deleteUpload('ret-1/up-1')
+    expect(await readdir(join(root, 'ret-1'))).toEqual([])
+  })
+
+  it('fails to read an upload with a missing chunk', async () => {
+    root = await mkdtemp(join(tmpdir(), 'feed-uploads-'))
+    const storage = createLocalFeedUploadStorage(root)
+    await storage.putChunk('ret-1/up-2', 0, Buffer.from('a'))
+
+    await expect(readChunks(storage.readUpload('ret-1/up-2', 2))).rejects.toThrow(/ENOENT/)
+  })
+})
+
+describe('s3 backend', () => {
+  function recordingClient(objects: Map<string, Buffer>) {
+    const commands: Array<{ name: string; input: any }> = []
+    return {
+      commands,
+      async send(command: any) {
+        const name = command.constructor.name
+        const input = command.input
+        commands.push({ name, input })
+        if (name === 'PutObjectCommand') objects.set(input.Key, Buffer.from(input.Body))
+        if (name === 'GetObjectCommand') {
+          const body = objects.get(input.Key)!
+          return { Body: { transformToByteArray: async () => new Uint8Array(body) } }
+        }
+        if (name === 'ListObjectsV2Command') {
+          return { Contents: [...objects.keys()].filter(k => k.startsWith(input.Prefix)).map(Key => ({ Key })), IsTruncated: false }
+        }
+        if (name === 'DeleteObjectsCommand') {
+          for (const { Key } of input.Delete.Objects) objects.delete(Key)
+        }
+        return {}
+      },
+    }
+  }
+
+  it('stores one object per chunk under the prefix', async () => {
+    const objects = new Map<string, Buffer>()
+    const client = recordingClient(objects)
+    const storage = createS3FeedUploadStorage({ bucket: 'feeds', prefix: 'uploads', client })
+
+    await storage.putChunk('ret-1/up-1', 0, Buffer.from('a,b\n'))
+    await storage.putChunk('ret-1/up-1', 1, Buffer.from('1,2\n'))
+
+    expect([...objects.keys()]).toEqual(['uploads/ret-1/up-1/00000', 'uploads/ret-1/up-1/00001'])
+    expect(await readChunks(storage.readUpload('ret-1/up-1', 2))).toEqual(['a,b\n', '1,2\n'])
+
+    await storage.deleteUpload('ret-1/up-1')
+    expect(objects.size).toBe(0)
+    expect(client.commands.at(-1)).toMatchObject({ name: 'DeleteObjectsCommand', input: { Bucket: 'feeds' } })
+  })
+
+  it('needs a bucket', () => {
+    expect(() => createFeedUploadStorage({ FEED_UPLOAD_STORAGE: 's3' })).toThrow('FEED_UPLOAD_S3_BUCKET is required')
+    expect(() => createFeedUploadStorage({ FEED_UPLOAD_STORAGE: 'gcs' })).toThrow('Unknown FEED_UPLOAD_STORAGE "gcs"')
+    expect(createFeedUploadStorage({ FEED_UPLOAD_DIR: '/tmp/x' }).backend).toBe('local')
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * Landed Cost Tests
+ *
+ * Rule-priced shipping, free-shipping thresholds, state surcharges and the
+ * fallback to shipping observed on the offer.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateLandedCost,
+  calculateOrderLandedCost,
+  deliveredPricePerRound,
+  InvalidQuantityError,
+  toShippingRule,
+  validateShippingRuleInput,
+  type ShippingRule,
+} from '../landed-cost.js'
+
+function rule(overrides: Partial<ShippingRule>): ShippingRule {
+  return {
+    retailerId: 'r1',
+    shippingType: 'FLAT',
+    flatRate: 10,
+    perUnitRate: null,
+    freeShippingMinimum: null,
+    stateSurcharges: {},
+    ...overrides,
+  }
+}
+
+describe('calculateLandedCost', () => {
+  it('prices FLAT, PER_UNIT and FREE rules', () => {
+    const offer = { price: 20 }
+
+    expect(calculateLandedCost({ offer, quantity: 3, rule: rule({}) })).toMatchObject({
+      itemTotal: 60,
+      shipping: 10,
+      total: 70,
+      shippingSource: 'RULE',
+    })
+    expect(
+      calculateLandedCost({ offer, quantity: 3, rule: rule({ shippingType: 'PER_UNIT', perUnitRate: 2.5 }) }).total
+    ).toBe(67.5)
+    expect(calculateLandedCost({ offer, rule: rule({ shippingType: 'FREE' }) }).total).toBe(20)
+  })
+
+  it('waives shipping at the free shipping minimum but keeps state surcharges', () => {
+    const flat = rule({ freeShippingMinimum: 99, stateSurcharges: { AK: 15 } })
+
+    expect(calculateLandedCost({ offer: { price: 20 }, quantity: 4, rule: flat }).shipping).toBe(10)
+    expect(calculateLandedCost({ offer: { price: 20 }, quantity: 5, rule: flat })).toMatchObject({
+      shipping: 0,
+      freeShippingApplied: true,
+    })
+    expect(
+      calculateLandedCost({ offer: { price: 20 }, quantity: 5, rule: flat, destinationState: 'AK' }).shipping
+    ).toBe(15)
+  })
+
+  it('falls back to observed offer shipping for UNKNOWN/CALCULATED rules', () => {
+    const offer = { price: 30, shippingCost: 8.99, freeShippingMinimum: 100 }
+
+    expect(calculateLandedCost({ offer, rule: rule({ shippingType: 'CALCULATED' }) })).toMatchObject({
+      total: 38.99,
+      shippingSource: 'OFFER',
+    })
+    expect(calculateLandedCost({ offer, quantity: 4 }).total).toBe(120)
+  })
+
+  it('returns an unknown total when no shipping is known', () => {
+    expect(calculateLandedCost({ offer: { price: 30 } })).toMatchObject({
+      shipping: null,
+      total: null,
+      shippingSource: 'UNKNOWN',
+    })
+    expect(calculateLandedCost({ offer: { price: 30 }, rule: rule({ flatRate: null }) }).total).toBeNull()
+  })
+})
+
+describe('calculateOrderLandedCost', () => {
+  it('rejects quantities that are not positive integers', () => {
+    for (const quantity of [0, -2, 1.5, Number.NaN]) {
+      expect(() => calculateOrderLandedCost({ lines: [{ offer: { price: 20 }, quantity }] })).toThrow(
+        InvalidQuantityError
+      )
+    }
+    expect(() => calculateLandedCost({ offer: { price: 20 }, quantity: 0 })).toThrow(
+      'Quantity must be a positive integer, got 0'
+    )
+  })
+
+  it('charges shipping once per order against the order subtotal', () => {
+    const lines = [
+      { offer: { price: 60 }, quantity: 1 },
+      { offer: { price: 25 }, quantity: 2 },
+    ]
+
+    expect(calculateOrderLandedCost({ lines, rule: rule({ freeShippingMinimum: 100 }) })).toMatchObject({
+      quantity: 3,
+      itemTotal: 110,
+      shipping: 0,
+      freeShippingApplied: true,
+    })
+    expect(
+      calculateOrderLandedCost({ lines, rule: rule({ shippingType: 'PER_UNIT', perUnitRate: 3 }) }).total
+    ).toBe(119)
+  })
+
+  it('uses the highest observed shipping and lowest observed minimum without a rule', () => {
+    const cost = calculateOrderLandedCost({
+      lines: [
+        { offer: { price: 40, shippingCost: 7.99, freeShippingMinimum: 150 } },
+        { offer: { price: 40, shippingCost: 9.99 } },
+      ],
+    })
+
+    expect(cost).toMatchObject({ shipping: 9.99, total: 89.99, shippingSource: 'OFFER' })
+  })
+})
+
+describe('deliveredPricePerRound', () => {
+  it('spreads the delivered total over all rounds', () => {
+    const flat = rule({})
+
+    expect(deliveredPricePerRound({ offer: { price: 15 }, roundCount: 50, rule: flat })).toBe(0.5)
+    expect(deliveredPricePerRound({ offer: { price: 15 }, roundCount: 50, quantity: 4, rule: flat })).toBe(0.35)
+    expect(deliveredPricePerRound({ offer: { price: 15 }, roundCount: null, rule: flat })).toBeNull()
+    expect(deliveredPricePerRound({ offer: { price: 15 }, roundCount: 50 })).toBeNull()
+  })
+})
+
+describe('shipping rule rows and input', () => {
+  it('converts Decimal columns and drops invalid surcharges', () => {
+    expect(
+      toShippingRule({
+        retailerId: 'r1',
+        shippingType: 'FLAT',
+        flatRate: '9.95',
+        perUnitRate: null,
+        freeShippingMinimum: '149.00',
+        stateSurcharges: { HI: '12.5', XX: 3, AK: -1 },
+      })
+    ).toEqual(rule({ flatRate: 9.95, freeShippingMinimum: 149, stateSurcharges: { HI: 12.5 } }))
+  })
+
+  it('requires the rate for the selected type', () => {
+    expect(validateShippingRuleInput({ shippingType: 'FLAT' })).toEqual(['Flat rate is required for FLAT shipping'])
+    expect(
+      validateShippingRuleInput({ shippingType: 'FREE', freeShippingMinimum: -5, stateSurcharges: { ZZ: 1 } })
+    ).toEqual(['Free shipping minimum must be a non-negative number', 'Unknown state code: ZZ'])
+  })
+})
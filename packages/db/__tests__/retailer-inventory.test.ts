@@ -0,0 +1,72 @@
+/**
+ * Retailer Inventory Rules Tests
+ *
+ * UPC normalization, record lanes and SKU hashing shared by feed connectors
+ * and the inventory push API.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  classifyFeedRecord,
+  generateContentHash,
+  generateSkuHash,
+  validateUPC,
+} from '../retailer-inventory.js'
+
+describe('validateUPC', () => {
+  it('normalizes prefixed and formatted codes', () => {
+    expect(validateUPC('UPC:029465-064498')).toBe('029465064498')
+    expect(validateUPC(' 4006381333931 ')).toBe('4006381333931')
+  })
+
+  it('rejects empty and wrong-length codes', () => {
+    expect(validateUPC(undefined)).toBeNull()
+    expect(validateUPC('1234567')).toBeNull()
+    expect(validateUPC('123456789012345')).toBeNull()
+  })
+})
+
+describe('classifyFeedRecord', () => {
+  const base = { title: 'Federal 9mm 115gr FMJ', price: 18.99, rawRow: {} }
+
+  it('indexes records with a UPC, title and price', () => {
+    expect(classifyFeedRecord({ ...base, upc: '029465064498' })).toEqual({
+      lane: 'INDEXABLE',
+      isIndexable: true,
+      errors: [],
+    })
+  })
+
+  it('quarantines records without a UPC', () => {
+    const result = classifyFeedRecord({ ...base, rawRow: { upc: 'n/a' } })
+
+    expect(result.lane).toBe('QUARANTINE')
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'upc', code: 'MISSING_UPC', rawValue: 'n/a' }),
+    ])
+  })
+
+  it('rejects records missing a title or price', () => {
+    const result = classifyFeedRecord({ upc: '029465064498', title: '', price: 0, rawRow: { price: 'call' } })
+
+    expect(result.lane).toBe('REJECT')
+    expect(result.errors.map(e => e.code)).toEqual(['MISSING_TITLE', 'INVALID_PRICE'])
+    expect(result.errors[1].rawValue).toBe('call')
+  })
+})
+
+describe('SKU hashing', () => {
+  it('keys identity on title, UPC and SKU but not price', () => {
+    const a = generateSkuHash('Federal 9mm 115gr FMJ', '029465064498', 'FED-9')
+    expect(generateSkuHash('  federal 9MM 115gr fmj ', '029465064498', 'FED-9')).toBe(a)
+    expect(generateSkuHash('Federal 9mm 115gr FMJ', '029465064498')).not.toBe(a)
+    expect(a).toHaveLength(32)
+  })
+
+  it('changes the content hash when price or stock changes', () => {
+    const a = generateContentHash({ price: 18.99, inStock: true })
+    expect(generateContentHash({ price: 18.99, inStock: true })).toBe(a)
+    expect(generateContentHash({ price: 17.99, inStock: true })).not.toBe(a)
+    expect(generateContentHash({ price: 18.99, inStock: false })).not.toBe(a)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Search Suggestion Index Tests
+ *
+ * Index building from catalog rows (brands, aliases, calibers, product lines,
+ * bullet types) and prefix/fuzzy matching against the built index.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildSuggestionIndex,
+  createSuggestionMatcher,
+  deriveProductLine,
+  tokenizeSuggestionText,
+} from '../search-suggestions.js'
+import { BUILTIN_CALIBERS, CaliberTaxonomy } from '../caliber-taxonomy.js'
+
+const taxonomy = new CaliberTaxonomy(BUILTIN_CALIBERS, 0)
+
+const products = [
+  { name: 'Federal Premium HST 9mm Luger 124gr JHP', brand: 'Federal', caliber: '9mm', grainWeight: 124, bulletType: 'HST' },
+  { name: 'Federal Premium HST 9mm 147gr', brand: 'Federal', caliber: '9mm', grainWeight: 147, bulletType: 'HST' },
+  { name: 'Federal HST .40 S&W 180gr', brand: 'Federal', caliber: '.40 S&W', grainWeight: 180, bulletType: 'HST' },
+  { name: 'Federal American Eagle 9mm 115gr FMJ', brand: 'Federal', caliber: '9mm', grainWeight: 115, bulletType: 'FMJ' },
+  { name: 'Hornady Critical Defense 9mm 115gr FTX', brand: 'Hornady', caliber: '9mm', grainWeight: 115, bulletType: 'JHP' },
+  { name: 'Hornady Critical Defense .380 ACP 90gr', brand: 'Hornady', caliber: '.380 ACP', grainWeight: 90, bulletType: 'JHP' },
+  { name: 'Hornady One-Off Special 9mm', brand: 'hornady', caliber: '9mm', grainWeight: null, bulletType: null },
+]
+
+const brandAliases = [{ aliasName: 'Federal Premium', canonicalName: 'Federal' }]
+
+function buildMatcher() {
+  return createSuggestionMatcher(buildSuggestionIndex({ products, brandAliases, taxonomy }))
+}
+
+describe('tokenizeSuggestionText', () => {
+  it('keeps decimals and +p and drops other punctuation', () => {
+    expect(tokenizeSuggestionText('Hornady .357 Mag +P, 5.56x45!')).toEqual(['hornady', '357', 'mag', 'p', '5.56x45'])
+  })
+})
+
+describe('deriveProductLine', () => {
+  it('keeps the first run of line words', () => {
+    const excluded = new Set(['federal', '9mm', 'luger', 'jhp'])
+
+    expect(deriveProductLine('Federal Premium HST 9mm Luger 124gr JHP', excluded)).toBe('HST')
+    expect(deriveProductLine('Federal 9mm 124gr American Eagle FMJ', new Set([...excluded, 'fmj']))).toBe('American Eagle')
+    expect(deriveProductLine('Federal 9mm 124gr', excluded)).toBeNull()
+  })
+})
+
+describe('buildSuggestionIndex', () => {
+  it('indexes brands, calibers, repeated product lines and product phrases', () => {
+    const index = buildSuggestionIndex({ products, brandAliases, taxonomy, builtAt: new Date('2026-10-01T00:00:00Z') })
+    const texts = (kind: string) => index.entries.filter((e) => e.kind === kind).map((e) => e.text)
+
+    expect(index.version).toBe('2026-10-01T00:00:00.000Z')
+    expect(texts('BRAND').sort()).toEqual(['Federal', 'Hornady'])
+    expect(texts('PRODUCT_LINE').sort()).toEqual(['Federal HST', 'Hornady Critical Defense'])
+    expect(texts('PRODUCT')).toContain('Federal HST 124gr 9mm')
+    // A line on a single product is not a line
+    expect(texts('PRODUCT')).toContain('Federal 115gr 9mm')
+    expect(texts('BULLET_TYPE')).toContain('HST')
+    // Calibers sharing a label (12ga / 12 Gauge) become one suggestion
+    expect(texts('CALIBER')).toContain('9mm')
+    expect(new Set(texts('CALIBER')).size).toBe(new Set(taxonomy.entries.map((e) => e.label)).size)
+  })
+
+  it('counts brand spellings together', () => {
+    const index = buildSuggestionIndex({ products, taxonomy })
+    const hornady = index.entries.find((e) => e.kind === 'BRAND' && e.text === 'Hornady')
+
+    expect(hornady?.weight).toBe(3)
+  })
+})
+
+describe('createSuggestionMatcher', () => {
+  it('completes every query token by prefix', () => {
+    const results = buildMatcher().match('fed hst 1')
+
+    expect(results[0]).toEqual({ text: 'Federal HST 124gr 9mm', kind: 'PRODUCT' })
+    expect(results.every((r) => r.text.startsWith('Federal HST'))).toBe(true)
+  })
+
+  it('ranks brands and calibers ahead of product phrases for short queries', () => {
+    expect(buildMatcher().match('horn')[0]).toEqual({ text: 'Hornady', kind: 'BRAND' })
+    expect(buildMatcher().match('9x19')[0].kind).toBe('CALIBER')
+  })
+
+  it('matches brand aliases', () => {
+    expect(buildMatcher().match('federal premium').map((r) => r.text)).toContain('Federal')
+  })
+
+  it('tolerates one typo in longer tokens', () => {
+    expect(buildMatcher().match('hornday crit')[0].text).toBe('Hornady Critical Defense')
+    expect(buildMatcher().match('xyzzy')).toEqual([])
+  })
+
+  it('returns bullet types with their label', () => {
+    expect(buildMatcher().match('hollow')).toContainEqual({
+      text: 'JHP',
+      kind: 'BULLET_TYPE',
+      detail: 'Jacketed Hollow Point',
+    })
+  })
+
+  it('respects the limit', () => {
+    expect(buildMatcher().match('9', 3)).toHaveLength(3)
+    expect(buildMatcher().match('  ')).toEqual([])
+  })
+})
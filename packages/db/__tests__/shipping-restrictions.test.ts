@@ -0,0 +1,53 @@
+/**
+ * Shipping Restrictions Tests
+ *
+ * Blocking vs flagged reason codes, loading restrictions for a state and
+ * admin input validation.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  isBlockingRestriction,
+  loadShippingRestrictions,
+  validateShippingRestrictionInput,
+} from '../shipping-restrictions.js'
+
+describe('isBlockingRestriction', () => {
+  it('blocks NO_SHIP and IN_PERSON_PICKUP only', () => {
+    expect(isBlockingRestriction('NO_SHIP')).toBe(true)
+    expect(isBlockingRestriction('IN_PERSON_PICKUP')).toBe(true)
+    expect(isBlockingRestriction('FFL_REQUIRED')).toBe(false)
+    expect(isBlockingRestriction('BACKGROUND_CHECK')).toBe(false)
+    expect(isBlockingRestriction(null)).toBe(false)
+  })
+})
+
+describe('loadShippingRestrictions', () => {
+  it('returns reasons keyed by retailer for the state', async () => {
+    const findMany = vi.fn().mockResolvedValue([{ retailerId: 'r1', reason: 'FFL_REQUIRED' }])
+    const prisma = { retailer_shipping_restrictions: { findMany } } as any
+
+    const restrictions = await loadShippingRestrictions(prisma, ['r1', 'r2', 'r1'], 'CA')
+
+    expect(restrictions).toEqual(new Map([['r1', 'FFL_REQUIRED']]))
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { retailerId: { in: ['r1', 'r2'] }, state: 'CA' } })
+    )
+  })
+
+  it('skips the query without a valid state', async () => {
+    const findMany = vi.fn()
+    const prisma = { retailer_shipping_restrictions: { findMany } } as any
+
+    expect((await loadShippingRestrictions(prisma, ['r1'], null)).size).toBe(0)
+    expect((await loadShippingRestrictions(prisma, ['r1'], 'XX')).size).toBe(0)
+    expect(findMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('validateShippingRestrictionInput', () => {
+  it('rejects unknown states and reasons', () => {
+    expect(validateShippingRestrictionInput({ state: 'CA', reason: 'NO_SHIP' })).toEqual([])
+    expect(validateShippingRestrictionInput({ state: 'ZZ', reason: 'MAYBE' })).toHaveLength(2)
+  })
+})
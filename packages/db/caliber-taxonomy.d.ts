@@ -0,0 +1,95 @@
+import type { PrismaClient, CaliberCategory } from './generated/prisma/client.js'
+
+/** Typical bullet weights (grains) by class, e.g. 9mm: 115 / 124 / 147 */
+export interface CaliberGrainRanges {
+  light: number[]
+  medium: number[]
+  heavy: number[]
+}
+
+/**
+ * One caliber in the taxonomy (a `calibers` row, parent resolved by name).
+ */
+export interface CaliberEntry {
+  /** Canonical value (products.caliber for extractable calibers, user_guns.caliber for Gun Locker ones) */
+  name: string
+  /** Display label */
+  label: string
+  category: CaliberCategory
+  /** Broader caliber this one rolls up to (5.56 NATO -> .223/5.56) */
+  parentName: string | null
+  /** Lowercase alternate spellings matched exactly and in free text */
+  aliases: string[]
+  /** Case-insensitive regex sources for product title extraction */
+  titlePatterns: string[]
+  /** Platform names that imply this caliber (ar-15, glock 19) */
+  platforms: string[]
+  grainRanges: CaliberGrainRanges | null
+  /** Selectable in the Gun Locker / price check */
+  gunLocker: boolean
+  /** Ascending; also extraction precedence */
+  sortOrder: number
+}
+
+export declare const CALIBER_TAXONOMY_REFRESH_MS: number
+
+/** Built-in taxonomy - migration seed and fallback until a version is loaded */
+export declare const BUILTIN_CALIBERS: CaliberEntry[]
+
+export declare class CaliberTaxonomy {
+  constructor(entries: CaliberEntry[], version?: number)
+
+  /** Version from caliber_taxonomy_versions (0 = built-in) */
+  readonly version: number
+  /** Entries ordered by sortOrder */
+  readonly entries: CaliberEntry[]
+
+  /** Exact lookup by name or alias (case-insensitive) */
+  find(input: string | null | undefined): CaliberEntry | null
+  /** Caliber name extracted from a product title */
+  extract(text: string | null | undefined): string | null
+  /** First caliber mentioned in free text (longest name/alias wins) */
+  detect(text: string | null | undefined): CaliberEntry | null
+  parentOf(entry: CaliberEntry): CaliberEntry | null
+  rootOf(entry: CaliberEntry): CaliberEntry
+  descendantsOf(entry: CaliberEntry): CaliberEntry[]
+  /** Nearest Gun Locker ancestor-or-self of the input */
+  toGunLockerValue(input: string | null | undefined): string | null
+  gunLockerValues(): string[]
+  label(name: string): string
+  /** Names in the input's family, for search expansion */
+  variations(input: string): string[]
+  /** Lowercase names and aliases of an entry and its descendants */
+  matchingStrings(name: string): string[]
+  /** Calibers implied by the first platform mentioned in free text */
+  platformCalibers(text: string | null | undefined): string[]
+  /** Grain ranges of the input or its nearest ancestor */
+  grainRanges(input: string | null | undefined): CaliberGrainRanges | null
+}
+
+/**
+ * Validate a full set of entries (duplicate names/aliases, unknown parents,
+ * parent cycles, invalid regex, grain values).
+ */
+export declare function validateCaliberEntries(entries: CaliberEntry[]): string[]
+
+/** Current taxonomy (built-in until a database version is loaded) */
+export declare function getCaliberTaxonomy(): CaliberTaxonomy
+
+export declare function setCaliberTaxonomy(taxonomy: CaliberTaxonomy): void
+
+/** Load the latest published version; null when none exists */
+export declare function loadCaliberTaxonomy(prisma: PrismaClient): Promise<CaliberTaxonomy | null>
+
+/** Reload if a newer version exists; true when a new version was loaded */
+export declare function refreshCaliberTaxonomy(prisma: PrismaClient): Promise<boolean>
+
+/** Load the latest version, then poll for new ones. Resolves to a stop function. */
+export declare function startCaliberTaxonomyRefresh(
+  prisma: PrismaClient,
+  options?: {
+    intervalMs?: number
+    onRefresh?: (taxonomy: CaliberTaxonomy) => void
+    onError?: (error: unknown) => void
+  }
+): Promise<() => void>
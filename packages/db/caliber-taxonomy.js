@@ -0,0 +1,637 @@
+/**
+ * Caliber Taxonomy
+ *
+ * Single source of caliber knowledge for the API (Gun Locker, price check,
+ * AI search) and the harvester (title extraction). Backed by the `calibers`
+ * table; every admin edit records a row in `caliber_taxonomy_versions`.
+ *
+ * Consumers read the in-memory taxonomy synchronously via getCaliberTaxonomy().
+ * startCaliberTaxonomyRefresh() polls the latest version and reloads the rows
+ * when it changes. Until the first load succeeds (or if the tables are
+ * unavailable) the built-in taxonomy below is served - it is the same data
+ * the migration seeds.
+ *
+ * Families: a caliber may have a parent. Children roll up to their nearest
+ * Gun Locker ancestor (5.56 NATO -> .223/5.56) and search expands a caliber to
+ * its whole family (".223" also finds 5.56 NATO).
+ *
+ * Title extraction tries titlePatterns in sortOrder and returns the caliber
+ * name, so ORDER MATTERS for overlapping patterns.
+ */
+
+export const CALIBER_TAXONOMY_REFRESH_MS = Number(process.env.CALIBER_TAXONOMY_REFRESH_MS) || 60_000
+
+// =============================================================================
+// Built-in taxonomy (seed + fallback)
+// =============================================================================
+
+const HANDGUN = 'HANDGUN'
+const RIFLE = 'RIFLE'
+const RIMFIRE = 'RIMFIRE'
+const SHOTGUN = 'SHOTGUN'
+const OTHER = 'OTHER'
+
+/** @type {import('./caliber-taxonomy').CaliberEntry[]} */
+export const BUILTIN_CALIBERS = [
+  // Handgun
+  {
+    name: '9mm', category: HANDGUN, gunLocker: true,
+    aliases: ['9x19mm', '9x19', '9mm luger', '9mm parabellum'],
+    titlePatterns: ['\\b9\\s?mm|9x19|9\\s?luger\\b'],
+    platforms: ['glock 19', 'glock 17', 'glock 43', 'beretta 92', 'sig p365', 'sig p320', 'smith & wesson shield'],
+    grainRanges: { light: [115], medium: [124], heavy: [147] },
+  },
+  {
+    name: '.45 ACP', category: HANDGUN, gunLocker: true,
+    aliases: ['.45', '.45 auto', '45 acp', '.45acp', '45 auto'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?45\\s?acp\\b|45\\s?acp\\b'],
+    platforms: ['1911'],
+    grainRanges: { light: [185], medium: [200], heavy: [230] },
+  },
+  {
+    name: '.40 S&W', category: HANDGUN, gunLocker: true,
+    aliases: ['.40', '40 s&w', '.40sw', '.40 smith & wesson'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?40\\s?s&w\\b|40\\s?s&w\\b'],
+    platforms: ['smith & wesson shield'],
+    grainRanges: { light: [155], medium: [165], heavy: [180] },
+  },
+  {
+    name: '.38 Special', category: HANDGUN, gunLocker: true,
+    aliases: ['.38 spl', '38 spl', '38 special'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?38\\s?special\\b|38\\s?spl\\b'],
+    platforms: ['revolver'],
+  },
+  {
+    name: '.357 Magnum', category: HANDGUN, gunLocker: true,
+    aliases: ['.357 mag', '357 mag', '357 magnum'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?357\\s?mag\\b|357\\s?magnum\\b'],
+    platforms: ['revolver'],
+  },
+  {
+    name: '.357 SIG', category: HANDGUN,
+    aliases: ['357 sig'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?357\\s?sig\\b|357\\s?sig\\b'],
+  },
+  {
+    name: '10mm Auto', category: HANDGUN, gunLocker: true,
+    aliases: ['10mm'],
+    titlePatterns: ['\\b10\\s?mm|10mm\\s?auto\\b'],
+  },
+  {
+    name: '.380 ACP', category: HANDGUN, gunLocker: true,
+    aliases: ['.380', '380 acp', '.380acp', '.380 auto'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?380\\s?acp\\b|380\\s?auto\\b'],
+  },
+  {
+    name: '.32 ACP', category: HANDGUN, gunLocker: true,
+    aliases: ['32 acp', '.32acp', '.32 auto', '7.65mm'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?32\\s?acp\\b|32\\s?auto\\b'],
+  },
+  {
+    name: '.25 ACP', category: HANDGUN, gunLocker: true,
+    aliases: ['25 acp', '.25acp', '.25 auto'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?25\\s?acp\\b|25\\s?auto\\b'],
+  },
+  {
+    name: '.45 Colt', category: HANDGUN, gunLocker: true,
+    aliases: ['45 colt', '45 long colt', '.45 long colt', '45 lc'],
+  },
+  {
+    name: '.44 Magnum', category: HANDGUN,
+    aliases: ['.44 mag', '44 mag', '44 magnum'],
+    platforms: ['revolver'],
+  },
+
+  // Rimfire
+  {
+    name: '.22 LR', category: RIMFIRE, gunLocker: true,
+    aliases: ['.22', '22 lr', '.22lr', '22lr', '.22 long rifle'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?22\\s?lr\\b|22\\s?long\\s?rifle\\b'],
+  },
+  {
+    name: '.22 WMR', category: RIMFIRE, gunLocker: true,
+    aliases: ['22 wmr', '22 mag', '.22 mag', '22 magnum', '.22 magnum'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?22\\s?wmr\\b|22\\s?win(?:chester)?\\s?mag(?:num)?\\b|22\\s?magnum\\b'],
+  },
+  {
+    name: '.22 Short', category: RIMFIRE,
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?22\\s?short\\b'],
+  },
+  {
+    name: '.17 HMR', category: RIMFIRE, gunLocker: true,
+    aliases: ['17 hmr', '.17 hornady magnum'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?17\\s?hmr\\b|17\\s?hornady\\s?mag(?:num)?\\b'],
+  },
+  {
+    name: '.17 WSM', category: RIMFIRE,
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?17\\s?wsm\\b|17\\s?win(?:chester)?\\s?super\\s?mag\\b'],
+  },
+  {
+    name: '.22 Hornet', category: RIMFIRE,
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?22\\s?hornet\\b'],
+  },
+
+  // Rifle
+  {
+    name: '.223/5.56', label: '.223 / 5.56', category: RIFLE, gunLocker: true,
+    platforms: ['ar15', 'ar-15', 'mini-14'],
+    grainRanges: { light: [55], medium: [62, 64], heavy: [69, 77] },
+  },
+  {
+    name: '5.56 NATO', category: RIFLE, parentName: '.223/5.56',
+    aliases: ['5.56', '5.56mm', '5.56x45', '5.56x45mm', '5.56x45 nato', '5.56x45mm nato'],
+    titlePatterns: ['\\b5\\.56(?:\\s?mm)?(?:\\s?nato)?\\b|5\\.56x45(?:mm)?\\b'],
+  },
+  {
+    name: '.223 Remington', category: RIFLE, parentName: '.223/5.56',
+    aliases: ['.223', '.223 rem', '223 rem', '223 remington'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?223\\s?rem(?:ington)?\\b'],
+  },
+  {
+    name: '7.62x39', category: RIFLE, gunLocker: true,
+    platforms: ['ak47', 'ak-47', 'sks'],
+  },
+  {
+    name: '7.62x39mm', category: RIFLE, parentName: '7.62x39',
+    titlePatterns: ['\\b7\\.62x39(?:mm)?\\b'],
+  },
+  {
+    name: '.308/7.62x51', label: '.308 / 7.62x51', category: RIFLE, gunLocker: true,
+    platforms: ['ar10', 'ar-10', 'm1a'],
+    grainRanges: { light: [147, 150], medium: [165, 168], heavy: [175, 180] },
+  },
+  {
+    name: '.308 Winchester', category: RIFLE, parentName: '.308/7.62x51',
+    aliases: ['.308', '.308 win', '308 win', '308 winchester', '7.62 nato', '7.62x51', '7.62x51mm', '7.62x51 nato', '7.62x51mm nato'],
+    titlePatterns: ['\\b7\\.62\\s?nato|7\\.62x51|(?:^|\\s|\\W)\\.?\\s?308\\s?win(?:chester)?\\b'],
+  },
+  {
+    name: '7.62x54R', category: RIFLE,
+    aliases: ['7.62x54'],
+    titlePatterns: ['\\b7\\.62x54r\\b'],
+    platforms: ['mosin nagant'],
+  },
+  {
+    name: '.30-06', category: RIFLE, gunLocker: true,
+    platforms: ['m1 garand'],
+  },
+  {
+    name: '.30-06 Springfield', category: RIFLE, parentName: '.30-06',
+    aliases: ['30-06', '30-06 springfield', '.30-06 sprg'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?30-06\\b|30-06\\s?springfield\\b'],
+  },
+  {
+    name: '.30 Carbine', category: RIFLE,
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?30\\s?carbine\\b|30\\s?carbine\\b'],
+  },
+  {
+    name: '.300 AAC Blackout', label: '.300 Blackout', category: RIFLE, gunLocker: true,
+  },
+  {
+    name: '.300 Blackout', category: RIFLE, parentName: '.300 AAC Blackout',
+    aliases: ['300 blackout', '.300 blk', '300 blk', '.300 aac', '300 aac', '300 aac blackout'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?300\\s?(?:aac\\s*)?blk\\b|300\\s?(?:aac\\s*)?blackout\\b'],
+  },
+  {
+    name: '.300 Winchester Magnum', category: RIFLE,
+    aliases: ['.300 win mag', '300 win mag'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?300\\s?win\\s?mag\\b|300\\s?winchester\\s?mag\\b'],
+  },
+  {
+    name: '.300 Weatherby', category: RIFLE,
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?300\\s?wby\\b|300\\s?weatherby\\b'],
+  },
+  {
+    name: '6.5 Creedmoor', category: RIFLE, gunLocker: true,
+    aliases: ['6.5mm creedmoor', '6.5 cm'],
+    titlePatterns: ['\\b6\\.5\\s?creedmoor|6\\.5\\s?cm\\b'],
+  },
+  {
+    name: '6.5 Grendel', category: RIFLE,
+    titlePatterns: ['\\b6\\.5\\s?grendel\\b'],
+  },
+  {
+    name: '.270 Winchester', category: RIFLE, gunLocker: true,
+    aliases: ['.270 win', '270 win', '270 winchester'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?270\\s?win(?:chester)?\\b'],
+  },
+  {
+    name: '.243 Winchester', category: RIFLE, gunLocker: true,
+    aliases: ['.243 win', '243 win', '243 winchester'],
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?243\\s?win(?:chester)?\\b'],
+  },
+  {
+    name: '.30-30 Winchester', category: RIFLE, gunLocker: true,
+    aliases: ['30-30', '.30-30', '30-30 win', '.30-30 win', '30-30 winchester'],
+  },
+  {
+    name: '5.45x39mm', category: RIFLE,
+    aliases: ['5.45x39'],
+    platforms: ['ak74', 'ak-74'],
+  },
+  {
+    name: '.50 BMG', category: RIFLE,
+    titlePatterns: ['(?:^|\\s|\\W)\\.?\\s?50\\s?bmg\\b|50\\s?bmg\\b'],
+  },
+
+  // Shotgun
+  {
+    name: '12ga', label: '12 Gauge', category: SHOTGUN, gunLocker: true,
+    platforms: ['shotgun', 'mossberg 500', 'remington 870', 'benelli m4'],
+  },
+  {
+    name: '12 Gauge', category: SHOTGUN, parentName: '12ga',
+    aliases: ['12 ga', '12g'],
+    titlePatterns: ['\\b12\\s?ga|12\\s?gauge\\b'],
+  },
+  {
+    name: '20ga', label: '20 Gauge', category: SHOTGUN, gunLocker: true,
+    platforms: ['shotgun', 'mossberg 500', 'remington 870'],
+  },
+  {
+    name: '20 Gauge', category: SHOTGUN, parentName: '20ga',
+    aliases: ['20 ga', '20g'],
+    titlePatterns: ['\\b20\\s?ga|20\\s?gauge\\b'],
+  },
+  {
+    name: '16ga', label: '16 Gauge', category: SHOTGUN, gunLocker: true,
+  },
+  {
+    name: '16 Gauge', category: SHOTGUN, parentName: '16ga',
+    aliases: ['16 ga', '16g'],
+    titlePatterns: ['\\b16\\s?ga|16\\s?gauge\\b'],
+  },
+  {
+    name: '28 Gauge', category: SHOTGUN,
+    aliases: ['28ga', '28 ga'],
+    titlePatterns: ['\\b28\\s?ga|28\\s?gauge\\b'],
+  },
+  {
+    name: '.410 Bore', category: SHOTGUN, gunLocker: true,
+    aliases: ['.410', '410', '410 bore'],
+    titlePatterns: ['\\b\\.410\\s?bore|410\\s?bore\\b'],
+  },
+
+  // Gun Locker catch-all
+  {
+    name: 'Other', category: OTHER, gunLocker: true,
+    aliases: ['unknown'],
+  },
+].map((entry, index) => ({
+  label: entry.name,
+  parentName: null,
+  aliases: [],
+  titlePatterns: [],
+  platforms: [],
+  grainRanges: null,
+  gunLocker: false,
+  ...entry,
+  sortOrder: (index + 1) * 10,
+}))
+
+// =============================================================================
+// Taxonomy
+// =============================================================================
+
+function normalizeKey(value) {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Immutable, indexed view over a set of caliber entries.
+ */
+export class CaliberTaxonomy {
+  constructor(entries, version = 0) {
+    this.version = version
+    this.entries = [...entries].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+    this.byName = new Map(this.entries.map((entry) => [entry.name, entry]))
+
+    // name/alias -> entry (names win over aliases)
+    this.byKey = new Map()
+    for (const entry of this.entries) {
+      for (const alias of entry.aliases) {
+        const key = normalizeKey(alias)
+        if (!this.byKey.has(key)) this.byKey.set(key, entry)
+      }
+    }
+    for (const entry of this.entries) {
+      this.byKey.set(normalizeKey(entry.name), entry)
+    }
+
+    // Longest terms first so ".22 wmr" wins over ".22" in free text
+    this.terms = [...this.byKey.entries()]
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([key, entry]) => ({ entry, pattern: new RegExp(`(?:^|[^a-z0-9])${escapeRegExp(key)}(?![a-z0-9])`) }))
+
+    this.patterns = []
+    for (const entry of this.entries) {
+      for (const source of entry.titlePatterns) {
+        try {
+          this.patterns.push({ entry, pattern: new RegExp(source, 'i') })
+        } catch {
+          // Invalid patterns are rejected by validateCaliberEntries; skip defensively
+        }
+      }
+    }
+
+    this.childrenByName = new Map()
+    for (const entry of this.entries) {
+      if (entry.parentName && this.byName.has(entry.parentName)) {
+        const children = this.childrenByName.get(entry.parentName) ?? []
+        children.push(entry)
+        this.childrenByName.set(entry.parentName, children)
+      }
+    }
+  }
+
+  /** Exact lookup by name or alias (case-insensitive). */
+  find(input) {
+    if (!input) return null
+    return this.byKey.get(normalizeKey(input)) ?? null
+  }
+
+  /** Caliber name extracted from a product title, or null. */
+  extract(text) {
+    if (!text) return null
+    const value = text.toLowerCase()
+    for (const { entry, pattern } of this.patterns) {
+      if (pattern.test(value)) return entry.name
+    }
+    return null
+  }
+
+  /** First caliber mentioned in free text (longest name/alias wins). */
+  detect(text) {
+    if (!text) return null
+    const value = text.toLowerCase()
+    for (const { entry, pattern } of this.terms) {
+      if (pattern.test(value)) return entry
+    }
+    return null
+  }
+
+  parentOf(entry) {
+    return entry.parentName ? this.byName.get(entry.parentName) ?? null : null
+  }
+
+  /** Top-most ancestor (or self). */
+  rootOf(entry) {
+    let current = entry
+    const seen = new Set()
+    while (current.parentName && !seen.has(current.name)) {
+      seen.add(current.name)
+      const parent = this.parentOf(current)
+      if (!parent) break
+      current = parent
+    }
+    return current
+  }
+
+  /** Entry plus all descendants. */
+  descendantsOf(entry) {
+    const result = []
+    const stack = [entry]
+    const seen = new Set()
+    while (stack.length > 0) {
+      const current = stack.pop()
+      if (seen.has(current.name)) continue
+      seen.add(current.name)
+      result.push(current)
+      stack.push(...(this.childrenByName.get(current.name) ?? []))
+    }
+    return result
+  }
+
+  /** Gun Locker value for an input: nearest Gun Locker ancestor-or-self. */
+  toGunLockerValue(input) {
+    let current = this.find(input)
+    const seen = new Set()
+    while (current && !seen.has(current.name)) {
+      if (current.gunLocker) return current.name
+      seen.add(current.name)
+      current = this.parentOf(current)
+    }
+    return null
+  }
+
+  gunLockerValues() {
+    return this.entries.filter((entry) => entry.gunLocker).map((entry) => entry.name)
+  }
+
+  label(name) {
+    return this.byName.get(name)?.label ?? name
+  }
+
+  /** Names in the input's family, for search expansion. Empty when unknown. */
+  variations(input) {
+    const entry = this.find(input)
+    if (!entry) return []
+    return this.descendantsOf(this.rootOf(entry)).map((member) => member.name)
+  }
+
+  /** Lowercase names and aliases of an entry and its descendants (stored product values). */
+  matchingStrings(name) {
+    const entry = this.byName.get(name)
+    if (!entry) return [normalizeKey(name)]
+    const strings = new Set()
+    for (const member of this.descendantsOf(entry)) {
+      strings.add(normalizeKey(member.name))
+      for (const alias of member.aliases) strings.add(normalizeKey(alias))
+    }
+    return [...strings]
+  }
+
+  /** Calibers (with families) for the first platform mentioned in free text. */
+  platformCalibers(text) {
+    if (!text) return []
+    const value = text.toLowerCase()
+    const platforms = new Map()
+    for (const entry of this.entries) {
+      for (const platform of entry.platforms) {
+        const key = normalizeKey(platform)
+        platforms.set(key, [...(platforms.get(key) ?? []), entry])
+      }
+    }
+    const match = [...platforms.keys()]
+      .sort((a, b) => b.length - a.length)
+      .find((platform) => value.includes(platform))
+    if (!match) return []
+    return [...new Set(platforms.get(match).flatMap((entry) => this.descendantsOf(entry).map((m) => m.name)))]
+  }
+
+  /** Light/medium/heavy grain weights for the input or its nearest ancestor. */
+  grainRanges(input) {
+    let current = this.find(input)
+    const seen = new Set()
+    while (current && !seen.has(current.name)) {
+      if (current.grainRanges) return current.grainRanges
+      seen.add(current.name)
+      current = this.parentOf(current)
+    }
+    return null
+  }
+}
+
+// =============================================================================
+// Validation (admin editor)
+// =============================================================================
+
+/**
+ * Validate a full set of entries. Returns human-readable errors.
+ */
+export function validateCaliberEntries(entries) {
+  const errors = []
+  const names = new Map()
+  for (const entry of entries) {
+    const key = normalizeKey(entry.name)
+    if (!key) {
+      errors.push('Caliber name cannot be empty')
+      continue
+    }
+    if (names.has(key)) errors.push(`Duplicate caliber name "${entry.name}"`)
+    names.set(key, entry)
+  }
+
+  const aliasOwners = new Map()
+  for (const entry of entries) {
+    for (const alias of entry.aliases) {
+      const key = normalizeKey(alias)
+      const nameOwner = names.get(key)
+      if (nameOwner && nameOwner.name !== entry.name) {
+        errors.push(`Alias "${alias}" of ${entry.name} is the name of ${nameOwner.name}`)
+      }
+      const owner = aliasOwners.get(key)
+      if (owner && owner !== entry.name) {
+        errors.push(`Alias "${alias}" is used by both ${owner} and ${entry.name}`)
+      }
+      aliasOwners.set(key, entry.name)
+    }
+
+    for (const source of entry.titlePatterns) {
+      try {
+        new RegExp(source, 'i')
+      } catch {
+        errors.push(`Invalid title pattern for ${entry.name}: ${source}`)
+      }
+    }
+
+    if (entry.parentName) {
+      if (!names.has(normalizeKey(entry.parentName))) {
+        errors.push(`Parent "${entry.parentName}" of ${entry.name} does not exist`)
+      }
+      // Walk up to detect cycles
+      const seen = new Set([entry.name])
+      let parent = names.get(normalizeKey(entry.parentName))
+      while (parent) {
+        if (seen.has(parent.name)) {
+          errors.push(`Parent chain of ${entry.name} contains a cycle`)
+          break
+        }
+        seen.add(parent.name)
+        parent = parent.parentName ? names.get(normalizeKey(parent.parentName)) : undefined
+      }
+    }
+
+    if (entry.grainRanges) {
+      for (const weights of Object.values(entry.grainRanges)) {
+        if (!Array.isArray(weights) || weights.some((w) => !Number.isFinite(w) || w <= 0)) {
+          errors.push(`Grain ranges for ${entry.name} must be positive numbers`)
+          break
+        }
+      }
+    }
+  }
+
+  return errors
+}
+
+// =============================================================================
+// Shared cache
+// =============================================================================
+
+let current = new CaliberTaxonomy(BUILTIN_CALIBERS, 0)
+
+/** Current taxonomy (built-in until a database version is loaded). */
+export function getCaliberTaxonomy() {
+  return current
+}
+
+/** Replace the current taxonomy (tests, admin previews). */
+export function setCaliberTaxonomy(taxonomy) {
+  current = taxonomy
+}
+
+/**
+ * Load the latest taxonomy version from the database.
+ * Returns null when no version has been published.
+ */
+export async function loadCaliberTaxonomy(prisma) {
+  const latest = await prisma.caliber_taxonomy_versions.findFirst({
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+  if (!latest) return null
+
+  const rows = await prisma.calibers.findMany({
+    where: { isActive: true },
+    include: { parent: { select: { name: true, isActive: true } } },
+  })
+
+  return new CaliberTaxonomy(
+    rows.map((row) => ({
+      name: row.name,
+      label: row.label,
+      category: row.category,
+      parentName: row.parent?.isActive ? row.parent.name : null,
+      aliases: row.aliases,
+      titlePatterns: row.titlePatterns,
+      platforms: row.platforms,
+      grainRanges: row.grainRanges ?? null,
+      gunLocker: row.gunLocker,
+      sortOrder: row.sortOrder,
+    })),
+    latest.version
+  )
+}
+
+/**
+ * Reload the taxonomy if a newer version exists.
+ * Keeps serving the current taxonomy on errors.
+ * @returns true when a new version was loaded
+ */
+export async function refreshCaliberTaxonomy(prisma) {
+  const latest = await prisma.caliber_taxonomy_versions.findFirst({
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+  if (!latest || latest.version === current.version) return false
+
+  const taxonomy = await loadCaliberTaxonomy(prisma)
+  if (!taxonomy) return false
+  current = taxonomy
+  return true
+}
+
+/**
+ * Load the latest version, then poll for new ones. Returns a stop function.
+ */
+export async function startCaliberTaxonomyRefresh(prisma, options = {}) {
+  const intervalMs = options.intervalMs ?? CALIBER_TAXONOMY_REFRESH_MS
+
+  const tick = () =>
+    refreshCaliberTaxonomy(prisma)
+      .then((changed) => {
+        if (changed) options.onRefresh?.(current)
+      })
+      .catch((error) => options.onError?.(error))
+
+  await tick()
+  const timer = setInterval(tick, intervalMs)
+  timer.unref?.()
+
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,82 @@
+/**
+ * Embedding providers shared by the API and the harvester embedding worker.
+ * See embedding-provider.js for provider selection and the local model.
+ */
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'none'
+
+export declare const EMBEDDING_PROVIDERS: readonly EmbeddingProviderName[]
+export declare const OPENAI_EMBEDDING_MODEL: string
+export declare const LOCAL_EMBEDDING_MODEL: string
+export declare const LOCAL_EMBEDDING_DIMENSIONS: number
+export declare const HASHED_NGRAM_EMBEDDING_MODEL: string
+export declare const HASHED_NGRAM_EMBEDDING_DIMENSIONS: number
+
+export interface EmbeddingProvider {
+  name: Exclude<EmbeddingProviderName, 'none'> | 'hashed-ngram'
+  /** Stored with each product embedding (products.embeddingModel) */
+  modelId: string
+  dimensions: number
+  /** Embed texts in order */
+  embed(texts: string[]): Promise<number[][]>
+}
+
+/** The part of the OpenAI SDK client the provider uses */
+export interface OpenAIEmbeddingsClient {
+  embeddings: {
+    create(params: { model: string; input: string[] }): Promise<{ data: Array<{ embedding: number[] }> }>
+  }
+}
+
+/** The part of @huggingface/transformers the local provider uses */
+export interface TransformersModule {
+  env: { cacheDir: string | null; localModelPath: string; allowRemoteModels: boolean }
+  pipeline(
+    task: 'feature-extraction',
+    model: string,
+    options?: { dtype?: string }
+  ): Promise<
+    (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>
+  >
+}
+
+/** Lowercase word tokens used by the hashed n-gram embedding */
+export declare function tokenizeForEmbedding(text: string | null | undefined): string[]
+
+/** Hashed n-gram embedding of one text (L2-normalized); lexical, not semantic */
+export declare function hashedNgramEmbedding(text: string, dimensions?: number): number[]
+
+/** Test stub; not selectable through EMBEDDING_PROVIDER */
+export declare function createHashedNgramEmbeddingProvider(): EmbeddingProvider
+
+/** Local sentence-transformer (ONNX Runtime on the CPU), loaded on first use */
+export declare function createLocalEmbeddingProvider(options?: {
+  model?: string
+  dimensions?: number
+  cacheDir?: string
+  allowDownload?: boolean
+  loadTransformers?: () => Promise<TransformersModule>
+}): EmbeddingProvider
+
+export declare function createOpenAIEmbeddingProvider(
+  client: OpenAIEmbeddingsClient,
+  model?: string
+): EmbeddingProvider
+
+/**
+ * Configured provider name: EMBEDDING_PROVIDER if valid, else openai when
+ * OPENAI_API_KEY is set, else local.
+ */
+export declare function resolveEmbeddingProviderName(
+  env?: Record<string, string | undefined>
+): EmbeddingProviderName
+
+/**
+ * Create the configured provider, or null when embeddings are off
+ * (EMBEDDING_PROVIDER=none, or openai forced without OPENAI_API_KEY).
+ */
+export declare function createEmbeddingProvider(options?: {
+  env?: Record<string, string | undefined>
+  createOpenAIClient?: (apiKey: string) => OpenAIEmbeddingsClient
+  loadTransformers?: () => Promise<TransformersModule>
+}): EmbeddingProvider | null
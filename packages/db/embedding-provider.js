@@ -0,0 +1,251 @@
+/**
+ * Embedding Providers
+ *
+ * Shared by the API (query embeddings, admin re-embed) and the harvester
+ * embedding worker so both sides embed with the same configured model.
+ *
+ * Providers:
+ * - openai: OpenAI embeddings API (needs OPENAI_API_KEY). The client is
+ *   passed in so this package does not depend on the OpenAI SDK.
+ * - local: sentence-transformer run on the CPU with ONNX Runtime through
+ *   @huggingface/transformers (default all-MiniLM-L6-v2, 384 dimensions,
+ *   mean-pooled and normalized). The model is downloaded from the Hugging
+ *   Face hub on first use into EMBEDDING_MODEL_CACHE_DIR and read from there
+ *   afterwards; with EMBEDDING_LOCAL_ALLOW_DOWNLOAD=false it must already be
+ *   in the cache (air-gapped installs).
+ *
+ * The hashed n-gram embedding below is a deterministic lexical stub for
+ * tests. It is not semantic and cannot be selected with EMBEDDING_PROVIDER.
+ *
+ * Vectors from different models are not comparable, so every stored
+ * embedding records its model (products.embeddingModel) and vector search
+ * only compares against products embedded with the active model.
+ *
+ * Selection (EMBEDDING_PROVIDER): openai | local | none. Unset means openai
+ * when OPENAI_API_KEY is set, local otherwise.
+ */
+
+export const EMBEDDING_PROVIDERS = ['openai', 'local', 'none']
+
+/** OpenAI model (1536 dimensions) */
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+/** Default local model: ONNX export of sentence-transformers/all-MiniLM-L6-v2 */
+export const LOCAL_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2'
+export const LOCAL_EMBEDDING_DIMENSIONS = 384
+
+/** Hashed n-gram model id; bump the version whenever the feature scheme changes */
+export const HASHED_NGRAM_EMBEDDING_MODEL = 'hashed-ngram-v1'
+export const HASHED_NGRAM_EMBEDDING_DIMENSIONS = 384
+
+// OpenAI allows up to 2048 inputs per request
+const OPENAI_BATCH_SIZE = 100
+const OPENAI_BATCH_DELAY_MS = 100
+
+// Texts per ONNX forward pass; bounds memory for large re-embeds
+const LOCAL_BATCH_SIZE = 32
+
+// Feature weights for the hashed n-gram embedding
+const WORD_WEIGHT = 1
+const BIGRAM_WEIGHT = 0.5
+const TRIGRAM_WEIGHT = 0.25
+
+/**
+ * 32-bit FNV-1a hash.
+ */
+function fnv1a(text) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Lowercase word tokens. Keeps decimal points inside numbers (5.56, 7.62)
+ * and "+p"; drops other punctuation and leading dots (.223 -> 223).
+ */
+export function tokenizeForEmbedding(text) {
+  return String(text ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9.+]+/g, ' ')
+    .split(' ')
+    .map((token) => token.replace(/^[.+]+|\.+$/g, ''))
+    .filter(Boolean)
+}
+
+function addFeature(vector, feature, weight) {
+  const hash = fnv1a(feature)
+  // Separate hash for the sign keeps collisions from only ever adding up
+  const sign = fnv1a(`~${feature}`) & 1 ? -1 : 1
+  vector[hash % vector.length] += sign * weight
+}
+
+/**
+ * Embed one text with the hashed n-gram scheme. L2-normalized, so cosine
+ * distance measures the share of overlapping features.
+ */
+export function hashedNgramEmbedding(text, dimensions = HASHED_NGRAM_EMBEDDING_DIMENSIONS) {
+  const vector = new Array(dimensions).fill(0)
+  const tokens = tokenizeForEmbedding(text)
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    addFeature(vector, `w:${token}`, WORD_WEIGHT)
+
+    if (i + 1 < tokens.length) {
+      addFeature(vector, `b:${token} ${tokens[i + 1]}`, BIGRAM_WEIGHT)
+    }
+
+    // Character trigrams of the padded token, split across the token's weight
+    const padded = `#${token}#`
+    if (padded.length > 4) {
+      const count = padded.length - 2
+      for (let j = 0; j < count; j++) {
+        addFeature(vector, `c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT * (3 / count))
+      }
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  if (norm === 0) return vector
+  return vector.map((v) => Math.round((v / norm) * 1e6) / 1e6)
+}
+
+/**
+ * Hashed n-gram embedding provider. Test stub only: lexical, not semantic.
+ */
+export function createHashedNgramEmbeddingProvider() {
+  return {
+    name: 'hashed-ngram',
+    modelId: HASHED_NGRAM_EMBEDDING_MODEL,
+    dimensions: HASHED_NGRAM_EMBEDDING_DIMENSIONS,
+    async embed(texts) {
+      return texts.map((text) => hashedNgramEmbedding(text))
+    },
+  }
+}
+
+/**
+ * Local sentence-transformer provider. The ONNX model is loaded on the first
+ * embed() call, not at startup, and a failed load is retried on the next call.
+ *
+ * @param options.model - Hugging Face model id with ONNX weights
+ * @param options.cacheDir - where model files are cached (library default when unset)
+ * @param options.allowDownload - fetch missing model files from the hub
+ * @param options.loadTransformers - module loader (tests pass a fake)
+ */
+export function createLocalEmbeddingProvider({
+  model = LOCAL_EMBEDDING_MODEL,
+  dimensions = LOCAL_EMBEDDING_DIMENSIONS,
+  cacheDir,
+  allowDownload = true,
+  loadTransformers = () => import('@huggingface/transformers'),
+} = {}) {
+  let extractor = null
+
+  function getExtractor() {
+    if (!extractor) {
+      extractor = (async () => {
+        const { pipeline, env } = await loadTransformers()
+        if (cacheDir) {
+          // Downloads are cached here; a model copied here by hand is found as a local model
+          env.cacheDir = cacheDir
+          env.localModelPath = cacheDir
+        }
+        env.allowRemoteModels = allowDownload
+        return pipeline('feature-extraction', model, { dtype: 'fp32' })
+      })().catch((error) => {
+        extractor = null
+        throw new Error(
+          `Failed to load local embedding model ${model}` +
+            (allowDownload ? '' : ` (downloads disabled; expected in ${cacheDir ?? 'the default cache'})`) +
+            `: ${error instanceof Error ? error.message : String(error)}`
+        )
+      })
+    }
+    return extractor
+  }
+
+  return {
+    name: 'local',
+    modelId: model,
+    dimensions,
+    async embed(texts) {
+      const extract = await getExtractor()
+      const embeddings = []
+      for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+        const batch = texts.slice(i, i + LOCAL_BATCH_SIZE)
+        const output = await extract(batch, { pooling: 'mean', normalize: true })
+        embeddings.push(...output.tolist())
+      }
+      return embeddings
+    },
+  }
+}
+
+/**
+ * OpenAI embedding provider around an `openai` client instance.
+ */
+export function createOpenAIEmbeddingProvider(client, model = OPENAI_EMBEDDING_MODEL) {
+  return {
+    name: 'openai',
+    modelId: model,
+    dimensions: 1536,
+    async embed(texts) {
+      const embeddings = []
+      for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+        const batch = texts.slice(i, i + OPENAI_BATCH_SIZE)
+        const response = await client.embeddings.create({ model, input: batch })
+        embeddings.push(...response.data.map((d) => d.embedding))
+
+        // Small delay to avoid rate limits
+        if (i + OPENAI_BATCH_SIZE < texts.length) {
+          await new Promise((resolve) => setTimeout(resolve, OPENAI_BATCH_DELAY_MS))
+        }
+      }
+      return embeddings
+    },
+  }
+}
+
+/**
+ * Configured provider name, from EMBEDDING_PROVIDER or the API key.
+ * Unknown values fall back to the default rather than disabling search.
+ */
+export function resolveEmbeddingProviderName(env = process.env) {
+  const configured = env.EMBEDDING_PROVIDER?.trim().toLowerCase()
+  if (configured && EMBEDDING_PROVIDERS.includes(configured)) {
+    return configured
+  }
+  return env.OPENAI_API_KEY ? 'openai' : 'local'
+}
+
+/**
+ * Create the configured provider. Returns null when embeddings are turned
+ * off (EMBEDDING_PROVIDER=none) or openai is forced without an API key.
+ *
+ * @param options.createOpenAIClient - builds an OpenAI client from an API key
+ * @param options.loadTransformers - module loader for the local provider
+ */
+export function createEmbeddingProvider({ env = process.env, createOpenAIClient, loadTransformers } = {}) {
+  const name = resolveEmbeddingProviderName(env)
+
+  if (name === 'local') {
+    const dimensions = parseInt(env.EMBEDDING_LOCAL_DIMENSIONS ?? '', 10)
+    return createLocalEmbeddingProvider({
+      model: env.EMBEDDING_LOCAL_MODEL?.trim() || LOCAL_EMBEDDING_MODEL,
+      dimensions: dimensions > 0 ? dimensions : LOCAL_EMBEDDING_DIMENSIONS,
+      cacheDir: env.EMBEDDING_MODEL_CACHE_DIR?.trim() || undefined,
+      allowDownload: env.EMBEDDING_LOCAL_ALLOW_DOWNLOAD?.trim().toLowerCase() !== 'false',
+      ...(loadTransformers ? { loadTransformers } : {}),
+    })
+  }
+  if (name === 'openai' && env.OPENAI_API_KEY && createOpenAIClient) {
+    return createOpenAIEmbeddingProvider(createOpenAIClient(env.OPENAI_API_KEY))
+  }
+  return null
+}
@@ -0,0 +1,83 @@
+import type { SourceType } from './generated/prisma/client.js'
+
+export type SelectorType = 'CSS' | 'XPATH' | 'JSONPATH'
+
+export type ExtractionField = 'title' | 'price' | 'url' | 'inStock' | 'upc' | 'sku' | 'roundCount'
+
+/**
+ * How to read one value. `selector` is relative to the item (or the page for
+ * nextPage); without it, `attribute` is read from the item itself.
+ */
+export interface ExtractionFieldRule {
+  selector?: string
+  /** Read this attribute instead of the text (CSS/XPATH) */
+  attribute?: string
+  /** Case-insensitive regex; capture group 1 (or the whole match) is the value */
+  pattern?: string
+  /** inStock only: in stock when the value matches (default: availability keywords) */
+  inStockPattern?: string
+}
+
+/** Normalized rules stored on sources.extractionRules */
+export interface ExtractionRules {
+  selectorType: SelectorType
+  /** Selects each product record on the page */
+  item: string
+  fields: Partial<Record<ExtractionField, ExtractionFieldRule>> & {
+    title: ExtractionFieldRule
+    price: ExtractionFieldRule
+  }
+  /** Next page URL (relative URLs resolve against the page) */
+  nextPage?: ExtractionFieldRule
+  currency: string
+}
+
+/** One record matched by the item selector */
+export interface ExtractedRecord {
+  title: string | null
+  url: string | null
+  price: number | null
+  currency: string
+  inStock: boolean
+  upc: string | null
+  sku: string | null
+  roundCount: number | null
+  /** Required values the rules did not find (title, price, url) */
+  missing: string[]
+}
+
+export interface ExtractionRulesResult {
+  records: ExtractedRecord[]
+  nextPage: string | null
+}
+
+export declare const SELECTOR_TYPES: SelectorType[]
+export declare const EXTRACTION_FIELDS: ExtractionField[]
+export declare const MAX_EXTRACTED_RECORDS: number
+
+export declare function parsePrice(value: unknown): number | null
+export declare function parseAvailability(value: unknown): boolean
+
+export declare function validateExtractionRules(
+  raw: unknown,
+  sourceType?: SourceType
+): { rules: ExtractionRules | null; errors: string[] }
+
+export declare function parseXPath(expression: string): {
+  absolute: boolean
+  steps: Array<{ axis: 'child' | 'descendant'; test: string; predicates: unknown[][] }>
+}
+
+export declare function parseJsonPath(
+  expression: string
+): Array<{ type: 'key' | 'index' | 'wildcard'; value?: string | number; recursive: boolean }>
+
+/**
+ * Apply validated rules to a page body (HTML/XML, or JSON for JSONPATH rules).
+ * @throws SyntaxError when a JSONPATH body is not valid JSON
+ */
+export declare function applyExtractionRules(
+  rules: ExtractionRules,
+  body: string,
+  options: { pageUrl: string; xml?: boolean }
+): ExtractionRulesResult
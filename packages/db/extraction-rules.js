@@ -0,0 +1,601 @@
+/**
+ * Source Extraction Rules
+ *
+ * Declarative, per-source selectors for sites the generic crawler
+ * (JSON-LD / microdata / RSS / JSON auto-mapping) cannot read. Stored on
+ * `sources.extractionRules`; every saved change is a
+ * `source_extraction_rule_versions` row so a bad edit can be rolled back.
+ *
+ * Shared by the harvester crawl worker and the API's admin preview so a
+ * preview shows exactly what the crawler will extract.
+ *
+ * Selector syntax is per rule set:
+ * - CSS: cheerio selectors (HTML, JS_RENDERED and RSS sources)
+ * - XPATH: a location-path subset - `/`, `//`, `.`, `..`, `*`, `@attr`,
+ *   `text()` and predicates `[n]`, `[last()]`, `[@a]`, `[@a='v']`,
+ *   `[text()='v']`, `[contains(@a|text()|., 'v')]`, `[starts-with(...)]`,
+ *   joined with `and`
+ * - JSONPATH: `$`, `.key`, `['key']`, `[n]`, `[*]`, `.*`, `..key` (JSON sources)
+ *
+ * Field selectors are relative to the item; `nextPage` is relative to the page.
+ */
+
+import * as cheerio from 'cheerio'
+
+export const SELECTOR_TYPES = ['CSS', 'XPATH', 'JSONPATH']
+
+/** Fields a rule set can extract; title and price are required */
+export const EXTRACTION_FIELDS = ['title', 'price', 'url', 'inStock', 'upc', 'sku', 'roundCount']
+
+const REQUIRED_FIELDS = ['title', 'price']
+
+/** Upper bound on records returned for one page (preview and crawl) */
+export const MAX_EXTRACTED_RECORDS = 500
+
+// ============================================================================
+// VALUE HELPERS
+// ============================================================================
+
+function cleanText(value) {
+  if (typeof value === 'number') return String(value)
+  if (typeof value !== 'string') return null
+  const trimmed = value.replace(/\s+/g, ' ').trim()
+  return trimmed === '' ? null : trimmed
+}
+
+/**
+ * Parse a price from a number or text like "$1,249.99" or "24.99 USD"
+ */
+export function parsePrice(value) {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null
+  if (typeof value !== 'string') return null
+  const match = value.replace(/,/g, '').match(/\d*\.?\d+/)
+  if (!match) return null
+  const price = parseFloat(match[0])
+  return Number.isFinite(price) && price > 0 ? price : null
+}
+
+/**
+ * Map schema.org availability, feed availability text, booleans and stock
+ * quantities to in-stock. Unknown values are out of stock (ADR-009).
+ */
+export function parseAvailability(value) {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value > 0
+  const normalized = cleanText(value)?.toLowerCase().replace(/^https?:\/\/schema\.org\//, '').replace(/[\s_-]/g, '')
+  if (!normalized) return false
+  return ['instock', 'limitedavailability', 'onlineonly', 'instoreonly', 'available', 'true', 'yes'].includes(normalized)
+}
+
+function parseRoundCount(value) {
+  const match = cleanText(value)?.replace(/,/g, '').match(/\d+/)
+  const count = match ? parseInt(match[0], 10) : NaN
+  return Number.isInteger(count) && count > 0 ? count : null
+}
+
+function resolveUrl(value, baseUrl) {
+  const raw = cleanText(value)
+  if (!raw) return null
+  try {
+    return new URL(raw, baseUrl).toString()
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function compilePattern(source, path, errors) {
+  try {
+    return new RegExp(source, 'i')
+  } catch (err) {
+    errors.push(`${path}: invalid regular expression (${err.message})`)
+    return null
+  }
+}
+
+function validateSelector(selectorType, selector, path, errors) {
+  if (selectorType === 'XPATH') {
+    try {
+      parseXPath(selector)
+    } catch (err) {
+      errors.push(`${path}: ${err.message}`)
+    }
+  } else if (selectorType === 'JSONPATH') {
+    try {
+      parseJsonPath(selector)
+    } catch (err) {
+      errors.push(`${path}: ${err.message}`)
+    }
+  } else {
+    try {
+      cheerio.load('<div></div>')(selector)
+    } catch (err) {
+      errors.push(`${path}: invalid CSS selector (${err.message})`)
+    }
+  }
+}
+
+function validateFieldRule(selectorType, raw, path, errors) {
+  if (typeof raw === 'string') raw = { selector: raw }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${path} must be a selector string or { selector, attribute?, pattern? }`)
+    return null
+  }
+
+  const rule = {}
+  for (const key of ['selector', 'attribute', 'pattern', 'inStockPattern']) {
+    const value = raw[key]
+    if (value === undefined || value === null || value === '') continue
+    if (typeof value !== 'string') {
+      errors.push(`${path}.${key} must be a string`)
+      continue
+    }
+    rule[key] = value.trim()
+  }
+
+  if (!rule.selector && !rule.attribute) {
+    errors.push(`${path} needs a selector or an attribute`)
+    return null
+  }
+  if (rule.attribute && selectorType === 'JSONPATH') {
+    errors.push(`${path}.attribute is not used with JSONPATH rules`)
+  }
+  if (rule.selector) validateSelector(selectorType, rule.selector, `${path}.selector`, errors)
+  if (rule.pattern) compilePattern(rule.pattern, `${path}.pattern`, errors)
+  if (rule.inStockPattern) compilePattern(rule.inStockPattern, `${path}.inStockPattern`, errors)
+  return rule
+}
+
+/**
+ * Validate stored or submitted rules for a source type.
+ * Returns the normalized rules (null when `raw` is null) and human-readable errors.
+ */
+export function validateExtractionRules(raw, sourceType) {
+  if (raw === null || raw === undefined) return { rules: null, errors: [] }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { rules: null, errors: ['Extraction rules must be an object'] }
+  }
+
+  const errors = []
+  const selectorType = raw.selectorType
+  if (!SELECTOR_TYPES.includes(selectorType)) {
+    errors.push(`selectorType must be one of ${SELECTOR_TYPES.join(', ')}`)
+    return { rules: null, errors }
+  }
+  if (sourceType === 'JSON' && selectorType !== 'JSONPATH') {
+    errors.push('JSON sources use JSONPATH rules')
+  }
+  if (sourceType && sourceType !== 'JSON' && selectorType === 'JSONPATH') {
+    errors.push(`${sourceType} sources use CSS or XPATH rules`)
+  }
+
+  const item = cleanText(raw.item)
+  if (!item) {
+    errors.push('item selector is required')
+  } else {
+    validateSelector(selectorType, item, 'item', errors)
+  }
+
+  const fields = {}
+  const rawFields = typeof raw.fields === 'object' && raw.fields !== null ? raw.fields : {}
+  for (const key of Object.keys(rawFields)) {
+    if (!EXTRACTION_FIELDS.includes(key)) errors.push(`fields.${key} is not a supported field`)
+  }
+  for (const field of EXTRACTION_FIELDS) {
+    if (rawFields[field] === undefined || rawFields[field] === null) {
+      if (REQUIRED_FIELDS.includes(field)) errors.push(`fields.${field} is required`)
+      continue
+    }
+    const rule = validateFieldRule(selectorType, rawFields[field], `fields.${field}`, errors)
+    if (rule) fields[field] = rule
+  }
+
+  let nextPage
+  if (raw.nextPage !== undefined && raw.nextPage !== null) {
+    nextPage = validateFieldRule(selectorType, raw.nextPage, 'nextPage', errors) ?? undefined
+  }
+
+  const currency = raw.currency === undefined || raw.currency === null ? 'USD' : String(raw.currency).toUpperCase()
+  if (!/^[A-Z]{3}$/.test(currency)) errors.push('currency must be a 3-letter code')
+
+  if (errors.length > 0) return { rules: null, errors }
+  return {
+    rules: { selectorType, item, fields, ...(nextPage ? { nextPage } : {}), currency },
+    errors,
+  }
+}
+
+// ============================================================================
+// XPATH (subset)
+// ============================================================================
+
+/** Split on `sep` outside brackets, parentheses and quotes */
+function splitOutside(input, sep) {
+  const parts = []
+  let depth = 0
+  let quote = null
+  let start = 0
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '[' || ch === '(') {
+      depth++
+    } else if (ch === ']' || ch === ')') {
+      depth--
+    } else if (depth === 0 && input.startsWith(sep, i)) {
+      parts.push(input.slice(start, i))
+      start = i + sep.length
+      i += sep.length - 1
+    }
+  }
+  if (quote || depth !== 0) throw new Error('unbalanced brackets or quotes')
+  parts.push(input.slice(start))
+  return parts
+}
+
+/** Index of the "]" closing the "[" at position 0 */
+function closingBracket(input) {
+  let depth = 0
+  let quote = null
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '[') {
+      depth++
+    } else if (ch === ']' && --depth === 0) {
+      return i
+    }
+  }
+  throw new Error('unclosed "["')
+}
+
+const XPATH_OPERAND = /^(@[\w:-]+|text\(\)|\.)$/
+const XPATH_LITERAL = /^(?:'([^']*)'|"([^"]*)")$/
+
+function parseLiteral(value) {
+  const match = value.trim().match(XPATH_LITERAL)
+  if (!match) throw new Error(`expected a quoted string, got "${value.trim()}"`)
+  return match[1] ?? match[2]
+}
+
+function parseOperand(value) {
+  const operand = value.trim()
+  if (!XPATH_OPERAND.test(operand)) throw new Error(`unsupported XPath operand "${operand}"`)
+  return operand
+}
+
+function parseCondition(raw) {
+  const condition = raw.trim()
+  if (/^\d+$/.test(condition)) return { kind: 'position', index: parseInt(condition, 10) }
+  if (condition === 'last()') return { kind: 'last' }
+
+  const fn = condition.match(/^(contains|starts-with)\((.*)\)$/)
+  if (fn) {
+    const args = splitOutside(fn[2], ',')
+    if (args.length !== 2) throw new Error(`${fn[1]}() takes two arguments`)
+    return { kind: fn[1], operand: parseOperand(args[0]), value: parseLiteral(args[1]) }
+  }
+
+  const eq = splitOutside(condition, '=')
+  if (eq.length === 2) return { kind: 'equals', operand: parseOperand(eq[0]), value: parseLiteral(eq[1]) }
+  if (eq.length === 1 && /^@[\w:-]+$/.test(condition)) return { kind: 'has', operand: condition }
+  throw new Error(`unsupported XPath predicate "[${condition}]"`)
+}
+
+function parseStep(raw) {
+  const step = raw.trim()
+  if (step === '.' || step === '..' || step === 'text()') return { test: step, predicates: [] }
+  if (/^@[\w:-]+$/.test(step)) return { test: step, predicates: [] }
+
+  const match = step.match(/^([\w:-]+|\*)((?:\[.*\])*)$/)
+  if (!match) throw new Error(`unsupported XPath step "${step}"`)
+
+  const predicates = []
+  let rest = match[2]
+  while (rest) {
+    const end = closingBracket(rest)
+    predicates.push(splitOutside(rest.slice(1, end), ' and ').map(parseCondition))
+    rest = rest.slice(end + 1)
+  }
+  return { test: match[1], predicates }
+}
+
+/**
+ * Parse an XPath location path into steps ({ axis: 'child'|'descendant', test, predicates })
+ * @throws Error for syntax outside the supported subset
+ */
+export function parseXPath(expression) {
+  const path = String(expression).trim()
+  if (!path) throw new Error('XPath is empty')
+  const absolute = path.startsWith('/')
+
+  const steps = []
+  let axis = 'child'
+  const tokens = splitOutside(absolute ? path.slice(1) : path, '/')
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token === '') {
+      // "//" produces an empty token: next step searches descendants
+      if (i === tokens.length - 1) throw new Error('XPath ends with "/"')
+      axis = 'descendant'
+      continue
+    }
+    steps.push({ axis, ...parseStep(token) })
+    axis = 'child'
+  }
+  if (steps.slice(0, -1).some(s => s.test.startsWith('@') || s.test === 'text()')) {
+    throw new Error('@attribute and text() must be the last XPath step')
+  }
+  return { absolute, steps }
+}
+
+const isElement = node => node && (node.type === 'tag' || node.type === 'script' || node.type === 'style')
+
+function descendants(node, out = []) {
+  for (const child of node.children ?? []) {
+    if (isElement(child)) {
+      out.push(child)
+      descendants(child, out)
+    }
+  }
+  return out
+}
+
+function operandValue($, node, operand) {
+  if (operand.startsWith('@')) return node.attribs?.[operand.slice(1)]
+  if (operand === 'text()') {
+    return (node.children ?? []).filter(c => c.type === 'text').map(c => c.data).join('')
+  }
+  return $(node).text()
+}
+
+function matchesCondition($, node, condition, position, size) {
+  switch (condition.kind) {
+    case 'position':
+      return position === condition.index
+    case 'last':
+      return position === size
+    case 'has':
+      return operandValue($, node, condition.operand) !== undefined
+    case 'equals':
+      return (operandValue($, node, condition.operand) ?? '').trim() === condition.value
+    case 'contains':
+      return (operandValue($, node, condition.operand) ?? '').includes(condition.value)
+    case 'starts-with':
+      return (operandValue($, node, condition.operand) ?? '').trim().startsWith(condition.value)
+    default:
+      return false
+  }
+}
+
+/**
+ * Evaluate a parsed XPath from `context` (a cheerio node). Returns element
+ * nodes, or strings for a trailing @attribute / text() step.
+ */
+function evaluateXPath($, parsed, context) {
+  let current = [parsed.absolute ? $.root().get(0) : context]
+
+  for (const step of parsed.steps) {
+    if (step.test.startsWith('@')) {
+      const name = step.test.slice(1)
+      const pick = n => n.attribs?.[name]
+      const nodes = step.axis === 'descendant' ? current.flatMap(n => [n, ...descendants(n)]) : current
+      return nodes.map(pick).filter(v => v !== undefined)
+    }
+    if (step.test === 'text()') {
+      const nodes = step.axis === 'descendant' ? current.flatMap(n => [n, ...descendants(n)]) : current
+      return nodes.map(n => operandValue($, n, 'text()')).filter(v => v.trim() !== '')
+    }
+
+    const next = []
+    for (const node of current) {
+      let candidates
+      if (step.test === '.') candidates = step.axis === 'descendant' ? [node, ...descendants(node)] : [node]
+      else if (step.test === '..') candidates = node.parent ? [node.parent] : []
+      else {
+        const pool = step.axis === 'descendant' ? descendants(node) : (node.children ?? []).filter(isElement)
+        const name = step.test.toLowerCase()
+        candidates = pool.filter(n => name === '*' || n.name.toLowerCase() === name)
+      }
+
+      for (const group of step.predicates) {
+        candidates = candidates.filter((n, i, all) =>
+          group.every(condition => matchesCondition($, n, condition, i + 1, all.length))
+        )
+      }
+      for (const candidate of candidates) if (!next.includes(candidate)) next.push(candidate)
+    }
+    current = next
+  }
+  return current
+}
+
+// ============================================================================
+// JSONPATH (subset)
+// ============================================================================
+
+/**
+ * Parse a JSONPath into segments ({ type: 'key'|'index'|'wildcard', value, recursive })
+ * @throws Error for syntax outside the supported subset
+ */
+export function parseJsonPath(expression) {
+  const path = String(expression).trim()
+  if (!path.startsWith('$')) throw new Error('JSONPath must start with "$"')
+
+  const segments = []
+  let i = 1
+  while (i < path.length) {
+    let recursive = false
+    if (path.startsWith('..', i)) {
+      recursive = true
+      i += 2
+    } else if (path[i] === '.') {
+      i += 1
+    } else if (path[i] !== '[') {
+      throw new Error(`unexpected "${path[i]}" at position ${i}`)
+    }
+
+    if (path[i] === '[') {
+      const end = path.indexOf(']', i)
+      if (end === -1) throw new Error('unclosed "["')
+      const inner = path.slice(i + 1, end).trim()
+      if (inner === '*') segments.push({ type: 'wildcard', recursive })
+      else if (/^-?\d+$/.test(inner)) segments.push({ type: 'index', value: parseInt(inner, 10), recursive })
+      else if (XPATH_LITERAL.test(inner)) segments.push({ type: 'key', value: parseLiteral(inner), recursive })
+      else throw new Error(`unsupported JSONPath segment "[${inner}]"`)
+      i = end + 1
+      continue
+    }
+
+    const match = path.slice(i).match(/^(\*|[\w$-]+)/)
+    if (!match) throw new Error(`expected a key at position ${i}`)
+    segments.push(match[1] === '*' ? { type: 'wildcard', recursive } : { type: 'key', value: match[1], recursive })
+    i += match[1].length
+  }
+  return segments
+}
+
+function jsonChildren(value) {
+  if (Array.isArray(value)) return value
+  if (typeof value === 'object' && value !== null) return Object.values(value)
+  return []
+}
+
+function jsonDescendantsOrSelf(value, out = []) {
+  out.push(value)
+  for (const child of jsonChildren(value)) jsonDescendantsOrSelf(child, out)
+  return out
+}
+
+function applyJsonSegment(value, segment) {
+  if (segment.type === 'wildcard') return jsonChildren(value)
+  if (segment.type === 'index') {
+    if (!Array.isArray(value)) return []
+    const item = value[segment.value < 0 ? value.length + segment.value : segment.value]
+    return item === undefined ? [] : [item]
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return []
+  return segment.value in value ? [value[segment.value]] : []
+}
+
+function evaluateJsonPath(segments, root) {
+  let current = [root]
+  for (const segment of segments) {
+    const pool = segment.recursive ? current.flatMap(v => jsonDescendantsOrSelf(v)) : current
+    current = pool.flatMap(v => applyJsonSegment(v, segment))
+  }
+  return current
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+function applyPattern(value, rule) {
+  if (value === null || !rule.pattern) return value
+  const match = value.match(new RegExp(rule.pattern, 'i'))
+  if (!match) return null
+  return cleanText(match[1] ?? match[0])
+}
+
+/** First matching value for a field rule, as trimmed text */
+function htmlFieldValue($, rules, rule, context) {
+  let value = null
+  if (!rule.selector) {
+    value = cleanText(context.attribs?.[rule.attribute])
+  } else if (rules.selectorType === 'XPATH') {
+    for (const result of evaluateXPath($, parseXPath(rule.selector), context)) {
+      value = typeof result === 'string'
+        ? cleanText(result)
+        : cleanText(rule.attribute ? result.attribs?.[rule.attribute] : $(result).text())
+      if (value !== null) break
+    }
+  } else {
+    const node = $(context).find(rule.selector).first()
+    if (node.length > 0) value = cleanText(rule.attribute ? node.attr(rule.attribute) : node.text())
+  }
+  return applyPattern(value, rule)
+}
+
+function jsonFieldValue(rule, context) {
+  for (const result of evaluateJsonPath(parseJsonPath(rule.selector), context)) {
+    const value = typeof result === 'boolean' ? String(result) : cleanText(result)
+    if (value !== null) return applyPattern(value, rule)
+  }
+  return null
+}
+
+function buildRecord(rules, read, pageUrl) {
+  const field = name => (rules.fields[name] ? read(rules.fields[name]) : null)
+
+  const stockRule = rules.fields.inStock
+  const stockValue = field('inStock')
+  const inStock = stockRule?.inStockPattern
+    ? stockValue !== null && new RegExp(stockRule.inStockPattern, 'i').test(stockValue)
+    : parseAvailability(stockValue)
+
+  const record = {
+    title: field('title'),
+    url: rules.fields.url ? resolveUrl(field('url'), pageUrl) : pageUrl,
+    price: parsePrice(field('price')),
+    currency: rules.currency,
+    inStock,
+    upc: field('upc'),
+    sku: field('sku'),
+    roundCount: parseRoundCount(field('roundCount')),
+    missing: [],
+  }
+  if (!record.title) record.missing.push('title')
+  if (record.price === null) record.missing.push('price')
+  if (!record.url) record.missing.push('url')
+  return record
+}
+
+/**
+ * Apply validated rules to one page body.
+ *
+ * Returns every item the `item` selector matched (records with `missing`
+ * fields are reported, not dropped, so previews can show why) and the
+ * resolved next-page URL when a `nextPage` rule is set.
+ *
+ * @param {object} rules - Output of validateExtractionRules
+ * @param {string} body - Page HTML/XML, or JSON text for JSONPATH rules
+ * @param {{ pageUrl: string, xml?: boolean }} options
+ */
+export function applyExtractionRules(rules, body, options) {
+  const { pageUrl } = options
+
+  if (rules.selectorType === 'JSONPATH') {
+    const data = JSON.parse(body)
+    const matched = evaluateJsonPath(parseJsonPath(rules.item), data)
+    const items = (matched.length === 1 && Array.isArray(matched[0]) ? matched[0] : matched)
+      .filter(item => typeof item === 'object' && item !== null)
+
+    const records = items
+      .slice(0, MAX_EXTRACTED_RECORDS)
+      .map(item => buildRecord(rules, rule => jsonFieldValue(rule, item), pageUrl))
+    const next = rules.nextPage ? jsonFieldValue(rules.nextPage, data) : null
+    return { records, nextPage: resolveUrl(next, pageUrl) }
+  }
+
+  const $ = cheerio.load(body, { xml: options.xml === true })
+  const root = $.root().get(0)
+  const items = rules.selectorType === 'XPATH'
+    ? evaluateXPath($, parseXPath(rules.item), root).filter(isElement)
+    : $(rules.item).toArray()
+
+  const records = items
+    .slice(0, MAX_EXTRACTED_RECORDS)
+    .map(item => buildRecord(rules, rule => htmlFieldValue($, rules, rule, item), pageUrl))
+  const next = rules.nextPage ? htmlFieldValue($, rules, rules.nextPage, root) : null
+  return { records, nextPage: resolveUrl(next, pageUrl) }
+}
@@ -0,0 +1,41 @@
+import type { Readable } from 'node:stream'
+
+export type FeedUploadBackend = 'local' | 's3'
+
+export interface FeedUploadStorage {
+  backend: FeedUploadBackend
+  /** Write (or overwrite) one chunk */
+  putChunk(key: string, index: number, data: Uint8Array): Promise<void>
+  /** Stream chunks 0..chunkCount-1 in order; read errors surface on the stream */
+  readUpload(key: string, chunkCount: number): Readable
+  /** Remove every chunk of an upload (no-op when already gone) */
+  deleteUpload(key: string): Promise<void>
+}
+
+export interface FeedUploadLimits {
+  maxBytes: number
+  retentionDays: number
+}
+
+/** Minimal client surface used by the S3 backend */
+export interface S3LikeClient {
+  send(command: unknown): Promise<any>
+}
+
+export declare const FEED_UPLOAD_BACKENDS: FeedUploadBackend[]
+export declare const FEED_UPLOAD_CHUNK_BYTES: number
+
+export declare function resolveFeedUploadLimits(env?: Record<string, string | undefined>): FeedUploadLimits
+export declare function chunkCountFor(sizeBytes: number): number
+export declare function expectedChunkBytes(sizeBytes: number, index: number): number
+export declare function buildFeedUploadKey(retailerId: string, uploadId: string): string
+
+export declare function createLocalFeedUploadStorage(rootDir: string): FeedUploadStorage
+export declare function createS3FeedUploadStorage(options: {
+  bucket?: string
+  prefix?: string
+  region?: string
+  endpoint?: string
+  client?: S3LikeClient
+}): FeedUploadStorage
+export declare function createFeedUploadStorage(env?: Record<string, string | undefined>): FeedUploadStorage
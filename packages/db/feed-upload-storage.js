@@ -0,0 +1,196 @@
+/**
+ * Feed Upload Storage
+ *
+ * Shared by the merchant portal, which receives chunked uploads for UPLOAD
+ * feeds, and the harvester, which ingests them and enforces retention.
+ *
+ * Backends (FEED_UPLOAD_STORAGE):
+ * - local (default): files under FEED_UPLOAD_DIR (default ./uploads/feeds).
+ *   Only works when the portal and harvester share a filesystem (dev, single
+ *   host).
+ * - s3: FEED_UPLOAD_S3_BUCKET with optional FEED_UPLOAD_S3_PREFIX,
+ *   FEED_UPLOAD_S3_REGION and FEED_UPLOAD_S3_ENDPOINT (R2, MinIO and other
+ *   S3-compatible stores). Credentials come from the standard AWS chain.
+ *
+ * Every chunk is stored as its own object (<key>/00000, <key>/00001, ...),
+ * so uploads need no appends or multipart state and a retried chunk simply
+ * overwrites itself. Reading streams the chunks in order, one chunk in memory
+ * at a time.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { Readable } from 'node:stream'
+
+export const FEED_UPLOAD_BACKENDS = ['local', 's3']
+
+/** Every chunk except the last is exactly this size */
+export const FEED_UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024
+const DEFAULT_RETENTION_DAYS = 30
+
+// Storage keys are built from ids; anything else is rejected so a key can
+// never escape the upload root or prefix
+const STORAGE_KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/
+
+/**
+ * Upload limits from the environment.
+ */
+export function resolveFeedUploadLimits(env = process.env) {
+  return {
+    maxBytes: Number(env.FEED_UPLOAD_MAX_BYTES) || DEFAULT_MAX_BYTES,
+    retentionDays: Number(env.FEED_UPLOAD_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS,
+  }
+}
+
+/**
+ * Number of chunks a file of sizeBytes is split into.
+ */
+export function chunkCountFor(sizeBytes) {
+  return Math.max(1, Math.ceil(sizeBytes / FEED_UPLOAD_CHUNK_BYTES))
+}
+
+/**
+ * Expected byte length of chunk `index` for a file of sizeBytes.
+ */
+export function expectedChunkBytes(sizeBytes, index) {
+  const count = chunkCountFor(sizeBytes)
+  if (index < 0 || index >= count) return 0
+  if (index < count - 1) return FEED_UPLOAD_CHUNK_BYTES
+  return sizeBytes - FEED_UPLOAD_CHUNK_BYTES * (count - 1)
+}
+
+/**
+ * Storage key for an upload.
+ */
+export function buildFeedUploadKey(retailerId, uploadId) {
+  return assertStorageKey(`${retailerId}/${uploadId}`)
+}
+
+function assertStorageKey(key) {
+  if (typeof key !== 'string' || !STORAGE_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid feed upload storage key: ${key}`)
+  }
+  return key
+}
+
+function chunkName(index) {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid chunk index: ${index}`)
+  }
+  return String(index).padStart(5, '0')
+}
+
+/**
+ * Filesystem backend.
+ */
+export function createLocalFeedUploadStorage(rootDir) {
+  const root = resolve(rootDir)
+
+  return {
+    backend: 'local',
+
+    async putChunk(key, index, data) {
+      const dir = join(root, assertStorageKey(key))
+      await mkdir(dir, { recursive: true })
+      await writeFile(join(dir, chunkName(index)), data)
+    },
+
+    readUpload(key, chunkCount) {
+      const dir = join(root, assertStorageKey(key))
+      return Readable.from(
+        (async function* () {
+          for (let i = 0; i < chunkCount; i++) {
+            yield await readFile(join(dir, chunkName(i)))
+          }
+        })(),
+        { objectMode: false }
+      )
+    },
+
+    async deleteUpload(key) {
+      await rm(join(root, assertStorageKey(key)), { recursive: true, force: true })
+    },
+  }
+}
+
+/**
+ * S3 (or S3-compatible) backend. The SDK is loaded on first use so the local
+ * backend works without it. `client` is for tests.
+ */
+export function createS3FeedUploadStorage({ bucket, prefix = 'feed-uploads/', region, endpoint, client } = {}) {
+  if (!bucket) {
+    throw new Error('FEED_UPLOAD_S3_BUCKET is required for s3 feed upload storage')
+  }
+  const basePrefix = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix || ''
+  let sdkPromise = null
+
+  async function load() {
+    sdkPromise ??= import('@aws-sdk/client-s3').then(sdk => ({
+      sdk,
+      client: client ?? new sdk.S3Client({ region, endpoint, forcePathStyle: Boolean(endpoint) }),
+    }))
+    return sdkPromise
+  }
+
+  const uploadPrefix = key => `${basePrefix}${assertStorageKey(key)}/`
+
+  return {
+    backend: 's3',
+
+    async putChunk(key, index, data) {
+      const { sdk, client: s3 } = await load()
+      await s3.send(new sdk.PutObjectCommand({ Bucket: bucket, Key: uploadPrefix(key) + chunkName(index), Body: data }))
+    },
+
+    readUpload(key, chunkCount) {
+      const prefix = uploadPrefix(key)
+      return Readable.from(
+        (async function* () {
+          const { sdk, client: s3 } = await load()
+          for (let i = 0; i < chunkCount; i++) {
+            const object = await s3.send(new sdk.GetObjectCommand({ Bucket: bucket, Key: prefix + chunkName(i) }))
+            yield Buffer.from(await object.Body.transformToByteArray())
+          }
+        })(),
+        { objectMode: false }
+      )
+    },
+
+    async deleteUpload(key) {
+      const { sdk, client: s3 } = await load()
+      let continuationToken
+      do {
+        const listed = await s3.send(
+          new sdk.ListObjectsV2Command({ Bucket: bucket, Prefix: uploadPrefix(key), ContinuationToken: continuationToken })
+        )
+        const objects = (listed.Contents ?? []).map(o => ({ Key: o.Key }))
+        if (objects.length > 0) {
+          await s3.send(new sdk.DeleteObjectsCommand({ Bucket: bucket, Delete: { Objects: objects, Quiet: true } }))
+        }
+        continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined
+      } while (continuationToken)
+    },
+  }
+}
+
+/**
+ * Storage backend selected by FEED_UPLOAD_STORAGE.
+ */
+export function createFeedUploadStorage(env = process.env) {
+  const backend = (env.FEED_UPLOAD_STORAGE || 'local').toLowerCase()
+
+  if (backend === 'local') {
+    return createLocalFeedUploadStorage(env.FEED_UPLOAD_DIR || join(process.cwd(), 'uploads', 'feeds'))
+  }
+  if (backend === 's3') {
+    return createS3FeedUploadStorage({
+      bucket: env.FEED_UPLOAD_S3_BUCKET,
+      prefix: env.FEED_UPLOAD_S3_PREFIX,
+      region: env.FEED_UPLOAD_S3_REGION,
+      endpoint: env.FEED_UPLOAD_S3_ENDPOINT,
+    })
+  }
+  throw new Error(`Unknown FEED_UPLOAD_STORAGE "${backend}" (expected ${FEED_UPLOAD_BACKENDS.join(' or ')})`)
+}
@@ -5,5 +5,11 @@ export * from './generated/prisma/client.js'
 export * from './system-settings.js'
 export * from './validation.js'
 export * from './visibility.js'
+export * from './saved-search.js'
+export * from './caliber-taxonomy.js'
+export * from './landed-cost.js'
+export * from './shipping-restrictions.js'
 export * from './embedding-text.js'
+export * from './embedding-provider.js'
+export * from './search-suggestions.js'
 export * from './schema-validation.js'
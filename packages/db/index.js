@@ -110,8 +110,26 @@ export * from './validation.js'
 // Re-export visibility predicates (A1 semantics)
 export * from './visibility.js'
 
+// Re-export saved search predicates (shared between API resolver and harvester alerter)
+export * from './saved-search.js'
+
+// Re-export caliber taxonomy (shared between API and harvester)
+export * from './caliber-taxonomy.js'
+
+// Re-export landed cost calculator (shared by search ordering and price check)
+export * from './landed-cost.js'
+
+// Re-export per-state shipping restrictions (shared by search and bulk planning)
+export * from './shipping-restrictions.js'
+
 // Re-export embedding text builder (shared between API and harvester)
 export * from './embedding-text.js'
 
+// Re-export embedding providers (shared between API and harvester)
+export * from './embedding-provider.js'
+
+// Re-export search autocomplete index (built by harvester, matched by API)
+export * from './search-suggestions.js'
+
 // Re-export schema validation utilities (for startup checks)
 export * from './schema-validation.js'
@@ -0,0 +1,124 @@
+import type { PrismaClient, ShippingType } from './generated/prisma/client.js'
+
+/** ITEM = listing price only, DELIVERED = listing price + shipping */
+export type PriceBasis = 'ITEM' | 'DELIVERED'
+
+export declare const PRICE_BASES: readonly PriceBasis[]
+
+/** Two-letter destination codes: 50 states + DC */
+export declare const US_STATE_CODES: readonly string[]
+
+/**
+ * Thrown when a landed cost is requested for a quantity that is not a
+ * positive integer.
+ */
+export declare class InvalidQuantityError extends RangeError {
+  readonly quantity: unknown
+  constructor(quantity: unknown)
+}
+
+export declare function isUsStateCode(value: unknown): value is string
+
+/**
+ * A retailer's shipping rule with Decimal columns converted to numbers.
+ */
+export interface ShippingRule {
+  retailerId: string
+  shippingType: ShippingType
+  /** Per-order rate for FLAT */
+  flatRate: number | null
+  /** Per-listing rate for PER_UNIT */
+  perUnitRate: number | null
+  /** Item subtotal at which shipping is waived */
+  freeShippingMinimum: number | null
+  /** Per-order surcharge by destination state */
+  stateSurcharges: Record<string, number>
+}
+
+export interface ShippingRuleRow {
+  retailerId: string
+  shippingType: ShippingType
+  flatRate: unknown
+  perUnitRate: unknown
+  freeShippingMinimum: unknown
+  stateSurcharges: unknown
+}
+
+export interface ShippingRuleInput {
+  shippingType: ShippingType
+  flatRate?: number | null
+  perUnitRate?: number | null
+  freeShippingMinimum?: number | null
+  stateSurcharges?: Record<string, number>
+}
+
+/** Offer fields used for landed cost (Decimal values are accepted) */
+export interface LandedCostOffer {
+  price: number | { toString(): string }
+  shippingCost?: number | { toString(): string } | null
+  freeShippingMinimum?: number | { toString(): string } | null
+}
+
+export type ShippingSource = 'RULE' | 'OFFER' | 'UNKNOWN'
+
+export interface LandedCost {
+  /** Listings bought (at least 1) */
+  quantity: number
+  itemTotal: number
+  /** null when shipping is unknown */
+  shipping: number | null
+  /** itemTotal + shipping, null when shipping is unknown */
+  total: number | null
+  shippingSource: ShippingSource
+  freeShippingApplied: boolean
+}
+
+export interface LandedCostInput {
+  offer: LandedCostOffer
+  /** Listings (boxes/cases), a positive integer, default 1 */
+  quantity?: number
+  rule?: ShippingRule | null
+  destinationState?: string | null
+}
+
+export interface OrderLandedCostInput {
+  /** Listings in one order at a single retailer */
+  lines: Array<{ offer: LandedCostOffer; quantity?: number }>
+  rule?: ShippingRule | null
+  destinationState?: string | null
+}
+
+export declare function toShippingRule(row: ShippingRuleRow): ShippingRule
+
+/**
+ * Load shipping rules for the given retailers, keyed by retailerId.
+ */
+export declare function loadShippingRules(
+  prisma: PrismaClient,
+  retailerIds: Iterable<string>
+): Promise<Map<string, ShippingRule>>
+
+/**
+ * Validate admin/merchant input for a shipping rule. Returns error messages.
+ */
+export declare function validateShippingRuleInput(input: ShippingRuleInput): string[]
+
+/**
+ * Delivered cost of `quantity` listings of an offer shipped to `destinationState`.
+ * Throws InvalidQuantityError unless quantity is a positive integer.
+ */
+export declare function calculateLandedCost(input: LandedCostInput): LandedCost
+
+/**
+ * Delivered cost of one order at a single retailer; shipping is charged once
+ * per order and free-shipping minimums apply to the order subtotal.
+ * Throws InvalidQuantityError unless every line quantity is a positive integer.
+ */
+export declare function calculateOrderLandedCost(input: OrderLandedCostInput): LandedCost
+
+/**
+ * Delivered price per round (4dp), or null when round count or shipping is unknown.
+ */
+export declare function deliveredPricePerRound(
+  input: LandedCostInput & { roundCount: number | null | undefined }
+): number | null
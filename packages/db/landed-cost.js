@@ -0,0 +1,229 @@
+/**
+ * Landed Cost
+ *
+ * Delivered (item + shipping) cost of buying an offer, shared by search
+ * ordering, price check and anything else that compares offers on what the
+ * buyer actually pays.
+ *
+ * Shipping comes from the retailer's `retailer_shipping_rules` row when it
+ * prices shipping (FREE, FLAT, PER_UNIT). UNKNOWN/CALCULATED rules - and
+ * retailers without a rule - fall back to the shipping observed on the offer
+ * itself (prices.shippingCost / freeShippingMinimum). When neither is known
+ * the delivered cost is unknown (null), never guessed.
+ *
+ * Quantities are in listings (boxes/cases), not rounds, and must be positive
+ * integers; anything else throws InvalidQuantityError rather than being
+ * silently priced as one listing.
+ */
+
+/** Price basis for ordering and classification */
+export const PRICE_BASES = ['ITEM', 'DELIVERED']
+
+/** Two-letter destination codes: 50 states + DC */
+export const US_STATE_CODES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID',
+  'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO',
+  'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA',
+  'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+]
+
+const STATE_CODE_SET = new Set(US_STATE_CODES)
+
+/** Shipping types whose price is defined by the rule itself */
+const RULE_PRICED_TYPES = new Set(['FREE', 'FLAT', 'PER_UNIT'])
+
+/**
+ * Thrown when a landed cost is requested for a quantity that is not a
+ * positive integer.
+ */
+export class InvalidQuantityError extends RangeError {
+  constructor(quantity) {
+    super(`Quantity must be a positive integer, got ${quantity}`)
+    this.name = 'InvalidQuantityError'
+    this.quantity = quantity
+  }
+}
+
+export function isUsStateCode(value) {
+  return typeof value === 'string' && STATE_CODE_SET.has(value)
+}
+
+function toNumberOrNull(value) {
+  if (value === null || value === undefined) return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function roundCents(value) {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Keep only valid { STATE: amount } entries of a stored surcharge map.
+ */
+function normalizeStateSurcharges(value) {
+  const result = {}
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return result
+  for (const [state, amount] of Object.entries(value)) {
+    const n = toNumberOrNull(amount)
+    if (isUsStateCode(state) && n !== null && n >= 0) {
+      result[state] = n
+    }
+  }
+  return result
+}
+
+/**
+ * Convert a `retailer_shipping_rules` row (Decimal/Json columns) to a plain rule.
+ */
+export function toShippingRule(row) {
+  return {
+    retailerId: row.retailerId,
+    shippingType: row.shippingType,
+    flatRate: toNumberOrNull(row.flatRate),
+    perUnitRate: toNumberOrNull(row.perUnitRate),
+    freeShippingMinimum: toNumberOrNull(row.freeShippingMinimum),
+    stateSurcharges: normalizeStateSurcharges(row.stateSurcharges),
+  }
+}
+
+/**
+ * Load shipping rules for the given retailers, keyed by retailerId.
+ * Retailers without a rule are absent from the map.
+ */
+export async function loadShippingRules(prisma, retailerIds) {
+  const ids = [...new Set(retailerIds)].filter(Boolean)
+  const rules = new Map()
+  if (ids.length === 0) return rules
+
+  const rows = await prisma.retailer_shipping_rules.findMany({
+    where: { retailerId: { in: ids } },
+  })
+  for (const row of rows) {
+    rules.set(row.retailerId, toShippingRule(row))
+  }
+  return rules
+}
+
+/**
+ * Validate admin/merchant input for a shipping rule. Returns error messages.
+ */
+export function validateShippingRuleInput(input) {
+  const errors = []
+  const amounts = [
+    ['Flat rate', input.flatRate],
+    ['Per-unit rate', input.perUnitRate],
+    ['Free shipping minimum', input.freeShippingMinimum],
+  ]
+  for (const [label, value] of amounts) {
+    if (value !== null && value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      errors.push(`${label} must be a non-negative number`)
+    }
+  }
+
+  if (input.shippingType === 'FLAT' && (input.flatRate === null || input.flatRate === undefined)) {
+    errors.push('Flat rate is required for FLAT shipping')
+  }
+  if (input.shippingType === 'PER_UNIT' && (input.perUnitRate === null || input.perUnitRate === undefined)) {
+    errors.push('Per-unit rate is required for PER_UNIT shipping')
+  }
+
+  for (const [state, amount] of Object.entries(input.stateSurcharges ?? {})) {
+    if (!isUsStateCode(state)) {
+      errors.push(`Unknown state code: ${state}`)
+    } else if (!(Number.isFinite(amount) && amount >= 0)) {
+      errors.push(`Surcharge for ${state} must be a non-negative number`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Delivered cost of `quantity` listings of an offer shipped to `destinationState`.
+ */
+export function calculateLandedCost({ offer, quantity = 1, rule = null, destinationState = null }) {
+  return calculateOrderLandedCost({ lines: [{ offer, quantity }], rule, destinationState })
+}
+
+/**
+ * Delivered cost of one order at a single retailer. Shipping is charged once
+ * per order: the free-shipping minimum applies to the order's item subtotal and
+ * PER_UNIT rates to the total number of listings. Without a priced rule the
+ * highest shipping observed on the order's offers is used.
+ * Throws InvalidQuantityError for a line quantity that is not a positive integer.
+ */
+export function calculateOrderLandedCost({ lines, rule = null, destinationState = null }) {
+  let units = 0
+  let itemTotal = 0
+  for (const line of lines) {
+    const quantity = line.quantity ?? 1
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new InvalidQuantityError(quantity)
+    }
+    units += quantity
+    itemTotal += Number(line.offer.price) * quantity
+  }
+  itemTotal = roundCents(itemTotal)
+
+  let shipping = null
+  let shippingSource = 'UNKNOWN'
+  let freeShippingApplied = false
+
+  if (rule && RULE_PRICED_TYPES.has(rule.shippingType)) {
+    let base = null
+    if (rule.shippingType === 'FREE') base = 0
+    else if (rule.shippingType === 'FLAT') base = rule.flatRate
+    else if (rule.perUnitRate !== null) base = rule.perUnitRate * units
+
+    if (base !== null) {
+      if (rule.freeShippingMinimum !== null && itemTotal >= rule.freeShippingMinimum) {
+        base = 0
+        freeShippingApplied = true
+      }
+      const surcharge = destinationState ? rule.stateSurcharges[destinationState] ?? 0 : 0
+      shipping = base + surcharge
+      shippingSource = 'RULE'
+    }
+  }
+
+  if (shippingSource === 'UNKNOWN') {
+    let observed = null
+    let minimum = null
+    for (const { offer } of lines) {
+      const cost = toNumberOrNull(offer.shippingCost)
+      if (cost !== null) observed = observed === null ? cost : Math.max(observed, cost)
+      const offerMinimum = toNumberOrNull(offer.freeShippingMinimum)
+      if (offerMinimum !== null) minimum = minimum === null ? offerMinimum : Math.min(minimum, offerMinimum)
+    }
+    if (observed !== null) {
+      if (minimum !== null && itemTotal >= minimum) {
+        shipping = 0
+        freeShippingApplied = true
+      } else {
+        shipping = observed
+      }
+      shippingSource = 'OFFER'
+    }
+  }
+
+  return {
+    quantity: units,
+    itemTotal,
+    shipping: shipping === null ? null : roundCents(shipping),
+    total: shipping === null ? null : roundCents(itemTotal + shipping),
+    shippingSource,
+    freeShippingApplied,
+  }
+}
+
+/**
+ * Delivered price per round (4dp) for `quantity` listings, or null when the
+ * round count or the shipping is unknown.
+ */
+export function deliveredPricePerRound({ offer, roundCount, quantity = 1, rule = null, destinationState = null }) {
+  if (!roundCount || roundCount <= 0) return null
+  const cost = calculateLandedCost({ offer, quantity, rule, destinationState })
+  if (cost.total === null) return null
+  return Math.round((cost.total / (roundCount * cost.quantity)) * 10000) / 10000
+}
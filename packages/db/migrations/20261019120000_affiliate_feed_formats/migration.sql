@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "FeedFormat" ADD VALUE 'TSV';
+ALTER TYPE "FeedFormat" ADD VALUE 'XML';
+ALTER TYPE "FeedFormat" ADD VALUE 'NDJSON';
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "FeedTransport" ADD VALUE 'HTTPS';
+ALTER TYPE "FeedTransport" ADD VALUE 'SIGNED_URL';
+
+-- CreateEnum
+CREATE TYPE "FeedHttpAuthType" AS ENUM ('NONE', 'BASIC', 'BEARER');
+
+-- AlterTable
+ALTER TABLE "affiliate_feeds" ADD COLUMN     "httpAuthType" "FeedHttpAuthType" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "lastRemoteEtag" TEXT;
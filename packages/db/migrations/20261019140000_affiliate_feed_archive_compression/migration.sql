@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "FeedCompression" ADD VALUE 'ZIP';
+ALTER TYPE "FeedCompression" ADD VALUE 'BZIP2';
+
+-- AlterTable
+ALTER TABLE "affiliate_feeds" ADD COLUMN     "archiveEntryGlob" TEXT;
+
+-- AlterTable
+ALTER TABLE "affiliate_feed_runs" ADD COLUMN     "compressedBytes" BIGINT,
+ADD COLUMN     "uncompressedBytes" BIGINT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "affiliate_feed_runs" ADD COLUMN     "productsDeleted" INTEGER;
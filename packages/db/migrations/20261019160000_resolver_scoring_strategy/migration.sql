@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ResolverScoringStrategy" AS ENUM ('WEIGHTED_EXACT', 'LOGISTIC');
+
+-- AlterTable
+ALTER TABLE "source_trust_config" ADD COLUMN     "scoringStrategy" "ResolverScoringStrategy" NOT NULL DEFAULT 'WEIGHTED_EXACT',
+ADD COLUMN     "shadowScoringStrategy" "ResolverScoringStrategy";
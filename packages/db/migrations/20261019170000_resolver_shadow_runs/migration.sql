@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "ResolverShadowRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ResolverShadowChangeType" AS ENUM ('UNCHANGED', 'CONFIDENCE_SHIFT', 'RELINKED', 'NEW_PRODUCT', 'NEW_REVIEW', 'LEFT_REVIEW', 'REASON_CHANGED', 'NEW_LINK', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "resolver_shadow_runs" (
+    "id" TEXT NOT NULL,
+    "resolverVersion" TEXT NOT NULL,
+    "dictionaryVersion" TEXT NOT NULL,
+    "sourceId" TEXT,
+    "sampleSize" INTEGER,
+    "status" "ResolverShadowRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "totalCount" INTEGER NOT NULL DEFAULT 0,
+    "changedCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "triggeredBy" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "resolver_shadow_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "resolver_shadow_decisions" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "sourceProductId" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "currentProductId" TEXT,
+    "currentStatus" "ProductLinkStatus",
+    "currentReasonCode" "ProductLinkReasonCode",
+    "currentConfidence" DECIMAL(5,4),
+    "currentResolverVersion" TEXT,
+    "productId" TEXT,
+    "createdCanonicalKey" TEXT,
+    "matchType" "ProductLinkMatchType" NOT NULL,
+    "status" "ProductLinkStatus" NOT NULL,
+    "reasonCode" "ProductLinkReasonCode",
+    "confidence" DECIMAL(5,4) NOT NULL,
+    "rulesFired" TEXT[],
+    "changeType" "ResolverShadowChangeType" NOT NULL,
+    "confidenceDelta" DECIMAL(5,4),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "resolver_shadow_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "resolver_shadow_runs_startedAt_idx" ON "resolver_shadow_runs"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "resolver_shadow_decisions_runId_changeType_idx" ON "resolver_shadow_decisions"("runId", "changeType");
+
+-- CreateIndex
+CREATE INDEX "resolver_shadow_decisions_runId_sourceId_idx" ON "resolver_shadow_decisions"("runId", "sourceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "resolver_shadow_decisions_runId_sourceProductId_key" ON "resolver_shadow_decisions"("runId", "sourceProductId");
+
+-- AddForeignKey
+ALTER TABLE "resolver_shadow_decisions" ADD CONSTRAINT "resolver_shadow_decisions_runId_fkey" FOREIGN KEY ("runId") REFERENCES "resolver_shadow_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
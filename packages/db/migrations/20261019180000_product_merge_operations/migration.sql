@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ProductMergeOperationType" AS ENUM ('MERGE', 'SPLIT');
+
+-- CreateEnum
+CREATE TYPE "ProductMergeOperationStatus" AS ENUM ('APPLIED', 'REVERTED');
+
+-- CreateEnum
+CREATE TYPE "ProductMergeMoveAction" AS ENUM ('REPOINTED', 'SOFT_DELETED', 'SUPPRESSED', 'CREATED');
+
+-- CreateTable
+CREATE TABLE "product_merge_operations" (
+    "id" TEXT NOT NULL,
+    "type" "ProductMergeOperationType" NOT NULL,
+    "status" "ProductMergeOperationStatus" NOT NULL DEFAULT 'APPLIED',
+    "fromProductId" TEXT NOT NULL,
+    "toProductId" TEXT NOT NULL,
+    "reason" TEXT,
+    "summary" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revertedBy" TEXT,
+    "revertedAt" TIMESTAMP(3),
+
+    CONSTRAINT "product_merge_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_merge_moves" (
+    "id" TEXT NOT NULL,
+    "operationId" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" "ProductMergeMoveAction" NOT NULL,
+    "previousValue" JSONB,
+
+    CONSTRAINT "product_merge_moves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_merge_operations_fromProductId_idx" ON "product_merge_operations"("fromProductId");
+
+-- CreateIndex
+CREATE INDEX "product_merge_operations_toProductId_idx" ON "product_merge_operations"("toProductId");
+
+-- CreateIndex
+CREATE INDEX "product_merge_operations_createdAt_idx" ON "product_merge_operations"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "product_merge_moves_operationId_entity_idx" ON "product_merge_moves"("operationId", "entity");
+
+-- AddForeignKey
+ALTER TABLE "product_merge_moves" ADD CONSTRAINT "product_merge_moves_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "product_merge_operations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('EMAIL', 'WEB_PUSH', 'SMS', 'WEBHOOK');
+
+-- CreateEnum
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('SENT', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "smsPhoneNumber" TEXT,
+ADD COLUMN "smsOptInAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "watchlist_items" ADD COLUMN "notification_channels" "NotificationChannel"[] DEFAULT ARRAY['EMAIL']::"NotificationChannel"[];
+
+-- CreateTable
+CREATE TABLE "user_push_subscriptions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "p256dh" TEXT NOT NULL,
+    "auth" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSuccessAt" TIMESTAMP(3),
+    "lastFailureAt" TIMESTAMP(3),
+
+    CONSTRAINT "user_push_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_webhooks" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "lastDeliveredAt" TIMESTAMP(3),
+    "lastError" TEXT,
+
+    CONSTRAINT "user_webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_deliveries" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "watchlistItemId" TEXT NOT NULL,
+    "ruleType" "AlertRuleType" NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "status" "NotificationDeliveryStatus" NOT NULL,
+    "claimKey" TEXT NOT NULL,
+    "targetId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_push_subscriptions_endpoint_key" ON "user_push_subscriptions"("endpoint");
+
+-- CreateIndex
+CREATE INDEX "user_push_subscriptions_userId_idx" ON "user_push_subscriptions"("userId");
+
+-- CreateIndex
+CREATE INDEX "user_webhooks_userId_idx" ON "user_webhooks"("userId");
+
+-- CreateIndex
+CREATE INDEX "alert_deliveries_alertId_createdAt_idx" ON "alert_deliveries"("alertId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "alert_deliveries_userId_createdAt_idx" ON "alert_deliveries"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "alert_deliveries_claimKey_idx" ON "alert_deliveries"("claimKey");
+
+-- AddForeignKey
+ALTER TABLE "user_push_subscriptions" ADD CONSTRAINT "user_push_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_webhooks" ADD CONSTRAINT "user_webhooks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_deliveries" ADD CONSTRAINT "alert_deliveries_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_deliveries" ADD CONSTRAINT "alert_deliveries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "AlertRuleType" ADD VALUE 'TARGET_PRICE';
+
+-- CreateEnum
+CREATE TYPE "TargetPriceBasis" AS ENUM ('TOTAL', 'PER_ROUND');
+
+-- AlterTable
+ALTER TABLE "watchlist_items" ADD COLUMN "target_notification_claimed_at" TIMESTAMP(3),
+ADD COLUMN "target_notification_claim_key" TEXT,
+ADD COLUMN "target_price" DECIMAL(10,4),
+ADD COLUMN "target_price_basis" "TargetPriceBasis" NOT NULL DEFAULT 'TOTAL',
+ADD COLUMN "target_include_shipping" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "last_target_notified_at" TIMESTAMP(3);
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "AlertRuleType" ADD VALUE 'NEW_PRODUCT';
+
+-- AlterTable
+ALTER TABLE "watchlist_items" ADD COLUMN "query_snapshot_hash" TEXT;
+
+-- ADR-011A Section 19.3: one active saved search per (user, canonical query)
+-- Partial index (Prisma cannot express it), mirrors watchlist_items_sku_active_uniq
+CREATE UNIQUE INDEX "watchlist_items_search_active_uniq" ON "watchlist_items"("userId", "query_snapshot_hash")
+WHERE "intent_type" = 'SEARCH' AND "deleted_at" IS NULL AND "query_snapshot_hash" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "watchlist_search_matches" (
+    "id" TEXT NOT NULL,
+    "watchlist_item_id" TEXT NOT NULL,
+    "product_id" TEXT NOT NULL,
+    "is_matching" BOOLEAN NOT NULL DEFAULT true,
+    "first_matched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_matched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_notified_at" TIMESTAMP(3),
+    "notification_claimed_at" TIMESTAMP(3),
+    "notification_claim_key" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "watchlist_search_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "watchlist_search_matches_watchlist_item_id_product_id_key" ON "watchlist_search_matches"("watchlist_item_id", "product_id");
+
+-- CreateIndex
+CREATE INDEX "watchlist_search_matches_product_id_idx" ON "watchlist_search_matches"("product_id");
+
+-- AddForeignKey
+ALTER TABLE "watchlist_search_matches" ADD CONSTRAINT "watchlist_search_matches_watchlist_item_id_fkey" FOREIGN KEY ("watchlist_item_id") REFERENCES "watchlist_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "watchlist_search_matches" ADD CONSTRAINT "watchlist_search_matches_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
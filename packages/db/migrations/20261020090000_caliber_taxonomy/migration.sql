@@ -0,0 +1,120 @@
+-- CreateEnum
+CREATE TYPE "CaliberCategory" AS ENUM ('HANDGUN', 'RIFLE', 'RIMFIRE', 'SHOTGUN', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "calibers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "category" "CaliberCategory" NOT NULL,
+    "parentId" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "titlePatterns" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "platforms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "grainRanges" JSONB,
+    "gunLocker" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+
+    CONSTRAINT "calibers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "caliber_taxonomy_versions" (
+    "version" SERIAL NOT NULL,
+    "summary" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "caliber_taxonomy_versions_pkey" PRIMARY KEY ("version")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calibers_name_key" ON "calibers"("name");
+
+-- CreateIndex
+CREATE INDEX "calibers_parentId_idx" ON "calibers"("parentId");
+
+-- CreateIndex
+CREATE INDEX "calibers_isActive_sortOrder_idx" ON "calibers"("isActive", "sortOrder");
+
+-- AddForeignKey
+ALTER TABLE "calibers" ADD CONSTRAINT "calibers_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "calibers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed: built-in taxonomy (BUILTIN_CALIBERS in caliber-taxonomy.js).
+-- Consolidates gun-locker CANONICAL_CALIBERS/CALIBER_ALIASES, ai-search
+-- CALIBER_ALIASES/PLATFORM_CALIBER_MAP/CALIBER_GRAIN_RANGES and harvester
+-- CALIBER_PATTERNS. Title patterns keep the harvester's precedence.
+INSERT INTO "calibers" ("id", "name", "label", "category", "aliases", "titlePatterns", "platforms", "grainRanges", "gunLocker", "sortOrder", "updatedAt", "createdBy", "updatedBy")
+SELECT v.*, CURRENT_TIMESTAMP, 'system', 'system' FROM (VALUES
+  ('caliber_9mm', '9mm', '9mm', 'HANDGUN'::"CaliberCategory", ARRAY['9x19mm', '9x19', '9mm luger', '9mm parabellum'], ARRAY['\b9\s?mm|9x19|9\s?luger\b'], ARRAY['glock 19', 'glock 17', 'glock 43', 'beretta 92', 'sig p365', 'sig p320', 'smith & wesson shield'], '{"light":[115],"medium":[124],"heavy":[147]}'::jsonb, true, 10),
+  ('caliber_45_acp', '.45 ACP', '.45 ACP', 'HANDGUN'::"CaliberCategory", ARRAY['.45', '.45 auto', '45 acp', '.45acp', '45 auto'], ARRAY['(?:^|\s|\W)\.?\s?45\s?acp\b|45\s?acp\b'], ARRAY['1911'], '{"light":[185],"medium":[200],"heavy":[230]}'::jsonb, true, 20),
+  ('caliber_40_s_w', '.40 S&W', '.40 S&W', 'HANDGUN'::"CaliberCategory", ARRAY['.40', '40 s&w', '.40sw', '.40 smith & wesson'], ARRAY['(?:^|\s|\W)\.?\s?40\s?s&w\b|40\s?s&w\b'], ARRAY['smith & wesson shield'], '{"light":[155],"medium":[165],"heavy":[180]}'::jsonb, true, 30),
+  ('caliber_38_special', '.38 Special', '.38 Special', 'HANDGUN'::"CaliberCategory", ARRAY['.38 spl', '38 spl', '38 special'], ARRAY['(?:^|\s|\W)\.?\s?38\s?special\b|38\s?spl\b'], ARRAY['revolver'], NULL, true, 40),
+  ('caliber_357_magnum', '.357 Magnum', '.357 Magnum', 'HANDGUN'::"CaliberCategory", ARRAY['.357 mag', '357 mag', '357 magnum'], ARRAY['(?:^|\s|\W)\.?\s?357\s?mag\b|357\s?magnum\b'], ARRAY['revolver'], NULL, true, 50),
+  ('caliber_357_sig', '.357 SIG', '.357 SIG', 'HANDGUN'::"CaliberCategory", ARRAY['357 sig'], ARRAY['(?:^|\s|\W)\.?\s?357\s?sig\b|357\s?sig\b'], '{}', NULL, false, 60),
+  ('caliber_10mm_auto', '10mm Auto', '10mm Auto', 'HANDGUN'::"CaliberCategory", ARRAY['10mm'], ARRAY['\b10\s?mm|10mm\s?auto\b'], '{}', NULL, true, 70),
+  ('caliber_380_acp', '.380 ACP', '.380 ACP', 'HANDGUN'::"CaliberCategory", ARRAY['.380', '380 acp', '.380acp', '.380 auto'], ARRAY['(?:^|\s|\W)\.?\s?380\s?acp\b|380\s?auto\b'], '{}', NULL, true, 80),
+  ('caliber_32_acp', '.32 ACP', '.32 ACP', 'HANDGUN'::"CaliberCategory", ARRAY['32 acp', '.32acp', '.32 auto', '7.65mm'], ARRAY['(?:^|\s|\W)\.?\s?32\s?acp\b|32\s?auto\b'], '{}', NULL, true, 90),
+  ('caliber_25_acp', '.25 ACP', '.25 ACP', 'HANDGUN'::"CaliberCategory", ARRAY['25 acp', '.25acp', '.25 auto'], ARRAY['(?:^|\s|\W)\.?\s?25\s?acp\b|25\s?auto\b'], '{}', NULL, true, 100),
+  ('caliber_45_colt', '.45 Colt', '.45 Colt', 'HANDGUN'::"CaliberCategory", ARRAY['45 colt', '45 long colt', '.45 long colt', '45 lc'], '{}', '{}', NULL, true, 110),
+  ('caliber_44_magnum', '.44 Magnum', '.44 Magnum', 'HANDGUN'::"CaliberCategory", ARRAY['.44 mag', '44 mag', '44 magnum'], '{}', ARRAY['revolver'], NULL, false, 120),
+  ('caliber_22_lr', '.22 LR', '.22 LR', 'RIMFIRE'::"CaliberCategory", ARRAY['.22', '22 lr', '.22lr', '22lr', '.22 long rifle'], ARRAY['(?:^|\s|\W)\.?\s?22\s?lr\b|22\s?long\s?rifle\b'], '{}', NULL, true, 130),
+  ('caliber_22_wmr', '.22 WMR', '.22 WMR', 'RIMFIRE'::"CaliberCategory", ARRAY['22 wmr', '22 mag', '.22 mag', '22 magnum', '.22 magnum'], ARRAY['(?:^|\s|\W)\.?\s?22\s?wmr\b|22\s?win(?:chester)?\s?mag(?:num)?\b|22\s?magnum\b'], '{}', NULL, true, 140),
+  ('caliber_22_short', '.22 Short', '.22 Short', 'RIMFIRE'::"CaliberCategory", '{}', ARRAY['(?:^|\s|\W)\.?\s?22\s?short\b'], '{}', NULL, false, 150),
+  ('caliber_17_hmr', '.17 HMR', '.17 HMR', 'RIMFIRE'::"CaliberCategory", ARRAY['17 hmr', '.17 hornady magnum'], ARRAY['(?:^|\s|\W)\.?\s?17\s?hmr\b|17\s?hornady\s?mag(?:num)?\b'], '{}', NULL, true, 160),
+  ('caliber_17_wsm', '.17 WSM', '.17 WSM', 'RIMFIRE'::"CaliberCategory", '{}', ARRAY['(?:^|\s|\W)\.?\s?17\s?wsm\b|17\s?win(?:chester)?\s?super\s?mag\b'], '{}', NULL, false, 170),
+  ('caliber_22_hornet', '.22 Hornet', '.22 Hornet', 'RIMFIRE'::"CaliberCategory", '{}', ARRAY['(?:^|\s|\W)\.?\s?22\s?hornet\b'], '{}', NULL, false, 180),
+  ('caliber_223_5_56', '.223/5.56', '.223 / 5.56', 'RIFLE'::"CaliberCategory", '{}', '{}', ARRAY['ar15', 'ar-15', 'mini-14'], '{"light":[55],"medium":[62,64],"heavy":[69,77]}'::jsonb, true, 190),
+  ('caliber_5_56_nato', '5.56 NATO', '5.56 NATO', 'RIFLE'::"CaliberCategory", ARRAY['5.56', '5.56mm', '5.56x45', '5.56x45mm', '5.56x45 nato', '5.56x45mm nato'], ARRAY['\b5\.56(?:\s?mm)?(?:\s?nato)?\b|5\.56x45(?:mm)?\b'], '{}', NULL, false, 200),
+  ('caliber_223_remington', '.223 Remington', '.223 Remington', 'RIFLE'::"CaliberCategory", ARRAY['.223', '.223 rem', '223 rem', '223 remington'], ARRAY['(?:^|\s|\W)\.?\s?223\s?rem(?:ington)?\b'], '{}', NULL, false, 210),
+  ('caliber_7_62x39', '7.62x39', '7.62x39', 'RIFLE'::"CaliberCategory", '{}', '{}', ARRAY['ak47', 'ak-47', 'sks'], NULL, true, 220),
+  ('caliber_7_62x39mm', '7.62x39mm', '7.62x39mm', 'RIFLE'::"CaliberCategory", '{}', ARRAY['\b7\.62x39(?:mm)?\b'], '{}', NULL, false, 230),
+  ('caliber_308_7_62x51', '.308/7.62x51', '.308 / 7.62x51', 'RIFLE'::"CaliberCategory", '{}', '{}', ARRAY['ar10', 'ar-10', 'm1a'], '{"light":[147,150],"medium":[165,168],"heavy":[175,180]}'::jsonb, true, 240),
+  ('caliber_308_winchester', '.308 Winchester', '.308 Winchester', 'RIFLE'::"CaliberCategory", ARRAY['.308', '.308 win', '308 win', '308 winchester', '7.62 nato', '7.62x51', '7.62x51mm', '7.62x51 nato', '7.62x51mm nato'], ARRAY['\b7\.62\s?nato|7\.62x51|(?:^|\s|\W)\.?\s?308\s?win(?:chester)?\b'], '{}', NULL, false, 250),
+  ('caliber_7_62x54r', '7.62x54R', '7.62x54R', 'RIFLE'::"CaliberCategory", ARRAY['7.62x54'], ARRAY['\b7\.62x54r\b'], ARRAY['mosin nagant'], NULL, false, 260),
+  ('caliber_30_06', '.30-06', '.30-06', 'RIFLE'::"CaliberCategory", '{}', '{}', ARRAY['m1 garand'], NULL, true, 270),
+  ('caliber_30_06_springfield', '.30-06 Springfield', '.30-06 Springfield', 'RIFLE'::"CaliberCategory", ARRAY['30-06', '30-06 springfield', '.30-06 sprg'], ARRAY['(?:^|\s|\W)\.?\s?30-06\b|30-06\s?springfield\b'], '{}', NULL, false, 280),
+  ('caliber_30_carbine', '.30 Carbine', '.30 Carbine', 'RIFLE'::"CaliberCategory", '{}', ARRAY['(?:^|\s|\W)\.?\s?30\s?carbine\b|30\s?carbine\b'], '{}', NULL, false, 290),
+  ('caliber_300_aac_blackout', '.300 AAC Blackout', '.300 Blackout', 'RIFLE'::"CaliberCategory", '{}', '{}', '{}', NULL, true, 300),
+  ('caliber_300_blackout', '.300 Blackout', '.300 Blackout', 'RIFLE'::"CaliberCategory", ARRAY['300 blackout', '.300 blk', '300 blk', '.300 aac', '300 aac', '300 aac blackout'], ARRAY['(?:^|\s|\W)\.?\s?300\s?(?:aac\s*)?blk\b|300\s?(?:aac\s*)?blackout\b'], '{}', NULL, false, 310),
+  ('caliber_300_winchester_magnum', '.300 Winchester Magnum', '.300 Winchester Magnum', 'RIFLE'::"CaliberCategory", ARRAY['.300 win mag', '300 win mag'], ARRAY['(?:^|\s|\W)\.?\s?300\s?win\s?mag\b|300\s?winchester\s?mag\b'], '{}', NULL, false, 320),
+  ('caliber_300_weatherby', '.300 Weatherby', '.300 Weatherby', 'RIFLE'::"CaliberCategory", '{}', ARRAY['(?:^|\s|\W)\.?\s?300\s?wby\b|300\s?weatherby\b'], '{}', NULL, false, 330),
+  ('caliber_6_5_creedmoor', '6.5 Creedmoor', '6.5 Creedmoor', 'RIFLE'::"CaliberCategory", ARRAY['6.5mm creedmoor', '6.5 cm'], ARRAY['\b6\.5\s?creedmoor|6\.5\s?cm\b'], '{}', NULL, true, 340),
+  ('caliber_6_5_grendel', '6.5 Grendel', '6.5 Grendel', 'RIFLE'::"CaliberCategory", '{}', ARRAY['\b6\.5\s?grendel\b'], '{}', NULL, false, 350),
+  ('caliber_270_winchester', '.270 Winchester', '.270 Winchester', 'RIFLE'::"CaliberCategory", ARRAY['.270 win', '270 win', '270 winchester'], ARRAY['(?:^|\s|\W)\.?\s?270\s?win(?:chester)?\b'], '{}', NULL, true, 360),
+  ('caliber_243_winchester', '.243 Winchester', '.243 Winchester', 'RIFLE'::"CaliberCategory", ARRAY['.243 win', '243 win', '243 winchester'], ARRAY['(?:^|\s|\W)\.?\s?243\s?win(?:chester)?\b'], '{}', NULL, true, 370),
+  ('caliber_30_30_winchester', '.30-30 Winchester', '.30-30 Winchester', 'RIFLE'::"CaliberCategory", ARRAY['30-30', '.30-30', '30-30 win', '.30-30 win', '30-30 winchester'], '{}', '{}', NULL, true, 380),
+  ('caliber_5_45x39mm', '5.45x39mm', '5.45x39mm', 'RIFLE'::"CaliberCategory", ARRAY['5.45x39'], '{}', ARRAY['ak74', 'ak-74'], NULL, false, 390),
+  ('caliber_50_bmg', '.50 BMG', '.50 BMG', 'RIFLE'::"CaliberCategory", '{}', ARRAY['(?:^|\s|\W)\.?\s?50\s?bmg\b|50\s?bmg\b'], '{}', NULL, false, 400),
+  ('caliber_12ga', '12ga', '12 Gauge', 'SHOTGUN'::"CaliberCategory", '{}', '{}', ARRAY['shotgun', 'mossberg 500', 'remington 870', 'benelli m4'], NULL, true, 410),
+  ('caliber_12_gauge', '12 Gauge', '12 Gauge', 'SHOTGUN'::"CaliberCategory", ARRAY['12 ga', '12g'], ARRAY['\b12\s?ga|12\s?gauge\b'], '{}', NULL, false, 420),
+  ('caliber_20ga', '20ga', '20 Gauge', 'SHOTGUN'::"CaliberCategory", '{}', '{}', ARRAY['shotgun', 'mossberg 500', 'remington 870'], NULL, true, 430),
+  ('caliber_20_gauge', '20 Gauge', '20 Gauge', 'SHOTGUN'::"CaliberCategory", ARRAY['20 ga', '20g'], ARRAY['\b20\s?ga|20\s?gauge\b'], '{}', NULL, false, 440),
+  ('caliber_16ga', '16ga', '16 Gauge', 'SHOTGUN'::"CaliberCategory", '{}', '{}', '{}', NULL, true, 450),
+  ('caliber_16_gauge', '16 Gauge', '16 Gauge', 'SHOTGUN'::"CaliberCategory", ARRAY['16 ga', '16g'], ARRAY['\b16\s?ga|16\s?gauge\b'], '{}', NULL, false, 460),
+  ('caliber_28_gauge', '28 Gauge', '28 Gauge', 'SHOTGUN'::"CaliberCategory", ARRAY['28ga', '28 ga'], ARRAY['\b28\s?ga|28\s?gauge\b'], '{}', NULL, false, 470),
+  ('caliber_410_bore', '.410 Bore', '.410 Bore', 'SHOTGUN'::"CaliberCategory", ARRAY['.410', '410', '410 bore'], ARRAY['\b\.410\s?bore|410\s?bore\b'], '{}', NULL, true, 480),
+  ('caliber_other', 'Other', 'Other', 'OTHER'::"CaliberCategory", ARRAY['unknown'], '{}', '{}', NULL, true, 490)
+) AS v;
+
+-- Families
+UPDATE "calibers" SET "parentId" = 'caliber_223_5_56' WHERE "id" = 'caliber_5_56_nato';
+UPDATE "calibers" SET "parentId" = 'caliber_223_5_56' WHERE "id" = 'caliber_223_remington';
+UPDATE "calibers" SET "parentId" = 'caliber_7_62x39' WHERE "id" = 'caliber_7_62x39mm';
+UPDATE "calibers" SET "parentId" = 'caliber_308_7_62x51' WHERE "id" = 'caliber_308_winchester';
+UPDATE "calibers" SET "parentId" = 'caliber_30_06' WHERE "id" = 'caliber_30_06_springfield';
+UPDATE "calibers" SET "parentId" = 'caliber_300_aac_blackout' WHERE "id" = 'caliber_300_blackout';
+UPDATE "calibers" SET "parentId" = 'caliber_12ga' WHERE "id" = 'caliber_12_gauge';
+UPDATE "calibers" SET "parentId" = 'caliber_20ga' WHERE "id" = 'caliber_20_gauge';
+UPDATE "calibers" SET "parentId" = 'caliber_16ga' WHERE "id" = 'caliber_16_gauge';
+
+-- Version 1
+INSERT INTO "caliber_taxonomy_versions" ("summary", "snapshot", "createdBy")
+SELECT 'Seeded built-in taxonomy', COALESCE(jsonb_agg(to_jsonb(c) ORDER BY c."sortOrder"), '[]'::jsonb), 'system'
+FROM "calibers" c;
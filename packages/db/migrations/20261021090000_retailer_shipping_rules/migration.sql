@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "retailer_shipping_rules" (
+    "id" TEXT NOT NULL,
+    "retailerId" TEXT NOT NULL,
+    "shippingType" "ShippingType" NOT NULL DEFAULT 'UNKNOWN',
+    "flatRate" DECIMAL(10,2),
+    "perUnitRate" DECIMAL(10,2),
+    "freeShippingMinimum" DECIMAL(10,2),
+    "stateSurcharges" JSONB,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+
+    CONSTRAINT "retailer_shipping_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retailer_shipping_rules_retailerId_key" ON "retailer_shipping_rules"("retailerId");
+
+-- AddForeignKey
+ALTER TABLE "retailer_shipping_rules" ADD CONSTRAINT "retailer_shipping_rules_retailerId_fkey" FOREIGN KEY ("retailerId") REFERENCES "retailers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ShippingRestrictionReason" AS ENUM ('NO_SHIP', 'IN_PERSON_PICKUP', 'FFL_REQUIRED', 'BACKGROUND_CHECK');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "shipToState" VARCHAR(2);
+
+-- CreateTable
+CREATE TABLE "retailer_shipping_restrictions" (
+    "id" TEXT NOT NULL,
+    "retailerId" TEXT NOT NULL,
+    "state" VARCHAR(2) NOT NULL,
+    "reason" "ShippingRestrictionReason" NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+
+    CONSTRAINT "retailer_shipping_restrictions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "retailer_shipping_restrictions_state_idx" ON "retailer_shipping_restrictions"("state");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retailer_shipping_restrictions_retailerId_state_key" ON "retailer_shipping_restrictions"("retailerId", "state");
+
+-- AddForeignKey
+ALTER TABLE "retailer_shipping_restrictions" ADD CONSTRAINT "retailer_shipping_restrictions_retailerId_fkey" FOREIGN KEY ("retailerId") REFERENCES "retailers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "user_lenses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "eligibility" JSONB NOT NULL DEFAULT '[]',
+    "ordering" JSONB NOT NULL,
+    "revision" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_lenses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_lenses_userId_idx" ON "user_lenses"("userId");
+
+-- AddForeignKey
+ALTER TABLE "user_lenses" ADD CONSTRAINT "user_lenses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "embeddingModel" TEXT;
+
+-- Existing embeddings were all generated with OpenAI text-embedding-3-small
+UPDATE "products" SET "embeddingModel" = 'text-embedding-3-small' WHERE "embedding" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "products_embeddingModel_idx" ON "products"("embeddingModel");
@@ -0,0 +1,16 @@
+-- Lexical retrieval for hybrid search (apps/api ai-search/hybrid-search.ts).
+-- Expression indexes over name/brand/caliber; the expression must match
+-- LEXICAL_DOCUMENT_SQL exactly or the planner will not use them.
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex: full-text (prefix-matched tsquery)
+CREATE INDEX "products_lexical_tsv_idx" ON "products" USING GIN (
+  to_tsvector('simple', lower(coalesce("name", '') || ' ' || coalesce("brand", '') || ' ' || coalesce("caliber", '')))
+);
+
+-- CreateIndex: trigram (typo-tolerant word similarity, <% operator)
+CREATE INDEX "products_lexical_trgm_idx" ON "products" USING GIN (
+  (lower(coalesce("name", '') || ' ' || coalesce("brand", '') || ' ' || coalesce("caliber", ''))) gin_trgm_ops
+);
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "PriceHistoryScope" AS ENUM ('PRODUCT', 'CALIBER');
+
+-- CreateTable
+CREATE TABLE "price_history_daily" (
+    "scopeType" "PriceHistoryScope" NOT NULL,
+    "scopeKey" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "minPpr" DECIMAL(10,4) NOT NULL,
+    "p10Ppr" DECIMAL(10,4) NOT NULL,
+    "medianPpr" DECIMAL(10,4) NOT NULL,
+    "p90Ppr" DECIMAL(10,4) NOT NULL,
+    "maxPpr" DECIMAL(10,4) NOT NULL,
+    "sampleCount" INTEGER NOT NULL,
+    "retailerCount" INTEGER NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_history_daily_pkey" PRIMARY KEY ("scopeType","scopeKey","day")
+);
+
+-- CreateIndex
+CREATE INDEX "price_history_daily_day_idx" ON "price_history_daily"("day");
@@ -0,0 +1,39 @@
+-- Per-source extraction rules with version history
+
+-- CreateTable
+CREATE TABLE "source_extraction_rule_versions" (
+    "id" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB,
+    "summary" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "source_extraction_rule_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "source_extraction_rule_versions_sourceId_version_key" ON "source_extraction_rule_versions"("sourceId", "version");
+
+-- AddForeignKey
+ALTER TABLE "source_extraction_rule_versions" ADD CONSTRAINT "source_extraction_rule_versions_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "sources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "sources" ADD COLUMN "extractionRules" JSONB,
+ADD COLUMN "extractionRulesVersionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sources_extractionRulesVersionId_key" ON "sources"("extractionRulesVersionId");
+
+-- AddForeignKey
+ALTER TABLE "sources" ADD CONSTRAINT "sources_extractionRulesVersionId_fkey" FOREIGN KEY ("extractionRulesVersionId") REFERENCES "source_extraction_rule_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "extractionRulesVersionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "executions_extractionRulesVersionId_idx" ON "executions"("extractionRulesVersionId");
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_extractionRulesVersionId_fkey" FOREIGN KEY ("extractionRulesVersionId") REFERENCES "source_extraction_rule_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
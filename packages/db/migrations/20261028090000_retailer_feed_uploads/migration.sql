@@ -0,0 +1,46 @@
+-- Merchant file uploads for UPLOAD feeds
+
+-- CreateEnum
+CREATE TYPE "FeedUploadStatus" AS ENUM ('UPLOADING', 'COMPLETE', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "retailer_feed_uploads" (
+    "id" TEXT NOT NULL,
+    "feedId" TEXT NOT NULL,
+    "retailerId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT,
+    "sizeBytes" INTEGER NOT NULL,
+    "receivedChunks" INTEGER NOT NULL DEFAULT 0,
+    "receivedBytes" INTEGER NOT NULL DEFAULT 0,
+    "sha256" TEXT,
+    "storageKey" TEXT NOT NULL,
+    "status" "FeedUploadStatus" NOT NULL DEFAULT 'UPLOADING',
+    "uploadedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "retailer_feed_uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retailer_feed_uploads_storageKey_key" ON "retailer_feed_uploads"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "retailer_feed_uploads_feedId_status_completedAt_idx" ON "retailer_feed_uploads"("feedId", "status", "completedAt");
+
+-- CreateIndex
+CREATE INDEX "retailer_feed_uploads_status_createdAt_idx" ON "retailer_feed_uploads"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "retailer_feed_uploads" ADD CONSTRAINT "retailer_feed_uploads_feedId_fkey" FOREIGN KEY ("feedId") REFERENCES "retailer_feeds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "retailer_feed_runs" ADD COLUMN "uploadId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "retailer_feed_runs_uploadId_idx" ON "retailer_feed_runs"("uploadId");
+
+-- AddForeignKey
+ALTER TABLE "retailer_feed_runs" ADD CONSTRAINT "retailer_feed_runs_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "retailer_feed_uploads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
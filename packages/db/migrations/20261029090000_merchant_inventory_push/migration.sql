@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "FeedAccessType" ADD VALUE 'PUSH';
+
+-- CreateTable
+CREATE TABLE "merchant_api_keys" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "merchantUserId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_api_keys_keyHash_key" ON "merchant_api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "merchant_api_keys_merchantId_idx" ON "merchant_api_keys"("merchantId");
+
+-- CreateIndex
+CREATE INDEX "merchant_api_keys_merchantUserId_idx" ON "merchant_api_keys"("merchantUserId");
+
+-- AddForeignKey
+ALTER TABLE "merchant_api_keys" ADD CONSTRAINT "merchant_api_keys_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_api_keys" ADD CONSTRAINT "merchant_api_keys_merchantUserId_fkey" FOREIGN KEY ("merchantUserId") REFERENCES "merchant_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "retailer_feed_runs" ADD COLUMN "apiKeyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "retailer_feed_runs_apiKeyId_idx" ON "retailer_feed_runs"("apiKeyId");
+
+-- AddForeignKey
+ALTER TABLE "retailer_feed_runs" ADD CONSTRAINT "retailer_feed_runs_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "merchant_api_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
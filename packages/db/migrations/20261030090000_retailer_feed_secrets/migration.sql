@@ -0,0 +1,7 @@
+-- Retailer feed passwords move to secretCiphertext (@ironscout/crypto).
+-- Existing plaintext passwords are encrypted, and the column cleared, by
+-- `pnpm --filter harvester secrets:rotate`, which needs the credential key.
+
+-- AlterTable
+ALTER TABLE "retailer_feeds" ADD COLUMN "secretCiphertext" BYTEA,
+ADD COLUMN "secretVersion" INTEGER NOT NULL DEFAULT 1;
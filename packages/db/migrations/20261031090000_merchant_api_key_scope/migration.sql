@@ -0,0 +1,11 @@
+-- Merchant API keys act for the merchant. The creating user is kept for
+-- audit and cleared, not cascaded, when the user is removed.
+
+-- DropForeignKey
+ALTER TABLE "merchant_api_keys" DROP CONSTRAINT "merchant_api_keys_merchantUserId_fkey";
+
+-- AlterTable
+ALTER TABLE "merchant_api_keys" ALTER COLUMN "merchantUserId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "merchant_api_keys" ADD CONSTRAINT "merchant_api_keys_merchantUserId_fkey" FOREIGN KEY ("merchantUserId") REFERENCES "merchant_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
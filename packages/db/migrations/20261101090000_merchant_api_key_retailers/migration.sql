@@ -0,0 +1,54 @@
+-- Merchant API keys are scoped to explicit retailers, and each retailer has
+-- at most one inventory push source.
+
+-- CreateTable
+CREATE TABLE "merchant_api_key_retailers" (
+    "id" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "merchantRetailerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_api_key_retailers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_api_key_retailers_apiKeyId_merchantRetailerId_key" ON "merchant_api_key_retailers"("apiKeyId", "merchantRetailerId");
+
+-- CreateIndex
+CREATE INDEX "merchant_api_key_retailers_merchantRetailerId_idx" ON "merchant_api_key_retailers"("merchantRetailerId");
+
+-- AddForeignKey
+ALTER TABLE "merchant_api_key_retailers" ADD CONSTRAINT "merchant_api_key_retailers_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "merchant_api_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_api_key_retailers" ADD CONSTRAINT "merchant_api_key_retailers_merchantRetailerId_fkey" FOREIGN KEY ("merchantRetailerId") REFERENCES "merchant_retailers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing keys get the retailers their creator can push for
+-- (owners and admins: every active retailer; others: EDITOR or ADMIN
+-- assignments). Keys whose creator was removed get no scope.
+INSERT INTO "merchant_api_key_retailers" ("id", "apiKeyId", "merchantRetailerId", "createdAt")
+SELECT gen_random_uuid()::text, k."id", mr."id", NOW()
+FROM "merchant_api_keys" k
+JOIN "merchant_users" u ON u."id" = k."merchantUserId"
+JOIN "merchant_retailers" mr ON mr."merchantId" = k."merchantId" AND mr."status" = 'ACTIVE'
+WHERE u."role" IN ('OWNER', 'ADMIN')
+   OR EXISTS (
+     SELECT 1 FROM "merchant_user_retailers" mur
+     WHERE mur."merchantUserId" = u."id"
+       AND mur."merchantRetailerId" = mr."id"
+       AND mur."role" IN ('EDITOR', 'ADMIN')
+   );
+
+-- AlterTable
+ALTER TABLE "sources" ADD COLUMN "pushRetailerId" TEXT;
+
+-- Backfill: the oldest push source per retailer becomes its push source
+UPDATE "sources" SET "pushRetailerId" = "retailerId"
+WHERE "id" IN (
+  SELECT DISTINCT ON ("retailerId") "id" FROM "sources"
+  WHERE "url" = 'push://inventory-api'
+  ORDER BY "retailerId", "createdAt"
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sources_pushRetailerId_key" ON "sources"("pushRetailerId");
@@ -0,0 +1,17 @@
+-- SMS numbers must be confirmed with a one-time code before alerts are sent
+-- to them. Existing numbers were never verified, so they move to pending and
+-- stop receiving alerts until the user confirms them.
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "smsVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "smsPendingPhoneNumber" TEXT,
+ADD COLUMN     "smsCodeHash" TEXT,
+ADD COLUMN     "smsCodeSentAt" TIMESTAMP(3),
+ADD COLUMN     "smsCodeAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- Unverified numbers become pending
+UPDATE "users"
+SET "smsPendingPhoneNumber" = "smsPhoneNumber",
+    "smsPhoneNumber" = NULL,
+    "smsOptInAt" = NULL
+WHERE "smsPhoneNumber" IS NOT NULL;
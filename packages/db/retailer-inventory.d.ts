@@ -0,0 +1,42 @@
+export type RecordLane = 'INDEXABLE' | 'QUARANTINE' | 'REJECT'
+
+export interface RecordClassificationError {
+  field: string
+  code: 'MISSING_UPC' | 'MISSING_TITLE' | 'INVALID_PRICE'
+  message: string
+  rawValue?: unknown
+}
+
+export interface RecordClassification {
+  lane: RecordLane
+  isIndexable: boolean
+  errors: RecordClassificationError[]
+}
+
+/** Fields of a parsed feed record that classification reads */
+export interface ClassifiableRecord {
+  upc?: string
+  title: string
+  price: number
+  rawRow: Record<string, unknown>
+}
+
+export interface ContentHashFields {
+  price?: number
+  inStock?: boolean
+  description?: string
+  imageUrl?: string
+  caliber?: string
+  grainWeight?: number
+  roundCount?: number
+  brand?: string
+  bulletType?: string
+  caseType?: string
+}
+
+export declare const RECORD_LANES: RecordLane[]
+
+export declare function validateUPC(upc: string | undefined): string | null
+export declare function classifyFeedRecord(record: ClassifiableRecord): RecordClassification
+export declare function generateSkuHash(title: string, upc?: string, sku?: string): string
+export declare function generateContentHash(record: ContentHashFields): string
@@ -0,0 +1,117 @@
+/**
+ * Retailer Inventory Rules
+ *
+ * Record validation and SKU identity for retailer inventory, shared by the
+ * harvester feed connectors and the merchant inventory push API so a pushed
+ * record is classified and keyed exactly like the same row in a polled feed.
+ */
+
+import { createHash } from 'node:crypto'
+
+/** Lanes a parsed record can take (see classifyFeedRecord) */
+export const RECORD_LANES = ['INDEXABLE', 'QUARANTINE', 'REJECT']
+
+/**
+ * Validate and normalize UPC
+ * Returns null if invalid, normalized UPC string if valid
+ */
+export function validateUPC(upc) {
+  if (!upc) return null
+
+  // Remove common prefixes and clean
+  let cleaned = upc.replace(/^(UPC:|GTIN:)/i, '').trim()
+  cleaned = cleaned.replace(/[^0-9]/g, '')
+
+  // Valid UPC lengths: 8 (UPC-E), 12 (UPC-A), 13 (EAN-13), 14 (GTIN-14)
+  if (cleaned.length >= 8 && cleaned.length <= 14) {
+    return cleaned
+  }
+
+  return null
+}
+
+/**
+ * Classify a mapped record.
+ *
+ * - INDEXABLE: valid UPC, title and positive price -> retailer_skus
+ * - QUARANTINE: title and price but no valid UPC -> quarantined_records
+ * - REJECT: missing title or price
+ *
+ * Returns the blocking errors to append to the record's mapping errors.
+ */
+export function classifyFeedRecord(record) {
+  const errors = []
+  const hasValidUPC = !!record.upc
+  const hasRequiredFields = !!record.title && record.price > 0
+
+  if (!hasValidUPC) {
+    errors.push({
+      field: 'upc',
+      code: 'MISSING_UPC',
+      message: 'Missing or invalid UPC - record will be quarantined',
+      rawValue: record.rawRow['upc'] || record.rawRow['UPC'],
+    })
+  }
+  if (!record.title) {
+    errors.push({
+      field: 'title',
+      code: 'MISSING_TITLE',
+      message: 'Missing product title',
+    })
+  }
+  if (!record.price || record.price <= 0) {
+    errors.push({
+      field: 'price',
+      code: 'INVALID_PRICE',
+      message: 'Missing or invalid price',
+      rawValue: record.rawRow['price'] || record.rawRow['Price'],
+    })
+  }
+
+  const isIndexable = hasValidUPC && hasRequiredFields
+  const lane = isIndexable ? 'INDEXABLE' : hasRequiredFields ? 'QUARANTINE' : 'REJECT'
+
+  return { lane, isIndexable, errors }
+}
+
+/**
+ * Identity hash for a retailer SKU - stable across price changes.
+ * Price is state, not identity.
+ */
+export function generateSkuHash(title, upc, sku) {
+  const components = [
+    title.toLowerCase().trim(),
+    upc || '',
+    sku || '',
+  ]
+
+  const hash = createHash('sha256')
+    .update(components.join('|'))
+    .digest('hex')
+
+  return hash.substring(0, 32)
+}
+
+/**
+ * Hash of the mutable fields, used to detect when a SKU changed.
+ */
+export function generateContentHash(record) {
+  const components = [
+    record.price != null ? String(record.price) : '',
+    record.inStock != null ? String(record.inStock) : '',
+    record.description || '',
+    record.imageUrl || '',
+    record.caliber || '',
+    record.grainWeight != null ? String(record.grainWeight) : '',
+    record.roundCount != null ? String(record.roundCount) : '',
+    record.brand || '',
+    record.bulletType || '',
+    record.caseType || '',
+  ]
+
+  const hash = createHash('sha256')
+    .update(components.join('|'))
+    .digest('hex')
+
+  return hash.substring(0, 32)
+}
@@ -0,0 +1,53 @@
+import type { Prisma, BulletType } from './generated/prisma/client.js'
+
+/**
+ * Structured filters of a saved search (QuerySnapshotV1.filters).
+ */
+export interface SavedSearchFilters {
+  caliber?: string[]
+  brand?: string[]
+  bulletType?: BulletType[]
+  grainRange?: { min?: number; max?: number }
+  /** Box (listing) price range */
+  priceRange?: { min?: number; max?: number }
+  maxPricePerRound?: number
+}
+
+export interface SavedSearchProduct {
+  caliberNorm?: string | null
+  brand?: string | null
+  bulletType?: BulletType | null
+  grainWeight?: number | null
+}
+
+export interface SavedSearchOffer {
+  price: number
+  inStock: boolean
+}
+
+/**
+ * Prisma where clause for products whose attributes pass the saved search filters.
+ */
+export declare function savedSearchProductWhere(filters?: SavedSearchFilters): Prisma.productsWhereInput
+
+/**
+ * In-memory equivalent of savedSearchProductWhere for a single product.
+ */
+export declare function productMatchesSavedSearch(
+  product: SavedSearchProduct,
+  filters?: SavedSearchFilters
+): boolean
+
+/**
+ * Whether one offer passes the saved search price filters.
+ */
+export declare function offerMatchesSavedSearch(
+  offer: SavedSearchOffer,
+  roundCount: number | null,
+  filters?: SavedSearchFilters
+): boolean
+
+/**
+ * Whether the saved search has a price ceiling an offer can cross.
+ */
+export declare function hasSavedSearchPriceCeiling(filters?: SavedSearchFilters): boolean
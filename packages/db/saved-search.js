@@ -0,0 +1,122 @@
+/**
+ * Shared Saved Search Predicates (SEARCH intent, ADR-011A)
+ *
+ * A saved search matches a product when:
+ * 1. The product's attributes pass the structured filters (caliber, brand,
+ *    bullet type, grain range), and
+ * 2. At least one current in-stock offer passes the price filters
+ *    (box price range, max price per round).
+ *
+ * searchText and lens are kept on the snapshot to replay the search in the UI;
+ * they do not affect matching.
+ *
+ * CRITICAL: apps/api (resolver) and apps/harvester (alerter) MUST use these
+ * predicates so "current matches" and "starts matching" agree. Do NOT duplicate.
+ */
+
+/**
+ * Prisma where clause for products whose attributes pass the saved search filters.
+ *
+ * Caliber uses caliberNorm with a case-insensitive contains, the same as the
+ * search service caliber filter.
+ *
+ * @returns Prisma.productsWhereInput
+ */
+export function savedSearchProductWhere(filters = {}) {
+  const conditions = []
+
+  if (filters.caliber?.length) {
+    conditions.push({
+      OR: filters.caliber.map((caliber) => ({
+        caliberNorm: { contains: caliber, mode: 'insensitive' },
+      })),
+    })
+  }
+
+  if (filters.brand?.length) {
+    conditions.push({
+      OR: filters.brand.map((brand) => ({
+        brand: { equals: brand, mode: 'insensitive' },
+      })),
+    })
+  }
+
+  if (filters.bulletType?.length) {
+    conditions.push({ bulletType: { in: filters.bulletType } })
+  }
+
+  const grain = filters.grainRange
+  if (grain && (grain.min != null || grain.max != null)) {
+    conditions.push({
+      grainWeight: {
+        ...(grain.min != null ? { gte: grain.min } : {}),
+        ...(grain.max != null ? { lte: grain.max } : {}),
+      },
+    })
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {}
+}
+
+/**
+ * In-memory equivalent of savedSearchProductWhere for a single product.
+ */
+export function productMatchesSavedSearch(product, filters = {}) {
+  if (filters.caliber?.length) {
+    const caliberNorm = product.caliberNorm?.toLowerCase()
+    if (!caliberNorm || !filters.caliber.some((caliber) => caliberNorm.includes(caliber.toLowerCase()))) {
+      return false
+    }
+  }
+
+  if (filters.brand?.length) {
+    const brand = product.brand?.toLowerCase()
+    if (!brand || !filters.brand.some((b) => b.toLowerCase() === brand)) {
+      return false
+    }
+  }
+
+  if (filters.bulletType?.length) {
+    if (!product.bulletType || !filters.bulletType.includes(product.bulletType)) {
+      return false
+    }
+  }
+
+  const grain = filters.grainRange
+  if (grain && (grain.min != null || grain.max != null)) {
+    if (product.grainWeight == null) return false
+    if (grain.min != null && product.grainWeight < grain.min) return false
+    if (grain.max != null && product.grainWeight > grain.max) return false
+  }
+
+  return true
+}
+
+/**
+ * Whether one offer passes the saved search price filters.
+ *
+ * Offers without a known round count cannot prove a per-round ceiling and
+ * never match one (alerts_policy_v1: if in doubt, do not send).
+ */
+export function offerMatchesSavedSearch(offer, roundCount, filters = {}) {
+  if (!offer.inStock) return false
+
+  const range = filters.priceRange
+  if (range?.min != null && offer.price < range.min) return false
+  if (range?.max != null && offer.price > range.max) return false
+
+  if (filters.maxPricePerRound != null) {
+    if (!roundCount || roundCount <= 0) return false
+    if (offer.price / roundCount > filters.maxPricePerRound) return false
+  }
+
+  return true
+}
+
+/**
+ * Whether the saved search has a price ceiling an offer can cross.
+ * Only these searches produce threshold alerts for already-known products.
+ */
+export function hasSavedSearchPriceCeiling(filters = {}) {
+  return filters.maxPricePerRound != null || filters.priceRange?.max != null
+}
@@ -0,0 +1,85 @@
+/**
+ * Search autocomplete index: built by the harvester from catalog data,
+ * stored in Redis and matched in memory by the API.
+ * See search-suggestions.js for the matching rules.
+ */
+
+import type { CaliberTaxonomy } from './caliber-taxonomy.js'
+
+export type SuggestionKind = 'BRAND' | 'CALIBER' | 'PRODUCT_LINE' | 'BULLET_TYPE' | 'PRODUCT'
+
+export declare const SUGGESTION_INDEX_KEY: string
+export declare const SUGGESTION_INDEX_VERSION_KEY: string
+export declare const SUGGESTION_KINDS: readonly SuggestionKind[]
+export declare const MAX_SUGGESTION_ENTRIES: number
+export declare const MIN_PRODUCT_LINE_PRODUCTS: number
+export declare const DEFAULT_SUGGESTION_LIMIT: number
+export declare const BULLET_TYPE_SUGGESTION_LABELS: Record<string, string>
+
+export interface SuggestionIndexEntry {
+  /** Completion shown and searched, e.g. "Federal HST 124gr 9mm" */
+  text: string
+  kind: SuggestionKind
+  /** Products behind the suggestion; ranks suggestions */
+  weight: number
+  /** Lowercase terms the suggestion is found by (text plus aliases) */
+  terms: string[]
+  /** Secondary label, e.g. "Jacketed Hollow Point" for JHP */
+  detail?: string
+}
+
+export interface SuggestionIndex {
+  /** Changes on every build; the API reloads when it changes */
+  version: string
+  builtAt: string
+  entries: SuggestionIndexEntry[]
+}
+
+/** Catalog fields the index is built from */
+export interface SuggestionProductRow {
+  name: string
+  brand: string | null
+  caliber: string | null
+  grainWeight: number | null
+  bulletType: string | null
+}
+
+export interface SuggestionBrandAliasRow {
+  aliasName: string
+  canonicalName: string
+}
+
+export interface Suggestion {
+  text: string
+  kind: SuggestionKind
+  detail?: string
+}
+
+export interface SuggestionMatcher {
+  version: string
+  /** Number of indexed suggestions */
+  size: number
+  /** Suggestions for a partial query, best first */
+  match(query: string, limit?: number): Suggestion[]
+}
+
+/** Lowercase search terms (accents and punctuation stripped) */
+export declare function tokenizeSuggestionText(text: string | null | undefined): string[]
+
+/**
+ * Product line from a product name (e.g. "HST" from "Federal Premium HST
+ * 9mm 124gr JHP"), or null when nothing but brand/caliber/spec words remain.
+ */
+export declare function deriveProductLine(
+  name: string | null | undefined,
+  excludedTerms: Set<string>
+): string | null
+
+export declare function buildSuggestionIndex(input: {
+  products: SuggestionProductRow[]
+  brandAliases?: SuggestionBrandAliasRow[]
+  taxonomy: CaliberTaxonomy
+  builtAt?: Date
+}): SuggestionIndex
+
+export declare function createSuggestionMatcher(index: SuggestionIndex): SuggestionMatcher
@@ -0,0 +1,419 @@
+/**
+ * Search Autocomplete Index
+ *
+ * Type-ahead suggestions built from catalog data: brands (plus active
+ * brand_aliases), calibers (taxonomy names and aliases), product lines,
+ * bullet types and brand + line + grain + caliber product phrases
+ * ("Federal HST 124gr 9mm").
+ *
+ * The harvester builds the index after resolver runs and stores it in Redis
+ * (SUGGESTION_INDEX_KEY, versioned by SUGGESTION_INDEX_VERSION_KEY). The API
+ * keeps a compiled matcher in memory and reloads it when the version changes,
+ * so a keystroke costs no database or Redis round trip.
+ *
+ * Matching: every query token must prefix-match a term of the suggestion
+ * ("fed hst 1" -> "Federal HST 124gr 9mm"). Tokens of 4+ characters with no
+ * prefix match fall back to one-edit fuzzy matching ("hornday" -> "hornady").
+ */
+
+export const SUGGESTION_INDEX_KEY = 'search:suggest:index'
+export const SUGGESTION_INDEX_VERSION_KEY = 'search:suggest:version'
+
+export const SUGGESTION_KINDS = ['BRAND', 'CALIBER', 'PRODUCT_LINE', 'BULLET_TYPE', 'PRODUCT']
+
+/** Cap on stored suggestions; product phrases are trimmed by weight first */
+export const MAX_SUGGESTION_ENTRIES = 20000
+
+/** A product line must appear on this many products of a brand */
+export const MIN_PRODUCT_LINE_PRODUCTS = 2
+
+export const DEFAULT_SUGGESTION_LIMIT = 8
+
+/** Bullet type codes as suggested, with the words that find them */
+export const BULLET_TYPE_SUGGESTION_LABELS = {
+  JHP: 'Jacketed Hollow Point',
+  HP: 'Hollow Point',
+  BJHP: 'Bonded Jacketed Hollow Point',
+  XTP: 'Hornady XTP',
+  HST: 'Federal HST',
+  GDHP: 'Gold Dot Hollow Point',
+  VMAX: 'V-Max',
+  FMJ: 'Full Metal Jacket',
+  TMJ: 'Total Metal Jacket',
+  CMJ: 'Complete Metal Jacket',
+  MC: 'Metal Case',
+  BALL: 'Ball',
+  SP: 'Soft Point',
+  JSP: 'Jacketed Soft Point',
+  PSP: 'Pointed Soft Point',
+  RN: 'Round Nose',
+  FPRN: 'Flat Point Round Nose',
+  FRANGIBLE: 'Frangible',
+  AP: 'Armor Piercing',
+  TRACER: 'Tracer',
+  WADCUTTER: 'Wadcutter',
+  SWC: 'Semi-Wadcutter',
+  LSWC: 'Lead Semi-Wadcutter',
+  BUCKSHOT: 'Buckshot',
+  BIRDSHOT: 'Birdshot',
+  SLUG: 'Slug',
+}
+
+// Ranking boost per kind: short, broad completions first for short queries
+const KIND_BOOST = {
+  BRAND: 3,
+  CALIBER: 3,
+  PRODUCT_LINE: 2,
+  BULLET_TYPE: 1.5,
+  PRODUCT: 0,
+}
+
+const FUZZY_MIN_LENGTH = 4
+const FUZZY_PENALTY = 1.5
+
+// Words in product names that are never part of a product line
+const LINE_STOPWORDS = new Set([
+  'ammo', 'ammunition', 'premium', 'box', 'case', 'rounds', 'round', 'rds', 'rd', 'ct', 'count',
+  'gr', 'grain', 'grains', 'per', 'of', 'the', 'and', 'with', 'for', 'new', 'bulk', 'pack',
+  'brass', 'steel', 'nickel', 'aluminum', 'cased', 'centerfire', 'rimfire', 'handgun', 'pistol',
+  'rifle', 'shotgun', 'shotshell', 'shells', 'cartridges', 'cartridge', 'fps', 'mag', 'magnum',
+  'hollow', 'point', 'hollowpoint', 'jacketed', 'full', 'metal', 'jacket', 'soft', 'lead', 'nose',
+])
+
+// Bullet type codes that are also product lines ("Federal HST")
+const LINE_BULLET_TYPES = new Set(['hst', 'xtp', 'vmax'])
+
+/**
+ * Lowercase search terms: accents stripped, punctuation dropped except
+ * decimal points inside numbers and "+" (+p).
+ */
+export function tokenizeSuggestionText(text) {
+  return String(text ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9.+]+/g, ' ')
+    .split(' ')
+    .map((token) => token.replace(/^[.+]+|\.+$/g, ''))
+    .filter(Boolean)
+}
+
+/**
+ * Index-side terms: tokens plus the parts of number-unit tokens, so
+ * "124gr" is found by "124 gr" as well as "124g".
+ */
+function indexTerms(...texts) {
+  const terms = new Set()
+  for (const text of texts) {
+    for (const token of tokenizeSuggestionText(text)) {
+      terms.add(token)
+      const parts = token.match(/^(\d+(?:\.\d+)?)([a-z]+)$/)
+      if (parts) {
+        terms.add(parts[1])
+        terms.add(parts[2])
+      }
+    }
+  }
+  return [...terms]
+}
+
+/**
+ * Product line from a product name: the first run of up to three words left
+ * after removing brand, caliber, grain, count, bullet type and filler words.
+ * Returns null when nothing is left.
+ */
+export function deriveProductLine(name, excludedTerms) {
+  const words = String(name ?? '').split(/\s+/).filter(Boolean)
+  const line = []
+
+  for (const word of words) {
+    const tokens = tokenizeSuggestionText(word)
+    const keep = tokens.length > 0 && tokens.every((token) =>
+      /^[a-z][a-z+-]*$/.test(token) &&
+      token.length > 1 &&
+      !LINE_STOPWORDS.has(token) &&
+      !excludedTerms.has(token)
+    )
+
+    if (keep) {
+      line.push(word.replace(/[^\p{L}\p{N}+-]/gu, ''))
+      if (line.length === 3) break
+    } else if (line.length > 0) {
+      break
+    }
+  }
+
+  return line.length > 0 ? line.join(' ') : null
+}
+
+function addEntry(entries, kind, text, weight, terms, detail) {
+  const key = `${kind}:${text.toLowerCase()}`
+  const existing = entries.get(key)
+  if (existing) {
+    existing.weight += weight
+    return
+  }
+  entries.set(key, {
+    text,
+    kind,
+    weight,
+    terms: indexTerms(text, ...terms),
+    ...(detail ? { detail } : {}),
+  })
+}
+
+/**
+ * Build the suggestion index from catalog rows.
+ *
+ * @param input.products - active products (name, brand, caliber, grainWeight, bulletType)
+ * @param input.brandAliases - ACTIVE brand aliases (aliasName -> canonicalName)
+ * @param input.taxonomy - caliber taxonomy (getCaliberTaxonomy())
+ * @param input.builtAt - build time, also the index version
+ */
+export function buildSuggestionIndex({ products, brandAliases = [], taxonomy, builtAt = new Date() }) {
+  const entries = new Map()
+
+  // Brand display names: the most common spelling wins
+  const brandSpellings = new Map()
+  for (const product of products) {
+    const brand = product.brand?.trim()
+    if (!brand) continue
+    const key = brand.toLowerCase()
+    const spellings = brandSpellings.get(key) ?? new Map()
+    spellings.set(brand, (spellings.get(brand) ?? 0) + 1)
+    brandSpellings.set(key, spellings)
+  }
+  const brandName = (brand) => {
+    const spellings = brandSpellings.get(brand.trim().toLowerCase())
+    if (!spellings) return brand.trim()
+    return [...spellings.entries()].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))[0][0]
+  }
+
+  const aliasesByBrand = new Map()
+  for (const alias of brandAliases) {
+    const key = alias.canonicalName.trim().toLowerCase()
+    aliasesByBrand.set(key, [...(aliasesByBrand.get(key) ?? []), alias.aliasName])
+  }
+
+  const caliberOf = (caliber) => (caliber ? taxonomy.find(caliber) ?? taxonomy.detect(caliber) : null)
+  const caliberTerms = new Set(
+    taxonomy.entries.flatMap((entry) => indexTerms(entry.name, entry.label ?? '', ...entry.aliases))
+  )
+
+  const bulletTypeTerms = Object.keys(BULLET_TYPE_SUGGESTION_LABELS)
+    .map((code) => code.toLowerCase())
+    .filter((code) => !LINE_BULLET_TYPES.has(code))
+
+  // Product lines per brand, kept once they reach MIN_PRODUCT_LINE_PRODUCTS
+  const lineCounts = new Map()
+  const productRows = []
+
+  for (const product of products) {
+    const brand = product.brand?.trim() ? brandName(product.brand) : null
+    const caliber = caliberOf(product.caliber)
+    const brandTerms = new Set(indexTerms(brand ?? '', ...(aliasesByBrand.get(brand?.toLowerCase() ?? '') ?? [])))
+    const excluded = new Set([...brandTerms, ...caliberTerms, ...bulletTypeTerms])
+    const line = brand ? deriveProductLine(product.name, excluded) : null
+
+    if (brand && line) {
+      const key = `${brand.toLowerCase()}|${line.toLowerCase()}`
+      lineCounts.set(key, (lineCounts.get(key) ?? 0) + 1)
+    }
+    productRows.push({ product, brand, caliber, line })
+  }
+
+  const isKnownLine = (brand, line) =>
+    (lineCounts.get(`${brand.toLowerCase()}|${line.toLowerCase()}`) ?? 0) >= MIN_PRODUCT_LINE_PRODUCTS
+
+  const phrases = new Map()
+  const caliberCounts = new Map()
+  const bulletTypeCounts = new Map()
+
+  for (const { product, brand, caliber, line } of productRows) {
+    if (brand) {
+      addEntry(entries, 'BRAND', brand, 1, aliasesByBrand.get(brand.toLowerCase()) ?? [])
+    }
+    if (caliber) {
+      caliberCounts.set(caliber.name, (caliberCounts.get(caliber.name) ?? 0) + 1)
+    }
+    if (product.bulletType && BULLET_TYPE_SUGGESTION_LABELS[product.bulletType]) {
+      bulletTypeCounts.set(product.bulletType, (bulletTypeCounts.get(product.bulletType) ?? 0) + 1)
+    }
+
+    const knownLine = brand && line && isKnownLine(brand, line) ? line : null
+    if (knownLine) {
+      addEntry(entries, 'PRODUCT_LINE', `${brand} ${knownLine}`, 1, aliasesByBrand.get(brand.toLowerCase()) ?? [])
+    }
+
+    // Product phrase: brand [line] [grain] caliber
+    if (brand && caliber) {
+      const text = [brand, knownLine, product.grainWeight ? `${product.grainWeight}gr` : null, caliber.name]
+        .filter(Boolean)
+        .join(' ')
+      const phrase = phrases.get(text) ?? {
+        weight: 0,
+        terms: [...(aliasesByBrand.get(brand.toLowerCase()) ?? []), ...caliber.aliases],
+      }
+      phrase.weight++
+      phrases.set(text, phrase)
+    }
+  }
+
+  for (const entry of taxonomy.entries) {
+    const label = entry.label ?? entry.name
+    addEntry(entries, 'CALIBER', label, caliberCounts.get(entry.name) ?? 0, [entry.name, ...entry.aliases])
+  }
+
+  for (const [code, count] of bulletTypeCounts) {
+    const label = BULLET_TYPE_SUGGESTION_LABELS[code]
+    addEntry(entries, 'BULLET_TYPE', code, count, [label], label)
+  }
+
+  const productEntries = [...phrases.entries()]
+    .sort((a, b) => b[1].weight - a[1].weight || (a[0] < b[0] ? -1 : 1))
+    .slice(0, Math.max(0, MAX_SUGGESTION_ENTRIES - entries.size))
+  for (const [text, phrase] of productEntries) {
+    addEntry(entries, 'PRODUCT', text, phrase.weight, phrase.terms)
+  }
+
+  return {
+    version: builtAt.toISOString(),
+    builtAt: builtAt.toISOString(),
+    entries: [...entries.values()],
+  }
+}
+
+/**
+ * Whether a is within one edit (insert, delete, substitute or adjacent
+ * transposition) of b.
+ */
+function withinOneEdit(a, b) {
+  if (a === b) return true
+  if (Math.abs(a.length - b.length) > 1) return false
+
+  let i = 0
+  while (i < a.length && i < b.length && a[i] === b[i]) i++
+
+  if (a.length === b.length) {
+    // Substitution or transposition
+    if (a.slice(i + 1) === b.slice(i + 1)) return true
+    return a[i] === b[i + 1] && a[i + 1] === b[i] && a.slice(i + 2) === b.slice(i + 2)
+  }
+  // Insertion or deletion
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1)
+}
+
+/**
+ * Compile an index for matching. Builds the sorted term vocabulary and
+ * term -> entry postings once per index version.
+ */
+export function createSuggestionMatcher(index) {
+  const entries = index.entries
+  const postings = new Map()
+
+  entries.forEach((entry, i) => {
+    for (const term of entry.terms) {
+      const list = postings.get(term)
+      if (list) list.push(i)
+      else postings.set(term, [i])
+    }
+  })
+
+  const vocabulary = [...postings.keys()].sort()
+
+  // Query-independent part of the score. Fewer terms ranks higher: prefer
+  // completions that add little beyond what was typed
+  const baseScores = entries.map((entry) =>
+    Math.log1p(entry.weight) + KIND_BOOST[entry.kind] - 0.1 * entry.terms.length
+  )
+  const firstTerms = entries.map((entry) => tokenizeSuggestionText(entry.text)[0] ?? '')
+
+  // First vocabulary index >= token
+  const lowerBound = (token) => {
+    let lo = 0
+    let hi = vocabulary.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (vocabulary[mid] < token) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  // Terms accepted for one query token: prefix matches, else one-edit
+  // matches against term prefixes of similar length
+  const acceptedTerms = (token) => {
+    const prefix = []
+    for (let i = lowerBound(token); i < vocabulary.length && vocabulary[i].startsWith(token); i++) {
+      prefix.push(vocabulary[i])
+    }
+    if (prefix.length > 0 || token.length < FUZZY_MIN_LENGTH) {
+      return { terms: prefix, fuzzy: false }
+    }
+
+    const fuzzy = vocabulary.filter((term) =>
+      withinOneEdit(token, term) ||
+      (term.length > token.length && (
+        withinOneEdit(token, term.slice(0, token.length)) ||
+        withinOneEdit(token, term.slice(0, token.length + 1))
+      ))
+    )
+    return { terms: fuzzy, fuzzy: true }
+  }
+
+  return {
+    version: index.version,
+    size: entries.length,
+
+    /**
+     * Suggestions for a partial query, best first.
+     */
+    match(query, limit = DEFAULT_SUGGESTION_LIMIT) {
+      const tokens = [...new Set(tokenizeSuggestionText(query))]
+      if (tokens.length === 0) return []
+
+      let candidates = null
+      let fuzzyTokens = 0
+
+      for (const token of tokens) {
+        const { terms, fuzzy } = acceptedTerms(token)
+        if (terms.length === 0) return []
+        if (fuzzy) fuzzyTokens++
+
+        const matched = new Set()
+        for (const term of terms) {
+          for (const i of postings.get(term)) {
+            if (!candidates || candidates.has(i)) matched.add(i)
+          }
+        }
+        candidates = matched
+        if (candidates.size === 0) return []
+      }
+
+      // Top `limit` by score without sorting every candidate: short
+      // prefixes ("b") can match most of the index
+      const firstToken = tokens[0]
+      const penalty = fuzzyTokens * FUZZY_PENALTY
+      const better = (a, b) => a.score > b.score || (a.score === b.score && entries[a.i].text < entries[b.i].text)
+      const top = []
+
+      for (const i of candidates) {
+        const candidate = { i, score: baseScores[i] + (firstTerms[i].startsWith(firstToken) ? 1 : 0) - penalty }
+        if (top.length === limit && !better(candidate, top[top.length - 1])) continue
+
+        let at = top.length
+        while (at > 0 && better(candidate, top[at - 1])) at--
+        top.splice(at, 0, candidate)
+        if (top.length > limit) top.pop()
+      }
+
+      return top
+        .map(({ i }) => entries[i])
+        .map((entry) => ({
+          text: entry.text,
+          kind: entry.kind,
+          ...(entry.detail ? { detail: entry.detail } : {}),
+        }))
+    },
+  }
+}
@@ -0,0 +1,37 @@
+import type { PrismaClient, ShippingRestrictionReason } from './generated/prisma/client.js'
+
+/** HIDE = drop offers that cannot ship, FLAG = keep them with a reason code */
+export type RestrictedOfferMode = 'HIDE' | 'FLAG'
+
+/** Reason codes, blocking first */
+export declare const SHIPPING_RESTRICTION_REASONS: readonly ShippingRestrictionReason[]
+
+export declare const RESTRICTED_OFFER_MODES: readonly RestrictedOfferMode[]
+
+export interface ShippingRestrictionInput {
+  state: string
+  reason: string
+}
+
+export declare function isShippingRestrictionReason(value: unknown): value is ShippingRestrictionReason
+
+/**
+ * Whether the reason means the offer cannot be delivered to the buyer at all
+ * (NO_SHIP, IN_PERSON_PICKUP).
+ */
+export declare function isBlockingRestriction(reason: ShippingRestrictionReason | null | undefined): boolean
+
+/**
+ * Load restrictions for the given retailers and destination state, as
+ * reason codes keyed by retailerId. Unrestricted retailers are absent.
+ */
+export declare function loadShippingRestrictions(
+  prisma: PrismaClient,
+  retailerIds: Iterable<string>,
+  state: string | null | undefined
+): Promise<Map<string, ShippingRestrictionReason>>
+
+/**
+ * Validate admin/merchant input for a restriction. Returns error messages.
+ */
+export declare function validateShippingRestrictionInput(input: ShippingRestrictionInput): string[]
@@ -0,0 +1,71 @@
+/**
+ * Shipping Restrictions
+ *
+ * Per-retailer, per-state limits on shipping ammunition
+ * (`retailer_shipping_restrictions`), used to hide or flag offers that cannot
+ * ship to the buyer's state in search, bulk planning and anywhere else offers
+ * are shown for a destination.
+ *
+ * Reason codes:
+ * - NO_SHIP           retailer does not ship to the state (blocking)
+ * - IN_PERSON_PICKUP  state requires in-person pickup (blocking)
+ * - FFL_REQUIRED      ships only to a licensed dealer (flagged)
+ * - BACKGROUND_CHECK  ships only after an ammunition background check (flagged)
+ *
+ * A state without a row is unrestricted; restrictions are never inferred.
+ */
+
+import { isUsStateCode } from './landed-cost.js'
+
+/** Reason codes, blocking first */
+export const SHIPPING_RESTRICTION_REASONS = ['NO_SHIP', 'IN_PERSON_PICKUP', 'FFL_REQUIRED', 'BACKGROUND_CHECK']
+
+/** How offers that cannot ship to the buyer are handled */
+export const RESTRICTED_OFFER_MODES = ['HIDE', 'FLAG']
+
+const REASON_SET = new Set(SHIPPING_RESTRICTION_REASONS)
+const BLOCKING_REASONS = new Set(['NO_SHIP', 'IN_PERSON_PICKUP'])
+
+export function isShippingRestrictionReason(value) {
+  return typeof value === 'string' && REASON_SET.has(value)
+}
+
+/**
+ * Whether the reason means the offer cannot be delivered to the buyer at all.
+ */
+export function isBlockingRestriction(reason) {
+  return BLOCKING_REASONS.has(reason)
+}
+
+/**
+ * Load restrictions for the given retailers and destination state, as
+ * reason codes keyed by retailerId. Unrestricted retailers are absent.
+ */
+export async function loadShippingRestrictions(prisma, retailerIds, state) {
+  const ids = [...new Set(retailerIds)].filter(Boolean)
+  const restrictions = new Map()
+  if (ids.length === 0 || !isUsStateCode(state)) return restrictions
+
+  const rows = await prisma.retailer_shipping_restrictions.findMany({
+    where: { retailerId: { in: ids }, state },
+    select: { retailerId: true, reason: true },
+  })
+  for (const row of rows) {
+    restrictions.set(row.retailerId, row.reason)
+  }
+  return restrictions
+}
+
+/**
+ * Validate admin/merchant input for a restriction. Returns error messages.
+ */
+export function validateShippingRestrictionInput(input) {
+  const errors = []
+  if (!isUsStateCode(input.state)) {
+    errors.push(`Unknown state code: ${input.state}`)
+  }
+  if (!isShippingRestrictionReason(input.reason)) {
+    errors.push(`Unknown restriction reason: ${input.reason}`)
+  }
+  return errors
+}
@@ -0,0 +1,128 @@
+/**
+ * SMS Channel - Provider Abstraction
+ *
+ * Sends text messages through a pluggable SmsProvider. The provider is picked
+ * by SMS_PROVIDER; Twilio is the only built-in implementation.
+ *
+ * Environment Variables:
+ * - SMS_PROVIDER: 'twilio' (unset disables SMS)
+ * - TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN: Twilio REST credentials
+ * - TWILIO_FROM_NUMBER: E.164 sender number or messaging service SID (MG...)
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SmsResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, body: string): Promise<SmsResult>;
+}
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Single-segment GSM length; longer bodies are truncated, not split */
+export const SMS_MAX_LENGTH = 160;
+
+/** E.164: +, country code, up to 15 digits total */
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+export function isValidPhoneNumber(value: string): boolean {
+  return E164_PATTERN.test(value);
+}
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  const endpoint = `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`;
+  const senderField = config.from.startsWith('MG') ? 'MessagingServiceSid' : 'From';
+
+  return {
+    name: 'twilio',
+    async send(to, body) {
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            Authorization: authorization,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ To: to, [senderField]: config.from, Body: body }).toString(),
+          signal: AbortSignal.timeout(config.timeoutMs ?? 10_000),
+        });
+
+        const data = (await response.json().catch(() => ({}))) as { sid?: string; message?: string };
+        if (!response.ok) {
+          return { success: false, error: data.message || `Twilio responded ${response.status}` };
+        }
+
+        return { success: true, messageId: data.sid };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: message };
+      }
+    },
+  };
+}
+
+/**
+ * Resolve the configured provider, or null when SMS is not configured
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const provider = process.env.SMS_PROVIDER?.toLowerCase();
+
+  if (provider === 'twilio') {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM_NUMBER;
+    if (!accountSid || !authToken || !from) {
+      console.error('[SMS] SMS_PROVIDER=twilio but Twilio credentials are incomplete');
+      return null;
+    }
+    return createTwilioProvider({ accountSid, authToken, from });
+  }
+
+  if (provider) {
+    console.error(`[SMS] Unknown SMS_PROVIDER "${provider}"`);
+  }
+  return null;
+}
+
+// =============================================================================
+// Core SMS Function
+// =============================================================================
+
+export async function sendSms(
+  to: string,
+  body: string,
+  provider: SmsProvider | null = getSmsProvider()
+): Promise<SmsResult> {
+  if (!provider) {
+    return { success: false, error: 'SMS provider not configured' };
+  }
+
+  if (!isValidPhoneNumber(to)) {
+    return { success: false, error: 'Phone number is not E.164' };
+  }
+
+  const text = body.length > SMS_MAX_LENGTH ? `${body.slice(0, SMS_MAX_LENGTH - 1)}…` : body;
+  return provider.send(to, text);
+}
@@ -0,0 +1,183 @@
+/**
+ * Webhook Channel - User Outbound Webhooks
+ *
+ * POSTs a JSON event to a user-registered URL (Discord, Home Assistant, custom
+ * receivers). Bodies carry a top-level `content` string so Discord webhooks
+ * render them without a translation layer.
+ *
+ * Each request is signed so receivers can verify origin:
+ *   X-IronScout-Timestamp: <unix seconds>
+ *   X-IronScout-Signature: sha256=<hex HMAC-SHA256(secret, `${timestamp}.${body}`)>
+ *
+ * URLs are user-supplied, so every request is checked where it connects: the
+ * host is resolved at send time and the request is refused if any address is
+ * private, loopback, link-local or otherwise non-public (DNS rebinding cannot
+ * slip past a check made at registration). Redirects are never followed.
+ */
+
+import { createHmac } from 'node:crypto';
+import { lookup as dnsLookup, type LookupAddress } from 'node:dns';
+import { request } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WebhookResult {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookEvent {
+  /** Event type, e.g. 'alert.price_drop' */
+  type: string;
+  /** Human-readable summary (rendered by Discord) */
+  content: string;
+  data: Record<string, unknown>;
+}
+
+export interface SendWebhookOptions {
+  url: string;
+  secret: string;
+  event: WebhookEvent;
+  timeoutMs?: number;
+}
+
+// =============================================================================
+// Core Webhook Function
+// =============================================================================
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export async function sendWebhook(options: SendWebhookOptions): Promise<WebhookResult> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = JSON.stringify({ ...options.event, timestamp: new Date().toISOString() });
+
+  let url: URL;
+  try {
+    url = new URL(options.url);
+  } catch {
+    return { success: false, error: 'Webhook URL is invalid' };
+  }
+  if (url.protocol !== 'https:') {
+    return { success: false, error: 'Webhook URL must be https' };
+  }
+  // IP literals skip DNS, so check them here
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(literal) !== 0 && !isPublicAddress(literal)) {
+    return { success: false, error: `Webhook host is not a public address (${literal})` };
+  }
+
+  try {
+    const statusCode = await postJson(url, body, options.timeoutMs ?? DEFAULT_TIMEOUT_MS, {
+      'User-Agent': 'IronScout-Webhooks/1.0',
+      'X-IronScout-Event': options.event.type,
+      'X-IronScout-Timestamp': timestamp,
+      'X-IronScout-Signature': signWebhookBody(options.secret, timestamp, body),
+    });
+
+    // 3xx included: redirects are not followed
+    if (statusCode < 200 || statusCode >= 300) {
+      return { success: false, statusCode, error: `Receiver responded ${statusCode}` };
+    }
+
+    return { success: true, statusCode };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * POST a JSON body, connecting only to public addresses
+ */
+function postJson(url: URL, body: string, timeoutMs: number, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+        },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * DNS lookup that fails when the host resolves to any non-public address
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) {
+      callback(err, '', 0);
+      return;
+    }
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Webhook host ${hostname} resolves to a non-public address (${blocked?.address ?? 'none'})`), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** Ranges webhooks may never reach (RFC 6890 special-purpose and private space) */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !NON_PUBLIC_ADDRESSES.check(address, 'ipv4');
+  // IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+  if (family === 6) return !NON_PUBLIC_ADDRESSES.check(address, 'ipv6');
+  return false;
+}
+
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
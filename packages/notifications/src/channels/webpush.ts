@@ -0,0 +1,224 @@
+/**
+ * Web Push Channel - Browser Push Notifications
+ *
+ * Sends encrypted payloads to browser push services (RFC 8030) using
+ * VAPID authentication (RFC 8292) and aes128gcm content encoding (RFC 8291).
+ * Implemented on node:crypto, so no push library is required.
+ *
+ * Setup:
+ * 1. Generate a P-256 key pair: `npx web-push generate-vapid-keys`
+ * 2. Set VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (base64url) on the harvester
+ * 3. Set the same VAPID_PUBLIC_KEY on the API (served to browsers for subscribe)
+ * 4. Set VAPID_SUBJECT to a mailto: or https: contact URL
+ *
+ * The web app service worker (apps/web/public/sw.js) renders `{ title, body, url }`.
+ */
+
+import { createECDH, createHmac, createPrivateKey, createCipheriv, randomBytes, sign } from 'node:crypto';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WebPushSubscription {
+  endpoint: string;
+  /** Client public key (base64url, uncompressed P-256 point) */
+  p256dh: string;
+  /** Client auth secret (base64url, 16 bytes) */
+  auth: string;
+}
+
+export interface WebPushPayload {
+  title: string;
+  body: string;
+  url?: string;
+}
+
+export interface WebPushResult {
+  success: boolean;
+  statusCode?: number;
+  /** Push service reports the subscription gone (404/410); delete it */
+  expired?: boolean;
+  error?: string;
+}
+
+export interface WebPushOptions {
+  /** Seconds the push service should hold an undelivered message */
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  timeoutMs?: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const WEB_PUSH_CONFIG = {
+  publicKey: process.env.VAPID_PUBLIC_KEY,
+  privateKey: process.env.VAPID_PRIVATE_KEY,
+  subject: process.env.VAPID_SUBJECT || 'mailto:alerts@ironscout.ai',
+  enabled: !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY),
+};
+
+/** Push services must accept at least 4096 bytes per record */
+const RECORD_SIZE = 4096;
+/** Record size minus the 16-byte GCM tag and 1-byte padding delimiter */
+const MAX_PLAINTEXT_BYTES = RECORD_SIZE - 16 - 1;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+// =============================================================================
+// Core Web Push Function
+// =============================================================================
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: WebPushPayload,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  if (!WEB_PUSH_CONFIG.enabled) {
+    return { success: false, error: 'VAPID keys not configured' };
+  }
+
+  try {
+    const body = encryptPayload(Buffer.from(JSON.stringify(payload), 'utf8'), subscription);
+    const authorization = vapidAuthorization(
+      new URL(subscription.endpoint).origin,
+      WEB_PUSH_CONFIG.publicKey!,
+      WEB_PUSH_CONFIG.privateKey!,
+      WEB_PUSH_CONFIG.subject
+    );
+
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: authorization,
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+        Urgency: options.urgency ?? 'high',
+      },
+      body,
+      // Push services answer directly; never follow a redirect elsewhere
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return { success: false, statusCode: response.status, expired: true, error: 'Subscription expired' };
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      return { success: false, statusCode: response.status, error: text || response.statusText };
+    }
+
+    return { success: true, statusCode: response.status };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message };
+  }
+}
+
+// =============================================================================
+// RFC 8291 / RFC 8292 Helpers
+// =============================================================================
+
+/**
+ * Encrypt a payload as a single aes128gcm record (RFC 8291 section 3.4)
+ * `senderPrivateKey` and `salt` are fixed only to reproduce the RFC 8291 Appendix A vector.
+ */
+export function encryptPayload(
+  plaintext: Buffer,
+  subscription: Pick<WebPushSubscription, 'p256dh' | 'auth'>,
+  fixed: { senderPrivateKey?: Buffer; salt?: Buffer } = {}
+): Buffer {
+  if (plaintext.length > MAX_PLAINTEXT_BYTES) {
+    throw new Error(`Web push payload exceeds ${MAX_PLAINTEXT_BYTES} bytes`);
+  }
+
+  const clientPublicKey = Buffer.from(subscription.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.auth, 'base64url');
+
+  const ecdh = createECDH('prime256v1');
+  if (fixed.senderPrivateKey) {
+    ecdh.setPrivateKey(fixed.senderPrivateKey);
+  } else {
+    ecdh.generateKeys();
+  }
+  const senderPublicKey = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+  const salt = fixed.salt ?? randomBytes(16);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0', 'utf8'),
+    clientPublicKey,
+    senderPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0', 'utf8'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0', 'utf8'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
+
+/**
+ * Build the `vapid` Authorization header (RFC 8292 section 3)
+ */
+export function vapidAuthorization(
+  audience: string,
+  publicKey: string,
+  privateKey: string,
+  subject: string,
+  now: Date = new Date()
+): string {
+  const header = base64urlJson({ typ: 'JWT', alg: 'ES256' });
+  const claims = base64urlJson({
+    aud: audience,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: subject,
+  });
+  const unsigned = `${header}.${claims}`;
+
+  const point = Buffer.from(publicKey, 'base64url');
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: privateKey,
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${publicKey}`;
+}
+
+/** HKDF-SHA256 with a single expand block (length <= 32) */
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  const prk = createHmac('sha256', salt).update(ikm).digest();
+  return createHmac('sha256', prk)
+    .update(Buffer.concat([info, Buffer.from([0x01])]))
+    .digest()
+    .subarray(0, length);
+}
+
+function base64urlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
@@ -2,7 +2,8 @@
  * @ironscout/notifications
  *
  * Unified notification service for IronScout platform.
- * Supports email (Resend) and Slack (Webhooks) channels.
+ * Supports email (Resend), Slack (Webhooks), web push (VAPID), SMS (provider
+ * interface) and user outbound webhook channels.
  *
  * Usage:
  * ```typescript
@@ -24,6 +25,8 @@
  * - SLACK_DATAFEED_ALERTS_WEBHOOK_URL: Optional separate webhook for datafeed alerts
  * - NEXT_PUBLIC_MERCHANT_URL: Merchant portal URL
  * - ADMIN_PORTAL_URL: Admin portal URL
+ * - VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY / VAPID_SUBJECT: Web push sender identity
+ * - SMS_PROVIDER, TWILIO_*: SMS provider selection and credentials
  */
 
 // =============================================================================
@@ -57,6 +60,40 @@ export {
   type SlackBlock,
 } from './channels/slack.js';
 
+export {
+  // Web Push
+  sendWebPush,
+  encryptPayload,
+  vapidAuthorization,
+  WEB_PUSH_CONFIG,
+  type WebPushSubscription,
+  type WebPushPayload,
+  type WebPushResult,
+  type WebPushOptions,
+} from './channels/webpush.js';
+
+export {
+  // SMS
+  sendSms,
+  getSmsProvider,
+  createTwilioProvider,
+  isValidPhoneNumber,
+  SMS_MAX_LENGTH,
+  type SmsProvider,
+  type SmsResult,
+  type TwilioConfig,
+} from './channels/sms.js';
+
+export {
+  // User Webhooks
+  sendWebhook,
+  signWebhookBody,
+  isPublicAddress,
+  type WebhookEvent,
+  type WebhookResult,
+  type SendWebhookOptions,
+} from './channels/webhook.js';
+
 export {
   wrapLoggerWithSlack,
   type ILogger,